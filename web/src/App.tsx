@@ -7,6 +7,10 @@ import BrokerActivityPage from './pages/BrokerActivityPage'
 import ProposalsAndOrders from './pages/ProposalsAndOrders'
 import PortfolioPositions from './pages/PortfolioPositions'
 import DailySummary from './pages/DailySummary'
+import ExecutionAnalytics from './pages/ExecutionAnalytics'
+import AdminSettings from './pages/AdminSettings'
+import AuditLog from './pages/AuditLog'
+import ConfigProfiles from './pages/ConfigProfiles'
 
 function App() {
   return (
@@ -19,6 +23,10 @@ function App() {
         <Route path="proposals" element={<ProposalsAndOrders />} />
         <Route path="portfolio" element={<PortfolioPositions />} />
         <Route path="daily-summary" element={<DailySummary />} />
+        <Route path="execution" element={<ExecutionAnalytics />} />
+        <Route path="settings" element={<AdminSettings />} />
+        <Route path="profiles" element={<ConfigProfiles />} />
+        <Route path="audit" element={<AuditLog />} />
       </Route>
     </Routes>
   )
@@ -15,8 +15,33 @@ import type {
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'https://gekkoworks-api.kevin-mcgovern.workers.dev';
 
+const API_KEY_STORAGE_KEY = 'gekkoworks_api_key';
+
+export function getStoredApiKey(): string | null {
+  return localStorage.getItem(API_KEY_STORAGE_KEY);
+}
+
+export function setStoredApiKey(key: string | null): void {
+  if (key) {
+    localStorage.setItem(API_KEY_STORAGE_KEY, key);
+  } else {
+    localStorage.removeItem(API_KEY_STORAGE_KEY);
+  }
+}
+
+// Bearer API key for the Worker's role checks (see worker/src/http/auth.ts)
+function authHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  const key = getStoredApiKey();
+  return key ? { ...headers, Authorization: `Bearer ${key}` } : headers;
+}
+
+// Free-text reason recorded with the action in the audit trail (worker/src/core/audit.ts)
+function reasonHeader(reason?: string): Record<string, string> {
+  return reason?.trim() ? { 'X-Audit-Reason': reason.trim() } : {};
+}
+
 async function fetchApi<T>(endpoint: string): Promise<T> {
-  const response = await fetch(`${API_BASE_URL}${endpoint}`);
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, { headers: authHeaders() });
   
   if (!response.ok) {
     throw new Error(`API error: ${response.status} ${response.statusText}`);
@@ -25,6 +50,31 @@ async function fetchApi<T>(endpoint: string): Promise<T> {
   return response.json() as Promise<T>;
 }
 
+// POST/DELETE with an optional JSON body; 4xx details are surfaced in the error
+async function sendAdmin<T>(
+  method: 'POST' | 'DELETE',
+  endpoint: string,
+  body?: unknown,
+  reason?: string
+): Promise<T> {
+  const res = await fetch(`${API_BASE_URL}${endpoint}`, {
+    method,
+    headers: authHeaders({
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...reasonHeader(reason),
+    }),
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  if (!res.ok) {
+    const error = await res.json().catch(() => null) as { error?: string; details?: string[] } | null;
+    const detail = error?.details?.length ? `${error.error}: ${error.details.join('; ')}` : error?.error;
+    throw new Error(detail || `API error: ${res.status} ${res.statusText}`);
+  }
+
+  return res.json() as Promise<T>;
+}
+
 export async function getHealth(): Promise<HealthResponse> {
   return fetchApi<HealthResponse>('/health');
 }
@@ -58,6 +108,20 @@ export interface DashboardSummary {
   trades_closed_today: number;
 
   last_updated: string | null;
+
+  config_profile: {
+    active_profile_id: string | null;
+    active_profile_name: string | null;
+    modified_keys: string[];
+    last_switch: {
+      action: ConfigProfileSwitchAction;
+      status: ConfigProfileSwitchStatus;
+      profile_name: string | null;
+      actor: string | null;
+      applied_at: string | null;
+    } | null;
+    next_switch: { profile_name: string | null; activate_at: string } | null;
+  };
 }
 
 export async function getDashboardSummary(): Promise<DashboardSummary> {
@@ -86,9 +150,9 @@ export async function updateSystemMode(
 ): Promise<SystemModeUpdateResponse> {
   const res = await fetch(`${API_BASE_URL}/debug/system-mode`, {
     method: 'POST',
-    headers: {
+    headers: authHeaders({
       'Content-Type': 'application/json',
-    },
+    }),
     body: JSON.stringify({ mode, reason }),
   });
 
@@ -124,9 +188,9 @@ export interface TestProposalResponse {
 export async function runTestProposal(): Promise<TestProposalResponse> {
   const res = await fetch(`${API_BASE_URL}/test/proposal`, {
     method: 'POST',
-    headers: {
+    headers: authHeaders({
       'Content-Type': 'application/json',
-    },
+    }),
   });
 
   if (!res.ok) {
@@ -164,7 +228,7 @@ export interface BrokerEventsResponse {
 }
 
 export async function getBrokerEvents(limit = 100): Promise<BrokerEventsResponse> {
-  const res = await fetch(`${API_BASE_URL}/broker-events?limit=${limit}`);
+  const res = await fetch(`${API_BASE_URL}/broker-events?limit=${limit}`, { headers: authHeaders() });
   if (!res.ok) {
     throw new Error(`Failed to fetch broker events: ${res.status}`);
   }
@@ -175,6 +239,23 @@ export async function getBrokerEvents(limit = 100): Promise<BrokerEventsResponse
   };
 }
 
+export interface ProposalSizing {
+  mode: 'FIXED' | 'RISK_BUDGET';
+  quantity: number;
+  binding: 'FIXED' | 'BUDGET' | 'PER_TRADE_CAP' | 'DAILY_NEW_RISK' | 'MAX_QUANTITY';
+  equity: number | null;
+  equity_source: 'ACCOUNT_BALANCES' | 'ACCOUNT_EQUITY_REFERENCE' | null;
+  risk_fraction: number | null;
+  vol_scale: number | null;
+  score_scale: number | null;
+  risk_budget: number | null;
+  risk_per_contract: number | null;
+  budget_quantity: number | null;
+  per_trade_cap_quantity: number | null;
+  daily_room_quantity: number | null;
+  max_quantity: number;
+}
+
 export interface ProposalWithOrders {
   proposal: {
     id: string;
@@ -197,6 +278,7 @@ export interface ProposalWithOrders {
     min_score_required: number;
     min_credit_required: number;
     proposalKind?: 'ENTRY' | 'EXIT';  // New field
+    sizing?: ProposalSizing | null;
   };
   trade: {
     id: string;
@@ -306,9 +388,9 @@ export interface ResetRiskStateResponse {
 export async function resetRiskState(): Promise<ResetRiskStateResponse> {
   const res = await fetch(`${API_BASE_URL}/test/reset-risk-state`, {
     method: 'POST',
-    headers: {
+    headers: authHeaders({
       'Content-Type': 'application/json',
-    },
+    }),
   });
 
   if (!res.ok) {
@@ -318,16 +400,43 @@ export async function resetRiskState(): Promise<ResetRiskStateResponse> {
   return res.json() as Promise<ResetRiskStateResponse>;
 }
 
+export type SettingType = 'number' | 'integer' | 'boolean' | 'enum' | 'time' | 'string' | 'numberList' | 'json';
+
+// Settings registry entry (worker core/settings.ts)
+export interface SettingDefinition {
+  key: string;
+  type: SettingType;
+  label: string;
+  description: string;
+  category: string;
+  default: string | null;        // null = unset (feature off / no value)
+  min?: number;
+  max?: number;
+  maxItems?: number;
+  options?: string[];
+  legacyKeys?: string[];
+  modeVariants?: Record<string, string>;
+  deprecated?: string;
+  variantOf?: string;            // base key of a mode variant or legacy key
+}
+
+export interface SettingCategoryInfo {
+  id: string;
+  label: string;
+}
+
+export interface EffectiveSetting {
+  value: unknown;
+  source: string;                // key the value came from, or 'default'
+}
+
 export interface SystemSettings {
   timestamp: string;
-  settings: {
-    trading: Record<string, string>;
-    scoring: Record<string, string>;
-    risk: Record<string, string>;
-    exitRules: Record<string, string>;
-    other: Record<string, string>;
-  };
+  settings: Record<string, Record<string, string>>;   // stored values by category
   all: Record<string, string>;
+  schema: SettingDefinition[];
+  categories: SettingCategoryInfo[];
+  effective: Record<string, EffectiveSetting>;
 }
 
 export async function getSystemSettings(): Promise<SystemSettings> {
@@ -348,23 +457,283 @@ export interface UpdateSettingResponse {
 
 export async function updateSystemSetting(
   key: string,
-  value: string
+  value: string,
+  reason?: string
 ): Promise<UpdateSettingResponse> {
   const res = await fetch(`${API_BASE_URL}/v2/admin/settings`, {
     method: 'POST',
-    headers: {
+    headers: authHeaders({
       'Content-Type': 'application/json',
-    },
+      ...reasonHeader(reason),
+    }),
     body: JSON.stringify({ key, value }),
   });
 
   if (!res.ok) {
-    throw new Error(`API error: ${res.status} ${res.statusText}`);
+    const body = await res.json().catch(() => null) as { error?: string; details?: string[] } | null;
+    const detail = body?.details?.join('; ') || body?.error;
+    throw new Error(detail || `API error: ${res.status} ${res.statusText}`);
   }
 
   return res.json() as Promise<UpdateSettingResponse>;
 }
 
+export interface ExitProfileRules {
+  profit_target_fraction: number | null;
+  stop_loss_fraction: number | null;
+  trail_arm_profit_fraction: number | null;
+  trail_giveback_fraction: number | null;
+  time_exit_dte: number | null;
+  time_exit_cutoff: string | null;
+  iv_crush_threshold: number | null;
+  iv_crush_min_pnl: number | null;
+}
+
+export interface ExitProfile extends ExitProfileRules {
+  id: string;
+  strategy: string;
+  symbol: string | null;
+  version: number;
+  active: number;
+  notes: string | null;
+  created_at: string;
+}
+
+// Settings-level rules a strategy inherits when no profile overrides them
+export interface InheritedExitRules {
+  profitTargetFraction: number;
+  stopLossFraction: number;
+  trailArmProfitFraction: number;
+  trailGivebackFraction: number;
+  timeExitDteThreshold: number;
+  timeExitCutoff: string;
+  ivCrushThreshold: number;
+  ivCrushMinPnL: number;
+}
+
+export interface ExitProfilesResponse {
+  timestamp: string;
+  profiles: ExitProfile[];
+  defaults: Record<string, InheritedExitRules>;
+  history?: ExitProfile[];
+}
+
+export interface SaveExitProfileRequest extends Partial<ExitProfileRules> {
+  strategy: string;
+  symbol?: string | null;
+  notes?: string | null;
+}
+
+export async function getExitProfiles(history = false): Promise<ExitProfilesResponse> {
+  return fetchApi<ExitProfilesResponse>(`/v2/admin/exit-profiles${history ? '?history=1' : ''}`);
+}
+
+export async function saveExitProfile(
+  profile: SaveExitProfileRequest,
+  reason?: string
+): Promise<{ timestamp: string; profile: ExitProfile; success: boolean }> {
+  const res = await fetch(`${API_BASE_URL}/v2/admin/exit-profiles`, {
+    method: 'POST',
+    headers: authHeaders({
+      'Content-Type': 'application/json',
+      ...reasonHeader(reason),
+    }),
+    body: JSON.stringify(profile),
+  });
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => null) as { error?: string; details?: string[] } | null;
+    const detail = body?.details?.join('; ') || body?.error;
+    throw new Error(detail || `API error: ${res.status} ${res.statusText}`);
+  }
+
+  return res.json();
+}
+
+export async function deleteExitProfile(strategy: string, symbol: string | null, reason?: string): Promise<void> {
+  const params = new URLSearchParams({ strategy });
+  if (symbol) {
+    params.set('symbol', symbol);
+  }
+  const res = await fetch(`${API_BASE_URL}/v2/admin/exit-profiles?${params.toString()}`, {
+    method: 'DELETE',
+    headers: authHeaders(reasonHeader(reason)),
+  });
+
+  if (!res.ok) {
+    throw new Error(`API error: ${res.status} ${res.statusText}`);
+  }
+}
+
+// Strategy configs (worker/src/strategy/config.ts)
+
+export interface StrategyConfig {
+  id: string;
+  label: string;
+  enabledPaper: boolean;
+  enabledLive: boolean;
+  symbols: string[];
+  dte: { min: number; max: number; measure?: 'CALENDAR' | 'TRADING' };
+  width: number;
+  targetDeltaRange: { min: number; max: number };
+  minCreditFraction: number;
+  maxVerticalSkewSandbox: number;
+  maxVerticalSkewLive: number;
+  minPop?: number;
+  minShortStrikeGap?: number;
+  backDteGap?: { min: number; max: number };
+}
+
+export interface StrategyConfigEntry {
+  strategy: string;
+  config: StrategyConfig;          // in effect
+  default: StrategyConfig;         // seed default
+  version: { id: string; version: number; notes: string | null; created_at: string } | null;
+}
+
+export interface StrategyConfigVersion {
+  id: string;
+  strategy: string;
+  version: number;
+  active: number;
+  config: Omit<StrategyConfig, 'id'>;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface StrategyConfigsResponse {
+  timestamp: string;
+  strategies: StrategyConfigEntry[];
+  history?: StrategyConfigVersion[];
+}
+
+export async function getStrategyConfigs(history = false): Promise<StrategyConfigsResponse> {
+  return fetchApi<StrategyConfigsResponse>(`/v2/admin/strategy-configs${history ? '?history=1' : ''}`);
+}
+
+export async function saveStrategyConfig(
+  strategy: string,
+  config: Omit<StrategyConfig, 'id'>,
+  notes?: string,
+  reason?: string
+): Promise<{ timestamp: string; strategy: string; version: number; config: StrategyConfig; success: boolean }> {
+  return sendAdmin('POST', '/v2/admin/strategy-configs', { strategy, config, notes }, reason);
+}
+
+export async function resetStrategyConfig(strategy: string, reason?: string): Promise<void> {
+  await sendAdmin('DELETE', `/v2/admin/strategy-configs?strategy=${encodeURIComponent(strategy)}`, undefined, reason);
+}
+
+// Configuration profiles (worker/src/core/configProfiles.ts)
+
+export interface ConfigProfile {
+  id: string;
+  name: string;
+  description: string | null;
+  settings: Record<string, string>;
+  strategies: string[] | null;     // null = all strategies
+  created_at: string;
+  updated_at: string;
+}
+
+export type ConfigProfileSwitchAction = 'APPLY' | 'ROLLBACK';
+
+export type ConfigProfileSwitchStatus =
+  | 'SCHEDULED'
+  | 'APPLYING'
+  | 'APPLIED'
+  | 'ROLLED_BACK'
+  | 'CANCELLED'
+  | 'FAILED';
+
+export interface ConfigValueChange {
+  key: string;
+  from: string | null;             // null = unset (default applies)
+  to: string | null;
+}
+
+export interface ConfigProfileSwitch {
+  id: string;
+  action: ConfigProfileSwitchAction;
+  status: ConfigProfileSwitchStatus;
+  profile_id: string | null;
+  profile_name: string | null;
+  previous_profile_id: string | null;
+  previous_profile_name: string | null;
+  rollback_of: string | null;
+  activate_at: string;
+  changes: ConfigValueChange[] | null;
+  actor: string | null;
+  reason: string | null;
+  error: string | null;
+  created_at: string;
+  applied_at: string | null;
+}
+
+export interface ConfigProfilesResponse {
+  timestamp: string;
+  profiles: ConfigProfile[];
+  status: {
+    active_profile_id: string | null;
+    active_profile_name: string | null;
+    last_switch: ConfigProfileSwitch | null;
+    pending: ConfigProfileSwitch[];
+    modified_keys: string[];
+  };
+  switches: ConfigProfileSwitch[];
+  setting_keys: string[];
+  strategy_ids: string[];
+}
+
+export interface SaveConfigProfileRequest {
+  id?: string;
+  name: string;
+  description?: string | null;
+  settings?: Record<string, string>;
+  strategies?: string[] | null;
+  from_current?: boolean;
+}
+
+export async function getConfigProfiles(): Promise<ConfigProfilesResponse> {
+  return fetchApi<ConfigProfilesResponse>('/v2/admin/config-profiles');
+}
+
+export async function saveConfigProfile(
+  profile: SaveConfigProfileRequest,
+  reason?: string
+): Promise<{ timestamp: string; profile: ConfigProfile; success: boolean }> {
+  return sendAdmin('POST', '/v2/admin/config-profiles', profile, reason);
+}
+
+export async function deleteConfigProfile(id: string, reason?: string): Promise<void> {
+  await sendAdmin('DELETE', `/v2/admin/config-profiles?id=${encodeURIComponent(id)}`, undefined, reason);
+}
+
+export async function getConfigProfileDiff(
+  id: string
+): Promise<{ timestamp: string; profile: ConfigProfile; changes: ConfigValueChange[] }> {
+  return fetchApi(`/v2/admin/config-profiles/diff?id=${encodeURIComponent(id)}`);
+}
+
+// Without activateAt the profile applies immediately
+export async function applyConfigProfile(
+  id: string,
+  activateAt?: string,
+  reason?: string
+): Promise<{ timestamp: string; switch: ConfigProfileSwitch; success: boolean }> {
+  return sendAdmin('POST', '/v2/admin/config-profiles/apply', { id, activate_at: activateAt }, reason);
+}
+
+export async function rollbackConfigProfile(
+  reason?: string
+): Promise<{ timestamp: string; switch: ConfigProfileSwitch; success: boolean }> {
+  return sendAdmin('POST', '/v2/admin/config-profiles/rollback', {}, reason);
+}
+
+export async function cancelConfigProfileSwitch(switchId: string, reason?: string): Promise<void> {
+  await sendAdmin('POST', '/v2/admin/config-profiles/cancel', { switch_id: switchId }, reason);
+}
+
 export interface PortfolioPosition {
   id: string;
   symbol: string;
@@ -485,9 +854,9 @@ export async function generateDailySummary(date?: string): Promise<DailySummary>
   
   const res = await fetch(`${API_BASE_URL}${endpoint}`, {
     method: 'POST',
-    headers: {
+    headers: authHeaders({
       'Content-Type': 'application/json',
-    },
+    }),
   });
 
   if (!res.ok) {
@@ -498,3 +867,181 @@ export async function generateDailySummary(date?: string): Promise<DailySummary>
   return res.json() as Promise<DailySummary>;
 }
 
+
+// Execution Analytics API
+
+export type ExecutionSliceDimension = 'strategy' | 'symbol' | 'side' | 'time_of_day' | 'exit_trigger';
+
+export interface ExecutionStats {
+  orders: number;
+  filled: number;
+  cancelled: number;
+  rejected: number;
+  working: number;
+  partial: number;
+  fill_rate: number | null;
+  cancel_rate: number | null;
+  reject_rate: number | null;
+  partial_rate: number | null;
+  attempts: number;
+  attempts_filled: number;
+  attempt_fill_rate: number | null;
+  avg_slippage_vs_mid: number | null;
+  avg_slippage_vs_natural: number | null;
+  avg_time_to_fill_ms: number | null;
+  median_time_to_fill_ms: number | null;
+}
+
+export interface ExecutionOrderMetrics {
+  order_id: string;
+  proposal_id: string;
+  side: 'ENTRY' | 'EXIT';
+  strategy: string;
+  symbol: string;
+  status: string;
+  walk_step: number | null;
+  created_at: string;
+  time_of_day: string;
+  exit_trigger: string | null;
+  fill_price: number | null;
+  reference_mid: number | null;
+  natural_price: number | null;
+  slippage_vs_mid: number | null;
+  slippage_vs_natural: number | null;
+  time_to_fill_ms: number | null;
+  partial: boolean;
+}
+
+export interface ExecutionAnalyticsResponse {
+  timestamp: string;
+  days: number;
+  since: string;
+  overall: ExecutionStats;
+  slices: Record<ExecutionSliceDimension, Array<{ key: string; stats: ExecutionStats }>>;
+  orders: ExecutionOrderMetrics[];
+}
+
+export async function getExecutionAnalytics(days = 30, limit = 100): Promise<ExecutionAnalyticsResponse> {
+  return fetchApi<ExecutionAnalyticsResponse>(`/v2/execution-analytics?days=${days}&limit=${limit}`);
+}
+
+export interface BetaEstimate {
+  symbol: string;
+  beta: number;
+  correlation: number | null;
+  observations: number;
+  source: 'REFERENCE' | 'ESTIMATED' | 'DEFAULT';
+}
+
+export interface GreekTotals {
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+}
+
+export interface SymbolGreeks extends GreekTotals {
+  symbol: string;
+  underlying_price: number | null;
+  beta: number;
+  spy_weighted_delta: number | null;
+}
+
+export interface BetaExposureResponse {
+  spy_price: number | null;
+  spy_weighted_delta: number | null;
+  target_band: { min: number; max: number } | null;
+  band_status: 'BELOW' | 'INSIDE' | 'ABOVE' | null;
+  net: GreekTotals;
+  betas: BetaEstimate[];
+  by_symbol: SymbolGreeks[];
+  positions: number;
+  missing_greeks: number;
+  timestamp: string;
+}
+
+export async function getBetaExposure(): Promise<BetaExposureResponse> {
+  return fetchApi<BetaExposureResponse>('/debug/beta-exposure');
+}
+
+// Auth API
+
+export type AuthRole = 'viewer' | 'operator' | 'admin';
+
+export interface AuthMeResponse {
+  timestamp: string;
+  name: string | null;
+  role: AuthRole | null;
+}
+
+export async function getAuthMe(): Promise<AuthMeResponse> {
+  return fetchApi<AuthMeResponse>('/v2/auth/me');
+}
+
+// Audit API
+
+export type AuditTargetType =
+  | 'trade'
+  | 'settings'
+  | 'risk_state'
+  | 'exit_profile'
+  | 'strategy_config'
+  | 'config_profile'
+  | 'request';
+
+export type AuditSection =
+  | 'settings'
+  | 'risk_state'
+  | 'trade'
+  | 'exit_profiles'
+  | 'strategy_configs'
+  | 'config_profiles'
+  | 'config_profile_switches';
+
+// before/after hold only changed keys (config sections: changed rows), grouped by section
+export type AuditValues = Partial<Record<AuditSection, Record<string, unknown>>>;
+
+export interface AuditLogEntry {
+  id: string;
+  created_at: string;
+  actor: string | null;
+  actor_role: AuthRole | null;
+  method: string;
+  path: string;
+  query: string | null;
+  status_code: number;
+  reason: string | null;
+  request_body: unknown;
+  target_type: AuditTargetType;
+  target_id: string | null;
+  before_value: AuditValues | null;
+  after_value: AuditValues | null;
+}
+
+export interface AuditLogResponse {
+  timestamp: string;
+  count: number;
+  limit: number;
+  entries: AuditLogEntry[];
+}
+
+export interface AuditLogFilters {
+  actor?: string;
+  path?: string;
+  target_type?: string;
+  target_id?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+export async function getAuditLog(filters: AuditLogFilters = {}): Promise<AuditLogResponse> {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+  const query = params.toString();
+  return fetchApi<AuditLogResponse>(`/v2/audit-log${query ? `?${query}` : ''}`);
+}
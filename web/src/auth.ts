@@ -0,0 +1,38 @@
+/**
+ * Signed-in user context
+ *
+ * The API key is kept in localStorage and sent by every api.ts call; the role comes
+ * from /v2/auth/me. Pages use hasRole to hide controls the Worker would reject
+ * (403) - the Worker enforces the roles either way.
+ */
+
+import { createContext, useContext } from 'react';
+import type { AuthRole } from './api';
+
+const ROLE_RANK: Record<AuthRole, number> = { viewer: 1, operator: 2, admin: 3 };
+
+export interface AuthState {
+  name: string | null;
+  role: AuthRole | null;
+  loading: boolean;
+  error: string | null;
+  signIn: (apiKey: string) => void;
+  signOut: () => void;
+}
+
+export const AuthContext = createContext<AuthState>({
+  name: null,
+  role: null,
+  loading: false,
+  error: null,
+  signIn: () => {},
+  signOut: () => {},
+});
+
+export function useAuth(): AuthState {
+  return useContext(AuthContext);
+}
+
+export function hasRole(role: AuthRole | null, required: AuthRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
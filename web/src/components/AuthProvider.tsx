@@ -0,0 +1,54 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { getAuthMe, getStoredApiKey, setStoredApiKey, type AuthRole } from '../api';
+import { AuthContext } from '../auth';
+
+export default function AuthProvider({ children }: { children: ReactNode }) {
+  const [name, setName] = useState<string | null>(null);
+  const [role, setRole] = useState<AuthRole | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [keyVersion, setKeyVersion] = useState(0);
+
+  useEffect(() => {
+    async function fetchMe() {
+      if (!getStoredApiKey()) {
+        setName(null);
+        setRole(null);
+        setLoading(false);
+        return;
+      }
+      try {
+        setLoading(true);
+        const me = await getAuthMe();
+        setName(me.name);
+        setRole(me.role);
+        setError(null);
+      } catch (err) {
+        setName(null);
+        setRole(null);
+        setError(err instanceof Error ? err.message : 'Sign-in failed');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchMe();
+  }, [keyVersion]);
+
+  const signIn = (apiKey: string) => {
+    setStoredApiKey(apiKey.trim());
+    setKeyVersion(v => v + 1);
+  };
+
+  const signOut = () => {
+    setStoredApiKey(null);
+    setError(null);
+    setKeyVersion(v => v + 1);
+  };
+
+  return (
+    <AuthContext.Provider value={{ name, role, loading, error, signIn, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
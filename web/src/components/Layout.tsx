@@ -1,6 +1,48 @@
+import { useState, type FormEvent } from 'react';
 import { Link, Outlet } from 'react-router-dom';
+import { useAuth } from '../auth';
+
+function SignIn() {
+  const { signIn, error } = useAuth();
+  const [apiKey, setApiKey] = useState('');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (apiKey.trim()) {
+      signIn(apiKey);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto mt-16 bg-white rounded-lg shadow p-6">
+      <h1 className="text-xl font-bold text-gray-900 mb-2">Sign in</h1>
+      <p className="text-sm text-gray-500 mb-4">
+        Enter the API key issued for you (an API_KEYS entry on the Worker).
+      </p>
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <input
+          type="password"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          placeholder="API key"
+          autoComplete="current-password"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+        />
+        {error && <div className="text-sm text-red-600">{error}</div>}
+        <button
+          type="submit"
+          className="w-full px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-md hover:bg-blue-700"
+        >
+          Sign in
+        </button>
+      </form>
+    </div>
+  );
+}
 
 export default function Layout() {
+  const { name, role, loading, signOut } = useAuth();
+
   return (
     <div className="min-h-screen bg-gray-50">
       <nav className="bg-white shadow-sm border-b border-gray-200">
@@ -49,13 +91,52 @@ export default function Layout() {
                 >
                   Daily Summary
                 </Link>
+                <Link
+                  to="/execution"
+                  className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                >
+                  Execution
+                </Link>
+                <Link
+                  to="/settings"
+                  className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                >
+                  Settings
+                </Link>
+                <Link
+                  to="/profiles"
+                  className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                >
+                  Profiles
+                </Link>
+                <Link
+                  to="/audit"
+                  className="border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700 inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium"
+                >
+                  Audit
+                </Link>
               </div>
             </div>
+            {role && (
+              <div className="flex items-center space-x-3 text-sm">
+                <span className="text-gray-700">{name}</span>
+                <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-100 text-gray-700">{role}</span>
+                <button onClick={signOut} className="text-gray-500 hover:text-gray-700">
+                  Sign out
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </nav>
       <main>
-        <Outlet />
+        {loading ? (
+          <div className="p-8 text-gray-500">Loading...</div>
+        ) : role ? (
+          <Outlet />
+        ) : (
+          <SignIn />
+        )}
       </main>
     </div>
   );
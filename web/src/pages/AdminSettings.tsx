@@ -1,159 +1,668 @@
 import { useEffect, useState } from 'react';
-import { getSystemSettings, updateSystemSetting } from '../api';
-import type { SystemSettings } from '../api';
+import { Link } from 'react-router-dom';
+import {
+  getSystemSettings,
+  updateSystemSetting,
+  getExitProfiles,
+  saveExitProfile,
+  deleteExitProfile,
+  getStrategyConfigs,
+  saveStrategyConfig,
+  resetStrategyConfig,
+} from '../api';
+import { useAuth, hasRole } from '../auth';
+import type {
+  SystemSettings,
+  SettingDefinition,
+  ExitProfile,
+  ExitProfileRules,
+  ExitProfilesResponse,
+  InheritedExitRules,
+  StrategyConfig,
+  StrategyConfigsResponse,
+} from '../api';
 
-interface SettingField {
-  key: string;
+function formatSettingValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'not set';
+  }
+  if (Array.isArray(value)) {
+    return value.join(',');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function describeRange(definition: SettingDefinition): string | null {
+  if (definition.min !== undefined && definition.max !== undefined) {
+    return `${definition.min} to ${definition.max}`;
+  }
+  if (definition.min !== undefined) {
+    return `at least ${definition.min}`;
+  }
+  if (definition.max !== undefined) {
+    return `at most ${definition.max}`;
+  }
+  return null;
+}
+
+interface ExitProfileField {
+  column: keyof ExitProfileRules;
+  inherited: keyof InheritedExitRules;
   label: string;
-  description: string;
-  type: 'text' | 'number' | 'select';
-  options?: string[];
-  category: 'trading' | 'scoring' | 'risk' | 'exitRules' | 'other';
+  type: 'number' | 'text';
 }
 
-const SETTING_FIELDS: SettingField[] = [
-  // Trading
-  {
-    key: 'TRADING_MODE',
-    label: 'Trading Mode',
-    description: 'Current trading mode (DRY_RUN, SANDBOX_PAPER, LIVE)',
-    type: 'select',
-    options: ['DRY_RUN', 'SANDBOX_PAPER', 'LIVE'],
-    category: 'trading',
-  },
-  {
-    key: 'AUTO_MODE_ENABLED_PAPER',
-    label: 'Auto Mode (Paper)',
-    description: 'Enable auto-execution in SANDBOX_PAPER mode',
-    type: 'select',
-    options: ['true', 'false'],
-    category: 'trading',
-  },
-  {
-    key: 'AUTO_MODE_ENABLED_LIVE',
-    label: 'Auto Mode (Live)',
-    description: 'Enable auto-execution in LIVE mode',
-    type: 'select',
-    options: ['true', 'false'],
-    category: 'trading',
-  },
-  // Scoring
-  {
-    key: 'MIN_SCORE_PAPER',
-    label: 'Min Score (Paper)',
-    description: 'Minimum score threshold for PAPER mode (0-1 scale)',
-    type: 'number',
-    category: 'scoring',
-  },
-  {
-    key: 'MIN_SCORE_LIVE',
-    label: 'Min Score (Live)',
-    description: 'Minimum score threshold for LIVE mode (0-100 scale)',
-    type: 'number',
-    category: 'scoring',
-  },
-  // Risk
-  {
-    key: 'MAX_NEW_TRADES_PER_DAY',
-    label: 'Max New Trades Per Day',
-    description: 'Maximum number of new trades allowed per day',
-    type: 'number',
-    category: 'risk',
-  },
-  {
-    key: 'MAX_OPEN_SPREADS_GLOBAL',
-    label: 'Max Open Spreads',
-    description: 'Maximum number of open spreads allowed simultaneously',
-    type: 'number',
-    category: 'risk',
-  },
-  {
-    key: 'MAX_DAILY_LOSS_PCT',
-    label: 'Max Daily Loss %',
-    description: 'Maximum daily loss as percentage of account equity (e.g., 0.02 = 2%)',
-    type: 'number',
-    category: 'risk',
-  },
-  {
-    key: 'ACCOUNT_EQUITY_REFERENCE',
-    label: 'Account Equity Reference',
-    description: 'Reference account equity for risk calculations',
-    type: 'number',
-    category: 'risk',
-  },
-  // Exit Rules
-  {
-    key: 'CLOSE_RULE_PROFIT_TARGET_FRACTION',
-    label: 'Profit Target Fraction',
-    description: 'Profit target as fraction of max gain (e.g., 0.35 = 35%)',
-    type: 'number',
-    category: 'exitRules',
-  },
-  {
-    key: 'CLOSE_RULE_STOP_LOSS_FRACTION',
-    label: 'Stop Loss Fraction',
-    description: 'Stop loss as fraction of max loss (e.g., -0.30 = -30%)',
-    type: 'number',
-    category: 'exitRules',
-  },
-  {
-    key: 'CLOSE_RULE_TIME_EXIT_DTE',
-    label: 'Time Exit DTE',
-    description: 'Days to expiration threshold for time-based exit',
-    type: 'number',
-    category: 'exitRules',
-  },
-  {
-    key: 'CLOSE_RULE_TIME_EXIT_CUTOFF',
-    label: 'Time Exit Cutoff',
-    description: 'Time cutoff for time-based exit (HH:MM format, ET)',
-    type: 'text',
-    category: 'exitRules',
-  },
-  {
-    key: 'CLOSE_RULE_IV_CRUSH_THRESHOLD',
-    label: 'IV Crush Threshold',
-    description: 'IV crush threshold (e.g., 0.85 = 85% of entry IV)',
-    type: 'number',
-    category: 'exitRules',
-  },
-  {
-    key: 'CLOSE_RULE_IV_CRUSH_MIN_PNL',
-    label: 'IV Crush Min PnL',
-    description: 'Minimum PnL required to trigger IV crush exit (e.g., 0.15 = 15%)',
-    type: 'number',
-    category: 'exitRules',
-  },
-  {
-    key: 'CLOSE_RULE_TRAIL_ARM_PROFIT_FRACTION',
-    label: 'Trail Arm Profit Fraction',
-    description: 'Profit fraction to start trailing (e.g., 0.25 = 25%)',
-    type: 'number',
-    category: 'exitRules',
-  },
-  {
-    key: 'CLOSE_RULE_TRAIL_GIVEBACK_FRACTION',
-    label: 'Trail Giveback Fraction',
-    description: 'Giveback fraction to trigger exit (e.g., 0.10 = 10%)',
-    type: 'number',
-    category: 'exitRules',
-  },
-  // Other
-  {
-    key: 'DEFAULT_TRADE_QUANTITY',
-    label: 'Default Trade Quantity',
-    description: 'Default number of contracts per trade',
-    type: 'number',
-    category: 'other',
-  },
+const EXIT_PROFILE_FIELDS: ExitProfileField[] = [
+  { column: 'profit_target_fraction', inherited: 'profitTargetFraction', label: 'Profit Target Fraction', type: 'number' },
+  { column: 'stop_loss_fraction', inherited: 'stopLossFraction', label: 'Stop Loss Fraction', type: 'number' },
+  { column: 'trail_arm_profit_fraction', inherited: 'trailArmProfitFraction', label: 'Trail Arm Profit Fraction', type: 'number' },
+  { column: 'trail_giveback_fraction', inherited: 'trailGivebackFraction', label: 'Trail Giveback Fraction', type: 'number' },
+  { column: 'time_exit_dte', inherited: 'timeExitDteThreshold', label: 'Time Exit DTE', type: 'number' },
+  { column: 'time_exit_cutoff', inherited: 'timeExitCutoff', label: 'Time Exit Cutoff (ET)', type: 'text' },
+  { column: 'iv_crush_threshold', inherited: 'ivCrushThreshold', label: 'IV Crush Threshold', type: 'number' },
+  { column: 'iv_crush_min_pnl', inherited: 'ivCrushMinPnL', label: 'IV Crush Min PnL', type: 'number' },
 ];
 
+type ExitProfileForm = { strategy: string; symbol: string; notes: string } & Record<keyof ExitProfileRules, string>;
+
+function emptyExitProfileForm(strategy: string): ExitProfileForm {
+  const form = { strategy, symbol: '', notes: '' } as ExitProfileForm;
+  for (const field of EXIT_PROFILE_FIELDS) {
+    form[field.column] = '';
+  }
+  return form;
+}
+
+/**
+ * Exit profiles: per-strategy / per-symbol exit rules (blank = inherit).
+ * Saving creates a new version; open trades keep the rules they were opened with.
+ */
+function ExitProfilesSection({ readOnly, reason }: { readOnly: boolean; reason: string }) {
+  const [data, setData] = useState<ExitProfilesResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<ExitProfileForm | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  async function loadProfiles() {
+    try {
+      setError(null);
+      const response = await getExitProfiles(true);
+      setData(response);
+      setForm(prev => prev ?? emptyExitProfileForm(Object.keys(response.defaults)[0] ?? ''));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load exit profiles');
+    }
+  }
+
+  function editProfile(profile: ExitProfile) {
+    const next = emptyExitProfileForm(profile.strategy);
+    next.symbol = profile.symbol ?? '';
+    next.notes = profile.notes ?? '';
+    for (const field of EXIT_PROFILE_FIELDS) {
+      const value = profile[field.column];
+      next[field.column] = value === null ? '' : String(value);
+    }
+    setForm(next);
+  }
+
+  async function handleSave() {
+    if (!form) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const rules: Partial<ExitProfileRules> = {};
+      for (const field of EXIT_PROFILE_FIELDS) {
+        const raw = form[field.column].trim();
+        if (raw === '') {
+          continue; // Inherit
+        }
+        if (field.type === 'number') {
+          (rules as Record<string, number>)[field.column] = Number(raw);
+        } else {
+          (rules as Record<string, string>)[field.column] = raw;
+        }
+      }
+      await saveExitProfile({
+        ...rules,
+        strategy: form.strategy,
+        symbol: form.symbol.trim() || null,
+        notes: form.notes.trim() || null,
+      }, reason);
+      await loadProfiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save exit profile');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRemove(profile: ExitProfile) {
+    try {
+      setError(null);
+      await deleteExitProfile(profile.strategy, profile.symbol, reason);
+      await loadProfiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove exit profile');
+    }
+  }
+
+  const inherited = form && data ? data.defaults[form.strategy] : undefined;
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4 border-b pb-2">
+        Exit Profiles
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Per-strategy exit rules, optionally per symbol. Blank fields inherit the strategy-wide
+        profile, then the Exit Rules settings above. Open trades keep the rules they were opened with.
+      </p>
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      {data && data.profiles.length > 0 && (
+        <div className="mb-6 overflow-x-auto bg-white rounded-lg shadow">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Strategy</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Symbol</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Version</th>
+                {EXIT_PROFILE_FIELDS.map(field => (
+                  <th key={field.column} className="px-3 py-2 text-left font-medium text-gray-700">
+                    {field.label}
+                  </th>
+                ))}
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {data.profiles.map(profile => (
+                <tr key={profile.id} className="border-t">
+                  <td className="px-3 py-2">{profile.strategy}</td>
+                  <td className="px-3 py-2">{profile.symbol ?? 'All'}</td>
+                  <td className="px-3 py-2">v{profile.version}</td>
+                  {EXIT_PROFILE_FIELDS.map(field => (
+                    <td key={field.column} className="px-3 py-2">
+                      {profile[field.column] ?? <span className="text-gray-400">inherit</span>}
+                    </td>
+                  ))}
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {!readOnly && (
+                      <>
+                        <button
+                          onClick={() => editProfile(profile)}
+                          className="mr-2 text-blue-600 hover:text-blue-800"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleRemove(profile)}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          Remove
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {form && data && !readOnly && (
+        <div className="mb-6 p-4 bg-white rounded-lg shadow">
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <label className="block text-sm font-medium text-gray-700">
+              Strategy
+              <select
+                value={form.strategy}
+                onChange={(e) => setForm({ ...form, strategy: e.target.value })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {Object.keys(data.defaults).map(strategy => (
+                  <option key={strategy} value={strategy}>
+                    {strategy}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Symbol
+              <input
+                type="text"
+                value={form.symbol}
+                onChange={(e) => setForm({ ...form, symbol: e.target.value })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="All symbols"
+              />
+            </label>
+            {EXIT_PROFILE_FIELDS.map(field => (
+              <label key={field.column} className="block text-sm font-medium text-gray-700">
+                {field.label}
+                <input
+                  type={field.type}
+                  step="any"
+                  value={form[field.column]}
+                  onChange={(e) => setForm({ ...form, [field.column]: e.target.value })}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder={inherited ? `Inherit (${inherited[field.inherited]})` : 'Inherit'}
+                />
+              </label>
+            ))}
+          </div>
+          <label className="block text-sm font-medium text-gray-700 mb-4">
+            Notes
+            <input
+              type="text"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving || !form.strategy}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              {saving ? 'Saving...' : 'Save New Version'}
+            </button>
+            <button
+              onClick={() => setForm(emptyExitProfileForm(form.strategy))}
+              className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+      )}
+
+      {data?.history && data.history.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            {showHistory ? 'Hide' : 'Show'} version history ({data.history.length})
+          </button>
+          {showHistory && (
+            <ul className="mt-2 text-sm text-gray-700">
+              {data.history.map(profile => (
+                <li key={profile.id} className="py-1 border-b">
+                  {profile.strategy} / {profile.symbol ?? 'All'} v{profile.version}
+                  {profile.active ? ' (active)' : ''} — {new Date(profile.created_at).toLocaleString()}
+                  {profile.notes ? ` — ${profile.notes}` : ''}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+type StrategyConfigForm = {
+  strategy: string;
+  label: string;
+  enabledPaper: boolean;
+  enabledLive: boolean;
+  symbols: string;
+  dteMin: string;
+  dteMax: string;
+  dteMeasure: string;
+  width: string;
+  deltaMin: string;
+  deltaMax: string;
+  minCreditFraction: string;
+  maxVerticalSkewSandbox: string;
+  maxVerticalSkewLive: string;
+  minPop: string;
+  minShortStrikeGap: string;
+  backDteGapMin: string;
+  backDteGapMax: string;
+  notes: string;
+};
+
+function toStrategyConfigForm(strategy: string, config: StrategyConfig): StrategyConfigForm {
+  const text = (value: number | undefined) => (value === undefined ? '' : String(value));
+  return {
+    strategy,
+    label: config.label,
+    enabledPaper: config.enabledPaper,
+    enabledLive: config.enabledLive,
+    symbols: config.symbols.join(', '),
+    dteMin: text(config.dte.min),
+    dteMax: text(config.dte.max),
+    dteMeasure: config.dte.measure ?? '',
+    width: text(config.width),
+    deltaMin: text(config.targetDeltaRange.min),
+    deltaMax: text(config.targetDeltaRange.max),
+    minCreditFraction: text(config.minCreditFraction),
+    maxVerticalSkewSandbox: text(config.maxVerticalSkewSandbox),
+    maxVerticalSkewLive: text(config.maxVerticalSkewLive),
+    minPop: text(config.minPop),
+    minShortStrikeGap: text(config.minShortStrikeGap),
+    backDteGapMin: text(config.backDteGap?.min),
+    backDteGapMax: text(config.backDteGap?.max),
+    notes: '',
+  };
+}
+
+function fromStrategyConfigForm(form: StrategyConfigForm, defaults: StrategyConfig): Omit<StrategyConfig, 'id'> {
+  return {
+    label: form.label,
+    enabledPaper: form.enabledPaper,
+    enabledLive: form.enabledLive,
+    symbols: form.symbols.split(',').map(symbol => symbol.trim()).filter(Boolean),
+    dte: {
+      min: Number(form.dteMin),
+      max: Number(form.dteMax),
+      ...(form.dteMeasure ? { measure: form.dteMeasure as 'CALENDAR' | 'TRADING' } : {}),
+    },
+    width: Number(form.width),
+    targetDeltaRange: { min: Number(form.deltaMin), max: Number(form.deltaMax) },
+    minCreditFraction: Number(form.minCreditFraction),
+    maxVerticalSkewSandbox: Number(form.maxVerticalSkewSandbox),
+    maxVerticalSkewLive: Number(form.maxVerticalSkewLive),
+    ...(form.minPop.trim() ? { minPop: Number(form.minPop) } : {}),
+    ...(defaults.minShortStrikeGap !== undefined ? { minShortStrikeGap: Number(form.minShortStrikeGap) } : {}),
+    ...(defaults.backDteGap !== undefined
+      ? { backDteGap: { min: Number(form.backDteGapMin), max: Number(form.backDteGapMax) } }
+      : {}),
+  };
+}
+
+/**
+ * Strategy configs: symbols, DTE window, width, delta band, credit and skew limits and
+ * enablement per strategy. Saving creates a new version; Reset goes back to the built-in default.
+ */
+function StrategyConfigsSection({ readOnly, reason }: { readOnly: boolean; reason: string }) {
+  const [data, setData] = useState<StrategyConfigsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<StrategyConfigForm | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  useEffect(() => {
+    loadConfigs();
+  }, []);
+
+  async function loadConfigs() {
+    try {
+      setError(null);
+      setData(await getStrategyConfigs(true));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load strategy configs');
+    }
+  }
+
+  async function handleSave() {
+    const entry = data?.strategies.find(s => s.strategy === form?.strategy);
+    if (!form || !entry) return;
+    try {
+      setSaving(true);
+      setError(null);
+      await saveStrategyConfig(form.strategy, fromStrategyConfigForm(form, entry.default), form.notes.trim() || undefined, reason);
+      setForm(null);
+      await loadConfigs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save strategy config');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleReset(strategy: string) {
+    try {
+      setError(null);
+      await resetStrategyConfig(strategy, reason);
+      setForm(null);
+      await loadConfigs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset strategy config');
+    }
+  }
+
+  const editing = form ? data?.strategies.find(s => s.strategy === form.strategy) : undefined;
+  const inputClass = 'mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  function numberField(key: keyof StrategyConfigForm, label: string, placeholder?: string) {
+    if (!form) return null;
+    return (
+      <label key={key} className="block text-sm font-medium text-gray-700">
+        {label}
+        <input
+          type="number"
+          step="any"
+          value={form[key] as string}
+          onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+          className={inputClass}
+          placeholder={placeholder}
+        />
+      </label>
+    );
+  }
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-xl font-semibold text-gray-800 mb-4 border-b pb-2">
+        Strategy Configs
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Symbols, DTE window, width, delta band, credit and skew limits and paper/live enablement for each
+        strategy. Put credit strategies use negative (raw) deltas; the others use positive values. Saved
+        versions apply from the next proposal cycle; Reset returns a strategy to its built-in default.
+      </p>
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      {data && (
+        <div className="mb-6 overflow-x-auto bg-white rounded-lg shadow">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Strategy</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Version</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Paper</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Live</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Symbols</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">DTE</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Width</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Delta</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Min Credit</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {data.strategies.map(({ strategy, config, version }) => (
+                <tr key={strategy} className="border-t">
+                  <td className="px-3 py-2">{config.label}</td>
+                  <td className="px-3 py-2">
+                    {version ? `v${version.version}` : <span className="text-gray-400">default</span>}
+                  </td>
+                  <td className="px-3 py-2">{config.enabledPaper ? 'On' : 'Off'}</td>
+                  <td className="px-3 py-2">{config.enabledLive ? 'On' : 'Off'}</td>
+                  <td className="px-3 py-2">{config.symbols.join(', ')}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {config.dte.min}–{config.dte.max}{config.dte.measure === 'TRADING' ? ' sessions' : ''}
+                  </td>
+                  <td className="px-3 py-2">{config.width}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {config.targetDeltaRange.min} to {config.targetDeltaRange.max}
+                  </td>
+                  <td className="px-3 py-2">{config.minCreditFraction}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {!readOnly && (
+                      <>
+                        <button
+                          onClick={() => setForm(toStrategyConfigForm(strategy, config))}
+                          className="mr-2 text-blue-600 hover:text-blue-800"
+                        >
+                          Edit
+                        </button>
+                        {version && (
+                          <button
+                            onClick={() => handleReset(strategy)}
+                            className="text-red-600 hover:text-red-800"
+                          >
+                            Reset
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {form && editing && !readOnly && (
+        <div className="mb-6 p-4 bg-white rounded-lg shadow">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">{form.strategy}</h3>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <label className="block text-sm font-medium text-gray-700">
+              Label
+              <input
+                type="text"
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <div className="flex items-end gap-6 text-sm font-medium text-gray-700">
+              <label className="inline-flex items-center">
+                <input
+                  type="checkbox"
+                  checked={form.enabledPaper}
+                  onChange={(e) => setForm({ ...form, enabledPaper: e.target.checked })}
+                  className="mr-2"
+                />
+                Enabled (paper)
+              </label>
+              <label className="inline-flex items-center">
+                <input
+                  type="checkbox"
+                  checked={form.enabledLive}
+                  onChange={(e) => setForm({ ...form, enabledLive: e.target.checked })}
+                  className="mr-2"
+                />
+                Enabled (live)
+              </label>
+            </div>
+            <label className="block text-sm font-medium text-gray-700 col-span-2">
+              Symbols (comma separated)
+              <input
+                type="text"
+                value={form.symbols}
+                onChange={(e) => setForm({ ...form, symbols: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            {numberField('dteMin', 'DTE Min')}
+            {numberField('dteMax', 'DTE Max')}
+            <label className="block text-sm font-medium text-gray-700">
+              DTE Measure
+              <select
+                value={form.dteMeasure}
+                onChange={(e) => setForm({ ...form, dteMeasure: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Calendar days (default)</option>
+                <option value="CALENDAR">CALENDAR</option>
+                <option value="TRADING">TRADING (sessions left)</option>
+              </select>
+            </label>
+            {numberField('width', editing.default.width === 0 ? 'Width (0: same strike)' : 'Width')}
+            {numberField('deltaMin', 'Target Delta Min')}
+            {numberField('deltaMax', 'Target Delta Max')}
+            {numberField('minCreditFraction', 'Min Credit Fraction')}
+            {numberField('minPop', 'Min POP', 'Default (0.65)')}
+            {numberField('maxVerticalSkewSandbox', 'Max Vertical Skew (sandbox)')}
+            {numberField('maxVerticalSkewLive', 'Max Vertical Skew (live)')}
+            {editing.default.minShortStrikeGap !== undefined && numberField('minShortStrikeGap', 'Min Short Strike Gap')}
+            {editing.default.backDteGap !== undefined && numberField('backDteGapMin', 'Back Month Gap Min (days)')}
+            {editing.default.backDteGap !== undefined && numberField('backDteGapMax', 'Back Month Gap Max (days)')}
+          </div>
+          <p className="mb-4 text-xs text-gray-500">
+            Default delta band: {editing.default.targetDeltaRange.min} to {editing.default.targetDeltaRange.max}
+            {editing.default.targetDeltaRange.max < 0 ? ' (negative: raw put delta)' : ' (positive)'}
+          </p>
+          <label className="block text-sm font-medium text-gray-700 mb-4">
+            Notes
+            <input
+              type="text"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              {saving ? 'Saving...' : 'Save New Version'}
+            </button>
+            <button
+              onClick={() => setForm(toStrategyConfigForm(form.strategy, editing.default))}
+              className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+            >
+              Load Default
+            </button>
+            <button
+              onClick={() => setForm(null)}
+              className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {data?.history && data.history.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            {showHistory ? 'Hide' : 'Show'} version history ({data.history.length})
+          </button>
+          {showHistory && (
+            <ul className="mt-2 text-sm text-gray-700">
+              {data.history.map(version => (
+                <li key={version.id} className="py-1 border-b">
+                  {version.strategy} v{version.version}
+                  {version.active ? ' (active)' : ''} — {new Date(version.created_at).toLocaleString()}
+                  {version.notes ? ` — ${version.notes}` : ''}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function AdminSettings() {
+  const { role } = useAuth();
+  const readOnly = !hasRole(role, 'admin');
   const [settings, setSettings] = useState<SystemSettings | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [updating, setUpdating] = useState<Record<string, boolean>>({});
   const [updateError, setUpdateError] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState('');
 
   useEffect(() => {
     loadSettings();
@@ -176,7 +685,7 @@ export default function AdminSettings() {
     try {
       setUpdating(prev => ({ ...prev, [key]: true }));
       setUpdateError(prev => ({ ...prev, [key]: '' }));
-      await updateSystemSetting(key, value);
+      await updateSystemSetting(key, value, reason);
       await loadSettings(); // Reload to get updated values
     } catch (err) {
       setUpdateError(prev => ({
@@ -189,68 +698,86 @@ export default function AdminSettings() {
   }
 
   function getValue(key: string): string {
-    return settings?.all[key] || '';
+    return settings?.all[key] ?? '';
   }
 
-  function renderField(field: SettingField) {
-    const currentValue = getValue(field.key);
-    const isUpdating = updating[field.key];
-    const fieldError = updateError[field.key];
+  function renderField(definition: SettingDefinition) {
+    const currentValue = getValue(definition.key);
+    const isUpdating = updating[definition.key];
+    const fieldError = updateError[definition.key];
+    const effective = definition.variantOf ? null : settings?.effective[definition.key];
+    const range = describeRange(definition);
+    const inputClass = 'flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100';
+    const options = definition.type === 'boolean' ? ['true', 'false'] : definition.options;
 
     return (
-      <div key={field.key} className="mb-6 p-4 bg-white rounded-lg shadow">
+      <div key={definition.key} className="mb-6 p-4 bg-white rounded-lg shadow">
         <label className="block text-sm font-medium text-gray-700 mb-1">
-          {field.label}
+          {definition.label} <span className="font-mono text-xs text-gray-400">{definition.key}</span>
         </label>
-        <p className="text-xs text-gray-500 mb-2">{field.description}</p>
+        <p className="text-xs text-gray-500 mb-2">{definition.description}</p>
+        {definition.deprecated && (
+          <p className="text-xs text-amber-700 mb-2">Deprecated: {definition.deprecated}</p>
+        )}
         <div className="flex gap-2">
-          {field.type === 'select' ? (
+          {options ? (
             <select
               value={currentValue}
-              onChange={(e) => handleUpdate(field.key, e.target.value)}
-              disabled={isUpdating}
-              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+              onChange={(e) => handleUpdate(definition.key, e.target.value)}
+              disabled={isUpdating || readOnly}
+              className={inputClass}
             >
-              {field.options?.map(opt => (
+              <option value="">
+                {definition.variantOf ? `Not set (use ${definition.variantOf})` : `Default (${definition.default ?? 'not set'})`}
+              </option>
+              {options.map(opt => (
                 <option key={opt} value={opt}>
                   {opt}
                 </option>
               ))}
             </select>
           ) : (
-            <>
-              <input
-                type={field.type}
-                value={currentValue}
-                onChange={() => {
-                  // Don't update on every keystroke, wait for blur or Enter
-                }}
-                onBlur={(e) => {
-                  if (e.target.value !== currentValue) {
-                    handleUpdate(field.key, e.target.value);
-                  }
-                }}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' && e.currentTarget.value !== currentValue) {
-                    handleUpdate(field.key, e.currentTarget.value);
-                  }
-                }}
-                disabled={isUpdating}
-                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
-                placeholder="Not set"
-              />
-              {currentValue && (
-                <button
-                  onClick={() => handleUpdate(field.key, currentValue)}
-                  disabled={isUpdating}
-                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
-                >
-                  {isUpdating ? 'Saving...' : 'Save'}
-                </button>
-              )}
-            </>
+            <input
+              // Remount on reload so the field shows the saved value
+              key={`${definition.key}:${currentValue}`}
+              type={definition.type === 'number' || definition.type === 'integer' ? 'number' : 'text'}
+              min={definition.min}
+              max={definition.max}
+              step={definition.type === 'integer' ? 1 : 'any'}
+              defaultValue={currentValue}
+              onBlur={(e) => {
+                if (e.target.value !== currentValue) {
+                  handleUpdate(definition.key, e.target.value);
+                }
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && e.currentTarget.value !== currentValue) {
+                  handleUpdate(definition.key, e.currentTarget.value);
+                }
+              }}
+              disabled={isUpdating || readOnly}
+              className={inputClass}
+              placeholder={definition.type === 'time' ? 'HH:MM' : definition.default ?? 'Not set'}
+            />
+          )}
+          {currentValue && !readOnly && (
+            <button
+              onClick={() => handleUpdate(definition.key, '')}
+              disabled={isUpdating}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:bg-gray-100"
+            >
+              Reset
+            </button>
           )}
         </div>
+        <p className="mt-1 text-xs text-gray-500">
+          {definition.variantOf
+            ? `Falls back to ${definition.variantOf}`
+            : `Default: ${definition.default ?? 'not set'}`}
+          {range && ` · Range: ${range}`}
+          {definition.legacyKeys && ` · Also reads legacy ${definition.legacyKeys.join(', ')}`}
+          {effective && ` · In effect: ${formatSettingValue(effective.value)}${effective.source === 'default' ? ' (default)' : effective.source !== definition.key ? ` (from ${effective.source})` : ''}`}
+        </p>
         {fieldError && (
           <p className="mt-1 text-sm text-red-600">{fieldError}</p>
         )}
@@ -283,85 +810,101 @@ export default function AdminSettings() {
     );
   }
 
-  const categories = ['trading', 'scoring', 'risk', 'exitRules', 'other'] as const;
+  const schema = settings?.schema ?? [];
+  // Stored keys the registry doesn't declare (runtime state, legacy keys)
+  const otherKeys = Object.keys(settings?.all ?? {})
+    .filter(key => !schema.some(definition => definition.key === key))
+    .sort();
 
   return (
     <div className="p-8 max-w-4xl mx-auto">
       <div className="mb-6">
         <h1 className="text-2xl font-bold text-gray-900 mb-2">System Settings</h1>
         <p className="text-gray-600">
-          Configure system parameters. Changes take effect immediately.
+          Configure system parameters. Values are validated before saving; press Enter or leave a field to
+          save, or Reset to go back to the default. Changes take effect on the next request or cron run.
         </p>
-        <button
-          onClick={loadSettings}
-          className="mt-4 px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700"
-        >
-          Refresh
-        </button>
+        {readOnly && (
+          <p className="mt-2 text-sm text-amber-700">
+            Read-only: changing settings, strategy configs and exit profiles requires the admin role.
+          </p>
+        )}
+        {!readOnly && (
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Reason for changes
+            </label>
+            <input
+              type="text"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              placeholder="Recorded in the audit log with each change"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        )}
+        <div className="mt-4 flex items-center space-x-4">
+          <button
+            onClick={loadSettings}
+            className="px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700"
+          >
+            Refresh
+          </button>
+          <Link to="/audit?target_type=settings" className="text-sm text-blue-600 hover:text-blue-800">
+            Settings change history →
+          </Link>
+        </div>
       </div>
 
-      {categories.map(category => {
-        const categoryFields = SETTING_FIELDS.filter(f => f.category === category);
+      {settings?.categories.map(category => {
+        // Deprecated settings are only listed while they still have a stored value
+        const categoryFields = schema.filter(
+          definition => definition.category === category.id && (!definition.deprecated || getValue(definition.key))
+        );
         if (categoryFields.length === 0) return null;
 
-        const categoryLabels: Record<string, string> = {
-          trading: 'Trading Mode & Auto-Execution',
-          scoring: 'Scoring Thresholds',
-          risk: 'Risk Management',
-          exitRules: 'Exit Rules',
-          other: 'Other Settings',
-        };
-
         return (
-          <div key={category} className="mb-8">
+          <div key={category.id} className="mb-8">
             <h2 className="text-xl font-semibold text-gray-800 mb-4 border-b pb-2">
-              {categoryLabels[category]}
+              {category.label}
             </h2>
-            {categoryFields.map(field => renderField(field))}
+            {categoryFields.map(definition => renderField(definition))}
           </div>
         );
       })}
 
-      {/* Show any settings not in our predefined list */}
-      {settings && Object.keys(settings.all).length > SETTING_FIELDS.length && (
+      <StrategyConfigsSection readOnly={readOnly} reason={reason} />
+
+      <ExitProfilesSection readOnly={readOnly} reason={reason} />
+
+      {otherKeys.length > 0 && (
         <div className="mb-8">
           <h2 className="text-xl font-semibold text-gray-800 mb-4 border-b pb-2">
-            Additional Settings
+            Other Stored Values
           </h2>
-          {Object.entries(settings.all)
-            .filter(([key]) => !SETTING_FIELDS.find(f => f.key === key))
-            .map(([key, value]) => (
+          <p className="text-sm text-gray-500 mb-4">
+            Stored keys outside the settings registry: runtime state written by the engine and legacy
+            keys. They can't be edited here; legacy keys can be cleared once the new key is set.
+          </p>
+          {otherKeys.map(key => {
+            const replacement = schema.find(definition => definition.legacyKeys?.includes(key));
+            return (
               <div key={key} className="mb-4 p-4 bg-gray-50 rounded-lg">
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  {key}
-                </label>
-                <div className="flex gap-2">
-                  <input
-                    type="text"
-                    value={value}
-                    onChange={() => {
-                      // Don't update on every keystroke
-                    }}
-                    onBlur={(e) => {
-                      if (e.target.value !== value) {
-                        handleUpdate(key, e.target.value);
-                      }
-                    }}
-                    onKeyDown={(e) => {
-                      if (e.key === 'Enter' && e.currentTarget.value !== value) {
-                        handleUpdate(key, e.currentTarget.value);
-                      }
-                    }}
-                    disabled={updating[key]}
-                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
-                  />
-                  {value && (
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="font-mono text-sm text-gray-700">{key}</div>
+                    <div className="text-sm text-gray-900 break-all">{settings?.all[key]}</div>
+                    {replacement && (
+                      <div className="text-xs text-amber-700">Legacy key: use {replacement.key}</div>
+                    )}
+                  </div>
+                  {replacement && !readOnly && (
                     <button
-                      onClick={() => handleUpdate(key, value)}
+                      onClick={() => handleUpdate(key, '')}
                       disabled={updating[key]}
-                      className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+                      className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 disabled:bg-gray-100"
                     >
-                      {updating[key] ? 'Saving...' : 'Save'}
+                      Clear
                     </button>
                   )}
                 </div>
@@ -369,7 +912,8 @@ export default function AdminSettings() {
                   <p className="mt-1 text-sm text-red-600">{updateError[key]}</p>
                 )}
               </div>
-            ))}
+            );
+          })}
         </div>
       )}
     </div>
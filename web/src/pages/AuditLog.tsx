@@ -0,0 +1,238 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { getAuditLog } from '../api';
+import type { AuditLogEntry, AuditLogResponse, AuditValues } from '../api';
+
+const FILTER_FIELDS = [
+  { key: 'actor', label: 'Actor', placeholder: 'API key name' },
+  { key: 'path', label: 'Endpoint', placeholder: '/v2/admin/settings' },
+  { key: 'target_id', label: 'Target ID', placeholder: 'Trade ID or setting key' },
+  { key: 'since', label: 'Since', placeholder: '2026-01-01' },
+  { key: 'until', label: 'Until', placeholder: '2026-02-01' },
+] as const;
+
+const TARGET_TYPES = [
+  'trade',
+  'settings',
+  'risk_state',
+  'exit_profile',
+  'strategy_config',
+  'config_profile',
+  'request',
+];
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '—';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function statusClass(status: number): string {
+  if (status >= 400) {
+    return 'bg-red-100 text-red-800';
+  }
+  return 'bg-green-100 text-green-800';
+}
+
+function Changes({ before, after }: { before: AuditValues | null; after: AuditValues | null }) {
+  const sections = Object.keys({ ...before, ...after }) as Array<keyof AuditValues>;
+  if (sections.length === 0) {
+    return <span className="text-gray-400">No changes</span>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {sections.map(section =>
+        Object.keys({ ...before?.[section], ...after?.[section] }).map(key => (
+          <div key={`${section}.${key}`} className="font-mono text-xs">
+            <span className="text-gray-500">{section}.</span>
+            <span className="text-gray-900">{key}</span>:{' '}
+            <span className="text-red-700">{formatValue(before?.[section]?.[key])}</span>
+            {' → '}
+            <span className="text-green-700">{formatValue(after?.[section]?.[key])}</span>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+function Target({ entry }: { entry: AuditLogEntry }) {
+  if (entry.target_type === 'trade' && entry.target_id) {
+    return (
+      <Link to={`/trades/${entry.target_id}`} className="text-blue-600 hover:text-blue-800">
+        trade {entry.target_id.slice(0, 8)}
+      </Link>
+    );
+  }
+  return (
+    <span>
+      {entry.target_type}
+      {entry.target_id && <span className="block text-xs text-gray-500 break-all">{entry.target_id}</span>}
+    </span>
+  );
+}
+
+export default function AuditLog() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [draft, setDraft] = useState<Record<string, string>>(() => Object.fromEntries(searchParams.entries()));
+  const [data, setData] = useState<AuditLogResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const query = searchParams.toString();
+
+  useEffect(() => {
+    async function fetchAuditLog() {
+      try {
+        setLoading(true);
+        const filters = Object.fromEntries(new URLSearchParams(query).entries());
+        const response = await getAuditLog({
+          ...filters,
+          limit: filters.limit ? Number(filters.limit) : undefined,
+        });
+        setData(response);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load audit log');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchAuditLog();
+  }, [query]);
+
+  function applyFilters(e: React.FormEvent) {
+    e.preventDefault();
+    const next = new URLSearchParams();
+    Object.entries(draft).forEach(([key, value]) => {
+      if (value.trim()) {
+        next.set(key, value.trim());
+      }
+    });
+    setSearchParams(next);
+  }
+
+  function clearFilters() {
+    setDraft({});
+    setSearchParams(new URLSearchParams());
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Audit Log</h1>
+          <p className="text-sm text-gray-600">
+            Every operator and admin request, newest first: who made it, the endpoint, the response status,
+            the reason given and the settings, risk state, trade and profile/config values it changed. Entries
+            cannot be edited or deleted.
+          </p>
+        </div>
+
+        <form onSubmit={applyFilters} className="bg-white rounded-lg shadow p-4 mb-6">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Target</label>
+              <select
+                value={draft.target_type ?? ''}
+                onChange={e => setDraft(prev => ({ ...prev, target_type: e.target.value }))}
+                className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+              >
+                <option value="">Any</option>
+                {TARGET_TYPES.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            </div>
+            {FILTER_FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="block text-xs font-medium text-gray-500 mb-1">{field.label}</label>
+                <input
+                  type="text"
+                  value={draft[field.key] ?? ''}
+                  onChange={e => setDraft(prev => ({ ...prev, [field.key]: e.target.value }))}
+                  placeholder={field.placeholder}
+                  className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+                />
+              </div>
+            ))}
+          </div>
+          <div className="mt-4 flex gap-2">
+            <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm">
+              Apply
+            </button>
+            <button
+              type="button"
+              onClick={clearFilters}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 text-sm"
+            >
+              Clear
+            </button>
+          </div>
+        </form>
+
+        {error && <div className="mb-6 text-red-600">Error: {error}</div>}
+
+        <div className="bg-white rounded-lg shadow">
+          {loading && !data ? (
+            <div className="p-6 text-center text-gray-600">Loading audit log...</div>
+          ) : !data || data.entries.length === 0 ? (
+            <div className="p-6 text-center text-gray-500">No audit entries</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actor</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Request</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Target</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Changes</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {data.entries.map(entry => (
+                    <tr key={entry.id} className="align-top hover:bg-gray-50">
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {new Date(entry.created_at).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {entry.actor ?? <span className="text-gray-400">unauthenticated</span>}
+                        {entry.actor_role && <span className="block text-xs text-gray-500">{entry.actor_role}</span>}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        <span className="font-mono">{entry.method} {entry.path}</span>
+                        {entry.query && <span className="block text-xs text-gray-500 break-all">?{entry.query}</span>}
+                        <span className={`mt-1 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${statusClass(entry.status_code)}`}>
+                          {entry.status_code}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        <Target entry={entry} />
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {entry.reason ?? <span className="text-gray-400">—</span>}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <Changes before={entry.before_value} after={entry.after_value} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+        {data && data.count === data.limit && (
+          <p className="mt-4 text-sm text-gray-500">
+            Showing the newest {data.limit} entries. Narrow the filters to see older ones.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
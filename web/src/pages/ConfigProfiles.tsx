@@ -0,0 +1,571 @@
+import { useEffect, useState } from 'react';
+import {
+  getConfigProfiles,
+  saveConfigProfile,
+  deleteConfigProfile,
+  getConfigProfileDiff,
+  applyConfigProfile,
+  rollbackConfigProfile,
+  cancelConfigProfileSwitch,
+} from '../api';
+import type {
+  ConfigProfile,
+  ConfigProfilesResponse,
+  ConfigProfileSwitch,
+  ConfigProfileSwitchStatus,
+  ConfigValueChange,
+} from '../api';
+import { useAuth, hasRole } from '../auth';
+
+interface ProfileDraft {
+  id?: string;
+  name: string;
+  description: string;
+  settings: string;               // KEY=value per line
+  allStrategies: boolean;
+  strategies: string[];
+}
+
+const EMPTY_DRAFT: ProfileDraft = {
+  name: '',
+  description: '',
+  settings: '',
+  allStrategies: true,
+  strategies: [],
+};
+
+function toDraft(profile: ConfigProfile): ProfileDraft {
+  return {
+    id: profile.id,
+    name: profile.name,
+    description: profile.description ?? '',
+    settings: Object.entries(profile.settings).map(([key, value]) => `${key}=${value}`).join('\n'),
+    allStrategies: profile.strategies === null,
+    strategies: profile.strategies ?? [],
+  };
+}
+
+function parseSettingsText(text: string): { settings: Record<string, string>; errors: string[] } {
+  const settings: Record<string, string> = {};
+  const errors: string[] = [];
+  text.split('\n').forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      return;
+    }
+    const separator = trimmed.indexOf('=');
+    if (separator <= 0) {
+      errors.push(`Line ${index + 1}: expected KEY=value`);
+      return;
+    }
+    settings[trimmed.slice(0, separator).trim()] = trimmed.slice(separator + 1).trim();
+  });
+  return { settings, errors };
+}
+
+function formatTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function statusClass(status: ConfigProfileSwitchStatus): string {
+  switch (status) {
+    case 'APPLIED':
+      return 'bg-green-100 text-green-800';
+    case 'SCHEDULED':
+    case 'APPLYING':
+      return 'bg-blue-100 text-blue-800';
+    case 'FAILED':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-700';
+  }
+}
+
+function ChangeList({ changes }: { changes: ConfigValueChange[] | null }) {
+  if (!changes || changes.length === 0) {
+    return <span className="text-gray-400">No changes</span>;
+  }
+  return (
+    <div className="space-y-1">
+      {changes.map(change => (
+        <div key={change.key} className="font-mono text-xs">
+          <span className="text-gray-900">{change.key}</span>:{' '}
+          <span className="text-red-700">{change.from ?? 'default'}</span>
+          {' → '}
+          <span className="text-green-700">{change.to ?? 'default'}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function SwitchLabel({ entry }: { entry: ConfigProfileSwitch }) {
+  return (
+    <span>
+      {entry.action === 'ROLLBACK' ? 'Rollback to ' : 'Apply '}
+      <span className="font-medium">{entry.profile_name ?? 'no profile'}</span>
+      {entry.previous_profile_name && (
+        <span className="text-gray-500"> (from {entry.previous_profile_name})</span>
+      )}
+    </span>
+  );
+}
+
+export default function ConfigProfiles() {
+  const { role } = useAuth();
+  const readOnly = !hasRole(role, 'admin');
+  const [data, setData] = useState<ConfigProfilesResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [reason, setReason] = useState('');
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [diff, setDiff] = useState<{ profile: ConfigProfile; changes: ConfigValueChange[] } | null>(null);
+  const [scheduleAt, setScheduleAt] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  async function loadProfiles() {
+    try {
+      setLoading(true);
+      setError(null);
+      setData(await getConfigProfiles());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load profiles');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function runAction(action: () => Promise<unknown>) {
+    try {
+      setBusy(true);
+      setActionError(null);
+      await action();
+      await loadProfiles();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function saveDraft() {
+    if (!draft) {
+      return;
+    }
+    const { settings, errors } = parseSettingsText(draft.settings);
+    if (errors.length > 0) {
+      setActionError(errors.join('; '));
+      return;
+    }
+    runAction(async () => {
+      await saveConfigProfile({
+        id: draft.id,
+        name: draft.name,
+        description: draft.description || null,
+        settings,
+        strategies: draft.allStrategies ? null : draft.strategies,
+      }, reason);
+      setDraft(null);
+    });
+  }
+
+  function saveCurrent() {
+    const name = window.prompt('Name for a profile with the current settings');
+    if (name?.trim()) {
+      runAction(() => saveConfigProfile({ name: name.trim(), from_current: true }, reason));
+    }
+  }
+
+  function showDiff(profile: ConfigProfile) {
+    runAction(async () => {
+      const response = await getConfigProfileDiff(profile.id);
+      setDiff({ profile: response.profile, changes: response.changes });
+    });
+  }
+
+  function applyNow(profile: ConfigProfile) {
+    if (window.confirm(`Apply ${profile.name} now? Settings it does not list go back to their defaults.`)) {
+      runAction(async () => {
+        await applyConfigProfile(profile.id, undefined, reason);
+        setDiff(null);
+      });
+    }
+  }
+
+  function schedule(profile: ConfigProfile) {
+    const value = scheduleAt[profile.id];
+    if (!value) {
+      setActionError('Pick an activation time first');
+      return;
+    }
+    runAction(async () => {
+      await applyConfigProfile(profile.id, new Date(value).toISOString(), reason);
+      setScheduleAt(prev => ({ ...prev, [profile.id]: '' }));
+    });
+  }
+
+  function rollback() {
+    if (window.confirm('Roll back the latest profile switch and restore the settings from before it?')) {
+      runAction(() => rollbackConfigProfile(reason));
+    }
+  }
+
+  function remove(profile: ConfigProfile) {
+    if (window.confirm(`Delete profile ${profile.name}?`)) {
+      runAction(() => deleteConfigProfile(profile.id, reason));
+    }
+  }
+
+  if (loading && !data) {
+    return (
+      <div className="p-8">
+        <div className="text-center">Loading profiles...</div>
+      </div>
+    );
+  }
+
+  if (error && !data) {
+    return (
+      <div className="p-8">
+        <div className="text-center text-red-600">Error: {error}</div>
+        <button
+          onClick={loadProfiles}
+          className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  const status = data?.status;
+  const buttonClass = 'px-3 py-1 rounded-md text-sm disabled:opacity-50';
+
+  return (
+    <div className="p-8 max-w-6xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Configuration Profiles</h1>
+        <p className="text-gray-600">
+          Named sets of settings and enabled strategies. Applying a profile sets the settings it lists and
+          resets every other profile setting to its default, in one step. Trading mode and auto mode are not
+          part of profiles. A profile can also be scheduled for a later time, and the latest switch can be
+          rolled back.
+        </p>
+        {readOnly && (
+          <p className="mt-2 text-sm text-amber-700">
+            Read-only: saving, applying and rolling back profiles requires the admin role.
+          </p>
+        )}
+      </div>
+
+      <div className="mb-6 p-4 bg-white rounded-lg shadow">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <div className="text-sm text-gray-500">Active profile</div>
+            <div className="text-xl font-semibold text-gray-900">
+              {status?.active_profile_name ?? 'None'}
+            </div>
+            {status && status.modified_keys.length > 0 && (
+              <div className="mt-1 text-sm text-amber-700">
+                Modified since applied: <span className="font-mono">{status.modified_keys.join(', ')}</span>
+              </div>
+            )}
+            {status?.last_switch && (
+              <div className="mt-1 text-xs text-gray-500">
+                Last switch {formatTime(status.last_switch.applied_at)}
+                {status.last_switch.actor && ` by ${status.last_switch.actor}`}
+              </div>
+            )}
+          </div>
+          {!readOnly && (
+            <div className="flex flex-col gap-2 md:w-96">
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason for changes (recorded in the audit log)"
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={rollback}
+                  disabled={busy || !status?.last_switch}
+                  className={`${buttonClass} bg-amber-600 text-white hover:bg-amber-700`}
+                >
+                  Roll back last switch
+                </button>
+                <button
+                  onClick={saveCurrent}
+                  disabled={busy}
+                  className={`${buttonClass} bg-gray-200 text-gray-700 hover:bg-gray-300`}
+                >
+                  Save current as profile
+                </button>
+                <button
+                  onClick={() => setDraft({ ...EMPTY_DRAFT })}
+                  disabled={busy}
+                  className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`}
+                >
+                  New profile
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {status && status.pending.length > 0 && (
+          <div className="mt-4 border-t pt-4">
+            <div className="text-sm font-medium text-gray-700 mb-2">Scheduled</div>
+            {status.pending.map(entry => (
+              <div key={entry.id} className="flex items-center justify-between text-sm py-1">
+                <span>
+                  <SwitchLabel entry={entry} /> at {formatTime(entry.activate_at)}
+                  {entry.actor && <span className="text-gray-500"> · {entry.actor}</span>}
+                </span>
+                {!readOnly && (
+                  <button
+                    onClick={() => runAction(() => cancelConfigProfileSwitch(entry.id, reason))}
+                    disabled={busy}
+                    className={`${buttonClass} bg-gray-200 text-gray-700 hover:bg-gray-300`}
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {actionError && <div className="mb-4 text-sm text-red-600">{actionError}</div>}
+
+      {draft && data && (
+        <div className="mb-6 p-4 bg-white rounded-lg shadow">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">{draft.id ? `Edit ${draft.name}` : 'New profile'}</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-500 mb-1">Description</label>
+              <input
+                type="text"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+          </div>
+          <div className="mb-4">
+            <label className="block text-xs font-medium text-gray-500 mb-1">Strategies</label>
+            <label className="inline-flex items-center mr-4 text-sm">
+              <input
+                type="checkbox"
+                checked={draft.allStrategies}
+                onChange={(e) => setDraft({ ...draft, allStrategies: e.target.checked })}
+                className="mr-1"
+              />
+              All strategies
+            </label>
+            {!draft.allStrategies && data.strategy_ids.map(id => (
+              <label key={id} className="inline-flex items-center mr-4 text-sm font-mono">
+                <input
+                  type="checkbox"
+                  checked={draft.strategies.includes(id)}
+                  onChange={(e) => setDraft({
+                    ...draft,
+                    strategies: e.target.checked
+                      ? [...draft.strategies, id]
+                      : draft.strategies.filter(s => s !== id),
+                  })}
+                  className="mr-1"
+                />
+                {id}
+              </label>
+            ))}
+          </div>
+          <div className="mb-4">
+            <label className="block text-xs font-medium text-gray-500 mb-1">
+              Settings (KEY=value per line; settings left out use their defaults)
+            </label>
+            <textarea
+              value={draft.settings}
+              onChange={(e) => setDraft({ ...draft, settings: e.target.value })}
+              rows={12}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+              placeholder="MAX_OPEN_SPREADS_GLOBAL=10"
+            />
+            <details className="mt-1 text-xs text-gray-500">
+              <summary className="cursor-pointer">Available keys ({data.setting_keys.length})</summary>
+              <div className="mt-1 font-mono break-words">{data.setting_keys.join(', ')}</div>
+            </details>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={saveDraft}
+              disabled={busy}
+              className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`}
+            >
+              Save
+            </button>
+            <button
+              onClick={() => setDraft(null)}
+              disabled={busy}
+              className={`${buttonClass} bg-gray-200 text-gray-700 hover:bg-gray-300`}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {diff && (
+        <div className="mb-6 p-4 bg-white rounded-lg shadow">
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="text-lg font-semibold text-gray-900">Applying {diff.profile.name} would change</h2>
+            <button onClick={() => setDiff(null)} className="text-sm text-gray-500 hover:text-gray-700">
+              Close
+            </button>
+          </div>
+          <ChangeList changes={diff.changes} />
+        </div>
+      )}
+
+      <div className="mb-6 bg-white rounded-lg shadow">
+        {!data || data.profiles.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No profiles yet</div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {data.profiles.map(profile => (
+              <div key={profile.id} className="p-4">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div>
+                    <div className="font-semibold text-gray-900">
+                      {profile.name}
+                      {profile.id === status?.active_profile_id && (
+                        <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                          active
+                        </span>
+                      )}
+                    </div>
+                    {profile.description && <div className="text-sm text-gray-600">{profile.description}</div>}
+                    <div className="text-xs text-gray-500 mt-1">
+                      {Object.keys(profile.settings).length} settings ·{' '}
+                      {profile.strategies ? profile.strategies.join(', ') : 'all strategies'} · updated{' '}
+                      {formatTime(profile.updated_at)}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <button
+                      onClick={() => showDiff(profile)}
+                      disabled={busy}
+                      className={`${buttonClass} bg-gray-200 text-gray-700 hover:bg-gray-300`}
+                    >
+                      Diff
+                    </button>
+                    {!readOnly && (
+                      <>
+                        <button
+                          onClick={() => setDraft(toDraft(profile))}
+                          disabled={busy}
+                          className={`${buttonClass} bg-gray-200 text-gray-700 hover:bg-gray-300`}
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => applyNow(profile)}
+                          disabled={busy}
+                          className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`}
+                        >
+                          Apply now
+                        </button>
+                        <input
+                          type="datetime-local"
+                          value={scheduleAt[profile.id] ?? ''}
+                          onChange={(e) => setScheduleAt(prev => ({ ...prev, [profile.id]: e.target.value }))}
+                          className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        />
+                        <button
+                          onClick={() => schedule(profile)}
+                          disabled={busy}
+                          className={`${buttonClass} bg-gray-200 text-gray-700 hover:bg-gray-300`}
+                        >
+                          Schedule
+                        </button>
+                        <button
+                          onClick={() => remove(profile)}
+                          disabled={busy}
+                          className={`${buttonClass} bg-red-100 text-red-700 hover:bg-red-200`}
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow">
+        <h2 className="px-4 pt-4 text-lg font-semibold text-gray-900">Switch History</h2>
+        {!data || data.switches.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No switches yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Switch</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actor</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Changes</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {data.switches.map(entry => (
+                  <tr key={entry.id} className="align-top hover:bg-gray-50">
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {formatTime(entry.applied_at ?? entry.activate_at)}
+                      {entry.status === 'SCHEDULED' && <span className="block text-xs text-gray-500">scheduled</span>}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      <SwitchLabel entry={entry} />
+                      {entry.reason && <span className="block text-xs text-gray-500">{entry.reason}</span>}
+                      {entry.error && <span className="block text-xs text-red-600">{entry.error}</span>}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${statusClass(entry.status)}`}>
+                        {entry.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {entry.actor ?? <span className="text-gray-400">—</span>}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <ChangeList changes={entry.changes} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 import { useEffect, useState } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { getDailySummaryList, getDailySummary, generateDailySummary, type DailySummary } from '../api';
+import { useAuth, hasRole } from '../auth';
 
 export default function DailySummaryPage() {
+  const { role } = useAuth();
+  const canGenerate = hasRole(role, 'operator');
   const [searchParams, setSearchParams] = useSearchParams();
   const [summaryList, setSummaryList] = useState<Array<{ date: string; generated_at: string }>>([]);
   const [selectedSummary, setSelectedSummary] = useState<DailySummary | null>(null);
@@ -175,15 +178,17 @@ export default function DailySummaryPage() {
                   Summary not found for {formatDate(selectedDate)}
                 </h3>
                 <p className="text-sm text-gray-600 mb-4">
-                  This summary hasn't been generated yet. You can generate it now.
+                  This summary hasn't been generated yet.{canGenerate && ' You can generate it now.'}
                 </p>
-                <button
-                  onClick={() => handleGenerateSummary(selectedDate)}
-                  disabled={generating}
-                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {generating ? 'Generating...' : 'Generate Summary'}
-                </button>
+                {canGenerate && (
+                  <button
+                    onClick={() => handleGenerateSummary(selectedDate)}
+                    disabled={generating}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {generating ? 'Generating...' : 'Generate Summary'}
+                  </button>
+                )}
               </div>
             </div>
           ) : selectedSummary ? (
@@ -198,13 +203,15 @@ export default function DailySummaryPage() {
                       Generated: {formatDateTime(selectedSummary.generated_at)}
                     </p>
                   </div>
-                  <button
-                    onClick={() => handleGenerateSummary(selectedSummary.date)}
-                    disabled={generating}
-                    className="text-sm px-3 py-1 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
-                  >
-                    {generating ? 'Regenerating...' : 'Regenerate'}
-                  </button>
+                  {canGenerate && (
+                    <button
+                      onClick={() => handleGenerateSummary(selectedSummary.date)}
+                      disabled={generating}
+                      className="text-sm px-3 py-1 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      {generating ? 'Regenerating...' : 'Regenerate'}
+                    </button>
+                  )}
                 </div>
               </div>
 
@@ -1,4 +1,5 @@
 import { useEffect, useState, useCallback } from 'react';
+import { Link } from 'react-router-dom';
 import {
   getDashboardSummary,
   getTrades,
@@ -6,12 +7,19 @@ import {
   getSystemModeInfo,
   updateSystemMode,
   resetRiskState,
+  getBetaExposure,
 } from '../api';
+import type { BetaExposureResponse } from '../api';
 import type { SystemModeInfo, TradesResponse } from '../types';
+import { useAuth, hasRole } from '../auth';
 
 export default function Dashboard() {
+  const { role } = useAuth();
+  const canOperate = hasRole(role, 'operator');
+  const isAdmin = hasRole(role, 'admin');
   const [summary, setSummary] = useState<Awaited<ReturnType<typeof getDashboardSummary>> | null>(null);
   const [trades, setTrades] = useState<TradesResponse | null>(null);
+  const [betaExposure, setBetaExposure] = useState<BetaExposureResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [proposalRunning, setProposalRunning] = useState(false);
@@ -40,12 +48,15 @@ export default function Dashboard() {
     async function fetchData() {
       try {
         setLoading(true);
-        const [summaryData, tradesData] = await Promise.all([
+        const [summaryData, tradesData, betaData] = await Promise.all([
           getDashboardSummary(),
           getTrades(),
+          // Beta exposure needs live quotes; a failure shouldn't break the dashboard
+          getBetaExposure().catch(() => null),
         ]);
         setSummary(summaryData);
         setTrades(tradesData);
+        setBetaExposure(betaData);
         setError(null);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load data');
@@ -229,48 +240,144 @@ export default function Dashboard() {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
 
           {/* Manual Proposal Generation */}
-          <div className="bg-white rounded-lg shadow p-6">
-            <h2 className="text-sm font-medium text-gray-500 mb-2">Manual Proposal</h2>
-            <p className="text-sm text-gray-500 mb-4">
-              Trigger a one-off proposal generation using the same engine the cron uses.
-            </p>
-            <button
-              type="button"
-              onClick={async () => {
-                try {
-                  setProposalRunning(true);
-                  setProposalMessage(null);
-                  const res = await runTestProposal();
-                  if (res.success && res.candidate) {
+          {canOperate && (
+            <div className="bg-white rounded-lg shadow p-6">
+              <h2 className="text-sm font-medium text-gray-500 mb-2">Manual Proposal</h2>
+              <p className="text-sm text-gray-500 mb-4">
+                Trigger a one-off proposal generation using the same engine the cron uses.
+              </p>
+              <button
+                type="button"
+                onClick={async () => {
+                  try {
+                    setProposalRunning(true);
+                    setProposalMessage(null);
+                    const res = await runTestProposal();
+                    if (res.success && res.candidate) {
+                      setProposalMessage(
+                        `OK: ${res.candidate.symbol} ${res.candidate.expiration} ` +
+                        `${res.candidate.short_strike}/${res.candidate.long_strike} ` +
+                        `credit ${res.candidate.credit.toFixed(2)} score ${res.candidate.score.toFixed(3)}`
+                      );
+                    } else if (res.success) {
+                      setProposalMessage('OK: proposal engine ran but no candidate was selected.');
+                    } else {
+                      setProposalMessage(`Error: ${res.error || 'proposal generation failed'}`);
+                    }
+                  } catch (e) {
                     setProposalMessage(
-                      `OK: ${res.candidate.symbol} ${res.candidate.expiration} ` +
-                      `${res.candidate.short_strike}/${res.candidate.long_strike} ` +
-                      `credit ${res.candidate.credit.toFixed(2)} score ${res.candidate.score.toFixed(3)}`
+                      e instanceof Error ? e.message : 'Failed to run manual proposal'
                     );
-                  } else if (res.success) {
-                    setProposalMessage('OK: proposal engine ran but no candidate was selected.');
-                  } else {
-                    setProposalMessage(`Error: ${res.error || 'proposal generation failed'}`);
+                  } finally {
+                    setProposalRunning(false);
                   }
-                } catch (e) {
-                  setProposalMessage(
-                    e instanceof Error ? e.message : 'Failed to run manual proposal'
-                  );
-                } finally {
-                  setProposalRunning(false);
-                }
-              }}
-              disabled={proposalRunning}
-              className={`inline-flex items-center px-4 py-2 rounded-md text-sm font-semibold text-white ${
-                proposalRunning ? 'bg-gray-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700'
-              }`}
-            >
-              {proposalRunning ? 'Running…' : 'Run Proposal Now'}
-            </button>
-            {proposalMessage && (
-              <div className="mt-3 text-xs text-gray-600 break-words">
-                {proposalMessage}
-              </div>
+                }}
+                disabled={proposalRunning}
+                className={`inline-flex items-center px-4 py-2 rounded-md text-sm font-semibold text-white ${
+                  proposalRunning ? 'bg-gray-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700'
+                }`}
+              >
+                {proposalRunning ? 'Running…' : 'Run Proposal Now'}
+              </button>
+              {proposalMessage && (
+                <div className="mt-3 text-xs text-gray-600 break-words">
+                  {proposalMessage}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Beta-Weighted Delta */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-sm font-medium text-gray-500 mb-2">Beta-Weighted Delta (SPY shares)</h2>
+            {!betaExposure ? (
+              <div className="text-sm text-gray-500">Unavailable.</div>
+            ) : (
+              <>
+                <div className="flex items-baseline gap-3 mb-2">
+                  <div className="text-2xl font-bold text-gray-900">
+                    {betaExposure.spy_weighted_delta !== null ? betaExposure.spy_weighted_delta.toFixed(1) : '—'}
+                  </div>
+                  {betaExposure.band_status && (
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                      betaExposure.band_status === 'INSIDE' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                    }`}>
+                      {betaExposure.band_status}
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500 mb-3">
+                  {betaExposure.target_band
+                    ? `Target band: ${betaExposure.target_band.min} to ${betaExposure.target_band.max}`
+                    : 'No target band configured'}
+                </div>
+                {betaExposure.by_symbol.length > 0 && (
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-gray-500 text-left">
+                        <th className="py-1">Symbol</th>
+                        <th className="py-1 text-right">Beta</th>
+                        <th className="py-1 text-right">Delta</th>
+                        <th className="py-1 text-right">SPY Δ</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {betaExposure.by_symbol.map(row => (
+                        <tr key={row.symbol} className="text-gray-900">
+                          <td className="py-1 font-mono">{row.symbol}</td>
+                          <td className="py-1 text-right">{row.beta.toFixed(2)}</td>
+                          <td className="py-1 text-right">{row.delta.toFixed(1)}</td>
+                          <td className="py-1 text-right">
+                            {row.spy_weighted_delta !== null ? row.spy_weighted_delta.toFixed(1) : '—'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Configuration Profile */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-sm font-medium text-gray-500 mb-2">Configuration Profile</h2>
+            {!summary?.config_profile ? (
+              <div className="text-sm text-gray-500">Unavailable.</div>
+            ) : (
+              <>
+                <div className="flex items-baseline gap-3 mb-2">
+                  <div className="text-2xl font-bold text-gray-900">
+                    {summary.config_profile.active_profile_name ?? 'None'}
+                  </div>
+                  {summary.config_profile.modified_keys.length > 0 && (
+                    <span
+                      className="px-2 py-0.5 rounded-full text-xs font-semibold bg-yellow-100 text-yellow-800"
+                      title={summary.config_profile.modified_keys.join(', ')}
+                    >
+                      MODIFIED ({summary.config_profile.modified_keys.length})
+                    </span>
+                  )}
+                </div>
+                {summary.config_profile.last_switch && (
+                  <div className="text-xs text-gray-500">
+                    Last switch: {summary.config_profile.last_switch.action === 'ROLLBACK' ? 'rollback to ' : ''}
+                    {summary.config_profile.last_switch.profile_name ?? 'no profile'}
+                    {summary.config_profile.last_switch.applied_at &&
+                      ` at ${new Date(summary.config_profile.last_switch.applied_at).toLocaleString()}`}
+                    {summary.config_profile.last_switch.actor && ` by ${summary.config_profile.last_switch.actor}`}
+                  </div>
+                )}
+                {summary.config_profile.next_switch && (
+                  <div className="text-xs text-blue-700 mt-1">
+                    Scheduled: {summary.config_profile.next_switch.profile_name} at{' '}
+                    {new Date(summary.config_profile.next_switch.activate_at).toLocaleString()}
+                  </div>
+                )}
+                <Link to="/profiles" className="mt-3 inline-block text-sm text-blue-600 hover:text-blue-800">
+                  Manage profiles
+                </Link>
+              </>
             )}
           </div>
 
@@ -288,6 +395,7 @@ export default function Dashboard() {
                   <a href={`${apiBaseUrl}/v2/debug/auto-readiness`} target="_blank" rel="noopener noreferrer" className="block text-xs text-indigo-600 hover:text-indigo-800 hover:underline">✅ Auto Mode Readiness</a>
                   <a href={`${apiBaseUrl}/risk-state`} target="_blank" rel="noopener noreferrer" className="block text-xs text-indigo-600 hover:text-indigo-800 hover:underline">⚠️ Risk State</a>
                   <a href={`${apiBaseUrl}/debug/exit-rules`} target="_blank" rel="noopener noreferrer" className="block text-xs text-indigo-600 hover:text-indigo-800 hover:underline">🎯 Exit Rules Config</a>
+                  <a href={`${apiBaseUrl}/debug/beta-exposure`} target="_blank" rel="noopener noreferrer" className="block text-xs text-indigo-600 hover:text-indigo-800 hover:underline">📐 Beta Exposure</a>
                 </div>
               </div>
 
@@ -331,46 +439,48 @@ export default function Dashboard() {
                     {systemModeError}
                   </div>
                 )}
-                <div className="flex flex-col sm:flex-row gap-2">
-                  <button
-                    type="button"
-                    onClick={() => handleSystemModeUpdate('NORMAL')}
-                    disabled={systemModeAction !== 'idle'}
-                    className={`inline-flex justify-center items-center px-3 py-2 rounded-md text-sm font-semibold text-white ${
-                      systemModeAction !== 'idle'
-                        ? 'bg-gray-400 cursor-not-allowed'
-                        : 'bg-emerald-600 hover:bg-emerald-700'
-                    }`}
-                  >
-                    {systemModeAction === 'reset' ? 'Resetting…' : 'Reset System Mode'}
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => handleSystemModeUpdate('HARD_STOP')}
-                    disabled={systemModeAction !== 'idle'}
-                    className={`inline-flex justify-center items-center px-3 py-2 rounded-md text-sm font-semibold text-white ${
-                      systemModeAction !== 'idle'
-                        ? 'bg-gray-400 cursor-not-allowed'
-                        : 'bg-red-600 hover:bg-red-700'
-                    }`}
-                  >
-                    {systemModeAction === 'stop' ? 'Applying…' : 'Trigger HARD_STOP'}
-                  </button>
-                  {systemModeInfo && systemModeInfo.risk_state !== 'NORMAL' && (
+                {isAdmin && (
+                  <div className="flex flex-col sm:flex-row gap-2">
                     <button
                       type="button"
-                      onClick={handleResetRiskState}
-                      disabled={riskStateResetting || systemModeAction !== 'idle'}
+                      onClick={() => handleSystemModeUpdate('NORMAL')}
+                      disabled={systemModeAction !== 'idle'}
                       className={`inline-flex justify-center items-center px-3 py-2 rounded-md text-sm font-semibold text-white ${
-                        riskStateResetting || systemModeAction !== 'idle'
+                        systemModeAction !== 'idle'
                           ? 'bg-gray-400 cursor-not-allowed'
-                          : 'bg-amber-600 hover:bg-amber-700'
+                          : 'bg-emerald-600 hover:bg-emerald-700'
                       }`}
                     >
-                      {riskStateResetting ? 'Resetting…' : 'Reset Risk State'}
+                      {systemModeAction === 'reset' ? 'Resetting…' : 'Reset System Mode'}
                     </button>
-                  )}
-                </div>
+                    <button
+                      type="button"
+                      onClick={() => handleSystemModeUpdate('HARD_STOP')}
+                      disabled={systemModeAction !== 'idle'}
+                      className={`inline-flex justify-center items-center px-3 py-2 rounded-md text-sm font-semibold text-white ${
+                        systemModeAction !== 'idle'
+                          ? 'bg-gray-400 cursor-not-allowed'
+                          : 'bg-red-600 hover:bg-red-700'
+                      }`}
+                    >
+                      {systemModeAction === 'stop' ? 'Applying…' : 'Trigger HARD_STOP'}
+                    </button>
+                    {systemModeInfo && systemModeInfo.risk_state !== 'NORMAL' && (
+                      <button
+                        type="button"
+                        onClick={handleResetRiskState}
+                        disabled={riskStateResetting || systemModeAction !== 'idle'}
+                        className={`inline-flex justify-center items-center px-3 py-2 rounded-md text-sm font-semibold text-white ${
+                          riskStateResetting || systemModeAction !== 'idle'
+                            ? 'bg-gray-400 cursor-not-allowed'
+                            : 'bg-amber-600 hover:bg-amber-700'
+                        }`}
+                      >
+                        {riskStateResetting ? 'Resetting…' : 'Reset Risk State'}
+                      </button>
+                    )}
+                  </div>
+                )}
                 <p className="mt-2 text-[11px] text-gray-500">
                   System mode uses `/debug/system-mode`. Risk state reset uses `/test/reset-risk-state`. Disabled automatically in LIVE trading.
                 </p>
@@ -0,0 +1,268 @@
+import { useEffect, useState } from 'react';
+import { getExecutionAnalytics } from '../api';
+import type { ExecutionAnalyticsResponse, ExecutionSliceDimension, ExecutionStats } from '../api';
+
+const DAY_OPTIONS = [7, 30, 90];
+
+const SLICE_LABELS: Record<ExecutionSliceDimension, string> = {
+  strategy: 'Strategy',
+  symbol: 'Symbol',
+  side: 'Side',
+  time_of_day: 'Time of Day (ET)',
+  exit_trigger: 'Exit Trigger',
+};
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatPrice(value: number | null): string {
+  return value === null ? '—' : value.toFixed(2);
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) {
+    return '—';
+  }
+  if (ms < 60000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+  return `${(ms / 60000).toFixed(1)}m`;
+}
+
+function slippageClass(value: number | null): string {
+  if (value === null) {
+    return 'text-gray-500';
+  }
+  return value > 0 ? 'text-red-600' : 'text-green-600';
+}
+
+function StatsTable({ title, rows }: { title: string; rows: Array<{ key: string; stats: ExecutionStats }> }) {
+  return (
+    <div className="bg-white rounded-lg shadow mb-6">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">By {title}</h2>
+      </div>
+      {rows.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">No orders</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{title}</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Orders</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Fill</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Cancel</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Reject</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Partial</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Attempts Filled</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Slip vs Mid</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Slip vs Natural</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Median Fill Time</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.map(({ key, stats }) => (
+                <tr key={key} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{key}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{stats.orders}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{formatPercent(stats.fill_rate)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{formatPercent(stats.cancel_rate)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{formatPercent(stats.reject_rate)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{formatPercent(stats.partial_rate)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                    {stats.attempts_filled}/{stats.attempts}
+                  </td>
+                  <td className={`px-4 py-3 whitespace-nowrap text-sm text-right ${slippageClass(stats.avg_slippage_vs_mid)}`}>
+                    {formatPrice(stats.avg_slippage_vs_mid)}
+                  </td>
+                  <td className={`px-4 py-3 whitespace-nowrap text-sm text-right ${slippageClass(stats.avg_slippage_vs_natural)}`}>
+                    {formatPrice(stats.avg_slippage_vs_natural)}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                    {formatDuration(stats.median_time_to_fill_ms)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ExecutionAnalytics() {
+  const [days, setDays] = useState(30);
+  const [data, setData] = useState<ExecutionAnalyticsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchAnalytics() {
+      try {
+        setLoading(true);
+        const analytics = await getExecutionAnalytics(days);
+        setData(analytics);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load execution analytics');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchAnalytics();
+  }, [days]);
+
+  if (loading && !data) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-gray-600">Loading execution analytics...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-red-600">Error: {error}</div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-gray-600">No data available</div>
+      </div>
+    );
+  }
+
+  const { overall } = data;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Execution Quality</h1>
+            <p className="text-sm text-gray-600">
+              Slippage is positive when a fill is worse than the reference (mid when the attempt started, or the
+              natural of the step that filled). Rates count every walk/ladder step as an order.
+            </p>
+          </div>
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="border border-gray-300 rounded px-3 py-2 text-sm"
+          >
+            {DAY_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                Last {option} days
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Summary */}
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+            <div>
+              <h2 className="text-xs font-medium text-gray-500 mb-1">Orders</h2>
+              <div className="text-2xl font-bold text-gray-900">{overall.orders}</div>
+            </div>
+            <div>
+              <h2 className="text-xs font-medium text-gray-500 mb-1">Attempt Fill Rate</h2>
+              <div className="text-2xl font-bold text-gray-900">{formatPercent(overall.attempt_fill_rate)}</div>
+            </div>
+            <div>
+              <h2 className="text-xs font-medium text-gray-500 mb-1">Reject Rate</h2>
+              <div className="text-2xl font-bold text-gray-900">{formatPercent(overall.reject_rate)}</div>
+            </div>
+            <div>
+              <h2 className="text-xs font-medium text-gray-500 mb-1">Avg Slip vs Mid</h2>
+              <div className={`text-2xl font-bold ${slippageClass(overall.avg_slippage_vs_mid)}`}>
+                {formatPrice(overall.avg_slippage_vs_mid)}
+              </div>
+            </div>
+            <div>
+              <h2 className="text-xs font-medium text-gray-500 mb-1">Avg Slip vs Natural</h2>
+              <div className={`text-2xl font-bold ${slippageClass(overall.avg_slippage_vs_natural)}`}>
+                {formatPrice(overall.avg_slippage_vs_natural)}
+              </div>
+            </div>
+            <div>
+              <h2 className="text-xs font-medium text-gray-500 mb-1">Median Fill Time</h2>
+              <div className="text-2xl font-bold text-gray-900">{formatDuration(overall.median_time_to_fill_ms)}</div>
+            </div>
+          </div>
+        </div>
+
+        {(Object.keys(SLICE_LABELS) as ExecutionSliceDimension[]).map((dimension) => (
+          <StatsTable key={dimension} title={SLICE_LABELS[dimension]} rows={data.slices[dimension] ?? []} />
+        ))}
+
+        {/* Recent orders */}
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Recent Orders</h2>
+          </div>
+          {data.orders.length === 0 ? (
+            <div className="p-6 text-center text-gray-500">No orders</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Symbol</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Strategy</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Side</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Step</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Fill</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Mid</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Natural</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Slip vs Mid</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Fill Time</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {data.orders.map((order) => (
+                    <tr key={order.order_id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {new Date(order.created_at).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{order.symbol}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{order.strategy}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {order.side}
+                        {order.exit_trigger && <span className="text-gray-500"> ({order.exit_trigger})</span>}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{order.walk_step ?? '—'}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                        {order.status}
+                        {order.partial && <span className="text-yellow-600"> (partial)</span>}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{formatPrice(order.fill_price)}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{formatPrice(order.reference_mid)}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">{formatPrice(order.natural_price)}</td>
+                      <td className={`px-4 py-3 whitespace-nowrap text-sm text-right ${slippageClass(order.slippage_vs_mid)}`}>
+                        {formatPrice(order.slippage_vs_mid)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right text-gray-900">
+                        {formatDuration(order.time_to_fill_ms)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -305,6 +305,63 @@ export default function ProposalsAndOrders() {
                                   </div>
                                 </div>
                               </div>
+                              {item.proposal.sizing && (
+                                <div className="mt-4">
+                                  <h4 className="text-md font-semibold text-gray-900 mb-2">Position Sizing</h4>
+                                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+                                    <div>
+                                      <span className="text-gray-500">Mode:</span>
+                                      <div className="text-gray-900 font-medium">{item.proposal.sizing.mode}</div>
+                                    </div>
+                                    <div>
+                                      <span className="text-gray-500">Binding Limit:</span>
+                                      <div className="text-gray-900 font-medium">{item.proposal.sizing.binding}</div>
+                                    </div>
+                                    {item.proposal.sizing.mode === 'RISK_BUDGET' && (
+                                      <>
+                                        <div>
+                                          <span className="text-gray-500">Equity:</span>
+                                          <div className="text-gray-900 font-medium">
+                                            ${item.proposal.sizing.equity?.toFixed(0) ?? '—'}
+                                            <span className="text-xs text-gray-500 ml-1">
+                                              ({item.proposal.sizing.equity_source === 'ACCOUNT_BALANCES' ? 'Tradier' : 'reference'})
+                                            </span>
+                                          </div>
+                                        </div>
+                                        <div>
+                                          <span className="text-gray-500">Risk Budget:</span>
+                                          <div className="text-gray-900 font-medium">
+                                            ${item.proposal.sizing.risk_budget?.toFixed(2) ?? '—'}
+                                            <span className="text-xs text-gray-500 ml-1">
+                                              (vol ×{item.proposal.sizing.vol_scale?.toFixed(2)}, score ×{item.proposal.sizing.score_scale?.toFixed(2)})
+                                            </span>
+                                          </div>
+                                        </div>
+                                        <div>
+                                          <span className="text-gray-500">Risk / Contract:</span>
+                                          <div className="text-gray-900 font-medium">${item.proposal.sizing.risk_per_contract?.toFixed(2) ?? '—'}</div>
+                                        </div>
+                                        <div>
+                                          <span className="text-gray-500">Budget Qty:</span>
+                                          <div className="text-gray-900 font-medium">{item.proposal.sizing.budget_quantity ?? '—'}</div>
+                                        </div>
+                                        <div>
+                                          <span className="text-gray-500">Per-Trade Cap Qty:</span>
+                                          <div className="text-gray-900 font-medium">{item.proposal.sizing.per_trade_cap_quantity ?? 'none'}</div>
+                                        </div>
+                                        <div>
+                                          <span className="text-gray-500">Daily Room Qty:</span>
+                                          <div className="text-gray-900 font-medium">{item.proposal.sizing.daily_room_quantity ?? 'none'}</div>
+                                        </div>
+                                      </>
+                                    )}
+                                    <div>
+                                      <span className="text-gray-500">Max Qty:</span>
+                                      <div className="text-gray-900 font-medium">{item.proposal.sizing.max_quantity}</div>
+                                    </div>
+                                  </div>
+                                </div>
+                              )}
                             </div>
 
                             {/* Outcome & Rationale */}
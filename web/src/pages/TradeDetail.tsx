@@ -82,13 +82,19 @@ export default function TradeDetail() {
   return (
     <div className="min-h-screen bg-gray-50 p-4 md:p-8">
       <div className="max-w-4xl mx-auto">
-        <div className="mb-6">
+        <div className="mb-6 flex justify-between items-center">
           <Link
             to="/trades"
             className="text-blue-600 hover:text-blue-800 text-sm font-medium"
           >
             ← Back to Trades
           </Link>
+          <Link
+            to={`/audit?target_type=trade&target_id=${encodeURIComponent(trade.id)}`}
+            className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+          >
+            Audit history →
+          </Link>
         </div>
 
         <div className="bg-white rounded-lg shadow p-6 md:p-8">
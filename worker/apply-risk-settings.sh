@@ -9,6 +9,8 @@
 #
 # Example:
 #   ./apply-risk-settings.sh https://gekkoworks-api.kevin-mcgovern.workers.dev
+#
+# Requires an admin API key in GEKKOWORKS_API_KEY (see src/http/auth.ts).
 
 API_BASE_URL=${1:-"https://gekkoworks-api.kevin-mcgovern.workers.dev"}
 
@@ -26,6 +28,7 @@ update_setting() {
   
   response=$(curl -s -X POST "$API_BASE_URL/v2/admin/settings" \
     -H "Content-Type: application/json" \
+    -H "Authorization: Bearer $GEKKOWORKS_API_KEY" \
     -d "{\"key\": \"$key\", \"value\": \"$value\"}")
   
   if echo "$response" | grep -q '"success":true'; then
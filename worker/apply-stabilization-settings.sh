@@ -2,6 +2,8 @@
 # Apply stabilization phase settings
 # - Disable BEAR_CALL_CREDIT (only BULL_PUT_CREDIT)
 # - Update min credit fraction setting
+#
+# Requires an admin API key in GEKKOWORKS_API_KEY (see src/http/auth.ts).
 
 API_BASE_URL=${1:-http://localhost:8787} # Default to localhost if no URL provided
 
@@ -14,7 +16,7 @@ echo "════════════════════════
 echo "DISABLING BEAR_CALL_CREDIT (Stabilization Phase)"
 echo "════════════════════════════════════════════════════════════════════════"
 echo "Setting PROPOSAL_STRATEGY_WHITELIST = BULL_PUT_CREDIT (removing BEAR_CALL_CREDIT)..."
-curl -s -X POST "${API_BASE_URL}/v2/admin/settings" -H "Content-Type: application/json" -d '{"key":"PROPOSAL_STRATEGY_WHITELIST","value":"BULL_PUT_CREDIT"}' | jq -r '.message // "✅ Success"'
+curl -s -X POST "${API_BASE_URL}/v2/admin/settings" -H "Content-Type: application/json" -H "Authorization: Bearer ${GEKKOWORKS_API_KEY}" -d '{"key":"PROPOSAL_STRATEGY_WHITELIST","value":"BULL_PUT_CREDIT"}' | jq -r '.message // "✅ Success"'
 
 # Update min credit fraction (lowered from 0.18 to 0.16)
 echo ""
@@ -22,7 +24,7 @@ echo "════════════════════════
 echo "LOWERING MIN CREDIT FRACTION"
 echo "════════════════════════════════════════════════════════════════════════"
 echo "Setting MIN_CREDIT_FRACTION = 0.16 (lowered from 0.18)..."
-curl -s -X POST "${API_BASE_URL}/v2/admin/settings" -H "Content-Type: application/json" -d '{"key":"MIN_CREDIT_FRACTION","value":"0.16"}' | jq -r '.message // "✅ Success"'
+curl -s -X POST "${API_BASE_URL}/v2/admin/settings" -H "Content-Type: application/json" -H "Authorization: Bearer ${GEKKOWORKS_API_KEY}" -d '{"key":"MIN_CREDIT_FRACTION","value":"0.16"}' | jq -r '.message // "✅ Success"'
 
 echo ""
 echo "════════════════════════════════════════════════════════════════════════"
@@ -0,0 +1,189 @@
+/**
+ * Historical Broker
+ *
+ * Implements BrokerClient over recorded market snapshots so the backtest
+ * can drive the same code paths as TradierClient without network access.
+ *
+ * Fill model (one snapshot = one cycle, orders never rest across cycles):
+ * - Limit orders fill at the limit price when the limit is at or inside the
+ *   spread mid (credit <= mid credit, debit >= mid debit); otherwise CANCELLED.
+ * - Market orders fill at the natural price (sell at bid, buy at ask).
+ */
+
+import type {
+  BrokerClient,
+  UnderlyingQuote,
+  OptionQuote,
+  BrokerOrder,
+  BrokerPosition,
+  PlaceSpreadOrderParams,
+  BrokerBalances,
+} from '../types';
+import type { MarketSnapshot } from './types';
+import { isDebitStrategy } from '../strategy/registry';
+
+export class HistoricalBroker implements BrokerClient {
+  private snapshot: MarketSnapshot | null = null;
+  private optionIndex = new Map<string, OptionQuote>();
+  private orders = new Map<string, BrokerOrder>();
+  private positions = new Map<string, BrokerPosition>();
+  private nextOrderId = 1;
+  private cash: number;
+
+  constructor(startingCash: number = 0) {
+    this.cash = startingCash;
+  }
+
+  /**
+   * Advance the broker to a new snapshot (called once per replay cycle)
+   */
+  setSnapshot(snapshot: MarketSnapshot): void {
+    this.snapshot = snapshot;
+    this.optionIndex.clear();
+    for (const byExpiration of Object.values(snapshot.chains)) {
+      for (const chain of Object.values(byExpiration)) {
+        for (const option of chain) {
+          this.optionIndex.set(option.symbol, option);
+        }
+      }
+    }
+  }
+
+  private requireSnapshot(): MarketSnapshot {
+    if (!this.snapshot) {
+      throw new Error('[backtest] HistoricalBroker used before setSnapshot');
+    }
+    return this.snapshot;
+  }
+
+  async getUnderlyingQuote(symbol: string): Promise<UnderlyingQuote> {
+    const quote = this.requireSnapshot().quotes[symbol];
+    if (!quote) {
+      throw new Error(`[backtest] no recorded quote for ${symbol} at ${this.snapshot!.timestamp}`);
+    }
+    return quote;
+  }
+
+  async getOptionChain(symbol: string, expiration: string): Promise<OptionQuote[]> {
+    // Missing expirations return an empty chain, matching Tradier's behaviour
+    return this.requireSnapshot().chains[symbol]?.[expiration] ?? [];
+  }
+
+  async placeSpreadOrder(params: PlaceSpreadOrderParams): Promise<BrokerOrder> {
+    const snapshot = this.requireSnapshot();
+    const id = `BT-${this.nextOrderId++}`;
+    const quantity = params.legs[0].quantity;
+
+    // Net prices from our side: sells add, buys subtract
+    let netMid = 0;
+    let netNatural = 0;
+    for (const leg of params.legs) {
+      const option = this.optionIndex.get(leg.option_symbol);
+      if (!option) {
+        return this.record(id, 'REJECTED', null, quantity, snapshot.timestamp, params);
+      }
+      const isSell = leg.side === 'sell_to_open' || leg.side === 'sell_to_close';
+      const mid = (option.bid + option.ask) / 2;
+      netMid += isSell ? mid : -mid;
+      netNatural += isSell ? option.bid : -option.ask;
+    }
+
+    // Debit orders: opening a debit spread, or closing a credit spread
+    const isDebitOrder = isDebitStrategy(params.strategy) ? params.side === 'ENTRY' : params.side === 'EXIT';
+
+    let fillPrice: number | null;
+    if (params.order_type === 'market' || params.limit_price === undefined) {
+      fillPrice = Math.max(0, isDebitOrder ? -netNatural : netNatural);
+    } else {
+      const midPrice = isDebitOrder ? -netMid : netMid;
+      const marketable = isDebitOrder ? params.limit_price >= midPrice : params.limit_price <= midPrice;
+      fillPrice = marketable ? params.limit_price : null;
+    }
+
+    if (fillPrice === null) {
+      return this.record(id, 'CANCELLED', null, quantity, snapshot.timestamp, params);
+    }
+
+    this.cash += (isDebitOrder ? -fillPrice : fillPrice) * 100 * quantity;
+    for (const leg of params.legs) {
+      const isSell = leg.side === 'sell_to_open' || leg.side === 'sell_to_close';
+      const existing = this.positions.get(leg.option_symbol);
+      const nextQty = (existing?.quantity ?? 0) + (isSell ? -leg.quantity : leg.quantity);
+      if (nextQty === 0) {
+        this.positions.delete(leg.option_symbol);
+      } else {
+        this.positions.set(leg.option_symbol, {
+          symbol: leg.option_symbol,
+          quantity: nextQty,
+          cost_basis: null,
+        });
+      }
+    }
+
+    return this.record(id, 'FILLED', fillPrice, quantity, snapshot.timestamp, params);
+  }
+
+  private record(
+    id: string,
+    status: BrokerOrder['status'],
+    fillPrice: number | null,
+    quantity: number,
+    timestamp: string,
+    params: PlaceSpreadOrderParams
+  ): BrokerOrder {
+    const filled = status === 'FILLED';
+    const order: BrokerOrder = {
+      id,
+      status,
+      avg_fill_price: fillPrice,
+      filled_quantity: filled ? quantity : 0,
+      remaining_quantity: filled ? 0 : quantity,
+      created_at: timestamp,
+      updated_at: timestamp,
+      client_order_id: params.client_order_id ?? null,
+      tag: params.tag,
+    };
+    this.orders.set(id, order);
+    return order;
+  }
+
+  async getOrder(orderId: string): Promise<BrokerOrder> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`[backtest] unknown order ${orderId}`);
+    }
+    return order;
+  }
+
+  async getPositions(): Promise<BrokerPosition[]> {
+    return Array.from(this.positions.values());
+  }
+
+  async getAllOrders(): Promise<BrokerOrder[]> {
+    return Array.from(this.orders.values());
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {
+    // Orders never rest across cycles, so there is nothing live to cancel
+    await this.getOrder(orderId);
+  }
+
+  /**
+   * Cash from fills plus open option positions marked at mid (no margin model)
+   */
+  async getBalances(): Promise<BrokerBalances> {
+    let marketValue = 0;
+    for (const position of this.positions.values()) {
+      const option = this.optionIndex.get(position.symbol);
+      if (option) {
+        marketValue += position.quantity * ((option.bid + option.ask) / 2) * 100;
+      }
+    }
+    return {
+      cash: this.cash,
+      buying_power: this.cash,
+      equity: this.cash + marketValue,
+      margin_requirement: 0,
+    };
+  }
+}
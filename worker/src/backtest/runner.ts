@@ -0,0 +1,705 @@
+/**
+ * Backtest Runner
+ *
+ * Replays recorded snapshots through the same proposal, entry-pricing and
+ * monitoring logic the live engine uses, one cycle per snapshot:
+ *
+ * 1. Monitor open trades: buildMonitoringMetrics + decideCloseRule
+ *    (same thresholds via loadCloseRuleConfig), then the exit style of the trigger:
+ *    the exit ladder (priceExitLadderStep over EXIT_LADDER_*) or a market order.
+ *    Trades held past expiration settle at intrinsic value.
+ * 2. Select a proposal: the candidate pipeline of generateProposal
+ *    (buildSymbolCandidates / scoreSymbolCandidates) and its selection helpers.
+ * 3. Enter: quantity from sizeProposal (SIZING_MODE, with the simulated equity and
+ *    the risk opened that day), then the entry limit walk (priceEntryStep over
+ *    ENTRY_WALK_TICK / ENTRY_WALK_SCHEDULE_MS) through HistoricalBroker, subject to
+ *    the same MAX_* entry caps read from settings. Quotes do not move within a
+ *    snapshot, so every walk step is tried against the same chain.
+ *
+ * Nothing touches D1 or Tradier: settings come from createBacktestEnv, market data
+ * from the dataset. Regime and trend use SMA_20 over recorded daily closes
+ * (sessions strictly before the snapshot date).
+ */
+
+import type { Env } from '../env';
+import type { TradeRow, ExitTriggerType, SpreadLeg, CondorWing, BrokerOrder, OptionQuote } from '../types';
+import type {
+  BacktestDataset,
+  BacktestOptions,
+  BacktestResult,
+  BacktestTrade,
+  BacktestExitReason,
+  DailyClose,
+  EquityPoint,
+  MarketSnapshot,
+} from './types';
+import { HistoricalBroker } from './historicalBroker';
+import { createBacktestEnv } from './settingsEnv';
+import { computeBacktestStats } from './stats';
+import { getNumberSetting } from '../core/settings';
+import {
+  getTradingMode,
+  getStrategyThresholds,
+  getStrategyWhitelist,
+  getDefaultTradeQuantity,
+  getEntryExecutionConfig,
+  getExitLadderConfig,
+  getRealizedVolConfig,
+  getRegimeConfig,
+  getRegimeStrategyMap,
+} from '../core/config';
+import { getETDateString } from '../core/time';
+import { captureATM30DayIV } from '../core/ivRank';
+import { buildRealizedVolSnapshot } from '../core/realizedVol';
+import { evaluateRegime } from '../core/regime';
+import type { MarketRegime } from '../core/regime';
+import {
+  computeSMA20FromCloses,
+  computeBullishTrendScore,
+  computeBearishTrendScore,
+} from '../core/trend';
+import { getEnabledStrategies } from '../strategy/config';
+import { getStrategyPlugin, findStrategyPlugin, getOpenTradeWings, getStrategyOptionType, isDebitStrategy } from '../strategy/registry';
+import { getVerticalOptions, CREDIT_VERTICAL_RULES } from '../strategy/vertical';
+import type { WingOptions } from '../strategy/types';
+import {
+  getEligibleSymbols,
+  buildSymbolCandidates,
+  scoreSymbolCandidates,
+  getCandidateWings,
+  passesSelectionRules,
+  compareScoredCandidates,
+  filterCandidatesByNetPremium,
+  PLACEHOLDER_RV_30D,
+  PLACEHOLDER_IV_30D,
+  type CandidatePipelineSources,
+  type CandidatePipelineParams,
+  type SymbolCandidates,
+  type RawCandidate,
+  type ScoredCandidate,
+} from '../engine/proposals';
+import { priceEntryStep } from '../engine/entry';
+import { getExitExecutionStyle, priceExitLadderStep } from '../engine/exitLadder';
+import type { SpreadPrices } from '../engine/limitWalk';
+import {
+  buildMonitoringMetrics,
+  loadCloseRuleConfig,
+  decideCloseRule,
+} from '../engine/monitoring';
+import { getTradeOptionChain, findSpreadLegs } from '../core/timeSpread';
+import { resolveExitProfile } from '../core/exitProfiles';
+import { sizeProposal, type SizingAccount } from '../core/sizing';
+
+const DEFAULT_STARTING_EQUITY = 10000;
+
+interface OpenPosition {
+  trade: TradeRow;
+  entry: BacktestTrade;
+  lastMark: number;
+}
+
+interface Selection {
+  raw: RawCandidate;
+  scored: ScoredCandidate;
+  iv: number | null;              // measured ATM IV (sizing vol scale)
+}
+
+/**
+ * Per-contract PnL in dollars from entry and exit prices
+ */
+function pnlPerContract(strategy: string | undefined, entryPrice: number, exitPrice: number): number {
+  return (isDebitStrategy(strategy) ? exitPrice - entryPrice : entryPrice - exitPrice) * 100;
+}
+
+/**
+ * Spread value at expiration from the underlying price
+ *
+ * Credit spreads return the debit owed to close; debit spreads the credit received.
+ * Multi-wing strategies add up their open wings plus the debit already paid for a closed wing.
+ */
+function intrinsicSpreadValue(trade: TradeRow, underlyingPrice: number): number {
+  const rules = findStrategyPlugin(trade.strategy) ?? CREDIT_VERTICAL_RULES;
+  return getOpenTradeWings(trade).reduce((sum, wing) => {
+    const intrinsic = (strike: number) =>
+      wing.optionType === 'call'
+        ? Math.max(0, underlyingPrice - strike)
+        : Math.max(0, strike - underlyingPrice);
+    const value = rules.computeMark([{ shortMid: intrinsic(wing.short_strike), longMid: intrinsic(wing.long_strike) }]);
+    return sum + Math.max(0, Math.min(trade.width, value));
+  }, trade.wing_exit_price ?? 0);
+}
+
+/**
+ * Daily closes for a symbol strictly before `date` (for SMA_20 and regime factors)
+ */
+function closesBefore(closes: Map<string, DailyClose[]>, symbol: string, date: string): DailyClose[] {
+  return (closes.get(symbol) ?? []).filter(c => c.date < date);
+}
+
+/**
+ * Merge warm-up closes with one close per snapshot date (last snapshot of the day wins)
+ */
+function buildCloseHistory(dataset: BacktestDataset, snapshots: MarketSnapshot[]): Map<string, DailyClose[]> {
+  const byDate = new Map<string, Map<string, number>>();
+  const put = (symbol: string, date: string, close: number) => {
+    if (!byDate.has(symbol)) {
+      byDate.set(symbol, new Map());
+    }
+    byDate.get(symbol)!.set(date, close);
+  };
+
+  for (const [symbol, history] of Object.entries(dataset.closes)) {
+    for (const { date, close } of history) {
+      put(symbol, date, close);
+    }
+  }
+  for (const snapshot of snapshots) {
+    const date = getETDateString(new Date(snapshot.timestamp));
+    for (const [symbol, quote] of Object.entries(snapshot.quotes)) {
+      put(symbol, date, quote.last);
+    }
+  }
+
+  const result = new Map<string, DailyClose[]>();
+  for (const [symbol, dates] of byDate) {
+    result.set(
+      symbol,
+      Array.from(dates, ([date, close]) => ({ date, close })).sort((a, b) => a.date.localeCompare(b.date))
+    );
+  }
+  return result;
+}
+
+/**
+ * Run a backtest over a dataset
+ *
+ * Defaults TRADING_MODE to SANDBOX_PAPER, which relaxes the RV/IV gate when a dataset
+ * lacks the closes or bracketing expirations to measure RV/IV; DRY_RUN and LIVE skip
+ * those symbols, as live.
+ */
+export async function runBacktest(
+  dataset: BacktestDataset,
+  options: BacktestOptions = {}
+): Promise<BacktestResult> {
+  const env = createBacktestEnv({ TRADING_MODE: 'SANDBOX_PAPER', ...options.settings });
+  const startingEquity = options.startingEquity ?? DEFAULT_STARTING_EQUITY;
+  const broker = new HistoricalBroker(startingEquity);
+
+  const snapshots = [...dataset.snapshots].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const closes = buildCloseHistory(dataset, snapshots);
+
+  const ledger: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+  let open: OpenPosition[] = [];
+  let realizedPnl = 0;
+  let lastEquity = startingEquity;
+  let nextTradeId = 1;
+  // max_loss opened per ET date (DAILY_MAX_NEW_RISK room for sizing)
+  const newRiskByDate = new Map<string, number>();
+  // Per-symbol regime carried across snapshots for hysteresis (replaces REGIME_* settings)
+  const regimes = new Map<string, MarketRegime>();
+
+  for (const snapshot of snapshots) {
+    broker.setSnapshot(snapshot);
+    const now = new Date(snapshot.timestamp);
+    const date = getETDateString(now);
+
+    // [1] Monitor open trades
+    const stillOpen: OpenPosition[] = [];
+    for (const position of open) {
+      const closed = await monitorPosition(env, broker, position, now, date);
+      if (closed) {
+        realizedPnl += position.entry.realized_pnl ?? 0;
+      } else {
+        stillOpen.push(position);
+      }
+    }
+    open = stillOpen;
+
+    // [2] Select a proposal and [3] enter it
+    const selection = await selectCandidate(env, broker, now, date, closes, regimes, open.map(p => p.trade));
+    if (selection && (await passesEntryCaps(env, selection.raw, open, ledger, date))) {
+      const account = { equity: lastEquity, dailyNewRiskUsed: newRiskByDate.get(date) ?? 0 };
+      const position = await enterPosition(env, broker, selection, now, `BT-TRADE-${nextTradeId}`, account);
+      if (position) {
+        nextTradeId++;
+        open.push(position);
+        ledger.push(position.entry);
+        newRiskByDate.set(date, account.dailyNewRiskUsed + (position.trade.max_loss ?? 0));
+      }
+    }
+
+    // Equity: realized + open trades marked at last mid
+    const unrealizedPnl = open.reduce(
+      (acc, p) => acc + pnlPerContract(p.trade.strategy, p.entry.entry_price, p.lastMark) * p.trade.quantity,
+      0
+    );
+    lastEquity = startingEquity + realizedPnl + unrealizedPnl;
+    equityCurve.push({
+      timestamp: snapshot.timestamp,
+      equity: lastEquity,
+      realized_pnl: realizedPnl,
+      unrealized_pnl: unrealizedPnl,
+      open_trades: open.length,
+    });
+  }
+
+  // Close anything still open at its last mark so the ledger is complete
+  const lastTimestamp = snapshots.length > 0 ? snapshots[snapshots.length - 1].timestamp : new Date().toISOString();
+  for (const position of open) {
+    closePosition(position, position.lastMark, 'END_OF_DATA', lastTimestamp);
+  }
+
+  return {
+    ledger,
+    equity_curve: equityCurve,
+    stats: computeBacktestStats(ledger, equityCurve, startingEquity),
+  };
+}
+
+function closePosition(
+  position: OpenPosition,
+  exitPrice: number,
+  reason: BacktestExitReason,
+  closedAt: string
+): void {
+  const { trade, entry } = position;
+  entry.exit_price = exitPrice;
+  entry.exit_reason = reason;
+  entry.closed_at = closedAt;
+  entry.realized_pnl = pnlPerContract(trade.strategy, entry.entry_price, exitPrice) * trade.quantity;
+  position.lastMark = exitPrice;
+}
+
+/**
+ * Evaluate one open trade; returns true if it was closed this cycle
+ */
+async function monitorPosition(
+  env: Env,
+  broker: HistoricalBroker,
+  position: OpenPosition,
+  now: Date,
+  date: string
+): Promise<boolean> {
+  const { trade } = position;
+
+  // Held through expiration - settle at intrinsic value
+  // Time spreads: the back-month long outlives the front expiry, so settle at the last mark
+  if (date > trade.expiration) {
+    const underlying = await broker.getUnderlyingQuote(trade.symbol).catch(() => null);
+    const singleExpiry = getOpenTradeWings(trade).every(wing => wing.long_expiration === wing.expiration);
+    const settle = underlying && singleExpiry
+      ? intrinsicSpreadValue(trade, underlying.last)
+      : position.lastMark;
+    closePosition(position, settle, 'EXPIRED', now.toISOString());
+    return true;
+  }
+
+  const underlying = await broker.getUnderlyingQuote(trade.symbol).catch(() => null);
+  const chain = await getTradeOptionChain(broker, trade);
+  // One quote pair per open wing (IRON_CONDOR: put wing first)
+  const openWings = getOpenTradeWings(trade);
+  const wingQuotes: WingOptions[] = [];
+  for (const wing of openWings) {
+    const { shortOption, longOption } = findSpreadLegs(chain, wing, wing.optionType);
+    if (!shortOption || !longOption) {
+      // Missing data - skip this cycle, same as live monitoring
+      return false;
+    }
+    wingQuotes.push({ shortOption, longOption });
+  }
+
+  if (!underlying) {
+    return false;
+  }
+  const { shortOption } = wingQuotes[0];
+
+  const config = await loadCloseRuleConfig(env, trade);
+  const metrics = buildMonitoringMetrics(trade, underlying, wingQuotes, now, {
+    liquiditySpreadThreshold: config.liquiditySpreadThreshold,
+    // Snapshots are too far apart for 1m/15s moves; spike emergencies are not replayed
+    change_1m: 0,
+    change_15s: 0,
+  });
+
+  let trigger: ExitTriggerType;
+  let wing: CondorWing | undefined;
+  if (!metrics.quote_integrity_ok || !metrics.liquidity_ok) {
+    trigger = 'EMERGENCY';
+  } else {
+    const decision = decideCloseRule(trade, metrics, now, config, shortOption.implied_volatility);
+    trade.max_seen_profit_fraction = decision.peak;
+    trigger = decision.trigger;
+    wing = decision.wing;
+  }
+
+  position.lastMark = metrics.current_mark;
+  if (trigger === 'NONE') {
+    return false;
+  }
+
+  // WING_DEFENSE closes only that wing
+  const closing = wing ? [wingQuotes[openWings.findIndex(w => w.wing === wing)]] : wingQuotes;
+  const plugin = getStrategyPlugin(trade.strategy);
+  const legs: SpreadLeg[] = plugin.buildClosingLegs(closing.map(quotes => ({
+    short: { option_symbol: quotes.shortOption.symbol, quantity: trade.quantity },
+    long: { option_symbol: quotes.longOption.symbol, quantity: trade.quantity },
+  })));
+  const fillPrice = await placeExitOrder(env, broker, trade, trigger, legs, chain);
+  if (fillPrice === null) {
+    // Not filled - the trade stays open for the next cycle, as after an unfilled live ladder
+    return false;
+  }
+
+  if (wing) {
+    // Wing closed - the trade stays open on the remaining wing
+    trade.closed_wing = wing;
+    trade.wing_exit_price = fillPrice;
+    return false;
+  }
+
+  closePosition(position, fillPrice + (trade.wing_exit_price ?? 0), trigger, now.toISOString());
+  return true;
+}
+
+/**
+ * Close through HistoricalBroker the way executeExitForTrade would
+ *
+ * MARKET-style triggers (EMERGENCY, STRUCTURAL_BREAK, WING_DEFENSE) send a market order.
+ * PATIENT/FAST triggers walk the exit ladder priced by priceExitLadderStep with the same
+ * EXIT_LADDER_* tick and steps; quotes do not move within a snapshot, so every step is
+ * priced off the same chain. Returns the fill price, or null if nothing filled.
+ */
+async function placeExitOrder(
+  env: Env,
+  broker: HistoricalBroker,
+  trade: TradeRow,
+  trigger: ExitTriggerType,
+  legs: SpreadLeg[],
+  chain: OptionQuote[]
+): Promise<number | null> {
+  const style = getExitExecutionStyle(trigger);
+  if (style === 'MARKET') {
+    const order = await broker.placeSpreadOrder({
+      symbol: trade.symbol,
+      side: 'EXIT',
+      legs,
+      tag: 'GEKKOWORKS-EXIT',
+      strategy: trade.strategy,
+      order_type: 'market',
+    });
+    return order.status === 'FILLED' ? order.avg_fill_price : null;
+  }
+
+  const { tick, stepWaitMs } = await getExitLadderConfig(env, style);
+  let limitPrice: number | null = null;
+  for (let step = 0; step < stepWaitMs.length; step++) {
+    const stepPrice = priceExitLadderStep(chain, legs, trade.strategy, step, tick);
+    if (!stepPrice) {
+      return null;
+    }
+    if (stepPrice.limitPrice === limitPrice) {
+      continue; // already at natural
+    }
+    limitPrice = stepPrice.limitPrice;
+    const order = await broker.placeSpreadOrder({
+      symbol: trade.symbol,
+      side: 'EXIT',
+      legs,
+      tag: 'GEKKOWORKS-EXIT-LADDER',
+      strategy: trade.strategy,
+      limit_price: limitPrice,
+      order_type: 'limit',
+    });
+    if (order.status === 'FILLED' && order.avg_fill_price !== null) {
+      return order.avg_fill_price;
+    }
+  }
+  return null;
+}
+
+/**
+ * Entry caps mirrored from the entry engine (same settings and defaults)
+ */
+async function passesEntryCaps(
+  env: Env,
+  candidate: RawCandidate,
+  open: OpenPosition[],
+  ledger: BacktestTrade[],
+  date: string
+): Promise<boolean> {
+  const maxGlobal = await getNumberSetting(env, 'MAX_OPEN_SPREADS_GLOBAL');
+  const maxPerSymbol = await getNumberSetting(env, 'MAX_SPREADS_PER_SYMBOL');
+  const maxPerDay = await getNumberSetting(env, 'MAX_NEW_TRADES_PER_DAY');
+
+  const openedToday = ledger.filter(t => t.opened_at && getETDateString(new Date(t.opened_at)) === date).length;
+  const openForSymbol = open.filter(p => p.trade.symbol === candidate.symbol).length;
+
+  return open.length < maxGlobal && openForSymbol < maxPerSymbol && openedToday < maxPerDay;
+}
+
+/**
+ * Place the entry limit order and open the trade if it fills
+ */
+async function enterPosition(
+  env: Env,
+  broker: HistoricalBroker,
+  selection: Selection,
+  now: Date,
+  tradeId: string,
+  account: SizingAccount
+): Promise<OpenPosition | null> {
+  const { raw, scored } = selection;
+  const isDebit = isDebitStrategy(raw.strategy);
+  // IRON_CONDOR: one short/long pair per wing (put wing first)
+  const wingOptions: WingOptions[] = [];
+  for (const wing of getCandidateWings(raw)) {
+    const { shortOption, longOption } = getVerticalOptions(wing, getStrategyOptionType(wing.strategy));
+    if (!shortOption || !longOption) {
+      return null;
+    }
+    wingOptions.push({ shortOption, longOption });
+  }
+
+  // Same sizing as generateProposal; max loss per spread from the candidate's credit/debit
+  const sizing = await sizeProposal(env, {
+    maxLossPerSpread: isDebit ? Math.abs(scored.credit) : scored.width - scored.credit,
+    isDebit,
+    iv: selection.iv,
+    score: scored.scoring.composite_score,
+  }, now, account);
+  if (sizing.quantity < 1) {
+    console.log('[backtest][entry][sized_to_zero]', JSON.stringify({
+      symbol: raw.symbol,
+      strategy: raw.strategy,
+      binding: sizing.binding,
+      timestamp: now.toISOString(),
+    }));
+    return null;
+  }
+  const quantity = sizing.quantity;
+  const legs: SpreadLeg[] = getStrategyPlugin(raw.strategy).buildOpeningLegs(wingOptions, quantity);
+
+  // Limit walk priced by priceEntryStep, as in attemptEntryForLatestProposal: mid first,
+  // one tick toward natural per step, stopping at the credit floor
+  const { minCreditFraction } = await getStrategyThresholds(env);
+  const { tick, stepWaitMs } = await getEntryExecutionConfig(env);
+  let order: BrokerOrder | null = null;
+  let limitPrice: number | null = null;
+  let prices: SpreadPrices | null = null;
+  for (let step = 0; step < stepWaitMs.length; step++) {
+    const stepPrice = priceEntryStep(raw.strategy, wingOptions, step, tick, raw.width * minCreditFraction);
+    prices = stepPrice.prices;
+    if (stepPrice.reason) {
+      break;
+    }
+    if (stepPrice.limitPrice === limitPrice) {
+      continue; // already at natural (or a bound)
+    }
+    limitPrice = stepPrice.limitPrice;
+    order = await broker.placeSpreadOrder({
+      symbol: raw.symbol,
+      side: 'ENTRY',
+      limit_price: limitPrice,
+      legs,
+      tag: 'GEKKOWORKS-ENTRY',
+      strategy: raw.strategy,
+      order_type: 'limit',
+    });
+    if (order.status === 'FILLED') {
+      break;
+    }
+  }
+  if (!order || order.status !== 'FILLED' || order.avg_fill_price === null) {
+    console.log('[backtest][entry][unfilled]', JSON.stringify({
+      symbol: raw.symbol,
+      strategy: raw.strategy,
+      mid_price: prices?.mid ?? null,
+      natural_price: prices?.natural ?? null,
+      limit_price: limitPrice,
+      timestamp: now.toISOString(),
+    }));
+    return null;
+  }
+
+  const entryPrice = order.avg_fill_price;
+  const openedAt = now.toISOString();
+  // Per-contract max profit/loss from the strategy plugin (mark = entry price)
+  const { max_profit, max_loss } = getStrategyPlugin(raw.strategy).computePnl(entryPrice, entryPrice, raw.width);
+  const trade: TradeRow = {
+    id: tradeId,
+    proposal_id: null,
+    symbol: raw.symbol,
+    expiration: raw.expiration,
+    short_strike: raw.short_strike,
+    long_strike: raw.long_strike,
+    call_short_strike: raw.call_short_strike ?? null,
+    call_long_strike: raw.call_long_strike ?? null,
+    long_expiration: raw.long_expiration ?? null,
+    exit_profile: JSON.stringify(await resolveExitProfile(env, raw.strategy, raw.symbol)),
+    width: raw.width,
+    quantity,
+    strategy: raw.strategy,
+    entry_price: entryPrice,
+    exit_price: null,
+    max_profit: max_profit * quantity,
+    max_loss: max_loss * quantity,
+    status: 'OPEN',
+    exit_reason: null,
+    broker_order_id_open: order.id,
+    broker_order_id_close: null,
+    opened_at: openedAt,
+    closed_at: null,
+    created_at: openedAt,
+    updated_at: openedAt,
+    realized_pnl: null,
+    max_seen_profit_fraction: 0,
+    iv_entry: wingOptions[0].shortOption.implied_volatility,
+    origin: 'ENGINE',
+    managed: 1,
+  };
+
+  return {
+    trade,
+    lastMark: entryPrice,
+    entry: {
+      id: tradeId,
+      symbol: raw.symbol,
+      strategy: raw.strategy,
+      expiration: raw.expiration,
+      short_strike: raw.short_strike,
+      long_strike: raw.long_strike,
+      call_short_strike: raw.call_short_strike ?? null,
+      call_long_strike: raw.call_long_strike ?? null,
+      long_expiration: raw.long_expiration ?? null,
+      width: raw.width,
+      quantity,
+      score: scored.scoring.composite_score,
+      opened_at: openedAt,
+      entry_price: entryPrice,
+      closed_at: null,
+      exit_price: null,
+      exit_reason: null,
+      realized_pnl: null,
+    },
+  };
+}
+
+/**
+ * One proposal cycle against the current snapshot
+ *
+ * Candidates come from the same pipeline as generateProposal (buildSymbolCandidates /
+ * scoreSymbolCandidates); only the market inputs differ: regime and trend from recorded
+ * closes, RV from recorded closes, IV from recorded chains, neutral IV rank.
+ */
+async function selectCandidate(
+  env: Env,
+  broker: HistoricalBroker,
+  now: Date,
+  date: string,
+  closes: Map<string, DailyClose[]>,
+  regimes: Map<string, MarketRegime>,
+  openTrades: TradeRow[]
+): Promise<Selection | null> {
+  const thresholds = await getStrategyThresholds(env);
+  const mode = await getTradingMode(env);
+  const symbols = await getEligibleSymbols(env, mode);
+  if (symbols.length === 0) {
+    return null;
+  }
+
+  let strategies = getEnabledStrategies(mode);
+  const whitelist = await getStrategyWhitelist(env);
+  if (whitelist.length > 0) {
+    strategies = strategies.filter(s => whitelist.includes(s));
+  }
+
+  const rvConfig = await getRealizedVolConfig(env);
+  const regimeConfig = await getRegimeConfig(env);
+  // Recorded closes only: no high/low, so the ATR% volatility input is unavailable
+  const vixCloses = closesBefore(closes, 'VIX', date).map(c => c.close);
+  const vix3mCloses = closesBefore(closes, 'VIX3M', date).map(c => c.close);
+
+  const sources: CandidatePipelineSources = {
+    // Per-symbol regime with hysteresis carried across snapshots
+    getRegime: async (symbol, price) => {
+      const bars = closesBefore(closes, symbol, date);
+      const { regime, confidence, factors } = evaluateRegime(
+        { price, bars, vixCloses, vix3mCloses },
+        regimes.get(symbol) ?? null,
+        regimeConfig
+      );
+      regimes.set(symbol, regime);
+      return { regime, confidence, volatility: factors.volatility, price, sma20: factors.sma20, factors };
+    },
+    // RV from recorded closes (close-to-close only, no high/low), IV from recorded chains
+    getVolatility: async symbol => {
+      const atmIv = await captureATM30DayIV(broker, symbol, now).catch(() => null);
+      const realizedVol = buildRealizedVolSnapshot(
+        symbol,
+        date,
+        closes.get(symbol) ?? [],
+        rvConfig.windows,
+        rvConfig.gateWindow,
+        rvConfig.gateMethod
+      );
+      return {
+        rv_30d: realizedVol.rv_30d ?? PLACEHOLDER_RV_30D,
+        rv_30d_parkinson: realizedVol.rv_30d_parkinson ?? null,
+        iv_30d: atmIv?.iv_30d ?? PLACEHOLDER_IV_30D,
+        rv_measured: realizedVol.rv_30d !== null,
+        iv_measured: atmIv !== null,
+      };
+    },
+    // No recorded IV history: neutral IV rank, as the live fallback
+    getIVRank: async () => null,
+    // Trend score from SMA_20 over recorded closes
+    getTrend: async (symbol, direction, price) => {
+      const sma20 = computeSMA20FromCloses(closesBefore(closes, symbol, date));
+      if (sma20 === null) {
+        return { trendScore: 0.5 };
+      }
+      return {
+        trendScore: direction === 'bullish'
+          ? computeBullishTrendScore(price, sma20)
+          : computeBearishTrendScore(price, sma20),
+      };
+    },
+  };
+  const params: CandidatePipelineParams = {
+    mode,
+    thresholds,
+    strategies,
+    regimeStrategyMap: await getRegimeStrategyMap(env),
+    now,
+  };
+
+  const symbolResults: SymbolCandidates[] = [];
+  for (const symbol of symbols) {
+    // A dataset need not cover every eligible symbol: skip those without a recorded quote
+    if (!(await broker.getUnderlyingQuote(symbol).catch(() => null))) {
+      continue;
+    }
+    const result = await buildSymbolCandidates(broker, symbol, sources, params);
+    if (result) {
+      symbolResults.push(result);
+    }
+  }
+  const { accepted } = await scoreSymbolCandidates(symbolResults, sources, params);
+
+  const { minScore, minCreditFraction } = thresholds;
+  const selectionMinScore = minScore > 1 ? minScore / 100 : minScore;
+  const volBySymbol = new Map(symbolResults.map(r => [r.symbol, r.volatility]));
+  const scored: Selection[] = [];
+  for (const { raw, candidate } of accepted) {
+    if (passesSelectionRules(candidate, selectionMinScore, raw.width * minCreditFraction)) {
+      const volatility = volBySymbol.get(raw.symbol);
+      scored.push({ raw, scored: candidate, iv: volatility?.iv_measured ? volatility.iv_30d : null });
+    }
+  }
+
+  const defaultQuantity = await getDefaultTradeQuantity(env);
+  const allowed = new Set(filterCandidatesByNetPremium(scored.map(s => s.scored), openTrades, defaultQuantity));
+  const ranked = scored.filter(s => allowed.has(s.scored)).sort((a, b) => compareScoredCandidates(a.scored, b.scored));
+  return ranked[0] ?? null;
+}
@@ -0,0 +1,98 @@
+/**
+ * Backtest Environment
+ *
+ * Builds an Env whose DB only answers settings lookups (single key and the
+ * full table read by the settings snapshot), served from an in-memory map. This lets the backtest reuse the real config loaders
+ * (getStrategyThresholds, getExitRuleThresholds, loadCloseRuleConfig, ...)
+ * with overrides keyed by the real setting names.
+ *
+ * Exit profile lookups return no rows, so replayed trades use the
+ * settings-level exit rules (CLOSE_RULE_* overrides and strategy defaults).
+ *
+ * Any other query throws - the backtest must never read or write live
+ * trades, proposals or logs. Tradier credentials are intentionally empty.
+ */
+
+import type { Env } from '../env';
+
+const SETTINGS_SELECT = /^\s*SELECT\s+value\s+FROM\s+settings\s+WHERE\s+key\s*=\s*\?\s*$/i;
+const SETTINGS_SELECT_ALL = /^\s*SELECT\s+\*\s+FROM\s+settings\s*$/i;
+const EXIT_PROFILES_SELECT = /^\s*SELECT\s+\*\s+FROM\s+exit_profiles\s+WHERE\s/i;
+
+function unsupported(what: string): never {
+  throw new Error(`[backtest] unsupported query: ${what.trim()}`);
+}
+
+export function createBacktestEnv(settings: Record<string, string> = {}): Env {
+  const values = new Map(Object.entries(settings));
+
+  const db = {
+    prepare(sql: string) {
+      if (EXIT_PROFILES_SELECT.test(sql)) {
+        const empty = {
+          bind: () => empty,
+          async all() {
+            return { results: [] };
+          },
+        };
+        return empty;
+      }
+      if (SETTINGS_SELECT_ALL.test(sql)) {
+        return {
+          async all() {
+            return { results: [...values].map(([key, value]) => ({ key, value })) };
+          },
+        };
+      }
+      if (!SETTINGS_SELECT.test(sql)) {
+        unsupported(sql);
+      }
+      let key: string | null = null;
+      const statement = {
+        bind(...args: unknown[]) {
+          key = String(args[0]);
+          return statement;
+        },
+        async first<T>(): Promise<T | null> {
+          if (key === null || !values.has(key)) {
+            return null;
+          }
+          return { key, value: values.get(key) } as T;
+        },
+        async all() {
+          unsupported(sql);
+        },
+        async run() {
+          unsupported(sql);
+        },
+      };
+      return statement;
+    },
+    async batch() {
+      unsupported('batch');
+    },
+    async exec(sql: string) {
+      unsupported(sql);
+    },
+  };
+
+  const kv = {
+    async get() {
+      return null;
+    },
+    async put() {
+      unsupported('KV put');
+    },
+    async delete() {
+      unsupported('KV delete');
+    },
+  };
+
+  return {
+    DB: db as unknown as D1Database,
+    SYNC_CACHE: kv as unknown as KVNamespace,
+    TRADIER_ENV: 'sandbox',
+    TRADIER_API_TOKEN: '',
+    TRADIER_ACCOUNT_ID: '',
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Backtest Statistics
+ *
+ * Summarises a closed-trade ledger and equity curve: win rate, PnL,
+ * max drawdown and per-strategy breakdown. Only closed trades
+ * (realized_pnl set) count toward trade stats.
+ */
+
+import type { BacktestTrade, EquityPoint, BacktestStats, StrategyStats } from './types';
+
+function summarize(trades: BacktestTrade[]): StrategyStats {
+  const pnls = trades.map(t => t.realized_pnl ?? 0);
+  const wins = pnls.filter(p => p > 0).length;
+  const total = pnls.reduce((acc, p) => acc + p, 0);
+  return {
+    trades: trades.length,
+    wins,
+    losses: trades.length - wins,
+    win_rate: trades.length > 0 ? wins / trades.length : 0,
+    total_pnl: total,
+    avg_pnl: trades.length > 0 ? total / trades.length : 0,
+  };
+}
+
+/**
+ * Peak-to-trough drawdown over the equity curve (dollars and fraction of peak)
+ */
+export function computeMaxDrawdown(curve: EquityPoint[]): { amount: number; pct: number } {
+  let peak = -Infinity;
+  let amount = 0;
+  let pct = 0;
+  for (const point of curve) {
+    peak = Math.max(peak, point.equity);
+    const drawdown = peak - point.equity;
+    if (drawdown > amount) {
+      amount = drawdown;
+      pct = peak > 0 ? drawdown / peak : 0;
+    }
+  }
+  return { amount, pct };
+}
+
+export function computeBacktestStats(
+  ledger: BacktestTrade[],
+  curve: EquityPoint[],
+  startingEquity: number
+): BacktestStats {
+  const closed = ledger.filter(t => t.realized_pnl !== null);
+  const overall = summarize(closed);
+  const drawdown = computeMaxDrawdown(curve);
+
+  const byStrategy: Record<string, StrategyStats> = {};
+  const strategies = Array.from(new Set(closed.map(t => t.strategy)));
+  for (const strategy of strategies) {
+    byStrategy[strategy] = summarize(closed.filter(t => t.strategy === strategy));
+  }
+
+  return {
+    starting_equity: startingEquity,
+    ending_equity: curve.length > 0 ? curve[curve.length - 1].equity : startingEquity,
+    total_trades: overall.trades,
+    wins: overall.wins,
+    losses: overall.losses,
+    win_rate: overall.win_rate,
+    total_pnl: overall.total_pnl,
+    avg_pnl: overall.avg_pnl,
+    max_drawdown: drawdown.amount,
+    max_drawdown_pct: drawdown.pct,
+    by_strategy: byStrategy,
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Backtest Types
+ *
+ * Shapes for recorded market data, replay options and backtest output.
+ * Recorded data uses the same UnderlyingQuote / OptionQuote shapes the
+ * TradierClient returns, so captured chains can be replayed verbatim.
+ */
+
+import type { UnderlyingQuote, OptionQuote, ExitTriggerType } from '../types';
+
+/**
+ * One recorded market snapshot (one engine cycle)
+ *
+ * chains is keyed by symbol, then by expiration date (YYYY-MM-DD).
+ */
+export interface MarketSnapshot {
+  timestamp: string;  // ISO datetime the snapshot was taken
+  quotes: Record<string, UnderlyingQuote>;
+  chains: Record<string, Record<string, OptionQuote[]>>;
+}
+
+/**
+ * Daily close used for SMA_20 / regime detection
+ */
+export interface DailyClose {
+  date: string;  // YYYY-MM-DD
+  close: number;
+}
+
+/**
+ * Full dataset loaded from disk
+ *
+ * closes holds optional warm-up history (e.g. the 20 sessions before the
+ * first snapshot); each snapshot's underlying last is appended as that day's close.
+ */
+export interface BacktestDataset {
+  snapshots: MarketSnapshot[];
+  closes: Record<string, DailyClose[]>;
+}
+
+export interface BacktestOptions {
+  // Settings overrides, keyed by the same names as the settings table
+  // (e.g. TRADING_MODE, MIN_SCORE_PAPER, CLOSE_RULE_PROFIT_TARGET_FRACTION)
+  settings?: Record<string, string>;
+  // Starting account equity in dollars (default 10000)
+  startingEquity?: number;
+}
+
+// EXPIRED: held through expiration and settled at intrinsic value
+// END_OF_DATA: still open when the recorded data ran out, marked at last mid
+export type BacktestExitReason = ExitTriggerType | 'EXPIRED' | 'END_OF_DATA';
+
+export interface BacktestTrade {
+  id: string;
+  symbol: string;
+  strategy: string;
+  expiration: string;
+  short_strike: number;
+  long_strike: number;
+  call_short_strike?: number | null;  // IRON_CONDOR call wing
+  call_long_strike?: number | null;
+  long_expiration?: string | null;  // Time spreads: back-month long leg
+  width: number;
+  quantity: number;
+  score: number;
+
+  opened_at: string;
+  entry_price: number;  // credit received or debit paid, per contract
+  closed_at: string | null;
+  exit_price: number | null;  // debit paid or credit received to close, per contract
+  exit_reason: BacktestExitReason | null;
+
+  realized_pnl: number | null;  // dollars, all contracts
+}
+
+export interface EquityPoint {
+  timestamp: string;
+  equity: number;
+  realized_pnl: number;
+  unrealized_pnl: number;
+  open_trades: number;
+}
+
+export interface StrategyStats {
+  trades: number;
+  wins: number;
+  losses: number;
+  win_rate: number;
+  total_pnl: number;
+  avg_pnl: number;
+}
+
+export interface BacktestStats {
+  starting_equity: number;
+  ending_equity: number;
+  total_trades: number;
+  wins: number;
+  losses: number;
+  win_rate: number;
+  total_pnl: number;
+  avg_pnl: number;
+  max_drawdown: number;      // dollars, peak-to-trough
+  max_drawdown_pct: number;  // fraction of peak equity
+  by_strategy: Record<string, StrategyStats>;
+}
+
+export interface BacktestResult {
+  ledger: BacktestTrade[];
+  equity_curve: EquityPoint[];
+  stats: BacktestStats;
+}
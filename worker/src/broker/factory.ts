@@ -0,0 +1,55 @@
+/**
+ * Broker Factory
+ *
+ * Resolves the broker the engines trade through for the current trading mode:
+ * - DRY_RUN: SimulatedBroker (live Tradier market data, local order book in D1)
+ * - SANDBOX_PAPER / LIVE: TradierClient
+ *
+ * Simulator settings (all optional, declared in core/settings.ts):
+ * - SIM_FILL_MODEL: 'mid' | 'touch' (default 'mid')
+ * - SIM_PARTIAL_FILL_RATIO: 0-1 fraction of remaining quantity filled per pass (default 1)
+ * - SIM_REJECTION_RATE: 0-1 probability an order is rejected (default 0)
+ * - SIM_STARTING_CASH: starting cash for a fresh ledger (default 100000)
+ */
+
+import type { Env } from '../env';
+import type { EngineBroker } from '../types';
+import { TradierClient } from './tradierClient';
+import { SimulatedBroker, createD1SimulatedBrokerStore } from './simulatedBroker';
+import type { SimulatedBrokerOptions } from './simulatedBroker';
+import { getTradingMode } from '../core/config';
+import { getNumberSetting, getStringSetting } from '../core/settings';
+
+export async function loadSimulatedBrokerOptions(env: Env): Promise<Partial<SimulatedBrokerOptions>> {
+  const [fillModel, partialFillRatio, rejectionRate, startingCash] = await Promise.all([
+    getStringSetting(env, 'SIM_FILL_MODEL'),
+    getNumberSetting(env, 'SIM_PARTIAL_FILL_RATIO'),
+    getNumberSetting(env, 'SIM_REJECTION_RATE'),
+    getNumberSetting(env, 'SIM_STARTING_CASH'),
+  ]);
+
+  const options: Partial<SimulatedBrokerOptions> = {
+    fillModel: fillModel === 'touch' ? 'touch' : 'mid',
+    rejectionRate,
+    startingCash,
+  };
+  // 0 would never fill; keep the simulator default
+  if (partialFillRatio > 0) {
+    options.partialFillRatio = partialFillRatio;
+  }
+  return options;
+}
+
+export async function createBroker(env: Env): Promise<EngineBroker> {
+  const tradier = new TradierClient(env);
+  const mode = await getTradingMode(env);
+  if (mode !== 'DRY_RUN') {
+    return tradier;
+  }
+
+  return new SimulatedBroker(
+    tradier,
+    createD1SimulatedBrokerStore(env),
+    await loadSimulatedBrokerOptions(env)
+  );
+}
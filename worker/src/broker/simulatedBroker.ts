@@ -0,0 +1,639 @@
+/**
+ * Simulated Broker
+ *
+ * Implements EngineBroker with a local order book and position ledger so the
+ * entry, exits, portfolioSync and orderSync engines can run end-to-end without
+ * sending orders anywhere. Used for DRY_RUN (see broker/factory.ts) and tests.
+ *
+ * Market data (quotes, chains, history) comes from a MarketDataSource - TradierClient
+ * in DRY_RUN, or any recorded source in tests. Orders never leave this class.
+ *
+ * Fill models:
+ * - mid:   limit orders fill at the limit once it is at or inside the spread mid
+ * - touch: limit orders fill at the limit only once it crosses the natural price
+ * Market orders always fill at the natural price (sell at bid, buy at ask).
+ *
+ * partialFillRatio fills that fraction of the remaining quantity per matching pass
+ * (orders are re-matched on every read), rejectionRate rejects orders at placement.
+ * Unfilled orders are day orders and expire once the ET date rolls over.
+ *
+ * State is held in a SimulatedBrokerStore so it survives across cron invocations
+ * (a versioned D1 row in the worker, memory in tests). Every call reloads it from the
+ * store, so any number of instances in one request or cron run see each other's
+ * orders. Writes are compare-and-swap on the version and the whole call is retried on
+ * conflict, so overlapping crons never lose each other's updates; calls that change
+ * nothing do not write. Finished orders and realized P&L older than
+ * SIMULATED_HISTORY_DAYS are pruned on save.
+ */
+
+import type {
+  UnderlyingQuote,
+  OptionQuote,
+  BrokerOrder,
+  BrokerOrderStatus,
+  BrokerPosition,
+  BrokerBalances,
+  BrokerGainLoss,
+  PlaceSpreadOrderParams,
+  SpreadLeg,
+  EngineBroker,
+  HistoricalBar,
+} from '../types';
+import { getETDateString } from '../core/time';
+import { findStrategyPlugin } from '../strategy/registry';
+import { getSimulatedBrokerState, saveSimulatedBrokerState } from '../db/queries';
+import type { Env } from '../env';
+
+export type SimulatedFillModel = 'mid' | 'touch';
+
+export interface SimulatedBrokerOptions {
+  fillModel: SimulatedFillModel;
+  partialFillRatio: number;  // 0 < ratio <= 1, fraction of remaining quantity filled per pass
+  rejectionRate: number;     // 0-1, probability an order is rejected at placement
+  startingCash: number;
+  random: () => number;
+  now: () => Date;
+}
+
+const DEFAULT_OPTIONS: SimulatedBrokerOptions = {
+  fillModel: 'mid',
+  partialFillRatio: 1,
+  rejectionRate: 0,
+  startingCash: 100000,
+  random: Math.random,
+  now: () => new Date(),
+};
+
+export type MarketDataSource = Pick<EngineBroker, 'getUnderlyingQuote' | 'getOptionChain' | 'getHistoricalData'>;
+
+interface SimulatedOrder {
+  id: string;
+  class: 'multileg' | 'option';
+  symbol: string;
+  type: 'limit' | 'market';
+  is_debit: boolean;
+  limit_price: number | null;
+  legs: SpreadLeg[];
+  quantity: number;
+  filled_quantity: number;
+  avg_fill_price: number | null;
+  status: BrokerOrderStatus;
+  tag: string;
+  strategy: string | null;
+  client_order_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface SimulatedPosition {
+  symbol: string;
+  quantity: number;     // positive long, negative short
+  cost_basis: number;   // dollars, positive long, negative short (Tradier convention)
+  opened_at: string;
+}
+
+export interface SimulatedBrokerState {
+  next_order_id: number;
+  cash: number;
+  orders: SimulatedOrder[];
+  positions: SimulatedPosition[];
+  realized: BrokerGainLoss[];
+}
+
+export interface SimulatedBrokerStore {
+  load(): Promise<{ state: SimulatedBrokerState; version: number } | null>;
+  // Compare-and-swap: false if the ledger was written since expectedVersion was loaded
+  // (null = the ledger did not exist yet)
+  save(state: SimulatedBrokerState, expectedVersion: number | null): Promise<boolean>;
+}
+
+const LEDGER_ID = 'default';
+
+// Attempts per call before a write conflict is surfaced as an error
+const MAX_WRITE_ATTEMPTS = 5;
+
+// Finished orders and realized P&L kept in the ledger (working orders are always kept)
+export const SIMULATED_HISTORY_DAYS = 30;
+
+export function createD1SimulatedBrokerStore(env: Env, id: string = LEDGER_ID): SimulatedBrokerStore {
+  return {
+    async load() {
+      const row = await getSimulatedBrokerState(env, id);
+      return row ? { state: JSON.parse(row.state) as SimulatedBrokerState, version: row.version } : null;
+    },
+    async save(state, expectedVersion) {
+      return saveSimulatedBrokerState(env, id, JSON.stringify(state), expectedVersion);
+    },
+  };
+}
+
+export function createMemorySimulatedBrokerStore(initial: SimulatedBrokerState | null = null): SimulatedBrokerStore {
+  // Serialized so callers never share objects with the stored copy
+  let current = initial ? { raw: JSON.stringify(initial), version: 1 } : null;
+  return {
+    async load() {
+      return current ? { state: JSON.parse(current.raw) as SimulatedBrokerState, version: current.version } : null;
+    },
+    async save(state, expectedVersion) {
+      if ((current?.version ?? null) !== expectedVersion) {
+        return false;
+      }
+      current = { raw: JSON.stringify(state), version: (expectedVersion ?? 0) + 1 };
+      return true;
+    },
+  };
+}
+
+/**
+ * Underlying and expiration from an OCC symbol (SPY251212P00645000)
+ */
+function parseOccSymbol(symbol: string): { underlying: string; expiration: string } | null {
+  const match = symbol.match(/^([A-Z]+)(\d{2})(\d{2})(\d{2})[PC]\d{8}$/);
+  if (!match) {
+    return null;
+  }
+  const [, underlying, yy, mm, dd] = match;
+  return { underlying, expiration: `20${yy}-${mm}-${dd}` };
+}
+
+function isSellSide(side: SpreadLeg['side']): boolean {
+  return side === 'sell_to_open' || side === 'sell_to_close';
+}
+
+export class SimulatedBroker implements EngineBroker {
+  private options: SimulatedBrokerOptions;
+
+  constructor(
+    private marketData: MarketDataSource,
+    private store: SimulatedBrokerStore = createMemorySimulatedBrokerStore(),
+    options: Partial<SimulatedBrokerOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // ---------------------------------------------------------------------------
+  // State
+  // ---------------------------------------------------------------------------
+
+  private freshState(): SimulatedBrokerState {
+    return {
+      next_order_id: 1,
+      cash: this.options.startingCash,
+      orders: [],
+      positions: [],
+      realized: [],
+    };
+  }
+
+  /**
+   * Current ledger from the store, read-only (never cached: other instances may have written it)
+   */
+  private async state(): Promise<SimulatedBrokerState> {
+    return (await this.store.load())?.state ?? this.freshState();
+  }
+
+  private prune(state: SimulatedBrokerState): void {
+    const cutoff = this.options.now().getTime() - SIMULATED_HISTORY_DAYS * 24 * 60 * 60 * 1000;
+    state.orders = state.orders.filter(o =>
+      o.status === 'OPEN' || o.status === 'PARTIALLY_FILLED' || new Date(o.updated_at).getTime() >= cutoff
+    );
+    state.realized = state.realized.filter(r => !r.close_date || new Date(r.close_date).getTime() >= cutoff);
+  }
+
+  /**
+   * Load the ledger, apply mutate and write it back with compare-and-swap
+   *
+   * On a version conflict the fresh ledger is reloaded and mutate runs again, so it
+   * must only touch the state it is given. Nothing is written if mutate (and pruning)
+   * left the ledger unchanged.
+   */
+  private async transact<T>(
+    mutate: (state: SimulatedBrokerState) => Promise<T>
+  ): Promise<{ result: T; state: SimulatedBrokerState }> {
+    for (let attempt = 1; ; attempt++) {
+      const loaded = await this.store.load();
+      const state = loaded?.state ?? this.freshState();
+      const before = JSON.stringify(state);
+      const result = await mutate(state);
+      this.prune(state);
+
+      if (JSON.stringify(state) === before || await this.store.save(state, loaded?.version ?? null)) {
+        return { result, state };
+      }
+      if (attempt >= MAX_WRITE_ATTEMPTS) {
+        throw new Error(`Simulated broker ledger write conflict after ${attempt} attempts`);
+      }
+      console.log('[broker][simulated][conflict]', JSON.stringify({
+        attempt,
+        version: loaded?.version ?? null,
+      }));
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Market data (delegated)
+  // ---------------------------------------------------------------------------
+
+  async getUnderlyingQuote(symbol: string): Promise<UnderlyingQuote> {
+    return this.marketData.getUnderlyingQuote(symbol);
+  }
+
+  async getOptionChain(symbol: string, expiration: string): Promise<OptionQuote[]> {
+    return this.marketData.getOptionChain(symbol, expiration);
+  }
+
+  async getHistoricalData(
+    symbol: string,
+    startDate: string,
+    endDate: string
+  ): Promise<HistoricalBar[]> {
+    return this.marketData.getHistoricalData(symbol, startDate, endDate);
+  }
+
+  private async getLegQuote(optionSymbol: string): Promise<OptionQuote | null> {
+    const parsed = parseOccSymbol(optionSymbol);
+    if (!parsed) {
+      return null;
+    }
+    const chain = await this.marketData.getOptionChain(parsed.underlying, parsed.expiration);
+    const quote = chain.find(o => o.symbol === optionSymbol);
+    if (!quote || !(quote.bid >= 0) || !(quote.ask > 0) || quote.bid > quote.ask) {
+      return null;
+    }
+    return quote;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Orders
+  // ---------------------------------------------------------------------------
+
+  async placeSpreadOrder(params: PlaceSpreadOrderParams): Promise<BrokerOrder> {
+    // Credit/debit follows TradierClient: strategy type on ENTRY, flipped on EXIT
+    let isDebit: boolean;
+    const plugin = findStrategyPlugin(params.strategy);
+    if (plugin) {
+      const baseDebit = plugin.premium === 'DEBIT';
+      isDebit = params.side === 'EXIT' ? !baseDebit : baseDebit;
+    } else {
+      isDebit = params.side === 'EXIT';
+    }
+
+    const order = await this.submit({
+      class: 'multileg',
+      symbol: params.symbol,
+      type: params.order_type === 'market' || params.limit_price === undefined ? 'market' : 'limit',
+      is_debit: isDebit,
+      limit_price: params.limit_price ?? null,
+      legs: params.legs,
+      tag: params.tag,
+      strategy: params.strategy ?? null,
+      client_order_id: params.client_order_id ?? null,
+    });
+    return this.toBrokerOrder(order);
+  }
+
+  async placeSingleLegCloseOrder(params: {
+    symbol: string;
+    option_symbol: string;
+    side: 'buy_to_close' | 'sell_to_close';
+    quantity: number;
+    tag: string;
+  }): Promise<BrokerOrder> {
+    const order = await this.submit({
+      class: 'option',
+      symbol: params.symbol,
+      type: 'market',
+      is_debit: params.side === 'buy_to_close',
+      limit_price: null,
+      legs: [{ option_symbol: params.option_symbol, side: params.side, quantity: params.quantity }],
+      tag: params.tag,
+      strategy: null,
+      client_order_id: null,
+    });
+    return this.toBrokerOrder(order);
+  }
+
+  private async submit(
+    fields: Omit<SimulatedOrder, 'id' | 'quantity' | 'filled_quantity' | 'avg_fill_price' | 'status' | 'created_at' | 'updated_at'>
+  ): Promise<SimulatedOrder> {
+    const { result } = await this.transact(state => this.createOrder(state, fields));
+    return result;
+  }
+
+  private async createOrder(
+    state: SimulatedBrokerState,
+    fields: Omit<SimulatedOrder, 'id' | 'quantity' | 'filled_quantity' | 'avg_fill_price' | 'status' | 'created_at' | 'updated_at'>
+  ): Promise<SimulatedOrder> {
+    const timestamp = this.options.now().toISOString();
+    const order: SimulatedOrder = {
+      ...fields,
+      id: `SIM-${state.next_order_id++}`,
+      quantity: fields.legs[0].quantity,
+      filled_quantity: 0,
+      avg_fill_price: null,
+      status: 'OPEN',
+      created_at: timestamp,
+      updated_at: timestamp,
+    };
+    state.orders.push(order);
+
+    if (this.options.random() < this.options.rejectionRate) {
+      order.status = 'REJECTED';
+      console.log('[broker][simulated][rejected]', JSON.stringify({
+        order_id: order.id,
+        tag: order.tag,
+        reason: 'Simulated rejection',
+      }));
+    } else {
+      await this.match(state, order);
+    }
+    return order;
+  }
+
+  /**
+   * Try to fill an open order against current quotes
+   */
+  private async match(state: SimulatedBrokerState, order: SimulatedOrder): Promise<void> {
+    if (order.status !== 'OPEN' && order.status !== 'PARTIALLY_FILLED') {
+      return;
+    }
+
+    const now = this.options.now();
+    if (getETDateString(new Date(order.created_at)) !== getETDateString(now)) {
+      // Day orders expire at the end of their session
+      order.status = 'EXPIRED';
+      order.updated_at = now.toISOString();
+      return;
+    }
+
+    const quotes: OptionQuote[] = [];
+    for (const leg of order.legs) {
+      const quote = await this.getLegQuote(leg.option_symbol);
+      if (!quote) {
+        if (order.filled_quantity === 0) {
+          order.status = 'REJECTED';
+          order.updated_at = now.toISOString();
+        }
+        return;
+      }
+      quotes.push(quote);
+    }
+
+    // Net prices from our side: sells add, buys subtract
+    let netMid = 0;
+    let netNatural = 0;
+    order.legs.forEach((leg, i) => {
+      const mid = (quotes[i].bid + quotes[i].ask) / 2;
+      netMid += isSellSide(leg.side) ? mid : -mid;
+      netNatural += isSellSide(leg.side) ? quotes[i].bid : -quotes[i].ask;
+    });
+    const midPrice = order.is_debit ? -netMid : netMid;
+    const naturalPrice = order.is_debit ? -netNatural : netNatural;
+
+    let fillPrice: number;
+    if (order.type === 'market' || order.limit_price === null) {
+      fillPrice = Math.max(0, Math.round(naturalPrice * 100) / 100);
+    } else {
+      const reference = this.options.fillModel === 'touch' ? naturalPrice : midPrice;
+      const marketable = order.is_debit ? order.limit_price >= reference : order.limit_price <= reference;
+      if (!marketable) {
+        return;
+      }
+      fillPrice = order.limit_price;
+    }
+
+    const remaining = order.quantity - order.filled_quantity;
+    const fillQty = Math.max(1, Math.min(remaining, Math.floor(remaining * this.options.partialFillRatio)));
+
+    // Leg prices: mids shifted evenly so the legs net to the fill price
+    const signedFill = order.is_debit ? -fillPrice : fillPrice;
+    const shift = (signedFill - netMid) / order.legs.length;
+    order.legs.forEach((leg, i) => {
+      const mid = (quotes[i].bid + quotes[i].ask) / 2;
+      const legPrice = Math.max(0, isSellSide(leg.side) ? mid + shift : mid - shift);
+      this.applyFill(state, leg, fillQty, legPrice, now);
+    });
+
+    state.cash += signedFill * 100 * fillQty;
+
+    const previousValue = (order.avg_fill_price ?? 0) * order.filled_quantity;
+    order.filled_quantity += fillQty;
+    order.avg_fill_price = Math.round(((previousValue + fillPrice * fillQty) / order.filled_quantity) * 100) / 100;
+    order.status = order.filled_quantity >= order.quantity ? 'FILLED' : 'PARTIALLY_FILLED';
+    order.updated_at = now.toISOString();
+  }
+
+  /**
+   * Apply one leg fill to the position ledger, realizing PnL on reductions
+   */
+  private applyFill(state: SimulatedBrokerState, leg: SpreadLeg, quantity: number, price: number, now: Date): void {
+    const delta = isSellSide(leg.side) ? -quantity : quantity;
+    let position = state.positions.find(p => p.symbol === leg.option_symbol);
+
+    if (position && Math.sign(position.quantity) !== Math.sign(delta)) {
+      // Reducing an existing position
+      const closing = Math.min(Math.abs(delta), Math.abs(position.quantity));
+      const avgPrice = position.cost_basis / position.quantity / 100;
+      const gain = (position.quantity > 0 ? price - avgPrice : avgPrice - price) * 100 * closing;
+      state.realized.push({
+        symbol: leg.option_symbol,
+        gain_loss: gain,
+        open_date: position.opened_at,
+        close_date: now.toISOString(),
+      });
+      position.cost_basis -= (position.cost_basis / Math.abs(position.quantity)) * closing;
+      position.quantity += Math.sign(delta) * closing;
+      const leftover = Math.abs(delta) - closing;
+      if (position.quantity === 0) {
+        state.positions = state.positions.filter(p => p !== position);
+        position = undefined;
+      }
+      if (leftover === 0) {
+        return;
+      }
+      // Flipped through zero - open the remainder below
+      return this.applyFill(state, { ...leg }, leftover, price, now);
+    }
+
+    if (!position) {
+      position = { symbol: leg.option_symbol, quantity: 0, cost_basis: 0, opened_at: now.toISOString() };
+      state.positions.push(position);
+    }
+    position.quantity += delta;
+    position.cost_basis += delta * price * 100;
+  }
+
+  /**
+   * Reload the ledger and re-match every working order (called before reads, writes only on fills/expiry)
+   */
+  private async matchOpenOrders(): Promise<SimulatedBrokerState> {
+    const { state } = await this.transact(async current => {
+      for (const order of current.orders) {
+        await this.match(current, order);
+      }
+    });
+    return state;
+  }
+
+  private toBrokerOrder(order: SimulatedOrder): BrokerOrder {
+    return {
+      id: order.id,
+      status: order.status,
+      avg_fill_price: order.avg_fill_price,
+      filled_quantity: order.filled_quantity,
+      remaining_quantity: order.quantity - order.filled_quantity,
+      created_at: order.created_at,
+      updated_at: order.updated_at,
+      client_order_id: order.client_order_id,
+      tag: order.tag,
+    };
+  }
+
+  private findOrder(state: SimulatedBrokerState, orderId: string): SimulatedOrder {
+    const order = state.orders.find(o => o.id === orderId);
+    if (!order) {
+      throw new Error(`Tradier API error: 404 Not Found - order ${orderId}`);
+    }
+    return order;
+  }
+
+  async getOrder(orderId: string): Promise<BrokerOrder> {
+    const state = await this.matchOpenOrders();
+    return this.toBrokerOrder(this.findOrder(state, orderId));
+  }
+
+  /**
+   * Tradier-shaped raw order (lowercase status, class, leg[])
+   */
+  async getOrderWithLegs(orderId: string): Promise<any> {
+    const state = await this.matchOpenOrders();
+    const order = this.findOrder(state, orderId);
+    const rawStatus = order.status === 'PARTIALLY_FILLED' ? 'partially_filled' : order.status.toLowerCase();
+    return {
+      id: order.id,
+      type: order.type,
+      class: order.class,
+      symbol: order.symbol,
+      side: order.class === 'option' ? order.legs[0].side : undefined,
+      option_symbol: order.class === 'option' ? order.legs[0].option_symbol : undefined,
+      quantity: order.quantity,
+      status: rawStatus,
+      price: order.limit_price,
+      avg_fill_price: order.avg_fill_price,
+      exec_quantity: order.filled_quantity,
+      filled_quantity: order.filled_quantity,
+      remaining_quantity: order.quantity - order.filled_quantity,
+      tag: order.tag,
+      create_date: order.created_at,
+      created_at: order.created_at,
+      transaction_date: order.updated_at,
+      updated_at: order.updated_at,
+      leg: order.legs.map(leg => ({
+        option_symbol: leg.option_symbol,
+        side: leg.side,
+        quantity: leg.quantity,
+        exec_quantity: order.filled_quantity,
+        status: rawStatus,
+      })),
+    };
+  }
+
+  async getAllOrders(
+    _filter: 'all' | 'intraday' = 'all',
+    startDate?: string,
+    endDate?: string
+  ): Promise<BrokerOrder[]> {
+    const state = await this.matchOpenOrders();
+    return state.orders
+      .filter(o => {
+        const date = getETDateString(new Date(o.created_at));
+        return (!startDate || date >= startDate) && (!endDate || date <= endDate);
+      })
+      .map(o => this.toBrokerOrder(o));
+  }
+
+  async getOpenOrders(): Promise<BrokerOrder[]> {
+    const state = await this.matchOpenOrders();
+    return state.orders
+      .filter(o => o.status === 'OPEN' || o.status === 'PARTIALLY_FILLED')
+      .map(o => this.toBrokerOrder(o));
+  }
+
+  async cancelOrder(orderId: string): Promise<void> {
+    await this.transact(async state => {
+      const order = this.findOrder(state, orderId);
+      if (order.status === 'OPEN' || order.status === 'PARTIALLY_FILLED') {
+        order.status = 'CANCELLED';
+        order.updated_at = this.options.now().toISOString();
+      }
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Account
+  // ---------------------------------------------------------------------------
+
+  async getPositions(): Promise<BrokerPosition[]> {
+    return this.valuePositions(await this.matchOpenOrders());
+  }
+
+  private async valuePositions(state: SimulatedBrokerState): Promise<BrokerPosition[]> {
+    const positions = state.positions;
+    const result: BrokerPosition[] = [];
+    for (const position of positions) {
+      const quote = await this.getLegQuote(position.symbol);
+      const market_value = quote ? position.quantity * ((quote.bid + quote.ask) / 2) * 100 : null;
+      result.push({
+        symbol: position.symbol,
+        quantity: position.quantity,
+        cost_basis: position.cost_basis,
+        market_value,
+        gain_loss: market_value !== null ? market_value - position.cost_basis : null,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Cash plus positions at mid; margin pairs each short leg with the nearest
+   * long leg of the same underlying/expiration/type (naked shorts use the strike)
+   */
+  async getBalances(): Promise<BrokerBalances> {
+    const state = await this.matchOpenOrders();
+    const positions = await this.valuePositions(state);
+    const marketValue = positions.reduce((acc, p) => acc + (p.market_value ?? 0), 0);
+
+    const parse = (symbol: string) => {
+      const match = symbol.match(/^([A-Z]+\d{6})([PC])(\d{8})$/);
+      return match ? { series: match[1] + match[2], strike: parseInt(match[3], 10) / 1000 } : null;
+    };
+    let marginRequirement = 0;
+    for (const short of positions.filter(p => p.quantity < 0)) {
+      const parsed = parse(short.symbol);
+      if (!parsed) {
+        continue;
+      }
+      const longs = positions
+        .filter(p => p.quantity > 0 && parse(p.symbol)?.series === parsed.series)
+        .map(p => parse(p.symbol)!.strike);
+      const width = longs.length > 0
+        ? Math.min(...longs.map(strike => Math.abs(strike - parsed.strike)))
+        : parsed.strike;
+      marginRequirement += width * 100 * Math.abs(short.quantity);
+    }
+
+    return {
+      cash: state.cash,
+      buying_power: state.cash + marketValue - marginRequirement,
+      equity: state.cash + marketValue,
+      margin_requirement: marginRequirement,
+    };
+  }
+
+  async getGainLoss(params: { start: string; end: string }): Promise<BrokerGainLoss[]> {
+    return (await this.state()).realized.filter(r => {
+      const date = r.close_date ? getETDateString(new Date(r.close_date)) : '';
+      return date >= params.start && date <= params.end;
+    });
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * SAS v1 Tradier Broker Client
  * 
- * Implements BrokerClient interface for Tradier API.
+ * Implements the EngineBroker interface (BrokerClient + Tradier helpers) for Tradier API.
  * All broker interactions must go through this client.
  * 
  * Per broker-rules.md:
@@ -20,18 +20,33 @@ const TRADIER_CHAINS_TIMEOUT_MS = 30000; // 30 seconds for option chains (Tradie
 const TRADIER_MAX_RETRIES = 2; // Maximum retries for transient failures (total attempts = 3: initial + 2 retries)
 const TRADIER_RETRY_DELAY_MS = 1000; // Initial retry delay (1 second)
 import type {
-  BrokerClient,
   UnderlyingQuote,
   OptionQuote,
   BrokerOrder,
   BrokerPosition,
   PlaceSpreadOrderParams,
   BrokerOrderStatus,
+  BrokerBalances,
+  BrokerGainLoss,
+  EngineBroker,
+  HistoricalBar,
 } from '../types';
 import { logBrokerEvent } from '../logging/brokerLogger';
 import { getTradingMode } from '../core/config';
+import { findStrategyPlugin } from '../strategy/registry';
 
-export class TradierClient implements BrokerClient {
+/**
+ * Parse a Tradier greek (number, numeric string, or missing)
+ */
+function parseGreek(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export class TradierClient implements EngineBroker {
   private baseUrl: string;
   private apiToken: string;
   private accountId: string;
@@ -315,6 +330,9 @@ export class TradierClient implements BrokerClient {
             last: opt.last != null ? parseFloat(opt.last) : null,
           delta: delta != null && delta !== '' ? parseFloat(delta) : null,
           implied_volatility: iv != null && iv !== '' ? parseFloat(iv) : null,
+            gamma: parseGreek(opt.greeks?.gamma),
+            theta: parseGreek(opt.greeks?.theta),
+            vega: parseGreek(opt.greeks?.vega),
           };
         } catch (err) {
           return null;
@@ -399,7 +417,8 @@ export class TradierClient implements BrokerClient {
       
       // Build body per Tradier API documentation for multileg orders:
       // https://docs.tradier.com/reference/brokerage-api-trading-place-order
-      // For multileg orders: class, type, symbol, duration, price, option_symbol[0], side[0], quantity[0], option_symbol[1], side[1], quantity[1], tag
+      // For multileg orders: class, type, symbol, duration, price, option_symbol[i], side[i], quantity[i] per leg, tag
+      // Verticals send 2 legs, IRON_CONDOR sends 4
       
       // Determine order type based on strategy AND side (ENTRY vs EXIT)
       // Per Tradier spec:
@@ -412,10 +431,10 @@ export class TradierClient implements BrokerClient {
       if (params.strategy) {
         // First determine the base type from strategy
         let baseType: 'credit' | 'debit';
-        if (params.strategy.endsWith('_CREDIT')) {
-          baseType = 'credit';
-        } else if (params.strategy.endsWith('_DEBIT')) {
-          baseType = 'debit';
+        const plugin = findStrategyPlugin(params.strategy);
+        if (plugin) {
+          // Premium type comes from the strategy plugin (IRON_CONDOR is a net credit structure)
+          baseType = plugin.premium === 'CREDIT' ? 'credit' : 'debit';
         } else {
           // Unknown strategy pattern - fail fast to prevent incorrect order types
           const msg = `Unknown strategy pattern for placeSpreadOrder: ${params.strategy}`;
@@ -460,53 +479,39 @@ export class TradierClient implements BrokerClient {
       const formattedPrice = parseFloat(params.limit_price.toFixed(2));
       body.append('price', formattedPrice.toString());
 
-      // 6. Validate leg sides match order side (ENTRY vs EXIT)
+      // 6. Validate leg count and leg sides match order side (ENTRY vs EXIT)
       // CRITICAL: Entry orders must use _to_open, exit orders must use _to_close
-      const leg0Side = params.legs[0].side.toLowerCase();
-      const leg1Side = params.legs[1].side.toLowerCase();
+      const expectedLegCount = params.strategy === 'IRON_CONDOR' && !isExit ? 4 : null;
+      if (params.legs.length < 2 || (expectedLegCount !== null && params.legs.length !== expectedLegCount)) {
+        throw new Error(`Invalid leg count for ${params.strategy} spread order: ${params.legs.length}`);
+      }
+      const legSides = params.legs.map(leg => leg.side.toLowerCase());
+      const requiredSuffix = isExit ? '_to_close' : '_to_open';
       
-      if (isExit) {
-        // Exit orders MUST use _to_close
-        if (!leg0Side.includes('_to_close') || !leg1Side.includes('_to_close')) {
-          const error = `EXIT order has invalid leg sides: leg0=${leg0Side}, leg1=${leg1Side}. EXIT orders must use buy_to_close or sell_to_close.`;
-          console.error('[broker][placeSpreadOrder][validation-error]', JSON.stringify({
-            side: params.side,
-            strategy: params.strategy,
-            leg0: { option_symbol: params.legs[0].option_symbol, side: leg0Side },
-            leg1: { option_symbol: params.legs[1].option_symbol, side: leg1Side },
-            error,
-          }));
-          throw new Error(error);
-        }
-      } else {
-        // Entry orders MUST use _to_open
-        if (!leg0Side.includes('_to_open') || !leg1Side.includes('_to_open')) {
-          const error = `ENTRY order has invalid leg sides: leg0=${leg0Side}, leg1=${leg1Side}. ENTRY orders must use buy_to_open or sell_to_open.`;
-          console.error('[broker][placeSpreadOrder][validation-error]', JSON.stringify({
-            side: params.side,
-            strategy: params.strategy,
-            leg0: { option_symbol: params.legs[0].option_symbol, side: leg0Side },
-            leg1: { option_symbol: params.legs[1].option_symbol, side: leg1Side },
-            error,
-          }));
-          throw new Error(error);
-        }
+      if (legSides.some(side => !side.includes(requiredSuffix))) {
+        const error = isExit
+          ? `EXIT order has invalid leg sides: ${legSides.map((side, i) => `leg${i}=${side}`).join(', ')}. EXIT orders must use buy_to_close or sell_to_close.`
+          : `ENTRY order has invalid leg sides: ${legSides.map((side, i) => `leg${i}=${side}`).join(', ')}. ENTRY orders must use buy_to_open or sell_to_open.`;
+        console.error('[broker][placeSpreadOrder][validation-error]', JSON.stringify({
+          side: params.side,
+          strategy: params.strategy,
+          legs: params.legs.map((leg, i) => ({ option_symbol: leg.option_symbol, side: legSides[i] })),
+          error,
+        }));
+        throw new Error(error);
       }
 
       // CRITICAL: Assert leg quantity equality - spread orders require symmetric legs
-      if (params.legs[0].quantity !== params.legs[1].quantity) {
-        throw new Error(`Mismatched leg quantities in spread: ${params.legs[0].quantity} vs ${params.legs[1].quantity}`);
+      if (params.legs.some(leg => leg.quantity !== params.legs[0].quantity)) {
+        throw new Error(`Mismatched leg quantities in spread: ${params.legs.map(leg => leg.quantity).join(' vs ')}`);
       }
 
-      // 6. Leg 0 - option_symbol, side, quantity
-      body.append('option_symbol[0]', params.legs[0].option_symbol);
-      body.append('side[0]', leg0Side);
-      body.append('quantity[0]', params.legs[0].quantity.toString());
-
-      // 7. Leg 1 - option_symbol, side, quantity
-      body.append('option_symbol[1]', params.legs[1].option_symbol);
-      body.append('side[1]', leg1Side);
-      body.append('quantity[1]', params.legs[1].quantity.toString());
+      // 7. Legs - option_symbol[i], side[i], quantity[i]
+      params.legs.forEach((leg, i) => {
+        body.append(`option_symbol[${i}]`, leg.option_symbol);
+        body.append(`side[${i}]`, legSides[i]);
+        body.append(`quantity[${i}]`, leg.quantity.toString());
+      });
       
       // 8. tag - for tracking
       body.append('tag', params.tag);
@@ -528,16 +533,11 @@ export class TradierClient implements BrokerClient {
         side: params.side,
         orderType,
         isExit,
-        leg0: {
-          option_symbol: params.legs[0].option_symbol,
-          side: params.legs[0].side,
-          quantity: params.legs[0].quantity,
-        },
-        leg1: {
-          option_symbol: params.legs[1].option_symbol,
-          side: params.legs[1].side,
-          quantity: params.legs[1].quantity,
-        },
+        legs: params.legs.map(leg => ({
+          option_symbol: leg.option_symbol,
+          side: leg.side,
+          quantity: leg.quantity,
+        })),
         limit_price: params.limit_price,
         bodyEntries: requestBodyEntries,
         bodyString: body.toString(),
@@ -575,7 +575,7 @@ export class TradierClient implements BrokerClient {
         status: 'NEW',
         avg_fill_price: null,
         filled_quantity: 0,
-        remaining_quantity: params.legs[0].quantity, // Both legs have same quantity (validated above)
+        remaining_quantity: params.legs[0].quantity, // All legs have same quantity (validated above)
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       };
@@ -1038,12 +1038,7 @@ export class TradierClient implements BrokerClient {
    *
    * GET /accounts/{account_id}/balances
    */
-  async getBalances(): Promise<{
-    cash: number;
-    buying_power: number;
-    equity: number;
-    margin_requirement: number;
-  }> {
+  async getBalances(): Promise<BrokerBalances> {
     const mode = await getTradingMode(this.env);
     const start = Date.now();
 
@@ -1115,14 +1110,7 @@ export class TradierClient implements BrokerClient {
   async getGainLoss(params: {
     start: string;
     end: string;
-  }): Promise<
-    Array<{
-      symbol: string;
-      gain_loss: number;
-      open_date?: string;
-      close_date?: string;
-    }>
-  > {
+  }): Promise<BrokerGainLoss[]> {
     const mode = await getTradingMode(this.env);
     const startTs = Date.now();
 
@@ -1507,7 +1495,7 @@ export class TradierClient implements BrokerClient {
   }
 
   /**
-   * Get historical market data for SMA calculation
+   * Get historical market data (SMA, realized volatility)
    * 
    * GET /markets/history?symbol=SPY&interval=daily&start=YYYY-MM-DD&end=YYYY-MM-DD
    * 
@@ -1518,7 +1506,7 @@ export class TradierClient implements BrokerClient {
     symbol: string,
     startDate: string,
     endDate: string
-  ): Promise<Array<{ date: string; close: number }>> {
+  ): Promise<HistoricalBar[]> {
     const mode = await getTradingMode(this.env);
     const start = Date.now();
 
@@ -1539,13 +1527,22 @@ export class TradierClient implements BrokerClient {
 
       const days = Array.isArray(history.day) ? history.day : [history.day];
       
-      const result = days
+      const optionalNumber = (value: any): number | undefined => {
+        const parsed = value != null ? parseFloat(value) : NaN;
+        return Number.isFinite(parsed) ? parsed : undefined;
+      };
+
+      const result: HistoricalBar[] = days
         .filter((day: any) => day && day.close != null)
         .map((day: any) => ({
           date: day.date || day.datetime || '',
+          open: optionalNumber(day.open),
+          high: optionalNumber(day.high),
+          low: optionalNumber(day.low),
           close: parseFloat(day.close),
+          volume: optionalNumber(day.volume),
         }))
-        .filter((item: any) => item.date && !isNaN(item.close));
+        .filter((item: HistoricalBar) => item.date && !isNaN(item.close));
 
       const durationMs = Date.now() - start;
       await logBrokerEvent(this.env, {
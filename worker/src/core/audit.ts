@@ -0,0 +1,301 @@
+/**
+ * Audit Trail
+ *
+ * Every request to a route that needs the operator or admin role (http/auth.ts) gets
+ * an append-only audit_log row: who (API key name and role), when, method and path,
+ * response status, the caller's reason and the request body.
+ *
+ * Before/after values come from snapshots taken around the handler, so handlers need
+ * no audit code:
+ * - settings and risk_state: keys whose value changed (null = absent)
+ * - trade: changed columns of the trade named by the path (/debug/force-exit/:id) or
+ *   the body/query (tradeId / trade_id)
+ * - exit profiles, strategy configs, config profiles (and their switches): rows that
+ *   changed, only for the admin routes that edit them (CONFIG_ROUTES)
+ *
+ * Reason: X-Audit-Reason header, else a "reason" field in the JSON body.
+ * Requests rejected by the auth check are recorded too (no snapshots).
+ * Recording never fails the request; errors are logged.
+ */
+
+import type { Env } from '../env';
+import type { AuditLogRow, TradeRow } from '../types';
+import {
+  getAllSettings,
+  getAllRiskState,
+  getTrade,
+  insertAuditLog,
+  getActiveExitProfiles,
+  getActiveStrategyConfigs,
+  getConfigProfiles,
+  getConfigProfileSwitches,
+} from '../db/queries';
+
+const MAX_BODY_CHARS = 4000;
+// Recent switches snapshotted for config profile routes (new switches and status changes)
+const SWITCH_SNAPSHOT_LIMIT = 20;
+
+type ConfigSection = 'exit_profiles' | 'strategy_configs' | 'config_profiles' | 'config_profile_switches';
+
+/**
+ * Admin routes whose tables are snapshotted (path prefix → sections)
+ */
+const CONFIG_ROUTES: Array<{
+  prefix: string;
+  targetType: AuditLogRow['target_type'];
+  sections: ConfigSection[];
+}> = [
+  { prefix: '/v2/admin/exit-profiles', targetType: 'exit_profile', sections: ['exit_profiles'] },
+  { prefix: '/v2/admin/strategy-configs', targetType: 'strategy_config', sections: ['strategy_configs'] },
+  { prefix: '/v2/admin/config-profiles', targetType: 'config_profile', sections: ['config_profiles', 'config_profile_switches'] },
+];
+
+interface AuditSnapshot {
+  settings: Record<string, string>;
+  risk_state: Record<string, string>;
+  trade: TradeRow | null;
+  config: Partial<Record<ConfigSection, Record<string, string>>>;   // row key → row JSON
+}
+
+export interface AuditContext {
+  startedAt: string;
+  actor: { name: string; role: string } | null;
+  method: string;
+  path: string;
+  query: string | null;
+  reason: string | null;
+  body: string | null;
+  tradeId: string | null;
+  settingKey: string | null;      // body "key" (settings endpoints)
+  before: AuditSnapshot | null;
+}
+
+type ValueDiff = Record<string, unknown>;
+
+/**
+ * Changed keys between two flat records (pure); missing keys count as null
+ */
+export function diffRecords(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  ignore: string[] = []
+): { before: ValueDiff; after: ValueDiff } {
+  const changedBefore: ValueDiff = {};
+  const changedAfter: ValueDiff = {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (ignore.includes(key)) {
+      continue;
+    }
+    const a = before[key] ?? null;
+    const b = after[key] ?? null;
+    if (a !== b) {
+      changedBefore[key] = a;
+      changedAfter[key] = b;
+    }
+  }
+  return { before: changedBefore, after: changedAfter };
+}
+
+function parseJsonObject(body: string | null): Record<string, unknown> | null {
+  if (!body) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(body);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function findConfigRoute(path: string) {
+  return CONFIG_ROUTES.find(route => path === route.prefix || path.startsWith(`${route.prefix}/`)) ?? null;
+}
+
+/**
+ * Rows of a config table keyed for diffing: exit profiles by strategy/symbol and
+ * strategy configs by strategy (one active version each), profiles and switches by id
+ */
+async function loadConfigSection(env: Env, section: ConfigSection): Promise<Record<string, string>> {
+  switch (section) {
+    case 'exit_profiles':
+      return Object.fromEntries((await getActiveExitProfiles(env)).map(row =>
+        [`${row.strategy}/${row.symbol ?? '*'}`, JSON.stringify(row)]
+      ));
+    case 'strategy_configs':
+      return Object.fromEntries((await getActiveStrategyConfigs(env)).map(row => [row.strategy, JSON.stringify(row)]));
+    case 'config_profiles':
+      return Object.fromEntries((await getConfigProfiles(env)).map(row => [row.id, JSON.stringify(row)]));
+    case 'config_profile_switches':
+      return Object.fromEntries(
+        (await getConfigProfileSwitches(env, SWITCH_SNAPSHOT_LIMIT)).map(row => [row.id, JSON.stringify(row)])
+      );
+  }
+}
+
+async function takeSnapshot(env: Env, tradeId: string | null, path: string): Promise<AuditSnapshot> {
+  const settings = await getAllSettings(env);
+  const riskState = await getAllRiskState(env);
+  const config: AuditSnapshot['config'] = {};
+  for (const section of findConfigRoute(path)?.sections ?? []) {
+    config[section] = await loadConfigSection(env, section);
+  }
+  return {
+    settings: Object.fromEntries(settings.map(row => [row.key, row.value])),
+    risk_state: Object.fromEntries(riskState.map(row => [row.key, row.value])),
+    trade: tradeId ? await getTrade(env, tradeId) : null,
+    config,
+  };
+}
+
+/**
+ * Changed rows of a config section, rows parsed back to objects
+ */
+function diffConfigSection(
+  before: Record<string, string>,
+  after: Record<string, string>
+): { before: ValueDiff; after: ValueDiff } {
+  const diff = diffRecords(before, after);
+  const parse = (values: ValueDiff): ValueDiff => Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [key, typeof value === 'string' ? JSON.parse(value) : value])
+  );
+  return { before: parse(diff.before), after: parse(diff.after) };
+}
+
+/**
+ * Capture request details (and, unless denied, the before snapshot)
+ *
+ * Call before the handler: the body is read from a clone.
+ */
+export async function startAudit(
+  env: Env,
+  request: Request,
+  path: string,
+  actor: AuditContext['actor'],
+  options: { snapshot: boolean } = { snapshot: true }
+): Promise<AuditContext> {
+  const url = new URL(request.url);
+  let body: string | null = null;
+  try {
+    body = request.method === 'GET' ? null : (await request.clone().text()) || null;
+  } catch {
+    body = null;
+  }
+  const json = parseJsonObject(body);
+
+  const tradeId = path.match(/^\/debug\/(?:force-)?exit\/([^/]+)$/)?.[1]
+    ?? asString(json?.tradeId)
+    ?? asString(json?.trade_id)
+    ?? asString(url.searchParams.get('tradeId'))
+    ?? asString(url.searchParams.get('trade_id'));
+
+  const context: AuditContext = {
+    startedAt: new Date().toISOString(),
+    actor,
+    method: request.method,
+    path,
+    query: url.search ? url.search.slice(1) : null,
+    reason: asString(request.headers.get('X-Audit-Reason')) ?? asString(json?.reason),
+    body: body && body.length > MAX_BODY_CHARS ? `${body.slice(0, MAX_BODY_CHARS)}…` : body,
+    tradeId,
+    settingKey: asString(json?.key),
+    before: null,
+  };
+
+  if (options.snapshot) {
+    try {
+      context.before = await takeSnapshot(env, tradeId, path);
+    } catch (error) {
+      console.error('[audit] snapshot_failed', JSON.stringify({
+        path,
+        error: error instanceof Error ? error.message : String(error),
+      }));
+    }
+  }
+  return context;
+}
+
+/**
+ * Take the after snapshot, diff and append the audit_log row
+ */
+export async function finishAudit(env: Env, context: AuditContext, statusCode: number): Promise<void> {
+  try {
+    const before: Record<string, ValueDiff> = {};
+    const after: Record<string, ValueDiff> = {};
+    let targetType: AuditLogRow['target_type'] = 'request';
+    let targetId: string | null = null;
+
+    if (context.before) {
+      const snapshot = await takeSnapshot(env, context.tradeId, context.path);
+      const settings = diffRecords(context.before.settings, snapshot.settings);
+      const riskState = diffRecords(context.before.risk_state, snapshot.risk_state);
+      const trade = diffRecords(
+        (context.before.trade ?? {}) as unknown as Record<string, unknown>,
+        (snapshot.trade ?? {}) as unknown as Record<string, unknown>,
+        ['updated_at']
+      );
+
+      const configDiffs = (Object.keys(snapshot.config) as ConfigSection[]).map(section =>
+        [section, diffConfigSection(context.before?.config[section] ?? {}, snapshot.config[section] ?? {})] as const
+      );
+
+      const sections = [['settings', settings], ['risk_state', riskState], ['trade', trade], ...configDiffs] as const;
+      for (const [section, diff] of sections) {
+        if (Object.keys(diff.before).length > 0) {
+          before[section] = diff.before;
+          after[section] = diff.after;
+        }
+      }
+
+      const changedSettings = Object.keys(settings.after);
+      const changedRiskState = Object.keys(riskState.after);
+      const configRoute = findConfigRoute(context.path);
+      const changedConfig = configDiffs.flatMap(([, diff]) => Object.keys(diff.after));
+      if (context.tradeId) {
+        targetType = 'trade';
+        targetId = context.tradeId;
+      } else if (configRoute) {
+        // Settings changed by a profile switch are still listed in before/after
+        targetType = configRoute.targetType;
+        targetId = changedConfig.length > 0 ? changedConfig.join(',') : null;
+      } else if (changedSettings.length > 0 || context.settingKey) {
+        targetType = 'settings';
+        targetId = (changedSettings.length > 0 ? changedSettings : [context.settingKey]).join(',');
+      } else if (changedRiskState.length > 0) {
+        targetType = 'risk_state';
+        targetId = changedRiskState.join(',');
+      }
+    } else if (context.tradeId) {
+      targetType = 'trade';
+      targetId = context.tradeId;
+    }
+
+    await insertAuditLog(env, {
+      id: crypto.randomUUID(),
+      created_at: context.startedAt,
+      actor: context.actor?.name ?? null,
+      actor_role: context.actor?.role ?? null,
+      method: context.method,
+      path: context.path,
+      query: context.query,
+      status_code: statusCode,
+      reason: context.reason,
+      request_body: context.body,
+      target_type: targetType,
+      target_id: targetId,
+      before_value: Object.keys(before).length > 0 ? JSON.stringify(before) : null,
+      after_value: Object.keys(after).length > 0 ? JSON.stringify(after) : null,
+    });
+  } catch (error) {
+    console.error('[audit] record_failed', JSON.stringify({
+      path: context.path,
+      method: context.method,
+      actor: context.actor?.name ?? null,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+  }
+}
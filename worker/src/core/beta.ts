@@ -0,0 +1,237 @@
+/**
+ * Beta and SPY-weighted Delta
+ *
+ * Beta of each underlying to SPY from the daily bar store: OLS slope of daily log
+ * returns on SPY's over the last BETA_LOOKBACK_DAYS returns, dates aligned. Symbols
+ * without enough history (BETA_MIN_OBSERVATIONS) fall back to 1.0.
+ *
+ * The beta-weighted book delta (in SPY shares) comes from the portfolio Greeks
+ * aggregation; the proposal ranker uses it to prefer candidates that move the book
+ * toward the TARGET_DELTA_SPY_MIN..MAX band.
+ */
+
+import type { Env } from '../env';
+import type { BrokerClient, DailyBarRow } from '../types';
+import { getAllPortfolioPositions, getOpenTrades } from '../db/queries';
+import { getBetaConfig, type BetaConfig } from './config';
+import { loadDailyBars } from './dailyBars';
+import { aggregatePortfolioGreeks, computeSpyWeightedDelta, BETA_REFERENCE_SYMBOL, type PortfolioGreeks } from './greeks';
+
+const CONTRACT_MULTIPLIER = 100;
+
+export interface BetaEstimate {
+  symbol: string;
+  beta: number;
+  correlation: number | null;
+  observations: number;
+  source: 'REFERENCE' | 'ESTIMATED' | 'DEFAULT';  // DEFAULT = not enough history, beta 1.0
+}
+
+export interface DeltaBand {
+  min: number;
+  max: number;
+}
+
+export interface BetaWeightedExposure {
+  as_of: string;
+  spy_price: number | null;
+  spy_weighted_delta: number | null;
+  band: DeltaBand | null;
+  band_status: 'BELOW' | 'INSIDE' | 'ABOVE' | null;
+  betas: BetaEstimate[];
+  greeks: PortfolioGreeks;
+}
+
+function logReturnsByDate(bars: Array<Pick<DailyBarRow, 'date' | 'close'>>): Map<string, number> {
+  const returns = new Map<string, number>();
+  for (let i = 1; i < bars.length; i++) {
+    const prev = bars[i - 1].close;
+    const curr = bars[i].close;
+    if (prev > 0 && curr > 0) {
+      returns.set(bars[i].date, Math.log(curr / prev));
+    }
+  }
+  return returns;
+}
+
+/**
+ * Beta and correlation of a symbol to the reference from daily bars (pure, oldest first)
+ *
+ * Uses the most recent `lookback` returns present on both series.
+ */
+export function computeBeta(
+  symbolBars: Array<Pick<DailyBarRow, 'date' | 'close'>>,
+  referenceBars: Array<Pick<DailyBarRow, 'date' | 'close'>>,
+  lookback: number
+): { beta: number; correlation: number; observations: number } | null {
+  const symbolReturns = logReturnsByDate(symbolBars);
+  const referenceReturns = logReturnsByDate(referenceBars);
+
+  const pairs: Array<[number, number]> = [];
+  for (const [date, ret] of symbolReturns) {
+    const ref = referenceReturns.get(date);
+    if (ref !== undefined) {
+      pairs.push([ret, ref]);
+    }
+  }
+  const window = pairs.slice(-lookback);
+  if (window.length < 2) {
+    return null;
+  }
+
+  const n = window.length;
+  const meanX = window.reduce((sum, [, ref]) => sum + ref, 0) / n;
+  const meanY = window.reduce((sum, [ret]) => sum + ret, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (const [ret, ref] of window) {
+    covariance += (ref - meanX) * (ret - meanY);
+    varianceX += (ref - meanX) ** 2;
+    varianceY += (ret - meanY) ** 2;
+  }
+  if (varianceX === 0) {
+    return null;
+  }
+
+  return {
+    beta: covariance / varianceX,
+    correlation: varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : 0,
+    observations: n,
+  };
+}
+
+/**
+ * Estimate betas to SPY for a set of symbols from stored daily bars
+ */
+export async function getBetaEstimates(
+  env: Env,
+  symbols: string[],
+  now: Date,
+  config?: BetaConfig
+): Promise<Map<string, BetaEstimate>> {
+  const { lookbackDays, minObservations } = config ?? await getBetaConfig(env);
+  const estimates = new Map<string, BetaEstimate>();
+  const uniqueSymbols = Array.from(new Set(symbols));
+  const referenceBars = uniqueSymbols.some(s => s !== BETA_REFERENCE_SYMBOL)
+    ? await loadDailyBars(env, BETA_REFERENCE_SYMBOL, now)
+    : [];
+
+  for (const symbol of uniqueSymbols) {
+    if (symbol === BETA_REFERENCE_SYMBOL) {
+      estimates.set(symbol, { symbol, beta: 1, correlation: 1, observations: 0, source: 'REFERENCE' });
+      continue;
+    }
+    const result = computeBeta(await loadDailyBars(env, symbol, now), referenceBars, lookbackDays);
+    if (!result || result.observations < minObservations) {
+      console.warn('[beta] insufficient_history', JSON.stringify({
+        symbol,
+        observations: result?.observations ?? 0,
+        min_observations: minObservations,
+      }));
+      estimates.set(symbol, {
+        symbol,
+        beta: 1,
+        correlation: null,
+        observations: result?.observations ?? 0,
+        source: 'DEFAULT',
+      });
+      continue;
+    }
+    estimates.set(symbol, {
+      symbol,
+      beta: Math.round(result.beta * 1000) / 1000,
+      correlation: Math.round(result.correlation * 1000) / 1000,
+      observations: result.observations,
+      source: 'ESTIMATED',
+    });
+  }
+  return estimates;
+}
+
+/**
+ * Beta map for the Greeks aggregation
+ */
+export function toBetaMap(estimates: Map<string, BetaEstimate>): Map<string, number> {
+  return new Map([...estimates.values()].map(estimate => [estimate.symbol, estimate.beta]));
+}
+
+/**
+ * Distance of a delta from the band (0 inside)
+ */
+export function deltaBandDistance(delta: number, band: DeltaBand): number {
+  if (delta < band.min) return band.min - delta;
+  if (delta > band.max) return delta - band.max;
+  return 0;
+}
+
+export function getDeltaBand(config: BetaConfig): DeltaBand | null {
+  return config.targetDeltaMin !== null && config.targetDeltaMax !== null
+    ? { min: config.targetDeltaMin, max: config.targetDeltaMax }
+    : null;
+}
+
+/**
+ * SPY-weighted delta a candidate adds to the book
+ *
+ * positionDelta is the net delta of one spread across all its legs
+ * (computeCandidatePositionDelta); x100 x quantity. Returns null when it is unknown.
+ */
+export function computeCandidateSpyDelta(
+  positionDelta: number | null,
+  quantity: number,
+  underlyingPrice: number,
+  spyPrice: number,
+  beta: number
+): number | null {
+  if (positionDelta === null) {
+    return null;
+  }
+  return computeSpyWeightedDelta(positionDelta * CONTRACT_MULTIPLIER * quantity, underlyingPrice, spyPrice, beta);
+}
+
+/**
+ * Beta-weighted SPY delta of the whole book, computed live from portfolio_positions
+ */
+export async function computeBetaWeightedExposure(
+  env: Env,
+  broker: Pick<BrokerClient, 'getUnderlyingQuote'>,
+  now: Date
+): Promise<BetaWeightedExposure> {
+  const config = await getBetaConfig(env);
+  const positions = await getAllPortfolioPositions(env);
+  const trades = await getOpenTrades(env);
+
+  const symbols = Array.from(new Set([...positions.map(p => p.symbol), BETA_REFERENCE_SYMBOL]));
+  const prices = new Map<string, number>();
+  for (const symbol of symbols) {
+    try {
+      const quote = await broker.getUnderlyingQuote(symbol);
+      if (quote.last > 0) {
+        prices.set(symbol, quote.last);
+      }
+    } catch (error) {
+      console.warn('[beta] quote_failed', JSON.stringify({
+        symbol,
+        error: error instanceof Error ? error.message : String(error),
+      }));
+    }
+  }
+
+  const estimates = await getBetaEstimates(env, symbols, now, config);
+  const greeks = aggregatePortfolioGreeks(positions, trades, prices, toBetaMap(estimates));
+  const band = getDeltaBand(config);
+  const weighted = greeks.spy_weighted_delta;
+
+  return {
+    as_of: now.toISOString(),
+    spy_price: prices.get(BETA_REFERENCE_SYMBOL) ?? null,
+    spy_weighted_delta: weighted,
+    band,
+    band_status: band && weighted !== null
+      ? (weighted < band.min ? 'BELOW' : weighted > band.max ? 'ABOVE' : 'INSIDE')
+      : null,
+    betas: [...estimates.values()],
+    greeks,
+  };
+}
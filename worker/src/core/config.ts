@@ -2,11 +2,23 @@
  * SAS v1 Configuration Helpers
  * 
  * Single source of truth for system configuration.
+ * 
+ * Settings are declared (type, range, default, legacy keys) in core/settings.ts;
+ * these loaders turn them into typed config objects.
  */
 
 import type { Env } from '../env';
-import { getSetting } from '../db/queries';
 import { StrategyId } from '../strategy/types';
+import { parseDteMeasure, type DteMeasure } from './time';
+import {
+  getNumberSetting,
+  getOptionalNumberSetting,
+  getModeNumberSetting,
+  getBooleanSetting,
+  getStringSetting,
+  getNumberListSetting,
+  getJsonSetting,
+} from './settings';
 
 export type TradingMode = 'DRY_RUN' | 'SANDBOX_PAPER' | 'LIVE';
 
@@ -23,13 +35,13 @@ export interface StrategyThresholds {
 }
 
 export interface ExitRuleThresholds {
-  // NOTE: profitTargetFraction and stopLossFraction are returned here but NOT used by evaluateCloseRules
-  // evaluateCloseRules re-reads settings directly and applies debit/credit-specific defaults
-  // These fields are kept for backward compatibility but should be considered legacy
-  profitTargetFraction: number; // Default 0.50 (50% of max profit) - NOT USED by close rules
-  stopLossFraction: number; // Default 0.10 (10% of max loss) - NOT USED by close rules
+  // NOTE: getExitRuleThresholds returns the raw settings for profitTargetFraction and stopLossFraction;
+  // close rules use the exit profile values (core/exitProfiles.ts), which apply debit/credit-specific defaults
+  profitTargetFraction: number; // Default 0.50 (50% of max profit)
+  stopLossFraction: number; // Default 0.10 (10% of max loss)
   timeExitDteThreshold: number; // DTE <= 2 (default)
   timeExitCutoff: string; // "15:50" ET as HH:MM (default)
+  timeExitDteMeasure: DteMeasure; // CALENDAR days (default) or TRADING sessions for timeExitDteThreshold
   ivCrushThreshold: number; // IV_now <= IV_entry * 0.85 (default)
   ivCrushMinPnL: number; // PnL >= +15% to trigger IV crush (default)
   trailArmProfitFraction: number; // Start trailing once we hit +25% (default)
@@ -42,14 +54,9 @@ export interface ExitRuleThresholds {
  * Defaults to DRY_RUN if not set or invalid.
  */
 export async function getTradingMode(env: Env): Promise<TradingMode> {
-  const value = await getSetting(env, 'TRADING_MODE');
-  
-  if (value === 'SANDBOX_PAPER' || value === 'LIVE') {
-    return value;
-  }
-  
-  // Default to DRY_RUN for safety
-  return 'DRY_RUN';
+  // Registry default is DRY_RUN for safety; TRADING_MODE only accepts the exact mode strings
+  const mode = await getStringSetting(env, 'TRADING_MODE');
+  return mode === 'SANDBOX_PAPER' || mode === 'LIVE' ? mode : 'DRY_RUN';
 }
 
 /**
@@ -59,11 +66,11 @@ export async function isAutoModeEnabled(env: Env): Promise<boolean> {
   const mode = await getTradingMode(env);
   
   if (mode === 'SANDBOX_PAPER') {
-    return (await getSetting(env, 'AUTO_MODE_ENABLED_PAPER')) === 'true';
+    return getBooleanSetting(env, 'AUTO_MODE_ENABLED_PAPER');
   }
   
   if (mode === 'LIVE') {
-    return (await getSetting(env, 'AUTO_MODE_ENABLED_LIVE')) === 'true';
+    return getBooleanSetting(env, 'AUTO_MODE_ENABLED_LIVE');
   }
   
   // DRY_RUN never has auto mode enabled
@@ -81,54 +88,12 @@ export async function isAutoModeEnabled(env: Env): Promise<boolean> {
 export async function getMinScore(env: Env): Promise<number> {
   const mode = await getTradingMode(env);
   
-  if (mode === 'SANDBOX_PAPER') {
-    const value = await getSetting(env, 'MIN_SCORE_PAPER');
-    if (value) {
-      const parsed = parseFloat(value);
-      if (!isNaN(parsed) && parsed > 0) {
-        return parsed;
-      }
-    }
-    // Fallback to shared PROPOSAL_MIN_SCORE or default 70
-    const fallback = parseFloat((await getSetting(env, 'PROPOSAL_MIN_SCORE')) || '70');
-    if (!value) {
-      console.log('[config] min score fallback to PROPOSAL_MIN_SCORE or 70', { mode, fallback });
-    }
-    return fallback;
-  }
-  
-  if (mode === 'LIVE') {
-    const value = await getSetting(env, 'MIN_SCORE_LIVE');
-    if (value) {
-      const parsed = parseFloat(value);
-      if (!isNaN(parsed) && parsed > 0) {
-        return parsed;
-      }
-    }
-    // Fallback to shared PROPOSAL_MIN_SCORE or default 70
-    const fallback = parseFloat((await getSetting(env, 'PROPOSAL_MIN_SCORE')) || '70');
-    if (!value) {
-      console.log('[config] min score fallback to PROPOSAL_MIN_SCORE or 70', { mode, fallback });
-    }
-    return fallback;
-  }
-  
   // DRY_RUN uses strict thresholds (hardcoded 70, no config override)
-  return 70;
-}
-
-/**
- * Helper to parse numeric settings with validation and fallback
- */
-async function getNumberSetting(env: Env, key: string, fallback: number): Promise<number> {
-  const raw = await getSetting(env, key);
-  if (!raw) return fallback;
-  const parsed = parseFloat(raw);
-  if (Number.isNaN(parsed)) {
-    console.warn('[config] invalid numeric setting, using fallback', { key, raw, fallback });
-    return fallback;
+  if (mode === 'DRY_RUN') {
+    return 70;
   }
-  return parsed;
+  
+  return getModeNumberSetting(env, 'PROPOSAL_MIN_SCORE', mode);
 }
 
 /**
@@ -145,11 +110,11 @@ export async function getStrategyThresholds(env: Env): Promise<StrategyThreshold
   const minScore = await getMinScore(env);
 
   // DTE window configurable via PROPOSAL_DTE_MIN and PROPOSAL_DTE_MAX, defaults to 30-35
-  const minDte = parseInt((await getSetting(env, 'PROPOSAL_DTE_MIN')) || '30');
-  const maxDte = parseInt((await getSetting(env, 'PROPOSAL_DTE_MAX')) || '35');
+  const minDte = await getNumberSetting(env, 'PROPOSAL_DTE_MIN');
+  const maxDte = await getNumberSetting(env, 'PROPOSAL_DTE_MAX');
   
   // Get min credit fraction from config, default 0.16 (16% of width = $0.80 for 5-wide)
-  const minCreditFraction = await getNumberSetting(env, 'MIN_CREDIT_FRACTION', 0.16);
+  const minCreditFraction = await getNumberSetting(env, 'MIN_CREDIT_FRACTION');
   
   // NOTE: Delta range hard-coded here for BULL_PUT_CREDIT defaults
   // Per-strategy configs in STRATEGY_CONFIGS override these at builder level
@@ -172,7 +137,7 @@ export async function getStrategyThresholds(env: Env): Promise<StrategyThreshold
  * Validates against StrategyId enum to prevent typos and mismatches.
  */
 export async function getStrategyWhitelist(env: Env): Promise<StrategyId[]> {
-  const whitelist = await getSetting(env, 'PROPOSAL_STRATEGY_WHITELIST');
+  const whitelist = await getStringSetting(env, 'PROPOSAL_STRATEGY_WHITELIST');
   if (!whitelist) {
     return []; // No whitelist = allow all
   }
@@ -204,7 +169,7 @@ export async function getStrategyWhitelist(env: Env): Promise<StrategyId[]> {
  * Returns list of allowed underlying symbols, or empty array if no whitelist configured.
  */
 export async function getUnderlyingWhitelist(env: Env): Promise<string[]> {
-  const whitelist = await getSetting(env, 'PROPOSAL_UNDERLYING_WHITELIST');
+  const whitelist = await getStringSetting(env, 'PROPOSAL_UNDERLYING_WHITELIST');
   if (!whitelist) {
     return []; // No whitelist = allow all
   }
@@ -218,25 +183,23 @@ export async function getUnderlyingWhitelist(env: Env): Promise<string[]> {
  * 
  * All thresholds are configurable via settings table with sensible defaults.
  * 
- * NOTE: profitTargetFraction and stopLossFraction are returned but NOT used by evaluateCloseRules.
- * evaluateCloseRules re-reads settings directly and applies debit/credit-specific defaults.
- * Only ivCrushThreshold, ivCrushMinPnL, trailArmProfitFraction, trailGivebackFraction,
- * timeExitDteThreshold, and timeExitCutoff are actually used.
+ * These are the global (settings-level) values. Close rules resolve them per trade
+ * through exit profiles (core/exitProfiles.ts), where profitTargetFraction and
+ * stopLossFraction default to the strategy's debit/credit-specific values instead.
  */
 export async function getExitRuleThresholds(env: Env): Promise<ExitRuleThresholds> {
   return {
-    // Legacy fields - not used by evaluateCloseRules (kept for backward compatibility)
-    profitTargetFraction: await getNumberSetting(env, 'CLOSE_RULE_PROFIT_TARGET_FRACTION', 0.50),
-    stopLossFraction: await getNumberSetting(env, 'CLOSE_RULE_STOP_LOSS_FRACTION', 0.10),
-    // Active fields - used by evaluateCloseRules
-    timeExitDteThreshold: parseInt(
-      (await getSetting(env, 'CLOSE_RULE_TIME_EXIT_DTE')) || '2'
-    ),
-    timeExitCutoff: (await getSetting(env, 'CLOSE_RULE_TIME_EXIT_CUTOFF')) || '15:50',
-    ivCrushThreshold: await getNumberSetting(env, 'CLOSE_RULE_IV_CRUSH_THRESHOLD', 0.85),
-    ivCrushMinPnL: await getNumberSetting(env, 'CLOSE_RULE_IV_CRUSH_MIN_PNL', 0.15),
-    trailArmProfitFraction: await getNumberSetting(env, 'CLOSE_RULE_TRAIL_ARM_PROFIT_FRACTION', 0.25),
-    trailGivebackFraction: await getNumberSetting(env, 'CLOSE_RULE_TRAIL_GIVEBACK_FRACTION', 0.10),
+    // Raw settings - exit profiles replace missing values with strategy defaults
+    profitTargetFraction: (await getOptionalNumberSetting(env, 'CLOSE_RULE_PROFIT_TARGET_FRACTION')) ?? 0.50,
+    stopLossFraction: (await getOptionalNumberSetting(env, 'CLOSE_RULE_STOP_LOSS_FRACTION')) ?? 0.10,
+    // Inherited by exit profiles as-is
+    timeExitDteThreshold: await getNumberSetting(env, 'CLOSE_RULE_TIME_EXIT_DTE'),
+    timeExitCutoff: (await getStringSetting(env, 'CLOSE_RULE_TIME_EXIT_CUTOFF')) ?? '15:50',
+    timeExitDteMeasure: parseDteMeasure(await getStringSetting(env, 'CLOSE_RULE_TIME_EXIT_DTE_MEASURE')),
+    ivCrushThreshold: await getNumberSetting(env, 'CLOSE_RULE_IV_CRUSH_THRESHOLD'),
+    ivCrushMinPnL: await getNumberSetting(env, 'CLOSE_RULE_IV_CRUSH_MIN_PNL'),
+    trailArmProfitFraction: await getNumberSetting(env, 'CLOSE_RULE_TRAIL_ARM_PROFIT_FRACTION'),
+    trailGivebackFraction: await getNumberSetting(env, 'CLOSE_RULE_TRAIL_GIVEBACK_FRACTION'),
   };
 }
 
@@ -246,18 +209,317 @@ export async function getExitRuleThresholds(env: Env): Promise<ExitRuleThreshold
  * Configurable via DEFAULT_TRADE_QUANTITY setting, defaults to 1.
  */
 export async function getDefaultTradeQuantity(env: Env): Promise<number> {
-  const value = await getSetting(env, 'DEFAULT_TRADE_QUANTITY');
-  if (value) {
-    const parsed = parseInt(value, 10);
-    if (!isNaN(parsed) && parsed > 0) {
-      // Cap at MAX_TRADE_QUANTITY if set
-      const maxQuantity = parseInt(
-        (await getSetting(env, 'MAX_TRADE_QUANTITY')) || '10',
-        10
-      ) || 10;
-      return Math.min(parsed, maxQuantity);
+  // Cap at MAX_TRADE_QUANTITY
+  return Math.min(
+    await getNumberSetting(env, 'DEFAULT_TRADE_QUANTITY'),
+    await getNumberSetting(env, 'MAX_TRADE_QUANTITY')
+  );
+}
+
+export interface EntryExecutionConfig {
+  tick: number;                // limit price step toward natural (default 0.05)
+  stepWaitMs: number[];        // how long each step rests before walking (default 6 x 5000ms)
+}
+
+/**
+ * Get entry limit-walk configuration
+ * 
+ * Entries start at mid and walk toward the natural price by ENTRY_WALK_TICK per step.
+ * ENTRY_WALK_SCHEDULE_MS is a comma-separated list of per-step wait times; its length
+ * is the number of steps. The default (6 x 5s) keeps the old 30s fill window.
+ */
+export async function getEntryExecutionConfig(env: Env): Promise<EntryExecutionConfig> {
+  return {
+    tick: await getNumberSetting(env, 'ENTRY_WALK_TICK'),
+    stepWaitMs: await getNumberListSetting(env, 'ENTRY_WALK_SCHEDULE_MS'),
+  };
+}
+
+export type ExitLadderStyle = 'PATIENT' | 'FAST';
+
+/**
+ * Get exit ladder configuration for a style (see engine/exitLadder.ts)
+ * 
+ * EXIT_LADDER_<STYLE>_TICK and EXIT_LADDER_<STYLE>_SCHEDULE_MS work like the entry
+ * walk settings. PATIENT (profit target, time exit) defaults to 0.02 x 6 steps of 8s;
+ * FAST (stop loss) to 0.05 x 4 steps of 3s.
+ */
+export async function getExitLadderConfig(env: Env, style: ExitLadderStyle): Promise<EntryExecutionConfig> {
+  return {
+    tick: await getNumberSetting(env, `EXIT_LADDER_${style}_TICK`),
+    stepWaitMs: await getNumberListSetting(env, `EXIT_LADDER_${style}_SCHEDULE_MS`),
+  };
+}
+
+export type IVRFallbackPolicy = 'NEUTRAL' | 'PARTIAL_HISTORY';
+
+export interface IVRankConfig {
+  lookbackDays: number;        // calendar days of IV history (default 365 = 52 weeks)
+  minHistoryDays: number;      // samples required before IVR is trusted (default 60)
+  fallbackPolicy: IVRFallbackPolicy;
+}
+
+/**
+ * Get IV Rank configuration
+ * 
+ * When history is shorter than IVR_MIN_HISTORY_DAYS:
+ * - NEUTRAL (default): IVR = 0.5, same as the pre-history placeholder
+ * - PARTIAL_HISTORY: rank against whatever history exists (NEUTRAL below 10 samples)
+ */
+export async function getIVRankConfig(env: Env): Promise<IVRankConfig> {
+  return {
+    lookbackDays: await getNumberSetting(env, 'IVR_LOOKBACK_DAYS'),
+    minHistoryDays: await getNumberSetting(env, 'IVR_MIN_HISTORY_DAYS'),
+    fallbackPolicy: (await getStringSetting(env, 'IVR_FALLBACK_POLICY')) as IVRFallbackPolicy,
+  };
+}
+
+export type RealizedVolMethod = 'CLOSE_TO_CLOSE' | 'PARKINSON';
+
+export interface RealizedVolConfig {
+  windows: number[];           // trading-day windows to compute (default 10, 21, 63)
+  gateWindow: number;          // window used as rv_30d for the RV/IV gate and scoring (default 21 ≈ 30 calendar days)
+  gateMethod: RealizedVolMethod;
+}
+
+/**
+ * Get realized volatility configuration
+ * 
+ * RV_WINDOWS is a comma-separated list of trading-day windows. RV_GATE_WINDOW is always
+ * included. RV_GATE_METHOD selects CLOSE_TO_CLOSE (default) or PARKINSON for rv_30d.
+ */
+export async function getRealizedVolConfig(env: Env): Promise<RealizedVolConfig> {
+  const gateWindow = Math.max(2, Math.round(await getNumberSetting(env, 'RV_GATE_WINDOW')));
+  const parsed = (await getNumberListSetting(env, 'RV_WINDOWS')).map(w => Math.round(w));
+  const windows = Array.from(new Set([...parsed, gateWindow])).sort((a, b) => a - b);
+  return {
+    windows,
+    gateWindow,
+    gateMethod: (await getStringSetting(env, 'RV_GATE_METHOD')) as RealizedVolMethod,
+  };
+}
+
+export interface DailyBarsConfig {
+  lookbackDays: number;        // calendar days of bars kept for indicators (default 400)
+  staleAfterDays: number;      // warn when the newest stored bar is older than this (default 5)
+}
+
+/**
+ * Get daily bar store configuration
+ * 
+ * DAILY_BARS_LOOKBACK_DAYS must cover the longest indicator (RV_WINDOWS, SMA_50, ATR).
+ */
+export async function getDailyBarsConfig(env: Env): Promise<DailyBarsConfig> {
+  return {
+    lookbackDays: Math.max(60, Math.round(await getNumberSetting(env, 'DAILY_BARS_LOOKBACK_DAYS'))),
+    staleAfterDays: Math.max(1, Math.round(await getNumberSetting(env, 'DAILY_BARS_STALE_AFTER_DAYS'))),
+  };
+}
+
+export interface RegimeConfig {
+  trendWeight: number;         // weight of the trend factor in the composite score (default 0.6)
+  momentumWeight: number;      // weight of the momentum factor (default 0.4)
+  enterThreshold: number;      // |composite| needed to enter BULL/BEAR (default 0.25)
+  exitThreshold: number;       // |composite| below which an existing BULL/BEAR falls back to NEUTRAL (default 0.10)
+  vixHigh: number;             // VIX at or above → HIGH volatility (default 25)
+  vixLow: number;              // VIX at or below → LOW volatility candidate (default 15)
+  atrPercentileHigh: number;   // ATR% percentile at or above → HIGH volatility (default 0.80)
+  atrPercentileLow: number;    // ATR% percentile at or below → LOW volatility candidate (default 0.30)
+}
+
+/**
+ * Get multi-factor regime configuration
+ * 
+ * Hysteresis: a symbol enters BULL/BEAR when the composite crosses REGIME_ENTER_THRESHOLD
+ * and only leaves once it falls back inside REGIME_EXIT_THRESHOLD. The exit threshold is
+ * clamped to the enter threshold.
+ */
+export async function getRegimeConfig(env: Env): Promise<RegimeConfig> {
+  const enterThreshold = Math.max(0, await getNumberSetting(env, 'REGIME_ENTER_THRESHOLD'));
+  const exitThreshold = Math.min(
+    enterThreshold,
+    Math.max(0, await getNumberSetting(env, 'REGIME_EXIT_THRESHOLD'))
+  );
+  return {
+    trendWeight: Math.max(0, await getNumberSetting(env, 'REGIME_TREND_WEIGHT')),
+    momentumWeight: Math.max(0, await getNumberSetting(env, 'REGIME_MOMENTUM_WEIGHT')),
+    enterThreshold,
+    exitThreshold,
+    vixHigh: await getNumberSetting(env, 'REGIME_VIX_HIGH'),
+    vixLow: await getNumberSetting(env, 'REGIME_VIX_LOW'),
+    atrPercentileHigh: await getNumberSetting(env, 'REGIME_ATR_PCTL_HIGH'),
+    atrPercentileLow: await getNumberSetting(env, 'REGIME_ATR_PCTL_LOW'),
+  };
+}
+
+// Keys are a regime ("BULL") or regime:volatility ("BULL:HIGH"); the more specific key wins
+export type RegimeStrategyMap = Record<string, StrategyId[]>;
+
+export const DEFAULT_REGIME_STRATEGY_MAP: RegimeStrategyMap = {
+  BULL: [StrategyId.BULL_PUT_CREDIT, StrategyId.BULL_CALL_DEBIT, StrategyId.CALL_DIAGONAL],
+  BEAR: [StrategyId.BEAR_CALL_CREDIT, StrategyId.BEAR_PUT_DEBIT],
+  // NEUTRAL allows all strategies; IRON_CONDOR and CALL_CALENDAR are range/trend agnostic so they're only enabled here
+  NEUTRAL: [
+    StrategyId.BULL_PUT_CREDIT,
+    StrategyId.BULL_CALL_DEBIT,
+    StrategyId.BEAR_CALL_CREDIT,
+    StrategyId.BEAR_PUT_DEBIT,
+    StrategyId.IRON_CONDOR,
+    StrategyId.CALL_CALENDAR,
+    StrategyId.CALL_DIAGONAL,
+  ],
+};
+
+/**
+ * Get the regime → strategies mapping table
+ * 
+ * REGIME_STRATEGY_MAP is a JSON object, e.g.
+ * {"BULL":["BULL_PUT_CREDIT"],"BULL:HIGH":[],"NEUTRAL":["IRON_CONDOR"]}
+ * Entries replace the defaults key by key; unknown strategies are ignored.
+ * Unset or invalid values fall back to DEFAULT_REGIME_STRATEGY_MAP.
+ */
+export async function getRegimeStrategyMap(env: Env): Promise<RegimeStrategyMap> {
+  // Unset or invalid (the registry rejects non-object JSON) → null
+  const parsed = await getJsonSetting(env, 'REGIME_STRATEGY_MAP');
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return DEFAULT_REGIME_STRATEGY_MAP;
+  }
+
+  const mapping: RegimeStrategyMap = { ...DEFAULT_REGIME_STRATEGY_MAP };
+  for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!Array.isArray(value)) {
+      console.warn('[config] REGIME_STRATEGY_MAP entry must be an array, ignoring', { key });
+      continue;
     }
+    const strategies: StrategyId[] = [];
+    for (const item of value) {
+      const strategyId = Object.values(StrategyId).find(id => id === String(item).trim().toUpperCase());
+      if (strategyId) {
+        strategies.push(strategyId);
+      } else {
+        console.warn('[config] invalid strategy in REGIME_STRATEGY_MAP, ignoring', { key, raw: item });
+      }
+    }
+    mapping[key.trim().toUpperCase()] = strategies;
+  }
+  return mapping;
+}
+
+export interface GreekRiskLimits {
+  maxNetDeltaSpy: number;        // max |beta-weighted net delta| in SPY shares (0 = disabled)
+  maxShortGamma: number;         // max net short gamma, as a positive number (0 = disabled)
+  maxVegaExposure: number;       // max |net vega| in $ per vol point (0 = disabled)
+  maxSnapshotAgeMinutes: number; // older portfolio_greeks snapshots are ignored (default 15)
+}
+
+/**
+ * Get portfolio Greek limits for canOpenNewTrade
+ */
+export async function getGreekRiskLimits(env: Env): Promise<GreekRiskLimits> {
+  return {
+    maxNetDeltaSpy: Math.max(0, await getNumberSetting(env, 'MAX_NET_DELTA_SPY')),
+    maxShortGamma: Math.max(0, await getNumberSetting(env, 'MAX_SHORT_GAMMA')),
+    maxVegaExposure: Math.max(0, await getNumberSetting(env, 'MAX_VEGA_EXPOSURE')),
+    maxSnapshotAgeMinutes: Math.max(1, await getNumberSetting(env, 'GREEKS_SNAPSHOT_MAX_AGE_MINUTES')),
+  };
+}
+
+export interface BetaConfig {
+  lookbackDays: number;          // daily returns used for the beta regression (default 126)
+  minObservations: number;       // fewer aligned returns fall back to beta 1.0 (default 40)
+  targetDeltaMin: number | null; // target band for beta-weighted net delta in SPY shares
+  targetDeltaMax: number | null; // (both unset = no ranker preference)
+}
+
+/**
+ * Get beta estimation and target delta band configuration
+ * 
+ * The band is only active when both TARGET_DELTA_SPY_MIN and TARGET_DELTA_SPY_MAX are set
+ * and min <= max.
+ */
+export async function getBetaConfig(env: Env): Promise<BetaConfig> {
+  const targetMin = await getOptionalNumberSetting(env, 'TARGET_DELTA_SPY_MIN');
+  const targetMax = await getOptionalNumberSetting(env, 'TARGET_DELTA_SPY_MAX');
+  const bandValid = targetMin !== null && targetMax !== null && targetMin <= targetMax;
+  if ((targetMin !== null || targetMax !== null) && !bandValid) {
+    console.warn('[config] invalid target delta band, ignoring', { targetMin, targetMax });
   }
-  return 1; // Default to 1 contract
+  return {
+    lookbackDays: Math.max(20, Math.round(await getNumberSetting(env, 'BETA_LOOKBACK_DAYS'))),
+    minObservations: Math.max(10, Math.round(await getNumberSetting(env, 'BETA_MIN_OBSERVATIONS'))),
+    targetDeltaMin: bandValid ? targetMin : null,
+    targetDeltaMax: bandValid ? targetMax : null,
+  };
+}
+
+export type SizingMode = 'FIXED' | 'RISK_BUDGET';
+
+export interface SizingConfig {
+  mode: SizingMode;              // FIXED = DEFAULT_TRADE_QUANTITY (default), RISK_BUDGET = core/sizing.ts
+  riskFraction: number;          // fraction of equity risked per trade (default 0.01)
+  volTargetIv: number;           // IV at which the volatility scale is 1.0 (default 0.20)
+  scoreReference: number;        // score at which the score scale is 1.0 (default 0.80)
+  minScale: number;              // floor for each scale factor (default 0.5)
+  maxScale: number;              // ceiling for each scale factor (default 1.5)
+  maxQuantity: number;           // MAX_TRADE_QUANTITY (default 10)
+}
+
+/**
+ * Get position sizing configuration
+ */
+export async function getSizingConfig(env: Env): Promise<SizingConfig> {
+  const minScale = Math.max(0, await getNumberSetting(env, 'SIZING_MIN_SCALE'));
+  return {
+    mode: (await getStringSetting(env, 'SIZING_MODE')) as SizingMode,
+    riskFraction: Math.max(0, await getNumberSetting(env, 'SIZING_RISK_FRACTION')),
+    volTargetIv: Math.max(0.01, await getNumberSetting(env, 'SIZING_VOL_TARGET_IV')),
+    scoreReference: Math.max(0.01, await getNumberSetting(env, 'SIZING_SCORE_REFERENCE')),
+    minScale,
+    maxScale: Math.max(minScale, await getNumberSetting(env, 'SIZING_MAX_SCALE')),
+    maxQuantity: Math.max(1, Math.round(await getNumberSetting(env, 'MAX_TRADE_QUANTITY'))),
+  };
+}
+
+export interface CorrelationConfig {
+  groups: string | null;         // CORRELATION_GROUPS, e.g. "SPY,QQQ,MSFT;NVDA,AMD" (overrides computed clusters)
+  threshold: number;             // pairwise return correlation that links two symbols (default 0.70)
+  lookbackDays: number;          // daily returns used for correlations (default 63)
+  clusterMaxRisk: number;        // max summed max_loss per cluster and direction (0 = disabled)
+}
+
+/**
+ * Get correlation cluster configuration
+ */
+export async function getCorrelationConfig(env: Env): Promise<CorrelationConfig> {
+  return {
+    groups: await getStringSetting(env, 'CORRELATION_GROUPS'),
+    threshold: Math.min(1, Math.max(0, await getNumberSetting(env, 'CORRELATION_THRESHOLD'))),
+    lookbackDays: Math.max(20, Math.round(await getNumberSetting(env, 'CORRELATION_LOOKBACK_DAYS'))),
+    clusterMaxRisk: Math.max(0, await getNumberSetting(env, 'CLUSTER_MAX_RISK')),
+  };
+}
+
+export interface ScenarioConfig {
+  underlyingMoves: number[];     // SCENARIO_UNDERLYING_MOVES, % moves of SPY (default -10,-5,-3,-1,0,1,3,5)
+  ivShifts: number[];            // SCENARIO_IV_SHIFTS, vol points added to every leg's IV (default -5,0,5,10)
+  daysForward: number[];         // SCENARIO_DAYS_FORWARD, calendar days of decay (default 0,1,5)
+  betaWeighted: boolean;         // SCENARIO_BETA_WEIGHTED: move each underlying by beta x the SPY move (default true)
+  riskFreeRate: number;          // SCENARIO_RISK_FREE_RATE, annualized (default 0.04)
+  defaultIv: number;             // SCENARIO_DEFAULT_IV, IV for legs without one (default 0.25)
+  maxLoss: number;               // SCENARIO_MAX_LOSS, worst-case scenario loss in dollars (0 = disabled)
 }
 
+/**
+ * Get scenario / stress test configuration
+ */
+export async function getScenarioConfig(env: Env): Promise<ScenarioConfig> {
+  return {
+    underlyingMoves: await getNumberListSetting(env, 'SCENARIO_UNDERLYING_MOVES'),
+    ivShifts: await getNumberListSetting(env, 'SCENARIO_IV_SHIFTS'),
+    daysForward: (await getNumberListSetting(env, 'SCENARIO_DAYS_FORWARD')).map(d => Math.max(0, d)),
+    betaWeighted: await getBooleanSetting(env, 'SCENARIO_BETA_WEIGHTED'),
+    riskFreeRate: await getNumberSetting(env, 'SCENARIO_RISK_FREE_RATE'),
+    defaultIv: Math.max(0.01, await getNumberSetting(env, 'SCENARIO_DEFAULT_IV')),
+    maxLoss: Math.max(0, await getNumberSetting(env, 'SCENARIO_MAX_LOSS')),
+  };
+}
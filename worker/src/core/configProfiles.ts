@@ -0,0 +1,479 @@
+/**
+ * Configuration Profiles
+ *
+ * A profile is a named set of registered settings (core/settings.ts) plus strategy
+ * enablement, stored as PROPOSAL_STRATEGY_WHITELIST. Profiles govern every registered
+ * key except trading mode and auto mode, which stay explicit operator actions.
+ * Applying a profile sets the keys it lists and clears the other governed keys, so
+ * their defaults apply. Legacy keys are cleared too. Runtime state in the settings
+ * table is left alone.
+ *
+ * Switches (config_profile_switches):
+ * - APPLY now: the settings writes and the switch row go in one D1 batch
+ * - APPLY later: a SCHEDULED row; the first cron run at or after activate_at applies
+ *   the profile as it is at that time
+ * - ROLLBACK: restores the values saved before the latest applied APPLY and marks that
+ *   switch ROLLED_BACK, so repeated rollbacks walk back through earlier switches
+ */
+
+import type { Env } from '../env';
+import type { ConfigProfileRow, ConfigProfileSwitchRow } from '../types';
+import {
+  getAllSettings,
+  getConfigProfile,
+  getLatestAppliedConfigProfileSwitch,
+  getScheduledConfigProfileSwitches,
+  insertConfigProfileSwitch,
+  transitionConfigProfileSwitch,
+  commitConfigProfileSwitch,
+} from '../db/queries';
+import { listSettingDefinitions, getSettingDefinition, validateSettingValue } from './settings';
+import { diffRecords } from './audit';
+import { StrategyId } from '../strategy/types';
+
+const STRATEGY_ENABLEMENT_KEY = 'PROPOSAL_STRATEGY_WHITELIST';
+
+// Changed only through their own controls, never by a profile
+export const PROFILE_EXCLUDED_KEYS = [
+  'TRADING_MODE',
+  'AUTO_MODE_ENABLED_PAPER',
+  'AUTO_MODE_ENABLED_LIVE',
+  'AUTO_MODE_ENABLED',
+  'MARKET_CALENDAR_OVERRIDES', // ad-hoc exchange closures (/v2/admin/market-calendar)
+];
+
+const MAX_NAME_LENGTH = 64;
+
+export interface ConfigProfile {
+  id: string;
+  name: string;
+  description: string | null;
+  settings: Record<string, string>;
+  strategies: StrategyId[] | null;     // null = all strategies (no whitelist)
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ConfigProfileInput {
+  name?: unknown;
+  description?: unknown;
+  settings?: unknown;
+  strategies?: unknown;
+}
+
+export interface ConfigValueChange {
+  key: string;
+  from: string | null;                 // null = unset
+  to: string | null;
+}
+
+export interface ConfigProfileStatus {
+  active_profile_id: string | null;
+  active_profile_name: string | null;
+  last_switch: ConfigProfileSwitchRow | null;
+  pending: ConfigProfileSwitchRow[];
+  modified_keys: string[];             // current settings that differ from the active profile
+}
+
+export interface SwitchOptions {
+  actor: string | null;
+  reason: string | null;
+  now: Date;
+}
+
+export type SwitchResult = { switch: ConfigProfileSwitchRow } | { error: string };
+
+/**
+ * Keys a profile may list (registered keys and mode variants, minus exclusions)
+ */
+export function getProfileSettingKeys(): string[] {
+  return listSettingDefinitions()
+    .map(definition => definition.key)
+    .filter(key => key !== STRATEGY_ENABLEMENT_KEY && !PROFILE_EXCLUDED_KEYS.includes(key));
+}
+
+/**
+ * Keys an apply may write or clear: profile keys, strategy enablement and legacy keys
+ */
+function getGovernedKeys(): string[] {
+  const legacyKeys = listSettingDefinitions()
+    .filter(definition => !PROFILE_EXCLUDED_KEYS.includes(definition.key))
+    .flatMap(definition => definition.legacyKeys ?? []);
+  return [...getProfileSettingKeys(), STRATEGY_ENABLEMENT_KEY, ...legacyKeys];
+}
+
+function parseStrategies(value: string): StrategyId[] {
+  const ids = Object.values(StrategyId) as string[];
+  return value
+    .split(',')
+    .map(s => s.trim().toUpperCase())
+    .filter(s => ids.includes(s)) as StrategyId[];
+}
+
+export function parseConfigProfile(row: ConfigProfileRow): ConfigProfile {
+  return {
+    ...row,
+    settings: JSON.parse(row.settings) as Record<string, string>,
+    strategies: row.strategies ? JSON.parse(row.strategies) as StrategyId[] : null,
+  };
+}
+
+/**
+ * Validate a profile body (pure); empty setting values are dropped (default applies)
+ */
+export function validateConfigProfileInput(input: ConfigProfileInput): {
+  name: string;
+  description: string | null;
+  settings: Record<string, string>;
+  strategies: StrategyId[] | null;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    errors.push('name is required');
+  } else if (name.length > MAX_NAME_LENGTH) {
+    errors.push(`name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  const description = typeof input.description === 'string' && input.description.trim()
+    ? input.description.trim()
+    : null;
+
+  const settings: Record<string, string> = {};
+  const rawSettings = input.settings ?? {};
+  if (typeof rawSettings !== 'object' || rawSettings === null || Array.isArray(rawSettings)) {
+    errors.push('settings must be an object of key → value');
+  } else {
+    const profileKeys = getProfileSettingKeys();
+    for (const [key, raw] of Object.entries(rawSettings as Record<string, unknown>)) {
+      if (PROFILE_EXCLUDED_KEYS.includes(key)) {
+        errors.push(`${key}: trading mode, auto mode and the market calendar are not part of profiles`);
+        continue;
+      }
+      if (key === STRATEGY_ENABLEMENT_KEY) {
+        errors.push(`${key}: use strategies`);
+        continue;
+      }
+      const definition = getSettingDefinition(key);
+      if (!definition) {
+        errors.push(`Unknown setting: ${key}`);
+        continue;
+      }
+      if (!profileKeys.includes(key)) {
+        errors.push(`${key} is a legacy key: use ${definition.variantOf}`);
+        continue;
+      }
+      if (typeof raw !== 'string' && typeof raw !== 'number' && typeof raw !== 'boolean') {
+        errors.push(`${key}: value must be a string`);
+        continue;
+      }
+      const value = String(raw).trim();
+      if (!value) {
+        continue;
+      }
+      const valueErrors = validateSettingValue(key, value);
+      if (valueErrors.length > 0) {
+        errors.push(...valueErrors.map(error => `${key}: ${error}`));
+      } else {
+        settings[key] = value;
+      }
+    }
+  }
+
+  let strategies: StrategyId[] | null = null;
+  if (input.strategies !== undefined && input.strategies !== null) {
+    if (!Array.isArray(input.strategies) || input.strategies.length === 0) {
+      errors.push('strategies must be a non-empty array (null = all strategies)');
+    } else {
+      const ids = Object.values(StrategyId) as string[];
+      const normalized = input.strategies.map(s => String(s).trim().toUpperCase());
+      const unknown = normalized.filter(s => !ids.includes(s));
+      if (unknown.length > 0) {
+        errors.push(`Unknown strategies: ${unknown.join(', ')}`);
+      }
+      strategies = Array.from(new Set(normalized.filter(s => ids.includes(s)))) as StrategyId[];
+    }
+  }
+
+  return { name, description, settings, strategies, errors };
+}
+
+/**
+ * Stored values of every governed key (null = unset)
+ */
+async function getCurrentConfigValues(env: Env): Promise<Record<string, string | null>> {
+  const stored = new Map((await getAllSettings(env)).map(row => [row.key, row.value]));
+  return Object.fromEntries(getGovernedKeys().map(key => [key, stored.get(key) ?? null]));
+}
+
+/**
+ * Values of every governed key once the profile is applied
+ */
+function getProfileTargetValues(profile: ConfigProfile): Record<string, string | null> {
+  const values: Record<string, string | null> = Object.fromEntries(getGovernedKeys().map(key => [key, null]));
+  for (const [key, value] of Object.entries(profile.settings)) {
+    values[key] = value;
+  }
+  values[STRATEGY_ENABLEMENT_KEY] = profile.strategies ? profile.strategies.join(',') : null;
+  return values;
+}
+
+function diffConfigValues(
+  current: Record<string, string | null>,
+  target: Record<string, string | null>
+): ConfigValueChange[] {
+  const { before, after } = diffRecords(current, target);
+  return Object.keys(after)
+    .sort()
+    .map(key => ({ key, from: before[key] as string | null, to: after[key] as string | null }));
+}
+
+/**
+ * Profile contents from the current settings (legacy keys map to their replacement)
+ */
+export async function captureCurrentConfig(env: Env): Promise<{
+  settings: Record<string, string>;
+  strategies: StrategyId[] | null;
+}> {
+  const stored = new Map((await getAllSettings(env)).map(row => [row.key, row.value]));
+  const settings: Record<string, string> = {};
+  for (const definition of listSettingDefinitions()) {
+    const key = definition.key;
+    if (!getProfileSettingKeys().includes(key)) {
+      continue;
+    }
+    const value = [key, ...(definition.legacyKeys ?? [])]
+      .map(candidate => stored.get(candidate)?.trim())
+      .find(Boolean);
+    if (value) {
+      settings[key] = value;
+    }
+  }
+  const whitelist = stored.get(STRATEGY_ENABLEMENT_KEY)?.trim();
+  const strategies = whitelist ? parseStrategies(whitelist) : [];
+  return { settings, strategies: strategies.length > 0 ? strategies : null };
+}
+
+/**
+ * Changes applying the profile would make to the current settings
+ */
+export async function diffConfigProfile(env: Env, profile: ConfigProfile): Promise<ConfigValueChange[]> {
+  return diffConfigValues(await getCurrentConfigValues(env), getProfileTargetValues(profile));
+}
+
+/**
+ * Active profile (latest applied switch), scheduled switches and drift since applying
+ */
+export async function getConfigProfileStatus(env: Env): Promise<ConfigProfileStatus> {
+  const lastSwitch = await getLatestAppliedConfigProfileSwitch(env);
+  const pending = await getScheduledConfigProfileSwitches(env);
+
+  let modifiedKeys: string[] = [];
+  if (lastSwitch?.profile_id) {
+    const row = await getConfigProfile(env, lastSwitch.profile_id);
+    if (row) {
+      modifiedKeys = (await diffConfigProfile(env, parseConfigProfile(row))).map(change => change.key);
+    }
+  }
+
+  return {
+    active_profile_id: lastSwitch?.profile_id ?? null,
+    active_profile_name: lastSwitch?.profile_name ?? null,
+    last_switch: lastSwitch,
+    pending,
+    modified_keys: modifiedKeys,
+  };
+}
+
+/**
+ * Apply a profile now (scheduled = the SCHEDULED row being executed by cron)
+ */
+export async function applyConfigProfile(
+  env: Env,
+  row: ConfigProfileRow,
+  options: SwitchOptions,
+  scheduled: ConfigProfileSwitchRow | null = null
+): Promise<SwitchResult> {
+  const profile = parseConfigProfile(row);
+  // Re-validate: the registry may have changed since the profile was saved
+  const { errors } = validateConfigProfileInput(profile);
+  if (errors.length > 0) {
+    return { error: `Profile ${profile.name} is no longer valid: ${errors.join('; ')}` };
+  }
+
+  const current = await getCurrentConfigValues(env);
+  const changes = diffConfigValues(current, getProfileTargetValues(profile));
+  const active = await getLatestAppliedConfigProfileSwitch(env);
+  const appliedAt = options.now.toISOString();
+
+  const switchRow: ConfigProfileSwitchRow = {
+    id: scheduled?.id ?? crypto.randomUUID(),
+    action: 'APPLY',
+    status: 'APPLIED',
+    profile_id: profile.id,
+    profile_name: profile.name,
+    previous_profile_id: active?.profile_id ?? null,
+    previous_profile_name: active?.profile_name ?? null,
+    rollback_of: null,
+    activate_at: scheduled?.activate_at ?? appliedAt,
+    previous_values: JSON.stringify(current),
+    changes: JSON.stringify(changes),
+    actor: scheduled ? scheduled.actor : options.actor,
+    reason: scheduled ? scheduled.reason : options.reason,
+    error: null,
+    created_at: scheduled?.created_at ?? appliedAt,
+    applied_at: appliedAt,
+  };
+
+  await commitConfigProfileSwitch(
+    env,
+    Object.fromEntries(changes.map(change => [change.key, change.to])),
+    switchRow
+  );
+
+  console.log('[config_profiles][applied]', JSON.stringify({
+    switch_id: switchRow.id,
+    profile: profile.name,
+    previous_profile: switchRow.previous_profile_name,
+    changed_keys: changes.map(change => change.key),
+    scheduled: scheduled !== null,
+  }));
+
+  return { switch: switchRow };
+}
+
+/**
+ * Record a switch to apply the profile at activateAt (a future time)
+ */
+export async function scheduleConfigProfile(
+  env: Env,
+  row: ConfigProfileRow,
+  activateAt: Date,
+  options: SwitchOptions
+): Promise<ConfigProfileSwitchRow> {
+  const switchRow: ConfigProfileSwitchRow = {
+    id: crypto.randomUUID(),
+    action: 'APPLY',
+    status: 'SCHEDULED',
+    profile_id: row.id,
+    profile_name: row.name,
+    previous_profile_id: null,
+    previous_profile_name: null,
+    rollback_of: null,
+    activate_at: activateAt.toISOString(),
+    previous_values: null,
+    changes: null,
+    actor: options.actor,
+    reason: options.reason,
+    error: null,
+    created_at: options.now.toISOString(),
+    applied_at: null,
+  };
+  await insertConfigProfileSwitch(env, switchRow);
+
+  console.log('[config_profiles][scheduled]', JSON.stringify({
+    switch_id: switchRow.id,
+    profile: row.name,
+    activate_at: switchRow.activate_at,
+  }));
+
+  return switchRow;
+}
+
+/**
+ * Undo the latest applied APPLY: restore the values saved before it
+ */
+export async function rollbackConfigProfile(env: Env, options: SwitchOptions): Promise<SwitchResult> {
+  const target = await getLatestAppliedConfigProfileSwitch(env, { action: 'APPLY', excludeRolledBack: true });
+  if (!target || !target.previous_values) {
+    return { error: 'No applied profile switch to roll back' };
+  }
+
+  const restore = JSON.parse(target.previous_values) as Record<string, string | null>;
+  const current = await getCurrentConfigValues(env);
+  const changes = diffConfigValues(current, { ...current, ...restore });
+  const active = await getLatestAppliedConfigProfileSwitch(env);
+  const appliedAt = options.now.toISOString();
+
+  const switchRow: ConfigProfileSwitchRow = {
+    id: crypto.randomUUID(),
+    action: 'ROLLBACK',
+    status: 'APPLIED',
+    profile_id: target.previous_profile_id,
+    profile_name: target.previous_profile_name,
+    previous_profile_id: active?.profile_id ?? null,
+    previous_profile_name: active?.profile_name ?? null,
+    rollback_of: target.id,
+    activate_at: appliedAt,
+    previous_values: JSON.stringify(current),
+    changes: JSON.stringify(changes),
+    actor: options.actor,
+    reason: options.reason,
+    error: null,
+    created_at: appliedAt,
+    applied_at: appliedAt,
+  };
+
+  await commitConfigProfileSwitch(
+    env,
+    Object.fromEntries(changes.map(change => [change.key, change.to])),
+    switchRow,
+    target.id
+  );
+
+  console.log('[config_profiles][rolled_back]', JSON.stringify({
+    switch_id: switchRow.id,
+    rollback_of: target.id,
+    undone_profile: target.profile_name,
+    restored_profile: switchRow.profile_name,
+    changed_keys: changes.map(change => change.key),
+  }));
+
+  return { switch: switchRow };
+}
+
+/**
+ * Cron: apply scheduled switches that are due, oldest first
+ *
+ * Each switch is claimed (SCHEDULED → APPLYING) first, so overlapping cron runs
+ * apply it once. Failures mark the switch FAILED and never stop the cron.
+ */
+export async function applyDueConfigProfileSwitches(env: Env, now: Date): Promise<void> {
+  let due: ConfigProfileSwitchRow[];
+  try {
+    due = await getScheduledConfigProfileSwitches(env, now.toISOString());
+  } catch (error) {
+    console.error('[config_profiles][due_check_failed]', JSON.stringify({
+      error: error instanceof Error ? error.message : String(error),
+    }));
+    return;
+  }
+
+  for (const scheduled of due) {
+    if (!(await transitionConfigProfileSwitch(env, scheduled.id, 'SCHEDULED', 'APPLYING'))) {
+      continue;
+    }
+    try {
+      const row = scheduled.profile_id ? await getConfigProfile(env, scheduled.profile_id) : null;
+      const result = row
+        ? await applyConfigProfile(env, row, { actor: null, reason: null, now }, scheduled)
+        : { error: `Profile ${scheduled.profile_name} no longer exists` };
+      if ('error' in result) {
+        await transitionConfigProfileSwitch(env, scheduled.id, 'APPLYING', 'FAILED', result.error);
+        console.error('[config_profiles][scheduled_failed]', JSON.stringify({
+          switch_id: scheduled.id,
+          profile: scheduled.profile_name,
+          error: result.error,
+        }));
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await transitionConfigProfileSwitch(env, scheduled.id, 'APPLYING', 'FAILED', message).catch(() => {});
+      console.error('[config_profiles][scheduled_failed]', JSON.stringify({
+        switch_id: scheduled.id,
+        profile: scheduled.profile_name,
+        error: message,
+      }));
+    }
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Correlation Clusters
+ *
+ * Groups underlyings that move together so concentration limits treat them as one
+ * bet. Clusters come from CORRELATION_GROUPS when set (symbols not listed stand
+ * alone), otherwise from stored daily bars: two symbols are linked when the
+ * correlation of their daily log returns over CORRELATION_LOOKBACK_DAYS is at least
+ * CORRELATION_THRESHOLD, and clusters are the connected groups (single linkage).
+ *
+ * Cluster exposure is the summed max_loss of open trades per directional bias, so
+ * bull put spreads on SPY, QQQ and MSFT add up while a bear call spread on QQQ does
+ * not count against them. CLUSTER_MAX_RISK caps it at entry.
+ */
+
+import type { Env } from '../env';
+import type { TradeRow } from '../types';
+import type { DirectionalBias } from '../strategy/types';
+import { getOpenTrades } from '../db/queries';
+import { getCorrelationConfig, type CorrelationConfig } from './config';
+import { loadDailyBars } from './dailyBars';
+import { computeBeta } from './beta';
+import { getStrategyBias } from '../strategy/registry';
+import { isValidSymbol } from './symbols';
+
+export interface CorrelationCluster {
+  id: string;                       // member symbols joined with '+'
+  symbols: string[];
+  source: 'CONFIGURED' | 'COMPUTED';
+}
+
+export interface PairCorrelation {
+  a: string;
+  b: string;
+  correlation: number | null;       // null = not enough overlapping history
+  observations: number;
+}
+
+export interface ClusterExposure {
+  cluster: CorrelationCluster;
+  by_bias: Record<DirectionalBias, { max_loss: number; trades: number }>;
+}
+
+/**
+ * Parse CORRELATION_GROUPS: groups separated by ';', symbols by ','
+ */
+export function parseCorrelationGroups(value: string | null | undefined): {
+  groups: string[][];
+  errors: string[];
+} {
+  const groups: string[][] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  for (const rawGroup of (value ?? '').split(';')) {
+    const symbols = rawGroup.split(',').map(s => s.trim().toUpperCase()).filter(Boolean);
+    if (symbols.length === 0) {
+      continue;
+    }
+    for (const symbol of symbols) {
+      if (!isValidSymbol(symbol)) {
+        errors.push(`Invalid symbol: ${symbol}`);
+      } else if (seen.has(symbol)) {
+        errors.push(`Symbol in more than one group: ${symbol}`);
+      }
+      seen.add(symbol);
+    }
+    groups.push(Array.from(new Set(symbols)));
+  }
+
+  return { groups, errors };
+}
+
+function makeCluster(symbols: string[], source: CorrelationCluster['source']): CorrelationCluster {
+  const sorted = [...symbols].sort();
+  return { id: sorted.join('+'), symbols: sorted, source };
+}
+
+/**
+ * Single-linkage clusters from pairwise correlations (pure)
+ */
+export function buildCorrelationClusters(
+  symbols: string[],
+  pairs: PairCorrelation[],
+  threshold: number
+): CorrelationCluster[] {
+  const parent = new Map(symbols.map(symbol => [symbol, symbol]));
+  const find = (symbol: string): string => {
+    let root = symbol;
+    while (parent.get(root) !== root) {
+      root = parent.get(root)!;
+    }
+    parent.set(symbol, root);
+    return root;
+  };
+
+  for (const pair of pairs) {
+    if (pair.correlation !== null && pair.correlation >= threshold && parent.has(pair.a) && parent.has(pair.b)) {
+      parent.set(find(pair.a), find(pair.b));
+    }
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const symbol of symbols) {
+    const root = find(symbol);
+    groups.set(root, [...(groups.get(root) ?? []), symbol]);
+  }
+  return [...groups.values()]
+    .map(group => makeCluster(group, 'COMPUTED'))
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Pairwise daily-return correlations from stored bars
+ */
+export async function computePairCorrelations(
+  env: Env,
+  symbols: string[],
+  now: Date,
+  lookbackDays: number
+): Promise<PairCorrelation[]> {
+  const bars = new Map<string, Awaited<ReturnType<typeof loadDailyBars>>>();
+  for (const symbol of symbols) {
+    bars.set(symbol, await loadDailyBars(env, symbol, now));
+  }
+
+  const pairs: PairCorrelation[] = [];
+  for (let i = 0; i < symbols.length; i++) {
+    for (let j = i + 1; j < symbols.length; j++) {
+      const result = computeBeta(bars.get(symbols[i])!, bars.get(symbols[j])!, lookbackDays);
+      pairs.push({
+        a: symbols[i],
+        b: symbols[j],
+        correlation: result ? Math.round(result.correlation * 1000) / 1000 : null,
+        observations: result?.observations ?? 0,
+      });
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Correlation clusters covering the given symbols
+ */
+export async function getCorrelationClusters(
+  env: Env,
+  symbols: string[],
+  now: Date,
+  config?: CorrelationConfig
+): Promise<{ clusters: CorrelationCluster[]; pairs: PairCorrelation[] }> {
+  const { groups: rawGroups, threshold, lookbackDays } = config ?? await getCorrelationConfig(env);
+  const uniqueSymbols = Array.from(new Set(symbols.map(s => s.toUpperCase()))).sort();
+
+  if (rawGroups) {
+    const { groups, errors } = parseCorrelationGroups(rawGroups);
+    if (errors.length > 0) {
+      console.warn('[correlation] invalid_groups', JSON.stringify({ errors }));
+    }
+    const clusters = groups.map(group => makeCluster(group, 'CONFIGURED'));
+    const grouped = new Set(groups.flat());
+    for (const symbol of uniqueSymbols) {
+      if (!grouped.has(symbol)) {
+        clusters.push(makeCluster([symbol], 'CONFIGURED'));
+      }
+    }
+    return { clusters, pairs: [] };
+  }
+
+  const pairs = await computePairCorrelations(env, uniqueSymbols, now, lookbackDays);
+  return { clusters: buildCorrelationClusters(uniqueSymbols, pairs, threshold), pairs };
+}
+
+export function findCluster(clusters: CorrelationCluster[], symbol: string): CorrelationCluster {
+  return clusters.find(c => c.symbols.includes(symbol.toUpperCase())) ?? makeCluster([symbol.toUpperCase()], 'COMPUTED');
+}
+
+/**
+ * Open-trade max_loss per cluster and directional bias (pure)
+ */
+export function computeClusterExposure(
+  clusters: CorrelationCluster[],
+  openTrades: TradeRow[]
+): ClusterExposure[] {
+  return clusters.map(cluster => {
+    const byBias: ClusterExposure['by_bias'] = {
+      BULLISH: { max_loss: 0, trades: 0 },
+      BEARISH: { max_loss: 0, trades: 0 },
+      NEUTRAL: { max_loss: 0, trades: 0 },
+    };
+    for (const trade of openTrades) {
+      if (!cluster.symbols.includes(trade.symbol)) {
+        continue;
+      }
+      const bucket = byBias[getStrategyBias(trade.strategy)];
+      bucket.max_loss += trade.max_loss ?? 0;
+      bucket.trades++;
+    }
+    return { cluster, by_bias: byBias };
+  });
+}
+
+/**
+ * Validate cluster concentration cap
+ *
+ * Sum max_loss of open trades in the new trade's cluster with the same directional
+ * bias; enforce CLUSTER_MAX_RISK (0 = disabled).
+ */
+export async function validateClusterConcentrationCap(
+  env: Env,
+  symbol: string,
+  strategy: string | null | undefined,
+  newTradeMaxLoss: number,
+  now: Date
+): Promise<{ valid: boolean; reason?: string }> {
+  const config = await getCorrelationConfig(env);
+  if (config.clusterMaxRisk <= 0) {
+    return { valid: true };
+  }
+
+  const openTrades = await getOpenTrades(env);
+  const { clusters } = await getCorrelationClusters(env, [...openTrades.map(t => t.symbol), symbol], now, config);
+  const cluster = findCluster(clusters, symbol);
+  const [exposure] = computeClusterExposure([cluster], openTrades);
+  const bias = getStrategyBias(strategy);
+  const totalAfterNewTrade = exposure.by_bias[bias].max_loss + newTradeMaxLoss;
+
+  if (totalAfterNewTrade > config.clusterMaxRisk) {
+    return {
+      valid: false,
+      reason: `Cluster ${cluster.id} ${bias} risk ($${totalAfterNewTrade.toFixed(2)} after new trade) would exceed CLUSTER_MAX_RISK ($${config.clusterMaxRisk.toFixed(2)})`,
+    };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,145 @@
+/**
+ * Daily Bar Store
+ *
+ * Daily OHLCV per symbol persisted in the daily_bars table.
+ *
+ * - refreshDailyBars: pulls /markets/history once a day (premarket). Incremental after the
+ *   first fill: only the last few sessions are re-fetched and overwritten.
+ * - loadDailyBars: completed bars for indicator consumers (regime, trend, realized vol,
+ *   live signals). Reads D1 only, so a trading cycle makes no history calls.
+ */
+
+import type { Env } from '../env';
+import type { EngineBroker, DailyBarRow } from '../types';
+import { upsertDailyBars, getDailyBars, getLatestDailyBarDate } from '../db/queries';
+import { getDailyBarsConfig } from './config';
+import { getETDateString } from './time';
+
+// Always refreshed alongside the eligible symbols (SPY reference, VIX level and VIX/VIX3M term for regime)
+export const MARKET_BAR_SYMBOLS = ['SPY', 'VIX', 'VIX3M'];
+
+// Sessions re-fetched on an incremental refresh, to pick up late corrections
+const REFRESH_OVERLAP_DAYS = 7;
+
+export interface DailyBarsRefreshResult {
+  refreshed: Array<{ symbol: string; bars: number }>;
+  failed: string[];
+}
+
+function daysBefore(now: Date, days: number): string {
+  const date = new Date(now);
+  date.setDate(date.getDate() - days);
+  return getETDateString(date);
+}
+
+function nullableNumber(value: number | undefined): number | null {
+  return value != null && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Refresh stored daily bars for the given symbols
+ *
+ * Only completed sessions (before today's ET date) are written. A failure on one
+ * symbol doesn't stop the others.
+ */
+export async function refreshDailyBars(
+  env: Env,
+  broker: Pick<EngineBroker, 'getHistoricalData'>,
+  symbols: string[],
+  now: Date
+): Promise<DailyBarsRefreshResult> {
+  const config = await getDailyBarsConfig(env);
+  const today = getETDateString(now);
+  const lookbackStart = daysBefore(now, config.lookbackDays);
+  const result: DailyBarsRefreshResult = { refreshed: [], failed: [] };
+
+  for (const symbol of Array.from(new Set(symbols))) {
+    try {
+      const latest = await getLatestDailyBarDate(env, symbol);
+      let start = lookbackStart;
+      if (latest && latest >= lookbackStart) {
+        const overlap = new Date(`${latest}T12:00:00Z`);
+        overlap.setUTCDate(overlap.getUTCDate() - REFRESH_OVERLAP_DAYS);
+        start = overlap.toISOString().split('T')[0];
+      }
+
+      const bars = await broker.getHistoricalData(symbol, start, today);
+      const updatedAt = now.toISOString();
+      const rows: DailyBarRow[] = bars
+        .filter(bar => bar.date < today)
+        .map(bar => ({
+          symbol,
+          date: bar.date,
+          open: nullableNumber(bar.open),
+          high: nullableNumber(bar.high),
+          low: nullableNumber(bar.low),
+          close: bar.close,
+          volume: nullableNumber(bar.volume),
+          updated_at: updatedAt,
+        }));
+
+      await upsertDailyBars(env, rows);
+      result.refreshed.push({ symbol, bars: rows.length });
+    } catch (error) {
+      result.failed.push(symbol);
+      console.warn('[dailyBars] refresh failed', JSON.stringify({
+        symbol,
+        error: error instanceof Error ? error.message : String(error),
+      }));
+    }
+  }
+
+  console.log('[dailyBars] refreshed', JSON.stringify({
+    date: today,
+    refreshed: result.refreshed,
+    failed: result.failed,
+  }));
+
+  return result;
+}
+
+/**
+ * Load completed daily bars for a symbol (oldest first)
+ *
+ * Bars dated today or later are excluded. Returns [] if the store can't be read;
+ * logs a warning when the newest bar is stale (premarket refresh missed).
+ */
+export async function loadDailyBars(
+  env: Env,
+  symbol: string,
+  now: Date = new Date()
+): Promise<DailyBarRow[]> {
+  const config = await getDailyBarsConfig(env);
+  const today = getETDateString(now);
+
+  let bars: DailyBarRow[];
+  try {
+    bars = (await getDailyBars(env, symbol, daysBefore(now, config.lookbackDays)))
+      .filter(bar => bar.date < today);
+  } catch (error) {
+    console.warn('[dailyBars] failed to load bars', JSON.stringify({
+      symbol,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+    return [];
+  }
+
+  const newest = bars.length > 0 ? bars[bars.length - 1].date : null;
+  if (newest === null || newest < daysBefore(now, config.staleAfterDays)) {
+    console.warn('[dailyBars] stale or missing bars', JSON.stringify({
+      symbol,
+      newest,
+      bars: bars.length,
+      stale_after_days: config.staleAfterDays,
+    }));
+  }
+
+  return bars;
+}
+
+/**
+ * Closes from loaded bars (oldest first)
+ */
+export function closesOf(bars: Array<{ close: number }>): number[] {
+  return bars.map(bar => bar.close);
+}
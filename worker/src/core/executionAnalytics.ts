@@ -0,0 +1,309 @@
+/**
+ * Execution Analytics
+ *
+ * Measures how well orders execute, from the orders table (one row per limit walk /
+ * exit ladder step) joined with proposals and trades.
+ *
+ * An attempt is every order row for one proposal and side (ENTRY / EXIT): the entry
+ * walk or exit ladder steps plus any market fallback. Per filled attempt:
+ * - slippage_vs_mid: fill vs the mid when the attempt started (first step's
+ *   mid_price, else proposal credit_target for entries / exit mark for exits)
+ * - slippage_vs_natural: fill vs the natural of the step that filled
+ * - time_to_fill_ms: first step placed -> filled row last updated
+ * Slippage is positive when the fill is worse than the reference: paying more on
+ * debit orders, receiving less on credit orders.
+ *
+ * Order-level rates (fill / cancel / reject / partial) count each row, so walk
+ * steps cancelled before a later step fills show up as cancels; attempt_fill_rate
+ * is the share of attempts that filled at all.
+ */
+
+import type { OrderExecutionRow } from '../db/queries_orders';
+import type { OrderSide } from '../types';
+import { isDebitStrategy } from '../strategy/registry';
+import { toET } from './time';
+
+export type ExecutionSliceDimension = 'strategy' | 'symbol' | 'side' | 'time_of_day' | 'exit_trigger';
+
+export const EXECUTION_SLICE_DIMENSIONS: ExecutionSliceDimension[] = [
+  'strategy',
+  'symbol',
+  'side',
+  'time_of_day',
+  'exit_trigger',
+];
+
+export interface ExecutionOrderMetrics {
+  order_id: string;
+  proposal_id: string;
+  side: OrderSide;
+  strategy: string;
+  symbol: string;
+  status: string;
+  walk_step: number | null;
+  created_at: string;
+  time_of_day: string;            // ET half-hour bucket the attempt started in, e.g. '09:30'
+  exit_trigger: string | null;    // EXIT orders only
+  fill_price: number | null;
+  reference_mid: number | null;
+  natural_price: number | null;
+  slippage_vs_mid: number | null;
+  slippage_vs_natural: number | null;
+  time_to_fill_ms: number | null;
+  partial: boolean;
+}
+
+export interface ExecutionStats {
+  orders: number;
+  filled: number;
+  cancelled: number;
+  rejected: number;
+  working: number;
+  partial: number;
+  fill_rate: number | null;
+  cancel_rate: number | null;
+  reject_rate: number | null;
+  partial_rate: number | null;
+  attempts: number;
+  attempts_filled: number;
+  attempt_fill_rate: number | null;
+  avg_slippage_vs_mid: number | null;
+  avg_slippage_vs_natural: number | null;
+  avg_time_to_fill_ms: number | null;
+  median_time_to_fill_ms: number | null;
+}
+
+export interface ExecutionAnalytics {
+  since: string;
+  overall: ExecutionStats;
+  slices: Record<ExecutionSliceDimension, Array<{ key: string; stats: ExecutionStats }>>;
+  orders: ExecutionOrderMetrics[];
+}
+
+function roundToCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function ratio(count: number, total: number): number | null {
+  return total > 0 ? Math.round((count / total) * 10000) / 10000 : null;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * ET half-hour bucket ('HH:MM') for an ISO datetime
+ */
+export function getTimeOfDayBucket(iso: string): string {
+  const et = toET(new Date(iso));
+  const hour = String(et.getUTCHours()).padStart(2, '0');
+  const minute = et.getUTCMinutes() < 30 ? '00' : '30';
+  return `${hour}:${minute}`;
+}
+
+/**
+ * Slippage of a fill versus a reference price (positive = worse than reference)
+ *
+ * Entries on debit strategies and exits on credit strategies pay a debit; the
+ * other two receive a credit.
+ */
+export function computeOrderSlippage(
+  fillPrice: number,
+  referencePrice: number,
+  side: OrderSide,
+  strategy: string | null | undefined
+): number {
+  const paysDebit = isDebitStrategy(strategy) !== (side === 'EXIT');
+  return roundToCents(paysDebit ? fillPrice - referencePrice : referencePrice - fillPrice);
+}
+
+function isPartialFill(row: OrderExecutionRow): boolean {
+  return row.status === 'PARTIAL' || ((row.filled_quantity ?? 0) > 0 && (row.remaining_quantity ?? 0) > 0);
+}
+
+/**
+ * Exit trigger for an EXIT order: trades.exit_execution trigger, else exit_reason
+ */
+function getExitTrigger(row: OrderExecutionRow): string {
+  if (row.trade_exit_execution) {
+    try {
+      const record = JSON.parse(row.trade_exit_execution) as { trigger?: string };
+      if (record.trigger) {
+        return record.trigger;
+      }
+    } catch {
+      // fall through to exit_reason
+    }
+  }
+  return row.trade_exit_reason ?? 'UNKNOWN';
+}
+
+function getExitMark(row: OrderExecutionRow): number | null {
+  if (!row.trade_exit_execution) {
+    return null;
+  }
+  try {
+    const record = JSON.parse(row.trade_exit_execution) as { current_mark?: number };
+    return typeof record.current_mark === 'number' ? record.current_mark : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Per-order execution metrics; rows must be ordered by created_at ascending
+ */
+export function computeOrderMetrics(rows: OrderExecutionRow[]): ExecutionOrderMetrics[] {
+  const attempts = new Map<string, OrderExecutionRow[]>();
+  for (const row of rows) {
+    const key = `${row.proposal_id}:${row.side}`;
+    const attempt = attempts.get(key) ?? [];
+    attempt.push(row);
+    attempts.set(key, attempt);
+  }
+
+  const metrics: ExecutionOrderMetrics[] = [];
+  for (const attempt of attempts.values()) {
+    const first = attempt[0];
+    const startedAt = new Date(first.created_at).getTime();
+    const exitMark = first.side === 'EXIT' ? getExitMark(first) : null;
+    const referenceMid = attempt.find(row => row.mid_price !== null && row.mid_price !== undefined)?.mid_price
+      ?? (first.side === 'ENTRY' ? first.credit_target : exitMark)
+      ?? null;
+
+    for (const row of attempt) {
+      const fillPrice = row.status === 'FILLED' && row.avg_fill_price !== null
+        ? Math.abs(row.avg_fill_price)
+        : null;
+      const natural = row.natural_price ?? null;
+
+      metrics.push({
+        order_id: row.id,
+        proposal_id: row.proposal_id,
+        side: row.side,
+        strategy: row.strategy ?? 'UNKNOWN',
+        symbol: row.symbol ?? 'UNKNOWN',
+        status: row.status,
+        walk_step: row.walk_step ?? null,
+        created_at: row.created_at,
+        time_of_day: getTimeOfDayBucket(first.created_at),
+        exit_trigger: row.side === 'EXIT' ? getExitTrigger(row) : null,
+        fill_price: fillPrice,
+        reference_mid: referenceMid,
+        natural_price: natural,
+        slippage_vs_mid: fillPrice !== null && referenceMid !== null
+          ? computeOrderSlippage(fillPrice, referenceMid, row.side, row.strategy)
+          : null,
+        slippage_vs_natural: fillPrice !== null && natural !== null
+          ? computeOrderSlippage(fillPrice, natural, row.side, row.strategy)
+          : null,
+        time_to_fill_ms: fillPrice !== null
+          ? Math.max(0, new Date(row.updated_at).getTime() - startedAt)
+          : null,
+        partial: isPartialFill(row),
+      });
+    }
+  }
+  return metrics;
+}
+
+/**
+ * Aggregate stats over a set of order metrics
+ */
+export function summarizeExecution(orders: ExecutionOrderMetrics[]): ExecutionStats {
+  const filled = orders.filter(o => o.status === 'FILLED');
+  const cancelled = orders.filter(o => o.status === 'CANCELLED').length;
+  const rejected = orders.filter(o => o.status === 'REJECTED').length;
+  const partial = orders.filter(o => o.partial).length;
+  const working = orders.filter(o => o.status === 'PENDING' || o.status === 'PLACED' || o.status === 'PARTIAL').length;
+
+  const attempts = new Set(orders.map(o => `${o.proposal_id}:${o.side}`));
+  const attemptsFilled = new Set(filled.map(o => `${o.proposal_id}:${o.side}`));
+
+  const slippageVsMid = filled.flatMap(o => o.slippage_vs_mid !== null ? [o.slippage_vs_mid] : []);
+  const slippageVsNatural = filled.flatMap(o => o.slippage_vs_natural !== null ? [o.slippage_vs_natural] : []);
+  const fillTimes = filled.flatMap(o => o.time_to_fill_ms !== null ? [o.time_to_fill_ms] : []);
+
+  const avgMid = average(slippageVsMid);
+  const avgNatural = average(slippageVsNatural);
+  const avgFillTime = average(fillTimes);
+  const medianFillTime = median(fillTimes);
+
+  return {
+    orders: orders.length,
+    filled: filled.length,
+    cancelled,
+    rejected,
+    working,
+    partial,
+    fill_rate: ratio(filled.length, orders.length),
+    cancel_rate: ratio(cancelled, orders.length),
+    reject_rate: ratio(rejected, orders.length),
+    partial_rate: ratio(partial, orders.length),
+    attempts: attempts.size,
+    attempts_filled: attemptsFilled.size,
+    attempt_fill_rate: ratio(attemptsFilled.size, attempts.size),
+    avg_slippage_vs_mid: avgMid !== null ? roundToCents(avgMid) : null,
+    avg_slippage_vs_natural: avgNatural !== null ? roundToCents(avgNatural) : null,
+    avg_time_to_fill_ms: avgFillTime !== null ? Math.round(avgFillTime) : null,
+    median_time_to_fill_ms: medianFillTime !== null ? Math.round(medianFillTime) : null,
+  };
+}
+
+function getSliceKey(order: ExecutionOrderMetrics, dimension: ExecutionSliceDimension): string | null {
+  switch (dimension) {
+    case 'strategy':
+      return order.strategy;
+    case 'symbol':
+      return order.symbol;
+    case 'side':
+      return order.side;
+    case 'time_of_day':
+      return order.time_of_day;
+    case 'exit_trigger':
+      return order.exit_trigger;
+  }
+}
+
+/**
+ * Execution analytics for orders created since `since`, overall and per slice
+ *
+ * The exit_trigger slice only covers EXIT orders.
+ */
+export function computeExecutionAnalytics(rows: OrderExecutionRow[], since: string): ExecutionAnalytics {
+  const orders = computeOrderMetrics(rows);
+
+  const slices = {} as ExecutionAnalytics['slices'];
+  for (const dimension of EXECUTION_SLICE_DIMENSIONS) {
+    const groups = new Map<string, ExecutionOrderMetrics[]>();
+    for (const order of orders) {
+      const key = getSliceKey(order, dimension);
+      if (key === null) {
+        continue;
+      }
+      const group = groups.get(key) ?? [];
+      group.push(order);
+      groups.set(key, group);
+    }
+    slices[dimension] = [...groups.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, group]) => ({ key, stats: summarizeExecution(group) }));
+  }
+
+  return {
+    since,
+    overall: summarizeExecution(orders),
+    slices,
+    orders,
+  };
+}
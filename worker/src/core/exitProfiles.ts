@@ -0,0 +1,181 @@
+/**
+ * Exit Profiles
+ *
+ * Per-strategy (and optionally per-symbol) exit rules stored in exit_profiles.
+ * Each rule resolves, first match wins:
+ * 1. Active strategy + symbol profile
+ * 2. Active strategy-wide profile (symbol NULL)
+ * 3. Global CLOSE_RULE_* settings
+ * 4. Strategy plugin exitDefaults (profit target / stop loss) and config defaults
+ *
+ * Trades store the resolved rules (ExitProfileSnapshot) in trades.exit_profile at
+ * entry; evaluateCloseRules reads the snapshot, so editing a profile only changes
+ * trades opened afterwards. Trades without a snapshot resolve live.
+ */
+
+import type { Env } from '../env';
+import type { ExitProfileRow, TradeRow } from '../types';
+import { getApplicableExitProfiles } from '../db/queries';
+import { getExitRuleThresholds, type ExitRuleThresholds } from './config';
+import { getOptionalNumberSetting } from './settings';
+import { findStrategyPlugin } from '../strategy/registry';
+import { CREDIT_VERTICAL_RULES } from '../strategy/vertical';
+
+export interface ExitProfileSnapshot extends ExitRuleThresholds {
+  strategy: string | null;
+  symbol: string;
+  // Profile versions that contributed, strategy-wide first (empty = settings only)
+  sources: Array<{ id: string; symbol: string | null; version: number }>;
+  resolved_at: string;
+}
+
+// exit_profiles rule columns (everything except identity, versioning and notes)
+export type ExitProfileRuleColumn = Exclude<
+  keyof ExitProfileRow,
+  'id' | 'strategy' | 'symbol' | 'version' | 'active' | 'notes' | 'created_at'
+>;
+
+// Rule field ↔ exit_profiles column
+const PROFILE_COLUMNS: Array<[keyof ExitRuleThresholds, ExitProfileRuleColumn]> = [
+  ['profitTargetFraction', 'profit_target_fraction'],
+  ['stopLossFraction', 'stop_loss_fraction'],
+  ['trailArmProfitFraction', 'trail_arm_profit_fraction'],
+  ['trailGivebackFraction', 'trail_giveback_fraction'],
+  ['timeExitDteThreshold', 'time_exit_dte'],
+  ['timeExitCutoff', 'time_exit_cutoff'],
+  ['ivCrushThreshold', 'iv_crush_threshold'],
+  ['ivCrushMinPnL', 'iv_crush_min_pnl'],
+];
+
+/**
+ * Settings-level exit rules for a strategy (levels 3 and 4, no profiles)
+ *
+ * Profit target and stop loss default to the strategy plugin's exitDefaults
+ * (debit spreads 0.60 / 0.50, credit spreads 0.50 / 0.10).
+ */
+export async function loadSettingsExitRules(
+  env: Env,
+  strategy: string | null | undefined
+): Promise<ExitRuleThresholds> {
+  const thresholds = await getExitRuleThresholds(env);
+  const { exitDefaults } = findStrategyPlugin(strategy) ?? CREDIT_VERTICAL_RULES;
+
+  const profitTargetFraction = (await getOptionalNumberSetting(env, 'CLOSE_RULE_PROFIT_TARGET_FRACTION'))
+    ?? exitDefaults.profitTargetFraction;
+
+  // If the setting is negative (old pnl_fraction-based value), ignore it and use default
+  const stopLossSetting = await getOptionalNumberSetting(env, 'CLOSE_RULE_STOP_LOSS_FRACTION');
+  const stopLossFraction = stopLossSetting !== null && stopLossSetting >= 0
+    ? stopLossSetting
+    : exitDefaults.stopLossFraction;
+
+  return { ...thresholds, profitTargetFraction, stopLossFraction };
+}
+
+/**
+ * Overlay a profile row on resolved rules (NULL columns inherit)
+ */
+export function applyExitProfileRow(rules: ExitRuleThresholds, row: ExitProfileRow): ExitRuleThresholds {
+  const merged: ExitRuleThresholds = { ...rules };
+  for (const [field, column] of PROFILE_COLUMNS) {
+    const value = row[column];
+    if (value !== null && value !== undefined) {
+      (merged as unknown as Record<string, unknown>)[field] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Resolve the exit rules a new trade on strategy/symbol would get
+ */
+export async function resolveExitProfile(
+  env: Env,
+  strategy: string | null | undefined,
+  symbol: string
+): Promise<ExitProfileSnapshot> {
+  let rules = await loadSettingsExitRules(env, strategy);
+  const rows = strategy ? await getApplicableExitProfiles(env, strategy, symbol) : [];
+  for (const row of rows) {
+    rules = applyExitProfileRow(rules, row);
+  }
+  return {
+    ...rules,
+    strategy: strategy ?? null,
+    symbol,
+    sources: rows.map(row => ({ id: row.id, symbol: row.symbol, version: row.version })),
+    resolved_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Parse trades.exit_profile; null when missing or malformed
+ */
+export function parseExitProfileSnapshot(json: string | null | undefined): ExitProfileSnapshot | null {
+  if (!json) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(json) as Partial<ExitProfileSnapshot>;
+    const complete = PROFILE_COLUMNS.every(([field]) => parsed[field] !== undefined && parsed[field] !== null);
+    // Snapshots taken before timeExitDteMeasure existed measured calendar days
+    return complete ? ({ timeExitDteMeasure: 'CALENDAR', ...parsed } as ExitProfileSnapshot) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Exit rules for an open trade: its entry snapshot, or live resolution for trades without one
+ */
+export async function getTradeExitRules(env: Env, trade: TradeRow): Promise<ExitRuleThresholds> {
+  const snapshot = parseExitProfileSnapshot(trade.exit_profile);
+  if (snapshot) {
+    return snapshot;
+  }
+  if (trade.exit_profile) {
+    console.warn('[exitProfiles] invalid_snapshot', JSON.stringify({
+      trade_id: trade.id,
+      note: 'trades.exit_profile could not be parsed - resolving live',
+    }));
+  }
+  return resolveExitProfile(env, trade.strategy, trade.symbol);
+}
+
+/**
+ * Validate exit profile rule columns from the admin API (null = inherit)
+ *
+ * Returns a list of errors (empty when valid).
+ */
+export function validateExitProfileRules(
+  rules: Partial<Pick<ExitProfileRow, ExitProfileRuleColumn>>
+): string[] {
+  const errors: string[] = [];
+  const fraction = (column: keyof typeof rules, max: number) => {
+    const value = rules[column];
+    if (value === null || value === undefined) {
+      return;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > max) {
+      errors.push(`${column} must be a number in [0, ${max}]`);
+    }
+  };
+  fraction('profit_target_fraction', 5);
+  fraction('stop_loss_fraction', 1);
+  fraction('trail_arm_profit_fraction', 5);
+  fraction('trail_giveback_fraction', 1);
+  fraction('iv_crush_threshold', 1);
+  fraction('iv_crush_min_pnl', 5);
+
+  const dte = rules.time_exit_dte;
+  if (dte !== null && dte !== undefined && (!Number.isInteger(dte) || (dte as number) < 0)) {
+    errors.push('time_exit_dte must be a non-negative integer');
+  }
+  const cutoff = rules.time_exit_cutoff;
+  if (cutoff !== null && cutoff !== undefined && !/^([01]\d|2[0-3]):[0-5]\d$/.test(String(cutoff))) {
+    errors.push('time_exit_cutoff must be HH:MM (ET)');
+  }
+  return errors;
+}
+
+export const EXIT_PROFILE_RULE_COLUMNS: ExitProfileRuleColumn[] = PROFILE_COLUMNS.map(([, column]) => column);
@@ -0,0 +1,273 @@
+/**
+ * Portfolio Greeks
+ *
+ * Net Greeks of the book from portfolio_positions (per-contract greeks stored by the
+ * snapshot sync from the Tradier chain). Position Greeks are leg greek * 100 *
+ * quantity, negative for short legs:
+ * - delta: share-equivalents
+ * - gamma: change in share-equivalent delta per $1 underlying move
+ * - theta: $ per day
+ * - vega: $ per 1 vol point
+ *
+ * spy_weighted_delta expresses delta in SPY shares: delta * beta * price / SPY price.
+ * Snapshots use betas estimated from daily bars (core/beta.ts); symbols missing from
+ * the beta map count as 1.0.
+ *
+ * The monitor cycle records a snapshot each run (portfolio_greeks); the Greek risk
+ * gates in canOpenNewTrade read the latest one.
+ */
+
+import type { Env } from '../env';
+import type { BrokerClient, PortfolioPositionRow, PortfolioGreeksRow, TradeRow } from '../types';
+import { getAllPortfolioPositions, getOpenTrades, insertPortfolioGreeks } from '../db/queries';
+import { getOpenTradeWings } from '../strategy/registry';
+
+const CONTRACT_MULTIPLIER = 100;
+export const BETA_REFERENCE_SYMBOL = 'SPY';
+
+export interface GreekTotals {
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+}
+
+export interface SymbolGreeks extends GreekTotals {
+  symbol: string;
+  underlying_price: number | null;
+  beta: number;
+  spy_weighted_delta: number | null;
+}
+
+export interface TradeGreeks extends GreekTotals {
+  trade_id: string;
+  symbol: string;
+  strategy: string | null;
+  quantity: number;
+  legs_found: number;
+  legs_expected: number;
+}
+
+export interface PortfolioGreeks {
+  net: GreekTotals;
+  spy_weighted_delta: number | null;
+  positions: number;
+  missing_greeks: number;
+  by_symbol: SymbolGreeks[];
+  by_trade: TradeGreeks[];
+}
+
+export interface LegKey {
+  expiration: string;
+  option_type: 'call' | 'put';
+  strike: number;
+  side: 'long' | 'short';
+}
+
+function emptyTotals(): GreekTotals {
+  return { delta: 0, gamma: 0, theta: 0, vega: 0 };
+}
+
+function addTotals(target: GreekTotals, source: GreekTotals): void {
+  target.delta += source.delta;
+  target.gamma += source.gamma;
+  target.theta += source.theta;
+  target.vega += source.vega;
+}
+
+function roundTotals<T extends GreekTotals>(totals: T): T {
+  return {
+    ...totals,
+    delta: Math.round(totals.delta * 100) / 100,
+    gamma: Math.round(totals.gamma * 10000) / 10000,
+    theta: Math.round(totals.theta * 100) / 100,
+    vega: Math.round(totals.vega * 100) / 100,
+  };
+}
+
+/**
+ * Position Greeks of one leg (quantity defaults to the position's quantity)
+ */
+export function computeLegGreeks(
+  position: Pick<PortfolioPositionRow, 'side' | 'quantity' | 'delta' | 'gamma' | 'theta' | 'vega'>,
+  quantity: number = position.quantity
+): GreekTotals {
+  const multiplier = (position.side === 'long' ? 1 : -1) * quantity * CONTRACT_MULTIPLIER;
+  return {
+    delta: (position.delta ?? 0) * multiplier,
+    gamma: (position.gamma ?? 0) * multiplier,
+    theta: (position.theta ?? 0) * multiplier,
+    vega: (position.vega ?? 0) * multiplier,
+  };
+}
+
+/**
+ * Share-equivalent delta expressed in SPY shares
+ */
+export function computeSpyWeightedDelta(
+  delta: number,
+  underlyingPrice: number,
+  spyPrice: number,
+  beta: number = 1
+): number {
+  return spyPrice > 0 ? (delta * beta * underlyingPrice) / spyPrice : 0;
+}
+
+/**
+ * Option legs a trade holds (every open wing)
+ */
+export function getTradeLegs(trade: TradeRow): LegKey[] {
+  return getOpenTradeWings(trade).flatMap(wing => [
+    { expiration: wing.expiration, option_type: wing.optionType, strike: wing.short_strike, side: 'short' as const },
+    { expiration: wing.long_expiration, option_type: wing.optionType, strike: wing.long_strike, side: 'long' as const },
+  ]);
+}
+
+export function positionKey(symbol: string, leg: LegKey): string {
+  return `${symbol}:${leg.expiration}:${leg.option_type}:${leg.strike}:${leg.side}`;
+}
+
+/**
+ * Aggregate portfolio, per-underlying and per-trade Greeks
+ *
+ * prices: underlying last prices (SPY included for spy_weighted_delta).
+ * Per-trade Greeks use the trade's quantity on the matching portfolio legs.
+ */
+export function aggregatePortfolioGreeks(
+  positions: PortfolioPositionRow[],
+  trades: TradeRow[],
+  prices: Map<string, number>,
+  betas: Map<string, number> = new Map()
+): PortfolioGreeks {
+  const net = emptyTotals();
+  const bySymbol = new Map<string, GreekTotals>();
+  const byKey = new Map<string, PortfolioPositionRow>();
+  let missingGreeks = 0;
+
+  for (const position of positions) {
+    const legGreeks = computeLegGreeks(position);
+    if (position.delta == null) {
+      missingGreeks++;
+    }
+    addTotals(net, legGreeks);
+    const symbolTotals = bySymbol.get(position.symbol) ?? emptyTotals();
+    addTotals(symbolTotals, legGreeks);
+    bySymbol.set(position.symbol, symbolTotals);
+    byKey.set(positionKey(position.symbol, position), position);
+  }
+
+  const spyPrice = prices.get(BETA_REFERENCE_SYMBOL) ?? null;
+  let spyWeightedDelta: number | null = spyPrice !== null ? 0 : null;
+  const symbolGreeks: SymbolGreeks[] = [...bySymbol.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([symbol, totals]) => {
+      const underlyingPrice = prices.get(symbol) ?? null;
+      const beta = betas.get(symbol) ?? 1;
+      const weighted = spyPrice !== null && underlyingPrice !== null
+        ? computeSpyWeightedDelta(totals.delta, underlyingPrice, spyPrice, beta)
+        : null;
+      if (spyWeightedDelta !== null) {
+        // A symbol without a price makes the SPY-weighted total unknown
+        spyWeightedDelta = weighted !== null ? spyWeightedDelta + weighted : null;
+      }
+      return roundTotals({
+        ...totals,
+        symbol,
+        underlying_price: underlyingPrice,
+        beta,
+        spy_weighted_delta: weighted !== null ? Math.round(weighted * 100) / 100 : null,
+      });
+    });
+
+  const tradeGreeks: TradeGreeks[] = trades.map(trade => {
+    const totals = emptyTotals();
+    const legs = getTradeLegs(trade);
+    let found = 0;
+    for (const leg of legs) {
+      const position = byKey.get(positionKey(trade.symbol, leg));
+      if (position) {
+        found++;
+        addTotals(totals, computeLegGreeks(position, trade.quantity ?? 1));
+      }
+    }
+    return roundTotals({
+      ...totals,
+      trade_id: trade.id,
+      symbol: trade.symbol,
+      strategy: trade.strategy ?? null,
+      quantity: trade.quantity ?? 1,
+      legs_found: found,
+      legs_expected: legs.length,
+    });
+  });
+
+  return {
+    net: roundTotals(net),
+    spy_weighted_delta: spyWeightedDelta !== null ? Math.round(spyWeightedDelta * 100) / 100 : null,
+    positions: positions.length,
+    missing_greeks: missingGreeks,
+    by_symbol: symbolGreeks,
+    by_trade: tradeGreeks,
+  };
+}
+
+/**
+ * Compute portfolio Greeks from portfolio_positions and store a snapshot
+ *
+ * Called by the monitor cycle after the Tradier sync. Underlying quotes that fail
+ * are left out (their SPY-weighted delta is unknown).
+ */
+export async function recordPortfolioGreeks(
+  env: Env,
+  broker: Pick<BrokerClient, 'getUnderlyingQuote'>,
+  now: Date
+): Promise<PortfolioGreeksRow> {
+  const positions = await getAllPortfolioPositions(env);
+  const trades = await getOpenTrades(env);
+
+  const symbols = new Set(positions.map(p => p.symbol));
+  symbols.add(BETA_REFERENCE_SYMBOL);
+  const prices = new Map<string, number>();
+  for (const symbol of symbols) {
+    try {
+      const quote = await broker.getUnderlyingQuote(symbol);
+      if (quote.last > 0) {
+        prices.set(symbol, quote.last);
+      }
+    } catch (error) {
+      console.warn('[greeks] quote_failed', JSON.stringify({
+        symbol,
+        error: error instanceof Error ? error.message : String(error),
+      }));
+    }
+  }
+
+  const { getBetaEstimates, toBetaMap } = await import('./beta');
+  const betas = toBetaMap(await getBetaEstimates(env, [...symbols], now));
+  const greeks = aggregatePortfolioGreeks(positions, trades, prices, betas);
+  const asOf = now.toISOString();
+  const row: PortfolioGreeksRow = {
+    id: crypto.randomUUID(),
+    as_of: asOf,
+    net_delta: greeks.net.delta,
+    net_gamma: greeks.net.gamma,
+    net_theta: greeks.net.theta,
+    net_vega: greeks.net.vega,
+    spy_weighted_delta: greeks.spy_weighted_delta,
+    positions: greeks.positions,
+    missing_greeks: greeks.missing_greeks,
+    by_symbol: JSON.stringify(greeks.by_symbol),
+    by_trade: JSON.stringify(greeks.by_trade),
+    created_at: new Date().toISOString(),
+  };
+  await insertPortfolioGreeks(env, row);
+
+  console.log('[greeks][snapshot]', JSON.stringify({
+    net: greeks.net,
+    spy_weighted_delta: greeks.spy_weighted_delta,
+    positions: greeks.positions,
+    missing_greeks: greeks.missing_greeks,
+  }));
+
+  return row;
+}
@@ -0,0 +1,150 @@
+/**
+ * Technical Indicator Library
+ *
+ * Pure functions over daily bars / closes in chronological order (oldest first):
+ * - SMA / EMA of any length
+ * - ATR (Wilder)
+ * - RSI (Wilder)
+ * - Bollinger band width
+ * - Momentum (rate of change)
+ *
+ * Each returns null when there is not enough history for the requested period.
+ * This module must be a pure function library (no DB, no network); live callers
+ * read bars from the daily bar store (core/dailyBars.ts).
+ */
+
+export interface IndicatorBar {
+  close: number;
+  high?: number | null;
+  low?: number | null;
+}
+
+function validPeriod(period: number): boolean {
+  return Number.isInteger(period) && period >= 1;
+}
+
+/**
+ * Simple moving average of the last `period` values
+ */
+export function sma(values: number[], period: number): number | null {
+  if (!validPeriod(period) || values.length < period) {
+    return null;
+  }
+  const recent = values.slice(-period);
+  return recent.reduce((acc, v) => acc + v, 0) / period;
+}
+
+/**
+ * Exponential moving average (alpha = 2 / (period + 1)), seeded with the SMA of the
+ * first `period` values
+ */
+export function ema(values: number[], period: number): number | null {
+  if (!validPeriod(period) || values.length < period) {
+    return null;
+  }
+  const alpha = 2 / (period + 1);
+  let value = values.slice(0, period).reduce((acc, v) => acc + v, 0) / period;
+  for (let i = period; i < values.length; i++) {
+    value = alpha * values[i] + (1 - alpha) * value;
+  }
+  return value;
+}
+
+/**
+ * Average True Range (Wilder smoothing), in price units
+ *
+ * True range = max(high - low, |high - prev close|, |low - prev close|).
+ * Needs period + 1 bars with high/low.
+ */
+export function atr(bars: IndicatorBar[], period: number): number | null {
+  const valid = bars.filter(b => b.high != null && b.low != null && b.high >= b.low);
+  if (!validPeriod(period) || valid.length < period + 1) {
+    return null;
+  }
+
+  const trueRanges: number[] = [];
+  for (let i = 1; i < valid.length; i++) {
+    const high = valid[i].high!;
+    const low = valid[i].low!;
+    const prevClose = valid[i - 1].close;
+    trueRanges.push(Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose)));
+  }
+
+  let value = trueRanges.slice(0, period).reduce((acc, tr) => acc + tr, 0) / period;
+  for (let i = period; i < trueRanges.length; i++) {
+    value = (value * (period - 1) + trueRanges[i]) / period;
+  }
+  return value;
+}
+
+/**
+ * Relative Strength Index (Wilder smoothing), 0-100
+ *
+ * Needs period + 1 closes. Returns 100 when there were no down moves.
+ */
+export function rsi(closes: number[], period: number = 14): number | null {
+  if (!validPeriod(period) || closes.length < period + 1) {
+    return null;
+  }
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain += Math.max(change, 0);
+    avgLoss += Math.max(-change, 0);
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+
+  if (avgLoss === 0) {
+    return 100;
+  }
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+/**
+ * Bollinger band width: (upper - lower) / middle, with bands at middle ± k * stddev
+ *
+ * Uses the population standard deviation of the last `period` closes.
+ */
+export function bollingerWidth(closes: number[], period: number = 20, k: number = 2): number | null {
+  const middle = sma(closes, period);
+  if (middle === null || middle === 0) {
+    return null;
+  }
+  const recent = closes.slice(-period);
+  const variance = recent.reduce((acc, c) => acc + (c - middle) ** 2, 0) / period;
+  return (2 * k * Math.sqrt(variance)) / middle;
+}
+
+/**
+ * Momentum as rate of change over `period` bars: close_now / close_period_ago - 1
+ */
+export function momentum(closes: number[], period: number): number | null {
+  if (!validPeriod(period) || closes.length < period + 1) {
+    return null;
+  }
+  const past = closes[closes.length - 1 - period];
+  if (!(past > 0)) {
+    return null;
+  }
+  return closes[closes.length - 1] / past - 1;
+}
+
+/**
+ * Percentile rank of `value` within `history`: fraction of observations at or below it, 0-1
+ */
+export function percentileRank(history: number[], value: number): number | null {
+  const valid = history.filter(v => Number.isFinite(v));
+  if (valid.length === 0 || !Number.isFinite(value)) {
+    return null;
+  }
+  return valid.filter(v => v <= value).length / valid.length;
+}
@@ -0,0 +1,102 @@
+/**
+ * Iron Condor Wings
+ *
+ * An IRON_CONDOR trade/proposal is a put credit wing plus a call credit wing on the
+ * same expiration:
+ * - Put wing (BULL_PUT_CREDIT shape): short_strike / long_strike
+ * - Call wing (BEAR_CALL_CREDIT shape): call_short_strike / call_long_strike
+ *
+ * entry_price is the combined credit; both wings share `width`, so max loss is
+ * width - credit (only one wing can finish in the money).
+ *
+ * A single wing can be closed on its own (WING_DEFENSE). The trade then stays OPEN
+ * with closed_wing set and the debit paid for that wing in wing_exit_price.
+ *
+ * The IRON_CONDOR plugin exposes the wings through getTradeWings, so vertical code
+ * (leg lookups, invariants, exits) works one wing at a time through wingAsVertical.
+ */
+
+import type { TradeRow, CondorWing } from '../types';
+import type { StrategyWing } from '../strategy/types';
+
+type CondorStrikes = Pick<TradeRow, 'expiration' | 'short_strike' | 'long_strike'> &
+  Partial<Pick<TradeRow, 'call_short_strike' | 'call_long_strike'>>;
+
+function isIronCondor(strategy: string | null | undefined): boolean {
+  return strategy === 'IRON_CONDOR';
+}
+
+/**
+ * Both wings of a condor (put first)
+ *
+ * Throws if the call wing strikes are missing - a condor without them is corrupt.
+ */
+export function getCondorWings(row: CondorStrikes): StrategyWing[] {
+  if (row.call_short_strike == null || row.call_long_strike == null) {
+    throw new Error('IRON_CONDOR is missing call wing strikes (call_short_strike/call_long_strike)');
+  }
+  return [
+    {
+      wing: 'PUT',
+      optionType: 'put',
+      strategy: 'BULL_PUT_CREDIT',
+      short_strike: row.short_strike,
+      long_strike: row.long_strike,
+      expiration: row.expiration,
+      long_expiration: row.expiration,
+    },
+    {
+      wing: 'CALL',
+      optionType: 'call',
+      strategy: 'BEAR_CALL_CREDIT',
+      short_strike: row.call_short_strike,
+      long_strike: row.call_long_strike,
+      expiration: row.expiration,
+      long_expiration: row.expiration,
+    },
+  ];
+}
+
+/**
+ * View one wing of a condor trade as a vertical credit spread
+ *
+ * entry_price is not split per wing (the fill is a single net credit), so the
+ * view carries no prices - use it for strikes, option type and leg lookups only.
+ */
+export function wingAsVertical(trade: TradeRow, wing: StrategyWing): TradeRow {
+  return {
+    ...trade,
+    strategy: wing.strategy,
+    short_strike: wing.short_strike,
+    long_strike: wing.long_strike,
+    call_short_strike: null,
+    call_long_strike: null,
+    entry_price: null,
+    exit_price: null,
+    max_profit: null,
+    max_loss: null,
+  };
+}
+
+/**
+ * Threatened wing: the underlying is at or through a short strike, or within
+ * `buffer` (fraction of the strike) of it. Returns null while price is safely
+ * between the shorts or when only one wing is left open.
+ */
+export function findThreatenedWing(
+  trade: TradeRow,
+  underlyingPrice: number,
+  buffer: number
+): CondorWing | null {
+  if (!isIronCondor(trade.strategy) || trade.closed_wing || !(underlyingPrice > 0)) {
+    return null;
+  }
+  const [put, call] = getCondorWings(trade);
+  if (underlyingPrice <= put.short_strike * (1 + buffer)) {
+    return 'PUT';
+  }
+  if (underlyingPrice >= call.short_strike * (1 - buffer)) {
+    return 'CALL';
+  }
+  return null;
+}
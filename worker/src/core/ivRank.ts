@@ -0,0 +1,214 @@
+/**
+ * IV Rank Utilities
+ *
+ * 52-week IV Rank / IV percentile from the iv_history table.
+ *
+ * - captureATM30DayIV: ATM 30-day IV from the two Friday expirations bracketing 30 DTE
+ *   (total-variance interpolation). Used by the IV history cron and for IV_now in proposals.
+ * - getIVRank: ranks IV_now against stored history, applying the fallback policy from
+ *   getIVRankConfig when history is short.
+ */
+
+import type { Env } from '../env';
+import type { BrokerClient } from '../types';
+import { getIVHistory } from '../db/queries';
+import { getIVRankConfig } from './config';
+import type { IVRFallbackPolicy } from './config';
+import { computeDTE, getETDateString } from './time';
+import {
+  computeIVR,
+  computeIVPercentile,
+  computeATMImpliedVol,
+  computeConstantMaturityIV,
+} from './metrics';
+
+// IVR used when history is unavailable (matches the old placeholder, passes the IVR sanity band)
+export const NEUTRAL_IVR = 0.5;
+
+// Below this many samples PARTIAL_HISTORY still falls back to NEUTRAL
+const PARTIAL_HISTORY_MIN_SAMPLES = 10;
+
+const TARGET_DTE = 30;
+
+export interface ATM30DayIV {
+  iv_30d: number;
+  underlying_price: number;
+  near_expiration: string | null;
+  far_expiration: string | null;
+}
+
+export type IVRankSource = 'HISTORY' | 'PARTIAL_HISTORY' | 'FALLBACK';
+
+export interface IVRankResult {
+  ivr: number;                     // 0-1
+  iv_percentile: number | null;    // 0-1, null without history
+  iv_now: number | null;
+  iv_min: number | null;
+  iv_max: number | null;
+  samples: number;
+  source: IVRankSource;
+}
+
+/**
+ * Friday expirations bracketing the target DTE: the last one at or below it
+ * (at least 7 DTE) and the first one above it
+ */
+function getBracketingFridays(now: Date): string[] {
+  const fridays: Array<{ expiration: string; dte: number }> = [];
+  const cursor = new Date(now);
+  cursor.setDate(cursor.getDate() + ((5 - cursor.getDay() + 7) % 7));
+  for (let i = 0; i < 10; i++) {
+    const expiration = cursor.toISOString().split('T')[0];
+    fridays.push({ expiration, dte: computeDTE(expiration, now) });
+    cursor.setDate(cursor.getDate() + 7);
+  }
+
+  const near = [...fridays].reverse().find(f => f.dte <= TARGET_DTE && f.dte >= 7);
+  const far = fridays.find(f => f.dte > TARGET_DTE);
+  return [near, far].filter((f): f is { expiration: string; dte: number } => !!f).map(f => f.expiration);
+}
+
+/**
+ * Capture ATM 30-day IV for a symbol
+ *
+ * Returns null if neither bracketing expiration has a usable chain.
+ */
+export async function captureATM30DayIV(
+  broker: BrokerClient,
+  symbol: string,
+  now: Date
+): Promise<ATM30DayIV | null> {
+  const quote = await broker.getUnderlyingQuote(symbol);
+  if (!quote.last || quote.last <= 0) {
+    return null;
+  }
+
+  const points: Array<{ expiration: string; dte: number; iv: number }> = [];
+  for (const expiration of getBracketingFridays(now)) {
+    try {
+      const chain = await broker.getOptionChain(symbol, expiration);
+      const iv = computeATMImpliedVol(chain, quote.last);
+      if (iv !== null) {
+        points.push({ expiration, dte: computeDTE(expiration, now), iv });
+      }
+    } catch (error) {
+      console.log('[ivr][capture][chain_error]', JSON.stringify({
+        symbol,
+        expiration,
+        error: error instanceof Error ? error.message : String(error),
+      }));
+    }
+  }
+
+  if (points.length === 0) {
+    return null;
+  }
+
+  const iv_30d = computeConstantMaturityIV(points, TARGET_DTE);
+  if (!Number.isFinite(iv_30d) || iv_30d <= 0) {
+    return null;
+  }
+
+  return {
+    iv_30d,
+    underlying_price: quote.last,
+    near_expiration: points[0].expiration,
+    far_expiration: points.length > 1 ? points[points.length - 1].expiration : null,
+  };
+}
+
+function fallbackResult(ivNow: number | null, samples: number): IVRankResult {
+  return {
+    ivr: NEUTRAL_IVR,
+    iv_percentile: null,
+    iv_now: ivNow,
+    iv_min: null,
+    iv_max: null,
+    samples,
+    source: 'FALLBACK',
+  };
+}
+
+/**
+ * Rank IV_now against stored history (pure)
+ *
+ * The range includes IV_now so a new 52-week high/low ranks as 1/0 instead of
+ * being rejected as out of range by computeIVR.
+ */
+export function rankIVAgainstHistory(
+  ivNow: number | null,
+  history: number[],
+  minHistoryDays: number,
+  fallbackPolicy: IVRFallbackPolicy
+): IVRankResult {
+  if (ivNow === null || !Number.isFinite(ivNow) || ivNow <= 0) {
+    return fallbackResult(null, history.length);
+  }
+
+  let source: IVRankSource = 'HISTORY';
+  if (history.length < minHistoryDays) {
+    if (fallbackPolicy !== 'PARTIAL_HISTORY' || history.length < PARTIAL_HISTORY_MIN_SAMPLES) {
+      return fallbackResult(ivNow, history.length);
+    }
+    source = 'PARTIAL_HISTORY';
+  }
+
+  const iv_min = Math.min(ivNow, ...history);
+  const iv_max = Math.max(ivNow, ...history);
+  const ivr = computeIVR({ iv_now: ivNow, iv_min_52w: iv_min, iv_max_52w: iv_max });
+  if (!Number.isFinite(ivr)) {
+    // Degenerate range (flat history)
+    return fallbackResult(ivNow, history.length);
+  }
+
+  return {
+    ivr,
+    iv_percentile: computeIVPercentile({ iv_now: ivNow, history }),
+    iv_now: ivNow,
+    iv_min,
+    iv_max,
+    samples: history.length,
+    source,
+  };
+}
+
+/**
+ * Get IV Rank for a symbol
+ *
+ * History excludes today's row so a capture earlier in the day doesn't rank against itself.
+ */
+export async function getIVRank(
+  env: Env,
+  symbol: string,
+  ivNow: number | null,
+  now: Date
+): Promise<IVRankResult> {
+  const config = await getIVRankConfig(env);
+  const today = getETDateString(now);
+  const since = new Date(now);
+  since.setDate(since.getDate() - config.lookbackDays);
+
+  let history: number[] = [];
+  try {
+    const rows = await getIVHistory(env, symbol, getETDateString(since));
+    history = rows.filter(r => r.date !== today).map(r => r.iv_30d);
+  } catch (error) {
+    console.warn('[ivr] failed to load IV history', JSON.stringify({
+      symbol,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+  }
+
+  const result = rankIVAgainstHistory(ivNow, history, config.minHistoryDays, config.fallbackPolicy);
+  if (result.source === 'FALLBACK') {
+    console.log('[ivr][fallback]', JSON.stringify({
+      symbol,
+      iv_now: ivNow,
+      samples: history.length,
+      min_history_days: config.minHistoryDays,
+      policy: config.fallbackPolicy,
+      ivr: result.ivr,
+    }));
+  }
+  return result;
+}
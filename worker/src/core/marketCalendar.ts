@@ -0,0 +1,326 @@
+/**
+ * Market Calendar
+ *
+ * NYSE holidays and early closes, rule-based so it works for any year, plus an
+ * admin override list (MARKET_CALENDAR_OVERRIDES) for ad-hoc closures such as a
+ * national day of mourning.
+ *
+ * Holidays (weekend dates observed on the nearest weekday; a Saturday New Year's
+ * Day is not observed): New Year's Day, Martin Luther King Jr. Day, Washington's
+ * Birthday, Good Friday, Memorial Day, Juneteenth (from 2022), Independence Day,
+ * Labor Day, Thanksgiving, Christmas.
+ * Early closes (13:00 ET): July 3, the day after Thanksgiving and Christmas Eve,
+ * when they are trading days.
+ *
+ * Dates are ET calendar dates (YYYY-MM-DD); callers convert with getETDateString.
+ * Overrides are loaded once per request / cron run by loadMarketCalendarOverrides
+ * and then read synchronously.
+ */
+
+import type { Env } from '../env';
+import { getSetting } from '../db/queries';
+
+export const REGULAR_OPEN_MINUTES = 9 * 60 + 30;   // 09:30 ET
+export const REGULAR_CLOSE_MINUTES = 16 * 60;      // 16:00 ET
+export const EARLY_CLOSE_MINUTES = 13 * 60;        // 13:00 ET
+
+export interface MarketSession {
+  date: string;                 // ET date, YYYY-MM-DD
+  tradingDay: boolean;
+  openMinutes: number;          // minutes after midnight ET
+  closeMinutes: number;
+  earlyClose: boolean;
+  reason: string | null;        // holiday / early close name, 'Weekend', or the override note
+  source: 'REGULAR' | 'WEEKEND' | 'RULE' | 'OVERRIDE';
+}
+
+/**
+ * Admin override for one date
+ * - CLOSED: no session (ad-hoc closure)
+ * - EARLY_CLOSE: session closes at closeMinutes
+ * - OPEN: regular full session even if a rule says otherwise
+ */
+export interface MarketCalendarOverride {
+  date: string;
+  type: 'CLOSED' | 'EARLY_CLOSE' | 'OPEN';
+  closeMinutes?: number;
+}
+
+let calendarOverrides = new Map<string, MarketCalendarOverride>();
+
+function toDateString(year: number, month: number, day: number): string {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.toISOString().split('T')[0];
+}
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function addDays(date: string, days: number): string {
+  const d = parseDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+function dayOfWeek(date: string): number {
+  return parseDate(date).getUTCDay(); // 0 = Sunday, 6 = Saturday
+}
+
+/**
+ * nth weekday of a month (n = -1 for the last one)
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n > 0) {
+    const firstDow = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    const day = 1 + ((weekday - firstDow + 7) % 7) + (n - 1) * 7;
+    return toDateString(year, month, day);
+  }
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const lastDow = new Date(Date.UTC(year, month - 1, lastDay)).getUTCDay();
+  return toDateString(year, month, lastDay - ((lastDow - weekday + 7) % 7));
+}
+
+/**
+ * Easter Sunday (anonymous Gregorian algorithm)
+ */
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toDateString(year, month, day);
+}
+
+/**
+ * Fixed-date holiday moved off the weekend (Saturday → Friday, Sunday → Monday)
+ */
+function observed(date: string): string {
+  const dow = dayOfWeek(date);
+  if (dow === 6) return addDays(date, -1);
+  if (dow === 0) return addDays(date, 1);
+  return date;
+}
+
+/**
+ * NYSE holidays for a year, keyed by date
+ */
+export function getNyseHolidays(year: number): Map<string, string> {
+  const holidays = new Map<string, string>();
+
+  // New Year's Day: a Saturday holiday is not moved back into the prior year
+  const newYears = toDateString(year, 1, 1);
+  if (dayOfWeek(newYears) !== 6) {
+    holidays.set(observed(newYears), "New Year's Day");
+  }
+  holidays.set(nthWeekday(year, 1, 1, 3), 'Martin Luther King Jr. Day');
+  holidays.set(nthWeekday(year, 2, 1, 3), "Washington's Birthday");
+  holidays.set(addDays(easterSunday(year), -2), 'Good Friday');
+  holidays.set(nthWeekday(year, 5, 1, -1), 'Memorial Day');
+  if (year >= 2022) {
+    holidays.set(observed(toDateString(year, 6, 19)), 'Juneteenth');
+  }
+  holidays.set(observed(toDateString(year, 7, 4)), 'Independence Day');
+  holidays.set(nthWeekday(year, 9, 1, 1), 'Labor Day');
+  holidays.set(nthWeekday(year, 11, 4, 4), 'Thanksgiving Day');
+  holidays.set(observed(toDateString(year, 12, 25)), 'Christmas Day');
+
+  return holidays;
+}
+
+/**
+ * NYSE early closes (13:00 ET) for a year, keyed by date
+ */
+export function getNyseEarlyCloses(year: number): Map<string, string> {
+  const holidays = getNyseHolidays(year);
+  const candidates: Array<[string, string]> = [
+    [toDateString(year, 7, 3), 'Independence Day Eve'],
+    [addDays(nthWeekday(year, 11, 4, 4), 1), 'Day after Thanksgiving'],
+    [toDateString(year, 12, 24), 'Christmas Eve'],
+  ];
+
+  const earlyCloses = new Map<string, string>();
+  for (const [date, name] of candidates) {
+    const dow = dayOfWeek(date);
+    if (dow >= 1 && dow <= 5 && !holidays.has(date)) {
+      earlyCloses.set(date, name);
+    }
+  }
+  return earlyCloses;
+}
+
+/**
+ * Trading session for an ET date (YYYY-MM-DD)
+ */
+export function getMarketSession(date: string): MarketSession {
+  const regular: MarketSession = {
+    date,
+    tradingDay: true,
+    openMinutes: REGULAR_OPEN_MINUTES,
+    closeMinutes: REGULAR_CLOSE_MINUTES,
+    earlyClose: false,
+    reason: null,
+    source: 'REGULAR',
+  };
+
+  const override = calendarOverrides.get(date);
+  if (override) {
+    if (override.type === 'OPEN') {
+      return { ...regular, reason: 'Override: open', source: 'OVERRIDE' };
+    }
+    if (override.type === 'CLOSED') {
+      return { ...regular, tradingDay: false, reason: 'Override: closed', source: 'OVERRIDE' };
+    }
+    return {
+      ...regular,
+      closeMinutes: override.closeMinutes ?? EARLY_CLOSE_MINUTES,
+      earlyClose: true,
+      reason: 'Override: early close',
+      source: 'OVERRIDE',
+    };
+  }
+
+  const dow = dayOfWeek(date);
+  if (dow === 0 || dow === 6) {
+    return { ...regular, tradingDay: false, reason: 'Weekend', source: 'WEEKEND' };
+  }
+
+  const year = parseInt(date.slice(0, 4), 10);
+  const holiday = getNyseHolidays(year).get(date);
+  if (holiday) {
+    return { ...regular, tradingDay: false, reason: holiday, source: 'RULE' };
+  }
+
+  const earlyClose = getNyseEarlyCloses(year).get(date);
+  if (earlyClose) {
+    return { ...regular, closeMinutes: EARLY_CLOSE_MINUTES, earlyClose: true, reason: earlyClose, source: 'RULE' };
+  }
+
+  return regular;
+}
+
+/**
+ * Last trading day on or before an ET date
+ *
+ * Options expiring on a holiday (e.g. Good Friday) expire the trading day before.
+ */
+export function getLastTradingDayOnOrBefore(date: string): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || Number.isNaN(parseDate(date).getTime())) {
+    return date; // Callers handle invalid dates (computeDTE returns -1)
+  }
+  let current = date;
+  for (let i = 0; i < 10; i++) {
+    if (getMarketSession(current).tradingDay) {
+      return current;
+    }
+    current = addDays(current, -1);
+  }
+  return date;
+}
+
+/**
+ * Number of trading sessions after `fromDate` up to and including `toDate`
+ */
+export function countTradingSessions(fromDate: string, toDate: string): number {
+  let count = 0;
+  for (let current = addDays(fromDate, 1); current <= toDate; current = addDays(current, 1)) {
+    if (getMarketSession(current).tradingDay) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Non-regular sessions (holidays, early closes, overrides) from an ET date onward
+ */
+export function getUpcomingCalendarEvents(fromDate: string, days: number): MarketSession[] {
+  const events: MarketSession[] = [];
+  for (let i = 0; i < days; i++) {
+    const session = getMarketSession(addDays(fromDate, i));
+    if (session.source === 'RULE' || session.source === 'OVERRIDE') {
+      events.push(session);
+    }
+  }
+  return events;
+}
+
+/**
+ * Parse MARKET_CALENDAR_OVERRIDES
+ *
+ * Comma-separated entries:
+ * - `2025-01-09`        closed all day
+ * - `2025-01-09@13:00`  early close at 13:00 ET
+ * - `2025-01-09@OPEN`   regular full session
+ */
+export function parseMarketCalendarOverrides(value: string | null | undefined): {
+  overrides: MarketCalendarOverride[];
+  errors: string[];
+} {
+  const overrides: MarketCalendarOverride[] = [];
+  const errors: string[] = [];
+
+  for (const raw of (value ?? '').split(',')) {
+    const entry = raw.trim();
+    if (!entry) {
+      continue;
+    }
+    const match = entry.match(/^(\d{4}-\d{2}-\d{2})(?:@(OPEN|([01]\d|2[0-3]):([0-5]\d)))?$/i);
+    if (!match || toDateString(
+      parseInt(match[1].slice(0, 4), 10),
+      parseInt(match[1].slice(5, 7), 10),
+      parseInt(match[1].slice(8, 10), 10)
+    ) !== match[1]) {
+      errors.push(`Invalid override: ${entry}`);
+      continue;
+    }
+    const [, date, modifier, hours, minutes] = match;
+    if (!modifier) {
+      overrides.push({ date, type: 'CLOSED' });
+    } else if (modifier.toUpperCase() === 'OPEN') {
+      overrides.push({ date, type: 'OPEN' });
+    } else {
+      overrides.push({ date, type: 'EARLY_CLOSE', closeMinutes: parseInt(hours, 10) * 60 + parseInt(minutes, 10) });
+    }
+  }
+
+  return { overrides, errors };
+}
+
+export function setMarketCalendarOverrides(overrides: MarketCalendarOverride[]): void {
+  calendarOverrides = new Map(overrides.map(override => [override.date, override]));
+}
+
+export function getMarketCalendarOverrides(): MarketCalendarOverride[] {
+  return [...calendarOverrides.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Load MARKET_CALENDAR_OVERRIDES into the calendar
+ *
+ * Called at the start of every request and cron run. On failure the previously
+ * loaded overrides stay in place.
+ */
+export async function loadMarketCalendarOverrides(env: Env): Promise<void> {
+  try {
+    const { overrides, errors } = parseMarketCalendarOverrides(await getSetting(env, 'MARKET_CALENDAR_OVERRIDES'));
+    if (errors.length > 0) {
+      console.warn('[marketCalendar] invalid_overrides', JSON.stringify({ errors }));
+    }
+    setMarketCalendarOverrides(overrides);
+  } catch (error) {
+    console.error('[marketCalendar] load_overrides_failed', JSON.stringify({
+      error: error instanceof Error ? error.message : String(error),
+    }));
+  }
+}
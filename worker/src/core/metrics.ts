@@ -4,6 +4,7 @@
  * Pure function library for computing market metrics:
  * - DTE calculation
  * - IVR calculation
+ * - Realized volatility (close-to-close, Parkinson)
  * - RV/IV ratio
  * - Vertical skew
  * - Term structure skew
@@ -57,6 +58,88 @@ export function computeIVR(params: {
   return ivr;
 }
 
+/**
+ * Compute IV Percentile
+ *
+ * Fraction of historical observations strictly below IV_now, in [0, 1].
+ * Less sensitive to single spikes than IVR (which only uses the range extremes).
+ *
+ * Returns NaN if history is empty.
+ */
+export function computeIVPercentile(params: {
+  iv_now: number;
+  history: number[];
+}): number {
+  const { iv_now, history } = params;
+
+  if (history.length === 0) {
+    return NaN;
+  }
+
+  const below = history.filter(iv => iv < iv_now).length;
+  return below / history.length;
+}
+
+/**
+ * Compute ATM implied volatility for one expiration
+ *
+ * Uses the strike closest to the underlying price and averages the call and put IV
+ * at that strike (whichever are available).
+ *
+ * Returns null if no option near the money has an IV.
+ */
+export function computeATMImpliedVol(
+  chain: Array<{ strike: number; implied_volatility: number | null }>,
+  underlying_price: number
+): number | null {
+  const withIv = chain.filter(
+    o => o.implied_volatility != null && Number.isFinite(o.implied_volatility) && o.implied_volatility > 0
+  );
+  if (withIv.length === 0) {
+    return null;
+  }
+
+  const atmStrike = withIv.reduce(
+    (best, o) => (Math.abs(o.strike - underlying_price) < Math.abs(best - underlying_price) ? o.strike : best),
+    withIv[0].strike
+  );
+  const atAtm = withIv.filter(o => o.strike === atmStrike).map(o => o.implied_volatility as number);
+  return atAtm.reduce((acc, iv) => acc + iv, 0) / atAtm.length;
+}
+
+/**
+ * Compute constant-maturity IV (e.g. 30-day) from ATM IVs at listed expirations
+ *
+ * Interpolates total variance (IV^2 * T) between the expirations bracketing the
+ * target DTE. Outside the listed range, the nearest expiration's IV is used as-is.
+ *
+ * Returns NaN if no points are given.
+ */
+export function computeConstantMaturityIV(
+  points: Array<{ dte: number; iv: number }>,
+  target_dte: number = 30
+): number {
+  const sorted = points.filter(p => p.dte > 0 && Number.isFinite(p.iv)).sort((a, b) => a.dte - b.dte);
+  if (sorted.length === 0) {
+    return NaN;
+  }
+
+  const below = [...sorted].reverse().find(p => p.dte <= target_dte);
+  const above = sorted.find(p => p.dte >= target_dte);
+  if (!below || !above) {
+    return (below ?? above)!.iv;
+  }
+  if (below.dte === above.dte) {
+    return below.iv;
+  }
+
+  const weight = (above.dte - target_dte) / (above.dte - below.dte);
+  const variance =
+    weight * below.iv * below.iv * below.dte +
+    (1 - weight) * above.iv * above.iv * above.dte;
+  return Math.sqrt(variance / target_dte);
+}
+
 /**
  * Compute Vertical Skew
  * 
@@ -218,3 +301,59 @@ export function isRVIVRatioValid(rv_30d: number, iv_30d: number): boolean {
   return !isNaN(ratio) && ratio >= 1.20;
 }
 
+
+// Trading days per year used to annualize daily volatility
+export const TRADING_DAYS_PER_YEAR = 252;
+
+/**
+ * Compute close-to-close realized volatility (annualized)
+ * 
+ * Sample standard deviation of the last `window` daily log returns, times sqrt(252).
+ * `closes` must be in chronological order (oldest first).
+ * 
+ * Returns NaN if there are fewer than window + 1 closes or any close is non-positive.
+ */
+export function computeCloseToCloseRV(closes: number[], window: number): number {
+  if (window < 2 || closes.length < window + 1) {
+    return NaN;
+  }
+  
+  const recent = closes.slice(-(window + 1));
+  if (recent.some(c => !(c > 0))) {
+    return NaN;
+  }
+  
+  const returns: number[] = [];
+  for (let i = 1; i < recent.length; i++) {
+    returns.push(Math.log(recent[i] / recent[i - 1]));
+  }
+  
+  const mean = returns.reduce((acc, r) => acc + r, 0) / returns.length;
+  const variance = returns.reduce((acc, r) => acc + (r - mean) ** 2, 0) / (returns.length - 1);
+  
+  return Math.sqrt(variance * TRADING_DAYS_PER_YEAR);
+}
+
+/**
+ * Compute Parkinson (high-low range) realized volatility (annualized)
+ * 
+ * sigma^2 = (1 / (4 ln 2)) * mean(ln(H/L)^2) over the last `window` bars, times 252.
+ * More efficient than close-to-close but blind to overnight gaps.
+ * `bars` must be in chronological order (oldest first).
+ * 
+ * Returns NaN if fewer than `window` bars have a valid high/low.
+ */
+export function computeParkinsonRV(
+  bars: Array<{ high?: number | null; low?: number | null }>,
+  window: number
+): number {
+  const valid = bars.filter(b => b.high != null && b.low != null && b.low > 0 && b.high >= b.low);
+  if (window < 1 || valid.length < window) {
+    return NaN;
+  }
+  
+  const recent = valid.slice(-window);
+  const sumSq = recent.reduce((acc, b) => acc + Math.log(b.high! / b.low!) ** 2, 0);
+  
+  return Math.sqrt((sumSq / recent.length / (4 * Math.LN2)) * TRADING_DAYS_PER_YEAR);
+}
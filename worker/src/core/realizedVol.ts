@@ -0,0 +1,125 @@
+/**
+ * Realized Volatility
+ *
+ * Computes close-to-close and Parkinson RV per symbol over the windows from
+ * getRealizedVolConfig, using daily bars from the daily bar store (refreshed premarket),
+ * so the per-minute proposal cycle makes no history calls.
+ */
+
+import type { Env } from '../env';
+import { getRealizedVolConfig } from './config';
+import type { RealizedVolMethod } from './config';
+import { getETDateString } from './time';
+import { computeCloseToCloseRV, computeParkinsonRV } from './metrics';
+import { loadDailyBars } from './dailyBars';
+
+export interface RealizedVolWindow {
+  window: number;                  // trading days
+  close_to_close: number | null;   // annualized, null if not enough history
+  parkinson: number | null;        // annualized, null without high/low data
+}
+
+export interface RealizedVolSnapshot {
+  symbol: string;
+  date: string;                    // ET date of the computation
+  windows: RealizedVolWindow[];
+  rv_30d: number | null;           // gate window value using gate method
+  rv_30d_close_to_close: number | null;
+  rv_30d_parkinson: number | null;
+  gate_window: number;
+  gate_method: RealizedVolMethod;
+  bars: number;
+}
+
+function finiteOrNull(value: number): number | null {
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Build an RV snapshot from daily bars (pure, bars oldest first)
+ *
+ * Only bars strictly before `date` are used, so a partial intraday bar never leaks in.
+ */
+export function buildRealizedVolSnapshot(
+  symbol: string,
+  date: string,
+  bars: Array<{ date: string; close: number; high?: number | null; low?: number | null }>,
+  windows: number[],
+  gateWindow: number,
+  gateMethod: RealizedVolMethod
+): RealizedVolSnapshot {
+  const completed = bars.filter(b => b.date < date).sort((a, b) => a.date.localeCompare(b.date));
+  const closes = completed.map(b => b.close);
+
+  const computed: RealizedVolWindow[] = windows.map(window => ({
+    window,
+    close_to_close: finiteOrNull(computeCloseToCloseRV(closes, window)),
+    parkinson: finiteOrNull(computeParkinsonRV(completed, window)),
+  }));
+
+  const gate = computed.find(w => w.window === gateWindow);
+  const closeToClose = gate?.close_to_close ?? null;
+  const parkinson = gate?.parkinson ?? null;
+  // Parkinson needs high/low; fall back to close-to-close rather than dropping RV entirely
+  const rv_30d = gateMethod === 'PARKINSON' ? (parkinson ?? closeToClose) : closeToClose;
+
+  return {
+    symbol,
+    date,
+    windows: computed,
+    rv_30d,
+    rv_30d_close_to_close: closeToClose,
+    rv_30d_parkinson: parkinson,
+    gate_window: gateWindow,
+    gate_method: gateMethod,
+    bars: completed.length,
+  };
+}
+
+/**
+ * Get realized volatility for a symbol from stored daily bars
+ *
+ * Returns null if the bar store can't be read. Individual windows are null when
+ * history is too short for them.
+ */
+export async function getRealizedVol(
+  env: Env,
+  symbol: string,
+  now: Date
+): Promise<RealizedVolSnapshot | null> {
+  const date = getETDateString(now);
+  const config = await getRealizedVolConfig(env);
+
+  try {
+    const bars = await loadDailyBars(env, symbol, now);
+    if (bars.length === 0) {
+      return null;
+    }
+
+    const snapshot = buildRealizedVolSnapshot(
+      symbol,
+      date,
+      bars,
+      config.windows,
+      config.gateWindow,
+      config.gateMethod
+    );
+
+    console.log('[rv] computed', JSON.stringify({
+      symbol,
+      date,
+      rv_30d: snapshot.rv_30d,
+      gate_window: snapshot.gate_window,
+      gate_method: snapshot.gate_method,
+      bars: snapshot.bars,
+    }));
+
+    return snapshot;
+  } catch (error) {
+    console.warn('[rv] failed to compute realized volatility', JSON.stringify({
+      symbol,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+    return null;
+  }
+}
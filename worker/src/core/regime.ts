@@ -1,136 +1,346 @@
 /**
  * Market Regime Detection and Strategy Gating
- * 
- * Determines market regime (BULL vs BEAR) based on price vs SMA_20
- * and gates strategy selection accordingly.
+ *
+ * Determines a per-symbol regime (BULL / BEAR / NEUTRAL) plus a confidence from three factors:
+ * - Trend: price vs SMA_20, SMA_20 vs SMA_50, SMA_5 vs SMA_20
+ * - Momentum: 20-day rate of change and RSI_14
+ * - Volatility: VIX level, VIX/VIX3M term structure, ATR% percentile (LOW / NORMAL / HIGH)
+ *
+ * Trend and momentum combine into a composite score in [-1, 1]. Hysteresis (separate enter
+ * and exit thresholds, see getRegimeConfig) keeps a symbol from flip-flopping around the
+ * boundary. Strategies are gated through the regime mapping table (getRegimeStrategyMap).
+ *
+ * All inputs come from the daily bar store (core/dailyBars.ts).
  */
 
 import type { Env } from '../env';
 import { getSetting, setSetting } from '../db/queries';
 import { StrategyId } from '../strategy/types';
-import { computeSMA20 } from './trend';
+import { getRegimeConfig, DEFAULT_REGIME_STRATEGY_MAP } from './config';
+import type { RegimeConfig, RegimeStrategyMap } from './config';
+import { loadDailyBars, closesOf } from './dailyBars';
+import { sma, atr, rsi, momentum, percentileRank } from './indicators';
+import type { IndicatorBar } from './indicators';
 
 export type MarketRegime = 'BULL' | 'BEAR' | 'NEUTRAL';
 
+export type VolatilityRegime = 'LOW' | 'NORMAL' | 'HIGH';
+
+const ATR_PERIOD = 14;
+
+export interface RegimeFactors {
+  trend: number | null;             // -1 (bearish) .. 1 (bullish), null without SMAs
+  momentum: number | null;          // -1 .. 1, null without enough closes
+  composite: number;                // weighted trend/momentum, 0 when both are missing
+  volatility: VolatilityRegime;
+  sma5: number | null;
+  sma20: number | null;
+  sma50: number | null;
+  roc20: number | null;             // 20-day rate of change
+  rsi14: number | null;
+  vix: number | null;
+  vix_term: number | null;          // VIX / VIX3M (> 1 = backwardation)
+  atr_pct: number | null;           // ATR_14 / close
+  atr_percentile: number | null;    // percentile of atr_pct over the stored history
+}
+
 export interface RegimeState {
   regime: MarketRegime;
+  confidence: number;               // 0-1
+  volatility: VolatilityRegime;
   price: number;
   sma20: number | null;
+  factors: RegimeFactors;
   timestamp: string;
   previousRegime?: MarketRegime;
   flipped: boolean;
 }
 
+export interface RegimeInputs {
+  price: number;
+  bars: IndicatorBar[];             // symbol daily bars, oldest first
+  vixCloses?: number[];             // oldest first
+  vix3mCloses?: number[];
+}
+
+function clampUnit(value: number): number {
+  return Math.max(-1, Math.min(1, value));
+}
+
+function relative(a: number | null, b: number | null, scale: number): number | null {
+  if (a === null || b === null || b === 0) {
+    return null;
+  }
+  return clampUnit((a - b) / b / scale);
+}
+
+function average(values: Array<number | null>): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length > 0 ? present.reduce((acc, v) => acc + v, 0) / present.length : null;
+}
+
+function lastOf(values: number[] | undefined): number | null {
+  return values && values.length > 0 ? values[values.length - 1] : null;
+}
+
+/**
+ * Compute regime factors (pure)
+ *
+ * Shared by detectRegime (daily bar store) and the backtest runner (recorded closes).
+ */
+export function computeRegimeFactors(inputs: RegimeInputs, config: RegimeConfig): RegimeFactors {
+  const { price, bars } = inputs;
+  const closes = closesOf(bars);
+
+  // Trend: scaled so ±2% (±1% for the fast pair) saturates the component
+  const sma5 = sma(closes, 5);
+  const sma20 = sma(closes, 20);
+  const sma50 = sma(closes, 50);
+  const trend = average([
+    relative(price, sma20, 0.02),
+    relative(sma20, sma50, 0.02),
+    relative(sma5, sma20, 0.01),
+  ]);
+
+  // Momentum: ±5% ROC and RSI 30/70 saturate
+  const roc20 = momentum(closes, 20);
+  const rsi14 = rsi(closes, 14);
+  const momentumScore = average([
+    roc20 !== null ? clampUnit(roc20 / 0.05) : null,
+    rsi14 !== null ? clampUnit((rsi14 - 50) / 20) : null,
+  ]);
+
+  // Weighted over whichever factors are available
+  let weighted = 0;
+  let weightSum = 0;
+  if (trend !== null) {
+    weighted += config.trendWeight * trend;
+    weightSum += config.trendWeight;
+  }
+  if (momentumScore !== null) {
+    weighted += config.momentumWeight * momentumScore;
+    weightSum += config.momentumWeight;
+  }
+  const composite = weightSum > 0 ? clampUnit(weighted / weightSum) : 0;
+
+  // Volatility
+  const vix = lastOf(inputs.vixCloses);
+  const vix3m = lastOf(inputs.vix3mCloses);
+  const vix_term = vix !== null && vix3m !== null && vix3m > 0 ? vix / vix3m : null;
+
+  const atrNow = atr(bars, ATR_PERIOD);
+  const lastClose = lastOf(closes);
+  const atr_pct = atrNow !== null && lastClose !== null && lastClose > 0 ? atrNow / lastClose : null;
+  let atr_percentile: number | null = null;
+  if (atr_pct !== null) {
+    const history: number[] = [];
+    for (let end = ATR_PERIOD + 1; end <= bars.length; end++) {
+      const value = atr(bars.slice(0, end), ATR_PERIOD);
+      if (value !== null && bars[end - 1].close > 0) {
+        history.push(value / bars[end - 1].close);
+      }
+    }
+    atr_percentile = percentileRank(history, atr_pct);
+  }
+
+  let volatility: VolatilityRegime = 'NORMAL';
+  if (
+    (vix !== null && vix >= config.vixHigh) ||
+    (vix_term !== null && vix_term >= 1) ||
+    (atr_percentile !== null && atr_percentile >= config.atrPercentileHigh)
+  ) {
+    volatility = 'HIGH';
+  } else if (
+    (vix !== null || atr_percentile !== null) &&
+    (vix === null || vix <= config.vixLow) &&
+    (atr_percentile === null || atr_percentile <= config.atrPercentileLow)
+  ) {
+    volatility = 'LOW';
+  }
+
+  return {
+    trend,
+    momentum: momentumScore,
+    composite,
+    volatility,
+    sma5,
+    sma20,
+    sma50,
+    roc20,
+    rsi14,
+    vix,
+    vix_term,
+    atr_pct,
+    atr_percentile,
+  };
+}
+
+/**
+ * Classify regime from the composite score with hysteresis (pure)
+ *
+ * An existing BULL/BEAR holds until the composite falls inside the exit threshold;
+ * entering requires crossing the (wider) enter threshold.
+ */
+export function classifyRegime(
+  composite: number,
+  previousRegime: MarketRegime | null,
+  config: Pick<RegimeConfig, 'enterThreshold' | 'exitThreshold'>
+): MarketRegime {
+  if (previousRegime === 'BULL' && composite >= config.exitThreshold) {
+    return 'BULL';
+  }
+  if (previousRegime === 'BEAR' && composite <= -config.exitThreshold) {
+    return 'BEAR';
+  }
+  if (composite >= config.enterThreshold) {
+    return 'BULL';
+  }
+  if (composite <= -config.enterThreshold) {
+    return 'BEAR';
+  }
+  return 'NEUTRAL';
+}
+
 /**
- * Detect current market regime based on price vs SMA_20
- * 
- * BULL: price > SMA_20
- * BEAR: price < SMA_20
- * NEUTRAL: price ≈ SMA_20 (within 0.5%) or SMA unavailable
+ * Regime confidence, 0-1 (pure)
+ *
+ * BULL/BEAR: strength of the composite, halved when trend and momentum disagree.
+ * NEUTRAL: how close the composite is to zero relative to the enter threshold.
+ * HIGH volatility scales confidence by 0.75 either way.
+ */
+export function computeRegimeConfidence(
+  regime: MarketRegime,
+  factors: RegimeFactors,
+  config: Pick<RegimeConfig, 'enterThreshold'>
+): number {
+  let confidence: number;
+  if (regime === 'NEUTRAL') {
+    confidence = config.enterThreshold > 0
+      ? 1 - Math.min(1, Math.abs(factors.composite) / config.enterThreshold)
+      : 0;
+  } else {
+    const disagree =
+      factors.trend !== null &&
+      factors.momentum !== null &&
+      Math.sign(factors.trend) !== Math.sign(factors.momentum);
+    confidence = Math.abs(factors.composite) * (disagree ? 0.5 : 1);
+  }
+  if (factors.volatility === 'HIGH') {
+    confidence *= 0.75;
+  }
+  return Math.max(0, Math.min(1, confidence));
+}
+
+/**
+ * Evaluate regime for one symbol (pure)
+ */
+export function evaluateRegime(
+  inputs: RegimeInputs,
+  previousRegime: MarketRegime | null,
+  config: RegimeConfig
+): { regime: MarketRegime; confidence: number; factors: RegimeFactors } {
+  const factors = computeRegimeFactors(inputs, config);
+  const regime = classifyRegime(factors.composite, previousRegime, config);
+  return { regime, confidence: computeRegimeConfidence(regime, factors, config), factors };
+}
+
+/**
+ * Detect current regime for a symbol
+ *
+ * Reads the symbol, VIX and VIX3M bars from the daily bar store and the previous
+ * regime from REGIME_${symbol}, then stores the new regime there.
+ * With no bars at all the regime is NEUTRAL.
  */
 export async function detectRegime(
   env: Env,
   symbol: string,
-  currentPrice: number
+  currentPrice: number,
+  now: Date = new Date()
 ): Promise<RegimeState> {
   // Get previous regime from settings
   const previousRegimeKey = `REGIME_${symbol}`;
   const previousRegime = (await getSetting(env, previousRegimeKey)) as MarketRegime | null;
-  
-  // Compute SMA_20 (placeholder - needs historical data implementation)
-  const sma20 = await computeSMA20(env, symbol);
-  
-  let regime: MarketRegime;
-  let flipped = false;
-  
-  if (sma20 === null) {
-    // SMA unavailable - use NEUTRAL (allow both sides with caution)
+
+  const config = await getRegimeConfig(env);
+  const [bars, vixBars, vix3mBars] = await Promise.all([
+    loadDailyBars(env, symbol, now),
+    loadDailyBars(env, 'VIX', now),
+    loadDailyBars(env, 'VIX3M', now),
+  ]);
+
+  if (bars.length === 0 && !previousRegime) {
     // Log this on first occurrence to make it clear regime detection is effectively disabled
-    if (!previousRegime) {
-      console.log('[regime] SMA20 unavailable, defaulting to NEUTRAL', JSON.stringify({
-        symbol,
-        currentPrice,
-        note: 'Regime detection effectively disabled until computeSMA20 is implemented',
-      }));
-    }
-    regime = 'NEUTRAL';
-  } else {
-    const priceVsSMA = (currentPrice - sma20) / sma20;
-    
-    if (priceVsSMA > 0.005) {
-      // Price > SMA_20 by more than 0.5% → BULL
-      regime = 'BULL';
-    } else if (priceVsSMA < -0.005) {
-      // Price < SMA_20 by more than 0.5% → BEAR
-      regime = 'BEAR';
-    } else {
-      // Price within 0.5% of SMA_20 → NEUTRAL
-      regime = 'NEUTRAL';
-    }
-    
-    // Detect regime flip
-    if (previousRegime && previousRegime !== 'NEUTRAL' && regime !== 'NEUTRAL' && previousRegime !== regime) {
-      flipped = true;
-      console.log('[regime][flip]', JSON.stringify({
-        symbol,
-        previous: previousRegime,
-        current: regime,
-        price: currentPrice,
-        sma20,
-        timestamp: new Date().toISOString(),
-      }));
-    }
+    console.log('[regime] daily bars unavailable, defaulting to NEUTRAL', JSON.stringify({
+      symbol,
+      currentPrice,
+      note: 'Regime detection effectively disabled until daily bars are refreshed (premarket)',
+    }));
   }
-  
+
+  const { regime, confidence, factors } = evaluateRegime(
+    {
+      price: currentPrice,
+      bars,
+      vixCloses: closesOf(vixBars),
+      vix3mCloses: closesOf(vix3mBars),
+    },
+    previousRegime,
+    config
+  );
+
+  // Detect regime flip
+  let flipped = false;
+  if (previousRegime && previousRegime !== 'NEUTRAL' && regime !== 'NEUTRAL' && previousRegime !== regime) {
+    flipped = true;
+    console.log('[regime][flip]', JSON.stringify({
+      symbol,
+      previous: previousRegime,
+      current: regime,
+      price: currentPrice,
+      composite: factors.composite,
+      confidence,
+      timestamp: now.toISOString(),
+    }));
+  }
+
   // Store current regime
-  await setSetting(env, previousRegimeKey, regime);
-  
+  if (regime !== previousRegime) {
+    await setSetting(env, previousRegimeKey, regime);
+  }
+
   return {
     regime,
+    confidence,
+    volatility: factors.volatility,
     price: currentPrice,
-    sma20,
-    timestamp: new Date().toISOString(),
+    sma20: factors.sma20,
+    factors,
+    timestamp: now.toISOString(),
     previousRegime: previousRegime || undefined,
     flipped,
   };
 }
 
 /**
- * Get strategies enabled for current regime
- * 
- * Regime-based strategy gating:
- * - BULL: Enable bullish strategies (BULL_PUT_CREDIT, BULL_CALL_DEBIT)
- * - BEAR: Enable bearish strategies (BEAR_CALL_CREDIT, BEAR_PUT_DEBIT)
- * - NEUTRAL: Allow all strategies including IRON_CONDOR (range/trend agnostic)
+ * Get strategies enabled for a regime from the mapping table
+ *
+ * Looks up "REGIME:VOLATILITY" (e.g. "BULL:HIGH") first, then "REGIME".
+ * A regime missing from the table enables nothing.
  */
-export function getStrategiesForRegime(regime: MarketRegime): {
+export function getStrategiesForRegime(
+  regime: MarketRegime,
+  opts?: { volatility?: VolatilityRegime; mapping?: RegimeStrategyMap }
+): {
   enabled: StrategyId[];
   disabled: StrategyId[];
 } {
-  if (regime === 'BULL') {
-    return {
-      enabled: [StrategyId.BULL_PUT_CREDIT, StrategyId.BULL_CALL_DEBIT],
-      disabled: [StrategyId.BEAR_CALL_CREDIT, StrategyId.BEAR_PUT_DEBIT],
-    };
-  } else if (regime === 'BEAR') {
-    return {
-      enabled: [StrategyId.BEAR_CALL_CREDIT, StrategyId.BEAR_PUT_DEBIT],
-      disabled: [StrategyId.BULL_PUT_CREDIT, StrategyId.BULL_CALL_DEBIT],
-    };
-  } else {
-    // NEUTRAL: allow all strategies (but with extra caution)
-    // IRON_CONDOR is range/trend agnostic, so it's only enabled in NEUTRAL
-    return {
-      enabled: [
-        StrategyId.BULL_PUT_CREDIT,
-        StrategyId.BULL_CALL_DEBIT,
-        StrategyId.BEAR_CALL_CREDIT,
-        StrategyId.BEAR_PUT_DEBIT,
-        StrategyId.IRON_CONDOR,
-      ],
-      disabled: [],
-    };
-  }
+  const mapping = opts?.mapping ?? DEFAULT_REGIME_STRATEGY_MAP;
+  const specific = opts?.volatility ? mapping[`${regime}:${opts.volatility}`] : undefined;
+  const enabled = specific ?? mapping[regime] ?? [];
+  return {
+    enabled: [...enabled],
+    disabled: Object.values(StrategyId).filter(id => !enabled.includes(id)),
+  };
 }
 
 /**
@@ -138,12 +348,9 @@ export function getStrategiesForRegime(regime: MarketRegime): {
  */
 export function isStrategyAllowedInRegime(
   strategy: StrategyId,
-  regime: MarketRegime
+  regime: MarketRegime,
+  opts?: { volatility?: VolatilityRegime; mapping?: RegimeStrategyMap }
 ): boolean {
-  const { enabled } = getStrategiesForRegime(regime);
+  const { enabled } = getStrategiesForRegime(regime, opts);
   return enabled.includes(strategy);
 }
-
-// Note: computeSMA20 is imported from core/trend.ts to ensure regime detection
-// and trend filtering use the same SMA calculation logic.
-
@@ -21,13 +21,16 @@ import type {
 import {
   getTradesToday,
   getOpenTrades,
-  getSetting,
   setSetting,
   getRiskState,
   setRiskState,
+  getLatestPortfolioGreeks,
 } from '../db/queries';
 import { getETDateString, isTradingDay } from './time';
-import { TradierClient } from '../broker/tradierClient';
+import { createBroker } from '../broker/factory';
+import { getStrategyBias, isDebitStrategy } from '../strategy/registry';
+import { getGreekRiskLimits } from './config';
+import { getNumberSetting } from './settings';
 
 /**
  * Get current risk snapshot
@@ -62,69 +65,65 @@ export async function getRiskSnapshot(
 }
 
 /**
- * Validate per-trade max loss cap
+ * Per-trade max loss cap, or null if unlimited
  * 
- * Reject any new trade where max_loss > MAX_TRADE_LOSS_DOLLARS (credit spreads)
- * or max_loss > MAX_TRADE_DEBIT_DOLLARS (debit spreads)
+ * MAX_TRADE_DEBIT_DOLLARS (default 250) for debit spreads, MAX_TRADE_LOSS_DOLLARS
+ * (unset = unlimited) for credit spreads.
  */
-export async function validatePerTradeMaxLoss(
+export async function getPerTradeMaxLossCap(
   env: Env,
-  maxLoss: number,
   isDebitSpread?: boolean
-): Promise<{ valid: boolean; reason?: string }> {
+): Promise<number | null> {
   if (isDebitSpread) {
-    // For debit spreads, use MAX_TRADE_DEBIT_DOLLARS (default 250)
-    const maxTradeDebitDollars = parseFloat(
-      (await getSetting(env, 'MAX_TRADE_DEBIT_DOLLARS')) || '250'
-    );
-    
-    if (maxLoss > maxTradeDebitDollars) {
-      return {
-        valid: false,
-        reason: `Debit spread max_loss ($${maxLoss.toFixed(2)}) exceeds MAX_TRADE_DEBIT_DOLLARS ($${maxTradeDebitDollars.toFixed(2)})`,
-      };
-    }
-  } else {
-    // For credit spreads, use MAX_TRADE_LOSS_DOLLARS
-    const maxTradeLossDollars = parseFloat(
-      (await getSetting(env, 'MAX_TRADE_LOSS_DOLLARS')) || '0'
-    );
-    
-    // If not set, skip check (default to unlimited)
-    if (maxTradeLossDollars <= 0) {
-      return { valid: true };
-    }
-    
-    if (maxLoss > maxTradeLossDollars) {
-      return {
-        valid: false,
-        reason: `Trade max_loss ($${maxLoss.toFixed(2)}) exceeds MAX_TRADE_LOSS_DOLLARS ($${maxTradeLossDollars.toFixed(2)})`,
-      };
-    }
+    return await getNumberSetting(env, 'MAX_TRADE_DEBIT_DOLLARS');
   }
-  
-  return { valid: true };
+  const maxTradeLossDollars = await getNumberSetting(env, 'MAX_TRADE_LOSS_DOLLARS');
+  return maxTradeLossDollars > 0 ? maxTradeLossDollars : null;
 }
 
 /**
- * Validate daily new-risk cap
+ * Validate per-trade max loss cap
  * 
- * Track sum of max_loss of trades opened today; if it exceeds DAILY_MAX_NEW_RISK, stop opening new trades.
+ * Reject any new trade where max_loss > MAX_TRADE_LOSS_DOLLARS (credit spreads)
+ * or max_loss > MAX_TRADE_DEBIT_DOLLARS (debit spreads)
  */
-export async function validateDailyNewRiskCap(
+export async function validatePerTradeMaxLoss(
   env: Env,
-  now: Date,
-  newTradeMaxLoss: number
+  maxLoss: number,
+  isDebitSpread?: boolean
 ): Promise<{ valid: boolean; reason?: string }> {
-  const dailyMaxNewRisk = parseFloat(
-    (await getSetting(env, 'DAILY_MAX_NEW_RISK')) || '0'
-  );
+  const cap = await getPerTradeMaxLossCap(env, isDebitSpread);
   
   // If not set, skip check (default to unlimited)
-  if (dailyMaxNewRisk <= 0) {
+  if (cap === null || maxLoss <= cap) {
     return { valid: true };
   }
   
+  return {
+    valid: false,
+    reason: isDebitSpread
+      ? `Debit spread max_loss ($${maxLoss.toFixed(2)}) exceeds MAX_TRADE_DEBIT_DOLLARS ($${cap.toFixed(2)})`
+      : `Trade max_loss ($${maxLoss.toFixed(2)}) exceeds MAX_TRADE_LOSS_DOLLARS ($${cap.toFixed(2)})`,
+  };
+}
+
+/**
+ * DAILY_MAX_NEW_RISK, or null when unset (unlimited)
+ */
+export async function getDailyNewRiskCap(env: Env): Promise<number | null> {
+  const dailyMaxNewRisk = await getNumberSetting(env, 'DAILY_MAX_NEW_RISK');
+  return dailyMaxNewRisk > 0 ? dailyMaxNewRisk : null;
+}
+
+/**
+ * Daily new-risk usage: sum of max_loss of trades opened today vs DAILY_MAX_NEW_RISK
+ * 
+ * cap is null when DAILY_MAX_NEW_RISK is unset (unlimited).
+ */
+export async function getDailyNewRiskUsage(
+  env: Env,
+  now: Date
+): Promise<{ used: number; cap: number | null }> {
   const tradesToday = await getTradesToday(env, now);
   // Count max_loss of trades opened today (that are still open or were closed)
   const openedToday = tradesToday.filter(
@@ -135,16 +134,36 @@ export async function validateDailyNewRiskCap(
       t.status !== 'CLOSE_FAILED'
   );
   
-  const currentDailyNewRisk = openedToday.reduce((sum, t) => {
+  const used = openedToday.reduce((sum, t) => {
     return sum + (t.max_loss != null ? t.max_loss : 0);
   }, 0);
   
-  const totalAfterNewTrade = currentDailyNewRisk + newTradeMaxLoss;
+  return { used, cap: await getDailyNewRiskCap(env) };
+}
+
+/**
+ * Validate daily new-risk cap
+ * 
+ * Track sum of max_loss of trades opened today; if it exceeds DAILY_MAX_NEW_RISK, stop opening new trades.
+ */
+export async function validateDailyNewRiskCap(
+  env: Env,
+  now: Date,
+  newTradeMaxLoss: number
+): Promise<{ valid: boolean; reason?: string }> {
+  const { used, cap } = await getDailyNewRiskUsage(env, now);
+  
+  // If not set, skip check (default to unlimited)
+  if (cap === null) {
+    return { valid: true };
+  }
+  
+  const totalAfterNewTrade = used + newTradeMaxLoss;
   
-  if (totalAfterNewTrade > dailyMaxNewRisk) {
+  if (totalAfterNewTrade > cap) {
     return {
       valid: false,
-      reason: `Daily new risk ($${totalAfterNewTrade.toFixed(2)} after new trade) would exceed DAILY_MAX_NEW_RISK ($${dailyMaxNewRisk.toFixed(2)})`,
+      reason: `Daily new risk ($${totalAfterNewTrade.toFixed(2)} after new trade) would exceed DAILY_MAX_NEW_RISK ($${cap.toFixed(2)})`,
     };
   }
   
@@ -176,8 +195,9 @@ export async function computeBullishExposure(env: Env): Promise<{
   let debit_trade_count = 0;
   
   for (const trade of openTrades) {
-    const isBullPut = trade.strategy === 'BULL_PUT_CREDIT';
-    const isBullCall = trade.strategy === 'BULL_CALL_DEBIT';
+    const isBullish = getStrategyBias(trade.strategy) === 'BULLISH';
+    const isBullPut = isBullish && !isDebitStrategy(trade.strategy);
+    const isBullCall = isBullish && isDebitStrategy(trade.strategy);
     
     if (isBullPut || isBullCall) {
       const maxLoss = trade.max_loss ?? 0;
@@ -218,9 +238,7 @@ export async function validateGlobalBullRiskCap(
   newTradeMaxLoss: number,
   isDebitSpread: boolean
 ): Promise<{ valid: boolean; reason?: string }> {
-  const globalBullRiskCap = parseFloat(
-    (await getSetting(env, 'GLOBAL_BULL_RISK_CAP')) || '2500'
-  );
+  const globalBullRiskCap = await getNumberSetting(env, 'GLOBAL_BULL_RISK_CAP');
   
   // If not set or 0, skip check (default to unlimited)
   if (globalBullRiskCap <= 0) {
@@ -257,12 +275,8 @@ export async function validateBullTradeCounts(
   env: Env,
   isDebitSpread: boolean
 ): Promise<{ valid: boolean; reason?: string }> {
-  const maxBullTrades = parseInt(
-    (await getSetting(env, 'MAX_BULL_TRADES')) || '3'
-  );
-  const maxDebitTrades = parseInt(
-    (await getSetting(env, 'MAX_DEBIT_TRADES')) || '1'
-  );
+  const maxBullTrades = await getNumberSetting(env, 'MAX_BULL_TRADES');
+  const maxDebitTrades = await getNumberSetting(env, 'MAX_DEBIT_TRADES');
   
   const exposure = await computeBullishExposure(env);
   
@@ -310,8 +324,9 @@ export async function computeBearishExposure(env: Env): Promise<{
   let debit_trade_count = 0;
   
   for (const trade of openTrades) {
-    const isBearCall = trade.strategy === 'BEAR_CALL_CREDIT';
-    const isBearPut = trade.strategy === 'BEAR_PUT_DEBIT';
+    const isBearish = getStrategyBias(trade.strategy) === 'BEARISH';
+    const isBearCall = isBearish && !isDebitStrategy(trade.strategy);
+    const isBearPut = isBearish && isDebitStrategy(trade.strategy);
     
     if (isBearCall || isBearPut) {
       const maxLoss = trade.max_loss ?? 0;
@@ -352,9 +367,7 @@ export async function validateGlobalBearRiskCap(
   newTradeMaxLoss: number,
   isDebitSpread: boolean
 ): Promise<{ valid: boolean; reason?: string }> {
-  const globalBearRiskCap = parseFloat(
-    (await getSetting(env, 'GLOBAL_BEAR_RISK_CAP')) || '2500'
-  );
+  const globalBearRiskCap = await getNumberSetting(env, 'GLOBAL_BEAR_RISK_CAP');
   
   // If not set or 0, skip check (default to unlimited)
   if (globalBearRiskCap <= 0) {
@@ -391,12 +404,8 @@ export async function validateBearTradeCounts(
   env: Env,
   isDebitSpread: boolean
 ): Promise<{ valid: boolean; reason?: string }> {
-  const maxBearTrades = parseInt(
-    (await getSetting(env, 'MAX_BEAR_TRADES')) || '3'
-  );
-  const maxDebitBearTrades = parseInt(
-    (await getSetting(env, 'MAX_DEBIT_BEAR_TRADES')) || '1'
-  );
+  const maxBearTrades = await getNumberSetting(env, 'MAX_BEAR_TRADES');
+  const maxDebitBearTrades = await getNumberSetting(env, 'MAX_DEBIT_BEAR_TRADES');
   
   const exposure = await computeBearishExposure(env);
   
@@ -428,20 +437,14 @@ export async function validateDailyRealizedLossCap(
   env: Env,
   now: Date
 ): Promise<{ valid: boolean; reason?: string }> {
-  const dailyMaxLoss = parseFloat(
-    (await getSetting(env, 'DAILY_MAX_LOSS')) || '0'
-  );
+  const dailyMaxLoss = await getNumberSetting(env, 'DAILY_MAX_LOSS');
   
   // If not set, skip check (default to unlimited)
   if (dailyMaxLoss <= 0) {
     // Use existing daily loss check as fallback
     const dailyPnL = await computeDailyRealizedPnL(env, now);
-    const accountEquity = parseFloat(
-      (await getSetting(env, 'ACCOUNT_EQUITY_REFERENCE')) || '100000'
-    );
-    const maxDailyLossPct = parseFloat(
-      (await getSetting(env, 'MAX_DAILY_LOSS_PCT')) || '0.02'
-    );
+    const accountEquity = await getNumberSetting(env, 'ACCOUNT_EQUITY_REFERENCE');
+    const maxDailyLossPct = await getNumberSetting(env, 'MAX_DAILY_LOSS_PCT');
     const maxDailyLoss = accountEquity * maxDailyLossPct;
     
     if (dailyPnL < 0 && Math.abs(dailyPnL) >= maxDailyLoss) {
@@ -477,9 +480,7 @@ export async function validateUnderlyingConcentrationCap(
   symbol: string,
   newTradeMaxLoss: number
 ): Promise<{ valid: boolean; reason?: string }> {
-  const underlyingMaxRisk = parseFloat(
-    (await getSetting(env, 'UNDERLYING_MAX_RISK')) || '0'
-  );
+  const underlyingMaxRisk = await getNumberSetting(env, 'UNDERLYING_MAX_RISK');
   
   // If not set, skip check (default to unlimited)
   if (underlyingMaxRisk <= 0) {
@@ -516,9 +517,7 @@ export async function validateExpiryConcentrationCap(
   expiration: string,
   newTradeMaxLoss: number
 ): Promise<{ valid: boolean; reason?: string }> {
-  const expiryMaxRisk = parseFloat(
-    (await getSetting(env, 'EXPIRY_MAX_RISK')) || '0'
-  );
+  const expiryMaxRisk = await getNumberSetting(env, 'EXPIRY_MAX_RISK');
   
   // If not set, skip check (default to unlimited)
   if (expiryMaxRisk <= 0) {
@@ -546,6 +545,63 @@ export async function validateExpiryConcentrationCap(
   return { valid: true };
 }
 
+/**
+ * Validate portfolio Greek limits
+ * 
+ * Reads the latest portfolio_greeks snapshot (recorded each monitor cycle) and enforces
+ * MAX_NET_DELTA_SPY (beta-weighted, either direction), MAX_SHORT_GAMMA and
+ * MAX_VEGA_EXPOSURE. Limits <= 0 are disabled. A missing or stale snapshot passes
+ * with a warning, like the buying power check.
+ */
+export async function validatePortfolioGreekLimits(
+  env: Env,
+  now: Date
+): Promise<{ valid: boolean; reason?: string }> {
+  const limits = await getGreekRiskLimits(env);
+  if (limits.maxNetDeltaSpy <= 0 && limits.maxShortGamma <= 0 && limits.maxVegaExposure <= 0) {
+    return { valid: true };
+  }
+  
+  const snapshot = await getLatestPortfolioGreeks(env);
+  const ageMinutes = snapshot ? (now.getTime() - new Date(snapshot.as_of).getTime()) / 60000 : null;
+  if (!snapshot || ageMinutes === null || ageMinutes > limits.maxSnapshotAgeMinutes) {
+    console.warn('[risk] greek_check_skipped', JSON.stringify({
+      reason: snapshot ? 'stale_snapshot' : 'no_snapshot',
+      as_of: snapshot?.as_of ?? null,
+      age_minutes: ageMinutes !== null ? Math.round(ageMinutes) : null,
+      max_age_minutes: limits.maxSnapshotAgeMinutes,
+    }));
+    return { valid: true };
+  }
+  
+  if (limits.maxNetDeltaSpy > 0) {
+    if (snapshot.spy_weighted_delta === null) {
+      console.warn('[risk] greek_check_delta_unavailable', JSON.stringify({ as_of: snapshot.as_of }));
+    } else if (Math.abs(snapshot.spy_weighted_delta) >= limits.maxNetDeltaSpy) {
+      return {
+        valid: false,
+        reason: `Beta-weighted net delta (${snapshot.spy_weighted_delta.toFixed(2)} SPY shares) at or beyond MAX_NET_DELTA_SPY (${limits.maxNetDeltaSpy})`,
+      };
+    }
+  }
+  
+  if (limits.maxShortGamma > 0 && -snapshot.net_gamma >= limits.maxShortGamma) {
+    return {
+      valid: false,
+      reason: `Net short gamma (${(-snapshot.net_gamma).toFixed(4)}) at or beyond MAX_SHORT_GAMMA (${limits.maxShortGamma})`,
+    };
+  }
+  
+  if (limits.maxVegaExposure > 0 && Math.abs(snapshot.net_vega) >= limits.maxVegaExposure) {
+    return {
+      valid: false,
+      reason: `Net vega ($${snapshot.net_vega.toFixed(2)} per vol point) at or beyond MAX_VEGA_EXPOSURE ($${limits.maxVegaExposure.toFixed(2)})`,
+    };
+  }
+  
+  return { valid: true };
+}
+
 /**
  * Check if a new trade can be opened
  * 
@@ -571,11 +627,7 @@ export async function canOpenNewTrade(env: Env, now: Date): Promise<boolean> {
   
   // 3. Check max open spreads (configurable via MAX_OPEN_SPREADS_GLOBAL, fallback to legacy MAX_OPEN_POSITIONS)
   //    All trades are managed by Gekkoworks - count every OPEN/CLOSING/ENTRY spread
-  const maxOpenSpreadsSetting =
-    (await getSetting(env, 'MAX_OPEN_SPREADS_GLOBAL')) ||
-    (await getSetting(env, 'MAX_OPEN_POSITIONS')) ||
-    '10';
-  const maxOpenPositions = parseInt(maxOpenSpreadsSetting, 10) || 10;
+  const maxOpenPositions = await getNumberSetting(env, 'MAX_OPEN_SPREADS_GLOBAL');
   const openTrades = await getOpenTrades(env);
 
   if (openTrades.length >= maxOpenPositions) {
@@ -597,12 +649,8 @@ export async function canOpenNewTrade(env: Env, now: Date): Promise<boolean> {
   }
   
   // 4. Check max trades per day
-  // Configurable via MAX_NEW_TRADES_PER_DAY (fallback to legacy MAX_TRADES_PER_DAY); default to 100 if not set.
-  const maxTradesPerDaySetting =
-    (await getSetting(env, 'MAX_NEW_TRADES_PER_DAY')) ||
-    (await getSetting(env, 'MAX_TRADES_PER_DAY')) ||
-    '100';
-  const maxTradesPerDay = parseInt(maxTradesPerDaySetting, 10) || 100;
+  // Configurable via MAX_NEW_TRADES_PER_DAY (fallback to legacy MAX_TRADES_PER_DAY); same default as entry (5).
+  const maxTradesPerDay = await getNumberSetting(env, 'MAX_NEW_TRADES_PER_DAY');
   const tradesToday = await getTradesToday(env, now);
   // All trades are managed by Gekkoworks - count all trades opened today
   // Exclude trades that ultimately failed or were rejected (CANCELLED, CLOSE_FAILED).
@@ -620,12 +668,8 @@ export async function canOpenNewTrade(env: Env, now: Date): Promise<boolean> {
   
   // 5. Check daily loss limit
   const dailyPnL = await computeDailyRealizedPnL(env, now);
-  const accountEquity = parseFloat(
-    (await getSetting(env, 'ACCOUNT_EQUITY_REFERENCE')) || '100000'
-  );
-  const maxDailyLossPct = parseFloat(
-    (await getSetting(env, 'MAX_DAILY_LOSS_PCT')) || '0.02'
-  );
+  const accountEquity = await getNumberSetting(env, 'ACCOUNT_EQUITY_REFERENCE');
+  const maxDailyLossPct = await getNumberSetting(env, 'MAX_DAILY_LOSS_PCT');
   const maxDailyLoss = accountEquity * maxDailyLossPct;
   
   if (dailyPnL < 0 && Math.abs(dailyPnL) >= maxDailyLoss) {
@@ -643,15 +687,11 @@ export async function canOpenNewTrade(env: Env, now: Date): Promise<boolean> {
 
   // 7. Check account buying power vs open risk (simple cap)
   try {
-    const client = new TradierClient(env);
+    const client = await createBroker(env);
     const balances = await client.getBalances();
 
-    const maxRiskFraction = parseFloat(
-      (await getSetting(env, 'MAX_RISK_FRACTION_OF_BUYING_POWER')) || '0.2'
-    );
-    const assumedWidth = parseFloat(
-      (await getSetting(env, 'DEFAULT_SPREAD_WIDTH')) || '5'
-    );
+    const maxRiskFraction = await getNumberSetting(env, 'MAX_RISK_FRACTION_OF_BUYING_POWER');
+    const assumedWidth = await getNumberSetting(env, 'DEFAULT_SPREAD_WIDTH');
 
     const existingRisk = openTrades.reduce((sum, t) => {
       return sum + (t.max_loss != null ? t.max_loss : 0);
@@ -684,6 +724,13 @@ export async function canOpenNewTrade(env: Env, now: Date): Promise<boolean> {
     );
   }
   
+  // 8. Check portfolio Greek limits (beta-weighted delta, short gamma, vega)
+  const greekCheck = await validatePortfolioGreekLimits(env, now);
+  if (!greekCheck.valid) {
+    console.log('[risk] canOpenNewTrade=false: ' + greekCheck.reason);
+    return false;
+  }
+  
   console.log('[risk] canOpenNewTrade=true: all checks passed', JSON.stringify({
     systemMode,
     riskState,
@@ -765,12 +812,8 @@ export async function incrementEmergencyExitCount(
  */
 export async function applyDailyLossCheck(env: Env, now: Date): Promise<void> {
   const dailyPnL = await computeDailyRealizedPnL(env, now);
-  const accountEquity = parseFloat(
-    (await getSetting(env, 'ACCOUNT_EQUITY_REFERENCE')) || '100000'
-  );
-  const maxDailyLossPct = parseFloat(
-    (await getSetting(env, 'MAX_DAILY_LOSS_PCT')) || '0.02'
-  );
+  const accountEquity = await getNumberSetting(env, 'ACCOUNT_EQUITY_REFERENCE');
+  const maxDailyLossPct = await getNumberSetting(env, 'MAX_DAILY_LOSS_PCT');
   const maxDailyLoss = accountEquity * maxDailyLossPct;
   
   const dailyLoss = Math.min(dailyPnL, 0); // negative or zero
@@ -0,0 +1,367 @@
+/**
+ * Scenario P&L / Stress Testing
+ *
+ * Reprices the open book from portfolio_positions with Black-Scholes over a grid of
+ * shocks: underlying moves (% of SPY), IV shifts (vol points) and days of decay.
+ * Scenario P&L is the shocked model value minus the unshocked model value, in
+ * dollars, so it measures the shock rather than the gap between model and mark.
+ *
+ * - Moves are beta-weighted by default: an underlying with beta 1.3 moves 1.3x the
+ *   SPY move (SCENARIO_BETA_WEIGHTED=false moves every underlying by the same %).
+ * - Leg IV is the chain IV stored by the portfolio sync, else the average IV of the
+ *   symbol's other legs, else SCENARIO_DEFAULT_IV.
+ * - Expiration is taken as 16:00 ET on the expiration date; legs past it are worth
+ *   intrinsic value.
+ *
+ * Totals use every portfolio position; per-trade P&L uses the trade's quantity on
+ * its matching legs (same matching as the Greeks aggregation). SCENARIO_MAX_LOSS
+ * rejects proposals that push the worst-case total beyond it at entry.
+ */
+
+import type { Env } from '../env';
+import type { BrokerClient, PortfolioPositionRow, ProposalRow, TradeRow } from '../types';
+import { getAllPortfolioPositions, getOpenTrades } from '../db/queries';
+import { getScenarioConfig, type ScenarioConfig } from './config';
+import { getTradeLegs, positionKey } from './greeks';
+import { getBetaEstimates, toBetaMap } from './beta';
+import { getTradeWings } from '../strategy/registry';
+
+const CONTRACT_MULTIPLIER = 100;
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+const MIN_IV = 0.01;
+
+export type ScenarioGrid = Pick<ScenarioConfig, 'underlyingMoves' | 'ivShifts' | 'daysForward'>;
+
+export type ScenarioPosition = Pick<
+  PortfolioPositionRow,
+  'symbol' | 'expiration' | 'option_type' | 'strike' | 'side' | 'quantity' | 'implied_volatility'
+>;
+
+export interface ScenarioShock {
+  underlying_move_pct: number;      // SPY move in % (scaled by beta when beta-weighted)
+  iv_shift: number;                 // vol points added to each leg's IV
+  days_forward: number;             // calendar days of time decay
+}
+
+export interface ScenarioResult extends ScenarioShock {
+  total_pnl: number;                // dollars
+  by_trade: Array<{ trade_id: string; pnl: number }>;
+}
+
+export interface ScenarioOptions {
+  asOf: Date;
+  riskFreeRate: number;
+  defaultIv: number;
+  betaWeighted: boolean;
+}
+
+export interface ScenarioReport {
+  as_of: string;
+  underlying_prices: Record<string, number>;
+  betas: Record<string, number>;
+  beta_weighted: boolean;
+  positions: number;
+  missing_prices: string[];         // symbols without a quote (their legs are left out)
+  trades: Array<{
+    trade_id: string;
+    symbol: string;
+    strategy: string | null;
+    quantity: number;
+    legs_found: number;
+    legs_expected: number;
+  }>;
+  scenarios: ScenarioResult[];
+  worst: ScenarioResult | null;
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+ */
+export function normalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-z * z);
+  return x >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+/**
+ * Black-Scholes price of a European option (intrinsic value at or past expiration)
+ */
+export function blackScholesPrice(
+  optionType: 'call' | 'put',
+  spot: number,
+  strike: number,
+  years: number,
+  iv: number,
+  riskFreeRate: number
+): number {
+  if (years <= 0 || iv <= 0 || spot <= 0 || strike <= 0) {
+    return optionType === 'call' ? Math.max(0, spot - strike) : Math.max(0, strike - spot);
+  }
+  const sqrtT = Math.sqrt(years);
+  const d1 = (Math.log(spot / strike) + (riskFreeRate + (iv * iv) / 2) * years) / (iv * sqrtT);
+  const d2 = d1 - iv * sqrtT;
+  const discount = Math.exp(-riskFreeRate * years);
+  return optionType === 'call'
+    ? spot * normalCdf(d1) - strike * discount * normalCdf(d2)
+    : strike * discount * normalCdf(-d2) - spot * normalCdf(-d1);
+}
+
+/**
+ * Years from asOf + daysForward to 16:00 ET on the expiration date (floored at 0)
+ *
+ * Uses 21:00 UTC (16:00 EST); the DST hour is immaterial here.
+ */
+export function yearsToExpiration(expiration: string, asOf: Date, daysForward: number = 0): number {
+  const expiry = new Date(`${expiration}T21:00:00Z`).getTime();
+  if (Number.isNaN(expiry)) {
+    return 0;
+  }
+  const from = asOf.getTime() + daysForward * 24 * 60 * 60 * 1000;
+  return Math.max(0, (expiry - from) / MS_PER_YEAR);
+}
+
+/**
+ * Every combination of the grid's moves, IV shifts and days forward
+ */
+export function buildScenarioGrid(grid: ScenarioGrid): ScenarioShock[] {
+  const shocks: ScenarioShock[] = [];
+  for (const days of grid.daysForward) {
+    for (const ivShift of grid.ivShifts) {
+      for (const move of grid.underlyingMoves) {
+        shocks.push({ underlying_move_pct: move, iv_shift: ivShift, days_forward: days });
+      }
+    }
+  }
+  return shocks;
+}
+
+/**
+ * Leg IVs: stored IV, else the symbol's average stored IV, else the default
+ */
+function resolveLegIvs(positions: ScenarioPosition[], defaultIv: number): number[] {
+  const bySymbol = new Map<string, number[]>();
+  for (const position of positions) {
+    if (position.implied_volatility != null && position.implied_volatility > 0) {
+      bySymbol.set(position.symbol, [...(bySymbol.get(position.symbol) ?? []), position.implied_volatility]);
+    }
+  }
+  return positions.map(position => {
+    if (position.implied_volatility != null && position.implied_volatility > 0) {
+      return position.implied_volatility;
+    }
+    const symbolIvs = bySymbol.get(position.symbol);
+    return symbolIvs ? symbolIvs.reduce((sum, iv) => sum + iv, 0) / symbolIvs.length : defaultIv;
+  });
+}
+
+/**
+ * Reprice positions over a set of shocks (pure)
+ *
+ * prices: underlying last prices; positions whose symbol has no price are skipped.
+ * betas: per-symbol beta to SPY (missing = 1.0), used when options.betaWeighted.
+ */
+export function runScenarios(
+  positions: ScenarioPosition[],
+  trades: TradeRow[],
+  prices: Map<string, number>,
+  betas: Map<string, number>,
+  shocks: ScenarioShock[],
+  options: ScenarioOptions
+): ScenarioResult[] {
+  const ivs = resolveLegIvs(positions, options.defaultIv);
+  const legs = positions
+    .map((position, i) => ({ position, iv: ivs[i], spot: prices.get(position.symbol) }))
+    .filter((leg): leg is { position: ScenarioPosition; iv: number; spot: number } => leg.spot !== undefined);
+  const byKey = new Map(legs.map(leg => [positionKey(leg.position.symbol, leg.position), leg]));
+  const tradeLegs = trades.map(trade => ({ trade, legs: getTradeLegs(trade) }));
+
+  const legValue = (
+    leg: { position: ScenarioPosition; iv: number; spot: number },
+    shock: ScenarioShock,
+    quantity: number
+  ): number => {
+    const move = (shock.underlying_move_pct / 100) * (options.betaWeighted ? (betas.get(leg.position.symbol) ?? 1) : 1);
+    const price = blackScholesPrice(
+      leg.position.option_type,
+      leg.spot * (1 + move),
+      leg.position.strike,
+      yearsToExpiration(leg.position.expiration, options.asOf, shock.days_forward),
+      Math.max(MIN_IV, leg.iv + shock.iv_shift / 100),
+      options.riskFreeRate
+    );
+    return price * (leg.position.side === 'long' ? 1 : -1) * quantity * CONTRACT_MULTIPLIER;
+  };
+
+  const baseShock: ScenarioShock = { underlying_move_pct: 0, iv_shift: 0, days_forward: 0 };
+  const legPnl = (leg: typeof legs[number], shock: ScenarioShock, quantity: number): number =>
+    legValue(leg, shock, quantity) - legValue(leg, baseShock, quantity);
+
+  return shocks.map(shock => {
+    const total = legs.reduce((sum, leg) => sum + legPnl(leg, shock, leg.position.quantity), 0);
+    const byTrade = tradeLegs.map(({ trade, legs: keys }) => ({
+      trade_id: trade.id,
+      pnl: Math.round(keys.reduce((sum, key) => {
+        const leg = byKey.get(positionKey(trade.symbol, key));
+        return leg ? sum + legPnl(leg, shock, trade.quantity ?? 1) : sum;
+      }, 0) * 100) / 100,
+    }));
+    return { ...shock, total_pnl: Math.round(total * 100) / 100, by_trade: byTrade };
+  });
+}
+
+export function findWorstScenario(results: ScenarioResult[]): ScenarioResult | null {
+  return results.reduce<ScenarioResult | null>(
+    (worst, result) => (worst === null || result.total_pnl < worst.total_pnl ? result : worst),
+    null
+  );
+}
+
+/**
+ * Option legs a proposal would add (quantity = contracts, IV = proposal ATM IV)
+ */
+export function getProposalLegs(
+  proposal: Pick<ProposalRow, 'symbol' | 'strategy' | 'expiration' | 'short_strike' | 'long_strike' | 'width' | 'call_short_strike' | 'call_long_strike' | 'long_expiration' | 'iv_30d'>,
+  quantity: number
+): ScenarioPosition[] {
+  const common = { symbol: proposal.symbol, quantity, implied_volatility: proposal.iv_30d ?? null };
+  return getTradeWings(proposal).flatMap(wing => [
+    { ...common, expiration: wing.expiration, option_type: wing.optionType, strike: wing.short_strike, side: 'short' as const },
+    { ...common, expiration: wing.long_expiration, option_type: wing.optionType, strike: wing.long_strike, side: 'long' as const },
+  ]);
+}
+
+async function getUnderlyingPrices(
+  broker: Pick<BrokerClient, 'getUnderlyingQuote'>,
+  symbols: string[]
+): Promise<Map<string, number>> {
+  const prices = new Map<string, number>();
+  for (const symbol of new Set(symbols)) {
+    try {
+      const quote = await broker.getUnderlyingQuote(symbol);
+      if (quote.last > 0) {
+        prices.set(symbol, quote.last);
+      }
+    } catch (error) {
+      console.warn('[scenarios] quote_failed', JSON.stringify({
+        symbol,
+        error: error instanceof Error ? error.message : String(error),
+      }));
+    }
+  }
+  return prices;
+}
+
+async function getScenarioBetas(
+  env: Env,
+  symbols: string[],
+  now: Date,
+  config: ScenarioConfig
+): Promise<Map<string, number>> {
+  return config.betaWeighted ? toBetaMap(await getBetaEstimates(env, symbols, now)) : new Map();
+}
+
+/**
+ * Scenario P&L of the open book (grid defaults to the configured one)
+ */
+export async function computeScenarioReport(
+  env: Env,
+  broker: Pick<BrokerClient, 'getUnderlyingQuote'>,
+  now: Date,
+  overrides: Partial<ScenarioConfig> = {}
+): Promise<ScenarioReport> {
+  const config = { ...(await getScenarioConfig(env)), ...overrides };
+  const positions = await getAllPortfolioPositions(env);
+  const trades = await getOpenTrades(env);
+
+  const symbols = Array.from(new Set(positions.map(p => p.symbol))).sort();
+  const prices = await getUnderlyingPrices(broker, symbols);
+  const betas = await getScenarioBetas(env, symbols, now, config);
+  const results = runScenarios(positions, trades, prices, betas, buildScenarioGrid(config), {
+    asOf: now,
+    riskFreeRate: config.riskFreeRate,
+    defaultIv: config.defaultIv,
+    betaWeighted: config.betaWeighted,
+  });
+
+  const positionKeys = new Set(positions.map(p => positionKey(p.symbol, p)));
+  return {
+    as_of: now.toISOString(),
+    underlying_prices: Object.fromEntries(prices),
+    betas: Object.fromEntries(betas),
+    beta_weighted: config.betaWeighted,
+    positions: positions.length,
+    missing_prices: symbols.filter(symbol => !prices.has(symbol)),
+    trades: trades.map(trade => {
+      const legs = getTradeLegs(trade);
+      return {
+        trade_id: trade.id,
+        symbol: trade.symbol,
+        strategy: trade.strategy ?? null,
+        quantity: trade.quantity ?? 1,
+        legs_found: legs.filter(leg => positionKeys.has(positionKey(trade.symbol, leg))).length,
+        legs_expected: legs.length,
+      };
+    }),
+    scenarios: results,
+    worst: findWorstScenario(results),
+  };
+}
+
+/**
+ * Validate worst-case scenario loss cap
+ *
+ * Reprices the book with and without the proposal's legs over the configured grid;
+ * rejects when the worst-case loss with the proposal exceeds SCENARIO_MAX_LOSS and the
+ * proposal makes it worse (risk-reducing trades pass). 0 = disabled. Skipped (allowed)
+ * when the proposal's underlying has no quote.
+ */
+export async function validateScenarioLossCap(
+  env: Env,
+  broker: Pick<BrokerClient, 'getUnderlyingQuote'>,
+  proposal: Parameters<typeof getProposalLegs>[0],
+  quantity: number,
+  now: Date
+): Promise<{ valid: boolean; reason?: string }> {
+  const config = await getScenarioConfig(env);
+  if (config.maxLoss <= 0) {
+    return { valid: true };
+  }
+
+  const positions = await getAllPortfolioPositions(env);
+  const symbols = [...positions.map(p => p.symbol), proposal.symbol];
+  const prices = await getUnderlyingPrices(broker, symbols);
+  if (!prices.has(proposal.symbol)) {
+    console.warn('[risk] scenario_check_skipped', JSON.stringify({
+      symbol: proposal.symbol,
+      reason: 'no underlying quote',
+    }));
+    return { valid: true };
+  }
+
+  const betas = await getScenarioBetas(env, symbols, now, config);
+  const shocks = buildScenarioGrid(config);
+  const options: ScenarioOptions = {
+    asOf: now,
+    riskFreeRate: config.riskFreeRate,
+    defaultIv: config.defaultIv,
+    betaWeighted: config.betaWeighted,
+  };
+  const before = findWorstScenario(runScenarios(positions, [], prices, betas, shocks, options));
+  const after = findWorstScenario(
+    runScenarios([...positions, ...getProposalLegs(proposal, quantity)], [], prices, betas, shocks, options)
+  );
+  if (!after) {
+    return { valid: true };
+  }
+
+  const lossAfter = -after.total_pnl;
+  if (lossAfter > config.maxLoss && after.total_pnl < (before?.total_pnl ?? 0)) {
+    return {
+      valid: false,
+      reason: `Worst-case scenario loss ($${lossAfter.toFixed(2)} at ${after.underlying_move_pct}% move, ${after.iv_shift >= 0 ? '+' : ''}${after.iv_shift} IV, ${after.days_forward}d) would exceed SCENARIO_MAX_LOSS ($${config.maxLoss.toFixed(2)})`,
+    };
+  }
+
+  return { valid: true };
+}
@@ -45,7 +45,7 @@ function clamp(value: number, min: number, max: number): number {
  */
 export function scoreCandidate(
   metrics: CandidateMetrics,
-  opts?: { minCreditFraction?: number; mode?: TradingMode }
+  opts?: { minCreditFraction?: number; mode?: TradingMode; ivrFromHistory?: boolean; minPop?: number }
 ): ScoringResult {
   const { width, credit } = metrics;
   const mode = opts?.mode ?? 'DRY_RUN';
@@ -64,7 +64,9 @@ export function scoreCandidate(
     // Assume 0-100 scale, normalize to 0-1
     rawPop = rawPop / 100.0;
   }
-  if (rawPop < 0.65) {
+  // Per-strategy floor via StrategyConfig.minPop (IRON_CONDOR has two short strikes)
+  const minPop = opts?.minPop ?? 0.65;
+  if (rawPop < minPop) {
     console.log(
       '[scoring] HARD_REJECTION',
       JSON.stringify({
@@ -74,6 +76,7 @@ export function scoreCandidate(
         short_strike: metrics.short_strike,
         long_strike: metrics.long_strike,
         pop: rawPop,
+        minPop,
       })
     );
     throw new Error('HARD_FILTER: POP_TOO_LOW');
@@ -207,10 +210,10 @@ export function scoreCandidate(
   const skewScore = computeSkewScore(vertical_skew_value);
 
   // Composite score
-  // In SANDBOX_PAPER we neutralize IVR by giving it zero effective weight and
-  // renormalizing the remaining components so IVR does not distort scores.
+  // In SANDBOX_PAPER, a fallback IVR (no iv_history yet) is neutralized by giving it zero
+  // effective weight and renormalizing the remaining components so it does not distort scores.
   const baseWeights = { ...WEIGHTS };
-  if (mode === 'SANDBOX_PAPER') {
+  if (mode === 'SANDBOX_PAPER' && !opts?.ivrFromHistory) {
     baseWeights.ivr = 0;
   }
   const totalWeight =
@@ -472,6 +475,116 @@ function ivrDebitScore(ivr: number): number {
   return Math.max(0.6, score);
 }
 
+/**
+ * Score a time spread candidate (CALL_CALENDAR, CALL_DIAGONAL)
+ * 
+ * Time spreads are long vega and earn the front/back IV difference, so the
+ * term structure slope (metrics.term_structure = (front_iv - back_iv) / back_iv)
+ * carries the most weight.
+ * 
+ * Component weights:
+ * - Term structure slope: 40%
+ * - R:R quality (estimated max profit / debit): 25%
+ * - Short delta suitability: 15%
+ * - IVR suitability: 10%
+ * - Liquidity: 10%
+ */
+export function scoreTimeSpreadCandidate(
+  metrics: CandidateMetrics,
+  opts: {
+    mode?: TradingMode;
+    debit: number; // debit paid - REQUIRED
+    targetDelta: number; // |delta| the short (front) leg should sit at
+  }
+): ScoringResult {
+  const mode = opts.mode ?? 'DRY_RUN';
+  
+  if (!Number.isFinite(opts.debit) || opts.debit <= 0) {
+    throw new Error('MISSING_DEBIT_FOR_TIME_SPREAD_SCORING: debit parameter is required and must be > 0');
+  }
+  const debit = opts.debit;
+  
+  // Term structure: reject when the back month is much richer than the front
+  // (per strategy-engine.md: term_structure < -0.05 → reject)
+  const termStructure = metrics.term_structure;
+  if (!Number.isFinite(termStructure) || termStructure < MIN_TERM_STRUCTURE) {
+    throw new Error('HARD_FILTER: TERM_STRUCTURE_OUT_OF_RANGE');
+  }
+  
+  // Normalize IVR to 0-1 scale if it comes in as 0-100
+  let ivr_value = metrics.ivr;
+  if (ivr_value != null && ivr_value > 1.0 && ivr_value <= 100.0) {
+    ivr_value = ivr_value / 100.0;
+  }
+  if (mode !== 'SANDBOX_PAPER') {
+    // Long vega: skip rich-IV regimes where a volatility collapse hits the back month hardest
+    if (!Number.isFinite(ivr_value) || ivr_value > 0.60) {
+      throw new Error('HARD_FILTER: IVR_OUT_OF_RANGE');
+    }
+  }
+  
+  // R:R >= 0.25 (max_profit is the estimated value at front expiry with the underlying pinned at the short strike)
+  const rewardToRisk = metrics.max_profit / debit;
+  if (!Number.isFinite(rewardToRisk) || rewardToRisk < 0.25) {
+    throw new Error('HARD_FILTER: REWARD_TO_RISK_TOO_LOW');
+  }
+  
+  // Component scores
+  const termScore = termStructureSlopeScore(termStructure);
+  const rrScore = clamp((rewardToRisk - 0.25) / 0.75, 0, 1); // 0.25 → 0, 1.0+ → 1
+  const deltaScore = deltaSuitabilityScore(Math.abs(metrics.delta_short), opts.targetDelta);
+  const ivrScore = ivrTimeSpreadScore(ivr_value);
+  const liquidityScore = computeLiquidityScore(metrics);
+  
+  // Weighted composite
+  const composite_score =
+    termScore * 0.40 +
+    rrScore * 0.25 +
+    deltaScore * 0.15 +
+    ivrScore * 0.10 +
+    liquidityScore * 0.10;
+  
+  console.log('[scoring][time_spread]', JSON.stringify({
+    symbol: metrics.symbol,
+    expiration: metrics.expiration,
+    debit,
+    termStructure,
+    rewardToRisk,
+    termScore,
+    rrScore,
+    deltaScore,
+    ivrScore,
+    liquidityScore,
+    composite_score,
+  }));
+  
+  return {
+    ivr_score: ivrScore,
+    vertical_skew_score: 1, // Not applicable (legs are in different expirations)
+    term_structure_score: termScore,
+    delta_fitness_score: deltaScore,
+    ev_score: rrScore, // Note: this is a reward:risk proxy, not normalized EV
+    composite_score,
+    ev: metrics.max_profit * metrics.pop - debit * (1 - metrics.pop),
+    pop: metrics.pop,
+  };
+}
+
+// Term structure floor shared with strategy-engine.md §5.2
+const MIN_TERM_STRUCTURE = -0.05;
+
+function termStructureSlopeScore(termStructure: number): number {
+  // Flat-to-inverted (-0.05) scores 0; front month 10%+ richer than the back scores 1
+  return clamp((termStructure - MIN_TERM_STRUCTURE) / (0.10 - MIN_TERM_STRUCTURE), 0, 1);
+}
+
+function ivrTimeSpreadScore(ivr: number): number {
+  // For time spreads (long vega): prefer IVR <= 0.30, soft floor of 0.5 at high IVR
+  if (!Number.isFinite(ivr)) return 0.6; // Soft floor
+  if (ivr <= 0.30) return 1.0;
+  return Math.max(0.5, clamp(1 - (ivr - 0.30) / 0.30, 0, 1));
+}
+
 /**
  * Compute liquidity score based on combined bid-ask spreads
  * 
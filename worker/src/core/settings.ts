@@ -0,0 +1,1368 @@
+/**
+ * Settings Registry
+ *
+ * Declares every operator-editable setting: type, range, default, legacy keys,
+ * trading-mode variants and description. The engine reads settings through the typed
+ * accessors below; POST /v2/admin/settings validates against the same definitions and
+ * the Settings page renders its form from them (GET /v2/admin/settings → schema).
+ *
+ * Resolution for a key (first valid value wins):
+ * 1) the trading-mode variant (e.g. MIN_SCORE_PAPER), when read with getModeNumberSetting
+ * 2) the key itself
+ * 3) its legacy keys, in order (e.g. MAX_OPEN_POSITIONS for MAX_OPEN_SPREADS_GLOBAL)
+ * 4) the default
+ * Empty strings count as unset; invalid stored values are logged and skipped.
+ *
+ * Values come from the settings snapshot (db/queries.ts getSettingsSnapshot), read once
+ * per request / cron run. Runtime state kept in the settings table (LAST_*_RUN, price
+ * history keys, previous regimes) is not registered and is read with getSetting.
+ */
+
+import type { Env } from '../env';
+import type { TradingMode } from './config';
+import { getSettingsSnapshot } from '../db/queries';
+import { StrategyId } from '../strategy/types';
+import { parseMarketCalendarOverrides } from './marketCalendar';
+import { parseCorrelationGroups } from './correlation';
+import { isValidSymbol } from './symbols';
+
+export type SettingType = 'number' | 'integer' | 'boolean' | 'enum' | 'time' | 'string' | 'numberList' | 'json';
+
+export type SettingCategory =
+  | 'trading'
+  | 'scoring'
+  | 'risk'
+  | 'exitRules'
+  | 'execution'
+  | 'signals'
+  | 'sizing'
+  | 'scenarios'
+  | 'simulation'
+  | 'other';
+
+export const SETTING_CATEGORIES: Array<{ id: SettingCategory; label: string }> = [
+  { id: 'trading', label: 'Trading Mode & Auto-Execution' },
+  { id: 'scoring', label: 'Scoring Thresholds' },
+  { id: 'risk', label: 'Risk Management' },
+  { id: 'exitRules', label: 'Exit Rules' },
+  { id: 'execution', label: 'Order Execution' },
+  { id: 'signals', label: 'Volatility, Regime & Beta' },
+  { id: 'sizing', label: 'Position Sizing' },
+  { id: 'scenarios', label: 'Stress Scenarios' },
+  { id: 'simulation', label: 'Simulated Broker' },
+  { id: 'other', label: 'Other Settings' },
+];
+
+export interface SettingDefinition {
+  key: string;
+  type: SettingType;
+  label: string;
+  description: string;
+  category: SettingCategory;
+  default: string | null;         // stored form; null = unset (feature off / no value)
+  min?: number;                   // number, integer and numberList items (inclusive)
+  max?: number;
+  maxItems?: number;              // numberList
+  options?: string[];             // enum (matched case-insensitively unless caseSensitive)
+  caseSensitive?: boolean;        // enum: only the exact option strings are valid
+  legacyKeys?: string[];          // read, in order, when the key itself is unset
+  modeVariants?: Partial<Record<TradingMode, string>>;  // per-mode keys that override the key
+  deprecated?: string;            // still accepted; explains what replaced it
+  variantOf?: string;             // set on expanded variant / legacy definitions
+  validate?: (value: string) => string[];
+}
+
+export type SettingValue = number | boolean | string | number[] | unknown;
+
+const STRATEGY_IDS = Object.values(StrategyId) as string[];
+
+function validateStrategyList(value: string): string[] {
+  return value
+    .split(',')
+    .map(s => s.trim().toUpperCase())
+    .filter(s => s && !STRATEGY_IDS.includes(s))
+    .map(s => `Unknown strategy: ${s} (valid: ${STRATEGY_IDS.join(', ')})`);
+}
+
+function validateSymbolList(value: string): string[] {
+  return value
+    .split(',')
+    .map(s => s.trim().toUpperCase())
+    .filter(s => s && !isValidSymbol(s))
+    .map(s => `Invalid symbol: ${s}`);
+}
+
+function validateRegimeStrategyMap(value: string): string[] {
+  const parsed = JSON.parse(value) as unknown;
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return ['Must be a JSON object of regime → strategy arrays'];
+  }
+  const errors: string[] = [];
+  for (const [key, strategies] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!Array.isArray(strategies)) {
+      errors.push(`${key}: must be an array`);
+      continue;
+    }
+    errors.push(...validateStrategyList(strategies.map(String).join(',')).map(error => `${key}: ${error}`));
+  }
+  return errors;
+}
+
+const SETTING_DEFINITIONS: SettingDefinition[] = [
+  // Trading
+  {
+    key: 'TRADING_MODE',
+    type: 'enum',
+    label: 'Trading Mode',
+    description: 'DRY_RUN (no orders), SANDBOX_PAPER or LIVE',
+    category: 'trading',
+    default: 'DRY_RUN',
+    options: ['DRY_RUN', 'SANDBOX_PAPER', 'LIVE'],
+    caseSensitive: true, // a typo ('live') must fall back to DRY_RUN, never enable real-money trading
+  },
+  {
+    key: 'AUTO_MODE_ENABLED_PAPER',
+    type: 'boolean',
+    label: 'Auto Mode (Paper)',
+    description: 'Enable auto-execution in SANDBOX_PAPER mode',
+    category: 'trading',
+    default: 'false',
+  },
+  {
+    key: 'AUTO_MODE_ENABLED_LIVE',
+    type: 'boolean',
+    label: 'Auto Mode (Live)',
+    description: 'Enable auto-execution in LIVE mode',
+    category: 'trading',
+    default: 'false',
+  },
+  {
+    key: 'AUTO_MODE_ENABLED',
+    type: 'boolean',
+    label: 'Auto Mode (Legacy)',
+    description: 'Initialized to false by premarket; reported by /debug/health',
+    category: 'trading',
+    default: 'false',
+    deprecated: 'Auto-execution uses AUTO_MODE_ENABLED_PAPER / AUTO_MODE_ENABLED_LIVE',
+  },
+  {
+    key: 'PROPOSAL_STRATEGY_WHITELIST',
+    type: 'string',
+    label: 'Strategy Whitelist',
+    description: 'Comma-separated strategies allowed to propose (empty = all)',
+    category: 'trading',
+    default: null,
+    validate: validateStrategyList,
+  },
+  {
+    key: 'PROPOSAL_UNDERLYING_WHITELIST',
+    type: 'string',
+    label: 'Underlying Whitelist',
+    description: 'Comma-separated symbols allowed to propose, e.g. SPY,QQQ (empty = all)',
+    category: 'trading',
+    default: null,
+    validate: validateSymbolList,
+  },
+  {
+    key: 'PROPOSAL_DTE_MIN',
+    type: 'integer',
+    label: 'Proposal DTE Min',
+    description: 'Shortest expiration considered for proposals (days)',
+    category: 'trading',
+    default: '30',
+    min: 0,
+    max: 365,
+  },
+  {
+    key: 'PROPOSAL_DTE_MAX',
+    type: 'integer',
+    label: 'Proposal DTE Max',
+    description: 'Longest expiration considered for proposals (days)',
+    category: 'trading',
+    default: '35',
+    min: 0,
+    max: 365,
+  },
+
+  // Scoring
+  {
+    key: 'PROPOSAL_MIN_SCORE',
+    type: 'number',
+    label: 'Min Score',
+    description: 'Minimum composite score for a proposal; the Paper/Live variants override it per mode (DRY_RUN always uses 70)',
+    category: 'scoring',
+    default: '70',
+    min: 0,
+    max: 100,
+    modeVariants: { SANDBOX_PAPER: 'MIN_SCORE_PAPER', LIVE: 'MIN_SCORE_LIVE' },
+    validate: value => (Number(value) > 0 ? [] : ['Must be greater than 0']),
+  },
+  {
+    key: 'MIN_CREDIT_FRACTION',
+    type: 'number',
+    label: 'Min Credit Fraction',
+    description: 'Minimum credit as a fraction of width (0.16 = $0.80 on a 5-wide)',
+    category: 'scoring',
+    default: '0.16',
+    min: 0,
+    max: 1,
+  },
+
+  // Risk
+  {
+    key: 'MAX_TRADE_QUANTITY',
+    type: 'integer',
+    label: 'Max Trade Quantity',
+    description: 'Maximum contracts per trade',
+    category: 'risk',
+    default: '10',
+    min: 1,
+    max: 1000,
+  },
+  {
+    key: 'MAX_TRADE_LOSS_DOLLARS',
+    type: 'number',
+    label: 'Max Trade Loss ($)',
+    description: 'Reject credit spreads whose max_loss exceeds this (0 = unlimited)',
+    category: 'risk',
+    default: '0',
+    min: 0,
+  },
+  {
+    key: 'MAX_TRADE_DEBIT_DOLLARS',
+    type: 'number',
+    label: 'Max Trade Debit ($)',
+    description: 'Reject debit spreads whose max_loss exceeds this',
+    category: 'risk',
+    default: '250',
+    min: 0,
+  },
+  {
+    key: 'DAILY_MAX_NEW_RISK',
+    type: 'number',
+    label: 'Daily Max New Risk ($)',
+    description: 'Stop opening trades once the max_loss opened today reaches this (0 = unlimited)',
+    category: 'risk',
+    default: '0',
+    min: 0,
+  },
+  {
+    key: 'DAILY_MAX_LOSS',
+    type: 'number',
+    label: 'Daily Max Loss ($)',
+    description: 'Daily realized PnL floor as a negative number, e.g. -500 (0 = use Max Daily Loss %)',
+    category: 'risk',
+    default: '0',
+    max: 0,
+  },
+  {
+    key: 'MAX_DAILY_LOSS_PCT',
+    type: 'number',
+    label: 'Max Daily Loss %',
+    description: 'Maximum daily loss as a fraction of account equity (0.02 = 2%)',
+    category: 'risk',
+    default: '0.02',
+    min: 0,
+    max: 1,
+  },
+  {
+    key: 'ACCOUNT_EQUITY_REFERENCE',
+    type: 'number',
+    label: 'Account Equity Reference',
+    description: 'Reference account equity for risk calculations',
+    category: 'risk',
+    default: '100000',
+    min: 1,
+  },
+  {
+    key: 'MAX_OPEN_SPREADS_GLOBAL',
+    type: 'integer',
+    label: 'Max Open Spreads',
+    description: 'Maximum open spreads (trades, not contracts) at once',
+    category: 'risk',
+    default: '10',
+    min: 1,
+    max: 1000,
+    legacyKeys: ['MAX_OPEN_POSITIONS'],
+  },
+  {
+    key: 'MAX_OPEN_SPREADS_PER_SYMBOL',
+    type: 'integer',
+    label: 'Max Open Spreads per Symbol',
+    description: 'Maximum open spreads per underlying (auto-execution)',
+    category: 'risk',
+    default: '5',
+    min: 1,
+    max: 1000,
+  },
+  {
+    key: 'MAX_SPREADS_PER_SYMBOL',
+    type: 'integer',
+    label: 'Max Spreads per Symbol',
+    description: 'Maximum open or pending spreads per underlying, re-checked before trade creation',
+    category: 'risk',
+    default: '3',
+    min: 1,
+    max: 1000,
+  },
+  {
+    key: 'MAX_NEW_TRADES_PER_DAY',
+    type: 'integer',
+    label: 'Max New Trades per Day',
+    description: 'Maximum trades opened per day',
+    category: 'risk',
+    default: '5',
+    min: 1,
+    max: 1000,
+    legacyKeys: ['MAX_TRADES_PER_DAY'],
+  },
+  {
+    key: 'MAX_QTY_PER_SYMBOL_PER_SIDE',
+    type: 'integer',
+    label: 'Max Qty per Symbol per Side',
+    description: 'Maximum contracts per underlying and direction',
+    category: 'risk',
+    default: '10',
+    min: 1,
+    max: 10000,
+  },
+  {
+    key: 'MAX_TOTAL_QTY_PER_SYMBOL',
+    type: 'integer',
+    label: 'Max Total Qty per Symbol',
+    description: 'Maximum contracts per underlying across all open spreads',
+    category: 'risk',
+    default: '50',
+    min: 1,
+    max: 10000,
+  },
+  {
+    key: 'MAX_QTY_PER_SPREAD',
+    type: 'integer',
+    label: 'Max Qty per Spread',
+    description: 'Maximum contracts per spread (initialized by /debug/set-concentration-limits)',
+    category: 'risk',
+    default: '10',
+    min: 1,
+    max: 1000,
+  },
+  {
+    key: 'MAX_BULL_TRADES',
+    type: 'integer',
+    label: 'Max Bull Trades',
+    description: 'Maximum open bullish trades',
+    category: 'risk',
+    default: '3',
+    min: 0,
+    max: 1000,
+  },
+  {
+    key: 'MAX_DEBIT_TRADES',
+    type: 'integer',
+    label: 'Max Bull Debit Trades',
+    description: 'Maximum open bullish debit spreads',
+    category: 'risk',
+    default: '1',
+    min: 0,
+    max: 1000,
+  },
+  {
+    key: 'MAX_BEAR_TRADES',
+    type: 'integer',
+    label: 'Max Bear Trades',
+    description: 'Maximum open bearish trades',
+    category: 'risk',
+    default: '3',
+    min: 0,
+    max: 1000,
+  },
+  {
+    key: 'MAX_DEBIT_BEAR_TRADES',
+    type: 'integer',
+    label: 'Max Bear Debit Trades',
+    description: 'Maximum open bearish debit spreads',
+    category: 'risk',
+    default: '1',
+    min: 0,
+    max: 1000,
+  },
+  {
+    key: 'GLOBAL_BULL_RISK_CAP',
+    type: 'number',
+    label: 'Bull Risk Cap ($)',
+    description: 'Maximum summed max_loss of bullish trades (0 = unlimited)',
+    category: 'risk',
+    default: '2500',
+    min: 0,
+  },
+  {
+    key: 'GLOBAL_BEAR_RISK_CAP',
+    type: 'number',
+    label: 'Bear Risk Cap ($)',
+    description: 'Maximum summed max_loss of bearish trades (0 = unlimited)',
+    category: 'risk',
+    default: '2500',
+    min: 0,
+  },
+  {
+    key: 'UNDERLYING_MAX_RISK',
+    type: 'number',
+    label: 'Underlying Max Risk ($)',
+    description: 'Maximum summed max_loss per underlying (0 = unlimited)',
+    category: 'risk',
+    default: '0',
+    min: 0,
+  },
+  {
+    key: 'EXPIRY_MAX_RISK',
+    type: 'number',
+    label: 'Expiry Max Risk ($)',
+    description: 'Maximum summed max_loss per (symbol, expiration) (0 = unlimited)',
+    category: 'risk',
+    default: '0',
+    min: 0,
+  },
+  {
+    key: 'MAX_RISK_FRACTION_OF_BUYING_POWER',
+    type: 'number',
+    label: 'Max Risk / Buying Power',
+    description: 'Maximum open risk as a fraction of broker buying power',
+    category: 'risk',
+    default: '0.2',
+    min: 0,
+    max: 1,
+  },
+  {
+    key: 'DEFAULT_SPREAD_WIDTH',
+    type: 'number',
+    label: 'Default Spread Width',
+    description: 'Width assumed for a new trade in the buying power check',
+    category: 'risk',
+    default: '5',
+    min: 0,
+  },
+  {
+    key: 'MAX_NET_DELTA_SPY',
+    type: 'number',
+    label: 'Max Net Delta (SPY-weighted)',
+    description: 'Block new entries when |beta-weighted net delta| reaches this many SPY shares (0 = disabled)',
+    category: 'risk',
+    default: '0',
+    min: 0,
+  },
+  {
+    key: 'MAX_SHORT_GAMMA',
+    type: 'number',
+    label: 'Max Short Gamma',
+    description: 'Block new entries when net short gamma (share-equivalents per $1) reaches this value (0 = disabled)',
+    category: 'risk',
+    default: '0',
+    min: 0,
+  },
+  {
+    key: 'MAX_VEGA_EXPOSURE',
+    type: 'number',
+    label: 'Max Vega Exposure',
+    description: 'Block new entries when |net vega| ($ per vol point) reaches this value (0 = disabled)',
+    category: 'risk',
+    default: '0',
+    min: 0,
+  },
+  {
+    key: 'GREEKS_SNAPSHOT_MAX_AGE_MINUTES',
+    type: 'number',
+    label: 'Greeks Snapshot Max Age (min)',
+    description: 'Older portfolio Greek snapshots are ignored by the Greek limits',
+    category: 'risk',
+    default: '15',
+    min: 1,
+  },
+  {
+    key: 'TARGET_DELTA_SPY_MIN',
+    type: 'number',
+    label: 'Target Delta Band Min',
+    description: 'Lower bound of the beta-weighted net delta band (SPY shares); the ranker prefers candidates moving the book into the band. Set both min and max to enable',
+    category: 'risk',
+    default: null,
+  },
+  {
+    key: 'TARGET_DELTA_SPY_MAX',
+    type: 'number',
+    label: 'Target Delta Band Max',
+    description: 'Upper bound of the beta-weighted net delta band (SPY shares)',
+    category: 'risk',
+    default: null,
+  },
+  {
+    key: 'CLUSTER_MAX_RISK',
+    type: 'number',
+    label: 'Cluster Max Risk',
+    description: 'Max summed max_loss of same-direction open trades across a correlation cluster (0 = disabled)',
+    category: 'risk',
+    default: '0',
+    min: 0,
+  },
+  {
+    key: 'CORRELATION_GROUPS',
+    type: 'string',
+    label: 'Correlation Groups',
+    description: 'Fixed clusters, e.g. "SPY,QQQ,MSFT,AAPL;NVDA,AMD" (empty = compute clusters from price history)',
+    category: 'risk',
+    default: null,
+    validate: value => parseCorrelationGroups(value).errors,
+  },
+  {
+    key: 'CORRELATION_THRESHOLD',
+    type: 'number',
+    label: 'Correlation Threshold',
+    description: 'Daily-return correlation at which two underlyings join the same computed cluster',
+    category: 'risk',
+    default: '0.70',
+    min: 0,
+    max: 1,
+  },
+  {
+    key: 'CORRELATION_LOOKBACK_DAYS',
+    type: 'integer',
+    label: 'Correlation Lookback (days)',
+    description: 'Daily returns used for correlations',
+    category: 'risk',
+    default: '63',
+    min: 20,
+    max: 504,
+  },
+
+  // Exit rules
+  {
+    key: 'CLOSE_RULE_PROFIT_TARGET_FRACTION',
+    type: 'number',
+    label: 'Profit Target Fraction',
+    description: 'Profit target as fraction of max gain, e.g. 0.35 (unset = strategy default)',
+    category: 'exitRules',
+    default: null,
+    min: 0,
+    max: 1,
+  },
+  {
+    key: 'CLOSE_RULE_STOP_LOSS_FRACTION',
+    type: 'number',
+    label: 'Stop Loss Fraction',
+    description: 'Stop loss as fraction of max loss, e.g. 0.30 (unset or negative = strategy default)',
+    category: 'exitRules',
+    default: null,
+    min: -1,
+    max: 1,
+  },
+  {
+    key: 'CLOSE_RULE_TIME_EXIT_DTE',
+    type: 'integer',
+    label: 'Time Exit DTE',
+    description: 'Days to expiration threshold for time-based exit',
+    category: 'exitRules',
+    default: '2',
+    min: 0,
+    max: 365,
+  },
+  {
+    key: 'CLOSE_RULE_TIME_EXIT_DTE_MEASURE',
+    type: 'enum',
+    label: 'Time Exit DTE Measure',
+    description: 'Count Time Exit DTE in CALENDAR days or TRADING sessions left (fractional intraday, skips weekends/holidays)',
+    category: 'exitRules',
+    default: 'CALENDAR',
+    options: ['CALENDAR', 'TRADING'],
+  },
+  {
+    key: 'CLOSE_RULE_TIME_EXIT_CUTOFF',
+    type: 'time',
+    label: 'Time Exit Cutoff',
+    description: 'Time cutoff for time-based exit (HH:MM, ET)',
+    category: 'exitRules',
+    default: '15:50',
+  },
+  {
+    key: 'CLOSE_RULE_IV_CRUSH_THRESHOLD',
+    type: 'number',
+    label: 'IV Crush Threshold',
+    description: 'IV crush threshold (0.85 = 85% of entry IV)',
+    category: 'exitRules',
+    default: '0.85',
+    min: 0,
+    max: 1,
+  },
+  {
+    key: 'CLOSE_RULE_IV_CRUSH_MIN_PNL',
+    type: 'number',
+    label: 'IV Crush Min PnL',
+    description: 'Minimum PnL required to trigger IV crush exit (0.15 = 15%)',
+    category: 'exitRules',
+    default: '0.15',
+    min: 0,
+    max: 1,
+  },
+  {
+    key: 'CLOSE_RULE_TRAIL_ARM_PROFIT_FRACTION',
+    type: 'number',
+    label: 'Trail Arm Profit Fraction',
+    description: 'Profit fraction to start trailing (0.25 = 25%)',
+    category: 'exitRules',
+    default: '0.25',
+    min: 0,
+    max: 1,
+  },
+  {
+    key: 'CLOSE_RULE_TRAIL_GIVEBACK_FRACTION',
+    type: 'number',
+    label: 'Trail Giveback Fraction',
+    description: 'Giveback from peak that triggers the trailing exit (0.10 = 10%)',
+    category: 'exitRules',
+    default: '0.10',
+    min: 0,
+    max: 1,
+  },
+  {
+    key: 'CLOSE_RULE_TRAILBACK_FRACTION',
+    type: 'number',
+    label: 'Trailback Fraction (Legacy)',
+    description: 'Initialized by premarket; not read by the close rules',
+    category: 'exitRules',
+    default: null,
+    min: 0,
+    max: 1,
+    deprecated: 'Use CLOSE_RULE_TRAIL_GIVEBACK_FRACTION',
+  },
+  {
+    key: 'CLOSE_RULE_LIQUIDITY_SPREAD_THRESHOLD',
+    type: 'number',
+    label: 'Liquidity Spread Threshold',
+    description: 'Emergency exit when the bid/ask spread widens past this (fraction of mid)',
+    category: 'exitRules',
+    default: '0.30',
+    min: 0,
+  },
+  {
+    key: 'CLOSE_RULE_UNDERLYING_SPIKE_THRESHOLD',
+    type: 'number',
+    label: 'Underlying Spike Threshold',
+    description: 'Emergency exit when the underlying moves this much in a minute (0.005 = 0.5%)',
+    category: 'exitRules',
+    default: '0.005',
+    min: 0,
+    max: 1,
+  },
+  {
+    key: 'CLOSE_RULE_LOW_VALUE_CLOSE_THRESHOLD',
+    type: 'number',
+    label: 'Low Value Close Threshold',
+    description: 'Close a spread once it is worth less than this per share',
+    category: 'exitRules',
+    default: '0.05',
+    min: 0,
+  },
+  {
+    key: 'CLOSE_RULE_CONDOR_WING_BREACH_BUFFER',
+    type: 'number',
+    label: 'Condor Wing Breach Buffer',
+    description: 'Close an iron condor wing once the underlying is within this fraction of its short strike',
+    category: 'exitRules',
+    default: '0.01',
+    min: 0,
+    max: 1,
+  },
+  {
+    key: 'CLOSE_RULE_TIME_SPREAD_FRONT_EXIT_DTE',
+    type: 'number',
+    label: 'Time Spread Front Exit DTE',
+    description: 'Close calendars/diagonals this many days before the front expiration',
+    category: 'exitRules',
+    default: '2',
+    min: 0,
+    max: 365,
+  },
+  {
+    key: 'CLOSE_RULE_ASSIGNMENT_EXTRINSIC_THRESHOLD',
+    type: 'number',
+    label: 'Assignment Extrinsic Threshold',
+    description: 'Close when an ITM front short call has less extrinsic value than this per share',
+    category: 'exitRules',
+    default: '0.10',
+    min: 0,
+  },
+
+  // Execution
+  {
+    key: 'ENTRY_WALK_TICK',
+    type: 'number',
+    label: 'Entry Walk Tick',
+    description: 'Limit price step from mid toward natural per entry walk step',
+    category: 'execution',
+    default: '0.05',
+    min: 0.01,
+    max: 1,
+  },
+  {
+    key: 'ENTRY_WALK_SCHEDULE_MS',
+    type: 'numberList',
+    label: 'Entry Walk Schedule (ms)',
+    description: 'Comma-separated wait per walk step; its length is the number of steps',
+    category: 'execution',
+    default: '5000,5000,5000,5000,5000,5000',
+    min: 1000,
+    max: 60000,
+    maxItems: 10,
+  },
+  {
+    key: 'EXIT_LADDER_PATIENT_TICK',
+    type: 'number',
+    label: 'Patient Exit Ladder Tick',
+    description: 'Limit step toward natural for profit target / time exits',
+    category: 'execution',
+    default: '0.02',
+    min: 0.01,
+    max: 1,
+  },
+  {
+    key: 'EXIT_LADDER_PATIENT_SCHEDULE_MS',
+    type: 'numberList',
+    label: 'Patient Exit Ladder Schedule (ms)',
+    description: 'Comma-separated wait per step for profit target / time exits',
+    category: 'execution',
+    default: '8000,8000,8000,8000,8000,8000',
+    min: 1000,
+    max: 60000,
+    maxItems: 10,
+  },
+  {
+    key: 'EXIT_LADDER_FAST_TICK',
+    type: 'number',
+    label: 'Fast Exit Ladder Tick',
+    description: 'Limit step toward natural for stop loss exits',
+    category: 'execution',
+    default: '0.05',
+    min: 0.01,
+    max: 1,
+  },
+  {
+    key: 'EXIT_LADDER_FAST_SCHEDULE_MS',
+    type: 'numberList',
+    label: 'Fast Exit Ladder Schedule (ms)',
+    description: 'Comma-separated wait per step for stop loss exits',
+    category: 'execution',
+    default: '3000,3000,3000,3000',
+    min: 1000,
+    max: 60000,
+    maxItems: 10,
+  },
+  {
+    key: 'EXIT_LADDER_CYCLE_BUDGET_MS',
+    type: 'integer',
+    label: 'Exit Ladder Budget per Cycle (ms)',
+    description: 'Total time one monitor cycle spends on profit target / time exit ladders; unfinished ladders resume next cycle',
+    category: 'execution',
+    default: '20000',
+    min: 5000,
+    max: 120000,
+  },
+
+  // Volatility, regime and beta
+  {
+    key: 'IVR_LOOKBACK_DAYS',
+    type: 'integer',
+    label: 'IV Rank Lookback (days)',
+    description: 'Calendar days of IV history for IV Rank (365 = 52 weeks)',
+    category: 'signals',
+    default: '365',
+    min: 30,
+    max: 1095,
+  },
+  {
+    key: 'IVR_MIN_HISTORY_DAYS',
+    type: 'integer',
+    label: 'IV Rank Min History (days)',
+    description: 'Samples required before IV Rank is trusted',
+    category: 'signals',
+    default: '60',
+    min: 1,
+    max: 1095,
+  },
+  {
+    key: 'IVR_FALLBACK_POLICY',
+    type: 'enum',
+    label: 'IV Rank Fallback',
+    description: 'Short history: NEUTRAL (IVR = 0.5) or PARTIAL_HISTORY (rank against what exists)',
+    category: 'signals',
+    default: 'NEUTRAL',
+    options: ['NEUTRAL', 'PARTIAL_HISTORY'],
+  },
+  {
+    key: 'RV_WINDOWS',
+    type: 'numberList',
+    label: 'Realized Vol Windows',
+    description: 'Comma-separated trading-day windows (the gate window is always included)',
+    category: 'signals',
+    default: '10,21,63',
+    min: 2,
+    max: 252,
+  },
+  {
+    key: 'RV_GATE_WINDOW',
+    type: 'integer',
+    label: 'RV Gate Window',
+    description: 'Window used as rv_30d for the RV/IV gate and scoring (21 ≈ 30 calendar days)',
+    category: 'signals',
+    default: '21',
+    min: 2,
+    max: 252,
+  },
+  {
+    key: 'RV_GATE_METHOD',
+    type: 'enum',
+    label: 'RV Gate Method',
+    description: 'Estimator for rv_30d',
+    category: 'signals',
+    default: 'CLOSE_TO_CLOSE',
+    options: ['CLOSE_TO_CLOSE', 'PARKINSON'],
+  },
+  {
+    key: 'DAILY_BARS_LOOKBACK_DAYS',
+    type: 'integer',
+    label: 'Daily Bars Lookback (days)',
+    description: 'Calendar days of bars kept for indicators; must cover the longest indicator',
+    category: 'signals',
+    default: '400',
+    min: 60,
+    max: 2000,
+  },
+  {
+    key: 'DAILY_BARS_STALE_AFTER_DAYS',
+    type: 'integer',
+    label: 'Daily Bars Stale After (days)',
+    description: 'Warn when the newest stored bar is older than this',
+    category: 'signals',
+    default: '5',
+    min: 1,
+    max: 60,
+  },
+  {
+    key: 'REGIME_TREND_WEIGHT',
+    type: 'number',
+    label: 'Regime Trend Weight',
+    description: 'Weight of the trend factor in the regime composite',
+    category: 'signals',
+    default: '0.6',
+    min: 0,
+  },
+  {
+    key: 'REGIME_MOMENTUM_WEIGHT',
+    type: 'number',
+    label: 'Regime Momentum Weight',
+    description: 'Weight of the momentum factor in the regime composite',
+    category: 'signals',
+    default: '0.4',
+    min: 0,
+  },
+  {
+    key: 'REGIME_ENTER_THRESHOLD',
+    type: 'number',
+    label: 'Regime Enter Threshold',
+    description: '|composite| needed to enter BULL/BEAR',
+    category: 'signals',
+    default: '0.25',
+    min: 0,
+  },
+  {
+    key: 'REGIME_EXIT_THRESHOLD',
+    type: 'number',
+    label: 'Regime Exit Threshold',
+    description: '|composite| below which BULL/BEAR falls back to NEUTRAL (clamped to the enter threshold)',
+    category: 'signals',
+    default: '0.10',
+    min: 0,
+  },
+  {
+    key: 'REGIME_VIX_HIGH',
+    type: 'number',
+    label: 'Regime VIX High',
+    description: 'VIX at or above → HIGH volatility',
+    category: 'signals',
+    default: '25',
+    min: 0,
+  },
+  {
+    key: 'REGIME_VIX_LOW',
+    type: 'number',
+    label: 'Regime VIX Low',
+    description: 'VIX at or below → LOW volatility candidate',
+    category: 'signals',
+    default: '15',
+    min: 0,
+  },
+  {
+    key: 'REGIME_ATR_PCTL_HIGH',
+    type: 'number',
+    label: 'Regime ATR Percentile High',
+    description: 'ATR% percentile at or above → HIGH volatility',
+    category: 'signals',
+    default: '0.80',
+    min: 0,
+    max: 1,
+  },
+  {
+    key: 'REGIME_ATR_PCTL_LOW',
+    type: 'number',
+    label: 'Regime ATR Percentile Low',
+    description: 'ATR% percentile at or below → LOW volatility candidate',
+    category: 'signals',
+    default: '0.30',
+    min: 0,
+    max: 1,
+  },
+  {
+    key: 'REGIME_STRATEGY_MAP',
+    type: 'json',
+    label: 'Regime Strategy Map',
+    description: 'JSON overrides of the regime → strategies table, e.g. {"BULL":["BULL_PUT_CREDIT"],"BULL:HIGH":[]}',
+    category: 'signals',
+    default: null,
+    validate: validateRegimeStrategyMap,
+  },
+  {
+    key: 'BETA_LOOKBACK_DAYS',
+    type: 'integer',
+    label: 'Beta Lookback (days)',
+    description: 'Daily returns used to estimate each underlying\'s beta to SPY',
+    category: 'signals',
+    default: '126',
+    min: 20,
+    max: 504,
+  },
+  {
+    key: 'BETA_MIN_OBSERVATIONS',
+    type: 'integer',
+    label: 'Beta Min Observations',
+    description: 'Fewer aligned returns fall back to beta 1.0',
+    category: 'signals',
+    default: '40',
+    min: 10,
+    max: 504,
+  },
+
+  // Sizing
+  {
+    key: 'SIZING_MODE',
+    type: 'enum',
+    label: 'Sizing Mode',
+    description: 'FIXED uses Default Trade Quantity; RISK_BUDGET sizes each proposal from equity, volatility, score and the risk caps',
+    category: 'sizing',
+    default: 'FIXED',
+    options: ['FIXED', 'RISK_BUDGET'],
+  },
+  {
+    key: 'DEFAULT_TRADE_QUANTITY',
+    type: 'integer',
+    label: 'Default Trade Quantity',
+    description: 'Contracts per trade when Sizing Mode is FIXED (capped at Max Trade Quantity)',
+    category: 'sizing',
+    default: '1',
+    min: 1,
+    max: 1000,
+  },
+  {
+    key: 'SIZING_RISK_FRACTION',
+    type: 'number',
+    label: 'Sizing Risk Fraction',
+    description: 'Fraction of account equity risked per trade before scaling (0.01 = 1%)',
+    category: 'sizing',
+    default: '0.01',
+    min: 0,
+    max: 1,
+  },
+  {
+    key: 'SIZING_VOL_TARGET_IV',
+    type: 'number',
+    label: 'Sizing Volatility Target',
+    description: 'ATM IV at which volatility scaling is 1.0; higher IV sizes down',
+    category: 'sizing',
+    default: '0.20',
+    min: 0.01,
+    max: 5,
+  },
+  {
+    key: 'SIZING_SCORE_REFERENCE',
+    type: 'number',
+    label: 'Sizing Score Reference',
+    description: 'Composite score at which score scaling is 1.0',
+    category: 'sizing',
+    default: '0.80',
+    min: 0.01,
+  },
+  {
+    key: 'SIZING_MIN_SCALE',
+    type: 'number',
+    label: 'Sizing Min Scale',
+    description: 'Floor for each scale factor',
+    category: 'sizing',
+    default: '0.5',
+    min: 0,
+  },
+  {
+    key: 'SIZING_MAX_SCALE',
+    type: 'number',
+    label: 'Sizing Max Scale',
+    description: 'Ceiling for each scale factor (at least the min scale)',
+    category: 'sizing',
+    default: '1.5',
+    min: 0,
+  },
+
+  // Scenarios
+  {
+    key: 'SCENARIO_MAX_LOSS',
+    type: 'number',
+    label: 'Scenario Max Loss ($)',
+    description: 'Reject proposals that push the worst-case stress scenario loss of the book above this (0 = disabled)',
+    category: 'scenarios',
+    default: '0',
+    min: 0,
+  },
+  {
+    key: 'SCENARIO_UNDERLYING_MOVES',
+    type: 'numberList',
+    label: 'Scenario Underlying Moves (%)',
+    description: 'Comma-separated SPY moves in the stress grid, beta-weighted per underlying',
+    category: 'scenarios',
+    default: '-10,-5,-3,-1,0,1,3,5',
+    min: -100,
+    max: 100,
+  },
+  {
+    key: 'SCENARIO_IV_SHIFTS',
+    type: 'numberList',
+    label: 'Scenario IV Shifts (vol pts)',
+    description: 'Comma-separated IV shifts in the stress grid',
+    category: 'scenarios',
+    default: '-5,0,5,10',
+    min: -100,
+    max: 100,
+  },
+  {
+    key: 'SCENARIO_DAYS_FORWARD',
+    type: 'numberList',
+    label: 'Scenario Days Forward',
+    description: 'Comma-separated days of time decay in the stress grid',
+    category: 'scenarios',
+    default: '0,1,5',
+    min: 0,
+    max: 365,
+  },
+  {
+    key: 'SCENARIO_BETA_WEIGHTED',
+    type: 'boolean',
+    label: 'Scenario Beta Weighted',
+    description: 'Move each underlying by its beta times the SPY move',
+    category: 'scenarios',
+    default: 'true',
+  },
+  {
+    key: 'SCENARIO_RISK_FREE_RATE',
+    type: 'number',
+    label: 'Scenario Risk-Free Rate',
+    description: 'Annualized rate for Black-Scholes repricing',
+    category: 'scenarios',
+    default: '0.04',
+    min: -0.1,
+    max: 0.5,
+  },
+  {
+    key: 'SCENARIO_DEFAULT_IV',
+    type: 'number',
+    label: 'Scenario Default IV',
+    description: 'IV for legs without one',
+    category: 'scenarios',
+    default: '0.25',
+    min: 0.01,
+    max: 5,
+  },
+
+  // Simulated broker
+  {
+    key: 'SIM_FILL_MODEL',
+    type: 'enum',
+    label: 'Fill Model',
+    description: 'mid fills at the mid, touch only at the bid/ask',
+    category: 'simulation',
+    default: 'mid',
+    options: ['mid', 'touch'],
+  },
+  {
+    key: 'SIM_PARTIAL_FILL_RATIO',
+    type: 'number',
+    label: 'Partial Fill Ratio',
+    description: 'Fraction of the remaining quantity filled per matching pass',
+    category: 'simulation',
+    default: '1',
+    min: 0,
+    max: 1,
+  },
+  {
+    key: 'SIM_REJECTION_RATE',
+    type: 'number',
+    label: 'Rejection Rate',
+    description: 'Probability an order is rejected at placement',
+    category: 'simulation',
+    default: '0',
+    min: 0,
+    max: 1,
+  },
+  {
+    key: 'SIM_STARTING_CASH',
+    type: 'number',
+    label: 'Starting Cash',
+    description: 'Starting cash for a fresh simulated ledger',
+    category: 'simulation',
+    default: '100000',
+    min: 1,
+  },
+
+  // Other
+  {
+    key: 'MARKET_CALENDAR_OVERRIDES',
+    type: 'string',
+    label: 'Market Calendar Overrides',
+    description: 'Ad-hoc sessions on top of NYSE holidays/early closes: 2025-01-09 (closed), 2025-12-26@13:00 (early close), 2026-07-03@OPEN (full day)',
+    category: 'other',
+    default: null,
+    validate: value => parseMarketCalendarOverrides(value).errors,
+  },
+];
+
+const MODE_LABELS: Record<TradingMode, string> = {
+  DRY_RUN: 'Dry Run',
+  SANDBOX_PAPER: 'Paper',
+  LIVE: 'Live',
+};
+
+/**
+ * Registered definitions plus one entry per mode variant (variantOf = base key)
+ */
+export function listSettingDefinitions(): SettingDefinition[] {
+  const definitions: SettingDefinition[] = [];
+  for (const definition of SETTING_DEFINITIONS) {
+    definitions.push(definition);
+    for (const [mode, key] of Object.entries(definition.modeVariants ?? {}) as Array<[TradingMode, string]>) {
+      definitions.push({
+        ...definition,
+        key,
+        label: `${definition.label} (${MODE_LABELS[mode]})`,
+        description: `${MODE_LABELS[mode]}-mode override of ${definition.key}`,
+        default: null,
+        legacyKeys: undefined,
+        modeVariants: undefined,
+        variantOf: definition.key,
+      });
+    }
+  }
+  return definitions;
+}
+
+/**
+ * Definition for a key, its mode variants and its legacy keys (null = unregistered)
+ */
+export function getSettingDefinition(key: string): SettingDefinition | null {
+  const direct = listSettingDefinitions().find(definition => definition.key === key);
+  if (direct) {
+    return direct;
+  }
+  const base = SETTING_DEFINITIONS.find(definition => definition.legacyKeys?.includes(key));
+  if (!base) {
+    return null;
+  }
+  return {
+    ...base,
+    key,
+    label: `${base.label} (Legacy)`,
+    default: null,
+    legacyKeys: undefined,
+    modeVariants: undefined,
+    deprecated: `Use ${base.key}`,
+    variantOf: base.key,
+  };
+}
+
+function parseNumber(definition: SettingDefinition, raw: string, label: string, errors: string[]): number {
+  const value = Number(raw);
+  if (raw === '' || !Number.isFinite(value)) {
+    errors.push(`${label} must be a number`);
+  } else if (definition.type === 'integer' && !Number.isInteger(value)) {
+    errors.push(`${label} must be a whole number`);
+  } else if (definition.min !== undefined && value < definition.min) {
+    errors.push(`${label} must be at least ${definition.min}`);
+  } else if (definition.max !== undefined && value > definition.max) {
+    errors.push(`${label} must be at most ${definition.max}`);
+  }
+  return value;
+}
+
+/**
+ * Parse a stored value against its definition (pure)
+ */
+export function parseSettingValue(
+  definition: SettingDefinition,
+  raw: string
+): { value: SettingValue; errors: string[] } {
+  const value = raw.trim();
+  const errors: string[] = [];
+  let parsed: SettingValue = value;
+
+  switch (definition.type) {
+    case 'number':
+    case 'integer':
+      parsed = parseNumber(definition, value, 'Value', errors);
+      break;
+    case 'boolean':
+      if (value.toLowerCase() !== 'true' && value.toLowerCase() !== 'false') {
+        errors.push('Value must be true or false');
+      }
+      parsed = value.toLowerCase() === 'true';
+      break;
+    case 'enum': {
+      const option = definition.options?.find(o =>
+        definition.caseSensitive ? o === value : o.toUpperCase() === value.toUpperCase()
+      );
+      if (!option) {
+        errors.push(`Value must be one of ${definition.options?.join(', ')}`);
+      }
+      parsed = option ?? value;
+      break;
+    }
+    case 'time':
+      if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(value)) {
+        errors.push('Value must be HH:MM (24h, ET)');
+      }
+      break;
+    case 'numberList': {
+      const items = value.split(',').map(item => item.trim()).filter(Boolean);
+      if (items.length === 0) {
+        errors.push('Value must be a comma-separated list of numbers');
+      }
+      if (definition.maxItems !== undefined && items.length > definition.maxItems) {
+        errors.push(`At most ${definition.maxItems} items`);
+      }
+      parsed = items.map((item, i) => parseNumber(definition, item, `Item ${i + 1}`, errors));
+      break;
+    }
+    case 'json':
+      try {
+        parsed = JSON.parse(value);
+      } catch {
+        errors.push('Value must be valid JSON');
+      }
+      break;
+    case 'string':
+      break;
+  }
+
+  if (errors.length === 0 && definition.validate) {
+    errors.push(...definition.validate(value));
+  }
+  return { value: parsed, errors };
+}
+
+/**
+ * Validation errors for an admin update (empty = valid; unregistered keys are rejected)
+ *
+ * An empty value is valid: it clears the setting so the default applies.
+ */
+export function validateSettingValue(key: string, value: string): string[] {
+  const definition = getSettingDefinition(key);
+  if (!definition) {
+    return [`Unknown setting: ${key}`];
+  }
+  if (value.trim() === '') {
+    return [];
+  }
+  return parseSettingValue(definition, value).errors;
+}
+
+export interface ResolvedSetting {
+  key: string;
+  value: SettingValue | null;
+  source: string;                // key the value came from, or 'default'
+}
+
+/**
+ * Resolve a key from a snapshot of stored values (pure; see the header for the order)
+ */
+export function resolveSetting(
+  values: Map<string, string>,
+  key: string,
+  mode?: TradingMode
+): ResolvedSetting {
+  const definition = SETTING_DEFINITIONS.find(d => d.key === key);
+  if (!definition) {
+    throw new Error(`Unregistered setting: ${key}`);
+  }
+
+  const variant = mode ? definition.modeVariants?.[mode] : undefined;
+  const candidates = [...(variant ? [variant] : []), key, ...(definition.legacyKeys ?? [])];
+  for (const candidate of candidates) {
+    const raw = values.get(candidate)?.trim();
+    if (!raw) {
+      continue;
+    }
+    const { value, errors } = parseSettingValue(definition, raw);
+    if (errors.length === 0) {
+      return { key, value, source: candidate };
+    }
+    console.warn('[settings] invalid_value', JSON.stringify({ key: candidate, raw, errors }));
+  }
+
+  return {
+    key,
+    value: definition.default === null ? null : parseSettingValue(definition, definition.default).value,
+    source: 'default',
+  };
+}
+
+async function readSetting(env: Env, key: string, mode?: TradingMode): Promise<SettingValue | null> {
+  return resolveSetting(await getSettingsSnapshot(env), key, mode).value;
+}
+
+export async function getNumberSetting(env: Env, key: string): Promise<number> {
+  const value = await readSetting(env, key);
+  if (typeof value !== 'number') {
+    throw new Error(`Setting ${key} has no numeric default`);
+  }
+  return value;
+}
+
+export async function getOptionalNumberSetting(env: Env, key: string): Promise<number | null> {
+  const value = await readSetting(env, key);
+  return typeof value === 'number' ? value : null;
+}
+
+export async function getModeNumberSetting(env: Env, key: string, mode: TradingMode): Promise<number> {
+  const value = await readSetting(env, key, mode);
+  if (typeof value !== 'number') {
+    throw new Error(`Setting ${key} has no numeric default`);
+  }
+  return value;
+}
+
+export async function getBooleanSetting(env: Env, key: string): Promise<boolean> {
+  return (await readSetting(env, key)) === true;
+}
+
+export async function getStringSetting(env: Env, key: string): Promise<string | null> {
+  const value = await readSetting(env, key);
+  return typeof value === 'string' ? value : null;
+}
+
+export async function getNumberListSetting(env: Env, key: string): Promise<number[]> {
+  const value = await readSetting(env, key);
+  return Array.isArray(value) ? (value as number[]) : [];
+}
+
+export async function getJsonSetting(env: Env, key: string): Promise<unknown> {
+  return readSetting(env, key);
+}
@@ -0,0 +1,231 @@
+/**
+ * Position Sizing
+ *
+ * Picks the contract quantity for a proposal. SIZING_MODE=FIXED (default) keeps
+ * DEFAULT_TRADE_QUANTITY; SIZING_MODE=RISK_BUDGET sizes from a risk budget:
+ *
+ *   budget   = equity * SIZING_RISK_FRACTION * vol_scale * score_scale
+ *   quantity = floor(budget / (max loss per spread * 100))
+ *
+ * then capped by the per-trade max loss cap (validatePerTradeMaxLoss), the room left
+ * under DAILY_MAX_NEW_RISK and MAX_TRADE_QUANTITY, so entry never rejects a size
+ * chosen here. Equity is the latest account_balances row (Tradier), falling back to
+ * ACCOUNT_EQUITY_REFERENCE; the backtest passes its simulated equity and the risk it
+ * opened that day instead (SizingAccount).
+ *
+ * - vol_scale = SIZING_VOL_TARGET_IV / iv (smaller in high vol)
+ * - score_scale = score / SIZING_SCORE_REFERENCE
+ * both clamped to [SIZING_MIN_SCALE, SIZING_MAX_SCALE].
+ *
+ * Max loss per spread is in the units of trades.max_loss (per-share points: width -
+ * credit, or the debit), which the caps use; the equity budget converts with x100.
+ */
+
+import type { Env } from '../env';
+import { getLatestAccountBalance } from '../db/queries';
+import { getDefaultTradeQuantity, getSizingConfig, type SizingConfig, type SizingMode } from './config';
+import { getPerTradeMaxLossCap, getDailyNewRiskUsage, getDailyNewRiskCap } from './risk';
+import { getNumberSetting } from './settings';
+
+const CONTRACT_MULTIPLIER = 100;
+
+export type SizingConstraint = 'FIXED' | 'BUDGET' | 'PER_TRADE_CAP' | 'DAILY_NEW_RISK' | 'MAX_QUANTITY';
+
+export interface SizingInputs {
+  maxLossPerSpread: number;        // width - credit (credit) or debit (debit), per-share points
+  iv: number | null;               // ATM IV used for volatility scaling (null = scale 1.0)
+  score: number;                   // composite score (0-1)
+  equity: number;
+  equitySource: 'ACCOUNT_BALANCES' | 'ACCOUNT_EQUITY_REFERENCE' | 'SIMULATED';
+  perTradeCap: number | null;      // max_loss cap for one trade (null = unlimited)
+  dailyRiskRoom: number | null;    // DAILY_MAX_NEW_RISK - max_loss opened today (null = unlimited)
+}
+
+/**
+ * Account state supplied by the caller instead of D1 (backtest)
+ */
+export interface SizingAccount {
+  equity: number;
+  dailyNewRiskUsed: number;        // max_loss opened today
+}
+
+/**
+ * Sizing rationale, stored as JSON on the proposal (proposals.sizing)
+ */
+export interface SizingDecision {
+  mode: SizingMode;
+  quantity: number;
+  binding: SizingConstraint;       // constraint that set the final quantity
+  equity: number | null;
+  equity_source: SizingInputs['equitySource'] | null;
+  risk_fraction: number | null;
+  vol_scale: number | null;
+  score_scale: number | null;
+  risk_budget: number | null;      // dollars
+  risk_per_contract: number | null; // dollars (max loss per spread x 100)
+  budget_quantity: number | null;
+  per_trade_cap_quantity: number | null;
+  daily_room_quantity: number | null;
+  max_quantity: number;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Risk-budget quantity (pure)
+ *
+ * May return quantity 0 when even one contract exceeds the budget or a cap.
+ */
+export function computePositionSize(inputs: SizingInputs, config: SizingConfig): SizingDecision {
+  const volScale = inputs.iv !== null && inputs.iv > 0
+    ? clamp(config.volTargetIv / inputs.iv, config.minScale, config.maxScale)
+    : 1;
+  const scoreScale = clamp(inputs.score / config.scoreReference, config.minScale, config.maxScale);
+  const riskBudget = inputs.equity * config.riskFraction * volScale * scoreScale;
+  const riskPerContract = inputs.maxLossPerSpread * CONTRACT_MULTIPLIER;
+
+  const budgetQuantity = riskPerContract > 0 ? Math.floor(riskBudget / riskPerContract) : 0;
+  const perTradeCapQuantity = inputs.perTradeCap !== null && inputs.maxLossPerSpread > 0
+    ? Math.floor(inputs.perTradeCap / inputs.maxLossPerSpread)
+    : null;
+  const dailyRoomQuantity = inputs.dailyRiskRoom !== null && inputs.maxLossPerSpread > 0
+    ? Math.floor(Math.max(0, inputs.dailyRiskRoom) / inputs.maxLossPerSpread)
+    : null;
+
+  // Smallest limit wins; ties keep the earlier (more fundamental) constraint
+  const limits: Array<[SizingConstraint, number | null]> = [
+    ['BUDGET', budgetQuantity],
+    ['PER_TRADE_CAP', perTradeCapQuantity],
+    ['DAILY_NEW_RISK', dailyRoomQuantity],
+    ['MAX_QUANTITY', config.maxQuantity],
+  ];
+  let binding: SizingConstraint = 'BUDGET';
+  let quantity = budgetQuantity;
+  for (const [constraint, limit] of limits) {
+    if (limit !== null && limit < quantity) {
+      binding = constraint;
+      quantity = limit;
+    }
+  }
+
+  return {
+    mode: 'RISK_BUDGET',
+    quantity: Math.max(0, quantity),
+    binding,
+    equity: round(inputs.equity, 2),
+    equity_source: inputs.equitySource,
+    risk_fraction: config.riskFraction,
+    vol_scale: round(volScale, 3),
+    score_scale: round(scoreScale, 3),
+    risk_budget: round(riskBudget, 2),
+    risk_per_contract: round(riskPerContract, 2),
+    budget_quantity: budgetQuantity,
+    per_trade_cap_quantity: perTradeCapQuantity,
+    daily_room_quantity: dailyRoomQuantity,
+    max_quantity: config.maxQuantity,
+  };
+}
+
+/**
+ * Account equity for sizing: latest Tradier balances, else ACCOUNT_EQUITY_REFERENCE
+ */
+async function getSizingEquity(env: Env): Promise<{ equity: number; source: SizingInputs['equitySource'] }> {
+  try {
+    const balance = await getLatestAccountBalance(env);
+    if (balance && balance.equity > 0) {
+      return { equity: balance.equity, source: 'ACCOUNT_BALANCES' };
+    }
+  } catch (error) {
+    console.warn('[sizing] account_balances_unavailable', JSON.stringify({
+      error: error instanceof Error ? error.message : String(error),
+    }));
+  }
+  const reference = await getNumberSetting(env, 'ACCOUNT_EQUITY_REFERENCE');
+  return { equity: reference, source: 'ACCOUNT_EQUITY_REFERENCE' };
+}
+
+export interface SizingCandidate {
+  maxLossPerSpread: number;
+  isDebit: boolean;
+  iv: number | null;
+  score: number;
+}
+
+export type ProposalSizer = (candidate: SizingCandidate) => SizingDecision;
+
+/**
+ * Load what sizing reads (config, equity, today's new risk, per-trade caps) once and
+ * return a pure sizer, so every candidate of a cycle is sized against the same state
+ *
+ * FIXED mode returns DEFAULT_TRADE_QUANTITY with no budget fields. Without `account`,
+ * equity and today's new risk are read from D1.
+ */
+export async function loadProposalSizer(
+  env: Env,
+  now: Date,
+  account?: SizingAccount
+): Promise<ProposalSizer> {
+  const config = await getSizingConfig(env);
+
+  if (config.mode === 'FIXED') {
+    const quantity = await getDefaultTradeQuantity(env);
+    return () => ({
+      mode: 'FIXED',
+      quantity,
+      binding: 'FIXED',
+      equity: null,
+      equity_source: null,
+      risk_fraction: null,
+      vol_scale: null,
+      score_scale: null,
+      risk_budget: null,
+      risk_per_contract: null,
+      budget_quantity: null,
+      per_trade_cap_quantity: null,
+      daily_room_quantity: null,
+      max_quantity: config.maxQuantity,
+    });
+  }
+
+  const { equity, source } = account
+    ? { equity: account.equity, source: 'SIMULATED' as const }
+    : await getSizingEquity(env);
+  const dailyUsage = account
+    ? { used: account.dailyNewRiskUsed, cap: await getDailyNewRiskCap(env) }
+    : await getDailyNewRiskUsage(env, now);
+  const creditCap = await getPerTradeMaxLossCap(env, false);
+  const debitCap = await getPerTradeMaxLossCap(env, true);
+
+  return candidate => computePositionSize({
+    maxLossPerSpread: candidate.maxLossPerSpread,
+    iv: candidate.iv,
+    score: candidate.score,
+    equity,
+    equitySource: source,
+    perTradeCap: candidate.isDebit ? debitCap : creditCap,
+    dailyRiskRoom: dailyUsage.cap !== null ? dailyUsage.cap - dailyUsage.used : null,
+  }, config);
+}
+
+/**
+ * Size a proposal (see loadProposalSizer)
+ */
+export async function sizeProposal(
+  env: Env,
+  candidate: SizingCandidate,
+  now: Date,
+  account?: SizingAccount
+): Promise<SizingDecision> {
+  const decision = (await loadProposalSizer(env, now, account))(candidate);
+  if (decision.mode === 'RISK_BUDGET') {
+    console.log('[sizing] decision', JSON.stringify(decision));
+  }
+  return decision;
+}
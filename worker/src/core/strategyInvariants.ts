@@ -4,14 +4,23 @@
  * Centralized validation of strategy + strike/leg relationships.
  * Ensures consistency across the entire codebase.
  * 
+ * Strike relationships are defined by each strategy plugin (checkInvariants);
+ * this module adds the common width checks and the broker leg comparison.
+ * 
  * Key invariants:
  * - BULL_PUT_CREDIT: PUTs, short_strike > long_strike (e.g., 640/635)
  * - BEAR_CALL_CREDIT: CALLs, short_strike < long_strike (e.g., 640/645)
  * - BULL_CALL_DEBIT: CALLs, long_strike < short_strike (e.g., 635/640)
  * - BEAR_PUT_DEBIT: PUTs, long_strike > short_strike (e.g., 645/640)
+ * - IRON_CONDOR: BULL_PUT_CREDIT wing (short/long) + BEAR_CALL_CREDIT wing
+ *   (call_short/call_long), same width, put short below call short (e.g., 630/625 + 650/655)
+ * - CALL_CALENDAR: CALLs, short_strike == long_strike (width 0), long_expiration after expiration
+ * - CALL_DIAGONAL: CALLs, long_strike < short_strike, long_expiration after expiration
  */
 
 import type { TradeRow } from '../types';
+import type { StrategyWing } from '../strategy/types';
+import { findStrategyPlugin, getStrategyOptionType, getTradeWings, asWingTrade } from '../strategy/registry';
 
 export interface StrategyInvariantResult {
   ok: boolean;
@@ -35,8 +44,10 @@ export function checkStrategyInvariants(trade: TradeRow): StrategyInvariantResul
     violations.push(`width mismatch: stored=${trade.width}, calculated=${calculatedWidth}`);
   }
 
-  if (trade.width <= 0) {
-    violations.push(`width must be > 0, got ${trade.width}`);
+  // Calendars are the one structure with both legs on the same strike
+  const sameStrike = findStrategyPlugin(trade.strategy)?.longStrikeSide === 'same';
+  if (sameStrike ? trade.width !== 0 : trade.width <= 0) {
+    violations.push(`width must be ${sameStrike ? '0' : '> 0'}, got ${trade.width}`);
   }
 
   if (!trade.strategy) {
@@ -44,42 +55,12 @@ export function checkStrategyInvariants(trade: TradeRow): StrategyInvariantResul
     return { ok: false, violations };
   }
 
-  // Strategy-specific invariants
-  switch (trade.strategy) {
-    case 'BULL_PUT_CREDIT':
-      // PUTs, short_strike > long_strike (e.g., short 640, long 635)
-      // This is intentional: we sell the higher strike PUT, buy the lower strike PUT
-      if (trade.short_strike <= trade.long_strike) {
-        violations.push(`BULL_PUT_CREDIT: short_strike (${trade.short_strike}) must be > long_strike (${trade.long_strike})`);
-      }
-      break;
-
-    case 'BEAR_CALL_CREDIT':
-      // CALLs, short_strike < long_strike (e.g., short 640, long 645)
-      // This is intentional: we sell the lower strike CALL, buy the higher strike CALL
-      if (trade.short_strike >= trade.long_strike) {
-        violations.push(`BEAR_CALL_CREDIT: short_strike (${trade.short_strike}) must be < long_strike (${trade.long_strike})`);
-      }
-      break;
-
-    case 'BULL_CALL_DEBIT':
-      // CALLs, long_strike < short_strike (e.g., long 635, short 640)
-      // This is intentional: we buy the lower strike CALL, sell the higher strike CALL
-      if (trade.long_strike >= trade.short_strike) {
-        violations.push(`BULL_CALL_DEBIT: long_strike (${trade.long_strike}) must be < short_strike (${trade.short_strike})`);
-      }
-      break;
-
-    case 'BEAR_PUT_DEBIT':
-      // PUTs, long_strike > short_strike (e.g., long 645, short 640)
-      // This is intentional: we buy the higher strike PUT, sell the lower strike PUT
-      if (trade.long_strike <= trade.short_strike) {
-        violations.push(`BEAR_PUT_DEBIT: long_strike (${trade.long_strike}) must be > short_strike (${trade.short_strike})`);
-      }
-      break;
-
-    default:
-      violations.push(`unknown strategy: ${trade.strategy}`);
+  // Strategy-specific invariants come from the strategy plugin
+  const plugin = findStrategyPlugin(trade.strategy);
+  if (!plugin) {
+    violations.push(`unknown strategy: ${trade.strategy}`);
+  } else {
+    violations.push(...plugin.checkInvariants(trade));
   }
 
   return {
@@ -107,8 +88,35 @@ export function checkStrategyAgainstLegs(
 ): StrategyInvariantResult {
   const violations: string[] = [];
 
-  // First check basic invariants
   const basicCheck = checkStrategyInvariants(trade);
+  let wings: StrategyWing[];
+  try {
+    wings = getTradeWings(trade);
+  } catch {
+    // Missing wing strikes - already reported by the plugin invariants
+    return { ok: false, violations: basicCheck.violations };
+  }
+
+  // Multi-wing strategies (IRON_CONDOR): check each wing's two legs as its own spread
+  if (wings.length > 1) {
+    violations.push(...basicCheck.violations);
+    if (legs.length !== wings.length * 2) {
+      violations.push(`expected ${wings.length * 2} legs for ${trade.strategy}, got ${legs.length}`);
+      return { ok: false, violations };
+    }
+    if (basicCheck.ok) {
+      for (const wing of wings) {
+        const wingCheck = checkStrategyAgainstLegs(
+          asWingTrade(trade, wing),
+          legs.filter(leg => leg.option_type === wing.optionType)
+        );
+        violations.push(...wingCheck.violations.map(v => `${trade.strategy} ${wing.wing} wing: ${v}`));
+      }
+    }
+    return { ok: violations.length === 0, violations };
+  }
+
+  // First check basic invariants
   if (!basicCheck.ok) {
     violations.push(...basicCheck.violations);
   }
@@ -119,8 +127,7 @@ export function checkStrategyAgainstLegs(
   }
 
   // Determine expected option type from strategy
-  const expectedOptionType: 'put' | 'call' =
-    trade.strategy === 'BULL_PUT_CREDIT' || trade.strategy === 'BEAR_PUT_DEBIT' ? 'put' : 'call';
+  const expectedOptionType = getStrategyOptionType(trade.strategy);
 
   // Verify option types match strategy
   for (const leg of legs) {
@@ -156,67 +163,19 @@ export function checkStrategyAgainstLegs(
     );
   }
 
-  // Verify strike relationships match strategy
-  switch (trade.strategy) {
-    case 'BULL_PUT_CREDIT':
-      // Short leg should be higher strike, long leg should be lower strike
-      if (shortLeg.strike <= longLeg.strike) {
-        violations.push(
-          `BULL_PUT_CREDIT: short leg strike (${shortLeg.strike}) must be > long leg strike (${longLeg.strike})`
-        );
-      }
-      // Verify directions: SELL_TO_OPEN short, BUY_TO_OPEN long
-      if (!shortLeg.side.includes('sell') || !longLeg.side.includes('buy')) {
-        violations.push(
-          `BULL_PUT_CREDIT: short leg should be SELL_TO_OPEN, long leg should be BUY_TO_OPEN`
-        );
-      }
-      break;
-
-    case 'BEAR_CALL_CREDIT':
-      // Short leg should be lower strike, long leg should be higher strike
-      if (shortLeg.strike >= longLeg.strike) {
-        violations.push(
-          `BEAR_CALL_CREDIT: short leg strike (${shortLeg.strike}) must be < long leg strike (${longLeg.strike})`
-        );
-      }
-      // Verify directions: SELL_TO_OPEN short, BUY_TO_OPEN long
-      if (!shortLeg.side.includes('sell') || !longLeg.side.includes('buy')) {
-        violations.push(
-          `BEAR_CALL_CREDIT: short leg should be SELL_TO_OPEN, long leg should be BUY_TO_OPEN`
-        );
-      }
-      break;
-
-    case 'BULL_CALL_DEBIT':
-      // Long leg should be lower strike, short leg should be higher strike
-      if (longLeg.strike >= shortLeg.strike) {
-        violations.push(
-          `BULL_CALL_DEBIT: long leg strike (${longLeg.strike}) must be < short leg strike (${shortLeg.strike})`
-        );
-      }
-      // Verify directions: BUY_TO_OPEN long, SELL_TO_OPEN short
-      if (!longLeg.side.includes('buy') || !shortLeg.side.includes('sell')) {
-        violations.push(
-          `BULL_CALL_DEBIT: long leg should be BUY_TO_OPEN, short leg should be SELL_TO_OPEN`
-        );
-      }
-      break;
+  // Verify strike relationships match strategy (leg strikes, as the plugin sees them)
+  const plugin = findStrategyPlugin(trade.strategy);
+  if (plugin) {
+    violations.push(
+      ...plugin.checkInvariants({ ...trade, short_strike: shortLeg.strike, long_strike: longLeg.strike })
+    );
+  }
 
-    case 'BEAR_PUT_DEBIT':
-      // Long leg should be higher strike, short leg should be lower strike
-      if (longLeg.strike <= shortLeg.strike) {
-        violations.push(
-          `BEAR_PUT_DEBIT: long leg strike (${longLeg.strike}) must be > short leg strike (${shortLeg.strike})`
-        );
-      }
-      // Verify directions: BUY_TO_OPEN long, SELL_TO_OPEN short
-      if (!longLeg.side.includes('buy') || !shortLeg.side.includes('sell')) {
-        violations.push(
-          `BEAR_PUT_DEBIT: long leg should be BUY_TO_OPEN, short leg should be SELL_TO_OPEN`
-        );
-      }
-      break;
+  // Verify directions: SELL_TO_OPEN short, BUY_TO_OPEN long
+  if (!shortLeg.side.includes('sell') || !longLeg.side.includes('buy')) {
+    violations.push(
+      `${trade.strategy}: short leg should be SELL_TO_OPEN, long leg should be BUY_TO_OPEN`
+    );
   }
 
   return {
@@ -0,0 +1,14 @@
+/**
+ * Symbols
+ *
+ * One validator for every ticker a user can enter: the PROPOSAL_UNDERLYING_WHITELIST
+ * and CORRELATION_GROUPS settings, strategy config symbol lists and exit profiles.
+ * A letter followed by up to nine letters, digits or dots (BRK.B, share classes).
+ * Callers upper-case and trim first.
+ */
+
+const SYMBOL_PATTERN = /^[A-Z][A-Z0-9.]{0,9}$/;
+
+export function isValidSymbol(symbol: string): boolean {
+  return SYMBOL_PATTERN.test(symbol);
+}
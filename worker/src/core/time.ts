@@ -3,14 +3,38 @@
  * 
  * Market hours, DTE calculation, and day-of-week logic.
  * All time calculations must account for ET (Eastern Time).
+ * Holidays and early closes come from the market calendar (marketCalendar.ts).
  */
 
+import {
+  getMarketSession,
+  getLastTradingDayOnOrBefore,
+  countTradingSessions,
+  REGULAR_CLOSE_MINUTES,
+} from './marketCalendar';
+
+/**
+ * How a DTE is measured
+ * - CALENDAR: whole calendar days to expiration (computeDTE)
+ * - TRADING: trading sessions left, fractional intraday (computeTradingDTE)
+ */
+export type DteMeasure = 'CALENDAR' | 'TRADING';
+
+// Entries stop this long before the close (15:50 ET on a regular day, 12:50 on an early close)
+const ENTRY_CUTOFF_MINUTES_BEFORE_CLOSE = 10;
+
+function getETMinutes(now: Date): number {
+  const etTime = toET(now);
+  return etTime.getUTCHours() * 60 + etTime.getUTCMinutes();
+}
+
 /**
  * Check if current time is within market hours (9:30 AM to 3:50 PM ET)
  * 
  * Per entry-rules.md:
  * - Trades may ONLY be placed during 9:30:00 AM to 3:50:00 PM ET
  * - Reject entries if pre-market, post-market, or after 3:50 PM
+ * On early-close days the window ends 10 minutes before the early close.
  */
 export function isMarketHours(now: Date): boolean {
   // First check if it's a trading day (Monday-Friday, excluding holidays)
@@ -18,32 +42,38 @@ export function isMarketHours(now: Date): boolean {
     return false; // Market is closed on weekends and holidays
   }
   
-  // Convert to ET (Eastern Time)
-  const etTime = toET(now);
-  
-  const hours = etTime.getUTCHours();
-  const minutes = etTime.getUTCMinutes();
-  const timeInMinutes = hours * 60 + minutes;
-  
-  // 9:30 AM ET = 9 * 60 + 30 = 570 minutes
-  // 3:50 PM ET = 15 * 60 + 50 = 950 minutes
-  const marketOpen = 9 * 60 + 30;  // 9:30 AM
-  const marketClose = 15 * 60 + 50; // 3:50 PM
+  const session = getMarketSession(getETDateString(now));
+  const timeInMinutes = getETMinutes(now);
+  const entryCutoff = session.closeMinutes - ENTRY_CUTOFF_MINUTES_BEFORE_CLOSE;
   
-  return timeInMinutes >= marketOpen && timeInMinutes < marketClose;
+  return timeInMinutes >= session.openMinutes && timeInMinutes < entryCutoff;
 }
 
 /**
- * Check if date is a trading day (Monday-Friday, excluding holidays)
- * 
- * For v1, we only check for weekday. Holiday handling can be added later.
+ * Check if date is a trading day (Monday-Friday, excluding NYSE holidays and
+ * MARKET_CALENDAR_OVERRIDES closures)
  */
 export function isTradingDay(date: Date): boolean {
-  const etDate = toET(date);
-  const dayOfWeek = etDate.getUTCDay(); // 0 = Sunday, 6 = Saturday
-  
-  // Monday = 1, Friday = 5
-  return dayOfWeek >= 1 && dayOfWeek <= 5;
+  return getMarketSession(getETDateString(date)).tradingDay;
+}
+
+/**
+ * Shift an ET HH:MM time by the early close on now's date
+ *
+ * Rule times such as the TIME_EXIT cutoff ("15:50") are set against the 16:00
+ * close; on a 13:00 early close they move 3 hours earlier ("12:50").
+ */
+export function adjustForEarlyClose(time: string, now: Date): string {
+  const session = getMarketSession(getETDateString(now));
+  if (!session.earlyClose) {
+    return time;
+  }
+  const [hours, minutes] = time.split(':').map(Number);
+  if (Number.isNaN(hours) || Number.isNaN(minutes)) {
+    return time;
+  }
+  const shifted = Math.max(0, hours * 60 + minutes - (REGULAR_CLOSE_MINUTES - session.closeMinutes));
+  return `${String(Math.floor(shifted / 60)).padStart(2, '0')}:${String(shifted % 60).padStart(2, '0')}`;
 }
 
 /**
@@ -53,35 +83,24 @@ export function isTradingDay(date: Date): boolean {
  * export function computeDTE(expiration: string, now: Date): number;
  * 
  * Expiration is in ISO date format (YYYY-MM-DD)
- * Returns number of calendar days until expiration
+ * Returns number of calendar days from today's ET date until expiration. An
+ * expiration on a market holiday (e.g. Good Friday) counts to the trading day
+ * before it.
  */
 export function computeDTE(expiration: string, now: Date): number {
-  const expirationDate = new Date(expiration + 'T16:00:00Z'); // 4 PM ET expiration
-  const nowDate = new Date(now);
-  
-  // Set both to midnight UTC for day calculation
-  const expMidnight = new Date(Date.UTC(
-    expirationDate.getUTCFullYear(),
-    expirationDate.getUTCMonth(),
-    expirationDate.getUTCDate()
-  ));
-  
-  const nowMidnight = new Date(Date.UTC(
-    nowDate.getUTCFullYear(),
-    nowDate.getUTCMonth(),
-    nowDate.getUTCDate()
-  ));
+  const lastTradingDay = getLastTradingDayOnOrBefore(expiration);
+  const expMidnight = new Date(`${lastTradingDay}T00:00:00Z`);
+  const nowMidnight = new Date(`${getETDateString(now)}T00:00:00Z`);
   
   const diffMs = expMidnight.getTime() - nowMidnight.getTime();
-  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+  const diffDays = Math.round(diffMs / (1000 * 60 * 60 * 24));
   
   // Guard against NaN or invalid calculations
   if (Number.isNaN(diffDays) || !Number.isFinite(diffDays)) {
     console.log('[time] computeDTE_nan', JSON.stringify({ 
       expiration, 
+      lastTradingDay,
       now: now.toISOString(),
-      expMidnight: expMidnight.toISOString(),
-      nowMidnight: nowMidnight.toISOString(),
       diffMs,
     }));
     return -1; // Return invalid value so filter rejects it
@@ -90,6 +109,50 @@ export function computeDTE(expiration: string, now: Date): number {
   return diffDays;
 }
 
+/**
+ * Trading sessions left until expiration (fractional intraday)
+ *
+ * The unfinished part of today's session (by minutes, early closes included) plus
+ * every trading session after today through the expiration's last trading day.
+ * A Friday-morning entry on next Friday's expiration is ~5.9, not 7; holiday weeks
+ * count one session less. 0 once the expiration session has closed.
+ */
+export function computeTradingDTE(expiration: string, now: Date): number {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(expiration)) {
+    console.log('[time] computeTradingDTE_invalid', JSON.stringify({ expiration, now: now.toISOString() }));
+    return -1; // Same invalid marker as computeDTE
+  }
+  
+  const lastTradingDay = getLastTradingDayOnOrBefore(expiration);
+  const today = getETDateString(now);
+  if (today > lastTradingDay) {
+    return 0;
+  }
+  
+  const session = getMarketSession(today);
+  let todayFraction = 0;
+  if (session.tradingDay) {
+    const minutes = getETMinutes(now);
+    const length = session.closeMinutes - session.openMinutes;
+    const remaining = Math.min(length, Math.max(0, session.closeMinutes - minutes));
+    todayFraction = remaining / length;
+  }
+  
+  const sessions = todayFraction + countTradingSessions(today, lastTradingDay);
+  return Math.round(sessions * 100) / 100;
+}
+
+/**
+ * DTE in the given measure (see DteMeasure)
+ */
+export function computeDTEByMeasure(expiration: string, now: Date, measure: DteMeasure): number {
+  return measure === 'TRADING' ? computeTradingDTE(expiration, now) : computeDTE(expiration, now);
+}
+
+export function parseDteMeasure(value: string | null | undefined): DteMeasure {
+  return value?.toUpperCase() === 'TRADING' ? 'TRADING' : 'CALENDAR';
+}
+
 /**
  * Check if DTE is within valid window (30-35 days)
  * 
@@ -189,30 +252,20 @@ export function isPreMarket(now: Date): boolean {
     return true;
   }
   
-  const etTime = toET(now);
-  const hours = etTime.getUTCHours();
-  const minutes = etTime.getUTCMinutes();
-  const timeInMinutes = hours * 60 + minutes;
-  
-  const marketOpen = 9 * 60 + 30; // 9:30 AM
-  
-  return timeInMinutes < marketOpen;
+  const session = getMarketSession(getETDateString(now));
+  return getETMinutes(now) < session.openMinutes;
 }
 
 /**
  * Check if we're after market close (post-market)
+ *
+ * Uses the entry cutoff (3:50 PM, or 10 minutes before an early close).
  */
 export function isPostMarket(now: Date): boolean {
   if (!isTradingDay(now)) {
     return true;
   }
   
-  const etTime = toET(now);
-  const hours = etTime.getUTCHours();
-  const minutes = etTime.getUTCMinutes();
-  const timeInMinutes = hours * 60 + minutes;
-  
-  const marketClose = 15 * 60 + 50; // 3:50 PM
-  
-  return timeInMinutes >= marketClose;
+  const session = getMarketSession(getETDateString(now));
+  return getETMinutes(now) >= session.closeMinutes - ENTRY_CUTOFF_MINUTES_BEFORE_CLOSE;
 }
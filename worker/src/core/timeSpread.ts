@@ -0,0 +1,86 @@
+/**
+ * Time Spread Legs
+ *
+ * A time spread trade/proposal (CALL_CALENDAR, CALL_DIAGONAL) has its two legs in
+ * different expirations:
+ * - Short leg: short_strike in `expiration` (front month)
+ * - Long leg: long_strike in `long_expiration` (back month)
+ *
+ * DTE, TIME_EXIT and FRONT_EXPIRY all run off the front expiration. Helpers here
+ * let leg lookups fetch and match quotes in the right expiration; for every other
+ * strategy they behave exactly like the single-expiration code they replace.
+ */
+
+import type { BrokerClient, OptionQuote, TradeRow } from '../types';
+import { findStrategyPlugin } from '../strategy/registry';
+
+type TradeExpirations = Pick<TradeRow, 'symbol' | 'expiration' | 'long_expiration'>;
+
+export function isTimeSpread(strategy: string | null | undefined): boolean {
+  return findStrategyPlugin(strategy)?.timeSpread === true;
+}
+
+/**
+ * Expiration of the long leg (long_expiration for time spreads, expiration otherwise)
+ */
+export function getLongLegExpiration(row: Pick<TradeRow, 'expiration' | 'long_expiration'>): string {
+  return row.long_expiration ?? row.expiration;
+}
+
+/**
+ * Option chain covering every leg of a trade
+ *
+ * Time spreads get the front chain followed by the back chain; match legs with
+ * findSpreadLegs, which checks each quote's expiration_date.
+ */
+export async function getTradeOptionChain(
+  broker: Pick<BrokerClient, 'getOptionChain'>,
+  trade: TradeExpirations
+): Promise<OptionQuote[]> {
+  const chain = await broker.getOptionChain(trade.symbol, trade.expiration);
+  const longExpiration = getLongLegExpiration(trade);
+  if (longExpiration === trade.expiration) {
+    return chain;
+  }
+  const backChain = await broker.getOptionChain(trade.symbol, longExpiration);
+  return [...chain, ...backChain];
+}
+
+/**
+ * Short and long leg quotes of a spread in a chain from getTradeOptionChain
+ *
+ * Calendars share one strike across both legs, so time spreads also match on
+ * expiration_date; verticals match on strike and option type only.
+ */
+export function findSpreadLegs(
+  chain: OptionQuote[],
+  trade: Pick<TradeRow, 'expiration' | 'long_expiration' | 'short_strike' | 'long_strike'>,
+  optionType: 'put' | 'call',
+  shortStrike: number = trade.short_strike,
+  longStrike: number = trade.long_strike
+): { shortOption?: OptionQuote; longOption?: OptionQuote } {
+  const longExpiration = getLongLegExpiration(trade);
+  const twoExpirations = longExpiration !== trade.expiration;
+  return {
+    shortOption: chain.find(opt =>
+      opt.strike === shortStrike && opt.type === optionType && (!twoExpirations || opt.expiration_date === trade.expiration)
+    ),
+    longOption: chain.find(opt =>
+      opt.strike === longStrike && opt.type === optionType && (!twoExpirations || opt.expiration_date === longExpiration)
+    ),
+  };
+}
+
+/**
+ * Extrinsic value left in an option (mid - intrinsic), floored at 0
+ *
+ * A short call with little extrinsic left and the underlying through its strike is
+ * an early-assignment candidate (ASSIGNMENT_RISK).
+ */
+export function computeExtrinsicValue(option: OptionQuote, underlyingPrice: number): number {
+  const mid = (option.bid + option.ask) / 2;
+  const intrinsic = option.type === 'call'
+    ? Math.max(0, underlyingPrice - option.strike)
+    : Math.max(0, option.strike - underlyingPrice);
+  return Math.max(0, mid - intrinsic);
+}
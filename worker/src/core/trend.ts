@@ -11,53 +11,29 @@
  * 
  * Optional: VIX < 23 (not yet implemented)
  * 
- * NOTE: This module exports computeSMA20 which is also used by regime.ts for market regime detection.
- * Consider caching SMA20 per symbol if called multiple times in the same cycle to avoid redundant API calls.
+ * NOTE: computeSMA20 is also used by the entry regime-confidence check.
+ * SMA_20 comes from the daily bar store (refreshed premarket), so repeated calls in a cycle
+ * only read D1.
  */
 
 import type { Env } from '../env';
-import { TradierClient } from '../broker/tradierClient';
+import { loadDailyBars } from './dailyBars';
+import { sma } from './indicators';
 
 /**
- * Compute SMA_20 from historical prices
+ * Compute SMA_20 from stored daily bars
  * 
- * Fetches last 20 trading days of closing prices and computes simple moving average.
+ * Uses the 20 most recent completed sessions from the daily bar store.
  * Returns null if data unavailable (will log warning but not block trades in v1).
  */
 export async function computeSMA20(
   env: Env,
-  symbol: string
+  symbol: string,
+  now: Date = new Date()
 ): Promise<number | null> {
   try {
-    const broker = new TradierClient(env);
-    
-    // Get historical data (last 30 days to ensure we have 20 trading days)
-    // Tradier API: /markets/history?symbol=SPY&interval=daily&start=YYYY-MM-DD&end=YYYY-MM-DD
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - 30); // Go back 30 days to ensure 20 trading days
-    
-    const startStr = startDate.toISOString().split('T')[0];
-    const endStr = endDate.toISOString().split('T')[0];
-    
-    // Fetch historical data from Tradier
-    const historicalData = await broker.getHistoricalData(symbol, startStr, endStr);
-    
-    if (historicalData.length < 20) {
-      // Not enough data points for SMA_20
-      return null;
-    }
-    
-    // Sort by date (most recent first) and take most recent 20 closes
-    const sortedData = historicalData
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-      .slice(0, 20);
-    
-    // Calculate SMA_20: average of last 20 closing prices
-    const sum = sortedData.reduce((acc, day) => acc + day.close, 0);
-    const sma20 = sum / sortedData.length;
-    
-    return sma20;
+    const bars = await loadDailyBars(env, symbol, now);
+    return computeSMA20FromCloses(bars);
   } catch (error) {
     console.warn('[trend] Failed to compute SMA_20', JSON.stringify({
       symbol,
@@ -67,6 +43,41 @@ export async function computeSMA20(
   }
 }
 
+/**
+ * Compute SMA_20 from a list of daily closes (pure)
+ * 
+ * Shared by computeSMA20 (stored daily bars) and the backtest runner
+ * (recorded history from local files). Returns null with fewer than 20 closes.
+ */
+export function computeSMA20FromCloses(
+  history: Array<{ date: string; close: number }>
+): number | null {
+  const closes = [...history]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(day => day.close);
+  return sma(closes, 20);
+}
+
+/**
+ * Bullish trend score (pure)
+ * 
+ * Linear scale: price = SMA → 0.5, price = SMA + 2% → 1.0, price = SMA - 2% → 0.0
+ */
+export function computeBullishTrendScore(currentPrice: number, sma20: number): number {
+  const priceVsSMA = (currentPrice - sma20) / sma20;
+  return Math.max(0, Math.min(1, 0.5 + (priceVsSMA / 0.04)));
+}
+
+/**
+ * Bearish trend score (pure)
+ * 
+ * Linear scale: price = SMA → 0.5, price = SMA - 2% → 1.0, price = SMA + 2% → 0.0
+ */
+export function computeBearishTrendScore(currentPrice: number, sma20: number): number {
+  const priceVsSMA = (currentPrice - sma20) / sma20;
+  return Math.max(0, Math.min(1, 0.5 - (priceVsSMA / 0.04)));
+}
+
 /**
  * Check if bullish trend condition is met
  * 
@@ -77,9 +88,6 @@ export async function computeSMA20(
  * 
  * Returns { valid: boolean; trendScore: number; reason?: string }
  * trendScore: 0-1 scale where 1.0 = strongly bullish, 0.0 = strongly bearish
- * 
- * NOTE: If called multiple times for the same symbol in a cycle, consider caching the SMA20
- * result to avoid redundant API calls.
  */
 export async function checkBullishTrend(
   env: Env,
@@ -92,11 +100,8 @@ export async function checkBullishTrend(
   let trendScore = 0.5; // Default neutral if SMA unavailable
   
   if (sma20 !== null) {
-    const priceVsSMA = (currentPrice - sma20) / sma20;
-    
     // Compute trend score: 1.0 if price >> SMA, 0.0 if price << SMA
-    // Linear scale: price = SMA → 0.5, price = SMA + 2% → 1.0, price = SMA - 2% → 0.0
-    trendScore = Math.max(0, Math.min(1, 0.5 + (priceVsSMA / 0.04)));
+    trendScore = computeBullishTrendScore(currentPrice, sma20);
     
     if (currentPrice <= sma20) {
       return {
@@ -135,9 +140,6 @@ export async function checkBullishTrend(
  * 
  * Returns { valid: boolean; trendScore: number; reason?: string }
  * trendScore: 0-1 scale where 1.0 = strongly bearish, 0.0 = strongly bullish
- * 
- * NOTE: If called multiple times for the same symbol in a cycle, consider caching the SMA20
- * result to avoid redundant API calls.
  */
 export async function checkBearishTrend(
   env: Env,
@@ -150,11 +152,8 @@ export async function checkBearishTrend(
   let trendScore = 0.5; // Default neutral if SMA unavailable
   
   if (sma20 !== null) {
-    const priceVsSMA = (currentPrice - sma20) / sma20;
-    
     // Compute trend score: 1.0 if price << SMA (bearish), 0.0 if price >> SMA (bullish)
-    // Linear scale: price = SMA → 0.5, price = SMA - 2% → 1.0, price = SMA + 2% → 0.0
-    trendScore = Math.max(0, Math.min(1, 0.5 - (priceVsSMA / 0.04)));
+    trendScore = computeBearishTrendScore(currentPrice, sma20);
     
     if (currentPrice >= sma20) {
       return {
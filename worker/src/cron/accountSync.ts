@@ -7,7 +7,7 @@
  */
 
 import type { Env } from '../env';
-import { TradierClient } from '../broker/tradierClient';
+import { createBroker } from '../broker/factory';
 import { insertAccountSnapshot } from '../db/queries';
 import { getETDateString } from '../core/time';
 import { getTradingMode } from '../core/config';
@@ -70,7 +70,7 @@ export async function runAccountSync(env: Env, now: Date): Promise<void> {
   // This is intentional for now - syncPortfolioFromTradier doesn't return positions, and we need
   // the raw position data for snapshot calculations. Future optimization: have syncPortfolioFromTradier
   // return positions or cache them to avoid duplicate API calls.
-  const client = new TradierClient(env);
+  const client = await createBroker(env);
   let positions: any[] = [];
   let openPositions = 0;
   let unrealizedOpen = 0;
@@ -0,0 +1,85 @@
+/**
+ * IV History Capture Cron
+ *
+ * Runs at 3:50 PM ET (19:50 UTC) to record each eligible symbol's ATM 30-day IV
+ * in the iv_history table. One row per symbol per ET date (re-runs overwrite).
+ * getIVRank ranks live IV against this history during proposal generation.
+ */
+
+import type { Env } from '../env';
+import { upsertIVHistory, insertSystemLog } from '../db/queries';
+import { getETDateString, isTradingDay } from '../core/time';
+import { getTradingMode } from '../core/config';
+import { captureATM30DayIV } from '../core/ivRank';
+import { createBroker } from '../broker/factory';
+import { getEligibleSymbols } from '../engine/proposals';
+
+/**
+ * Run IV history capture
+ */
+export async function runIVHistoryCapture(env: Env, now: Date): Promise<void> {
+  try {
+    if (!isTradingDay(now)) {
+      console.log('[ivHistory] skipping - not a trading day', JSON.stringify({
+        timestamp: now.toISOString(),
+      }));
+      return;
+    }
+
+    const mode = await getTradingMode(env);
+    const symbols = await getEligibleSymbols(env, mode);
+    const broker = await createBroker(env);
+    const date = getETDateString(now);
+
+    let captured = 0;
+    const failed: string[] = [];
+    for (const symbol of symbols) {
+      try {
+        const result = await captureATM30DayIV(broker, symbol, now);
+        if (!result) {
+          failed.push(symbol);
+          console.log('[ivHistory] no ATM IV available', JSON.stringify({ symbol, date }));
+          continue;
+        }
+
+        await upsertIVHistory(env, {
+          symbol,
+          date,
+          iv_30d: result.iv_30d,
+          underlying_price: result.underlying_price,
+          near_expiration: result.near_expiration,
+          far_expiration: result.far_expiration,
+          captured_at: now.toISOString(),
+        });
+        captured++;
+
+        console.log('[ivHistory] captured', JSON.stringify({
+          symbol,
+          date,
+          iv_30d: result.iv_30d,
+          near_expiration: result.near_expiration,
+          far_expiration: result.far_expiration,
+        }));
+      } catch (error) {
+        failed.push(symbol);
+        console.error('[ivHistory] symbol error', JSON.stringify({
+          symbol,
+          error: error instanceof Error ? error.message : String(error),
+        }));
+      }
+    }
+
+    await insertSystemLog(
+      env,
+      'ivHistory',
+      `IV history captured for ${captured}/${symbols.length} symbols`,
+      JSON.stringify({ date, failed })
+    );
+  } catch (error) {
+    console.error('[ivHistory] error', JSON.stringify({
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    }));
+    // Don't throw - a missed capture only shortens history by one day
+  }
+}
@@ -9,13 +9,18 @@ import type { Env } from '../env';
 import { getOpenTrades, getTradesByStatus, updateTrade, setSetting, getSpreadLegPositions } from '../db/queries';
 import { evaluateOpenTrade } from '../engine/monitoring';
 import { executeExitForTrade, checkPendingExits } from '../engine/exits';
+import { getExitExecutionStyle } from '../engine/exitLadder';
 import { checkPendingEntries } from '../engine/entry';
 import { syncTradierSnapshot } from '../tradier/syncTradierSnapshot';
 import { trackOpenOrdersFromTradier } from '../engine/trackOpenOrders';
-import { TradierClient } from '../broker/tradierClient';
+import { createBroker } from '../broker/factory';
 import { computeSpreadPositionSnapshot } from '../core/positions';
 import { markTradeClosedWithReason } from '../engine/lifecycle';
 import { recordTradeClosed } from '../core/risk';
+import { getOpenTradeWings } from '../strategy/registry';
+import { recordPortfolioGreeks } from '../core/greeks';
+import { getNumberSetting } from '../core/settings';
+import type { TradeRow, MonitoringDecision, ExitTriggerType } from '../types';
 
 /**
  * Run monitor cycle
@@ -123,6 +128,16 @@ export async function runMonitorCycle(env: Env, now: Date): Promise<void> {
   // (Exits use portfolio positions directly, but keeping trade.quantity in sync is useful for reporting)
   await syncTradeQuantitiesFromPortfolio(env, runId);
   
+  // 1.8. Snapshot portfolio Greeks (read by the Greek risk gates in canOpenNewTrade)
+  try {
+    await recordPortfolioGreeks(env, await createBroker(env), now);
+  } catch (error) {
+    console.warn('[monitorCycle][greeks] snapshot failed (non-fatal)', JSON.stringify({
+      runId,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+  }
+  
   // 2. Get all trades to monitor (after sync, so we have latest)
   const openTrades = await getOpenTrades(env);
   const pendingEntries = await getTradesByStatus(env, 'ENTRY_PENDING');
@@ -178,6 +193,12 @@ export async function runMonitorCycle(env: Env, now: Date): Promise<void> {
   // - Monitoring uses trade.entry_price (from database) for PnL calculations
   // - Monitoring fetches current quotes from Tradier (portfolio_positions doesn't store bid/ask)
   // - Exits use portfolio_positions for quantities (via computeAvailableQuantities in exits.ts)
+  //
+  // Every trade is evaluated first, then exits run urgent triggers first (EMERGENCY,
+  // STRUCTURAL_BREAK, STOP_LOSS). Laddered exits share EXIT_LADDER_CYCLE_BUDGET_MS:
+  // once it is used up they are deferred, and a ladder cut short by it resumes at its
+  // next step in a later cycle (the trade is back to OPEN either way).
+  const exits: Array<{ trade: TradeRow; decision: MonitoringDecision }> = [];
   for (const trade of openTrades) {
     // Only monitor OPEN trades (not ENTRY_PENDING or CLOSING_PENDING)
     if (trade.status !== 'OPEN') {
@@ -242,7 +263,6 @@ export async function runMonitorCycle(env: Env, now: Date): Promise<void> {
         }));
       }
       
-      // If exit trigger fired, execute exit immediately (synchronous path)
       if (decision.trigger !== 'NONE') {
         console.log('[monitor][exit-signal]', JSON.stringify({
           trade_id: trade.id,
@@ -252,25 +272,7 @@ export async function runMonitorCycle(env: Env, now: Date): Promise<void> {
           dte: decision.metrics.dte,
           timestamp: now.toISOString(),
         }));
-        
-        const exitResult = await executeExitForTrade(env, trade, decision, now);
-        
-        if (exitResult.success) {
-          console.log('[exit][order][sent]', JSON.stringify({
-            trade_id: trade.id,
-            symbol: trade.symbol,
-            trigger: decision.trigger,
-            timestamp: now.toISOString(),
-          }));
-        } else {
-          console.error('[exit][error]', JSON.stringify({
-            trade_id: trade.id,
-            symbol: trade.symbol,
-            trigger: decision.trigger,
-            reason: exitResult.reason,
-            timestamp: now.toISOString(),
-          }));
-        }
+        exits.push({ trade, decision });
       }
     } catch (error) {
       // Error evaluating trade - treat as emergency
@@ -281,23 +283,65 @@ export async function runMonitorCycle(env: Env, now: Date): Promise<void> {
         stack: error instanceof Error ? error.stack : undefined,
         timestamp: now.toISOString(),
       }));
-      const emergencyDecision = {
-        trigger: 'EMERGENCY' as const,
-        metrics: {
-          current_mark: trade.entry_price || 0,
-          unrealized_pnl: 0,
-          pnl_fraction: 0,
-          loss_fraction: 0,
-          dte: 0,
-          underlying_price: 0,
-          underlying_change_1m: 0,
-          underlying_change_15s: 0,
-          liquidity_ok: false,
-          quote_integrity_ok: false,
-        },
-      };
+      exits.push({ trade, decision: emergencyDecision(trade) });
+    }
+  }
+  
+  // 6. Execute exits: urgent triggers first, laddered exits within the cycle budget
+  exits.sort((a, b) => Number(isUrgentExit(b.decision.trigger)) - Number(isUrgentExit(a.decision.trigger)));
+  const ladderBudgetMs = await getNumberSetting(env, 'EXIT_LADDER_CYCLE_BUDGET_MS');
+  let ladderDeadline: number | null = null;
+  
+  for (const { trade, decision } of exits) {
+    let options: { ladderDeadline?: number } = {};
+    if (!isUrgentExit(decision.trigger) && getExitExecutionStyle(decision.trigger) !== 'MARKET') {
+      // The budget starts with the first laddered exit, after the urgent ones
+      ladderDeadline = ladderDeadline ?? Date.now() + ladderBudgetMs;
+      if (Date.now() >= ladderDeadline) {
+        console.log('[monitor][exit-deferred]', JSON.stringify({
+          trade_id: trade.id,
+          symbol: trade.symbol,
+          trigger: decision.trigger,
+          ladder_budget_ms: ladderBudgetMs,
+          note: 'Exit ladder budget for this cycle used up - trade stays OPEN for the next cycle',
+        }));
+        continue;
+      }
+      options = { ladderDeadline };
+    }
+    
+    try {
+      const exitResult = await executeExitForTrade(env, trade, decision, now, options);
       
-      await executeExitForTrade(env, trade, emergencyDecision, now);
+      if (exitResult.success) {
+        console.log('[exit][order][sent]', JSON.stringify({
+          trade_id: trade.id,
+          symbol: trade.symbol,
+          trigger: decision.trigger,
+          timestamp: now.toISOString(),
+        }));
+      } else {
+        console.error('[exit][error]', JSON.stringify({
+          trade_id: trade.id,
+          symbol: trade.symbol,
+          trigger: decision.trigger,
+          reason: exitResult.reason,
+          timestamp: now.toISOString(),
+        }));
+      }
+    } catch (error) {
+      // Error executing exit - fall back to an emergency exit
+      console.error('[monitor][error]', JSON.stringify({
+        trade_id: trade.id,
+        symbol: trade.symbol,
+        trigger: decision.trigger,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        timestamp: now.toISOString(),
+      }));
+      if (decision.trigger !== 'EMERGENCY') {
+        await executeExitForTrade(env, trade, emergencyDecision(trade), now);
+      }
     }
   }
   
@@ -305,6 +349,31 @@ export async function runMonitorCycle(env: Env, now: Date): Promise<void> {
   await setSetting(env, 'LAST_MONITOR_RUN', now.toISOString()).catch(() => {});
 }
 
+// Exits that run before any laddered exit and are never deferred by the ladder budget
+const URGENT_EXIT_TRIGGERS: ExitTriggerType[] = ['EMERGENCY', 'STRUCTURAL_BREAK', 'STOP_LOSS'];
+
+function isUrgentExit(trigger: ExitTriggerType): boolean {
+  return URGENT_EXIT_TRIGGERS.includes(trigger);
+}
+
+function emergencyDecision(trade: TradeRow): MonitoringDecision {
+  return {
+    trigger: 'EMERGENCY',
+    metrics: {
+      current_mark: trade.entry_price || 0,
+      unrealized_pnl: 0,
+      pnl_fraction: 0,
+      loss_fraction: 0,
+      dte: 0,
+      underlying_price: 0,
+      underlying_change_1m: 0,
+      underlying_change_15s: 0,
+      liquidity_ok: false,
+      quote_integrity_ok: false,
+    },
+  };
+}
+
 /**
  * Close trades that are marked as OPEN but don't actually exist in Tradier
  * This handles cases where:
@@ -315,7 +384,7 @@ export async function runMonitorCycle(env: Env, now: Date): Promise<void> {
  */
 async function closePhantomTrades(env: Env, runId: string, now: Date): Promise<void> {
   try {
-    const broker = new TradierClient(env);
+    const broker = await createBroker(env);
     // Get OPEN trades - getOpenTrades only returns status='OPEN' and managed=1
     const openTrades = await getOpenTrades(env);
     
@@ -353,16 +422,18 @@ async function closePhantomTrades(env: Env, runId: string, now: Date): Promise<v
         }));
         continue;
       }
-      const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
+      // Multi-wing strategies (IRON_CONDOR): check the first open wing (both wings carry the same quantity)
+      const [wing] = getOpenTradeWings(trade);
       
       // Get spread leg positions from portfolio_positions
       const { shortLeg, longLeg } = await getSpreadLegPositions(
         env,
         trade.symbol,
-        trade.expiration,
-        optionType,
-        trade.short_strike,
-        trade.long_strike
+        wing.expiration,
+        wing.optionType,
+        wing.short_strike,
+        wing.long_strike,
+        wing.long_expiration
       );
       
       // Compute snapshot
@@ -593,16 +664,18 @@ async function syncTradeQuantitiesFromPortfolio(env: Env, runId: string): Promis
         continue; // Skip trades without strategy
       }
       
-      const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
+      // Multi-wing strategies (IRON_CONDOR): both wings carry the same quantity, so the first open wing is enough
+      const [wing] = getOpenTradeWings(trade);
       
       // Get spread leg positions from portfolio
       const { shortLeg, longLeg } = await getSpreadLegPositions(
         env,
         trade.symbol,
-        trade.expiration,
-        optionType,
-        trade.short_strike,
-        trade.long_strike
+        wing.expiration,
+        wing.optionType,
+        wing.short_strike,
+        wing.long_strike,
+        wing.long_expiration
       );
       
       // Compute snapshot to get actual quantities
@@ -11,6 +11,9 @@ import { getSetting, getRiskState, setRiskState, setSetting } from '../db/querie
 import { isTradingDay } from '../core/time';
 import { computeDTE, isDTEInWindow } from '../core/time';
 import { syncBalancesFromTradier } from '../engine/balancesSync';
+import { getTradingMode } from '../core/config';
+import { refreshDailyBars, MARKET_BAR_SYMBOLS } from '../core/dailyBars';
+import { getEligibleSymbols } from '../engine/proposals';
 
 /**
  * Run premarket health check
@@ -60,6 +63,18 @@ export async function runPremarketCheck(env: Env, now: Date): Promise<void> {
       throw new Error(`Tradier connectivity check failed: ${error}`);
     }
     
+    // 3.6. Refresh daily bars (regime, trend, RV and live signals read these all day)
+    // Not fatal: missing bars degrade to NEUTRAL regime / placeholder RV instead of blocking the day
+    try {
+      const mode = await getTradingMode(env);
+      const symbols = [...MARKET_BAR_SYMBOLS, ...(await getEligibleSymbols(env, mode))];
+      await refreshDailyBars(env, broker, symbols, now);
+    } catch (error) {
+      console.warn('[premarket] daily bars refresh failed', JSON.stringify({
+        error: error instanceof Error ? error.message : String(error),
+      }));
+    }
+    
     // 4. Check D1 database
     try {
       const testSetting = await getSetting(env, 'MAX_TRADES_PER_DAY');
@@ -7,9 +7,10 @@
 
 import type { Env } from '../env';
 import { canOpenNewTrade } from '../core/risk';
-import { getSetting, setSetting } from '../db/queries';
+import { setSetting } from '../db/queries';
 import { isMarketHours } from '../core/time';
 import { getTradingMode } from '../core/config';
+import { getNumberSetting } from '../core/settings';
 import { generateProposal } from '../engine/proposals';
 import { attemptEntryForLatestProposal } from '../engine/entry';
 import { insertSystemLog } from '../db/queries';
@@ -104,24 +105,16 @@ export async function runTradeCycle(env: Env, now: Date): Promise<void> {
     return; // Risk gates prevent trading
   }
   
-  // 3. Check current open positions against MAX_OPEN_POSITIONS (configurable)
+  // 3. Check current open positions against MAX_OPEN_SPREADS_GLOBAL (legacy MAX_OPEN_POSITIONS)
   // NOTE: All trades are managed by Gekkoworks - portfolioSync imports all open spreads
   // External spreads opened manually in Tradier will be imported and count toward this limit
-  // NOTE: MAX_OPEN_POSITIONS is per spread (trade), not per contract
+  // NOTE: MAX_OPEN_SPREADS_GLOBAL is per spread (trade), not per contract
   // If you have multiple contracts per spread, it still counts as 1 trade
   // If you need contract-based capacity, you would need to sum trade.quantity instead
   const { getOpenTrades } = await import('../db/queries');
   const openTrades = await getOpenTrades(env);
-  const maxOpenSetting = await getSetting(env, 'MAX_OPEN_POSITIONS');
-  let maxOpenPositions = parseInt(maxOpenSetting || '10', 10);
-  // Guard against invalid config - prevent NaN from silently disabling the limit
-  if (!Number.isFinite(maxOpenPositions) || maxOpenPositions <= 0) {
-    console.warn('[tradeCycle] invalid MAX_OPEN_POSITIONS; defaulting to 10', JSON.stringify({
-      value: maxOpenSetting,
-      parsed: maxOpenPositions,
-    }));
-    maxOpenPositions = 10;
-  }
+  // Invalid stored values are rejected by the registry, so NaN can't silently disable the limit
+  const maxOpenPositions = await getNumberSetting(env, 'MAX_OPEN_SPREADS_GLOBAL');
   
   if (openTrades.length >= maxOpenPositions) {
     const msg = `[tradeCycle] already have ${openTrades.length} open position(s), max=${maxOpenPositions}, skipping`;
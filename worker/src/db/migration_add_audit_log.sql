@@ -0,0 +1,37 @@
+-- Migration: Audit Log
+-- Append-only record of every mutating HTTP request: who, when, which endpoint, the
+-- settings / risk_state / trade values before and after, and the caller's reason
+-- (see core/audit.ts). Triggers reject UPDATE and DELETE.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id TEXT PRIMARY KEY,
+  created_at TEXT NOT NULL,          -- ISO timestamp
+  actor TEXT,                        -- API key name (NULL = unauthenticated)
+  actor_role TEXT,                   -- viewer | operator | admin
+  method TEXT NOT NULL,
+  path TEXT NOT NULL,
+  query TEXT,                        -- query string without '?'
+  status_code INTEGER NOT NULL,
+  reason TEXT,                       -- X-Audit-Reason header or body "reason"
+  request_body TEXT,                 -- truncated request body
+  target_type TEXT NOT NULL,         -- trade | settings | risk_state | exit_profile | strategy_config | config_profile | request
+  target_id TEXT,                    -- trade id, or comma-separated setting / risk_state keys
+  before_value TEXT,                 -- JSON: { settings?, risk_state?, trade? } changed values before
+  after_value TEXT                   -- JSON: same keys after
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_target ON audit_log(target_type, target_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor);
+
+CREATE TRIGGER IF NOT EXISTS audit_log_no_update
+BEFORE UPDATE ON audit_log
+BEGIN
+  SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS audit_log_no_delete
+BEFORE DELETE ON audit_log
+BEGIN
+  SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
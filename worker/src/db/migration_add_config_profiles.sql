@@ -0,0 +1,38 @@
+-- Migration: Add config_profiles and config_profile_switches
+-- Named sets of settings + strategy enablement that can be applied atomically,
+-- scheduled for a future time and rolled back (core/configProfiles.ts).
+-- Every switch (apply, scheduled apply, rollback) is a config_profile_switches row.
+
+CREATE TABLE IF NOT EXISTS config_profiles (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  settings TEXT NOT NULL,            -- JSON {key: value} of registered settings
+  strategies TEXT,                   -- JSON StrategyId[] (PROPOSAL_STRATEGY_WHITELIST); NULL = all strategies
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS config_profile_switches (
+  id TEXT PRIMARY KEY,
+  action TEXT NOT NULL,              -- APPLY | ROLLBACK
+  status TEXT NOT NULL,              -- SCHEDULED | APPLYING | APPLIED | ROLLED_BACK | CANCELLED | FAILED
+  profile_id TEXT,                   -- profile active after the switch (NULL = none)
+  profile_name TEXT,
+  previous_profile_id TEXT,
+  previous_profile_name TEXT,
+  rollback_of TEXT,                  -- APPLY switch undone by a ROLLBACK
+  activate_at TEXT NOT NULL,         -- ISO; creation time for immediate switches
+  previous_values TEXT,              -- JSON {key: value | null} before the switch (rollback target)
+  changes TEXT,                      -- JSON [{key, from, to}]
+  actor TEXT,                        -- API key name (scheduled switches keep the scheduler's)
+  reason TEXT,
+  error TEXT,
+  created_at TEXT NOT NULL,
+  applied_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_config_profile_switches_status
+  ON config_profile_switches (status, activate_at);
+CREATE INDEX IF NOT EXISTS idx_config_profile_switches_applied
+  ON config_profile_switches (applied_at DESC);
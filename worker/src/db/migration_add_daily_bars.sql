@@ -0,0 +1,19 @@
+-- Migration: Add daily_bars table
+-- Daily OHLCV per symbol, refreshed once a day by the premarket check.
+-- Regime, trend, realized vol and live signals read indicators from here
+-- instead of calling /markets/history on every cycle.
+
+CREATE TABLE IF NOT EXISTS daily_bars (
+  symbol TEXT NOT NULL,
+  date TEXT NOT NULL,                -- Format: YYYY-MM-DD (session date)
+  open REAL,
+  high REAL,
+  low REAL,
+  close REAL NOT NULL,
+  volume REAL,
+  updated_at TEXT NOT NULL,          -- ISO timestamp of the refresh that wrote the row
+  PRIMARY KEY (symbol, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_daily_bars_symbol_date
+  ON daily_bars (symbol, date DESC);
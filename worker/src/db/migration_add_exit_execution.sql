@@ -0,0 +1,6 @@
+-- Migration: Record exit execution on trades
+-- exit_execution: JSON ExitExecutionRecord (policy, per-step timing and prices, fill)
+-- exit_slippage: exit fill vs current_mark at the trigger (positive = worse than mark)
+
+ALTER TABLE trades ADD COLUMN exit_execution TEXT;
+ALTER TABLE trades ADD COLUMN exit_slippage REAL;
@@ -0,0 +1,29 @@
+-- Migration: Add exit_profiles table and trades.exit_profile
+-- Versioned exit rules (profit target, stop loss, trailing, time exit, IV crush)
+-- per strategy or strategy + symbol. NULL rule columns inherit from the
+-- strategy-wide profile, then the global CLOSE_RULE_* settings.
+-- Each trade stores the rules resolved at entry, so later edits only apply to new trades.
+
+CREATE TABLE IF NOT EXISTS exit_profiles (
+  id TEXT PRIMARY KEY,
+  strategy TEXT NOT NULL,
+  symbol TEXT,                       -- NULL = every symbol for the strategy
+  version INTEGER NOT NULL,          -- 1, 2, ... per (strategy, symbol)
+  active INTEGER NOT NULL DEFAULT 1, -- 1 = current version
+  profit_target_fraction REAL,
+  stop_loss_fraction REAL,
+  trail_arm_profit_fraction REAL,
+  trail_giveback_fraction REAL,
+  time_exit_dte INTEGER,
+  time_exit_cutoff TEXT,             -- HH:MM ET
+  iv_crush_threshold REAL,
+  iv_crush_min_pnl REAL,
+  notes TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_exit_profiles_lookup
+  ON exit_profiles (strategy, symbol, active);
+
+-- JSON snapshot of the resolved exit rules at entry; NULL = resolve live
+ALTER TABLE trades ADD COLUMN exit_profile TEXT;
@@ -0,0 +1,11 @@
+-- Add call wing strikes for IRON_CONDOR trades/proposals
+-- short_strike/long_strike hold the put wing; call_short_strike/call_long_strike the call wing
+ALTER TABLE trades ADD COLUMN call_short_strike REAL;
+ALTER TABLE trades ADD COLUMN call_long_strike REAL;
+-- Wing closed on its own (WING_DEFENSE) while the other wing stays open: 'PUT' | 'CALL'
+ALTER TABLE trades ADD COLUMN closed_wing TEXT;
+-- Debit paid to close that wing (per contract)
+ALTER TABLE trades ADD COLUMN wing_exit_price REAL;
+
+ALTER TABLE proposals ADD COLUMN call_short_strike REAL;
+ALTER TABLE proposals ADD COLUMN call_long_strike REAL;
@@ -0,0 +1,17 @@
+-- Migration: Add iv_history table
+-- Daily ATM 30-day implied volatility per symbol, captured near the close.
+-- Feeds the 52-week IV Rank / IV percentile used in proposal scoring.
+
+CREATE TABLE IF NOT EXISTS iv_history (
+  symbol TEXT NOT NULL,
+  date TEXT NOT NULL,                -- Format: YYYY-MM-DD (ET date)
+  iv_30d REAL NOT NULL,              -- ATM constant-maturity 30-day IV (decimal)
+  underlying_price REAL,
+  near_expiration TEXT,              -- Expirations used for the 30-day interpolation
+  far_expiration TEXT,
+  captured_at TEXT NOT NULL,         -- ISO timestamp
+  PRIMARY KEY (symbol, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_iv_history_symbol_date
+  ON iv_history (symbol, date DESC);
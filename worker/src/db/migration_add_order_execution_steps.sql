@@ -0,0 +1,10 @@
+-- Migration: Record entry limit-walk steps on orders
+-- Each walk step is its own order row (new client_order_id); these columns record
+-- how the step was priced so fills can be compared against mid and natural.
+
+ALTER TABLE orders ADD COLUMN limit_price REAL;     -- limit sent for this step
+ALTER TABLE orders ADD COLUMN mid_price REAL;       -- spread mid when priced
+ALTER TABLE orders ADD COLUMN natural_price REAL;   -- spread natural (short bids - long asks) when priced
+ALTER TABLE orders ADD COLUMN walk_step INTEGER;    -- 0 = first step at mid
+
+CREATE INDEX IF NOT EXISTS idx_orders_walk_step ON orders(proposal_id, walk_step);
@@ -0,0 +1,6 @@
+-- Migration: Keep the closed part of partially filled exit ladders on trades
+-- partial_exit_quantity: spreads already closed (removed from quantity while the rest stays OPEN)
+-- partial_exit_value: sum of their fill price x quantity, folded into exit_price and realized_pnl on close
+
+ALTER TABLE trades ADD COLUMN partial_exit_quantity INTEGER;
+ALTER TABLE trades ADD COLUMN partial_exit_value REAL;
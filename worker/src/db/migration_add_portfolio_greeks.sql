@@ -0,0 +1,26 @@
+-- Migration: Portfolio Greeks
+-- Per-leg greeks on portfolio_positions (from the Tradier chain during snapshot sync)
+-- and a portfolio_greeks time series written each monitor cycle (see core/greeks.ts).
+
+ALTER TABLE portfolio_positions ADD COLUMN delta REAL;
+ALTER TABLE portfolio_positions ADD COLUMN gamma REAL;
+ALTER TABLE portfolio_positions ADD COLUMN theta REAL;
+ALTER TABLE portfolio_positions ADD COLUMN vega REAL;
+ALTER TABLE portfolio_positions ADD COLUMN implied_volatility REAL;
+
+CREATE TABLE IF NOT EXISTS portfolio_greeks (
+  id TEXT PRIMARY KEY,
+  as_of TEXT NOT NULL,               -- ISO timestamp
+  net_delta REAL NOT NULL,           -- share-equivalent delta (sum of leg delta * 100 * signed qty)
+  net_gamma REAL NOT NULL,           -- delta change per $1 underlying move
+  net_theta REAL NOT NULL,           -- $ per day
+  net_vega REAL NOT NULL,            -- $ per 1 vol point
+  spy_weighted_delta REAL,           -- net delta in SPY shares (beta * price ratio); NULL without a SPY price
+  positions INTEGER NOT NULL,        -- legs included
+  missing_greeks INTEGER NOT NULL,   -- legs without greeks (counted as 0)
+  by_symbol TEXT,                    -- JSON: per-underlying Greeks
+  by_trade TEXT,                     -- JSON: per-trade Greeks
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_portfolio_greeks_as_of ON portfolio_greeks(as_of DESC);
@@ -0,0 +1,3 @@
+-- Add position sizing rationale to proposals table
+-- JSON from core/sizing.ts: mode, equity, budget, scaling factors and each cap applied
+ALTER TABLE proposals ADD COLUMN sizing TEXT;
@@ -0,0 +1,5 @@
+-- Add volatility inputs to proposals table
+-- Realized vol and ATM 30-day IV used by the RV/IV gate, kept for later analysis
+ALTER TABLE proposals ADD COLUMN rv_30d REAL;
+ALTER TABLE proposals ADD COLUMN rv_30d_parkinson REAL;
+ALTER TABLE proposals ADD COLUMN iv_30d REAL;
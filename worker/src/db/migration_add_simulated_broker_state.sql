@@ -0,0 +1,11 @@
+-- Migration: Simulated Broker State
+-- DRY_RUN order book and position ledger (broker/simulatedBroker.ts). One row per
+-- ledger; writers update it with UPDATE ... WHERE version = ? and retry on conflict,
+-- so overlapping cron runs never overwrite each other's orders.
+
+CREATE TABLE IF NOT EXISTS simulated_broker_state (
+  id TEXT PRIMARY KEY,               -- ledger name ('default')
+  version INTEGER NOT NULL,          -- bumped on every write (compare-and-swap)
+  state TEXT NOT NULL,               -- JSON SimulatedBrokerState
+  updated_at TEXT NOT NULL
+);
@@ -0,0 +1,17 @@
+-- Migration: Add strategy_configs table
+-- Versioned strategy configurations (symbols, DTE window, width, delta band, credit
+-- fraction, skew caps, enablement) edited at runtime. The STRATEGY_CONFIGS constants in
+-- strategy/config.ts are the seed defaults for strategies without an active version.
+
+CREATE TABLE IF NOT EXISTS strategy_configs (
+  id TEXT PRIMARY KEY,
+  strategy TEXT NOT NULL,
+  version INTEGER NOT NULL,          -- 1, 2, ... per strategy
+  active INTEGER NOT NULL DEFAULT 1, -- 1 = current version
+  config TEXT NOT NULL,              -- JSON StrategyConfig (without id)
+  notes TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_strategy_configs_lookup
+  ON strategy_configs (strategy, active);
@@ -0,0 +1,5 @@
+-- Add the long (back) leg expiration for time spreads (CALL_CALENDAR, CALL_DIAGONAL)
+-- expiration holds the short (front) leg; NULL for single-expiration strategies
+ALTER TABLE trades ADD COLUMN long_expiration TEXT;
+
+ALTER TABLE proposals ADD COLUMN long_expiration TEXT;
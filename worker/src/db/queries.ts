@@ -20,6 +20,14 @@ import type {
   OrderStatus,
   OrderSide,
   ProposalKind,
+  IVHistoryRow,
+  DailyBarRow,
+  ExitProfileRow,
+  StrategyConfigRow,
+  PortfolioGreeksRow,
+  AuditLogRow,
+  ConfigProfileRow,
+  ConfigProfileSwitchRow,
 } from '../types';
 import type { BrokerLogContext } from '../logging/brokerLogger';
 import { getDB } from './client';
@@ -48,8 +56,9 @@ export async function insertTrade(
         entry_price, exit_price, max_profit, max_loss, status, exit_reason,
         broker_order_id_open, broker_order_id_close, opened_at, closed_at,
         created_at, updated_at, realized_pnl, max_seen_profit_fraction, iv_entry,
-        strategy, origin, managed
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        strategy, origin, managed, call_short_strike, call_long_strike, closed_wing, wing_exit_price,
+        long_expiration, exit_profile, exit_execution, exit_slippage, partial_exit_quantity, partial_exit_value
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       tradeWithTimestamps.id,
       tradeWithTimestamps.proposal_id,
@@ -76,7 +85,17 @@ export async function insertTrade(
       tradeWithTimestamps.iv_entry ?? null,
       tradeWithTimestamps.strategy ?? 'BULL_PUT_CREDIT', // CRITICAL: Must match proposal strategy
       tradeWithTimestamps.origin ?? 'ENGINE',
-      tradeWithTimestamps.managed ?? 1
+      tradeWithTimestamps.managed ?? 1,
+      tradeWithTimestamps.call_short_strike ?? null,
+      tradeWithTimestamps.call_long_strike ?? null,
+      tradeWithTimestamps.closed_wing ?? null,
+      tradeWithTimestamps.wing_exit_price ?? null,
+      tradeWithTimestamps.long_expiration ?? null,
+      tradeWithTimestamps.exit_profile ?? null,
+      tradeWithTimestamps.exit_execution ?? null,
+      tradeWithTimestamps.exit_slippage ?? null,
+      tradeWithTimestamps.partial_exit_quantity ?? null,
+      tradeWithTimestamps.partial_exit_value ?? null
     ).run();
 
     console.log('[db] insertTrade success', JSON.stringify({
@@ -236,8 +255,10 @@ export async function insertProposal(
       id, symbol, expiration, short_strike, long_strike, width, quantity,
       strategy, credit_target, score, ivr_score, vertical_skew_score,
       term_structure_score, delta_fitness_score, ev_score,
-      created_at, status, kind, linked_trade_id, client_order_id
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      created_at, status, kind, linked_trade_id, client_order_id,
+      rv_30d, rv_30d_parkinson, iv_30d, call_short_strike, call_long_strike, long_expiration,
+      sizing
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).bind(
     proposalWithTimestamp.id,
     proposalWithTimestamp.symbol,
@@ -258,7 +279,14 @@ export async function insertProposal(
     proposalWithTimestamp.status,
     proposalWithTimestamp.kind ?? null,
     proposalWithTimestamp.linked_trade_id ?? null,
-    proposalWithTimestamp.client_order_id ?? null
+    proposalWithTimestamp.client_order_id ?? null,
+    proposalWithTimestamp.rv_30d ?? null,
+    proposalWithTimestamp.rv_30d_parkinson ?? null,
+    proposalWithTimestamp.iv_30d ?? null,
+    proposalWithTimestamp.call_short_strike ?? null,
+    proposalWithTimestamp.call_long_strike ?? null,
+    proposalWithTimestamp.long_expiration ?? null,
+    proposalWithTimestamp.sizing ?? null
   ).run();
 
   // CRITICAL: Log proposal creation with strategy for verification
@@ -372,6 +400,30 @@ export async function updateProposal(
 // Settings Queries
 // ============================================================================
 
+// Whole settings table, read once per request / cron run for the typed accessors in
+// core/settings.ts. Writes below update it; the age limit bounds staleness for
+// long-lived isolates that skip the per-request reset.
+const SETTINGS_SNAPSHOT_MAX_AGE_MS = 60_000;
+
+let settingsSnapshot: { env: Env; values: Map<string, string>; loadedAt: number } | null = null;
+
+export function resetSettingsSnapshot(): void {
+  settingsSnapshot = null;
+}
+
+export async function getSettingsSnapshot(env: Env): Promise<Map<string, string>> {
+  if (
+    settingsSnapshot &&
+    settingsSnapshot.env === env &&
+    Date.now() - settingsSnapshot.loadedAt < SETTINGS_SNAPSHOT_MAX_AGE_MS
+  ) {
+    return settingsSnapshot.values;
+  }
+  const rows = await getAllSettings(env);
+  settingsSnapshot = { env, values: new Map(rows.map(row => [row.key, row.value])), loadedAt: Date.now() };
+  return settingsSnapshot.values;
+}
+
 export async function getSetting(env: Env, key: string): Promise<string | null> {
   const db = getDB(env);
   const result = await db.prepare(`
@@ -387,6 +439,9 @@ export async function setSetting(env: Env, key: string, value: string): Promise<
   await db.prepare(`
     INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)
   `).bind(key, value).run();
+  if (settingsSnapshot?.env === env) {
+    settingsSnapshot.values.set(key, value);
+  }
 }
 
 export async function getAllSettings(env: Env): Promise<SettingRow[]> {
@@ -403,6 +458,9 @@ export async function deleteSetting(env: Env, key: string): Promise<void> {
   await db.prepare(`
     DELETE FROM settings WHERE key = ?
   `).bind(key).run();
+  if (settingsSnapshot?.env === env) {
+    settingsSnapshot.values.delete(key);
+  }
 }
 
 /**
@@ -643,6 +701,25 @@ export async function getLatestAccountSnapshot(
   return result || null;
 }
 
+/**
+ * Most recent Tradier balances from the snapshot sync, or null if none
+ */
+export async function getLatestAccountBalance(
+  env: Env
+): Promise<import('../types').AccountBalanceRow | null> {
+  const db = getDB(env);
+  const result = await db
+    .prepare(
+      `SELECT *
+       FROM account_balances
+       ORDER BY as_of DESC
+       LIMIT 1`
+    )
+    .first<import('../types').AccountBalanceRow>();
+
+  return result || null;
+}
+
 // ============================================================================
 // Daily Summary Queries
 // ============================================================================
@@ -708,6 +785,316 @@ export async function getProposalsByDate(
   return result.results || [];
 }
 
+// ============================================================================
+// IV History Queries
+// ============================================================================
+
+export async function upsertIVHistory(env: Env, row: IVHistoryRow): Promise<void> {
+  const db = getDB(env);
+  await db.prepare(`
+    INSERT OR REPLACE INTO iv_history (
+      symbol, date, iv_30d, underlying_price, near_expiration, far_expiration, captured_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    row.symbol,
+    row.date,
+    row.iv_30d,
+    row.underlying_price,
+    row.near_expiration,
+    row.far_expiration,
+    row.captured_at
+  ).run();
+}
+
+/**
+ * IV history for a symbol on or after sinceDate (YYYY-MM-DD), oldest first
+ */
+export async function getIVHistory(
+  env: Env,
+  symbol: string,
+  sinceDate: string
+): Promise<IVHistoryRow[]> {
+  const db = getDB(env);
+  const result = await db.prepare(`
+    SELECT * FROM iv_history
+    WHERE symbol = ? AND date >= ?
+    ORDER BY date ASC
+  `).bind(symbol, sinceDate).all<IVHistoryRow>();
+
+  return result.results || [];
+}
+
+// ============================================================================
+// Daily Bar Queries
+// ============================================================================
+
+/**
+ * Upsert daily bars (one statement per bar, sent as a single batch)
+ */
+export async function upsertDailyBars(env: Env, rows: DailyBarRow[]): Promise<void> {
+  if (rows.length === 0) {
+    return;
+  }
+  const db = getDB(env);
+  const statement = db.prepare(`
+    INSERT OR REPLACE INTO daily_bars (
+      symbol, date, open, high, low, close, volume, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  await db.batch(rows.map(row => statement.bind(
+    row.symbol,
+    row.date,
+    row.open,
+    row.high,
+    row.low,
+    row.close,
+    row.volume,
+    row.updated_at
+  )));
+}
+
+/**
+ * Daily bars for a symbol on or after sinceDate (YYYY-MM-DD), oldest first
+ */
+export async function getDailyBars(
+  env: Env,
+  symbol: string,
+  sinceDate: string
+): Promise<DailyBarRow[]> {
+  const db = getDB(env);
+  const result = await db.prepare(`
+    SELECT * FROM daily_bars
+    WHERE symbol = ? AND date >= ?
+    ORDER BY date ASC
+  `).bind(symbol, sinceDate).all<DailyBarRow>();
+
+  return result.results || [];
+}
+
+/**
+ * Most recent stored bar date for a symbol, or null if none
+ */
+export async function getLatestDailyBarDate(env: Env, symbol: string): Promise<string | null> {
+  const db = getDB(env);
+  const result = await db.prepare(`
+    SELECT MAX(date) AS date FROM daily_bars WHERE symbol = ?
+  `).bind(symbol).first<{ date: string | null }>();
+
+  return result?.date ?? null;
+}
+
+// ============================================================================
+// Exit Profile Queries
+// ============================================================================
+
+/**
+ * Active exit profiles (current version of each strategy / strategy + symbol profile)
+ */
+export async function getActiveExitProfiles(env: Env): Promise<ExitProfileRow[]> {
+  const db = getDB(env);
+  const result = await db.prepare(`
+    SELECT * FROM exit_profiles
+    WHERE active = 1
+    ORDER BY strategy ASC, symbol ASC
+  `).all<ExitProfileRow>();
+
+  return result.results || [];
+}
+
+/**
+ * Active profiles that apply to a strategy on a symbol: the strategy-wide profile
+ * (symbol NULL) and the symbol profile, strategy-wide first
+ */
+export async function getApplicableExitProfiles(
+  env: Env,
+  strategy: string,
+  symbol: string
+): Promise<ExitProfileRow[]> {
+  const db = getDB(env);
+  const result = await db.prepare(`
+    SELECT * FROM exit_profiles
+    WHERE strategy = ? AND active = 1 AND (symbol IS NULL OR symbol = ?)
+    ORDER BY symbol IS NULL DESC
+  `).bind(strategy, symbol).all<ExitProfileRow>();
+
+  return result.results || [];
+}
+
+/**
+ * Every version of every exit profile, newest first
+ */
+export async function getExitProfileHistory(env: Env, limit: number = 200): Promise<ExitProfileRow[]> {
+  const db = getDB(env);
+  const result = await db.prepare(`
+    SELECT * FROM exit_profiles
+    ORDER BY created_at DESC
+    LIMIT ?
+  `).bind(limit).all<ExitProfileRow>();
+
+  return result.results || [];
+}
+
+/**
+ * Save a new version of a (strategy, symbol) exit profile
+ * 
+ * The previous active version is deactivated in the same batch; earlier
+ * versions stay in the table as history.
+ */
+export async function insertExitProfileVersion(
+  env: Env,
+  profile: Omit<ExitProfileRow, 'id' | 'version' | 'active' | 'created_at'>
+): Promise<ExitProfileRow> {
+  const db = getDB(env);
+  const latest = await db.prepare(`
+    SELECT MAX(version) AS version FROM exit_profiles WHERE strategy = ? AND symbol IS ?
+  `).bind(profile.strategy, profile.symbol).first<{ version: number | null }>();
+
+  const row: ExitProfileRow = {
+    ...profile,
+    id: crypto.randomUUID(),
+    version: (latest?.version ?? 0) + 1,
+    active: 1,
+    created_at: new Date().toISOString(),
+  };
+
+  await db.batch([
+    db.prepare(`
+      UPDATE exit_profiles SET active = 0 WHERE strategy = ? AND symbol IS ? AND active = 1
+    `).bind(row.strategy, row.symbol),
+    db.prepare(`
+      INSERT INTO exit_profiles (
+        id, strategy, symbol, version, active,
+        profit_target_fraction, stop_loss_fraction, trail_arm_profit_fraction, trail_giveback_fraction,
+        time_exit_dte, time_exit_cutoff, iv_crush_threshold, iv_crush_min_pnl, notes, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      row.id,
+      row.strategy,
+      row.symbol,
+      row.version,
+      row.active,
+      row.profit_target_fraction,
+      row.stop_loss_fraction,
+      row.trail_arm_profit_fraction,
+      row.trail_giveback_fraction,
+      row.time_exit_dte,
+      row.time_exit_cutoff,
+      row.iv_crush_threshold,
+      row.iv_crush_min_pnl,
+      row.notes,
+      row.created_at
+    ),
+  ]);
+
+  return row;
+}
+
+/**
+ * Deactivate the active version of a (strategy, symbol) exit profile so its rules
+ * fall back to the next level. Returns the number of rows deactivated.
+ */
+export async function deactivateExitProfile(
+  env: Env,
+  strategy: string,
+  symbol: string | null
+): Promise<number> {
+  const db = getDB(env);
+  const result = await db.prepare(`
+    UPDATE exit_profiles SET active = 0 WHERE strategy = ? AND symbol IS ? AND active = 1
+  `).bind(strategy, symbol).run();
+
+  return result.meta.changes || 0;
+}
+
+// ============================================================================
+// Strategy Config Queries
+// ============================================================================
+
+/**
+ * Active strategy config versions (one per strategy at most)
+ */
+export async function getActiveStrategyConfigs(env: Env): Promise<StrategyConfigRow[]> {
+  const db = getDB(env);
+  const result = await db.prepare(`
+    SELECT * FROM strategy_configs
+    WHERE active = 1
+    ORDER BY strategy ASC
+  `).all<StrategyConfigRow>();
+
+  return result.results || [];
+}
+
+/**
+ * Every version of every strategy config, newest first
+ */
+export async function getStrategyConfigHistory(env: Env, limit: number = 200): Promise<StrategyConfigRow[]> {
+  const db = getDB(env);
+  const result = await db.prepare(`
+    SELECT * FROM strategy_configs
+    ORDER BY created_at DESC
+    LIMIT ?
+  `).bind(limit).all<StrategyConfigRow>();
+
+  return result.results || [];
+}
+
+/**
+ * Save a new version of a strategy config
+ *
+ * The previous active version is deactivated in the same batch; earlier
+ * versions stay in the table as history.
+ */
+export async function insertStrategyConfigVersion(
+  env: Env,
+  version: Pick<StrategyConfigRow, 'strategy' | 'config' | 'notes'>
+): Promise<StrategyConfigRow> {
+  const db = getDB(env);
+  const latest = await db.prepare(`
+    SELECT MAX(version) AS version FROM strategy_configs WHERE strategy = ?
+  `).bind(version.strategy).first<{ version: number | null }>();
+
+  const row: StrategyConfigRow = {
+    ...version,
+    id: crypto.randomUUID(),
+    version: (latest?.version ?? 0) + 1,
+    active: 1,
+    created_at: new Date().toISOString(),
+  };
+
+  await db.batch([
+    db.prepare(`
+      UPDATE strategy_configs SET active = 0 WHERE strategy = ? AND active = 1
+    `).bind(row.strategy),
+    db.prepare(`
+      INSERT INTO strategy_configs (id, strategy, version, active, config, notes, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      row.id,
+      row.strategy,
+      row.version,
+      row.active,
+      row.config,
+      row.notes,
+      row.created_at
+    ),
+  ]);
+
+  return row;
+}
+
+/**
+ * Deactivate a strategy's active config version so it falls back to the seed
+ * defaults. Returns the number of rows deactivated.
+ */
+export async function deactivateStrategyConfig(env: Env, strategy: string): Promise<number> {
+  const db = getDB(env);
+  const result = await db.prepare(`
+    UPDATE strategy_configs SET active = 0 WHERE strategy = ? AND active = 1
+  `).bind(strategy).run();
+
+  return result.meta.changes || 0;
+}
+
 // ============================================================================
 // Portfolio Position Queries
 // ============================================================================
@@ -728,12 +1115,14 @@ export async function getSpreadLegPositions(
   expiration: string,
   optionType: 'call' | 'put',
   shortStrike: number,
-  longStrike: number
+  longStrike: number,
+  longExpiration?: string | null // Time spreads: long leg sits in a later expiration
 ): Promise<{
   shortLeg: PortfolioPositionRow | null;
   longLeg: PortfolioPositionRow | null;
 }> {
   const db = getDB(env);
+  const longLegExpiration = longExpiration ?? expiration;
   
   // Get short leg - check both long and short sides since strategy determines which side we have
   const shortLegShortSide = await db.prepare(`
@@ -753,13 +1142,13 @@ export async function getSpreadLegPositions(
     SELECT * FROM portfolio_positions
     WHERE symbol = ? AND expiration = ? AND option_type = ? AND strike = ? AND side = 'short'
     LIMIT 1
-  `).bind(symbol, expiration, optionType, longStrike).first<PortfolioPositionRow>();
+  `).bind(symbol, longLegExpiration, optionType, longStrike).first<PortfolioPositionRow>();
   
   const longLegLongSide = await db.prepare(`
     SELECT * FROM portfolio_positions
     WHERE symbol = ? AND expiration = ? AND option_type = ? AND strike = ? AND side = 'long'
     LIMIT 1
-  `).bind(symbol, expiration, optionType, longStrike).first<PortfolioPositionRow>();
+  `).bind(symbol, longLegExpiration, optionType, longStrike).first<PortfolioPositionRow>();
   
   // Return whichever side has a position (or null if neither exists)
   return {
@@ -867,6 +1256,384 @@ export async function deletePortfolioPositionsNotInSet(
   return result.meta.changes || 0;
 }
 
+// ============================================================================
+// Portfolio Greeks Queries
+// ============================================================================
+
+/**
+ * Insert a portfolio Greeks snapshot
+ */
+export async function insertPortfolioGreeks(env: Env, row: PortfolioGreeksRow): Promise<void> {
+  const db = getDB(env);
+  await db.prepare(`
+    INSERT INTO portfolio_greeks (
+      id, as_of, net_delta, net_gamma, net_theta, net_vega, spy_weighted_delta,
+      positions, missing_greeks, by_symbol, by_trade, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    row.id,
+    row.as_of,
+    row.net_delta,
+    row.net_gamma,
+    row.net_theta,
+    row.net_vega,
+    row.spy_weighted_delta,
+    row.positions,
+    row.missing_greeks,
+    row.by_symbol,
+    row.by_trade,
+    row.created_at
+  ).run();
+}
+
+/**
+ * Most recent portfolio Greeks snapshot, or null if none
+ */
+export async function getLatestPortfolioGreeks(env: Env): Promise<PortfolioGreeksRow | null> {
+  const db = getDB(env);
+  const result = await db.prepare(`
+    SELECT * FROM portfolio_greeks ORDER BY as_of DESC LIMIT 1
+  `).first<PortfolioGreeksRow>();
+
+  return result || null;
+}
+
+/**
+ * Portfolio Greeks snapshots since an ISO timestamp, oldest first
+ */
+export async function getPortfolioGreeksHistory(env: Env, since: string): Promise<PortfolioGreeksRow[]> {
+  const db = getDB(env);
+  const result = await db.prepare(`
+    SELECT * FROM portfolio_greeks
+    WHERE as_of >= ?
+    ORDER BY as_of ASC
+  `).bind(since).all<PortfolioGreeksRow>();
+
+  return result.results || [];
+}
+
+// ============================================================================
+// Audit Log Queries
+// ============================================================================
+
+export interface AuditLogFilters {
+  actor?: string;
+  path?: string;               // substring match
+  targetType?: string;
+  targetId?: string;           // exact, or one of the comma-separated keys
+  since?: string;              // ISO timestamp, inclusive
+  until?: string;              // ISO timestamp, exclusive
+  limit: number;
+}
+
+/**
+ * Append an audit_log row (the table rejects UPDATE and DELETE)
+ */
+export async function insertAuditLog(env: Env, row: AuditLogRow): Promise<void> {
+  const db = getDB(env);
+  await db.prepare(`
+    INSERT INTO audit_log (
+      id, created_at, actor, actor_role, method, path, query, status_code, reason,
+      request_body, target_type, target_id, before_value, after_value
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    row.id,
+    row.created_at,
+    row.actor,
+    row.actor_role,
+    row.method,
+    row.path,
+    row.query,
+    row.status_code,
+    row.reason,
+    row.request_body,
+    row.target_type,
+    row.target_id,
+    row.before_value,
+    row.after_value
+  ).run();
+}
+
+/**
+ * Audit log rows matching the filters, newest first
+ */
+export async function getAuditLog(env: Env, filters: AuditLogFilters): Promise<AuditLogRow[]> {
+  const db = getDB(env);
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+
+  if (filters.actor) {
+    conditions.push('actor = ?');
+    params.push(filters.actor);
+  }
+  if (filters.path) {
+    conditions.push('path LIKE ?');
+    params.push(`%${filters.path}%`);
+  }
+  if (filters.targetType) {
+    conditions.push('target_type = ?');
+    params.push(filters.targetType);
+  }
+  if (filters.targetId) {
+    conditions.push(`(target_id = ? OR ',' || target_id || ',' LIKE ?)`);
+    params.push(filters.targetId, `%,${filters.targetId},%`);
+  }
+  if (filters.since) {
+    conditions.push('created_at >= ?');
+    params.push(filters.since);
+  }
+  if (filters.until) {
+    conditions.push('created_at < ?');
+    params.push(filters.until);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const result = await db.prepare(`
+    SELECT * FROM audit_log
+    ${where}
+    ORDER BY created_at DESC
+    LIMIT ?
+  `).bind(...params, filters.limit).all<AuditLogRow>();
+
+  return result.results || [];
+}
+
+// ============================================================================
+// Config Profile Queries
+// ============================================================================
+
+export async function getConfigProfiles(env: Env): Promise<ConfigProfileRow[]> {
+  const db = getDB(env);
+  const result = await db.prepare(`
+    SELECT * FROM config_profiles
+    ORDER BY name ASC
+  `).all<ConfigProfileRow>();
+
+  return result.results || [];
+}
+
+export async function getConfigProfile(env: Env, id: string): Promise<ConfigProfileRow | null> {
+  const db = getDB(env);
+  return db.prepare(`
+    SELECT * FROM config_profiles WHERE id = ?
+  `).bind(id).first<ConfigProfileRow>();
+}
+
+export async function getConfigProfileByName(env: Env, name: string): Promise<ConfigProfileRow | null> {
+  const db = getDB(env);
+  return db.prepare(`
+    SELECT * FROM config_profiles WHERE name = ?
+  `).bind(name).first<ConfigProfileRow>();
+}
+
+/**
+ * Insert or update a profile (by id)
+ */
+export async function upsertConfigProfile(env: Env, row: ConfigProfileRow): Promise<void> {
+  const db = getDB(env);
+  await db.prepare(`
+    INSERT INTO config_profiles (id, name, description, settings, strategies, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      name = excluded.name,
+      description = excluded.description,
+      settings = excluded.settings,
+      strategies = excluded.strategies,
+      updated_at = excluded.updated_at
+  `).bind(
+    row.id,
+    row.name,
+    row.description,
+    row.settings,
+    row.strategies,
+    row.created_at,
+    row.updated_at
+  ).run();
+}
+
+export async function deleteConfigProfile(env: Env, id: string): Promise<boolean> {
+  const db = getDB(env);
+  const result = await db.prepare(`
+    DELETE FROM config_profiles WHERE id = ?
+  `).bind(id).run();
+  return (result.meta.changes || 0) > 0;
+}
+
+/**
+ * Profile switches, newest first (scheduled ones by creation time)
+ */
+export async function getConfigProfileSwitches(env: Env, limit: number = 50): Promise<ConfigProfileSwitchRow[]> {
+  const db = getDB(env);
+  const result = await db.prepare(`
+    SELECT * FROM config_profile_switches
+    ORDER BY COALESCE(applied_at, created_at) DESC
+    LIMIT ?
+  `).bind(limit).all<ConfigProfileSwitchRow>();
+
+  return result.results || [];
+}
+
+export async function getConfigProfileSwitch(env: Env, id: string): Promise<ConfigProfileSwitchRow | null> {
+  const db = getDB(env);
+  return db.prepare(`
+    SELECT * FROM config_profile_switches WHERE id = ?
+  `).bind(id).first<ConfigProfileSwitchRow>();
+}
+
+/**
+ * Scheduled switches, soonest first (due ones only when dueBy is given)
+ */
+export async function getScheduledConfigProfileSwitches(
+  env: Env,
+  dueBy?: string
+): Promise<ConfigProfileSwitchRow[]> {
+  const db = getDB(env);
+  const result = await db.prepare(`
+    SELECT * FROM config_profile_switches
+    WHERE status = 'SCHEDULED' AND (? IS NULL OR activate_at <= ?)
+    ORDER BY activate_at ASC
+  `).bind(dueBy ?? null, dueBy ?? null).all<ConfigProfileSwitchRow>();
+
+  return result.results || [];
+}
+
+/**
+ * Most recent applied switch (APPLIED or later ROLLED_BACK), optionally one action only
+ */
+export async function getLatestAppliedConfigProfileSwitch(
+  env: Env,
+  options: { action?: ConfigProfileSwitchRow['action']; excludeRolledBack?: boolean } = {}
+): Promise<ConfigProfileSwitchRow | null> {
+  const db = getDB(env);
+  const statuses = options.excludeRolledBack ? `('APPLIED')` : `('APPLIED', 'ROLLED_BACK')`;
+  return db.prepare(`
+    SELECT * FROM config_profile_switches
+    WHERE status IN ${statuses} AND (? IS NULL OR action = ?)
+    ORDER BY applied_at DESC
+    LIMIT 1
+  `).bind(options.action ?? null, options.action ?? null).first<ConfigProfileSwitchRow>();
+}
+
+export async function insertConfigProfileSwitch(env: Env, row: ConfigProfileSwitchRow): Promise<void> {
+  const db = getDB(env);
+  await configProfileSwitchUpsert(db, row).run();
+}
+
+/**
+ * Move a switch from one status to another; false if it was no longer in `from`
+ * (another cron run claimed it, or it was cancelled)
+ */
+export async function transitionConfigProfileSwitch(
+  env: Env,
+  id: string,
+  from: ConfigProfileSwitchRow['status'],
+  to: ConfigProfileSwitchRow['status'],
+  error: string | null = null
+): Promise<boolean> {
+  const db = getDB(env);
+  const result = await db.prepare(`
+    UPDATE config_profile_switches SET status = ?, error = ? WHERE id = ? AND status = ?
+  `).bind(to, error, id, from).run();
+  return (result.meta.changes || 0) > 0;
+}
+
+/**
+ * Write settings and record the switch in one batch (D1 runs a batch as a transaction)
+ *
+ * values: key → new value, null deletes the key. rolledBackId marks the APPLY switch
+ * a ROLLBACK undoes.
+ */
+export async function commitConfigProfileSwitch(
+  env: Env,
+  values: Record<string, string | null>,
+  row: ConfigProfileSwitchRow,
+  rolledBackId: string | null = null
+): Promise<void> {
+  const db = getDB(env);
+  const statements = Object.entries(values).map(([key, value]) =>
+    value === null
+      ? db.prepare(`DELETE FROM settings WHERE key = ?`).bind(key)
+      : db.prepare(`INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)`).bind(key, value)
+  );
+  statements.push(configProfileSwitchUpsert(db, row));
+  if (rolledBackId) {
+    statements.push(db.prepare(`
+      UPDATE config_profile_switches SET status = 'ROLLED_BACK' WHERE id = ?
+    `).bind(rolledBackId));
+  }
+
+  await db.batch(statements);
+  resetSettingsSnapshot();
+}
+
+function configProfileSwitchUpsert(db: D1Database, row: ConfigProfileSwitchRow): D1PreparedStatement {
+  return db.prepare(`
+    INSERT OR REPLACE INTO config_profile_switches (
+      id, action, status, profile_id, profile_name, previous_profile_id, previous_profile_name,
+      rollback_of, activate_at, previous_values, changes, actor, reason, error, created_at, applied_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    row.id,
+    row.action,
+    row.status,
+    row.profile_id,
+    row.profile_name,
+    row.previous_profile_id,
+    row.previous_profile_name,
+    row.rollback_of,
+    row.activate_at,
+    row.previous_values,
+    row.changes,
+    row.actor,
+    row.reason,
+    row.error,
+    row.created_at,
+    row.applied_at
+  );
+}
+
+// ============================================================================
+// Simulated Broker State Queries
+// ============================================================================
+
+export async function getSimulatedBrokerState(
+  env: Env,
+  id: string
+): Promise<{ version: number; state: string } | null> {
+  const db = getDB(env);
+  return db.prepare(`
+    SELECT version, state FROM simulated_broker_state WHERE id = ?
+  `).bind(id).first<{ version: number; state: string }>();
+}
+
+/**
+ * Compare-and-swap write of the simulated ledger
+ *
+ * expectedVersion null creates the row (fails if another writer created it first);
+ * otherwise the row is only updated if nobody has written since it was loaded.
+ * Returns false on conflict.
+ */
+export async function saveSimulatedBrokerState(
+  env: Env,
+  id: string,
+  state: string,
+  expectedVersion: number | null
+): Promise<boolean> {
+  const db = getDB(env);
+  const now = new Date().toISOString();
+  const result = expectedVersion === null
+    ? await db.prepare(`
+        INSERT INTO simulated_broker_state (id, version, state, updated_at)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT(id) DO NOTHING
+      `).bind(id, 1, state, now).run()
+    : await db.prepare(`
+        UPDATE simulated_broker_state SET state = ?, version = version + 1, updated_at = ?
+        WHERE id = ? AND version = ?
+      `).bind(state, now, id, expectedVersion).run();
+  return (result.meta.changes || 0) > 0;
+}
+
 // ============================================================================
 // Order Queries (re-exported from queries_orders.ts for convenience)
 // ============================================================================
@@ -880,5 +1647,7 @@ export {
   getOrdersByTradeId,
   updateOrder,
   getRecentOrders,
+  getOrdersForExecutionAnalytics,
 } from './queries_orders';
+export type { OrderExecutionRow } from './queries_orders';
 
@@ -29,8 +29,9 @@ export async function insertOrder(
       INSERT INTO orders (
         id, proposal_id, trade_id, client_order_id, tradier_order_id,
         side, status, avg_fill_price, filled_quantity, remaining_quantity,
+        limit_price, mid_price, natural_price, walk_step,
         created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       orderWithTimestamps.id,
       orderWithTimestamps.proposal_id,
@@ -42,6 +43,10 @@ export async function insertOrder(
       orderWithTimestamps.avg_fill_price,
       orderWithTimestamps.filled_quantity,
       orderWithTimestamps.remaining_quantity,
+      orderWithTimestamps.limit_price ?? null,
+      orderWithTimestamps.mid_price ?? null,
+      orderWithTimestamps.natural_price ?? null,
+      orderWithTimestamps.walk_step ?? null,
       orderWithTimestamps.created_at,
       orderWithTimestamps.updated_at,
     ).run();
@@ -187,3 +192,39 @@ export async function getRecentOrders(
   return result.results || [];
 }
 
+
+/**
+ * Order joined with its proposal and trade, for execution analytics
+ */
+export interface OrderExecutionRow extends OrderRow {
+  strategy: string | null;
+  symbol: string | null;
+  credit_target: number | null;
+  trade_exit_reason: string | null;
+  trade_exit_execution: string | null;
+}
+
+/**
+ * Get orders created since an ISO datetime, with proposal and trade context
+ */
+export async function getOrdersForExecutionAnalytics(
+  env: Env,
+  since: string
+): Promise<OrderExecutionRow[]> {
+  const db = getDB(env);
+  const result = await db.prepare(`
+    SELECT o.*,
+      p.strategy AS strategy,
+      p.symbol AS symbol,
+      p.credit_target AS credit_target,
+      t.exit_reason AS trade_exit_reason,
+      t.exit_execution AS trade_exit_execution
+    FROM orders o
+    LEFT JOIN proposals p ON p.id = o.proposal_id
+    LEFT JOIN trades t ON t.id = COALESCE(o.trade_id, p.linked_trade_id)
+    WHERE o.created_at >= ?
+    ORDER BY o.created_at ASC
+  `).bind(since).all<OrderExecutionRow>();
+
+  return result.results || [];
+}
@@ -27,7 +27,17 @@ CREATE TABLE IF NOT EXISTS trades (
   iv_entry REAL,
   strategy TEXT DEFAULT 'BULL_PUT_CREDIT',
   origin TEXT DEFAULT 'ENGINE',
-  managed INTEGER DEFAULT 1
+  managed INTEGER DEFAULT 1,
+  call_short_strike REAL,            -- IRON_CONDOR call wing (short_strike/long_strike = put wing)
+  call_long_strike REAL,
+  closed_wing TEXT,                  -- IRON_CONDOR wing already closed: 'PUT' | 'CALL'
+  wing_exit_price REAL,              -- debit paid to close that wing
+  long_expiration TEXT,              -- CALL_CALENDAR/CALL_DIAGONAL long (back) leg; expiration = short (front) leg
+  exit_profile TEXT,                 -- JSON exit rules resolved at entry (see exit_profiles)
+  exit_execution TEXT,               -- JSON exit ladder record: policy, per-step timing, fill (see engine/exitLadder.ts)
+  exit_slippage REAL,                -- exit fill vs current_mark at the trigger (positive = worse than mark)
+  partial_exit_quantity INTEGER,     -- spreads closed by partially filled exit ladders (removed from quantity)
+  partial_exit_value REAL            -- sum of their fill price x quantity
 );
 
 CREATE TABLE IF NOT EXISTS proposals (
@@ -50,7 +60,14 @@ CREATE TABLE IF NOT EXISTS proposals (
   status TEXT NOT NULL,
   kind TEXT,
   linked_trade_id TEXT,
-  client_order_id TEXT
+  client_order_id TEXT,
+  rv_30d REAL,
+  rv_30d_parkinson REAL,
+  iv_30d REAL,
+  call_short_strike REAL,
+  call_long_strike REAL,
+  long_expiration TEXT,
+  sizing TEXT
 );
 
 CREATE INDEX IF NOT EXISTS idx_proposals_strategy ON proposals(strategy);
@@ -116,6 +133,11 @@ CREATE TABLE IF NOT EXISTS portfolio_positions (
   last_price REAL,                      -- nullable; last/mark price
   bid REAL,                             -- nullable; current bid price (from option chain)
   ask REAL,                             -- nullable; current ask price (from option chain)
+  delta REAL,                           -- nullable; per-contract greeks from the option chain
+  gamma REAL,
+  theta REAL,
+  vega REAL,
+  implied_volatility REAL,
   snapshot_id TEXT,                     -- nullable; links to tradier_snapshots.id
   updated_at TEXT NOT NULL              -- ISO timestamp
 );
@@ -190,4 +212,208 @@ CREATE TABLE IF NOT EXISTS account_balances (
 CREATE INDEX IF NOT EXISTS idx_account_balances_snapshot_id ON account_balances(snapshot_id);
 CREATE INDEX IF NOT EXISTS idx_account_balances_as_of ON account_balances(as_of DESC);
 
+-- ============================================================================
+-- IV History
+--
+-- Daily ATM 30-day IV per symbol (captured near the close) for IV Rank.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS iv_history (
+  symbol TEXT NOT NULL,
+  date TEXT NOT NULL,                -- YYYY-MM-DD (ET date)
+  iv_30d REAL NOT NULL,              -- ATM constant-maturity 30-day IV (decimal)
+  underlying_price REAL,
+  near_expiration TEXT,
+  far_expiration TEXT,
+  captured_at TEXT NOT NULL,
+  PRIMARY KEY (symbol, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_iv_history_symbol_date ON iv_history(symbol, date DESC);
+
+-- ============================================================================
+-- Daily Bars
+--
+-- Daily OHLCV per symbol (refreshed premarket) for indicators.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS daily_bars (
+  symbol TEXT NOT NULL,
+  date TEXT NOT NULL,                -- YYYY-MM-DD (session date)
+  open REAL,
+  high REAL,
+  low REAL,
+  close REAL NOT NULL,
+  volume REAL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (symbol, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_daily_bars_symbol_date ON daily_bars(symbol, date DESC);
+
+-- ============================================================================
+-- Exit Profiles
+--
+-- Versioned exit rules per strategy (symbol NULL) or strategy + symbol.
+-- Saving a profile inserts a new version and deactivates the previous one;
+-- trades snapshot the resolved rules into trades.exit_profile at entry.
+-- ============================================================================
 
+CREATE TABLE IF NOT EXISTS exit_profiles (
+  id TEXT PRIMARY KEY,
+  strategy TEXT NOT NULL,
+  symbol TEXT,                       -- NULL = every symbol for the strategy
+  version INTEGER NOT NULL,
+  active INTEGER NOT NULL DEFAULT 1,
+  profit_target_fraction REAL,       -- NULL columns inherit
+  stop_loss_fraction REAL,
+  trail_arm_profit_fraction REAL,
+  trail_giveback_fraction REAL,
+  time_exit_dte INTEGER,
+  time_exit_cutoff TEXT,             -- HH:MM ET
+  iv_crush_threshold REAL,
+  iv_crush_min_pnl REAL,
+  notes TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_exit_profiles_lookup ON exit_profiles(strategy, symbol, active);
+
+-- ============================================================================
+-- Portfolio Greeks
+--
+-- Net portfolio Greeks from portfolio_positions, one row per monitor cycle.
+-- Read by the Greek risk gates in canOpenNewTrade (core/greeks.ts).
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS portfolio_greeks (
+  id TEXT PRIMARY KEY,
+  as_of TEXT NOT NULL,
+  net_delta REAL NOT NULL,           -- share-equivalent delta
+  net_gamma REAL NOT NULL,           -- delta change per $1 underlying move
+  net_theta REAL NOT NULL,           -- $ per day
+  net_vega REAL NOT NULL,            -- $ per 1 vol point
+  spy_weighted_delta REAL,           -- net delta in SPY shares
+  positions INTEGER NOT NULL,
+  missing_greeks INTEGER NOT NULL,
+  by_symbol TEXT,                    -- JSON
+  by_trade TEXT,                     -- JSON
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_portfolio_greeks_as_of ON portfolio_greeks(as_of DESC);
+
+-- ============================================================================
+-- Audit Log
+--
+-- Append-only record of mutating HTTP requests with before/after values
+-- (core/audit.ts). UPDATE and DELETE are rejected by triggers.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id TEXT PRIMARY KEY,
+  created_at TEXT NOT NULL,
+  actor TEXT,                        -- API key name (NULL = unauthenticated)
+  actor_role TEXT,
+  method TEXT NOT NULL,
+  path TEXT NOT NULL,
+  query TEXT,
+  status_code INTEGER NOT NULL,
+  reason TEXT,
+  request_body TEXT,                 -- truncated
+  target_type TEXT NOT NULL,         -- trade | settings | risk_state | exit_profile | strategy_config | config_profile | request
+  target_id TEXT,
+  before_value TEXT,                 -- JSON
+  after_value TEXT                   -- JSON
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_target ON audit_log(target_type, target_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor);
+
+CREATE TRIGGER IF NOT EXISTS audit_log_no_update
+BEFORE UPDATE ON audit_log
+BEGIN
+  SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS audit_log_no_delete
+BEFORE DELETE ON audit_log
+BEGIN
+  SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
+
+-- ============================================================================
+-- Configuration Profiles
+--
+-- Named sets of settings + strategy enablement, applied atomically, optionally
+-- at a scheduled time, with rollback (core/configProfiles.ts).
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS config_profiles (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  settings TEXT NOT NULL,            -- JSON {key: value} of registered settings
+  strategies TEXT,                   -- JSON StrategyId[] (PROPOSAL_STRATEGY_WHITELIST); NULL = all strategies
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS config_profile_switches (
+  id TEXT PRIMARY KEY,
+  action TEXT NOT NULL,              -- APPLY | ROLLBACK
+  status TEXT NOT NULL,              -- SCHEDULED | APPLYING | APPLIED | ROLLED_BACK | CANCELLED | FAILED
+  profile_id TEXT,                   -- profile active after the switch (NULL = none)
+  profile_name TEXT,
+  previous_profile_id TEXT,
+  previous_profile_name TEXT,
+  rollback_of TEXT,                  -- APPLY switch undone by a ROLLBACK
+  activate_at TEXT NOT NULL,         -- ISO; creation time for immediate switches
+  previous_values TEXT,              -- JSON {key: value | null} before the switch (rollback target)
+  changes TEXT,                      -- JSON [{key, from, to}]
+  actor TEXT,                        -- API key name (scheduled switches keep the scheduler's)
+  reason TEXT,
+  error TEXT,
+  created_at TEXT NOT NULL,
+  applied_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_config_profile_switches_status
+  ON config_profile_switches (status, activate_at);
+CREATE INDEX IF NOT EXISTS idx_config_profile_switches_applied
+  ON config_profile_switches (applied_at DESC);
+
+-- ============================================================================
+-- Strategy Configurations
+--
+-- Versioned runtime strategy configs; strategies without an active version use
+-- the STRATEGY_CONFIGS seed defaults (strategy/config.ts).
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS strategy_configs (
+  id TEXT PRIMARY KEY,
+  strategy TEXT NOT NULL,
+  version INTEGER NOT NULL,          -- 1, 2, ... per strategy
+  active INTEGER NOT NULL DEFAULT 1, -- 1 = current version
+  config TEXT NOT NULL,              -- JSON StrategyConfig (without id)
+  notes TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_strategy_configs_lookup
+  ON strategy_configs (strategy, active);
+
+-- ============================================================================
+-- Simulated Broker State
+--
+-- DRY_RUN order book and position ledger (broker/simulatedBroker.ts). Writers
+-- compare-and-swap on version and retry on conflict.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS simulated_broker_state (
+  id TEXT PRIMARY KEY,               -- ledger name ('default')
+  version INTEGER NOT NULL,          -- bumped on every write (compare-and-swap)
+  state TEXT NOT NULL,               -- JSON SimulatedBrokerState
+  updated_at TEXT NOT NULL
+);
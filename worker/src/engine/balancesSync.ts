@@ -6,7 +6,7 @@
  */
 
 import type { Env } from '../env';
-import { TradierClient } from '../broker/tradierClient';
+import { createBroker } from '../broker/factory';
 import { getTradingMode } from '../core/config';
 import { updateBalancesSyncTimestamp } from '../core/syncFreshness';
 
@@ -28,7 +28,7 @@ export interface BalancesSyncResult {
  * Updates sync freshness timestamp on success.
  */
 export async function syncBalancesFromTradier(env: Env): Promise<BalancesSyncResult> {
-  const broker = new TradierClient(env);
+  const broker = await createBroker(env);
   const mode = await getTradingMode(env);
   
   const result: BalancesSyncResult = {
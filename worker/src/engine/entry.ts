@@ -7,44 +7,51 @@
  * - Validate proposals
  * - Check risk gates
  * - Compute limit price
- * - Place orders via broker
+ * - Place orders via broker, walking the limit from mid toward natural
  * - Poll for fills
  * - Transition to OPEN state
  */
 
 import type { Env } from '../env';
-import type { EntryAttemptResult, TradeRow, BrokerOrderStatus, SpreadLeg } from '../types';
-import { TradierClient } from '../broker/tradierClient';
+import type { EntryAttemptResult, TradeRow, BrokerOrderStatus, EngineBroker } from '../types';
+import { createBroker } from '../broker/factory';
 import { getLatestProposal, updateProposalStatus, insertSystemLog } from '../db/queries';
 import { insertTrade } from '../db/queries';
 import { canOpenNewTrade } from '../core/risk';
 import { isMarketHours } from '../core/time';
-import { getTradingMode, getStrategyThresholds } from '../core/config';
-import { getSetting } from '../db/queries';
+import { getTradingMode, getStrategyThresholds, getEntryExecutionConfig } from '../core/config';
+import { getNumberSetting } from '../core/settings';
 import { markTradeOpen, markTradeCancelled } from './lifecycle';
 import { notifyEntrySubmitted } from '../notifications/telegram';
 import { isRegimeConfidenceSufficient } from '../core/regimeConfidence';
+import { findStrategyPlugin, getStrategyPlugin, getStrategyBias, getStrategyOptionType, isDebitStrategy } from '../strategy/registry';
+import type { EntryQuoteCheck, WingOptions } from '../strategy/types';
+import { getTradeOptionChain, findSpreadLegs } from '../core/timeSpread';
+import { resolveExitProfile } from '../core/exitProfiles';
+import { cancelOrderAndConfirm } from './orderHelpers';
+import { computeSpreadPrices, computeWalkLimitPrice, computePriceImprovement, type OrderLegQuotes, type SpreadPrices } from './limitWalk';
 
 const MAX_PROPOSAL_AGE_MS = 15 * 60 * 1000; // 15 minutes
-const MAX_FILL_WAIT_MS = 30 * 1000; // 30 seconds total timeout (per Tradier-first spec)
 const POLL_INTERVAL_MS = 2 * 1000; // 2 seconds between polls (per Tradier-first spec)
 const ENTRY_SLIPPAGE = 0.02;
+// Limit price band for verticals and condors (time spreads use their plugin debitRange)
+const LIMIT_PRICE_BOUNDS = { min: 0.60, max: 3.00 };
 
 /**
  * Poll order until filled, with strict timeout
  * 
  * Per Tradier-first spec:
  * - Poll every 2 seconds
- * - Timeout after 30 seconds
- * - Return fill status and reason
+ * - Timeout after timeoutMs (one limit-walk step)
+ * - Return fill status and reason (timedOut when the order is still working)
  */
 async function pollOrderUntilFilled(
   env: Env,
-  broker: TradierClient,
+  broker: EngineBroker,
   orderId: string,
   timeoutMs: number,
   pollIntervalMs: number
-): Promise<{ filled: boolean; reason: string; fillPrice?: number }> {
+): Promise<{ filled: boolean; reason: string; fillPrice?: number; timedOut?: boolean }> {
   const startTime = Date.now();
   let lastStatus: BrokerOrderStatus | null = null;
   
@@ -89,6 +96,7 @@ async function pollOrderUntilFilled(
   return {
     filled: false,
     reason: `Timeout after ${timeoutMs}ms, last status: ${lastStatus || 'unknown'}`,
+    timedOut: true,
   };
 }
 
@@ -169,7 +177,7 @@ export async function attemptEntryForLatestProposal(
     
     // 3.0. Check regime confidence (prevent trading in choppy/uncertain conditions)
     const { computeSMA20 } = await import('../core/trend');
-    const brokerForConfidence = new TradierClient(env);
+    const brokerForConfidence = await createBroker(env);
     const underlying = await brokerForConfidence.getUnderlyingQuote(proposal.symbol);
     const sma20 = await computeSMA20(env, proposal.symbol);
     
@@ -197,10 +205,7 @@ export async function attemptEntryForLatestProposal(
     const quantity = proposal.quantity || 1;
     
     // 3.1a. Check maximum quantity per trade (safety limit)
-    const maxTradeQuantity = parseInt(
-      (await getSetting(env, 'MAX_TRADE_QUANTITY')) || '10',
-      10
-    ) || 10; // Default to 10 contracts max per trade
+    const maxTradeQuantity = await getNumberSetting(env, 'MAX_TRADE_QUANTITY'); // Default to 10 contracts max per trade
     if (quantity > maxTradeQuantity) {
       console.log('[entry][risk][rejected]', JSON.stringify({
         proposal_id: proposal.id,
@@ -225,20 +230,14 @@ export async function attemptEntryForLatestProposal(
     const { getOpenTrades: getOpenTradesForConcentration } = await import('../db/queries');
     const openTradesForConcentration = await getOpenTradesForConcentration(env);
     
-    // Determine option side from strategy
-    // For puts: short puts = bearish (BEAR_PUT_DEBIT), long puts = bullish (BULL_PUT_CREDIT)
-    // For calls: short calls = bearish (BEAR_CALL_CREDIT), long calls = bullish (BULL_CALL_DEBIT)
-    const isPutStrategy = proposal.strategy === 'BULL_PUT_CREDIT' || proposal.strategy === 'BEAR_PUT_DEBIT';
-    const isShortPremium = proposal.strategy === 'BULL_PUT_CREDIT' || proposal.strategy === 'BEAR_CALL_CREDIT';
-    const optionSide = isPutStrategy ? (isShortPremium ? 'short_puts' : 'long_puts') : (isShortPremium ? 'short_calls' : 'long_calls');
+    // Determine option side(s) from strategy (IRON_CONDOR is short puts and short calls)
+    const optionSides = getOptionSides(proposal.strategy);
+    const optionSide = optionSides.join('+');
     
     // Check MAX_SPREADS_PER_SYMBOL (default: 3)
     // CRITICAL: This is the FIRST check, but we'll RE-CHECK immediately before trade creation
     // to prevent race conditions from concurrent trade cycles
-    const maxSpreadsPerSymbol = parseInt(
-      (await getSetting(env, 'MAX_SPREADS_PER_SYMBOL')) || '3',
-      10
-    ) || 3;
+    const maxSpreadsPerSymbol = await getNumberSetting(env, 'MAX_SPREADS_PER_SYMBOL');
     // Filter trades for this symbol (getOpenTrades already excludes CANCELLED/CLOSED, but be explicit)
     // CRITICAL: Include ENTRY_PENDING trades - they count toward concentration limits
     // CRITICAL: EXCLUDE CLOSING_PENDING trades - they are in the process of closing and should not block new entries
@@ -296,10 +295,7 @@ export async function attemptEntryForLatestProposal(
     }
     
     // Check MAX_QTY_PER_SYMBOL_PER_SIDE (default: 10 contracts)
-    const maxQtyPerSymbolPerSide = parseInt(
-      (await getSetting(env, 'MAX_QTY_PER_SYMBOL_PER_SIDE')) || '10',
-      10
-    ) || 10;
+    const maxQtyPerSymbolPerSide = await getNumberSetting(env, 'MAX_QTY_PER_SYMBOL_PER_SIDE');
     
     // Sum quantity for existing trades with same symbol and same side
     // For puts: check if strategy is put-based and same short/long direction
@@ -316,10 +312,7 @@ export async function attemptEntryForLatestProposal(
           }));
           return false;
         }
-        const tIsPutStrategy = t.strategy === 'BULL_PUT_CREDIT' || t.strategy === 'BEAR_PUT_DEBIT';
-        const tIsShortPremium = t.strategy === 'BULL_PUT_CREDIT' || t.strategy === 'BEAR_CALL_CREDIT';
-        const tOptionSide = tIsPutStrategy ? (tIsShortPremium ? 'short_puts' : 'long_puts') : (tIsShortPremium ? 'short_calls' : 'long_calls');
-        return tOptionSide === optionSide;
+        return getOptionSides(t.strategy).some(side => optionSides.includes(side));
       })
       .reduce((sum, t) => sum + (t.quantity || 1), 0);
     
@@ -334,10 +327,7 @@ export async function attemptEntryForLatestProposal(
       max_qty_per_symbol_per_side: maxQtyPerSymbolPerSide,
       matching_trades: existingSpreadsForSymbol
         .filter(t => {
-          const tIsPutStrategy = t.strategy === 'BULL_PUT_CREDIT' || t.strategy === 'BEAR_PUT_DEBIT';
-          const tIsShortPremium = t.strategy === 'BULL_PUT_CREDIT' || t.strategy === 'BEAR_CALL_CREDIT';
-          const tOptionSide = tIsPutStrategy ? (tIsShortPremium ? 'short_puts' : 'long_puts') : (tIsShortPremium ? 'short_calls' : 'long_calls');
-          return tOptionSide === optionSide;
+          return getOptionSides(t.strategy).some(side => optionSides.includes(side));
         })
         .map(t => ({
           id: t.id,
@@ -402,7 +392,7 @@ export async function attemptEntryForLatestProposal(
       // Continue to trade creation - duplicate spread restriction removed
     }
     
-    const isDebitSpreadForRisk = proposal.strategy === 'BULL_CALL_DEBIT' || proposal.strategy === 'BEAR_PUT_DEBIT';
+    const isDebitSpreadForRisk = isDebitStrategy(proposal.strategy);
     const estimatedMaxLossPerSpread = isDebitSpreadForRisk 
       ? Math.abs(proposal.credit_target) // For debit, credit_target is negative (debit paid)
       : proposal.width - proposal.credit_target; // For credit, max_loss = width - credit
@@ -433,8 +423,9 @@ export async function attemptEntryForLatestProposal(
     }
     
     // Exposure governors (for directional strategies)
-    const isBullishStrategy = proposal.strategy === 'BULL_PUT_CREDIT' || proposal.strategy === 'BULL_CALL_DEBIT';
-    const isBearishStrategy = proposal.strategy === 'BEAR_CALL_CREDIT' || proposal.strategy === 'BEAR_PUT_DEBIT';
+    const bias = getStrategyBias(proposal.strategy);
+    const isBullishStrategy = bias === 'BULLISH';
+    const isBearishStrategy = bias === 'BEARISH';
     
     if (isBullishStrategy) {
       const { validateGlobalBullRiskCap, validateBullTradeCounts } = await import('../core/risk');
@@ -516,14 +507,40 @@ export async function attemptEntryForLatestProposal(
       return { trade: null, reason: expiryCheck.reason || 'Expiry concentration cap exceeded' };
     }
     
+    // Correlation cluster cap (SPY/QQQ/mega-caps moving together count as one bet)
+    const { validateClusterConcentrationCap } = await import('../core/correlation');
+    const clusterCheck = await validateClusterConcentrationCap(env, proposal.symbol, proposal.strategy, estimatedMaxLossTotal, now);
+    if (!clusterCheck.valid) {
+      console.log('[entry][risk][rejected]', JSON.stringify({
+        proposal_id: proposal.id,
+        reason: clusterCheck.reason,
+        symbol: proposal.symbol,
+        strategy: proposal.strategy,
+        estimated_max_loss: estimatedMaxLossTotal,
+      }));
+      return { trade: null, reason: clusterCheck.reason || 'Cluster concentration cap exceeded' };
+    }
+
+    // Worst-case scenario loss cap (book repriced with the proposal over the stress grid)
+    const { validateScenarioLossCap } = await import('../core/scenarios');
+    const scenarioCheck = await validateScenarioLossCap(env, brokerForConfidence, proposal, quantity, now);
+    if (!scenarioCheck.valid) {
+      console.log('[entry][risk][rejected]', JSON.stringify({
+        proposal_id: proposal.id,
+        reason: scenarioCheck.reason,
+        symbol: proposal.symbol,
+        strategy: proposal.strategy,
+        quantity,
+      }));
+      return { trade: null, reason: scenarioCheck.reason || 'Worst-case scenario loss cap exceeded' };
+    }
+
     // 3.5. Check exposure caps (before auto mode check)
     const { getOpenTrades } = await import('../db/queries');
     const openTrades = await getOpenTrades(env);
     
     // Global max open spreads
-    const maxOpenSpreadsGlobal = parseInt(
-      (await getSetting(env, 'MAX_OPEN_SPREADS_GLOBAL')) || '10'
-    );
+    const maxOpenSpreadsGlobal = await getNumberSetting(env, 'MAX_OPEN_SPREADS_GLOBAL');
     if (openTrades.length >= maxOpenSpreadsGlobal) {
       console.log('[auto][skip]', JSON.stringify({
         reason: 'exposure limit hit',
@@ -536,9 +553,7 @@ export async function attemptEntryForLatestProposal(
     }
     
     // Per-symbol max open spreads
-    const maxOpenSpreadsPerSymbol = parseInt(
-      (await getSetting(env, 'MAX_OPEN_SPREADS_PER_SYMBOL')) || '5'
-    );
+    const maxOpenSpreadsPerSymbol = await getNumberSetting(env, 'MAX_OPEN_SPREADS_PER_SYMBOL');
     const openSpreadsForSymbol = openTrades.filter(t => t.symbol === proposal.symbol).length;
     if (openSpreadsForSymbol >= maxOpenSpreadsPerSymbol) {
       console.log('[auto][skip]', JSON.stringify({
@@ -553,9 +568,7 @@ export async function attemptEntryForLatestProposal(
     }
     
     // Max new trades per day
-    const maxNewTradesPerDay = parseInt(
-      (await getSetting(env, 'MAX_NEW_TRADES_PER_DAY')) || '5'
-    );
+    const maxNewTradesPerDay = await getNumberSetting(env, 'MAX_NEW_TRADES_PER_DAY');
     const { getTradesToday } = await import('../db/queries');
     const tradesToday = await getTradesToday(env, now);
     const openedToday = tradesToday.filter(t => 
@@ -615,7 +628,7 @@ export async function attemptEntryForLatestProposal(
     }
     
     // 5. Price drift check: re-fetch quotes, re-validate credit & delta
-    const broker = new TradierClient(env);
+    const broker = await createBroker(env);
     const thresholds = await getStrategyThresholds(env);
     const { minCreditFraction, minDelta, maxDelta } = thresholds;
     const minCredit = proposal.width * minCreditFraction;
@@ -657,23 +670,17 @@ export async function attemptEntryForLatestProposal(
       delta: priceDriftCheck.delta,
     }));
     
-    // Determine option type based on strategy
-    const optionType = (proposal.strategy === 'BEAR_CALL_CREDIT' || proposal.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
-    const shortOption = optionType === 'put' ? priceDriftCheck.shortPut : priceDriftCheck.shortCall;
-    const longOption = optionType === 'put' ? priceDriftCheck.longPut : priceDriftCheck.longCall;
+    // Fresh quotes per wing from the strategy plugin (IRON_CONDOR: put wing, then call wing)
+    // shortOption/longOption are the first wing
+    const optionType = getStrategyOptionType(proposal.strategy);
+    const entryWings = priceDriftCheck.wings ?? [];
     
-    if (!shortOption || !longOption) {
+    if (entryWings.length === 0) {
       console.log('[entry][option_legs_missing][rejected]', JSON.stringify({
         proposal_id: proposal.id,
         symbol: proposal.symbol,
         strategy: proposal.strategy,
         option_type: optionType,
-        short_option_found: !!shortOption,
-        long_option_found: !!longOption,
-        short_put: !!priceDriftCheck.shortPut,
-        long_put: !!priceDriftCheck.longPut,
-        short_call: !!priceDriftCheck.shortCall,
-        long_call: !!priceDriftCheck.longCall,
         reason: 'Cannot find option legs in chain after price drift check',
       }));
       await updateProposalStatus(env, proposal.id, 'INVALIDATED');
@@ -689,53 +696,39 @@ export async function attemptEntryForLatestProposal(
       }));
       return { trade: null, reason: 'Cannot find option legs in chain' };
     }
-    
-    // 6. Compute limit price
-    const isDebitSpreadForLimit = proposal.strategy === 'BULL_CALL_DEBIT' || proposal.strategy === 'BEAR_PUT_DEBIT';
-    const limitPrice = computeLimitPrice(shortOption.bid, longOption.ask, isDebitSpreadForLimit);
+    const { shortOption, longOption } = entryWings[0];
+    
+    // 6. Compute limit price: first limit-walk step, at mid (see limitWalk.ts)
+    // Mid/natural across every wing
+    const isDebitSpreadForLimit = isDebitStrategy(proposal.strategy);
+    const executionConfig = await getEntryExecutionConfig(env);
+    const firstStep = priceEntryStep(proposal.strategy, entryWings, 0, executionConfig.tick, minCredit);
+    const entryPrices = firstStep.prices;
+    let limitPrice = firstStep.limitPrice;
     console.log('[entry][limit_price]', JSON.stringify({
       proposal_id: proposal.id,
       symbol: proposal.symbol,
       strategy: proposal.strategy,
       is_debit_spread: isDebitSpreadForLimit,
-      short_bid: shortOption.bid,
-      long_ask: longOption.ask,
+      mid_price: entryPrices.mid,
+      natural_price: entryPrices.natural,
       limit_price: limitPrice,
+      walk_tick: executionConfig.tick,
+      walk_steps: executionConfig.stepWaitMs.length,
     }));
-    // Note: computeLimitPrice already clamps to [0.60, 3.00], so this check is redundant
-    // Keeping for defensive programming and explicit logging
-    if (limitPrice < 0.60 || limitPrice > 3.00) {
+    if (firstStep.reason) {
       console.log('[entry][limit_price][rejected]', JSON.stringify({
         proposal_id: proposal.id,
         limit_price: limitPrice,
-        reason: 'Limit price out of bounds [0.60, 3.00]',
+        reason: firstStep.reason,
       }));
-      return { trade: null, reason: `Limit price ${limitPrice} out of bounds` };
-    }
-    
-    // 8. Check trading mode (already fetched above)
-    if (tradingMode === 'DRY_RUN') {
-      // DRY_RUN mode - log but do not place order
-      console.log(`[DRY_RUN] Would place spread order:`, {
-        symbol: proposal.symbol,
-        expiration: proposal.expiration,
-        strategy: proposal.strategy,
-        short_strike: proposal.short_strike,
-        long_strike: proposal.long_strike,
-        limit_price: limitPrice,
-        short_option_symbol: shortOption.symbol,
-        long_option_symbol: longOption.symbol,
-      });
-      
-      // In DRY_RUN, we don't create a trade row - just log the proposal
-      await updateProposalStatus(env, proposal.id, 'CONSUMED');
-      return { trade: null, reason: 'DRY_RUN mode - order not placed' };
+      return { trade: null, reason: firstStep.reason };
     }
     
-    // 9. Place order (SANDBOX_PAPER or LIVE)
+    // 9. Place order (DRY_RUN orders go to the simulated broker, see broker/factory.ts)
     // CRITICAL: Validate strategy matches option type before placing order
-    const proposalIsCallStrategy = proposal.strategy === 'BEAR_CALL_CREDIT' || proposal.strategy === 'BULL_CALL_DEBIT';
-    const proposalIsPutStrategy = proposal.strategy === 'BULL_PUT_CREDIT' || proposal.strategy === 'BEAR_PUT_DEBIT';
+    const proposalIsCallStrategy = getStrategyOptionType(proposal.strategy) === 'call';
+    const proposalIsPutStrategy = !proposalIsCallStrategy;
     const actualOptionType = shortOption.type; // 'call' or 'put'
     
     if (proposalIsCallStrategy && actualOptionType !== 'call') {
@@ -785,43 +778,11 @@ export async function attemptEntryForLatestProposal(
     }
     
     // Determine if this is a debit spread
-    const isDebitSpread = proposal.strategy === 'BULL_CALL_DEBIT' || proposal.strategy === 'BEAR_PUT_DEBIT';
-    
-    // For credit spreads (BULL_PUT_CREDIT, BEAR_CALL_CREDIT):
-    //   Entry: sell_to_open short, buy_to_open long
-    // For debit spreads (BULL_CALL_DEBIT, BEAR_PUT_DEBIT):
-    //   Entry: buy_to_open long, sell_to_open short
-    // So for credit spreads: leg[0] = short (sell_to_open), leg[1] = long (buy_to_open)
-    // For debit spreads: leg[0] = long (buy_to_open), leg[1] = short (sell_to_open)
-    
-    let leg0: SpreadLeg;
-    let leg1: SpreadLeg;
-    
-    if (isDebitSpread) {
-      // Debit spread entry: buy_to_open long, sell_to_open short
-      leg0 = {
-        option_symbol: longOption.symbol,
-        side: 'buy_to_open' as const,
-        quantity: proposal.quantity ?? 1,
-      };
-      leg1 = {
-        option_symbol: shortOption.symbol,
-        side: 'sell_to_open' as const,
-        quantity: proposal.quantity ?? 1,
-      };
-    } else {
-      // Credit spread entry: sell_to_open short, buy_to_open long
-      leg0 = {
-        option_symbol: shortOption.symbol,
-        side: 'sell_to_open' as const,
-        quantity: proposal.quantity ?? 1,
-      };
-      leg1 = {
-        option_symbol: longOption.symbol,
-        side: 'buy_to_open' as const,
-        quantity: proposal.quantity ?? 1,
-      };
-    }
+    const isDebitSpread = isDebitStrategy(proposal.strategy);
+    
+    // Opening legs come from the strategy plugin, wing by wing:
+    // credit spreads sell the short first, debit spreads and time spreads buy the long first
+    const legs = getStrategyPlugin(proposal.strategy).buildOpeningLegs(entryWings, proposal.quantity ?? 1);
     
     // CRITICAL: Verify order construction matches strategy invariants
     // This ensures short_strike/long_strike are correctly mapped to legs
@@ -834,6 +795,9 @@ export async function attemptEntryForLatestProposal(
       width: proposal.width,
       quantity: proposal.quantity ?? 1,
       strategy: proposal.strategy,
+      call_short_strike: proposal.call_short_strike ?? null,
+      call_long_strike: proposal.call_long_strike ?? null,
+      long_expiration: proposal.long_expiration ?? null,
     };
     const invariantCheck = checkStrategyInvariants(tradeForValidation as TradeRow);
     if (!invariantCheck.ok) {
@@ -859,8 +823,9 @@ export async function attemptEntryForLatestProposal(
       limit_price: limitPrice,
       short_option_symbol: shortOption.symbol,
       long_option_symbol: longOption.symbol,
-      leg0: { option_symbol: leg0.option_symbol, side: leg0.side },
-      leg1: { option_symbol: leg1.option_symbol, side: leg1.side },
+      call_short_strike: proposal.call_short_strike ?? null,
+      call_long_strike: proposal.call_long_strike ?? null,
+      legs: legs.map(leg => ({ option_symbol: leg.option_symbol, side: leg.side })),
       invariant_check: 'PASSED', // Log that invariants were verified
     };
     console.log('[entry][strategy][order_build]', JSON.stringify(orderDetails));
@@ -868,18 +833,27 @@ export async function attemptEntryForLatestProposal(
     // Also save to system_logs for debug endpoint
     await insertSystemLog(env, 'entry', '[entry] placing order', JSON.stringify(orderDetails));
     
+    // Resolve exit rules before the order goes out; the trade keeps this snapshot
+    // so later exit profile edits don't change how it is managed
+    const exitProfile = await resolveExitProfile(env, proposal.strategy, proposal.symbol);
+    
     // Generate client_order_id for explicit linkage
     const { generateClientOrderId, createOrderRecord } = await import('./orderHelpers');
     const clientOrderId = generateClientOrderId(proposal.id, 'ENTRY');
     
     // Create order record BEFORE placing order (so we have it even if order fails)
-    const orderRecordId = await createOrderRecord(env, proposal, 'ENTRY', clientOrderId);
+    const orderRecordId = await createOrderRecord(env, proposal, 'ENTRY', clientOrderId, null, {
+      limit_price: limitPrice,
+      mid_price: entryPrices.mid,
+      natural_price: entryPrices.natural,
+      walk_step: 0,
+    });
     
     const order = await broker.placeSpreadOrder({
       symbol: proposal.symbol,
       side: 'ENTRY',
       limit_price: limitPrice,
-      legs: [leg0, leg1],
+      legs,
       tag: 'GEKKOWORKS-ENTRY',
       strategy: proposal.strategy,
       client_order_id: clientOrderId,
@@ -921,16 +895,10 @@ export async function attemptEntryForLatestProposal(
       t.status !== 'CLOSING_PENDING' // Exclude trades that are closing
     );
     
-    const maxSpreadsPerSymbolFinal = parseInt(
-      (await getSetting(env, 'MAX_SPREADS_PER_SYMBOL')) || '3',
-      10
-    ) || 3;
+    const maxSpreadsPerSymbolFinal = await getNumberSetting(env, 'MAX_SPREADS_PER_SYMBOL');
     
     // Also check total quantity per symbol (additional safeguard)
-    const maxTotalQtyPerSymbol = parseInt(
-      (await getSetting(env, 'MAX_TOTAL_QTY_PER_SYMBOL')) || '50',
-      10
-    ) || 50; // Default: 50 contracts total per symbol
+    const maxTotalQtyPerSymbol = await getNumberSetting(env, 'MAX_TOTAL_QTY_PER_SYMBOL'); // Default: 50 contracts total per symbol
     const totalQtyForSymbol = existingSpreadsForSymbolFinal.reduce((sum, t) => sum + (t.quantity || 1), 0);
     const totalQtyAfterNewTrade = totalQtyForSymbol + quantity;
     
@@ -1039,6 +1007,10 @@ export async function attemptEntryForLatestProposal(
       expiration: proposal.expiration,
       short_strike: proposal.short_strike,
       long_strike: proposal.long_strike,
+      call_short_strike: proposal.call_short_strike ?? null, // IRON_CONDOR call wing
+      call_long_strike: proposal.call_long_strike ?? null,
+      long_expiration: proposal.long_expiration ?? null, // Time spreads: back-month long leg
+      exit_profile: JSON.stringify(exitProfile), // Exit rules as resolved at entry
       width: proposal.width,
       quantity: proposal.quantity ?? 1, // Will be updated with filled quantity after fill
       entry_price: null, // Will be set by markTradeOpen after fill
@@ -1085,32 +1057,137 @@ export async function attemptEntryForLatestProposal(
       note: 'Order ID persisted immediately - will update to OPEN after fill confirmation',
     }));
     
-    // 9.5. Poll for fill with strict timeout (per Tradier-first spec)
-    // Poll every 2s, timeout after 30s, cancel on timeout
-    const pollResult = await pollOrderUntilFilled(
+    // 9.5. Walk the limit from mid toward natural until filled (see limitWalk.ts)
+    // Each step rests for its ENTRY_WALK_SCHEDULE_MS wait (polling every 2s). Between
+    // steps the chain is re-checked (checkPriceDrift) and the order is cancelled and
+    // replaced one tick closer to natural; each step gets its own orders row.
+    const { updateOrder } = await import('../db/queries_orders');
+    let activeOrderId = order.id;
+    let activeOrderRecordId = orderRecordId;
+    let activePrices: SpreadPrices = entryPrices;
+    let walkStep = 0;
+    let pollResult = await pollOrderUntilFilled(
       env,
       broker,
-      order.id,
-      MAX_FILL_WAIT_MS,
+      activeOrderId,
+      executionConfig.stepWaitMs[0],
       POLL_INTERVAL_MS
     );
     
+    while (!pollResult.filled && pollResult.timedOut && walkStep + 1 < executionConfig.stepWaitMs.length) {
+      const nextStep = walkStep + 1;
+      
+      // Re-check the chain before moving the limit; abort if credit/delta no longer qualify
+      const stepDriftCheck = await checkPriceDrift(broker, proposal, minCredit, minDelta, maxDelta);
+      const stepWings = stepDriftCheck.valid ? stepDriftCheck.wings : undefined;
+      if (!stepWings || stepWings.length === 0) {
+        pollResult = {
+          filled: false,
+          reason: `Limit walk aborted at step ${nextStep}: ${stepDriftCheck.reason || 'Cannot find option legs in chain'}`,
+        };
+        break;
+      }
+      const stepPrice = priceEntryStep(proposal.strategy, stepWings, nextStep, executionConfig.tick, minCredit);
+      const stepPrices = stepPrice.prices;
+      if (stepPrice.reason) {
+        pollResult = {
+          filled: false,
+          reason: `Limit walk aborted at step ${nextStep}: ${stepPrice.reason}`,
+        };
+        break;
+      }
+      walkStep = nextStep;
+      
+      if (stepPrice.limitPrice === limitPrice) {
+        // Already at natural (or a bound) - leave the working order resting
+        pollResult = await pollOrderUntilFilled(env, broker, activeOrderId, executionConfig.stepWaitMs[walkStep], POLL_INTERVAL_MS);
+        continue;
+      }
+      
+      // Cancel the working step; it may have filled while the cancel was in flight
+      const cancelledOrder = await cancelOrderAndConfirm(broker, activeOrderId, POLL_INTERVAL_MS);
+      if (cancelledOrder?.status === 'FILLED' && cancelledOrder.avg_fill_price) {
+        pollResult = { filled: true, reason: 'Order filled', fillPrice: cancelledOrder.avg_fill_price };
+        break;
+      }
+      if (!cancelledOrder || cancelledOrder.status === 'OPEN' || cancelledOrder.status === 'NEW' || cancelledOrder.status === 'PARTIALLY_FILLED') {
+        // Never replace an order that may still be working
+        pollResult = {
+          filled: false,
+          reason: `Limit walk aborted at step ${walkStep}: cancel of order ${activeOrderId} not confirmed`,
+        };
+        break;
+      }
+      if (cancelledOrder.filled_quantity > 0 && cancelledOrder.avg_fill_price) {
+        // Partially filled before the cancel - stop walking and keep the filled quantity as the trade
+        pollResult = { filled: true, reason: 'Order partially filled', fillPrice: cancelledOrder.avg_fill_price };
+        break;
+      }
+      await updateOrder(env, activeOrderRecordId, { status: 'CANCELLED' });
+      
+      const stepClientOrderId = generateClientOrderId(proposal.id, 'ENTRY');
+      activeOrderRecordId = await createOrderRecord(env, proposal, 'ENTRY', stepClientOrderId, null, {
+        limit_price: stepPrice.limitPrice,
+        mid_price: stepPrices.mid,
+        natural_price: stepPrices.natural,
+        walk_step: walkStep,
+      });
+      const stepOrder = await broker.placeSpreadOrder({
+        symbol: proposal.symbol,
+        side: 'ENTRY',
+        limit_price: stepPrice.limitPrice,
+        legs,
+        tag: 'GEKKOWORKS-ENTRY',
+        strategy: proposal.strategy,
+        client_order_id: stepClientOrderId,
+      });
+      await updateOrderWithTradierResponse(env, stepClientOrderId, stepOrder.id, 'PLACED');
+      await linkOrderToTrade(env, stepClientOrderId, persistedTrade.id);
+      
+      // Keep the trade pointing at the working order (checkPendingEntries / order sync use it)
+      const { updateTrade } = await import('../db/queries');
+      await updateTrade(env, persistedTrade.id, { broker_order_id_open: stepOrder.id });
+      
+      console.log('[entry][limit_walk][step]', JSON.stringify({
+        proposal_id: proposal.id,
+        trade_id: persistedTrade.id,
+        step: walkStep,
+        previous_limit: limitPrice,
+        limit_price: stepPrice.limitPrice,
+        mid_price: stepPrices.mid,
+        natural_price: stepPrices.natural,
+        order_id: stepOrder.id,
+      }));
+      
+      activeOrderId = stepOrder.id;
+      activePrices = stepPrices;
+      limitPrice = stepPrice.limitPrice;
+      pollResult = await pollOrderUntilFilled(env, broker, activeOrderId, executionConfig.stepWaitMs[walkStep], POLL_INTERVAL_MS);
+    }
+    
     if (!pollResult.filled) {
-      // Timeout or error - cancel order and update trade status
-      try {
-        await broker.cancelOrder(order.id);
+      // Walk exhausted, aborted or order rejected - cancel the working order
+      const finalCancel = await cancelOrderAndConfirm(broker, activeOrderId, POLL_INTERVAL_MS);
+      if (finalCancel && finalCancel.filled_quantity > 0 && finalCancel.avg_fill_price) {
+        // Filled (fully or partly) before the cancel landed - record what filled
+        pollResult = {
+          filled: true,
+          reason: finalCancel.status === 'FILLED' ? 'Order filled' : 'Order partially filled',
+          fillPrice: finalCancel.avg_fill_price,
+        };
+      } else {
         console.log('[entry] order cancelled due to timeout', JSON.stringify({
-          orderId: order.id,
+          orderId: activeOrderId,
           tradeId: persistedTrade.id,
+          walkStep,
+          status: finalCancel?.status ?? null,
           reason: pollResult.reason,
         }));
-      } catch (cancelError) {
-        console.error('[entry] failed to cancel order', JSON.stringify({
-          orderId: order.id,
-          tradeId: persistedTrade.id,
-          error: cancelError instanceof Error ? cancelError.message : String(cancelError),
-        }));
       }
+    }
+    
+    if (!pollResult.filled) {
+      await updateOrder(env, activeOrderRecordId, { status: 'CANCELLED' });
       
       // Update existing trade to CANCELLED status
       const { updateTrade } = await import('../db/queries');
@@ -1128,7 +1205,7 @@ export async function attemptEntryForLatestProposal(
     }
     
     // Order filled - get final order details and re-sync from Tradier
-    const finalOrder = await broker.getOrder(order.id);
+    const finalOrder = await broker.getOrder(activeOrderId);
     if (!finalOrder.avg_fill_price || finalOrder.avg_fill_price <= 0) {
       // Data error - update trade to CANCELLED
       const { updateTrade } = await import('../db/queries');
@@ -1145,6 +1222,23 @@ export async function attemptEntryForLatestProposal(
       };
     }
     
+    await updateOrder(env, activeOrderRecordId, {
+      status: finalOrder.status === 'FILLED' ? 'FILLED' : 'PARTIAL',
+      avg_fill_price: finalOrder.avg_fill_price,
+    });
+    console.log('[entry][limit_walk][filled]', JSON.stringify({
+      proposal_id: proposal.id,
+      trade_id: persistedTrade.id,
+      step: walkStep,
+      filled_quantity: finalOrder.filled_quantity,
+      partial: finalOrder.status !== 'FILLED',
+      limit_price: limitPrice,
+      fill_price: finalOrder.avg_fill_price,
+      mid_price: activePrices.mid,
+      natural_price: activePrices.natural,
+      improvement_vs_natural: computePriceImprovement(finalOrder.avg_fill_price, activePrices.natural, isDebitSpread),
+    }));
+    
     const filledQuantity =
       finalOrder.filled_quantity && finalOrder.filled_quantity > 0
         ? finalOrder.filled_quantity
@@ -1160,7 +1254,7 @@ export async function attemptEntryForLatestProposal(
     
     // Immediately re-sync from Tradier before marking trade OPEN (per spec)
     console.log('[entry] order filled, re-syncing from Tradier', JSON.stringify({
-      orderId: order.id,
+      orderId: activeOrderId,
       tradeId: persistedTrade.id,
       fillPrice: finalOrder.avg_fill_price,
     }));
@@ -1174,19 +1268,17 @@ export async function attemptEntryForLatestProposal(
     await syncBalancesFromTradier(env);
     console.log('[entry] marking trade as OPEN', JSON.stringify({
       tradeId: persistedTrade.id,
-      orderId: order.id,
+      orderId: activeOrderId,
       fillPrice: finalOrder.avg_fill_price,
     }));
     
     // Get IV at entry for IV crush exit logic
     let ivEntry: number | null = null;
     try {
-      const optionChain = await broker.getOptionChain(persistedTrade.symbol, persistedTrade.expiration);
+      const optionChain = await getTradeOptionChain(broker, persistedTrade);
       // Determine option type based on strategy
-      const optionType = (persistedTrade.strategy === 'BEAR_CALL_CREDIT' || persistedTrade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
-      const shortOption = optionChain.find(
-        opt => opt.strike === persistedTrade.short_strike && opt.type === optionType
-      );
+      const optionType = getStrategyOptionType(persistedTrade.strategy);
+      const { shortOption } = findSpreadLegs(optionChain, persistedTrade, optionType);
       if (shortOption && shortOption.implied_volatility) {
         ivEntry = shortOption.implied_volatility;
       }
@@ -1247,7 +1339,10 @@ export async function checkPendingEntries(
     return;
   }
   
-  const broker = new TradierClient(env);
+  const broker = await createBroker(env);
+  // Whole limit walk, plus one poll interval per step for re-checks and replacements
+  const { stepWaitMs } = await getEntryExecutionConfig(env);
+  const maxFillWaitMs = stepWaitMs.reduce((sum, ms) => sum + ms + POLL_INTERVAL_MS, 0);
   
   for (const trade of pendingTrades) {
     if (!trade.broker_order_id_open) {
@@ -1257,7 +1352,7 @@ export async function checkPendingEntries(
     
     // Check order age
     const tradeAge = now.getTime() - new Date(trade.created_at).getTime();
-    if (tradeAge > MAX_FILL_WAIT_MS) {
+    if (tradeAge > maxFillWaitMs) {
       // Timeout - cancel broker order first, then mark trade as cancelled
       try {
         await broker.cancelOrder(trade.broker_order_id_open);
@@ -1293,12 +1388,10 @@ export async function checkPendingEntries(
         // Note: broker already instantiated at function start, no need to recreate
         let ivEntry: number | null = null;
         try {
-          const optionChain = await broker.getOptionChain(trade.symbol, trade.expiration);
+          const optionChain = await getTradeOptionChain(broker, trade);
           // Determine option type based on strategy
-          const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
-          const shortOption = optionChain.find(
-            opt => opt.strike === trade.short_strike && opt.type === optionType
-          );
+          const optionType = getStrategyOptionType(trade.strategy);
+          const { shortOption } = findSpreadLegs(optionChain, trade, optionType);
           if (shortOption && shortOption.implied_volatility) {
             ivEntry = shortOption.implied_volatility;
           }
@@ -1324,6 +1417,15 @@ export async function checkPendingEntries(
   }
 }
 
+/**
+ * Option side(s) a strategy is exposed to, for per-side concentration limits (plugin.optionSides)
+ * 
+ * IRON_CONDOR counts against both short puts and short calls.
+ */
+function getOptionSides(strategy: string | undefined): string[] {
+  return findStrategyPlugin(strategy)?.optionSides ?? [];
+}
+
 /**
  * Validate proposal before entry
  */
@@ -1360,8 +1462,16 @@ async function validateProposal(
     return { valid: false, reason: `Invalid spread width: computed ${computedWidth}, expected ${proposal.width}` };
   }
   
-  if (proposal.width !== 5) {
-    return { valid: false, reason: 'Width must be 5' };
+  // Verticals and condors trade a fixed width; time spreads take config.width (0 for calendars)
+  const plugin = findStrategyPlugin(proposal.strategy);
+  if (plugin?.fixedWidth !== undefined && proposal.width !== plugin.fixedWidth) {
+    return { valid: false, reason: `Width must be ${plugin.fixedWidth}` };
+  }
+  
+  // Structure checks from the strategy plugin (condor call wing, time spread long_expiration, ...)
+  const violations = plugin?.checkInvariants(proposal) ?? [];
+  if (violations.length > 0) {
+    return { valid: false, reason: violations.join('; ') };
   }
   
   return { valid: true };
@@ -1371,129 +1481,96 @@ async function validateProposal(
  * Price drift check: re-fetch quotes, re-validate credit & delta
  * 
  * Before placing an order, we must:
- * 1. Re-fetch quotes for both legs
+ * 1. Re-fetch quotes for every leg
  * 2. Recompute credit
- * 3. Verify credit >= minCredit
+ * 3. Verify credit >= minCredit (debit spreads: debit within range)
  * 4. Verify delta still in target range
  * 
+ * The per-structure rules live in the strategy plugin (checkEntryQuotes).
  * If any check fails, reject the order.
  */
 async function checkPriceDrift(
-  broker: TradierClient,
+  broker: EngineBroker,
   proposal: any,
   minCredit: number,
   minDelta: number,
   maxDelta: number
-): Promise<{ 
-  valid: boolean; 
-  reason?: string; 
-  shortPut?: any; 
-  longPut?: any;
-  shortCall?: any;
-  longCall?: any;
-  credit?: number;
-  delta?: number;
-}> {
-  // Re-fetch option chain
-  const optionChain = await broker.getOptionChain(proposal.symbol, proposal.expiration);
+): Promise<EntryQuoteCheck> {
+  // Re-fetch option chain (time spreads: front and back expirations)
+  const optionChain = await getTradeOptionChain(broker, proposal);
   
-  // Determine option type based on strategy
-  const optionType = (proposal.strategy === 'BEAR_CALL_CREDIT' || proposal.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
-  
-  const shortOption = optionChain.find(
-    opt => opt.strike === proposal.short_strike && opt.type === optionType
-  );
-  const longOption = optionChain.find(
-    opt => opt.strike === proposal.long_strike && opt.type === optionType
-  );
-  
-  if (!shortOption || !longOption) {
-    return { valid: false, reason: 'Cannot find option legs in chain' };
-  }
-  
-  // Recompute credit/debit (same formula for both puts and calls: short bid - long ask)
-  // For credit spreads: positive value (credit received)
-  // For debit spreads: negative value (debit paid)
-  if (!shortOption.bid || !longOption.ask || shortOption.bid <= 0 || longOption.ask <= 0) {
-    return { valid: false, reason: 'Missing or invalid quotes' };
-  }
-  
-  const newCredit = shortOption.bid - longOption.ask;
-  const isDebitSpread = proposal.strategy === 'BULL_CALL_DEBIT' || proposal.strategy === 'BEAR_PUT_DEBIT';
-  
-  // Check credit/debit requirements based on spread type
-  if (isDebitSpread) {
-    // For debit spreads: check debit (absolute value) is within range (0.80 to 2.50)
-    const debit = Math.abs(newCredit);
-    const minDebit = 0.80;
-    const maxDebit = 2.50;
-    
-    if (debit < minDebit || debit > maxDebit) {
-      return { 
-        valid: false, 
-        reason: `Live debit ${debit.toFixed(2)} outside range [${minDebit}, ${maxDebit}]`,
-        credit: newCredit,
-      };
-    }
-  } else {
-    // For credit spreads: check credit meets minimum requirement
-    if (newCredit < minCredit) {
-      return { 
-        valid: false, 
-        reason: `Live credit ${newCredit.toFixed(2)} below minimum ${minCredit.toFixed(2)}`,
-        credit: newCredit,
-      };
-    }
+  // Credit/debit and delta rules per structure come from the strategy plugin
+  const plugin = findStrategyPlugin(proposal.strategy);
+  if (!plugin) {
+    return { valid: false, reason: `Unknown strategy: ${proposal.strategy}` };
   }
-  
-  // Check delta still in range
-  // For debit spreads: check LONG leg delta (0.40-0.55 absolute)
-  // For credit spreads: check SHORT leg delta (from config, typically -0.32 to -0.18 for puts)
-  if (isDebitSpread) {
-    // For debit spreads, check the long leg delta
-    if (!longOption.delta) {
-      return { valid: false, reason: 'Long leg delta missing for debit spread' };
-    }
-    const deltaLong = Math.abs(longOption.delta);
-    const minDebitDelta = 0.40;
-    const maxDebitDelta = 0.55;
-    if (deltaLong < minDebitDelta || deltaLong > maxDebitDelta) {
-      return { 
-        valid: false, 
-        reason: `Long leg delta ${deltaLong.toFixed(3)} outside range [${minDebitDelta}, ${maxDebitDelta}] for debit spread`,
-        delta: longOption.delta,
-      };
-    }
-  } else {
-    // For credit spreads, check the short leg delta
-    if (!shortOption.delta) {
-      return { valid: false, reason: 'Short leg delta missing' };
-    }
-    // For calls, delta is positive; for puts, delta is negative
-    // The minDelta/maxDelta from config are already set correctly for the strategy
-    if (shortOption.delta < minDelta || shortOption.delta > maxDelta) {
-      return { 
-        valid: false, 
-        reason: `Delta ${shortOption.delta.toFixed(3)} outside range [${minDelta}, ${maxDelta}]`,
-        delta: shortOption.delta,
-      };
-    }
-  }
-  
-  // Return the appropriate delta based on spread type
-  const delta = isDebitSpread ? (longOption.delta ?? undefined) : (shortOption.delta ?? undefined);
-  
-  return { 
-    valid: true, 
-    shortPut: optionType === 'put' ? shortOption : undefined,
-    longPut: optionType === 'put' ? longOption : undefined,
-    shortCall: optionType === 'call' ? shortOption : undefined,
-    longCall: optionType === 'call' ? longOption : undefined,
-    credit: newCredit,
-    delta: delta,
+  return plugin.checkEntryQuotes(optionChain, proposal, { minCredit, minDelta, maxDelta });
+}
+
+/**
+ * Entry leg quotes for the limit walk (short legs are sold, long legs bought)
+ */
+function getEntryLegQuotes(wings: WingOptions[]): OrderLegQuotes {
+  return {
+    sell: wings.map(w => w.shortOption),
+    buy: wings.map(w => w.longOption),
+  };
+}
+
+/**
+ * Price one entry limit-walk step from fresh wing quotes
+ * 
+ * Shared by attemptEntryForLatestProposal and the backtest runner: mid/natural across
+ * every wing, `step` ticks from mid toward natural, clamped to the strategy's limit
+ * bounds. Returns a reason when the step would ask for less than the credit floor.
+ */
+export function priceEntryStep(
+  strategy: string | undefined,
+  wings: WingOptions[],
+  step: number,
+  tick: number,
+  minCredit: number
+): { prices: SpreadPrices; limitPrice: number; reason?: string } {
+  const isDebitSpread = isDebitStrategy(strategy);
+  const prices = computeSpreadPrices(getEntryLegQuotes(wings), isDebitSpread);
+  return {
+    prices,
+    ...priceWalkStep(prices, step, tick, getLimitPriceBounds(strategy), isDebitSpread, minCredit),
   };
 }
 
+/**
+ * Limit price for a limit-walk step, clamped to the strategy's limit bounds
+ * 
+ * Returns a reason when the step would ask for less than the credit floor (minCredit).
+ */
+function priceWalkStep(
+  prices: SpreadPrices,
+  step: number,
+  tick: number,
+  bounds: { min: number; max: number },
+  isDebitSpread: boolean,
+  minCredit: number
+): { limitPrice: number; reason?: string } {
+  const walked = computeWalkLimitPrice(prices, step, tick);
+  const limitPrice = Math.max(bounds.min, Math.min(bounds.max, walked));
+  if (!isDebitSpread && limitPrice < minCredit) {
+    return {
+      limitPrice,
+      reason: `Limit credit ${limitPrice.toFixed(2)} below minimum ${minCredit.toFixed(2)}`,
+    };
+  }
+  return { limitPrice };
+}
+
+/**
+ * Limit price band for a strategy: plugin debitRange for time spreads, LIMIT_PRICE_BOUNDS otherwise
+ */
+function getLimitPriceBounds(strategy: string | undefined): { min: number; max: number } {
+  const plugin = findStrategyPlugin(strategy);
+  return plugin?.timeSpread && plugin.debitRange ? plugin.debitRange : LIMIT_PRICE_BOUNDS;
+}
+
 /**
  * Compute entry limit price
  * 
@@ -1506,7 +1583,12 @@ async function checkPriceDrift(
  *   limit_price = mid_price + entry_slippage
  *   mid_price ≈ (ask_long - bid_short)
  */
-function computeLimitPrice(bidShort: number, askLong: number, isDebitSpread: boolean = false): number {
+export function computeLimitPrice(
+  bidShort: number,
+  askLong: number,
+  isDebitSpread: boolean = false,
+  bounds: { min: number; max: number } = LIMIT_PRICE_BOUNDS
+): number {
   let midPrice: number;
   let limitPrice: number;
   
@@ -1523,6 +1605,6 @@ function computeLimitPrice(bidShort: number, askLong: number, isDebitSpread: boo
     limitPrice = midPrice - ENTRY_SLIPPAGE;
   }
   
-  return Math.max(0.60, Math.min(3.00, limitPrice));
+  return Math.max(bounds.min, Math.min(bounds.max, limitPrice));
 }
 
@@ -0,0 +1,443 @@
+/**
+ * Exit Ladder
+ *
+ * How a close is worked depends on why it was triggered (ExitTriggerType):
+ * - PATIENT (PROFIT_TARGET, TIME_EXIT, TRAIL_PROFIT, IV_CRUSH_EXIT, LOW_VALUE_CLOSE):
+ *   start at mid, walk toward natural in small ticks with long waits
+ * - FAST (STOP_LOSS, ASSIGNMENT_RISK, FRONT_EXPIRY): start at mid, bigger ticks, short waits
+ * - MARKET (EMERGENCY, STRUCTURAL_BREAK, WING_DEFENSE): market / width-priced orders
+ *   via placeMarketExitOrder
+ *
+ * A ladder is one multileg closing order, cancelled and replaced one tick closer to
+ * natural per step (see limitWalk.ts, getExitLadderConfig). It never prices past
+ * natural; if the last step doesn't fill, the order is cancelled and the caller puts
+ * the trade back to OPEN for the next monitor cycle (if the cancel can't be confirmed
+ * the trade stays CLOSING_PENDING for checkPendingExits).
+ *
+ * The monitor cycle caps its total ladder time (EXIT_LADDER_CYCLE_BUDGET_MS) with a
+ * deadline. A ladder cut short by it is pulled the same way and records resume_step,
+ * so the next cycle's ladder for that trade continues from where this one stopped.
+ *
+ * Each step is an orders row; the trade keeps an ExitExecutionRecord (exit_execution)
+ * and exit_slippage: fill versus current_mark when the exit triggered. A step cancelled
+ * after a partial fill is replaced for the remaining quantity only; the fill price is
+ * the quantity-weighted average over the steps.
+ */
+
+import type { Env } from '../env';
+import type {
+  BrokerOrder,
+  BrokerOrderStatus,
+  EngineBroker,
+  ExitReason,
+  ExitTriggerType,
+  OptionQuote,
+  ProposalRow,
+  SpreadLeg,
+  TradeRow,
+} from '../types';
+import { getExitLadderConfig, type ExitLadderStyle } from '../core/config';
+import { getTradeOptionChain } from '../core/timeSpread';
+import { isDebitStrategy } from '../strategy/registry';
+import { updateTrade } from '../db/queries';
+import { updateOrder } from '../db/queries_orders';
+import { markTradeClosingPending } from './lifecycle';
+import { computeSpreadPrices, computeWalkLimitPrice, type OrderLegQuotes, type SpreadPrices } from './limitWalk';
+import {
+  generateClientOrderId,
+  createOrderRecord,
+  updateOrderWithTradierResponse,
+  linkOrderToTrade,
+  cancelOrderAndConfirm,
+} from './orderHelpers';
+
+const POLL_INTERVAL_MS = 2 * 1000;
+
+export type ExitExecutionStyle = ExitLadderStyle | 'MARKET';
+
+const EXIT_EXECUTION_STYLES: Record<ExitTriggerType, ExitExecutionStyle> = {
+  NONE: 'MARKET',
+  PROFIT_TARGET: 'PATIENT',
+  TIME_EXIT: 'PATIENT',
+  TRAIL_PROFIT: 'PATIENT',
+  IV_CRUSH_EXIT: 'PATIENT',
+  LOW_VALUE_CLOSE: 'PATIENT',
+  STOP_LOSS: 'FAST',
+  ASSIGNMENT_RISK: 'FAST',
+  FRONT_EXPIRY: 'FAST',
+  EMERGENCY: 'MARKET',
+  STRUCTURAL_BREAK: 'MARKET',
+  WING_DEFENSE: 'MARKET',
+};
+
+export function getExitExecutionStyle(trigger: ExitTriggerType): ExitExecutionStyle {
+  return EXIT_EXECUTION_STYLES[trigger] ?? 'MARKET';
+}
+
+export interface ExitLadderStep {
+  step: number;
+  order_id: string;
+  limit_price: number;
+  mid_price: number;
+  natural_price: number;
+  placed_at: string;
+  ended_at: string | null;
+  rested_ms: number;              // time the order rested before fill/cancel
+  quantity: number;               // spreads this step's order was for
+  filled_quantity: number;
+  status: BrokerOrderStatus;
+}
+
+export interface ExitExecutionRecord {
+  trigger: ExitTriggerType;
+  style: ExitExecutionStyle;
+  current_mark: number;           // mark when the exit triggered
+  steps: ExitLadderStep[];        // empty for MARKET exits
+  fill_price: number | null;
+  slippage: number | null;        // fill vs current_mark (positive = worse than mark)
+  started_at: string;
+  completed_at: string | null;
+  reason?: string;                // why an unfilled ladder stopped
+  resume_step?: number;           // step the next ladder starts at (stopped by the cycle budget)
+  closed_quantity?: number;       // spreads closed by partial fills when the ladder did not finish
+}
+
+/**
+ * Slippage of an exit fill versus the mark (positive = worse than mark)
+ *
+ * Credit strategies close with a debit (paying more is worse); debit strategies
+ * close for a credit (receiving less is worse).
+ */
+export function computeExitSlippage(
+  fillPrice: number,
+  currentMark: number,
+  strategy: string | null | undefined
+): number {
+  const slippage = isDebitStrategy(strategy) ? currentMark - fillPrice : fillPrice - currentMark;
+  return Math.round(slippage * 100) / 100;
+}
+
+/**
+ * Quotes for a closing order's legs, split into legs sold and bought (null if any is missing)
+ */
+function getClosingLegQuotes(chain: OptionQuote[], legs: SpreadLeg[]): OrderLegQuotes | null {
+  const quotes: OrderLegQuotes = { sell: [], buy: [] };
+  for (const leg of legs) {
+    const quote = chain.find(opt => opt.symbol === leg.option_symbol);
+    if (!quote || !(quote.bid >= 0) || !(quote.ask > 0)) {
+      return null;
+    }
+    (leg.side.startsWith('sell') ? quotes.sell : quotes.buy).push(quote);
+  }
+  return quotes;
+}
+
+/**
+ * Limit price for one ladder step from the closing legs' quotes in `chain`
+ *
+ * Shared by runExitLadder and the backtest runner: `step` ticks from mid toward
+ * natural, never below 0.01. Null if any leg is missing a quote.
+ */
+export function priceExitLadderStep(
+  chain: OptionQuote[],
+  legs: SpreadLeg[],
+  strategy: string | null | undefined,
+  step: number,
+  tick: number
+): { prices: SpreadPrices; limitPrice: number } | null {
+  const legQuotes = getClosingLegQuotes(chain, legs);
+  if (!legQuotes) {
+    return null;
+  }
+  // Credit strategies close with a debit order, debit strategies for a credit
+  const prices = computeSpreadPrices(legQuotes, !isDebitStrategy(strategy));
+  return { prices, limitPrice: Math.max(0.01, computeWalkLimitPrice(prices, step, tick)) };
+}
+
+/**
+ * Poll a ladder step until it fills, leaves the book, or its wait is over
+ */
+async function pollLadderStep(
+  broker: EngineBroker,
+  orderId: string,
+  waitMs: number
+): Promise<{ status: BrokerOrderStatus; fillPrice?: number; order?: BrokerOrder }> {
+  const deadline = Date.now() + waitMs;
+  let status: BrokerOrderStatus = 'OPEN';
+  while (Date.now() < deadline) {
+    try {
+      const order = await broker.getOrder(orderId);
+      status = order.status;
+      if (order.status === 'FILLED' && order.avg_fill_price !== null) {
+        return { status, fillPrice: order.avg_fill_price, order };
+      }
+      if (order.status === 'CANCELLED' || order.status === 'REJECTED' || order.status === 'EXPIRED') {
+        return { status, order };
+      }
+    } catch (error) {
+      console.warn('[exit][ladder][poll_error]', JSON.stringify({
+        order_id: orderId,
+        error: error instanceof Error ? error.message : String(error),
+      }));
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+  return { status };
+}
+
+/**
+ * Work a multileg closing order up the ladder for `style`
+ *
+ * The first step uses the exit proposal's existing order record; later steps get
+ * their own. The trade is marked CLOSING_PENDING on the first placement and its
+ * broker_order_id_close follows the working order. Throws only if the first order
+ * could not be placed (callers handle benign market-closed rejections).
+ *
+ * startStep resumes a ladder a previous cycle cut short; deadline (epoch ms) shortens
+ * the step waits so the ladder stops by then, recording resume_step.
+ */
+export async function runExitLadder(params: {
+  env: Env;
+  broker: EngineBroker;
+  trade: TradeRow;
+  trigger: ExitTriggerType;
+  style: ExitLadderStyle;
+  legs: SpreadLeg[];
+  currentMark: number;
+  exitReason: ExitReason;
+  exitProposal: ProposalRow;
+  clientOrderId: string;
+  orderRecordId: string;
+  now: Date;
+  startStep?: number;
+  deadline?: number;
+}): Promise<{
+  filled: boolean;
+  working?: boolean;
+  fillPrice?: number;
+  orderId?: string;
+  closedQuantity?: number;
+  closedValue?: number;
+  record: ExitExecutionRecord;
+}> {
+  const { env, broker, trade, style, legs, now } = params;
+  const config = await getExitLadderConfig(env, style);
+
+  const record: ExitExecutionRecord = {
+    trigger: params.trigger,
+    style,
+    current_mark: params.currentMark,
+    steps: [],
+    fill_price: null,
+    slippage: null,
+    started_at: now.toISOString(),
+    completed_at: null,
+  };
+
+  let activeOrderId: string | null = null;
+  let activeRecordId = params.orderRecordId;
+  let activeStep: ExitLadderStep | null = null;
+  let limitPrice: number | null = null;
+  // Spreads closed by partially filled steps, and the sum of their fill prices x quantity
+  const totalQuantity = legs[0]?.quantity ?? trade.quantity ?? 1;
+  let closedQuantity = 0;
+  let closedValue = 0;
+
+  const endStep = (status: BrokerOrderStatus) => {
+    if (activeStep) {
+      activeStep.status = status;
+      activeStep.ended_at = new Date().toISOString();
+      activeStep.rested_ms = Date.now() - new Date(activeStep.placed_at).getTime();
+    }
+  };
+  const addPartialFill = (order: BrokerOrder) => {
+    if (order.filled_quantity > 0 && order.avg_fill_price !== null) {
+      closedQuantity += order.filled_quantity;
+      closedValue += order.filled_quantity * order.avg_fill_price;
+      if (activeStep) {
+        activeStep.filled_quantity = order.filled_quantity;
+      }
+    }
+  };
+  // fillPrice null: partial fills already closed the whole quantity
+  const filled = (fillPrice: number | null) => {
+    const stepQuantity = totalQuantity - closedQuantity;
+    if (fillPrice !== null) {
+      if (activeStep) {
+        activeStep.filled_quantity = stepQuantity;
+      }
+      endStep('FILLED');
+    }
+    const averagePrice = closedQuantity > 0
+      ? Math.round(((closedValue + (fillPrice ?? 0) * stepQuantity) / totalQuantity) * 100) / 100
+      : fillPrice ?? 0;
+    record.fill_price = averagePrice;
+    record.slippage = computeExitSlippage(averagePrice, params.currentMark, trade.strategy);
+    record.completed_at = new Date().toISOString();
+    return { filled: true, fillPrice: averagePrice, orderId: activeOrderId ?? undefined, record };
+  };
+  const notFilled = (working: boolean) => {
+    if (closedQuantity > 0) {
+      record.closed_quantity = closedQuantity;
+    }
+    if (!working) {
+      record.completed_at = new Date().toISOString();
+    }
+    return {
+      filled: false,
+      working,
+      orderId: working ? activeOrderId ?? undefined : undefined,
+      closedQuantity: closedQuantity > 0 ? closedQuantity : undefined,
+      closedValue: closedQuantity > 0 ? closedValue : undefined,
+      record,
+    };
+  };
+
+  const startStep = Math.max(0, Math.min(params.startStep ?? 0, config.stepWaitMs.length - 1));
+  for (let step = startStep; step < config.stepWaitMs.length; step++) {
+    try {
+      const chain = await getTradeOptionChain(broker, trade);
+      const stepPrice = priceExitLadderStep(chain, legs, trade.strategy, step, config.tick);
+      if (!stepPrice) {
+        record.reason = `Cannot price closing legs at step ${step}`;
+        break;
+      }
+      const { prices, limitPrice: stepLimit } = stepPrice;
+
+      if (activeOrderId === null || stepLimit !== limitPrice) {
+        if (activeOrderId !== null) {
+          // Replace: the working step may have filled while the cancel was in flight
+          const cancelled = await cancelOrderAndConfirm(broker, activeOrderId, POLL_INTERVAL_MS);
+          if (cancelled?.status === 'FILLED' && cancelled.avg_fill_price !== null) {
+            return filled(cancelled.avg_fill_price);
+          }
+          if (!cancelled || cancelled.status === 'OPEN' || cancelled.status === 'NEW' || cancelled.status === 'PARTIALLY_FILLED') {
+            record.reason = `Cancel of order ${activeOrderId} not confirmed at step ${step}`;
+            break;
+          }
+          addPartialFill(cancelled);
+          endStep(cancelled.status);
+          await updateOrder(env, activeRecordId, { status: cancelled.filled_quantity > 0 ? 'PARTIAL' : 'CANCELLED' });
+          if (closedQuantity >= totalQuantity) {
+            return filled(null);
+          }
+        }
+
+        const pricing = {
+          limit_price: stepLimit,
+          mid_price: prices.mid,
+          natural_price: prices.natural,
+          walk_step: step,
+        };
+        let clientOrderId = params.clientOrderId;
+        if (activeOrderId === null) {
+          await updateOrder(env, activeRecordId, pricing);
+        } else {
+          clientOrderId = generateClientOrderId(params.exitProposal.id, 'EXIT');
+          activeRecordId = await createOrderRecord(env, params.exitProposal, 'EXIT', clientOrderId, null, pricing);
+        }
+
+        // Replacements only close what earlier steps left open
+        const stepQuantity = totalQuantity - closedQuantity;
+        const order = await broker.placeSpreadOrder({
+          symbol: trade.symbol,
+          side: 'EXIT',
+          legs: closedQuantity > 0 ? legs.map(leg => ({ ...leg, quantity: stepQuantity })) : legs,
+          tag: 'GEKKOWORKS-EXIT-LADDER',
+          strategy: trade.strategy,
+          limit_price: stepLimit,
+          client_order_id: clientOrderId,
+        });
+        await updateOrderWithTradierResponse(env, clientOrderId, order.id, 'PLACED');
+        await linkOrderToTrade(env, clientOrderId, trade.id);
+
+        if (activeOrderId === null) {
+          await markTradeClosingPending(env, trade.id, params.exitReason, now, order.id);
+        } else {
+          await updateTrade(env, trade.id, { broker_order_id_close: order.id });
+        }
+
+        activeOrderId = order.id;
+        limitPrice = stepLimit;
+        activeStep = {
+          step,
+          order_id: order.id,
+          limit_price: stepLimit,
+          mid_price: prices.mid,
+          natural_price: prices.natural,
+          placed_at: new Date().toISOString(),
+          ended_at: null,
+          rested_ms: 0,
+          quantity: stepQuantity,
+          filled_quantity: 0,
+          status: 'OPEN',
+        };
+        record.steps.push(activeStep);
+
+        console.log('[exit][ladder][step]', JSON.stringify({
+          trade_id: trade.id,
+          trigger: params.trigger,
+          style,
+          step,
+          limit_price: stepLimit,
+          mid_price: prices.mid,
+          natural_price: prices.natural,
+          current_mark: params.currentMark,
+          quantity: stepQuantity,
+          order_id: order.id,
+        }));
+      }
+
+      // Same limit as the working order (already at natural): leave it resting
+      const remainingMs = params.deadline !== undefined ? params.deadline - Date.now() : Infinity;
+      const poll = await pollLadderStep(broker, activeOrderId, Math.max(0, Math.min(config.stepWaitMs[step], remainingMs)));
+      if (poll.status === 'FILLED' && poll.fillPrice !== undefined) {
+        return filled(poll.fillPrice);
+      }
+      if (poll.status === 'CANCELLED' || poll.status === 'REJECTED' || poll.status === 'EXPIRED') {
+        const partial = !!poll.order && poll.order.filled_quantity > 0;
+        if (poll.order) {
+          addPartialFill(poll.order);
+        }
+        endStep(poll.status);
+        await updateOrder(env, activeRecordId, { status: partial ? 'PARTIAL' : poll.status === 'REJECTED' ? 'REJECTED' : 'CANCELLED' });
+        activeOrderId = null;
+        record.reason = `Order ${poll.status.toLowerCase()} at step ${step}`;
+        break;
+      }
+      if (remainingMs < config.stepWaitMs[step]) {
+        // Cycle budget used up: pull the order below, the next cycle picks up at the next step
+        record.reason = `Cycle ladder budget used up at step ${step}`;
+        record.resume_step = Math.min(step + 1, config.stepWaitMs.length - 1);
+        break;
+      }
+    } catch (error) {
+      if (activeOrderId === null && record.steps.length === 0) {
+        throw error; // Nothing placed yet - let the caller handle it like any order error
+      }
+      record.reason = `Ladder error at step ${step}: ${error instanceof Error ? error.message : String(error)}`;
+      break;
+    }
+  }
+
+  // Ladder exhausted or aborted: pull the working order
+  record.reason = record.reason ?? `Not filled after ${record.steps.length} ladder steps`;
+  if (activeOrderId !== null) {
+    const cancelled = await cancelOrderAndConfirm(broker, activeOrderId, POLL_INTERVAL_MS);
+    if (cancelled?.status === 'FILLED' && cancelled.avg_fill_price !== null) {
+      return filled(cancelled.avg_fill_price);
+    }
+    if (!cancelled || cancelled.status === 'OPEN' || cancelled.status === 'NEW' || cancelled.status === 'PARTIALLY_FILLED') {
+      // Still working: the trade must stay CLOSING_PENDING (checkPendingExits takes over)
+      record.reason = `${record.reason}; cancel of order ${activeOrderId} not confirmed`;
+      return notFilled(true);
+    }
+    addPartialFill(cancelled);
+    endStep(cancelled.status);
+    await updateOrder(env, activeRecordId, { status: cancelled.filled_quantity > 0 ? 'PARTIAL' : 'CANCELLED' });
+    if (closedQuantity >= totalQuantity) {
+      return filled(null);
+    }
+  }
+  return notFilled(false);
+}
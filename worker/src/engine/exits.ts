@@ -5,7 +5,7 @@
  * 
  * Responsibilities:
  * - Execute exits based on monitoring decisions
- * - Compute closing limit prices
+ * - Compute closing limit prices (laddered per trigger, see exitLadder.ts)
  * - Place closing orders
  * - Poll for fills
  * - Update trade state
@@ -20,8 +20,13 @@ import type {
   MonitoringDecision,
   BrokerOrder,
   SpreadLeg,
+  EngineBroker,
+  OptionQuote,
+  CondorWing,
+  ProposalRow,
 } from '../types';
-import { TradierClient } from '../broker/tradierClient';
+import type { PositionLeg, WingOptions } from '../strategy/types';
+import { createBroker } from '../broker/factory';
 import { markTradeClosingPending, markTradeClosed, markTradeClosedWithReason, markTradeCancelled } from './lifecycle';
 import { recordTradeClosed, incrementEmergencyExitCount } from '../core/risk';
 import { getTradingMode, getDefaultTradeQuantity } from '../core/config';
@@ -31,6 +36,11 @@ import { computeSpreadPositionSnapshot } from '../core/positions';
 import { getOpenPositionsForTrade } from '../portfolio/getOpenPositionsForTrade';
 import { buildExitOrderPayload, type ExitOrderPayload } from '../tradier/buildExitOrderPayload';
 import { placeMarketExitOrder } from './placeMarketExitOrder';
+import { getTradeOptionChain, findSpreadLegs, getLongLegExpiration } from '../core/timeSpread';
+import { findStrategyPlugin, getStrategyOptionType, isDebitStrategy, getOpenTradeWings } from '../strategy/registry';
+import { CREDIT_VERTICAL_RULES } from '../strategy/vertical';
+import { getExitExecutionStyle, runExitLadder, computeExitSlippage, type ExitExecutionRecord } from './exitLadder';
+import type { ExitLadderStyle, TradingMode } from '../core/config';
 
 // WIDENED SLIPPAGE: More aggressive limits to ensure quick fills
 // Initial exit: 0.10 (was 0.02) - more aggressive to get fills quickly
@@ -69,7 +79,7 @@ function isQuantityMismatchRejection(order: any): boolean {
  */
 async function computeAvailableQuantities(
   env: Env,
-  broker: TradierClient,
+  broker: EngineBroker,
   trade: TradeRow,
   shortOptionSymbol: string,
   longOptionSymbol: string,
@@ -86,7 +96,7 @@ async function computeAvailableQuantities(
   if (!trade.strategy) {
     throw new Error(`Trade ${trade.id} missing strategy - cannot determine option type`);
   }
-  const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
+  const optionType = getStrategyOptionType(trade.strategy);
   
   // Get positions from portfolio_positions (primary source)
   const { shortLeg, longLeg } = await getSpreadLegPositions(
@@ -95,7 +105,8 @@ async function computeAvailableQuantities(
     trade.expiration,
     optionType,
     trade.short_strike,
-    trade.long_strike
+    trade.long_strike,
+    trade.long_expiration
   );
   
   // Compute snapshot
@@ -180,7 +191,7 @@ async function computeAvailableQuantities(
  * Cancel any open close orders for the given option symbols
  */
 async function cancelOpenCloseOrders(
-  broker: TradierClient,
+  broker: EngineBroker,
   shortOptionSymbol: string,
   longOptionSymbol: string
 ): Promise<number> {
@@ -244,6 +255,40 @@ async function cancelOpenCloseOrders(
   return cancelledCount;
 }
 
+/**
+ * Short/long option quotes for each open spread of a trade
+ * 
+ * One pair per open wing of the strategy (or only `wing` for IRON_CONDOR).
+ * Time spreads need a chain from getTradeOptionChain (front and back expirations).
+ */
+function findOpenSpreadOptions(
+  trade: TradeRow,
+  optionChain: OptionQuote[],
+  wing?: CondorWing
+): WingOptions[] {
+  return getOpenTradeWings(trade)
+    .filter(w => !wing || w.wing === wing)
+    .map(w => {
+      const { shortOption, longOption } = findSpreadLegs(optionChain, w, w.optionType);
+      if (!shortOption || !longOption) {
+        throw new Error(`Cannot find ${w.optionType} option legs for exit`);
+      }
+      return { shortOption, longOption };
+    });
+}
+
+/**
+ * Closing legs for one wing in the order its strategy plugin submits them
+ * (unknown strategies close as credit spreads: short leg first)
+ */
+function buildClosingLegs(
+  strategy: string | null | undefined,
+  short: PositionLeg,
+  long: PositionLeg
+): SpreadLeg[] {
+  return (findStrategyPlugin(strategy) ?? CREDIT_VERTICAL_RULES).buildClosingLegs([{ short, long }]);
+}
+
 /**
  * Calculate market-like limit price for exit orders
  * This is used when an order has been open too long and needs to be filled immediately
@@ -281,12 +326,16 @@ function calculateMarketLikeLimitPrice(
  *   decision: MonitoringDecision,
  *   now: Date
  * ): Promise<ExitExecutionResult>;
+ *
+ * options.ladderDeadline (epoch ms) bounds an exit ladder; the monitor cycle uses it
+ * to cap total ladder time per cycle (see runExitLadder).
  */
 export async function executeExitForTrade(
   env: Env,
   trade: TradeRow,
   decision: MonitoringDecision,
-  now: Date
+  now: Date,
+  options: { ladderDeadline?: number } = {}
 ): Promise<ExitExecutionResult> {
   // PORTFOLIO-FIRST EXIT EXECUTION:
   // - Quantities: From portfolio_positions (via computeAvailableQuantities)
@@ -323,6 +372,11 @@ export async function executeExitForTrade(
     };
   }
   
+  // WING_DEFENSE closes one iron condor wing and leaves the trade OPEN
+  if (decision.trigger === 'WING_DEFENSE') {
+    return executeWingExitForTrade(env, trade, decision, now);
+  }
+  
   try {
     console.log('[exit][signal]', JSON.stringify({
       trade_id: trade.id,
@@ -335,7 +389,7 @@ export async function executeExitForTrade(
       timestamp: now.toISOString(),
     }));
     
-    const broker = new TradierClient(env);
+    const broker = await createBroker(env);
     
     // Track exit attempts (simple approach: store in a JSON field or count)
     // For now, we'll check if broker_order_id_close exists to infer attempts
@@ -361,26 +415,9 @@ export async function executeExitForTrade(
     // Map exit trigger to exit reason
     const exitReason = mapTriggerToExitReason(decision.trigger);
     
-    // Check trading mode
+    // DRY_RUN exits go to the simulated broker (see broker/factory.ts)
     const tradingMode = await getTradingMode(env);
     
-    if (tradingMode === 'DRY_RUN') {
-      // DRY_RUN mode - log but do not place order
-      console.log(`[DRY_RUN] Would place market exit order:`, {
-        trade_id: trade.id,
-        trigger: decision.trigger,
-        exit_reason: exitReason,
-      });
-      
-      // In DRY_RUN, we don't actually close - just log
-      return {
-        trade,
-        trigger: decision.trigger,
-        success: false,
-        reason: 'DRY_RUN mode - exit order not placed',
-      };
-    }
-    
     // Get positions from portfolio_positions (source of truth)
     const positions = await getOpenPositionsForTrade(env, trade);
     
@@ -407,25 +444,18 @@ export async function executeExitForTrade(
     if (!trade.strategy) {
       throw new Error(`Trade ${trade.id} missing strategy field - cannot determine option type for exit`);
     }
-    const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
-    const optionChain = await broker.getOptionChain(trade.symbol, trade.expiration);
-    const shortOption = optionChain.find(
-      opt => opt.strike === trade.short_strike && opt.type === optionType
-    );
-    const longOption = optionChain.find(
-      opt => opt.strike === trade.long_strike && opt.type === optionType
-    );
-    
-    if (!shortOption || !longOption) {
-      throw new Error(`Cannot find ${optionType} option legs for exit`);
-    }
+    const optionChain = await getTradeOptionChain(broker, trade);
+    const openSpreads = findOpenSpreadOptions(trade, optionChain);
     
     // STEP 1: Cancel any existing open close orders for these positions
-    const cancelledCount = await cancelOpenCloseOrders(
-      broker,
-      shortOption.symbol,
-      longOption.symbol
-    );
+    let cancelledCount = 0;
+    for (const { shortOption, longOption } of openSpreads) {
+      cancelledCount += await cancelOpenCloseOrders(
+        broker,
+        shortOption.symbol,
+        longOption.symbol
+      );
+    }
     
     if (cancelledCount > 0) {
       // Wait a moment for cancellations to process
@@ -442,6 +472,9 @@ export async function executeExitForTrade(
       expiration: trade.expiration,
       short_strike: trade.short_strike,
       long_strike: trade.long_strike,
+      call_short_strike: trade.call_short_strike ?? null,
+      call_long_strike: trade.call_long_strike ?? null,
+      long_expiration: trade.long_expiration ?? null,
       width: trade.width,
       quantity: trade.quantity,
       strategy: trade.strategy || 'BULL_PUT_CREDIT',
@@ -459,7 +492,32 @@ export async function executeExitForTrade(
     
     // Generate client_order_id and create order record
     const clientOrderId = generateClientOrderId(exitProposal.id, 'EXIT');
-    await createOrderRecord(env, exitProposal, 'EXIT', clientOrderId);
+    const orderRecordId = await createOrderRecord(env, exitProposal, 'EXIT', clientOrderId);
+    
+    // STEP 3: Non-emergency exits are laddered from mid toward natural (see exitLadder.ts).
+    // EMERGENCY / STRUCTURAL_BREAK, and positions that can't close as one multileg
+    // order, use the market exit below.
+    const executionStyle = getExitExecutionStyle(decision.trigger);
+    if (executionStyle !== 'MARKET') {
+      const payload = await buildExitOrderPayload(trade, positions);
+      if (payload.kind === 'multileg') {
+        return await executeLadderedExit(env, broker, trade, decision, executionStyle, payload.request.legs, {
+          exitReason,
+          exitProposal,
+          clientOrderId,
+          orderRecordId,
+          tradingMode,
+          now,
+          deadline: options.ladderDeadline,
+        });
+      }
+      console.log('[exit][ladder][skipped]', JSON.stringify({
+        trade_id: trade.id,
+        trigger: decision.trigger,
+        payload_kind: payload.kind,
+        note: 'Positions cannot close as one multileg order - using market exit',
+      }));
+    }
     
     // Place closing order (SANDBOX_PAPER or LIVE)
     let order: BrokerOrder;
@@ -647,6 +705,23 @@ export async function executeExitForTrade(
     const fillResult = await pollForExitFill(broker, updatedTrade, primaryOrderId, now);
     
     if (fillResult.filled && fillResult.fillPrice !== undefined) {
+      // Record the market exit's slippage versus the mark that triggered it
+      const slippage = computeExitSlippage(fillResult.fillPrice, decision.metrics.current_mark, trade.strategy);
+      const marketRecord: ExitExecutionRecord = {
+        trigger: decision.trigger,
+        style: 'MARKET',
+        current_mark: decision.metrics.current_mark,
+        steps: [],
+        fill_price: fillResult.fillPrice,
+        slippage,
+        started_at: now.toISOString(),
+        completed_at: new Date().toISOString(),
+      };
+      await updateTrade(env, trade.id, {
+        exit_execution: JSON.stringify(marketRecord),
+        exit_slippage: slippage,
+      });
+      
       // Mark as closed - exit_reason should already be set from markTradeClosingPending above
       const closedTrade = await markTradeClosedWithReason(
         env,
@@ -711,6 +786,21 @@ export async function executeExitForTrade(
         }));
       }
       
+      // The limit-order retry path closes a single wing. Multi-wing trades (IRON_CONDOR)
+      // go back to OPEN so the next monitor cycle places a fresh market exit for every open wing.
+      if (getOpenTradeWings(trade).length > 1) {
+        const reopenedTrade = await updateTrade(env, trade.id, {
+          status: 'OPEN',
+          broker_order_id_close: null,
+        });
+        return {
+          trade: reopenedTrade,
+          trigger: decision.trigger,
+          success: false,
+          reason: 'Multi-wing market exit did not fill - will retry on next cycle',
+        };
+      }
+      
       return await retryExit(env, broker, updatedTrade, decision, now);
     }
   } catch (error) {
@@ -753,6 +843,290 @@ export async function executeExitForTrade(
   }
 }
 
+function parseExitExecutionRecord(raw: string | null | undefined): ExitExecutionRecord | null {
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw) as ExitExecutionRecord;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Close a trade with an exit ladder (PATIENT / FAST triggers)
+ * 
+ * On fill the trade is closed like a market exit, with exit_execution and
+ * exit_slippage recorded. An unfilled ladder puts the trade back to OPEN so the
+ * next monitor cycle re-evaluates it and starts a fresh ladder, or continues this
+ * one if the cycle's ladder budget cut it short (resume_step).
+ */
+async function executeLadderedExit(
+  env: Env,
+  broker: EngineBroker,
+  trade: TradeRow,
+  decision: MonitoringDecision,
+  style: ExitLadderStyle,
+  legs: SpreadLeg[],
+  context: {
+    exitReason: ExitReason;
+    exitProposal: ProposalRow;
+    clientOrderId: string;
+    orderRecordId: string;
+    tradingMode: TradingMode;
+    now: Date;
+    deadline?: number;
+  }
+): Promise<ExitExecutionResult> {
+  const previous = parseExitExecutionRecord(trade.exit_execution);
+  const startStep = previous?.resume_step !== undefined && previous.style === style ? previous.resume_step : 0;
+  if (startStep > 0) {
+    console.log('[exit][ladder][resume]', JSON.stringify({
+      trade_id: trade.id,
+      trigger: decision.trigger,
+      style,
+      start_step: startStep,
+    }));
+  }
+
+  const ladder = await runExitLadder({
+    env,
+    broker,
+    trade,
+    trigger: decision.trigger,
+    style,
+    legs,
+    currentMark: decision.metrics.current_mark,
+    exitReason: context.exitReason,
+    exitProposal: context.exitProposal,
+    clientOrderId: context.clientOrderId,
+    orderRecordId: context.orderRecordId,
+    now: context.now,
+    startStep,
+    deadline: context.deadline,
+  });
+  
+  await updateTrade(env, trade.id, {
+    exit_execution: JSON.stringify(ladder.record),
+    exit_slippage: ladder.record.slippage,
+  });
+  
+  if (ladder.filled && ladder.fillPrice !== undefined) {
+    console.log('[exit][ladder][filled]', JSON.stringify({
+      trade_id: trade.id,
+      trigger: decision.trigger,
+      style,
+      steps: ladder.record.steps.length,
+      fill_price: ladder.fillPrice,
+      current_mark: decision.metrics.current_mark,
+      slippage: ladder.record.slippage,
+    }));
+    
+    const closedTrade = await markTradeClosedWithReason(
+      env,
+      trade.id,
+      ladder.fillPrice,
+      new Date(),
+      context.exitReason
+    );
+    await recordTradeClosed(env, closedTrade);
+    await notifyExitSubmitted(env, context.tradingMode, closedTrade, ladder.fillPrice);
+    
+    const { syncPortfolioFromTradier } = await import('./portfolioSync');
+    const { syncOrdersFromTradier } = await import('./orderSync');
+    const { syncBalancesFromTradier } = await import('./balancesSync');
+    
+    await syncPortfolioFromTradier(env);
+    await syncOrdersFromTradier(env);
+    await syncBalancesFromTradier(env);
+    
+    return {
+      trade: closedTrade,
+      trigger: decision.trigger,
+      success: true,
+      fillPrice: ladder.fillPrice,
+    };
+  }
+  
+  console.log('[exit][ladder][not-filled]', JSON.stringify({
+    trade_id: trade.id,
+    trigger: decision.trigger,
+    style,
+    steps: ladder.record.steps.length,
+    reason: ladder.record.reason,
+    order_still_working: !!ladder.working,
+  }));
+  
+  if (ladder.working) {
+    // Cancel not confirmed - leave CLOSING_PENDING so checkPendingExits follows the order
+    return {
+      trade: await import('../db/queries').then(m => m.getTrade(env, trade.id)) || trade,
+      trigger: decision.trigger,
+      success: false,
+      reason: ladder.record.reason,
+    };
+  }
+  
+  // Spreads closed by partial fills are gone: the next ladder works the rest
+  const remainingQuantity = ladder.closedQuantity
+    ? Math.max(0, (trade.quantity ?? 1) - ladder.closedQuantity)
+    : undefined;
+  if (remainingQuantity !== undefined) {
+    console.log('[exit][ladder][partial]', JSON.stringify({
+      trade_id: trade.id,
+      closed_quantity: ladder.closedQuantity,
+      closed_value: ladder.closedValue,
+      remaining_quantity: remainingQuantity,
+    }));
+  }
+  
+  // Their fills stay on the trade so the final close covers the whole position
+  const reopenedTrade = await updateTrade(env, trade.id, {
+    status: 'OPEN',
+    broker_order_id_close: null,
+    ...(remainingQuantity !== undefined ? {
+      quantity: remainingQuantity,
+      partial_exit_quantity: (trade.partial_exit_quantity ?? 0) + (ladder.closedQuantity ?? 0),
+      partial_exit_value: (trade.partial_exit_value ?? 0) + (ladder.closedValue ?? 0),
+    } : {}),
+  });
+  return {
+    trade: reopenedTrade,
+    trigger: decision.trigger,
+    success: false,
+    reason: `Exit ladder did not fill - will retry on next cycle (${ladder.record.reason})`,
+  };
+}
+
+/**
+ * Close one wing of an iron condor (WING_DEFENSE)
+ * 
+ * Places a market exit for the threatened wing's legs only. On fill the trade stays
+ * OPEN with closed_wing / wing_exit_price set; monitoring and later exits then work
+ * on the remaining wing, and the final exit_price includes wing_exit_price.
+ */
+async function executeWingExitForTrade(
+  env: Env,
+  trade: TradeRow,
+  decision: MonitoringDecision,
+  now: Date
+): Promise<ExitExecutionResult> {
+  const wing = decision.wing;
+  const openWings = getOpenTradeWings(trade);
+  if (!wing || openWings.length < 2 || !openWings.some(w => w.wing === wing)) {
+    return {
+      trade,
+      trigger: decision.trigger,
+      success: false,
+      reason: 'WING_DEFENSE requires an iron condor with both wings open',
+    };
+  }
+  
+  try {
+    console.log('[exit][wing][signal]', JSON.stringify({
+      trade_id: trade.id,
+      symbol: trade.symbol,
+      wing,
+      underlying_price: decision.metrics.underlying_price,
+      current_mark: decision.metrics.current_mark,
+      entry_price: trade.entry_price,
+      timestamp: now.toISOString(),
+    }));
+    
+    const broker = await createBroker(env);
+    const optionChain = await broker.getOptionChain(trade.symbol, trade.expiration);
+    const [{ shortOption, longOption }] = findOpenSpreadOptions(trade, optionChain, wing);
+    
+    const cancelledCount = await cancelOpenCloseOrders(broker, shortOption.symbol, longOption.symbol);
+    if (cancelledCount > 0) {
+      // Wait a moment for cancellations to process
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+    
+    const marketOrderResult = await placeMarketExitOrder(env, trade, now, wing);
+    if (!marketOrderResult.success || marketOrderResult.orderIds.length === 0) {
+      const errorReason = marketOrderResult.reason || 'Unknown error placing wing exit order';
+      console.error('[exit][wing][failed]', JSON.stringify({
+        trade_id: trade.id,
+        wing,
+        reason: errorReason,
+        timestamp: now.toISOString(),
+      }));
+      return {
+        trade,
+        trigger: decision.trigger,
+        success: false,
+        reason: errorReason,
+      };
+    }
+    
+    const orderId = marketOrderResult.orderIds[0];
+    const fillResult = await pollForExitFill(broker, trade, orderId, now);
+    
+    if (!fillResult.filled || fillResult.fillPrice === undefined) {
+      try {
+        await broker.cancelOrder(orderId);
+      } catch (err) {
+        // Ignore cancellation errors - order may have already filled or been cancelled
+        console.warn('[exit][wing][cancel-failed]', JSON.stringify({
+          trade_id: trade.id,
+          order_id: orderId,
+          error: err instanceof Error ? err.message : String(err),
+        }));
+      }
+      return {
+        trade,
+        trigger: decision.trigger,
+        success: false,
+        reason: 'Wing exit order did not fill - will retry on next cycle',
+      };
+    }
+    
+    const updatedTrade = await updateTrade(env, trade.id, {
+      closed_wing: wing,
+      wing_exit_price: fillResult.fillPrice,
+    });
+    
+    console.log('[exit][wing][closed]', JSON.stringify({
+      trade_id: trade.id,
+      wing,
+      order_id: orderId,
+      wing_exit_price: fillResult.fillPrice,
+      timestamp: now.toISOString(),
+    }));
+    
+    const { syncPortfolioFromTradier } = await import('./portfolioSync');
+    const { syncOrdersFromTradier } = await import('./orderSync');
+    const { syncBalancesFromTradier } = await import('./balancesSync');
+    
+    await syncPortfolioFromTradier(env);
+    await syncOrdersFromTradier(env);
+    await syncBalancesFromTradier(env);
+    
+    return {
+      trade: updatedTrade,
+      trigger: decision.trigger,
+      success: true,
+      fillPrice: fillResult.fillPrice,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[exit][wing][error]', JSON.stringify({
+      trade_id: trade.id,
+      wing,
+      error: errorMessage,
+      timestamp: new Date().toISOString(),
+    }));
+    return {
+      trade,
+      trigger: decision.trigger,
+      success: false,
+      reason: errorMessage,
+    };
+  }
+}
+
 /**
  * Check pending exits and update status
  * 
@@ -833,7 +1207,7 @@ export async function checkPendingExits(
     open_with_exit_reason_ids: openTradesWithExitReason.map(t => t.id),
   }));
   
-  const broker = new TradierClient(env);
+  const broker = await createBroker(env);
   
   // Check for orphan orders (OPEN orders in Tradier that aren't linked to any trade)
   // Try to match them to trades by option symbols
@@ -1030,7 +1404,7 @@ export async function checkPendingExits(
         }
         
         // Determine option type from strategy
-        const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
+        const optionType = getStrategyOptionType(trade.strategy);
         
         // Format option symbols (Tradier format: SYMBOL + YYMMDD + C/P + STRIKE)
         // Example: AAPL260102C00290000
@@ -1050,7 +1424,7 @@ export async function checkPendingExits(
         };
         
         const shortOptionSymbol = formatOptionSymbol(trade.symbol, trade.expiration, trade.short_strike, optionType);
-        const longOptionSymbol = formatOptionSymbol(trade.symbol, trade.expiration, trade.long_strike, optionType);
+        const longOptionSymbol = formatOptionSymbol(trade.symbol, getLongLegExpiration(trade), trade.long_strike, optionType);
         
         // Log matching attempt for debugging
         console.log('[exit][checkPendingExits][orphan-order-matching-attempt]', JSON.stringify({
@@ -1103,14 +1477,9 @@ export async function checkPendingExits(
             
             try {
               // Cancel ALL open close orders for these positions first
-              const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
-              const optionChain = await broker.getOptionChain(trade.symbol, trade.expiration);
-              const shortOption = optionChain.find(
-                opt => opt.strike === trade.short_strike && opt.type === optionType
-              );
-              const longOption = optionChain.find(
-                opt => opt.strike === trade.long_strike && opt.type === optionType
-              );
+              const optionType = getStrategyOptionType(trade.strategy);
+              const optionChain = await getTradeOptionChain(broker, trade);
+              const { shortOption, longOption } = findSpreadLegs(optionChain, trade, optionType);
               
               if (shortOption && longOption) {
                 await cancelOpenCloseOrders(broker, shortOption.symbol, longOption.symbol);
@@ -1578,14 +1947,9 @@ export async function checkPendingExits(
             // CRITICAL: Cancel ALL open close orders for these positions FIRST
             // This prevents duplicate orders and ensures we're not trying to close positions already in an order
             // Get option symbols first to identify which orders to cancel
-            const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
-            const optionChain = await broker.getOptionChain(trade.symbol, trade.expiration);
-            const shortOption = optionChain.find(
-              opt => opt.strike === trade.short_strike && opt.type === optionType
-            );
-            const longOption = optionChain.find(
-              opt => opt.strike === trade.long_strike && opt.type === optionType
-            );
+            const optionType = getStrategyOptionType(trade.strategy);
+            const optionChain = await getTradeOptionChain(broker, trade);
+            const { shortOption, longOption } = findSpreadLegs(optionChain, trade, optionType);
             
             if (!shortOption || !longOption) {
               console.error('[exit][checkPendingExits][missing-options-for-market-like]', JSON.stringify({
@@ -1630,7 +1994,7 @@ export async function checkPendingExits(
             });
             
             // Place market-like exit order directly
-            const isDebitSpread = trade.strategy === 'BULL_CALL_DEBIT' || trade.strategy === 'BEAR_PUT_DEBIT';
+            const isDebitSpread = isDebitStrategy(trade.strategy);
             const marketLikeLimit = calculateMarketLikeLimitPrice(trade, isDebitSpread);
             
             console.log('[exit][checkPendingExits][placing-market-like-order]', JSON.stringify({
@@ -1650,7 +2014,8 @@ export async function checkPendingExits(
               trade.expiration,
               optionType,
               trade.short_strike,
-              trade.long_strike
+              trade.long_strike,
+              trade.long_expiration
             );
             
             const snapshot = computeSpreadPositionSnapshot(trade, shortLeg, longLeg);
@@ -1668,14 +2033,11 @@ export async function checkPendingExits(
             }
             
             // Build legs for market-like order using symbols from chain
-            let leg0: SpreadLeg, leg1: SpreadLeg;
-            if (isDebitSpread) {
-              leg0 = { option_symbol: longOption.symbol, side: 'sell_to_close' as const, quantity: longQtyToClose };
-              leg1 = { option_symbol: shortOption.symbol, side: 'buy_to_close' as const, quantity: shortQtyToClose };
-            } else {
-              leg0 = { option_symbol: shortOption.symbol, side: 'buy_to_close' as const, quantity: shortQtyToClose };
-              leg1 = { option_symbol: longOption.symbol, side: 'sell_to_close' as const, quantity: longQtyToClose };
-            }
+            const [leg0, leg1] = buildClosingLegs(
+              trade.strategy,
+              { option_symbol: shortOption.symbol, quantity: shortQtyToClose },
+              { option_symbol: longOption.symbol, quantity: longQtyToClose }
+            );
             
             // Place market-like order
             const { generateClientOrderId, createOrderRecord } = await import('./orderHelpers');
@@ -1764,14 +2126,9 @@ export async function checkPendingExits(
             
             // CRITICAL: Cancel ALL open close orders for these positions FIRST
             // Get option symbols to identify which orders to cancel
-            const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
-            const optionChain = await broker.getOptionChain(trade.symbol, trade.expiration);
-            const shortOption = optionChain.find(
-              opt => opt.strike === trade.short_strike && opt.type === optionType
-            );
-            const longOption = optionChain.find(
-              opt => opt.strike === trade.long_strike && opt.type === optionType
-            );
+            const optionType = getStrategyOptionType(trade.strategy);
+            const optionChain = await getTradeOptionChain(broker, trade);
+            const { shortOption, longOption } = findSpreadLegs(optionChain, trade, optionType);
             
             if (shortOption && longOption) {
               console.log('[exit][checkPendingExits][cancelling-all-close-orders-retry]', JSON.stringify({
@@ -1990,7 +2347,7 @@ export async function checkPendingExits(
  */
 async function retryExitWithFreshQuantities(
   env: Env,
-  broker: TradierClient,
+  broker: EngineBroker,
   trade: TradeRow,
   shortOptionSymbol: string,
   longOptionSymbol: string,
@@ -2023,14 +2380,9 @@ async function retryExitWithFreshQuantities(
       if (quantities.shortQtyToClose === 0 && quantities.longQtyToClose === 0) {
         // Use canonical handler that preserves original trigger and tries to get real exit_price
         // Need to get option symbols for gain/loss lookup
-        const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
-        const optionChain = await broker.getOptionChain(trade.symbol, trade.expiration);
-        const shortOption = optionChain.find(
-          opt => opt.strike === trade.short_strike && opt.type === optionType
-        );
-        const longOption = optionChain.find(
-          opt => opt.strike === trade.long_strike && opt.type === optionType
-        );
+        const optionType = getStrategyOptionType(trade.strategy);
+        const optionChain = await getTradeOptionChain(broker, trade);
+        const { shortOption, longOption } = findSpreadLegs(optionChain, trade, optionType);
         
         if (!shortOption || !longOption) {
           // Can't get option symbols - fall back to null exit_price
@@ -2073,46 +2425,19 @@ async function retryExitWithFreshQuantities(
     if (!trade.strategy) {
       throw new Error(`Trade ${trade.id} missing strategy field - cannot determine option type for single-leg fallback`);
     }
-    const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
-    const optionChain = await broker.getOptionChain(trade.symbol, trade.expiration);
-    const shortOption = optionChain.find(
-      opt => opt.strike === trade.short_strike && opt.type === optionType
-    );
-    const longOption = optionChain.find(
-      opt => opt.strike === trade.long_strike && opt.type === optionType
-    );
+    const optionType = getStrategyOptionType(trade.strategy);
+    const optionChain = await getTradeOptionChain(broker, trade);
+    const { shortOption, longOption } = findSpreadLegs(optionChain, trade, optionType);
     
     if (!shortOption || !longOption) {
       throw new Error(`Cannot find ${optionType} option legs for retry exit`);
     }
     
-    const isDebitSpread = trade.strategy === 'BULL_CALL_DEBIT' || trade.strategy === 'BEAR_PUT_DEBIT';
-    let leg0: SpreadLeg;
-    let leg1: SpreadLeg;
-    
-    if (isDebitSpread) {
-      leg0 = {
-        option_symbol: longOption.symbol,
-        side: 'sell_to_close' as const,
-        quantity: quantities.longQtyToClose,
-      };
-      leg1 = {
-        option_symbol: shortOption.symbol,
-        side: 'buy_to_close' as const,
-        quantity: quantities.shortQtyToClose,
-      };
-    } else {
-      leg0 = {
-        option_symbol: shortOption.symbol,
-        side: 'buy_to_close' as const,
-        quantity: quantities.shortQtyToClose,
-      };
-      leg1 = {
-        option_symbol: longOption.symbol,
-        side: 'sell_to_close' as const,
-        quantity: quantities.longQtyToClose,
-      };
-    }
+    const [leg0, leg1] = buildClosingLegs(
+      trade.strategy,
+      { option_symbol: shortOption.symbol, quantity: quantities.shortQtyToClose },
+      { option_symbol: longOption.symbol, quantity: quantities.longQtyToClose }
+    );
     
     // Place new order with fresh quantities
     // For multileg orders, Tradier requires type=credit or type=debit (not market)
@@ -2223,7 +2548,7 @@ async function retryExitWithFreshQuantities(
  */
 async function trySingleLegFallback(
   env: Env,
-  broker: TradierClient,
+  broker: EngineBroker,
   trade: TradeRow,
   leg0: SpreadLeg,
   leg1: SpreadLeg,
@@ -2385,7 +2710,7 @@ async function trySingleLegFallback(
  * Poll for exit fill
  */
 async function pollForExitFill(
-  broker: TradierClient,
+  broker: EngineBroker,
   trade: TradeRow,
   orderId: string,
   startTime: Date
@@ -2438,7 +2763,7 @@ async function pollForExitFill(
  */
 async function retryExit(
   env: Env,
-  broker: TradierClient,
+  broker: EngineBroker,
   trade: TradeRow,
   decision: MonitoringDecision,
   now: Date
@@ -2457,7 +2782,7 @@ async function retryExit(
       // For credit spreads: max_loss = width - entry_price
       // For debit spreads: max_loss = entry_price
       // See comment in executeExitForTrade for full policy documentation
-      const isDebitSpread = trade.strategy === 'BULL_CALL_DEBIT' || trade.strategy === 'BEAR_PUT_DEBIT';
+      const isDebitSpread = isDebitStrategy(trade.strategy);
       if (isDebitSpread) {
         closeLimit = trade.entry_price + CLOSE_EMERGENCY_SLIPPAGE; // Debit: max_loss = entry_price
       } else {
@@ -2466,14 +2791,9 @@ async function retryExit(
     }
     
     // Get option symbols (determine type based on strategy)
-    const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
-    const optionChain = await broker.getOptionChain(trade.symbol, trade.expiration);
-    const shortOption = optionChain.find(
-      opt => opt.strike === trade.short_strike && opt.type === optionType
-    );
-    const longOption = optionChain.find(
-      opt => opt.strike === trade.long_strike && opt.type === optionType
-    );
+    const optionType = getStrategyOptionType(trade.strategy);
+    const optionChain = await getTradeOptionChain(broker, trade);
+    const { shortOption, longOption } = findSpreadLegs(optionChain, trade, optionType);
     
     if (!shortOption || !longOption) {
       throw new Error(`Cannot find ${optionType} option legs for retry exit`);
@@ -2545,33 +2865,12 @@ async function retryExit(
     const quantity = retryQuantity.quantity;
     
     // Determine leg sides and order based on strategy (same logic as initial exit)
-    const isDebitSpread = workingTrade.strategy === 'BULL_CALL_DEBIT' || workingTrade.strategy === 'BEAR_PUT_DEBIT';
-    let leg0: SpreadLeg;
-    let leg1: SpreadLeg;
-    
-    if (isDebitSpread) {
-      leg0 = {
-        option_symbol: longOption.symbol,
-        side: 'sell_to_close' as const,
-        quantity: quantity,
-      };
-      leg1 = {
-        option_symbol: shortOption.symbol,
-        side: 'buy_to_close' as const,
-        quantity: quantity,
-      };
-    } else {
-      leg0 = {
-        option_symbol: shortOption.symbol,
-        side: 'buy_to_close' as const,
-        quantity: quantity,
-      };
-      leg1 = {
-        option_symbol: longOption.symbol,
-        side: 'sell_to_close' as const,
-        quantity: quantity,
-      };
-    }
+    const isDebitSpread = isDebitStrategy(workingTrade.strategy);
+    const [leg0, leg1] = buildClosingLegs(
+      workingTrade.strategy,
+      { option_symbol: shortOption.symbol, quantity: quantity },
+      { option_symbol: longOption.symbol, quantity: quantity }
+    );
     
     console.log('[exit][retry]', JSON.stringify({
       trade_id: trade.id,
@@ -2655,7 +2954,7 @@ async function retryExit(
       // Emergency exit pricing: accept up to (max_loss + CLOSE_EMERGENCY_SLIPPAGE) to guarantee flattening
       // For credit spreads: max_loss = width - entry_price
       // For debit spreads: max_loss = entry_price
-      const isDebitSpreadForFinal = workingTrade.strategy === 'BULL_CALL_DEBIT' || workingTrade.strategy === 'BEAR_PUT_DEBIT';
+      const isDebitSpreadForFinal = isDebitStrategy(workingTrade.strategy);
       const finalCloseLimit = isDebitSpreadForFinal
         ? workingTrade.entry_price + CLOSE_EMERGENCY_SLIPPAGE // Debit: max_loss = entry_price
         : workingTrade.width - workingTrade.entry_price + CLOSE_EMERGENCY_SLIPPAGE; // Credit: max_loss = width - entry_price
@@ -2736,33 +3035,12 @@ async function retryExit(
       const finalQuantityValue = finalQuantity.quantity;
       
       // Determine leg sides and order based on strategy (same logic as initial exit)
-      const isDebitSpreadFinal = workingTrade.strategy === 'BULL_CALL_DEBIT' || workingTrade.strategy === 'BEAR_PUT_DEBIT';
-      let leg0Final: SpreadLeg;
-      let leg1Final: SpreadLeg;
-      
-      if (isDebitSpreadFinal) {
-        leg0Final = {
-          option_symbol: longOption.symbol,
-          side: 'sell_to_close' as const,
-          quantity: finalQuantityValue,
-        };
-        leg1Final = {
-          option_symbol: shortOption.symbol,
-          side: 'buy_to_close' as const,
-          quantity: finalQuantityValue,
-        };
-      } else {
-        leg0Final = {
-          option_symbol: shortOption.symbol,
-          side: 'buy_to_close' as const,
-          quantity: finalQuantityValue,
-        };
-        leg1Final = {
-          option_symbol: longOption.symbol,
-          side: 'sell_to_close' as const,
-          quantity: finalQuantityValue,
-        };
-      }
+      const isDebitSpreadFinal = isDebitStrategy(workingTrade.strategy);
+      const [leg0Final, leg1Final] = buildClosingLegs(
+        workingTrade.strategy,
+        { option_symbol: shortOption.symbol, quantity: finalQuantityValue },
+        { option_symbol: longOption.symbol, quantity: finalQuantityValue }
+      );
       
       console.log('[exit][final]', JSON.stringify({
         trade_id: workingTrade.id,
@@ -2857,7 +3135,7 @@ async function retryExit(
 
 async function resolveExitQuantity(
   env: Env,
-  broker: TradierClient,
+  broker: EngineBroker,
   trade: TradeRow,
   shortOptionSymbol: string,
   longOptionSymbol: string
@@ -2873,7 +3151,7 @@ async function resolveExitQuantity(
   if (!trade.strategy) {
     throw new Error(`Trade ${trade.id} missing strategy - cannot determine option type`);
   }
-  const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
+  const optionType = getStrategyOptionType(trade.strategy);
   
   // Get positions from portfolio_positions (primary source)
   const { shortLeg, longLeg } = await getSpreadLegPositions(
@@ -2882,7 +3160,8 @@ async function resolveExitQuantity(
     trade.expiration,
     optionType,
     trade.short_strike,
-    trade.long_strike
+    trade.long_strike,
+    trade.long_expiration
   );
   
   // Compute snapshot
@@ -3049,7 +3328,10 @@ function mapTriggerToExitReason(trigger: ExitTriggerType): ExitReason {
     case 'STOP_LOSS':
       return 'STOP_LOSS';
     case 'TIME_EXIT':
+    case 'FRONT_EXPIRY': // Time spreads: front leg expiring is a time-based exit
       return 'TIME_EXIT';
+    case 'ASSIGNMENT_RISK':
+      return 'ASSIGNMENT_RISK';
     case 'EMERGENCY':
       return 'EMERGENCY';
     case 'NONE':
@@ -3069,7 +3351,7 @@ function mapTriggerToExitReason(trigger: ExitTriggerType): ExitReason {
  * - Logs that positions were already flat as a detail, not the exit_reason
  * 
  * @param env Environment
- * @param broker TradierClient
+ * @param broker EngineBroker
  * @param trade Trade that's already flat
  * @param decision Original monitoring decision that triggered the exit attempt
  * @param shortOptionSymbol Short leg option symbol (for gain/loss lookup)
@@ -3079,7 +3361,7 @@ function mapTriggerToExitReason(trigger: ExitTriggerType): ExitReason {
  */
 async function handleAlreadyFlat(
   env: Env,
-  broker: TradierClient,
+  broker: EngineBroker,
   trade: TradeRow,
   decision: MonitoringDecision,
   shortOptionSymbol: string,
@@ -3119,7 +3401,7 @@ async function handleAlreadyFlat(
       const longClose = gainLossData.find(p => p.symbol === longOptionSymbol);
       
       if (shortClose && longClose) {
-        const isDebitSpread = trade.strategy === 'BULL_CALL_DEBIT' || trade.strategy === 'BEAR_PUT_DEBIT';
+        const isDebitSpread = isDebitStrategy(trade.strategy);
         const quantity = trade.quantity ?? 1;
         
         // Tradier's gain_loss is the total PnL for each position
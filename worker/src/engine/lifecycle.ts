@@ -12,7 +12,10 @@ import type { TradeRow, ExitReason } from '../types';
 import { getTrade, updateTrade, cleanupPriceSnaps } from '../db/queries';
 import { getTradingMode, getDefaultTradeQuantity } from '../core/config';
 import { notifyEntryFilled, notifyExitFilled } from '../notifications/telegram';
-import { TradierClient } from '../broker/tradierClient';
+import { createBroker } from '../broker/factory';
+import { findStrategyPlugin, getStrategyOptionType, isDebitStrategy, getTradeWings, asWingTrade } from '../strategy/registry';
+import { CREDIT_VERTICAL_RULES } from '../strategy/vertical';
+import { getTradeOptionChain, findSpreadLegs } from '../core/timeSpread';
 
 /**
  * Mark trade as OPEN after entry fill
@@ -62,25 +65,14 @@ export async function markTradeOpen(
   const defaultQuantity = await getDefaultTradeQuantity(env);
   const quantity = trade.quantity ?? defaultQuantity;
   
-  // Determine if this is a debit spread
-  const isDebitSpread = trade.strategy === 'BULL_CALL_DEBIT' || trade.strategy === 'BEAR_PUT_DEBIT';
-  
-  let max_profit_per_contract: number;
-  let max_loss_per_contract: number;
-  
-  if (isDebitSpread) {
-    // For debit spreads:
-    // - Max loss = entryPrice (debit paid)
-    // - Max profit = width - entryPrice
-    max_loss_per_contract = entryPrice;
-    max_profit_per_contract = trade.width - entryPrice;
-  } else {
-    // For credit spreads:
-    // - Max profit = entryPrice (credit received)
-    // - Max loss = width - entryPrice
-    max_profit_per_contract = entryPrice;
-    max_loss_per_contract = trade.width - entryPrice;
-  }
+  // Max profit/loss per contract come from the strategy plugin's P&L at entry:
+  // - Credit spreads: max profit = credit, max loss = width - credit
+  // - Debit spreads: max profit = width - debit, max loss = debit
+  // - Time spreads: max loss = debit; profit targets are a return on the debit
+  // Unknown strategies fall back to the credit rules
+  const rules = findStrategyPlugin(trade.strategy) ?? CREDIT_VERTICAL_RULES;
+  const { max_profit: max_profit_per_contract, max_loss: max_loss_per_contract } =
+    rules.computePnl(entryPrice, entryPrice, trade.width);
   
   const max_profit = max_profit_per_contract * quantity;
   const max_loss = max_loss_per_contract * quantity;
@@ -155,15 +147,16 @@ export async function markTradeOpen(
  * 
  * Ensures:
  * - Strategy-consistent strike relationship (based on width + strategy)
- * - Width == 5 (current v1 constraint - see note below)
- * - Both legs exist in the option chain for the symbol/expiration
+ * - Width == plugin.fixedWidth (v1: 5 - see note below; time spreads use their config width)
+ * - Both legs exist in the option chain (time spreads: long leg in long_expiration)
  * - Both legs exist in positions (after sync window)
  * - Short leg has negative quantity, long leg positive
  * - |qty_short| == |qty_long|
  * - Exactly 2 legs in positions (1 short, 1 long)
+ * - Multi-wing strategies (IRON_CONDOR): all of the above for each wing
  * 
- * NOTE: Width validation is hard-coded to 5. If v1 ever supports variable widths,
- * this check must be updated before changing strategy builders.
+ * NOTE: Width validation uses the plugin's fixedWidth (5 in v1). If v1 ever supports
+ * variable widths, update fixedWidth before changing strategy builders.
  * 
  * This is a last-line-of-defense sanity check.
  */
@@ -197,39 +190,43 @@ async function validateSpreadInvariants(
     };
   }
   
-  // Determine option type and strike relationship based on strategy
-  // Each strategy has a specific strike pattern:
-  // - BULL_PUT_CREDIT: puts, long_strike = short_strike - width (short higher, long lower)
-  // - BEAR_PUT_DEBIT: puts, long_strike = short_strike + width (long higher, short lower)
-  // - BEAR_CALL_CREDIT: calls, long_strike = short_strike + width (short lower, long higher)
-  // - BULL_CALL_DEBIT: calls, long_strike = short_strike - width (long lower, short higher)
-  const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
-  
-  let expectedLongStrike: number;
-  if (trade.strategy === 'BULL_PUT_CREDIT') {
-    // Put credit: short higher, long lower
-    expectedLongStrike = trade.short_strike - trade.width;
-  } else if (trade.strategy === 'BEAR_PUT_DEBIT') {
-    // Put debit: long higher, short lower
-    expectedLongStrike = trade.short_strike + trade.width;
-  } else if (trade.strategy === 'BEAR_CALL_CREDIT') {
-    // Call credit: short lower, long higher
-    expectedLongStrike = trade.short_strike + trade.width;
-  } else if (trade.strategy === 'BULL_CALL_DEBIT') {
-    // Call debit: long lower, short higher
-    expectedLongStrike = trade.short_strike - trade.width;
-  } else {
+  // Validate each wing as its own two-leg spread (one wing unless the strategy has several)
+  for (const wing of getTradeWings(trade)) {
+    const wingCheck = await validateVerticalSpreadInvariants(env, asWingTrade(trade, wing));
+    if (!wingCheck.valid) {
+      return wing.wing ? { ...wingCheck, details: { ...wingCheck.details, wing: wing.wing } } : wingCheck;
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate one two-leg spread (see validateSpreadInvariants)
+ */
+async function validateVerticalSpreadInvariants(
+  env: Env,
+  trade: TradeRow
+): Promise<{ valid: boolean; reason?: string; details?: any }> {
+  // Option type and strike relationship come from the strategy plugin
+  // (long_strike = short_strike ± width, e.g. BULL_PUT_CREDIT long below, BEAR_CALL_CREDIT long above)
+  const plugin = findStrategyPlugin(trade.strategy);
+  if (!plugin) {
     // Fallback for unknown strategies (shouldn't happen)
     console.warn('[lifecycle] unknown_strategy_for_validation', JSON.stringify({
-      trade_id: tradeId,
+      trade_id: trade.id,
       strategy: trade.strategy,
     }));
-    expectedLongStrike = trade.short_strike - trade.width; // Default to credit spread pattern
   }
+  const optionType = getStrategyOptionType(trade.strategy);
+  const expectedLongStrike = plugin?.longStrikeSide === 'same'
+    ? trade.short_strike
+    : plugin?.longStrikeSide === 'above'
+      ? trade.short_strike + trade.width
+      : trade.short_strike - trade.width; // Default to credit spread pattern
   
   if (Math.abs(trade.long_strike - expectedLongStrike) > 0.01) {
     console.error('[lifecycle][validation][strike_mismatch]', JSON.stringify({
-      trade_id: tradeId,
+      trade_id: trade.id,
       strategy: trade.strategy,
       option_type: optionType,
       short_strike: trade.short_strike,
@@ -253,15 +250,16 @@ async function validateSpreadInvariants(
     };
   }
   
-  // Check that width is exactly 5
-  // NOTE: v1 only supports width=5 spreads; update this check before changing strategy builders
-  if (trade.width !== 5) {
+  // Check the width the strategy requires (v1: 5; time spreads have no fixed width)
+  // NOTE: update plugin.fixedWidth before changing strategy builders
+  const fixedWidth = plugin?.fixedWidth;
+  if (fixedWidth !== undefined && trade.width !== fixedWidth) {
     return {
       valid: false,
       reason: 'INVALID_WIDTH',
       details: {
         width: trade.width,
-        expected: 5,
+        expected: fixedWidth,
       },
     };
   }
@@ -271,20 +269,15 @@ async function validateSpreadInvariants(
   // we should ideally use getSpreadLegPositions + computeSpreadPositionSnapshot here.
   // However, validation happens immediately after opening, so we use raw broker positions
   // to catch issues before portfolio_positions is synced. This is acceptable for validation.
-  const broker = new TradierClient(env);
+  const broker = await createBroker(env);
   try {
     const positions = await broker.getPositions();
     
     // optionType already determined above - reuse it
     
     // Get option chain to find option symbols
-    const optionChain = await broker.getOptionChain(trade.symbol, trade.expiration);
-    const shortOption = optionChain.find(
-      opt => opt.strike === trade.short_strike && opt.type === optionType
-    );
-    const longOption = optionChain.find(
-      opt => opt.strike === trade.long_strike && opt.type === optionType
-    );
+    const optionChain = await getTradeOptionChain(broker, trade);
+    const { shortOption, longOption } = findSpreadLegs(optionChain, trade, optionType);
     
     if (!shortOption || !longOption) {
       return {
@@ -313,7 +306,7 @@ async function validateSpreadInvariants(
       // If recently opened, log warning but don't fail validation
       if (recentlyOpened) {
         console.warn('[lifecycle] short_position_not_found_yet', JSON.stringify({
-          trade_id: tradeId,
+          trade_id: trade.id,
           short_option_symbol: shortOption.symbol,
           short_strike: trade.short_strike,
           strategy: trade.strategy,
@@ -341,7 +334,7 @@ async function validateSpreadInvariants(
       // If recently opened, log warning but don't fail validation
       if (recentlyOpened) {
         console.warn('[lifecycle] long_position_not_found_yet', JSON.stringify({
-          trade_id: tradeId,
+          trade_id: trade.id,
           long_option_symbol: longOption.symbol,
           long_strike: trade.long_strike,
           strategy: trade.strategy,
@@ -427,7 +420,7 @@ async function validateSpreadInvariants(
     // Later, trades may have partial exits or scaling behavior, so we don't re-run
     // these strict checks during monitoring/exit cycles.
     console.log('[lifecycle] quantity_check', JSON.stringify({
-      trade_id: tradeId,
+      trade_id: trade.id,
       shortQty,
       expectedQuantity,
       comparison: shortQty < expectedQuantity ? 'FAIL' : shortQty > expectedQuantity ? 'WARN' : 'PASS',
@@ -452,7 +445,7 @@ async function validateSpreadInvariants(
     // Log a warning but don't fail validation
     if (shortQty > expectedQuantity) {
       console.warn('[lifecycle] tradier_quantity_greater_than_trade', JSON.stringify({
-        trade_id: tradeId,
+        trade_id: trade.id,
         trade_quantity: expectedQuantity,
         tradier_quantity: shortQty,
         note: 'Multiple trades may share these positions',
@@ -474,7 +467,7 @@ async function validateSpreadInvariants(
     
     // All invariants passed
     console.log('[lifecycle][validation][passed]', JSON.stringify({
-      trade_id: tradeId,
+      trade_id: trade.id,
       strategy: trade.strategy,
       short_strike: trade.short_strike,
       long_strike: trade.long_strike,
@@ -489,7 +482,7 @@ async function validateSpreadInvariants(
     // This allows transient broker errors to be retried without killing good trades
     // The validation will be retried in the next monitor cycle
     console.warn('[lifecycle] validation_skipped_broker_error', JSON.stringify({
-      trade_id: tradeId,
+      trade_id: trade.id,
       error: error instanceof Error ? error.message : String(error),
       note: 'Broker error during validation - skipping validation, will retry in next cycle',
     }));
@@ -597,6 +590,23 @@ export async function markTradeClosedWithReason(
     throw new Error(`markTradeClosedWithReason: exitPrice must be >= 0 or null, got ${exitPrice} for trade ${tradeId}`);
   }
   
+  // Spreads closed earlier by partially filled exit ladders: exitPrice covers only the
+  // remaining quantity, so average it with their fills and close the full position
+  const defaultQuantity = await getDefaultTradeQuantity(env);
+  let quantity = trade.quantity ?? defaultQuantity;
+  const partialQuantity = trade.partial_exit_quantity ?? 0;
+  if (exitPrice !== null && partialQuantity > 0) {
+    const totalQuantity = quantity + partialQuantity;
+    exitPrice = (exitPrice * quantity + (trade.partial_exit_value ?? 0)) / totalQuantity;
+    quantity = totalQuantity;
+  }
+  
+  // IRON_CONDOR: exitPrice is the debit for the remaining legs; add the debit already
+  // paid for a wing closed earlier by WING_DEFENSE so exit_price covers the whole condor
+  if (exitPrice !== null && trade.wing_exit_price != null) {
+    exitPrice = exitPrice + trade.wing_exit_price;
+  }
+  
   // Determine realized_pnl
   let realized_pnl: number | null;
   
@@ -605,11 +615,8 @@ export async function markTradeClosedWithReason(
     realized_pnl = realizedPnlOverride;
   } else if (exitPrice !== null && trade.entry_price && trade.entry_price > 0) {
     // Compute PnL from entry/exit prices
-    const defaultQuantity = await getDefaultTradeQuantity(env);
-    const quantity = trade.quantity ?? defaultQuantity;
-    
     // Determine if this is a debit spread
-    const isDebitSpread = trade.strategy === 'BULL_CALL_DEBIT' || trade.strategy === 'BEAR_PUT_DEBIT';
+    const isDebitSpread = isDebitStrategy(trade.strategy);
     
     // Calculate per-contract PnL
     let perContractPnL: number;
@@ -657,6 +664,7 @@ export async function markTradeClosedWithReason(
     closed_at: closedAt.toISOString(),
     realized_pnl, // Can be null for phantom closes
     exit_reason: exitReason,
+    ...(exitPrice !== null && partialQuantity > 0 ? { quantity } : {}),
   });
 
   console.log(
@@ -0,0 +1,60 @@
+/**
+ * Limit Walk
+ *
+ * Entries (and laddered exits, see exitLadder.ts) start at the spread mid and walk
+ * the limit toward the natural price one tick per step (see getEntryExecutionConfig).
+ * Prices here are always the positive amount on the ticket: credit received for
+ * credit orders, debit paid for debit orders.
+ *
+ * - mid: sold mids - bought mids (credit) / bought mids - sold mids (debit)
+ * - natural: sold bids - bought asks (credit) / bought asks - sold bids (debit)
+ *
+ * Each step is recorded as its own orders row (limit_price, mid_price,
+ * natural_price, walk_step) so fills can be measured against natural.
+ */
+
+import type { OptionQuote } from '../types';
+
+export interface SpreadPrices {
+  mid: number;
+  natural: number;
+}
+
+export interface OrderLegQuotes {
+  sell: OptionQuote[]; // legs the order sells (sell_to_open / sell_to_close)
+  buy: OptionQuote[];  // legs the order buys (buy_to_open / buy_to_close)
+}
+
+function roundToCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Mid and natural price of an order from its leg quotes
+ */
+export function computeSpreadPrices(legs: OrderLegQuotes, isDebitOrder: boolean): SpreadPrices {
+  const sellBid = legs.sell.reduce((sum, opt) => sum + opt.bid, 0);
+  const sellMid = legs.sell.reduce((sum, opt) => sum + (opt.bid + opt.ask) / 2, 0);
+  const buyAsk = legs.buy.reduce((sum, opt) => sum + opt.ask, 0);
+  const buyMid = legs.buy.reduce((sum, opt) => sum + (opt.bid + opt.ask) / 2, 0);
+
+  return isDebitOrder
+    ? { mid: roundToCents(buyMid - sellMid), natural: roundToCents(buyAsk - sellBid) }
+    : { mid: roundToCents(sellMid - buyMid), natural: roundToCents(sellBid - buyAsk) };
+}
+
+/**
+ * Limit price for a walk step: mid moved `step` ticks toward natural, never past it
+ */
+export function computeWalkLimitPrice(prices: SpreadPrices, step: number, tick: number): number {
+  const distance = Math.abs(prices.natural - prices.mid);
+  const direction = prices.natural >= prices.mid ? 1 : -1;
+  return roundToCents(prices.mid + direction * Math.min(step * tick, distance));
+}
+
+/**
+ * Price improvement of a fill versus natural (positive = better than natural)
+ */
+export function computePriceImprovement(fillPrice: number, naturalPrice: number, isDebitOrder: boolean): number {
+  return roundToCents(isDebitOrder ? naturalPrice - fillPrice : fillPrice - naturalPrice);
+}
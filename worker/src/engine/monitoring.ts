@@ -27,13 +27,21 @@ import type {
   ExitTriggerType,
   OptionQuote,
   UnderlyingQuote,
+  EngineBroker,
+  CondorWing,
 } from '../types';
-import { TradierClient } from '../broker/tradierClient';
-import { computeDTE } from '../core/time';
+import { createBroker } from '../broker/factory';
+import { computeDTE, computeTradingDTE } from '../core/time';
 import { getSetting, setSetting, updateTrade, getOpenTrades, getSpreadLegPositions } from '../db/queries';
-import { getExitRuleThresholds, getDefaultTradeQuantity } from '../core/config';
-import { toET } from '../core/time';
-import { computeSpreadPositionSnapshot } from '../core/positions';
+import { getDefaultTradeQuantity, type ExitRuleThresholds } from '../core/config';
+import { getNumberSetting } from '../core/settings';
+import { getTradeExitRules } from '../core/exitProfiles';
+import { toET, adjustForEarlyClose } from '../core/time';
+import { computeSpreadPositionSnapshot, type SpreadPositionSnapshot } from '../core/positions';
+import { findStrategyPlugin, isCreditStrategy, isDebitStrategy, getOpenTradeWings, asWingTrade } from '../strategy/registry';
+import type { StrategyWing, WingOptions } from '../strategy/types';
+import { getTradeOptionChain, findSpreadLegs, getLongLegExpiration, computeExtrinsicValue } from '../core/timeSpread';
+import { CREDIT_VERTICAL_RULES } from '../strategy/vertical';
 
 /**
  * Evaluate an open trade and determine exit action
@@ -53,7 +61,7 @@ export async function evaluateOpenTrade(
   // All trades are managed by Gekkoworks - no external trade filtering
   // We check structural integrity and time-based exits even without entry_price
   
-  const broker = new TradierClient(env);
+  const broker = await createBroker(env);
   
   try {
     // Note: We catch errors at the end to handle transient broker errors gracefully
@@ -72,16 +80,21 @@ export async function evaluateOpenTrade(
     
     // [data][portfolio] Get bid/ask from portfolio_positions (updated during portfolio sync)
     // This is much more efficient than fetching option chains for every trade
-    const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
-    const { shortLeg, longLeg } = await getSpreadLegPositions(
-      env,
-      trade.symbol,
-      trade.expiration,
-      optionType,
-      trade.short_strike,
-      trade.long_strike
-    );
-    const snapshot = computeSpreadPositionSnapshot(trade, shortLeg, longLeg);
+    // One snapshot per open wing of the strategy (IRON_CONDOR: put wing first)
+    const wingSnapshots: Array<StrategyWing & { snapshot: SpreadPositionSnapshot }> = [];
+    for (const wing of getOpenTradeWings(trade)) {
+      const { shortLeg, longLeg } = await getSpreadLegPositions(
+        env,
+        trade.symbol,
+        wing.expiration,
+        wing.optionType,
+        wing.short_strike,
+        wing.long_strike,
+        wing.long_expiration
+      );
+      wingSnapshots.push({ ...wing, snapshot: computeSpreadPositionSnapshot(trade, shortLeg, longLeg) });
+    }
+    const snapshot = wingSnapshots[0].snapshot;
     
     console.log('[data][portfolio][quotes]', JSON.stringify({
       trade_id: trade.id,
@@ -91,6 +104,13 @@ export async function evaluateOpenTrade(
       short_ask: snapshot.shortAsk,
       long_bid: snapshot.longBid,
       long_ask: snapshot.longAsk,
+      wings: wingSnapshots.length > 1 ? wingSnapshots.map(w => ({
+        option_type: w.optionType,
+        short_bid: w.snapshot.shortBid,
+        short_ask: w.snapshot.shortAsk,
+        long_bid: w.snapshot.longBid,
+        long_ask: w.snapshot.longAsk,
+      })) : undefined,
       timestamp: now.toISOString(),
     }));
     
@@ -98,7 +118,7 @@ export async function evaluateOpenTrade(
     // For structural integrity, we still need option chain to verify strikes exist
     // But we use portfolio_positions for bid/ask (the expensive part)
     const chainStartTime = Date.now();
-    const optionChain = await broker.getOptionChain(trade.symbol, trade.expiration);
+    const optionChain = await getTradeOptionChain(broker, trade);
     const chainDurationMs = Date.now() - chainStartTime;
     
     const integrityCheck = await checkStructuralIntegrity(env, trade, broker, optionChain);
@@ -193,17 +213,21 @@ export async function evaluateOpenTrade(
     // Check data integrity - Use bid/ask from portfolio_positions
     // If bid/ask is missing from portfolio, it means portfolio sync hasn't fetched it yet
     // or the position doesn't exist (which would be caught by structural integrity check)
-    if (!snapshot.shortBid || !snapshot.shortAsk || !snapshot.longBid || !snapshot.longAsk) {
+    const missingQuotesWing = wingSnapshots.find(w =>
+      !w.snapshot.shortBid || !w.snapshot.shortAsk || !w.snapshot.longBid || !w.snapshot.longAsk
+    );
+    if (missingQuotesWing) {
+      const missing = missingQuotesWing.snapshot;
       console.warn('[data][missing-quotes]', JSON.stringify({
         trade_id: trade.id,
         symbol: trade.symbol,
         strategy: trade.strategy,
-        option_type: optionType,
+        option_type: missingQuotesWing.optionType,
         missing_quotes: {
-          short_bid: !snapshot.shortBid,
-          short_ask: !snapshot.shortAsk,
-          long_bid: !snapshot.longBid,
-          long_ask: !snapshot.longAsk,
+          short_bid: !missing.shortBid,
+          short_ask: !missing.shortAsk,
+          long_bid: !missing.longBid,
+          long_ask: !missing.longAsk,
         },
         note: 'Missing bid/ask from portfolio_positions - portfolio sync may not have fetched quotes yet. Skipping this cycle.',
       }));
@@ -228,31 +252,11 @@ export async function evaluateOpenTrade(
     
     // Create OptionQuote objects from portfolio_positions bid/ask
     // This allows us to reuse computeMonitoringMetrics without major refactoring
-    // We construct minimal OptionQuote objects with required fields
-    const shortOption: OptionQuote = {
-      symbol: `${trade.symbol}${trade.expiration.replace(/-/g, '')}${optionType === 'put' ? 'P' : 'C'}${String(trade.short_strike * 1000).padStart(8, '0')}`,
-      underlying: trade.symbol,
-      type: optionType,
-      expiration_date: trade.expiration,
-      strike: trade.short_strike,
-      bid: snapshot.shortBid!,
-      ask: snapshot.shortAsk!,
-      last: snapshot.shortBid! + (snapshot.shortAsk! - snapshot.shortBid!) / 2, // Midpoint as last
-      delta: null, // Not needed for PnL calculation
-      implied_volatility: null, // Not needed for PnL calculation (IV crush uses optionChain)
-    };
-    const longOption: OptionQuote = {
-      symbol: `${trade.symbol}${trade.expiration.replace(/-/g, '')}${optionType === 'put' ? 'P' : 'C'}${String(trade.long_strike * 1000).padStart(8, '0')}`,
-      underlying: trade.symbol,
-      type: optionType,
-      expiration_date: trade.expiration,
-      strike: trade.long_strike,
-      bid: snapshot.longBid!,
-      ask: snapshot.longAsk!,
-      last: snapshot.longBid! + (snapshot.longAsk! - snapshot.longBid!) / 2, // Midpoint as last
-      delta: null, // Not needed for PnL calculation
-      implied_volatility: null, // Not needed for PnL calculation (IV crush uses optionChain)
-    };
+    const wingQuotes: WingOptions[] = wingSnapshots.map(w => ({
+      shortOption: buildPortfolioOptionQuote(trade, w.expiration, w.optionType, w.short_strike, w.snapshot.shortBid!, w.snapshot.shortAsk!),
+      longOption: buildPortfolioOptionQuote(trade, w.long_expiration, w.optionType, w.long_strike, w.snapshot.longBid!, w.snapshot.longAsk!),
+    }));
+    const { shortOption, longOption } = wingQuotes[0];
     
     // Compute metrics using bid/ask from portfolio_positions
     // CRITICAL: PnL calculation uses:
@@ -263,8 +267,7 @@ export async function evaluateOpenTrade(
       env,
       trade,
       underlying,
-      shortOption,
-      longOption,
+      wingQuotes,
       now
     );
     
@@ -296,11 +299,9 @@ export async function evaluateOpenTrade(
     let iv_now: number | null = null;
     try {
       // Reuse optionChain already fetched above - no need to refetch
-      // Determine option type based on strategy
-      const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
-      const shortOption = optionChain.find(
-        opt => opt.strike === trade.short_strike && opt.type === optionType
-      );
+      // First open wing's short leg
+      const [wing] = wingSnapshots;
+      const { shortOption } = findSpreadLegs(optionChain, wing, wing.optionType);
       if (shortOption && shortOption.implied_volatility) {
         iv_now = shortOption.implied_volatility;
       }
@@ -399,6 +400,34 @@ export async function evaluateOpenTrade(
   }
 }
 
+/**
+ * Minimal OptionQuote from portfolio_positions bid/ask
+ * 
+ * Delta and IV are not needed for PnL calculation (IV crush uses optionChain).
+ * expiration is the leg's own expiration (long_expiration for a time spread's long leg).
+ */
+function buildPortfolioOptionQuote(
+  trade: TradeRow,
+  expiration: string,
+  optionType: 'call' | 'put',
+  strike: number,
+  bid: number,
+  ask: number
+): OptionQuote {
+  return {
+    symbol: `${trade.symbol}${expiration.replace(/-/g, '')}${optionType === 'put' ? 'P' : 'C'}${String(strike * 1000).padStart(8, '0')}`,
+    underlying: trade.symbol,
+    type: optionType,
+    expiration_date: expiration,
+    strike,
+    bid,
+    ask,
+    last: bid + (ask - bid) / 2, // Midpoint as last
+    delta: null,
+    implied_volatility: null,
+  };
+}
+
 /**
  * Compute monitoring metrics
  */
@@ -406,45 +435,77 @@ async function computeMonitoringMetrics(
   env: Env,
   trade: TradeRow,
   underlying: UnderlyingQuote,
-  shortOption: OptionQuote,
-  longOption: OptionQuote,
+  wings: WingOptions[],
   now: Date
 ): Promise<MonitoringMetrics> {
   if (!trade.entry_price) {
     throw new Error('Trade has no entry_price');
   }
   
+  // Underlying price changes (settings-backed price snapshots)
+  const { change_1m, change_15s } = await computeUnderlyingChanges(
+    env,
+    trade.id,
+    underlying.last,
+    now
+  );
+  
+  // Liquidity check (threshold configurable via CLOSE_RULE_LIQUIDITY_SPREAD_THRESHOLD)
+  const liquiditySpreadThreshold = await getNumberSetting(env, 'CLOSE_RULE_LIQUIDITY_SPREAD_THRESHOLD');
+  
+  return buildMonitoringMetrics(trade, underlying, wings, now, {
+    liquiditySpreadThreshold,
+    change_1m,
+    change_15s,
+  });
+}
+
+/**
+ * Build monitoring metrics from quotes (pure - no DB or broker access)
+ * 
+ * Shared by computeMonitoringMetrics (live) and the backtest runner (recorded chains).
+ * 
+ * `wings` holds quotes for every open wing of the trade (getOpenTradeWings order).
+ * The mark covers every open wing plus wing_exit_price already paid for an
+ * IRON_CONDOR wing closed by WING_DEFENSE.
+ */
+export function buildMonitoringMetrics(
+  trade: TradeRow,
+  underlying: UnderlyingQuote,
+  wings: WingOptions[],
+  now: Date,
+  opts: {
+    liquiditySpreadThreshold: number;
+    change_1m: number;
+    change_15s: number;
+  }
+): MonitoringMetrics {
+  if (!trade.entry_price) {
+    throw new Error('Trade has no entry_price');
+  }
+  
   // PORTFOLIO-FIRST: Entry price comes from trade.entry_price (stored at trade open)
   // This is the source of truth for entry pricing - never recalculate from orders
   
   // Mark price calculation depends on strategy type
   // Current pricing comes from Tradier option chain (fresh bid/ask quotes)
   // NOTE: portfolio_positions doesn't store bid/ask, so we fetch from Tradier
-  const markShort = (shortOption.bid + shortOption.ask) / 2;
-  const markLong = (longOption.bid + longOption.ask) / 2;
+  const wingMids = wings.map(w => ({
+    shortMid: (w.shortOption.bid + w.shortOption.ask) / 2,
+    longMid: (w.longOption.bid + w.longOption.ask) / 2,
+  }));
   
-  // For credit spreads: mark = short_mid - long_mid (what we'd pay to close)
-  // For debit spreads: mark = long_mid - short_mid (what we'd receive to close)
-  const isDebitSpread = trade.strategy === 'BULL_CALL_DEBIT' || trade.strategy === 'BEAR_PUT_DEBIT';
-  const currentMark = isDebitSpread ? markLong - markShort : markShort - markLong;
+  // Mark and PnL formulas come from the strategy plugin:
+  // - Credit spreads: mark = short_mid - long_mid (what we'd pay to close)
+  // - Debit spreads: mark = long_mid - short_mid (what we'd receive to close)
+  // A closed condor wing's debit (wing_exit_price) stays part of the cost to close
+  // Unknown strategies fall back to the credit rules
+  const rules = findStrategyPlugin(trade.strategy) ?? CREDIT_VERTICAL_RULES;
+  const currentMark = rules.computeMark(wingMids) + (trade.wing_exit_price ?? 0);
   
   // PnL calculation: entry_price (from trade) vs current_mark (from Tradier quotes)
   // This is per-contract PnL - exits.ts multiplies by quantity from portfolio_positions
-  let unrealized_pnl: number;
-  let max_profit: number;
-  let max_loss: number;
-  
-  if (isDebitSpread) {
-    // Debit spread: entry_price = debit paid, max_loss = debit, max_profit = width - debit
-    unrealized_pnl = currentMark - trade.entry_price; // Positive when profitable
-    max_profit = trade.width - trade.entry_price;
-    max_loss = trade.entry_price;
-  } else {
-    // Credit spread: entry_price = credit received, max_profit = credit, max_loss = width - credit
-    unrealized_pnl = trade.entry_price - currentMark; // Positive when profitable
-    max_profit = trade.entry_price;
-    max_loss = trade.width - trade.entry_price;
-  }
+  const { unrealized_pnl, max_profit, max_loss } = rules.computePnl(trade.entry_price, currentMark, trade.width);
   
   // Clean metric definitions:
   // profit_fraction = unrealized_pnl / max_profit (can be > 1 if we exceed max profit)
@@ -455,34 +516,19 @@ async function computeMonitoringMetrics(
   // Keep pnl_fraction for backward compatibility in logs (same as profit_fraction)
   const pnl_fraction = profit_fraction;
   
-  // DTE
+  // DTE (calendar days and trading sessions)
   const dte = computeDTE(trade.expiration, now);
+  const trading_dte = computeTradingDTE(trade.expiration, now);
   
-  // Underlying price and changes
-  const underlying_price = underlying.last;
-  const { change_1m, change_15s } = await computeUnderlyingChanges(
-    env,
-    trade.id,
-    underlying_price,
-    now
-  );
-  
-  // Liquidity check (threshold configurable via CLOSE_RULE_LIQUIDITY_SPREAD_THRESHOLD)
-  const liquiditySpreadThreshold = parseFloat(
-    (await getSetting(env, 'CLOSE_RULE_LIQUIDITY_SPREAD_THRESHOLD')) || '0.30'
-  );
-  const shortSpread = shortOption.ask - shortOption.bid;
-  const longSpread = longOption.ask - longOption.bid;
-  const liquidity_ok = shortSpread <= liquiditySpreadThreshold && longSpread <= liquiditySpreadThreshold;
+  // Liquidity check
+  const legs = wings.flatMap(w => [w.shortOption, w.longOption]);
+  const liquidity_ok = legs.every(leg => leg.ask - leg.bid <= opts.liquiditySpreadThreshold);
   
   // Quote integrity
-  const quote_integrity_ok =
-    shortOption.bid > 0 &&
-    shortOption.ask > 0 &&
-    longOption.bid > 0 &&
-    longOption.ask > 0 &&
-    shortOption.bid < shortOption.ask &&
-    longOption.bid < longOption.ask;
+  const quote_integrity_ok = legs.every(leg => leg.bid > 0 && leg.ask > 0 && leg.bid < leg.ask);
+  
+  // Extrinsic value left in the first wing's short leg (time spreads: ASSIGNMENT_RISK)
+  const short_extrinsic = computeExtrinsicValue(wings[0].shortOption, underlying.last);
   
   return {
     current_mark: currentMark,
@@ -490,19 +536,84 @@ async function computeMonitoringMetrics(
     pnl_fraction,
     loss_fraction,
     dte,
-    underlying_price,
-    underlying_change_1m: change_1m,
-    underlying_change_15s: change_15s,
+    trading_dte,
+    underlying_price: underlying.last,
+    underlying_change_1m: opts.change_1m,
+    underlying_change_15s: opts.change_15s,
     liquidity_ok,
     quote_integrity_ok,
+    short_extrinsic,
+  };
+}
+
+/**
+ * Close rule configuration
+ * 
+ * Everything evaluateCloseRules reads from settings, resolved once per evaluation.
+ * The backtest runner loads this from its settings overrides so replayed trades
+ * see exactly the thresholds a live cycle would.
+ */
+export interface CloseRuleConfig {
+  exitRules: ExitRuleThresholds;
+  liquiditySpreadThreshold: number;
+  underlyingSpikeThreshold: number;
+  profitTargetFraction: number;
+  stopLossFraction: number;
+  lowValueCloseThreshold: number;
+  condorWingBreachBuffer: number;
+  timeSpreadFrontExitDte: number;
+  assignmentExtrinsicThreshold: number;
+}
+
+/**
+ * Load close rule thresholds for a trade
+ * 
+ * exitRules, profit target and stop loss come from the trade's exit profile
+ * (snapshot at entry, see core/exitProfiles.ts). The remaining thresholds are
+ * config-driven via settings table (CLOSE_RULE_* keys), with defaults if not set.
+ */
+export async function loadCloseRuleConfig(
+  env: Env,
+  trade: TradeRow
+): Promise<CloseRuleConfig> {
+  // Exit rules (profit target, stop loss, trailing, time exit, IV crush) come from the
+  // trade's exit profile snapshot; per-strategy defaults live in core/exitProfiles
+  const exitRules = await getTradeExitRules(env, trade);
+  const { profitTargetFraction, stopLossFraction } = exitRules;
+  
+  // Emergency thresholds (also configurable)
+  const liquiditySpreadThreshold = await getNumberSetting(env, 'CLOSE_RULE_LIQUIDITY_SPREAD_THRESHOLD');
+  const underlyingSpikeThreshold = await getNumberSetting(env, 'CLOSE_RULE_UNDERLYING_SPIKE_THRESHOLD');
+  
+  const lowValueCloseThreshold = await getNumberSetting(env, 'CLOSE_RULE_LOW_VALUE_CLOSE_THRESHOLD');
+  
+  // WING_DEFENSE - close an iron condor wing once the underlying is within 1% of its short strike
+  const condorWingBreachBuffer = await getNumberSetting(env, 'CLOSE_RULE_CONDOR_WING_BREACH_BUFFER');
+  
+  // FRONT_EXPIRY - close a time spread this many DTE before its front (short) expiration
+  const timeSpreadFrontExitDte = await getNumberSetting(env, 'CLOSE_RULE_TIME_SPREAD_FRONT_EXIT_DTE');
+  
+  // ASSIGNMENT_RISK - ITM front short call with less extrinsic than this (per share)
+  const assignmentExtrinsicThreshold = await getNumberSetting(env, 'CLOSE_RULE_ASSIGNMENT_EXTRINSIC_THRESHOLD');
+  
+  return {
+    exitRules,
+    liquiditySpreadThreshold,
+    underlyingSpikeThreshold,
+    profitTargetFraction,
+    stopLossFraction,
+    lowValueCloseThreshold,
+    condorWingBreachBuffer,
+    timeSpreadFrontExitDte,
+    assignmentExtrinsicThreshold,
   };
 }
 
 /**
  * Close rules evaluator – ordered, deterministic
  * 
- * All thresholds are config-driven via settings table (CLOSE_RULE_* keys).
- * Falls back to defaults if not set.
+ * Loads thresholds, resolves current IV for the IV crush rule, runs decideCloseRule
+ * and persists the trailing-profit peak.
  */
 async function evaluateCloseRules(
   env: Env,
@@ -511,27 +622,81 @@ async function evaluateCloseRules(
   now: Date,
   optionChain?: OptionQuote[]
 ): Promise<MonitoringDecision> {
-  // Load exit rule thresholds from config
-  const exitRules = await getExitRuleThresholds(env);
+  const config = await loadCloseRuleConfig(env, trade);
   
-  // Emergency thresholds (also configurable)
-  const LIQUIDITY_SPREAD_THRESHOLD = parseFloat(
-    (await getSetting(env, 'CLOSE_RULE_LIQUIDITY_SPREAD_THRESHOLD')) || '0.30'
-  );
-  const UNDERLYING_SPIKE_THRESHOLD = parseFloat(
-    (await getSetting(env, 'CLOSE_RULE_UNDERLYING_SPIKE_THRESHOLD')) || '0.005'
-  );
+  // IV_CRUSH_EXIT only applies to credit spreads (short volatility structures)
+  const isCreditSpread = isCreditStrategy(trade.strategy);
+  let ivNow: number | null = null;
+  
+  if (isCreditSpread && trade.iv_entry && trade.iv_entry > 0) {
+    // Use provided optionChain if available, otherwise fetch it
+    let chainToUse = optionChain;
+    if (!chainToUse) {
+      const broker = await createBroker(env);
+      try {
+        chainToUse = await getTradeOptionChain(broker, trade);
+      } catch (error) {
+        // If we can't fetch chain, skip IV crush check
+        console.log('[close] iv_crush_skip', JSON.stringify({
+          trade_id: trade.id,
+          reason: 'Could not fetch option chain for IV check',
+          error: error instanceof Error ? error.message : String(error),
+        }));
+        chainToUse = undefined;
+      }
+    }
+    
+    if (chainToUse) {
+      // First open wing's short leg
+      const [wing] = getOpenTradeWings(trade);
+      const { shortOption } = findSpreadLegs(chainToUse, wing, wing.optionType);
+      if (shortOption && shortOption.implied_volatility) {
+        ivNow = shortOption.implied_volatility;
+      }
+    }
+  }
+  
+  const { trigger, peak, wing } = decideCloseRule(trade, metrics, now, config, ivNow);
+  
+  // Update trade's max_seen_profit_fraction if it increased
+  // NOTE: updateTrade is already imported at the top of the file, no need for dynamic import
+  if (peak > (trade.max_seen_profit_fraction ?? 0)) {
+    await updateTrade(env, trade.id, { max_seen_profit_fraction: peak });
+  }
+  
+  return wing ? { trigger, metrics, wing } : { trigger, metrics };
+}
 
+/**
+ * Decide which close rule fires (pure - no DB or broker access)
+ * 
+ * Rules are evaluated in priority order, first match wins:
+ * EMERGENCY → TRAIL_PROFIT → PROFIT_TARGET → STOP_LOSS → WING_DEFENSE → ASSIGNMENT_RISK
+ * → FRONT_EXPIRY → IV_CRUSH_EXIT → TIME_EXIT → LOW_VALUE_CLOSE → mark sanity.
+ * ASSIGNMENT_RISK and FRONT_EXPIRY apply to time spreads (calendars/diagonals) only.
+ * 
+ * Returns the trigger plus the updated trailing-profit peak; callers persist the peak.
+ * WING_DEFENSE (iron condors only) also returns the wing to close.
+ */
+export function decideCloseRule(
+  trade: TradeRow,
+  metrics: MonitoringMetrics,
+  now: Date,
+  config: CloseRuleConfig,
+  ivNow: number | null
+): { trigger: ExitTriggerType; peak: number; wing?: CondorWing } {
+  const { exitRules } = config;
   const dte = metrics.dte;
   // For credit spreads: pnl_fraction = profit_fraction (unrealized_pnl / max_profit)
   const profit_fraction = metrics.pnl_fraction;
+  const currentPeak = trade.max_seen_profit_fraction ?? 0;
 
   // 0) Emergency conditions (quote/liquidity/volatility shock)
   // Note: Structural break is checked in evaluateOpenTrade before this function
   // NOTE: evaluateOpenTrade already returns early if quote_integrity_ok or liquidity_ok are false,
   // so the first two branches of shouldTriggerEmergency are effectively unreachable in normal flow.
   // However, we keep them here for defensive programming and to handle edge cases.
-  if (await shouldTriggerEmergency(env, metrics, LIQUIDITY_SPREAD_THRESHOLD, UNDERLYING_SPIKE_THRESHOLD)) {
+  if (shouldTriggerEmergency(metrics, config.liquiditySpreadThreshold, config.underlyingSpikeThreshold)) {
     console.log('[monitor][exit][triggered]', JSON.stringify({
       trade_id: trade.id,
       exit_reason: 'EMERGENCY',
@@ -539,18 +704,14 @@ async function evaluateCloseRules(
       dte,
       timestamp: now.toISOString(),
     }));
-    return { trigger: 'EMERGENCY', metrics };
+    return { trigger: 'EMERGENCY', peak: currentPeak };
   }
 
   // 1) Update max_seen_profit_fraction (trailing profit tracking)
   const currentProfitFraction = Math.max(0, profit_fraction); // Only track positive PnL
-  const currentPeak = trade.max_seen_profit_fraction ?? 0;
   const newPeak = Math.max(currentPeak, currentProfitFraction);
   
-  // Update trade's max_seen_profit_fraction if it increased
-  // NOTE: updateTrade is already imported at the top of the file, no need for dynamic import
   if (newPeak > currentPeak) {
-    await updateTrade(env, trade.id, { max_seen_profit_fraction: newPeak });
     console.log('[monitor][exit][trail][armed]', JSON.stringify({
       trade_id: trade.id,
       peak: newPeak,
@@ -573,16 +734,11 @@ async function evaluateCloseRules(
       threshold: exitRules.trailGivebackFraction,
       timestamp: now.toISOString(),
     }));
-    return { trigger: 'TRAIL_PROFIT' as ExitTriggerType, metrics };
+    return { trigger: 'TRAIL_PROFIT' as ExitTriggerType, peak };
   }
 
   // 3) PROFIT_TARGET - close when profit_fraction >= threshold
-  // Debit spreads: 0.60 (60%), Credit spreads: 0.50 (50%)
-  const isDebitSpread = trade.strategy === 'BULL_CALL_DEBIT' || trade.strategy === 'BEAR_PUT_DEBIT';
-  const defaultProfitTarget = isDebitSpread ? '0.60' : '0.50';
-  const profitTargetFraction = parseFloat(
-    (await getSetting(env, 'CLOSE_RULE_PROFIT_TARGET_FRACTION')) || defaultProfitTarget
-  );
+  const profitTargetFraction = config.profitTargetFraction;
   
   if (profit_fraction >= profitTargetFraction) {
     console.log('[closeRules] profit check', JSON.stringify({
@@ -599,7 +755,7 @@ async function evaluateCloseRules(
       threshold: profitTargetFraction,
       timestamp: now.toISOString(),
     }));
-    return { trigger: 'PROFIT_TARGET', metrics };
+    return { trigger: 'PROFIT_TARGET', peak };
   } else {
     console.log('[closeRules] profit check', JSON.stringify({
       trade_id: trade.id,
@@ -611,24 +767,7 @@ async function evaluateCloseRules(
   }
 
   // 4) STOP_LOSS - close when loss_fraction >= threshold (percentage of max loss only)
-  // Debit spreads: 0.50 (50%), Credit spreads: 0.10 (10%)
-  // If the setting is negative (old pnl_fraction-based value), ignore it and use default
-  // Note: isDebitSpread includes both BULL_CALL_DEBIT and BEAR_PUT_DEBIT
-  const defaultStopLoss = isDebitSpread ? '0.50' : '0.10';
-  const stopLossSetting = await getSetting(env, 'CLOSE_RULE_STOP_LOSS_FRACTION');
-  let stopLossFraction: number;
-  
-  if (stopLossSetting) {
-    const parsed = parseFloat(stopLossSetting);
-    // If negative, it's the old pnl_fraction-based threshold - ignore and use default
-    if (parsed < 0) {
-      stopLossFraction = isDebitSpread ? 0.50 : 0.10;
-    } else {
-      stopLossFraction = parsed;
-    }
-  } else {
-    stopLossFraction = isDebitSpread ? 0.50 : 0.10;
-  }
+  const stopLossFraction = config.stopLossFraction;
   
   if (metrics.loss_fraction >= stopLossFraction) {
     console.log('[closeRules] stop-loss check', JSON.stringify({
@@ -645,7 +784,7 @@ async function evaluateCloseRules(
       threshold: stopLossFraction,
       timestamp: now.toISOString(),
     }));
-    return { trigger: 'STOP_LOSS', metrics };
+    return { trigger: 'STOP_LOSS', peak };
   } else {
     console.log('[closeRules] stop-loss check', JSON.stringify({
       trade_id: trade.id,
@@ -656,90 +795,78 @@ async function evaluateCloseRules(
     }));
   }
 
+  // 4b) Structure exits from the strategy plugin (checked before IV crush and time exits):
+  // IRON_CONDOR WING_DEFENSE closes only the threatened wing; time spreads close on
+  // ASSIGNMENT_RISK or FRONT_EXPIRY
+  const structureExit = findStrategyPlugin(trade.strategy)?.checkStructureExit?.(trade, metrics, config);
+  if (structureExit) {
+    console.log('[monitor][exit][triggered]', JSON.stringify({
+      trade_id: trade.id,
+      exit_reason: structureExit.trigger,
+      ...structureExit.details,
+      timestamp: now.toISOString(),
+    }));
+    return { trigger: structureExit.trigger, peak, wing: structureExit.wing };
+  }
+
   // 5) IV_CRUSH_EXIT (IV dropped 15%+ and PnL >= +15%)
   // Only applies to credit spreads (short volatility structures)
-  const isCreditSpread = trade.strategy === 'BULL_PUT_CREDIT' || trade.strategy === 'BEAR_CALL_CREDIT';
+  const isCreditSpread = isCreditStrategy(trade.strategy);
   
-  if (isCreditSpread && trade.iv_entry && trade.iv_entry > 0) {
-    // Use provided optionChain if available, otherwise fetch it
-    let chainToUse = optionChain;
-    if (!chainToUse) {
-      const broker = new TradierClient(env);
-      try {
-        chainToUse = await broker.getOptionChain(trade.symbol, trade.expiration);
-      } catch (error) {
-        // If we can't fetch chain, skip IV crush check
-        console.log('[close] iv_crush_skip', JSON.stringify({
-          trade_id: trade.id,
-          reason: 'Could not fetch option chain for IV check',
-          error: error instanceof Error ? error.message : String(error),
-        }));
-        chainToUse = undefined;
-      }
-    }
+  if (isCreditSpread && trade.iv_entry && trade.iv_entry > 0 && ivNow) {
+    const iv_entry = trade.iv_entry;
     
-    if (chainToUse) {
-      // Determine option type based on strategy
-      const optionType = trade.strategy === 'BEAR_CALL_CREDIT' ? 'call' : 'put';
-      const shortOption = chainToUse.find(
-        opt => opt.strike === trade.short_strike && opt.type === optionType
-      );
-      
-      if (shortOption && shortOption.implied_volatility) {
-        const iv_now = shortOption.implied_volatility;
-        const iv_entry = trade.iv_entry;
-        
-        if (iv_now <= iv_entry * exitRules.ivCrushThreshold && profit_fraction >= exitRules.ivCrushMinPnL) {
-          console.log('[monitor][exit][triggered]', JSON.stringify({
-            trade_id: trade.id,
-            exit_reason: 'IV_CRUSH_EXIT',
-            profit_fraction,
-            iv_entry,
-            iv_now,
-            iv_drop_pct: (iv_now / iv_entry - 1) * 100,
-            threshold: exitRules.ivCrushThreshold,
-            timestamp: now.toISOString(),
-          }));
-          return { trigger: 'IV_CRUSH_EXIT' as ExitTriggerType, metrics };
-        }
-      }
+    if (ivNow <= iv_entry * exitRules.ivCrushThreshold && profit_fraction >= exitRules.ivCrushMinPnL) {
+      console.log('[monitor][exit][triggered]', JSON.stringify({
+        trade_id: trade.id,
+        exit_reason: 'IV_CRUSH_EXIT',
+        profit_fraction,
+        iv_entry,
+        iv_now: ivNow,
+        iv_drop_pct: (ivNow / iv_entry - 1) * 100,
+        threshold: exitRules.ivCrushThreshold,
+        timestamp: now.toISOString(),
+      }));
+      return { trigger: 'IV_CRUSH_EXIT' as ExitTriggerType, peak };
     }
   }
 
   // 6) TIME_EXIT - check AFTER profit target and stop loss
   // This ensures PnL-based exits take precedence over time-based exits
-  const timeExitDte = metrics.dte;
+  // Measured in calendar days or trading sessions per exitRules.timeExitDteMeasure
+  const timeExitDte = exitRules.timeExitDteMeasure === 'TRADING'
+    ? metrics.trading_dte ?? computeTradingDTE(trade.expiration, now)
+    : metrics.dte;
   const etNow = toET(now);
   const timeStr = `${etNow.getHours().toString().padStart(2, '0')}:${etNow.getMinutes().toString().padStart(2, '0')}`;
-  const timeExitCutoff = exitRules.timeExitCutoff; // e.g., "15:50"
+  // e.g., "15:50", moved earlier on early-close days ("12:50" on a 13:00 close)
+  const timeExitCutoff = adjustForEarlyClose(exitRules.timeExitCutoff, now);
   
   if (timeExitDte <= exitRules.timeExitDteThreshold && timeStr >= timeExitCutoff) {
     console.log('[monitor][exit][triggered]', JSON.stringify({
       trade_id: trade.id,
       exit_reason: 'TIME_EXIT',
       dte: timeExitDte,
+      dte_measure: exitRules.timeExitDteMeasure,
       time: timeStr,
       cutoff: timeExitCutoff,
       timestamp: now.toISOString(),
     }));
-    return { trigger: 'TIME_EXIT' as ExitTriggerType, metrics };
+    return { trigger: 'TIME_EXIT' as ExitTriggerType, peak };
   }
 
   // 7) LOW_VALUE_CLOSE (credit spreads very cheap)
   // Only applies to credit spreads - for debits, low mark means near max loss, not profit
-  const isDebitSpreadForLowValue = trade.strategy === 'BULL_CALL_DEBIT' || trade.strategy === 'BEAR_PUT_DEBIT';
+  const isDebitSpreadForLowValue = isDebitStrategy(trade.strategy);
   
   if (!isDebitSpreadForLowValue) {
-    const LOW_VALUE_CLOSE_THRESHOLD = parseFloat(
-      (await getSetting(env, 'CLOSE_RULE_LOW_VALUE_CLOSE_THRESHOLD')) || '0.05'
-    );
-    if (metrics.current_mark <= LOW_VALUE_CLOSE_THRESHOLD) {
+    if (metrics.current_mark <= config.lowValueCloseThreshold) {
       console.log('[close] LOW_VALUE_CLOSE triggered', {
         trade_id: trade.id,
         current_mark: metrics.current_mark,
-        threshold: LOW_VALUE_CLOSE_THRESHOLD,
+        threshold: config.lowValueCloseThreshold,
       });
-      return { trigger: 'LOW_VALUE_CLOSE' as ExitTriggerType, metrics };
+      return { trigger: 'LOW_VALUE_CLOSE' as ExitTriggerType, peak };
     }
   }
 
@@ -751,23 +878,22 @@ async function evaluateCloseRules(
       trade_id: trade.id,
       current_mark: metrics.current_mark,
     });
-    return { trigger: 'EMERGENCY', metrics };
+    return { trigger: 'EMERGENCY', peak };
   }
 
   // No exit triggered - decision will be logged in [closeEval] above
 
-  return { trigger: 'NONE', metrics };
+  return { trigger: 'NONE', peak };
 }
 
 /**
  * Check if emergency exit should trigger
  */
-async function shouldTriggerEmergency(
-  env: Env,
+function shouldTriggerEmergency(
   metrics: MonitoringMetrics,
   liquiditySpreadThreshold: number,
   underlyingSpikeThreshold: number
-): Promise<boolean> {
+): boolean {
   // Liquidity collapse
   if (!metrics.liquidity_ok) {
     console.log('[close] EMERGENCY: liquidity collapse', JSON.stringify({
@@ -810,6 +936,7 @@ function createEmergencyMetrics(trade: TradeRow, now: Date): MonitoringMetrics {
     pnl_fraction: 0,
     loss_fraction: 0,
     dte: computeDTE(trade.expiration, now),
+    trading_dte: computeTradingDTE(trade.expiration, now),
     underlying_price: 0,
     underlying_change_1m: 0,
     underlying_change_15s: 0,
@@ -903,7 +1030,7 @@ async function computeUnderlyingChanges(
  */
 export async function repairPortfolio(env: Env, now: Date): Promise<void> {
   const openTrades = await getOpenTrades(env);
-  const broker = new TradierClient(env);
+  const broker = await createBroker(env);
   
   let repairedCount = 0;
   let skippedNoEntryPrice = 0;
@@ -1000,7 +1127,37 @@ export async function repairPortfolio(env: Env, now: Date): Promise<void> {
 async function checkStructuralIntegrity(
   env: Env,
   trade: TradeRow,
-  broker: TradierClient,
+  broker: EngineBroker,
+  optionChain: OptionQuote[]
+): Promise<{ valid: boolean; reason?: string; details?: any }> {
+  // Each open wing is checked as its own two-leg spread (one wing unless the strategy has several)
+  let wings: StrategyWing[];
+  try {
+    wings = getOpenTradeWings(trade);
+  } catch (error) {
+    // e.g. IRON_CONDOR missing call wing strikes
+    return {
+      valid: false,
+      reason: 'STRIKE_MISMATCH',
+      details: { note: error instanceof Error ? error.message : String(error), strategy: trade.strategy },
+    };
+  }
+  for (const wing of wings) {
+    const wingCheck = await checkWingStructure(env, asWingTrade(trade, wing), broker, optionChain);
+    if (!wingCheck.valid || wingCheck.reason) {
+      return wing.wing ? { ...wingCheck, details: { ...wingCheck.details, wing: wing.wing } } : wingCheck;
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Structural integrity of one two-leg spread (see checkStructuralIntegrity)
+ */
+async function checkWingStructure(
+  env: Env,
+  trade: TradeRow,
+  broker: EngineBroker,
   optionChain: OptionQuote[]
 ): Promise<{ valid: boolean; reason?: string; details?: any }> {
   // Defensive check: strategy must be set
@@ -1014,41 +1171,22 @@ async function checkStructuralIntegrity(
     };
   }
   
-  // Determine option type and strike relationship based on strategy
-  // Each strategy has a specific strike pattern (matching lifecycle.validateSpreadInvariants):
-  // - BULL_PUT_CREDIT: puts, long_strike = short_strike - width (short higher, long lower)
-  // - BEAR_PUT_DEBIT: puts, long_strike = short_strike + width (long higher, short lower)
-  // - BEAR_CALL_CREDIT: calls, long_strike = short_strike + width (short lower, long higher)
-  // - BULL_CALL_DEBIT: calls, long_strike = short_strike - width (long lower, short higher)
-  let optionType: 'call' | 'put';
-  let expectedLongStrike: number;
-  
-  switch (trade.strategy) {
-    case 'BULL_PUT_CREDIT':
-      optionType = 'put';
-      expectedLongStrike = trade.short_strike - trade.width;
-      break;
-    case 'BEAR_PUT_DEBIT':
-      optionType = 'put';
-      expectedLongStrike = trade.short_strike + trade.width;
-      break;
-    case 'BEAR_CALL_CREDIT':
-      optionType = 'call';
-      expectedLongStrike = trade.short_strike + trade.width;
-      break;
-    case 'BULL_CALL_DEBIT':
-      optionType = 'call';
-      expectedLongStrike = trade.short_strike - trade.width;
-      break;
-    default:
-      // Fallback for unknown strategies
-      console.warn('[monitor] unknown_strategy_for_validation', JSON.stringify({
-        trade_id: trade.id,
-        strategy: trade.strategy,
-      }));
-      optionType = 'put'; // Default fallback
-      expectedLongStrike = trade.short_strike - trade.width; // Default to credit spread pattern
+  // Option type and strike relationship come from the strategy plugin
+  // (long_strike = short_strike ± width, matching lifecycle.validateSpreadInvariants)
+  const plugin = findStrategyPlugin(trade.strategy);
+  if (!plugin) {
+    // Fallback for unknown strategies
+    console.warn('[monitor] unknown_strategy_for_validation', JSON.stringify({
+      trade_id: trade.id,
+      strategy: trade.strategy,
+    }));
   }
+  const optionType = plugin?.optionType ?? 'put'; // Default fallback
+  const expectedLongStrike = plugin?.longStrikeSide === 'same'
+    ? trade.short_strike
+    : plugin?.longStrikeSide === 'above'
+      ? trade.short_strike + trade.width
+      : trade.short_strike - trade.width; // Default to credit spread pattern
   
   if (Math.abs(trade.long_strike - expectedLongStrike) > 0.01) {
     return {
@@ -1065,13 +1203,8 @@ async function checkStructuralIntegrity(
     };
   }
   
-  // 2. Check both legs exist in option chain
-  const shortOption = optionChain.find(
-    opt => opt.strike === trade.short_strike && opt.type === optionType
-  );
-  const longOption = optionChain.find(
-    opt => opt.strike === trade.long_strike && opt.type === optionType
-  );
+  // 2. Check both legs exist in option chain (time spreads: long leg in long_expiration)
+  const { shortOption, longOption } = findSpreadLegs(optionChain, trade, optionType);
   
   if (!shortOption) {
     return {
@@ -1092,7 +1225,7 @@ async function checkStructuralIntegrity(
       reason: 'LONG_LEG_MISSING_IN_CHAIN',
       details: {
         long_strike: trade.long_strike,
-        expiration: trade.expiration,
+        expiration: getLongLegExpiration(trade),
         strategy: trade.strategy,
         option_type: optionType,
       },
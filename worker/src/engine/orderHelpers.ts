@@ -5,7 +5,7 @@
  */
 
 import type { Env } from '../env';
-import type { ProposalRow, TradeRow, OrderSide } from '../types';
+import type { ProposalRow, TradeRow, OrderSide, OrderRow, BrokerOrder, BrokerClient } from '../types';
 import { insertOrder } from '../db/queries_orders';
 import { updateProposal } from '../db/queries';
 
@@ -19,13 +19,17 @@ export function generateClientOrderId(proposalId: string, side: OrderSide): stri
 
 /**
  * Create an order record in the database
+ * 
+ * Entry limit-walk steps pass their pricing so each step is recorded with the
+ * mid/natural it was priced against.
  */
 export async function createOrderRecord(
   env: Env,
   proposal: ProposalRow,
   side: OrderSide,
   clientOrderId: string,
-  tradierOrderId: string | null = null
+  tradierOrderId: string | null = null,
+  pricing?: Pick<OrderRow, 'limit_price' | 'mid_price' | 'natural_price' | 'walk_step'>
 ): Promise<string> {
   const orderId = crypto.randomUUID();
   
@@ -40,6 +44,7 @@ export async function createOrderRecord(
     avg_fill_price: null,
     filled_quantity: 0,
     remaining_quantity: proposal.quantity,
+    ...pricing,
   });
 
   // Update proposal with client_order_id and kind
@@ -91,3 +96,41 @@ export async function linkOrderToTrade(
   });
 }
 
+/**
+ * Cancel a working order and wait for the broker to confirm it is no longer working
+ * 
+ * Returns the last order state seen; callers must check for FILLED (the order can
+ * fill while the cancel is in flight) and for a partial fill (CANCELLED with
+ * filled_quantity > 0) before replacing it.
+ */
+export async function cancelOrderAndConfirm(
+  broker: Pick<BrokerClient, 'cancelOrder' | 'getOrder'>,
+  orderId: string,
+  pollIntervalMs: number
+): Promise<BrokerOrder | null> {
+  try {
+    await broker.cancelOrder(orderId);
+  } catch (error) {
+    console.warn('[orders][cancel_error]', JSON.stringify({
+      orderId,
+      error: error instanceof Error ? error.message : String(error),
+    }));
+  }
+  
+  let lastOrder: BrokerOrder | null = null;
+  for (let attempt = 0; attempt < 3; attempt++) {
+    try {
+      lastOrder = await broker.getOrder(orderId);
+      if (lastOrder.status !== 'OPEN' && lastOrder.status !== 'NEW' && lastOrder.status !== 'PARTIALLY_FILLED') {
+        return lastOrder;
+      }
+    } catch (error) {
+      console.warn('[orders][cancel_confirm_error]', JSON.stringify({
+        orderId,
+        error: error instanceof Error ? error.message : String(error),
+      }));
+    }
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+  }
+  return lastOrder;
+}
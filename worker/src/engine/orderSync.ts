@@ -14,8 +14,8 @@
  */
 
 import type { Env } from '../env';
-import type { TradeRow, BrokerOrder } from '../types';
-import { TradierClient } from '../broker/tradierClient';
+import type { TradeRow, BrokerOrder, EngineBroker } from '../types';
+import { createBroker } from '../broker/factory';
 import {
   getOpenTrades,
   getTradesByStatus,
@@ -24,6 +24,7 @@ import {
 import { markTradeOpen, markTradeClosed, markTradeClosedWithReason, markTradeCancelled } from './lifecycle';
 import { recordTradeClosed } from '../core/risk';
 import { updateOrdersSyncTimestamp } from '../core/syncFreshness';
+import { isDebitStrategy } from '../strategy/registry';
 
 /**
  * Sync all orders from Tradier
@@ -45,7 +46,7 @@ export async function syncOrdersFromTradier(
   errors: string[];
 }> {
   const suppressOrphanedLogs = options?.suppressOrphanedLogs ?? false;
-  const broker = new TradierClient(env);
+  const broker = await createBroker(env);
 
   const result = {
     synced: 0,
@@ -283,7 +284,7 @@ export async function syncOrdersFromTradier(
  */
 async function backfillMissingOrderIds(
   env: Env,
-  broker: TradierClient,
+  broker: EngineBroker,
   allOrders: BrokerOrder[],
   result: { synced: number; updated: number; errors: string[] }
 ): Promise<void> {
@@ -654,7 +655,7 @@ async function syncOrderToTrade(
           
           if (updatedTrade && updatedTrade.entry_price && updatedTrade.entry_price > 0) {
             // Calculate realized_pnl from entry and exit prices
-            const isDebitSpread = trade.strategy === 'BULL_CALL_DEBIT' || trade.strategy === 'BEAR_PUT_DEBIT';
+            const isDebitSpread = isDebitStrategy(trade.strategy);
             const quantity = trade.quantity ?? 1;
             let realized_pnl: number;
             
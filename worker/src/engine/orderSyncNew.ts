@@ -7,7 +7,7 @@
 
 import type { Env } from '../env';
 import type { BrokerOrder, OrderStatus } from '../types';
-import { TradierClient } from '../broker/tradierClient';
+import { createBroker } from '../broker/factory';
 import {
   getOrderByClientOrderId,
   getOrderByTradierOrderId,
@@ -261,7 +261,7 @@ export async function syncOrdersFromTradier(env: Env): Promise<{
     errors: [] as string[],
   };
 
-  const broker = new TradierClient(env);
+  const broker = await createBroker(env);
 
   try {
     // Fetch orders from Tradier (last 2 days)
@@ -371,7 +371,7 @@ export async function syncSingleOrderFromTradier(
   tradierOrderId: string,
   clientOrderId?: string
 ): Promise<void> {
-  const broker = new TradierClient(env);
+  const broker = await createBroker(env);
   
   try {
     // Get order from Tradier
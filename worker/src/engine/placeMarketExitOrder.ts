@@ -6,8 +6,8 @@
  */
 
 import type { Env } from '../env';
-import type { TradeRow, BrokerOrder } from '../types';
-import { TradierClient } from '../broker/tradierClient';
+import type { TradeRow, BrokerOrder, CondorWing } from '../types';
+import { createBroker } from '../broker/factory';
 import { getOpenPositionsForTrade } from '../portfolio/getOpenPositionsForTrade';
 import { buildExitOrderPayload, type ExitOrderPayload } from '../tradier/buildExitOrderPayload';
 import { generateClientOrderId, createOrderRecord, updateOrderWithTradierResponse, linkOrderToTrade } from './orderHelpers';
@@ -22,21 +22,25 @@ import { insertProposal } from '../db/queries';
  * 3. Places market orders
  * 4. Falls back to per-leg market orders if multileg fails
  * 
+ * For IRON_CONDOR trades, `wing` restricts the order to that wing's legs
+ * (WING_DEFENSE); otherwise every open wing is closed.
+ * 
  * @returns The broker order ID(s) and success status
  */
 export async function placeMarketExitOrder(
   env: Env,
   trade: TradeRow,
-  now: Date
+  now: Date,
+  wing?: CondorWing
 ): Promise<{
   success: boolean;
   orderIds: string[];
   reason?: string;
 }> {
-  const broker = new TradierClient(env);
+  const broker = await createBroker(env);
   
   // Step 1: Get positions from portfolio_positions (source of truth)
-  const positions = await getOpenPositionsForTrade(env, trade);
+  const positions = await getOpenPositionsForTrade(env, trade, wing);
   
   if (positions.length === 0) {
     return {
@@ -54,6 +58,7 @@ export async function placeMarketExitOrder(
     trade_id: trade.id,
     symbol: trade.symbol,
     strategy: trade.strategy,
+    wing: wing ?? null,
     payload_kind: payload.kind,
     positions_count: positions.length,
     positions: positions.map(p => ({
@@ -73,6 +78,9 @@ export async function placeMarketExitOrder(
     expiration: trade.expiration,
     short_strike: trade.short_strike,
     long_strike: trade.long_strike,
+    call_short_strike: trade.call_short_strike ?? null,
+    call_long_strike: trade.call_long_strike ?? null,
+    long_expiration: trade.long_expiration ?? null,
     width: trade.width,
     quantity: trade.quantity,
     strategy: trade.strategy || 'BULL_PUT_CREDIT',
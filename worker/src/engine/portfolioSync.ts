@@ -7,7 +7,7 @@
 
 import type { Env } from '../env';
 import type { BrokerPosition } from '../types';
-import { TradierClient } from '../broker/tradierClient';
+import { createBroker } from '../broker/factory';
 import { 
   upsertPortfolioPosition, 
   deletePortfolioPositionsNotInSet,
@@ -299,7 +299,7 @@ export async function syncPortfolioFromTradier(env: Env): Promise<{
   synced: number;
   errors: string[];
 }> {
-  const broker = new TradierClient(env);
+  const broker = await createBroker(env);
   
   const result = {
     success: true,
@@ -19,13 +19,16 @@
 import type { Env } from '../env';
 import type {
   ProposalResult,
-  ProposalCandidate,
   ProposalRow,
   CandidateMetrics,
+  CandidateScoring,
   OptionQuote,
   UnderlyingQuote,
+  BrokerClient,
+  TradeRow,
+  EngineBroker,
 } from '../types';
-import { TradierClient } from '../broker/tradierClient';
+import { createBroker } from '../broker/factory';
 import {
   computeDTE,
   isDTEInWindow,
@@ -34,28 +37,64 @@ import {
 import {
   computeIVR,
   computeVerticalSkew,
-  computePOP,
-  computeEV,
   isRVIVRatioValid,
 } from '../core/metrics';
-import { scoreCandidate } from '../core/scoring';
-import { insertProposal, insertSystemLog } from '../db/queries';
-import { getTradingMode, getStrategyThresholds, getDefaultTradeQuantity, type TradingMode } from '../core/config';
+import { insertProposal, insertSystemLog, getLatestPortfolioGreeks } from '../db/queries';
+import {
+  getTradingMode,
+  getStrategyThresholds,
+  getRegimeStrategyMap,
+  getBetaConfig,
+  getGreekRiskLimits,
+  type TradingMode,
+  type StrategyThresholds,
+  type RegimeStrategyMap,
+} from '../core/config';
 import { getOpenTrades } from '../db/queries';
 import { notifyProposalCreated } from '../notifications/telegram';
-import { StrategyId, getEnabledStrategies, getStrategyConfig } from '../strategy/config';
-import { buildBullPutCreditCandidates } from '../strategy/bullPutCredit';
-import { buildBearCallCreditCandidates } from '../strategy/bearCallCredit';
-import { buildBullCallDebitCandidates } from '../strategy/bullCallDebit';
-import { buildBearPutDebitCandidates } from '../strategy/bearPutDebit';
+import { StrategyId, getEnabledStrategies, getStrategyConfig, checkStrategyDteWindow, type StrategyConfig } from '../strategy/config';
+import type { RawCandidate, HardFilterResult, TrendDirection, BackMonthChain } from '../strategy/types';
+import {
+  getStrategyPlugin,
+  getRegisteredStrategies,
+  getStrategyOptionType,
+  isDebitStrategy,
+} from '../strategy/registry';
+import { getVerticalOptions, MIN_DEBIT, MAX_DEBIT } from '../strategy/vertical';
+import { computeBearishTrendScore } from '../core/trend';
+import { captureATM30DayIV, getIVRank, NEUTRAL_IVR, type IVRankResult } from '../core/ivRank';
+import { getRealizedVol } from '../core/realizedVol';
+import {
+  getBetaEstimates,
+  getDeltaBand,
+  deltaBandDistance,
+  computeCandidateSpyDelta,
+  type DeltaBand,
+} from '../core/beta';
+import { BETA_REFERENCE_SYMBOL } from '../core/greeks';
+import { isStrategyAllowedInRegime, type RegimeState } from '../core/regime';
+import { loadProposalSizer, type SizingCandidate, type SizingDecision } from '../core/sizing';
 
 const WIDTH = 5;
 const MAX_EXPIRATIONS_PER_RUN = 5; // Limit expirations to avoid excessive chain calls
 
+// Fallbacks when realized vol / ATM IV are unavailable (fail the RV/IV gate by design)
+export const PLACEHOLDER_RV_30D = 0.15;
+export const PLACEHOLDER_IV_30D = 0.20;
+
+// Per-symbol inputs to the RV/IV gate, hard filters and metrics (persisted on the proposal)
+export interface SymbolVolatility {
+  rv_30d: number;
+  rv_30d_parkinson: number | null;
+  iv_30d: number;
+  rv_measured: boolean;  // false if rv_30d fell back to PLACEHOLDER_RV_30D
+  iv_measured: boolean;  // false if iv_30d fell back to PLACEHOLDER_IV_30D
+}
+
 /**
  * Get eligible symbols for proposal generation based on trading mode and whitelist
  */
-async function getEligibleSymbols(env: Env, mode: TradingMode): Promise<string[]> {
+export async function getEligibleSymbols(env: Env, mode: TradingMode): Promise<string[]> {
   // Base symbols by mode
   let baseSymbols: string[];
   if (mode === 'SANDBOX_PAPER') {
@@ -136,390 +175,95 @@ export async function generateProposal(
     }
     
     // [1] Load Market State and generate candidates for all symbols
-    const broker = new TradierClient(env);
-    
-    // Detect market regime for primary symbol (SPY) to gate strategies
-    const primarySymbol = symbols[0] || 'SPY';
-    const underlyingQuote = await broker.getUnderlyingQuote(primarySymbol);
-    const { detectRegime, getStrategiesForRegime, isStrategyAllowedInRegime } = await import('../core/regime');
-    const regimeState = await detectRegime(env, primarySymbol, underlyingQuote.last);
-    
-    // Log regime state and flip detection
-    if (regimeState.flipped) {
-      console.log('[regime][flip][detected]', JSON.stringify({
-        symbol: primarySymbol,
-        previous: regimeState.previousRegime,
-        current: regimeState.regime,
-        price: regimeState.price,
-        sma20: regimeState.sma20,
-        timestamp: regimeState.timestamp,
-      }));
-    }
-    
-    const { enabled: regimeEnabledStrategies } = getStrategiesForRegime(regimeState.regime);
-    
-    // Filter enabled strategies by regime
-    // StrategyId is a string enum, so we can use it directly as the strategy name
-    console.log('[proposals][strategies][before_regime_filter]', JSON.stringify({
-      count: enabledStrategies.length,
-      strategies: enabledStrategies,
-      strategies_types: enabledStrategies.map(s => typeof s),
-      regime: regimeState.regime,
-      regime_enabled: regimeEnabledStrategies,
-      regime_enabled_types: regimeEnabledStrategies.map(s => typeof s),
-    }));
-    enabledStrategies = enabledStrategies.filter(strategyId => {
-      // strategyId is already a StrategyId enum value
-      const allowed = isStrategyAllowedInRegime(strategyId, regimeState.regime);
-      if (!allowed) {
-        console.log('[regime][gating][filtered_out]', JSON.stringify({
-          strategy: strategyId,
-          regime: regimeState.regime,
-          regime_enabled: regimeEnabledStrategies,
-          in_array: regimeEnabledStrategies.includes(strategyId),
-          reason: 'not_allowed_in_regime',
-        }));
-      } else {
-        console.log('[regime][gating][allowed]', JSON.stringify({
-          strategy: strategyId,
-          regime: regimeState.regime,
-        }));
-      }
-      return allowed;
-    });
-    
-    console.log('[regime][gating]', JSON.stringify({
-      regime: regimeState.regime,
-      price: regimeState.price,
-      sma20: regimeState.sma20,
-      enabled_by_regime: regimeEnabledStrategies,
-      enabled_after_gating: enabledStrategies, // StrategyId is already a string enum
-      enabled_count: enabledStrategies.length,
-    }));
+    const broker = await createBroker(env);
     
-    if (enabledStrategies.length === 0) {
-      console.log('[proposals] no enabled strategies after regime gating', JSON.stringify({
-        mode,
-        regime: regimeState.regime,
-        strategyWhitelist,
-      }));
-      return { proposal: null, candidate: null };
-    }
+    // Regime is detected per symbol (buildSymbolCandidates); strategies are gated through the mapping table
+    const { detectRegime } = await import('../core/regime');
+    const regimeStrategyMap = await getRegimeStrategyMap(env);
     
-    // [2] Validate Data Integrity - RV/IV ratio check
-    // Note: For v1, we'll need to get RV_30d and IV_30d from market data
-    // For now, we'll assume these are available or need to be computed
-    // TODO: Get actual RV_30d and IV_30d from market data source
-    const rv_30d = 0.15; // Placeholder - needs actual data
-    const iv_30d = 0.20; // Placeholder - needs actual data
+    // CRITICAL: Cache trend checks per symbol/direction to avoid duplicate API calls
+    // Strategy gates fill this cache while building candidates; scoring reuses it
+    const { checkBullishTrend, checkBearishTrend } = await import('../core/trend');
+    const trendCache = new Map<string, Awaited<ReturnType<typeof checkBullishTrend>>>();
     
-    // CRITICAL: Log RV/IV ratio check to avoid silent short-circuiting
-    const rvIvRatio = rv_30d / iv_30d;
-    const rvIvValid = isRVIVRatioValid(rv_30d, iv_30d);
-    console.log('[proposals][rv_iv_gate]', JSON.stringify({
-      rv_30d,
-      iv_30d,
-      ratio: rvIvRatio,
-      valid: rvIvValid,
+    // Live market inputs: regime from stored daily bars, rv_30d from core/realizedVol.ts,
+    // iv_30d (ATM 30-day IV) and IV rank from core/ivRank.ts
+    const sources: CandidatePipelineSources = {
+      getRegime: async (symbol, price) => {
+        const regimeState = await detectRegime(env, symbol, price, now);
+        if (regimeState.flipped) {
+          console.log('[regime][flip][detected]', JSON.stringify({
+            symbol,
+            previous: regimeState.previousRegime,
+            current: regimeState.regime,
+            price: regimeState.price,
+            composite: regimeState.factors.composite,
+            confidence: regimeState.confidence,
+            timestamp: regimeState.timestamp,
+          }));
+        }
+        return regimeState;
+      },
+      getVolatility: async symbol => {
+        const atmIv = await captureATM30DayIV(broker, symbol, now).catch(() => null);
+        const realizedVol = await getRealizedVol(env, symbol, now);
+        return {
+          rv_30d: realizedVol?.rv_30d ?? PLACEHOLDER_RV_30D,
+          rv_30d_parkinson: realizedVol?.rv_30d_parkinson ?? null,
+          iv_30d: atmIv?.iv_30d ?? PLACEHOLDER_IV_30D,
+          rv_measured: realizedVol?.rv_30d != null,
+          iv_measured: atmIv !== null,
+        };
+      },
+      getIVRank: (symbol, iv30d) => getIVRank(env, symbol, iv30d, now),
+      getTrend: async (symbol, direction, price) => {
+        const key = `${symbol}:${direction}`;
+        const cached = trendCache.get(key);
+        if (cached) {
+          return cached;
+        }
+        const trendCheck = direction === 'bullish'
+          ? await checkBullishTrend(env, symbol, price)
+          : await checkBearishTrend(env, symbol, price);
+        trendCache.set(key, trendCheck);
+        return trendCheck;
+      },
+    };
+    const pipelineParams: CandidatePipelineParams = {
       mode,
-      note: 'Using placeholder RV/IV values - consider relaxing in SANDBOX until real data is wired',
-    }));
-    
-    // In SANDBOX mode, relax the RV/IV gate to allow testing even with placeholder values
-    // In LIVE/DRY_RUN, enforce the gate strictly
-    if (!rvIvValid && mode !== 'SANDBOX_PAPER') {
-      console.log('[proposals][rv_iv_gate][rejected]', JSON.stringify({
-        rv_30d,
-        iv_30d,
-        ratio: rvIvRatio,
-        mode,
-        reason: 'RV/IV ratio invalid - entire proposal generation short-circuited',
-      }));
-      return { proposal: null, candidate: null };
-    } else if (!rvIvValid && mode === 'SANDBOX_PAPER') {
-      console.log('[proposals][rv_iv_gate][relaxed]', JSON.stringify({
-        rv_30d,
-        iv_30d,
-        ratio: rvIvRatio,
-        mode,
-        note: 'RV/IV ratio invalid but SANDBOX mode - allowing proposal generation to continue',
-      }));
-    }
+      thresholds,
+      strategies: enabledStrategies,
+      regimeStrategyMap,
+      now,
+    };
     
-    // Collect all candidates across all symbols and strategies
-    const allCandidates: RawCandidate[] = [];
-    const symbolSummaries: Array<{ symbol: string; candidateCount: number }> = [];
+    // [1-4] Per symbol: regime gating, RV/IV gate, expirations and raw candidates
+    const symbolResults: SymbolCandidates[] = [];
     const allExpirations: Array<{ expiration: string; dte: number }> = [];
-    
-    // CRITICAL: Pre-compute trend checks per symbol to avoid duplicate API calls
-    // This cache will be reused in scoring phase for debit spreads
-    const { checkBullishTrend, checkBearishTrend } = await import('../core/trend');
-    const trendCache = new Map<string, { bullish?: Awaited<ReturnType<typeof checkBullishTrend>>; bearish?: Awaited<ReturnType<typeof checkBearishTrend>> }>();
-    
-    // Loop through each symbol
     for (const symbol of symbols) {
-      try {
-        // [1] Load Market State for this symbol
-        const underlyingQuote = await broker.getUnderlyingQuote(symbol);
-        
-        // Validate underlying data
-        if (!underlyingQuote.bid || !underlyingQuote.ask || !underlyingQuote.last) {
-          console.log(`[proposals] skipping ${symbol}: missing underlying quote data`);
-          continue;
-        }
-        
-        // [3] Select Eligible Expirations (using mode-specific DTE window)
-        const eligibleExpirations = await getEligibleExpirations(broker, symbol, now, minDte, maxDte);
-        
-        // Track expirations for summary
-        for (const exp of eligibleExpirations) {
-          if (!allExpirations.find(e => e.expiration === exp.expiration)) {
-            allExpirations.push(exp);
-          }
-        }
-        
-        if (eligibleExpirations.length === 0) {
-          console.log(`[proposals] ${symbol}: no eligible expirations`);
-          continue;
-        }
-        
-        // Cache regime and trend checks per symbol to avoid repeated API calls
-        // Regime check for BEAR_CALL_CREDIT (reuse if already computed for primarySymbol)
-        let cachedRegimeState = symbol === primarySymbol ? regimeState : null;
-        if (!cachedRegimeState) {
-          const { detectRegime } = await import('../core/regime');
-          cachedRegimeState = await detectRegime(env, symbol, underlyingQuote.last);
-        }
-        
-        // Cache trend checks per symbol (used for debit spreads)
-        // CRITICAL: Pre-compute trend checks once per symbol to avoid duplicate API calls
-        // These will be reused in scoring phase for debit spreads
-        let cachedBullishTrend: Awaited<ReturnType<typeof checkBullishTrend>> | null = null;
-        let cachedBearishTrend: Awaited<ReturnType<typeof checkBearishTrend>> | null = null;
-        
-        // [4] Build Raw Candidates for all enabled strategies
-        // Fetch each chain once per expiration and build candidates for all strategies
-        let symbolCandidateCount = 0;
-        
-        for (const { expiration, dte } of eligibleExpirations) {
-          try {
-            // Fetch chain once per expiration
-            const chain = await broker.getOptionChain(symbol, expiration);
-            
-            // Build candidates for each enabled strategy
-            for (const strategyId of enabledStrategies) {
-              const config = getStrategyConfig(strategyId);
-              
-              // Check if this symbol is enabled for this strategy
-              if (!config.symbols.includes(symbol)) {
-                continue;
-              }
-              
-              let strategyCandidates: RawCandidate[] = [];
-              
-              if (strategyId === StrategyId.BULL_PUT_CREDIT) {
-                const verticalCandidates = buildBullPutCreditCandidates(config, chain, underlyingQuote, dte);
-                strategyCandidates = verticalCandidates.map(vc => ({
-                  symbol: vc.symbol,
-                  expiration: vc.expiration,
-                  short_strike: vc.short_strike,
-                  long_strike: vc.long_strike,
-                  width: vc.width,
-                  credit: vc.credit,
-                  strategy: 'BULL_PUT_CREDIT' as const,
-                  short_put: vc.short_put,
-                  long_put: vc.long_put,
-                  dte: vc.dte,
-                }));
-                
-                if (strategyCandidates.length > 0) {
-                  console.log('[strategy][bull_put_credit][candidates]', JSON.stringify({
-                    symbol,
-                    expiration,
-                    candidateCount: strategyCandidates.length,
-                  }));
-                }
-              } else if (strategyId === StrategyId.BEAR_CALL_CREDIT) {
-                // Apply softer directional gating for BEAR_CALL_CREDIT
-                // Compute shortTermBias from price vs SMA (0 = strongly bullish, 1 = strongly bearish)
-                // Use cached regime state to avoid repeated API calls
-                let shortTermBias = 0.5; // Default neutral
-                if (cachedRegimeState && cachedRegimeState.sma20 !== null) {
-                  const priceVsSMA = (underlyingQuote.last - cachedRegimeState.sma20) / cachedRegimeState.sma20;
-                  // shortTermBias: 1.0 if price << SMA (bearish), 0.0 if price >> SMA (bullish)
-                  shortTermBias = Math.max(0, Math.min(1, 0.5 - (priceVsSMA / 0.04)));
-                }
-                // CRITICAL FIX: Bear call credit spreads benefit from bearish/neutral trends, not bullish
-                // We want to avoid very bullish environments (shortTermBias << 0.5) where calls are expensive
-                // Allow if shortTermBias >= 0.40 (neutral-to-bearish trends are favorable)
-                // Reject if shortTermBias < 0.40 (too bullish - calls are expensive, not good for bear call credit)
-                if (shortTermBias < 0.40) {
-                  console.log('[strategy][bear_call_credit][bias_reject]', JSON.stringify({
-                    symbol,
-                    expiration,
-                    shortTermBias,
-                    reason: `Short-term bias ${shortTermBias.toFixed(3)} < 0.40 (too bullish - calls are expensive, not favorable for bear call credit)`,
-                  }));
-                  continue;
-                }
-                console.log('[strategy-gate]', JSON.stringify({
-                  strategy: 'BEAR_CALL_CREDIT',
-                  allowed: true,
-                  shortTermBias,
-                  symbol,
-                  expiration,
-                }));
-                
-                const verticalCandidates = buildBearCallCreditCandidates(config, chain, underlyingQuote, dte);
-                strategyCandidates = verticalCandidates.map(vc => ({
-                  symbol: vc.symbol,
-                  expiration: vc.expiration,
-                  short_strike: vc.short_strike,
-                  long_strike: vc.long_strike,
-                  width: vc.width,
-                  credit: vc.credit,
-                  strategy: 'BEAR_CALL_CREDIT' as const,
-                  short_call: vc.short_call,
-                  long_call: vc.long_call,
-                  dte: vc.dte,
-                }));
-                
-                if (strategyCandidates.length > 0) {
-                  console.log('[strategy][bear_call_credit][candidates]', JSON.stringify({
-                    symbol,
-                    expiration,
-                    candidateCount: strategyCandidates.length,
-                  }));
-                }
-              } else if (strategyId === StrategyId.BULL_CALL_DEBIT) {
-                // Apply trend filter for bullish strategies (softer gating)
-                // Use cached trend check to avoid repeated API calls
-                if (!cachedBullishTrend) {
-                  cachedBullishTrend = await checkBullishTrend(env, symbol, underlyingQuote.last);
-                  // Store in cache for reuse in scoring phase
-                  if (!trendCache.has(symbol)) {
-                    trendCache.set(symbol, {});
-                  }
-                  trendCache.get(symbol)!.bullish = cachedBullishTrend;
-                }
-                const trendCheck = cachedBullishTrend;
-                // Allow if trendScore >= 0.35 (neutral-to-mild bullish)
-                if (trendCheck.trendScore < 0.35) {
-                  console.log('[strategy][bull_call_debit][trend_reject]', JSON.stringify({
-                    symbol,
-                    expiration,
-                    trendScore: trendCheck.trendScore,
-                    reason: trendCheck.reason || `Trend score ${trendCheck.trendScore.toFixed(3)} < 0.35`,
-                  }));
-                  continue;
-                }
-                console.log('[strategy-gate]', JSON.stringify({
-                  strategy: 'BULL_CALL_DEBIT',
-                  allowed: true,
-                  trendScore: trendCheck.trendScore,
-                  symbol,
-                  expiration,
-                }));
-                
-                const debitCandidates = buildBullCallDebitCandidates(config, chain, underlyingQuote, dte);
-                strategyCandidates = debitCandidates.map(dc => ({
-                  symbol: dc.symbol,
-                  expiration: dc.expiration,
-                  short_strike: dc.short_strike,
-                  long_strike: dc.long_strike,
-                  width: dc.width,
-                  credit: -dc.debit, // Store as negative credit for debit spreads
-                  strategy: 'BULL_CALL_DEBIT' as const,
-                  short_call: dc.short_call,
-                  long_call: dc.long_call,
-                  dte: dc.dte,
-                  debit: dc.debit, // Store debit separately
-                }));
-                
-                if (strategyCandidates.length > 0) {
-                  console.log('[strategy][bull_call_debit][candidates]', JSON.stringify({
-                    symbol,
-                    expiration,
-                    candidateCount: strategyCandidates.length,
-                  }));
-                }
-              } else if (strategyId === StrategyId.BEAR_PUT_DEBIT) {
-                // Apply bearish trend filter (softer gating)
-                // Use cached trend check to avoid repeated API calls
-                if (!cachedBearishTrend) {
-                  cachedBearishTrend = await checkBearishTrend(env, symbol, underlyingQuote.last);
-                  // Store in cache for reuse in scoring phase
-                  if (!trendCache.has(symbol)) {
-                    trendCache.set(symbol, {});
-                  }
-                  trendCache.get(symbol)!.bearish = cachedBearishTrend;
-                }
-                const trendCheck = cachedBearishTrend;
-                // Allow if trendScore >= 0.35 (neutral-to-mild bearish)
-                if (trendCheck.trendScore < 0.35) {
-                  console.log('[strategy][bear_put_debit][trend_reject]', JSON.stringify({
-                    symbol,
-                    expiration,
-                    trendScore: trendCheck.trendScore,
-                    reason: trendCheck.reason || `Trend score ${trendCheck.trendScore.toFixed(3)} < 0.35`,
-                  }));
-                  continue;
-                }
-                console.log('[strategy-gate]', JSON.stringify({
-                  strategy: 'BEAR_PUT_DEBIT',
-                  allowed: true,
-                  trendScore: trendCheck.trendScore,
-                  symbol,
-                  expiration,
-                }));
-                
-                const debitCandidates = buildBearPutDebitCandidates(config, chain, underlyingQuote, dte);
-                strategyCandidates = debitCandidates.map(dc => ({
-                  symbol: dc.symbol,
-                  expiration: dc.expiration,
-                  short_strike: dc.short_strike,
-                  long_strike: dc.long_strike,
-                  width: dc.width,
-                  credit: -dc.debit, // Store as negative credit for debit spreads
-                  strategy: 'BEAR_PUT_DEBIT' as const,
-                  short_put: dc.short_put,
-                  long_put: dc.long_put,
-                  dte: dc.dte,
-                  debit: dc.debit, // Store debit separately
-                }));
-                
-                if (strategyCandidates.length > 0) {
-                  console.log('[strategy][bear_put_debit][candidates]', JSON.stringify({
-                    symbol,
-                    expiration,
-                    candidateCount: strategyCandidates.length,
-                  }));
-                }
-              }
-              
-              allCandidates.push(...strategyCandidates);
-              symbolCandidateCount += strategyCandidates.length;
-            }
-          } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : String(error);
-            console.log(`[proposals] error building candidates for ${symbol} ${expiration}: ${errorMsg}`);
-            continue;
-          }
-        }
-        
-        symbolSummaries.push({ symbol, candidateCount: symbolCandidateCount });
-        
-        if (symbolCandidateCount > 0) {
-          console.log(`[proposals] ${symbol}: built ${symbolCandidateCount} candidates`);
+      const result = await buildSymbolCandidates(broker, symbol, sources, pipelineParams);
+      if (!result) {
+        continue;
+      }
+      symbolResults.push(result);
+      
+      // Track expirations for summary
+      for (const exp of result.expirations) {
+        if (!allExpirations.find(e => e.expiration === exp.expiration)) {
+          allExpirations.push(exp);
         }
-      } catch (symbolError) {
-        console.error(`[proposals] error processing ${symbol}:`, symbolError instanceof Error ? symbolError.message : String(symbolError));
-        continue; // Continue with next symbol
       }
     }
+    const symbolSummaries = symbolResults.map(r => ({ symbol: r.symbol, candidateCount: r.candidates.length }));
+    
+    // Per-symbol volatility (sizing) and underlying price (delta band preference at selection)
+    const volBySymbol = new Map(symbolResults.map(r => [r.symbol, r.volatility]));
+    const priceBySymbol = new Map(symbolResults.map(r => [r.symbol, r.price]));
+    
+    const candidates = symbolResults.flatMap(r => r.candidates);
     
     // If no candidates from any symbol, return early
-    if (allCandidates.length === 0) {
+    if (candidates.length === 0) {
       const summaryJson = JSON.stringify({
         symbols: symbolSummaries.map(s => s.symbol),
         candidateCount: 0,
@@ -537,15 +281,6 @@ export async function generateProposal(
       return { proposal: null, candidate: null };
     }
     
-    const candidates = allCandidates;
-    
-    // [5-7] Apply Filters, Compute Metrics, Score
-    const scoredCandidates: ProposalCandidate[] = [];
-    const allScoredCandidates: Array<{ score: number; expiration: string }> = []; // Track all scores for logging
-    const allScoredCandidatesWithStrategy: Array<{ strategy: string; score: number }> = []; // Track all scored candidates with strategy for counting
-    const filterRejections: Record<string, number> = {}; // Track which pre-scoring filters reject candidates
-    const scoringRejections: Record<string, number> = {}; // Track which HARD_FILTERs fire inside scoring
-    
     console.log('[proposals] scoring_candidates', JSON.stringify({
       symbols: symbolSummaries.map(s => s.symbol),
       mode,
@@ -553,282 +288,11 @@ export async function generateProposal(
       symbolBreakdown: symbolSummaries,
     }));
     
-    for (const candidate of candidates) {
-      // Log scoring attempt
-      console.log('[strategy] candidate_score_attempt', JSON.stringify({
-        symbol: candidate.symbol,
-        expiration: candidate.expiration,
-        shortStrike: candidate.short_strike,
-        longStrike: candidate.long_strike,
-        width: candidate.width,
-        credit: candidate.credit,
-        mode,
-      }));
-      
-      try {
-        // Apply hard filters (with mode-specific credit requirement)
-        const filterResult = passesHardFiltersWithReason(candidate, rv_30d, iv_30d, minCreditFraction, mode);
-        if (!filterResult.passed) {
-          const reason = filterResult.reason || 'UNKNOWN_FILTER_FAILURE';
-          filterRejections[reason] = (filterRejections[reason] || 0) + 1;
-          const requiredCredit = candidate.width * minCreditFraction;
-          console.log(`[proposals] candidate_rejected: ${reason}`, JSON.stringify({
-            symbol: candidate.symbol,
-            expiration: candidate.expiration,
-            shortStrike: candidate.short_strike,
-            longStrike: candidate.long_strike,
-            width: candidate.width,
-            credit: candidate.credit,
-            min_credit_required: requiredCredit,
-            reason,
-          }));
-          continue;
-        }
-        
-        // Compute metrics
-        let metrics: any;
-        let scoring: any;
-        let effectiveScore: number | null = null;
-        
-        try {
-          // Require core data before computing metrics (handle PUT, CALL, and debit spreads)
-          // BULL_PUT_CREDIT and BEAR_PUT_DEBIT use puts; BEAR_CALL_CREDIT and BULL_CALL_DEBIT use calls
-          const shortOption = (candidate.strategy === 'BULL_PUT_CREDIT' || candidate.strategy === 'BEAR_PUT_DEBIT')
-            ? candidate.short_put 
-            : candidate.short_call;
-          const longOption = (candidate.strategy === 'BULL_PUT_CREDIT' || candidate.strategy === 'BEAR_PUT_DEBIT')
-            ? candidate.long_put
-            : candidate.long_call;
-
-          const hasRequiredData =
-            shortOption?.delta != null &&
-            shortOption?.implied_volatility != null &&
-            longOption?.implied_volatility != null;
-
-          if (!hasRequiredData) {
-            console.log('[strategy] candidate_score_skip', JSON.stringify({
-              symbol: candidate.symbol,
-              expiration: candidate.expiration,
-              shortStrike: candidate.short_strike,
-              longStrike: candidate.long_strike,
-              credit: candidate.credit,
-              strategy: candidate.strategy,
-              reason: 'MISSING_REQUIRED_DATA',
-              hasDelta: shortOption?.delta != null,
-              hasShortIv: shortOption?.implied_volatility != null,
-              hasLongIv: longOption?.implied_volatility != null,
-              mode,
-            }));
-            continue;
-          }
-
-          // Use different scoring for debit spreads
-          if (candidate.strategy === 'BULL_CALL_DEBIT' || candidate.strategy === 'BEAR_PUT_DEBIT') {
-            const { scoreDebitCandidate } = await import('../core/scoring');
-            
-            // OPTIMIZATION: Reuse cached trend checks from candidate building phase
-            // This avoids duplicate broker.getUnderlyingQuote + trend API calls
-            let trendScore: number;
-            const cachedTrend = trendCache.get(candidate.symbol);
-            if (candidate.strategy === 'BULL_CALL_DEBIT' && cachedTrend?.bullish) {
-              trendScore = cachedTrend.bullish.trendScore;
-            } else if (candidate.strategy === 'BEAR_PUT_DEBIT' && cachedTrend?.bearish) {
-              trendScore = cachedTrend.bearish.trendScore;
-            } else {
-              // Fallback: if cache miss (shouldn't happen), fetch fresh
-              const { checkBullishTrend, checkBearishTrend } = await import('../core/trend');
-              const underlyingQuoteForTrend = await broker.getUnderlyingQuote(candidate.symbol);
-              const trendCheck = candidate.strategy === 'BULL_CALL_DEBIT'
-                ? await checkBullishTrend(env, candidate.symbol, underlyingQuoteForTrend.last)
-                : await checkBearishTrend(env, candidate.symbol, underlyingQuoteForTrend.last);
-              trendScore = trendCheck.trendScore;
-              // Cache for future use
-              if (!trendCache.has(candidate.symbol)) {
-                trendCache.set(candidate.symbol, {});
-              }
-              if (candidate.strategy === 'BULL_CALL_DEBIT') {
-                trendCache.get(candidate.symbol)!.bullish = trendCheck;
-              } else {
-                trendCache.get(candidate.symbol)!.bearish = trendCheck;
-              }
-            }
-            
-            // Compute metrics for debit spread
-            // NOTE: metrics.credit will be negative for debit spreads, but scoreDebitCandidate
-            // uses opts.debit (passed explicitly) and does NOT rely on metrics.credit being positive
-            metrics = computeCandidateMetrics(candidate, rv_30d, iv_30d);
-            
-            // Debug logging before scoring
-            console.log('[strategy-gate]', JSON.stringify({
-              strategy: candidate.strategy,
-              allowed: true,
-              trendScore,
-              ivr: metrics.ivr,
-              minScore,
-              symbol: candidate.symbol,
-              expiration: candidate.expiration,
-            }));
-            
-            scoring = scoreDebitCandidate(metrics, {
-              mode,
-              trendScore,
-              debit: candidate.debit ?? Math.abs(candidate.credit), // Use explicit debit, not metrics.credit
-              width: candidate.width,
-            });
-            effectiveScore = scoring.composite_score;
-          } else {
-            metrics = computeCandidateMetrics(candidate, rv_30d, iv_30d);
-            
-            // Debug logging before scoring
-            console.log('[strategy-gate]', JSON.stringify({
-              strategy: candidate.strategy,
-              allowed: true,
-              ivr: metrics.ivr,
-              minScore,
-              symbol: candidate.symbol,
-              expiration: candidate.expiration,
-            }));
-            
-            scoring = scoreCandidate(metrics, { minCreditFraction, mode });
-            effectiveScore = scoring.composite_score;
-          }
-        } catch (metricsError) {
-          const msg = metricsError instanceof Error ? metricsError.message : String(metricsError);
-          // If this came from a HARD_FILTER inside scoreCandidate, bucket by reason
-          const hardMatch = msg.startsWith('HARD_FILTER: ')
-            ? msg.replace('HARD_FILTER: ', '')
-            : null;
-          if (hardMatch) {
-            scoringRejections[hardMatch] = (scoringRejections[hardMatch] || 0) + 1;
-          }
-          console.log('[strategy] candidate_score_skip', JSON.stringify({
-            symbol: candidate.symbol,
-            expiration: candidate.expiration,
-            shortStrike: candidate.short_strike,
-            longStrike: candidate.long_strike,
-            credit: candidate.credit,
-            reason: hardMatch ? `HARD_FILTER_${hardMatch}` : 'METRICS_OR_SCORING_ERROR',
-            error: msg,
-            mode,
-          }));
-          effectiveScore = null;
-        }
-
-        if (effectiveScore == null || Number.isNaN(effectiveScore) || !Number.isFinite(effectiveScore)) {
-          // Not SANDBOX and score is invalid - skip
-          console.log('[strategy] candidate_score_skip', JSON.stringify({
-            symbol: candidate.symbol,
-            expiration: candidate.expiration,
-            shortStrike: candidate.short_strike,
-            longStrike: candidate.long_strike,
-            credit: candidate.credit,
-            reason: 'SCORE_INVALID_AND_NOT_SANDBOX',
-            mode,
-          }));
-          continue;
-        }
-        
-        // Log scoring result
-        const strategyLogKey =
-          candidate.strategy === 'BULL_PUT_CREDIT'
-            ? '[strategy][bull_put_credit][score]'
-            : candidate.strategy === 'BEAR_CALL_CREDIT'
-            ? '[strategy][bear_call_credit][score]'
-            : candidate.strategy === 'BULL_CALL_DEBIT'
-            ? '[strategy][bull_call_debit][score]'
-            : '[strategy][bear_put_debit][score]';
-        console.log(strategyLogKey, JSON.stringify({
-          symbol: candidate.symbol,
-          expiration: candidate.expiration,
-          shortStrike: candidate.short_strike,
-          longStrike: candidate.long_strike,
-          credit: candidate.credit,
-          rawScore: effectiveScore,
-          mode,
-        }));
-        
-        // At this point, effectiveScore should be valid (either from normal scoring or SANDBOX fallback)
-        
-        // Track all scored candidates (even if below threshold)
-        allScoredCandidates.push({
-          score: effectiveScore,
-          expiration: candidate.expiration,
-        });
-        allScoredCandidatesWithStrategy.push({
-          strategy: candidate.strategy,
-          score: effectiveScore,
-        });
-        
-        // Check threshold using mode-specific minScore (no sandbox bypass)
-        // Normalize minScore: if > 1, treat as percentage (70 -> 0.70), otherwise use as-is (0.70 -> 0.70)
-        // In SANDBOX_PAPER, all strategies use the same threshold (70%)
-        let rawMinScore = minScore;
-        if (mode === 'SANDBOX_PAPER' && (candidate.strategy === 'BULL_CALL_DEBIT' || candidate.strategy === 'BEAR_PUT_DEBIT')) {
-          rawMinScore = 70; // Normalize debit spreads to 70% in PAPER mode
-        }
-        const effectiveMinScore = rawMinScore > 1 ? rawMinScore / 100 : rawMinScore;
-        const requiredCredit = candidate.width * minCreditFraction;
-        
-        // Only log score rejections for near-miss trades (credit passes but score fails)
-        if (effectiveScore < effectiveMinScore) {
-          // Log near-miss trades (credit >= requiredCredit but score < threshold)
-          if (candidate.credit >= requiredCredit) {
-            console.log('[scoring][filtered_out]', JSON.stringify({
-              symbol: candidate.symbol,
-              expiration: candidate.expiration,
-              shortStrike: candidate.short_strike,
-              longStrike: candidate.long_strike,
-              score: effectiveScore,
-              minScore: effectiveMinScore,
-              credit: candidate.credit,
-              requiredCredit: requiredCredit,
-              reason: 'SCORE_BELOW_MINIMUM',
-              mode,
-            }));
-          }
-          // Also log the standard rejection format for all score failures
-          console.log('[proposals] candidate_rejected: SCORE_BELOW_MINIMUM', JSON.stringify({
-            symbol: candidate.symbol,
-            expiration: candidate.expiration,
-            shortStrike: candidate.short_strike,
-            longStrike: candidate.long_strike,
-            credit: candidate.credit,
-            score: effectiveScore,
-            min_score_required: effectiveMinScore,
-            mode,
-          }));
-          continue;
-        }
-        
-        scoredCandidates.push({
-          symbol: candidate.symbol,
-          expiration: candidate.expiration,
-          short_strike: candidate.short_strike,
-          long_strike: candidate.long_strike,
-          width: candidate.width,
-          credit: candidate.credit,
-          strategy: candidate.strategy,
-          metrics,
-          scoring: {
-            ...scoring,
-            composite_score: effectiveScore,
-          },
-        });
-      } catch (error) {
-        // Candidate rejected - log and continue
-        console.log('[strategy] candidate_score_skip', JSON.stringify({
-          symbol: candidate.symbol,
-          expiration: candidate.expiration,
-          shortStrike: candidate.short_strike,
-          longStrike: candidate.long_strike,
-          credit: candidate.credit,
-          reason: 'UNEXPECTED_ERROR',
-          error: error instanceof Error ? error.message : String(error),
-          mode,
-        }));
-        continue;
-      }
-    }
+    // [5-8] Apply Filters, Compute Metrics, Score, per-candidate score threshold
+    const scoring = await scoreSymbolCandidates(symbolResults, sources, pipelineParams);
+    const scoredCandidates = scoring.accepted.map(a => a.candidate);
+    const allScoredCandidates = scoring.scores; // Every scored candidate, including those below minScore
+    const { filterRejections, scoringRejections } = scoring;
     
     // [9] Select Highest-Scoring Candidate
     // Use credit requirement from strategy thresholds (same across modes)
@@ -840,55 +304,57 @@ export async function generateProposal(
     const effectiveMinScore = minScore > 1 ? minScore / 100 : minScore;
     
     // Separate candidates that pass all rules vs those that don't
-    const passing = scoredCandidates.filter(c => {
-      const scorePasses = c.scoring.composite_score >= effectiveMinScore;
-      
-      // For debit spreads, check debit range (0.80 <= debit <= 2.50)
-      // For credit spreads, check credit >= requiredCredit
-      const isDebitSpread = c.strategy === 'BULL_CALL_DEBIT' || c.strategy === 'BEAR_PUT_DEBIT';
-      let creditDebitPasses: boolean;
-      
-      if (isDebitSpread) {
-        const debit = Math.abs(c.credit);
-        creditDebitPasses = debit >= 0.80 && debit <= 2.50;
-      } else {
-        creditDebitPasses = c.credit >= requiredCredit;
-      }
-      
-      return scorePasses && creditDebitPasses;
-    });
+    const passing = scoredCandidates.filter(c => passesSelectionRules(c, effectiveMinScore, requiredCredit));
     
     // [9.5] Portfolio Net Credit Check - ensure we stay net-credit after this trade
     // Filter out candidates that would make portfolio net-debit
     const portfolioFiltered = await filterByPortfolioNetCredit(env, passing);
     
     // Sort all scored candidates by score (for fallback)
-    const allScoredSorted = [...scoredCandidates].sort((a, b) => {
-      if (b.scoring.composite_score !== a.scoring.composite_score) {
-        return b.scoring.composite_score - a.scoring.composite_score;
-      }
-      if (b.scoring.ev !== a.scoring.ev) {
-        return b.scoring.ev - a.scoring.ev;
-      }
-      return b.credit - a.credit;
-    });
+    const allScoredSorted = [...scoredCandidates].sort(compareScoredCandidates);
     
-    let chosen: ProposalCandidate | null = null;
+    let chosen: ScoredCandidate | null = null;
+    let sizing: SizingDecision | null = null;
+    let sizedToZeroCount = 0;
     let reason: string = 'NO_CANDIDATES_PASSED_FILTERS';
     
+    // Quantity from the sizing engine (DEFAULT_TRADE_QUANTITY unless SIZING_MODE=RISK_BUDGET);
+    // the delta band ranking uses the quantity each candidate would be sized to
+    const sizer = await loadProposalSizer(env, now);
+    const sizingCandidate = (candidate: ScoredCandidate): SizingCandidate => {
+      const isDebitCandidate = isDebitStrategy(candidate.strategy);
+      const volatility = volBySymbol.get(candidate.symbol);
+      return {
+        maxLossPerSpread: isDebitCandidate ? Math.abs(candidate.credit) : candidate.width - candidate.credit,
+        isDebit: isDebitCandidate,
+        iv: volatility?.iv_measured ? volatility.iv_30d : null,
+        score: candidate.scoring.composite_score,
+      };
+    };
+    
     if (portfolioFiltered.length > 0) {
       // Normal path: candidates that pass all rules including portfolio net credit
-      portfolioFiltered.sort((a, b) => {
-        if (b.scoring.composite_score !== a.scoring.composite_score) {
-          return b.scoring.composite_score - a.scoring.composite_score;
-        }
-        if (b.scoring.ev !== a.scoring.ev) {
-          return b.scoring.ev - a.scoring.ev;
+      // [9.6] Ranked by score, with candidates moving the book toward the target delta band first
+      const ranked = await rankByDeltaBand(env, broker, portfolioFiltered, priceBySymbol, now, candidate =>
+        sizer(sizingCandidate(candidate)).quantity
+      );
+      // [9.7] Take the best-ranked candidate the sizer gives at least one spread
+      for (const candidate of ranked) {
+        const candidateSizing = sizer(sizingCandidate(candidate));
+        if (candidateSizing.quantity >= 1) {
+          chosen = candidate;
+          sizing = candidateSizing;
+          break;
         }
-        return b.credit - a.credit;
-      });
-      chosen = portfolioFiltered[0];
-      reason = 'NORMAL_RULES_PASSED';
+        sizedToZeroCount++;
+        console.log('[proposals] sized-to-zero', JSON.stringify({
+          symbol: candidate.symbol,
+          strategy: candidate.strategy,
+          expiration: candidate.expiration,
+          sizing: candidateSizing,
+        }));
+      }
+      reason = chosen ? 'NORMAL_RULES_PASSED' : 'SIZED_TO_ZERO';
     } else if (passing.length > 0) {
       // Had candidates but portfolio net credit check filtered them all
       reason = 'PORTFOLIO_NET_DEBIT_BLOCKED';
@@ -928,17 +394,12 @@ export async function generateProposal(
     }
 
     // Count candidates by strategy (all scored candidates, not just those passing threshold)
-    const countBullPut = allScoredCandidatesWithStrategy.filter(c => c.strategy === 'BULL_PUT_CREDIT').length;
-    const countBearCall = allScoredCandidatesWithStrategy.filter(c => c.strategy === 'BEAR_CALL_CREDIT').length;
-    const countBullCallDebit = allScoredCandidatesWithStrategy.filter(c => c.strategy === 'BULL_CALL_DEBIT').length;
-    const countBearPutDebit = allScoredCandidatesWithStrategy.filter(c => c.strategy === 'BEAR_PUT_DEBIT').length;
+    const strategyCounts: Record<string, number> = {};
+    for (const plugin of getRegisteredStrategies()) {
+      strategyCounts[plugin.id] = allScoredCandidates.filter(c => c.strategy === plugin.id).length;
+    }
     
-    console.log('[post-change-strategy-counts]', JSON.stringify({
-      BULL_PUT_CREDIT: countBullPut,
-      BEAR_CALL_CREDIT: countBearCall,
-      BULL_CALL_DEBIT: countBullCallDebit,
-      BEAR_PUT_DEBIT: countBearPutDebit,
-    }));
+    console.log('[post-change-strategy-counts]', JSON.stringify(strategyCounts));
 
     console.log(
       '[scoring] distribution',
@@ -953,166 +414,978 @@ export async function generateProposal(
       }),
     );
 
-    const summaryJson = JSON.stringify({
-      symbols: symbolSummaries.map(s => s.symbol),
-      symbolBreakdown: symbolSummaries,
-      candidateCount: candidates.length,
-      scoredCount: allScoredCandidates.length,
-      passingCount: passing.length,
-      bestScore,
-      minScoreThreshold: effectiveMinScore, // Show the mode-adjusted threshold
-      minCreditFraction: effectiveCreditFraction, // Show the mode-adjusted fraction
-      requiredCredit, // Show the actual required credit (WIDTH * effectiveCreditFraction)
-      dteWindow: { minDte, maxDte },
-      expirationsConsidered: allExpirations.map((e: { expiration: string; dte: number }) => ({ expiration: e.expiration, dte: e.dte })),
-      chosenExpiration: chosen?.expiration ?? null,
-      chosenScore: chosen?.scoring.composite_score ?? null,
-      chosenCredit: chosen?.credit ?? null,
-      filterRejections, // Show which filters rejected candidates
-       scoringRejections, // HARD_FILTER reasons from scoring
-       scoreHistogram: histogramBuckets,
+    const summaryJson = JSON.stringify({
+      symbols: symbolSummaries.map(s => s.symbol),
+      symbolBreakdown: symbolSummaries,
+      candidateCount: candidates.length,
+      scoredCount: allScoredCandidates.length,
+      passingCount: passing.length,
+      bestScore,
+      minScoreThreshold: effectiveMinScore, // Show the mode-adjusted threshold
+      minCreditFraction: effectiveCreditFraction, // Show the mode-adjusted fraction
+      requiredCredit, // Show the actual required credit (WIDTH * effectiveCreditFraction)
+      dteWindow: { minDte, maxDte },
+      expirationsConsidered: allExpirations.map((e: { expiration: string; dte: number }) => ({ expiration: e.expiration, dte: e.dte })),
+      chosenExpiration: chosen?.expiration ?? null,
+      chosenScore: chosen?.scoring.composite_score ?? null,
+      chosenCredit: chosen?.credit ?? null,
+      chosenQuantity: sizing?.quantity ?? null,
+      sizedToZeroCount, // Ranked candidates skipped because they sized to 0 spreads
+      filterRejections, // Show which filters rejected candidates
+       scoringRejections, // HARD_FILTER reasons from scoring
+       scoreHistogram: histogramBuckets,
+      mode,
+      reason,
+    });
+    console.log('[proposals] summary', summaryJson);
+    // Store in DB for UI visibility
+    await insertSystemLog(env, 'proposals', '[proposals] summary', summaryJson).catch(() => {}); // Non-blocking
+
+    if (!chosen || !sizing) {
+      console.log('[proposals] no-trade-summary', JSON.stringify({
+        reason,
+        totalCandidatesBuilt: candidates.length,
+        passedHardFilters: candidates.length - Object.values(filterRejections).reduce((a, b) => a + b, 0),
+        passedScoring: passing.length,
+        bestScore,
+        minScoreRequired: effectiveMinScore,
+        expirationsConsidered: allExpirations.map((e: { expiration: string; dte: number }) => ({ expiration: e.expiration, dte: e.dte })),
+      }));
+      return { proposal: null, candidate: null };
+    }
+    
+    const bestCandidate = chosen;
+    
+    // [10] Persist Proposal
+    const chosenVolatility = volBySymbol.get(bestCandidate.symbol);
+    if (sizing.mode === 'RISK_BUDGET') {
+      console.log('[sizing] decision', JSON.stringify(sizing));
+    }
+    const proposal: Omit<ProposalRow, 'created_at'> = {
+      id: crypto.randomUUID(),
+      symbol: bestCandidate.symbol,
+      expiration: bestCandidate.expiration,
+      short_strike: bestCandidate.short_strike,
+      long_strike: bestCandidate.long_strike,
+      width: bestCandidate.width,
+      quantity: sizing.quantity,
+      strategy: bestCandidate.strategy,
+      credit_target: bestCandidate.credit,
+      score: bestCandidate.scoring.composite_score,
+      ivr_score: bestCandidate.scoring.ivr_score,
+      vertical_skew_score: bestCandidate.scoring.vertical_skew_score,
+      term_structure_score: bestCandidate.scoring.term_structure_score,
+      delta_fitness_score: bestCandidate.scoring.delta_fitness_score,
+      ev_score: bestCandidate.scoring.ev_score,
+      status: 'READY',
+      // Placeholder values are not real measurements - store null
+      rv_30d: chosenVolatility?.rv_measured ? chosenVolatility.rv_30d : null,
+      rv_30d_parkinson: chosenVolatility?.rv_30d_parkinson ?? null,
+      iv_30d: chosenVolatility?.iv_measured ? chosenVolatility.iv_30d : null,
+      call_short_strike: bestCandidate.call_short_strike ?? null,
+      call_long_strike: bestCandidate.call_long_strike ?? null,
+      long_expiration: bestCandidate.long_expiration ?? null,
+      sizing: JSON.stringify(sizing),
+    };
+    
+    // CRITICAL: Log proposal creation with strategy before persisting
+    console.log('[proposals] creating_proposal', JSON.stringify({
+      proposal_id: proposal.id,
+      symbol: proposal.symbol,
+      strategy: proposal.strategy,
+      expiration: proposal.expiration,
+      short_strike: proposal.short_strike,
+      long_strike: proposal.long_strike,
+      call_short_strike: proposal.call_short_strike,
+      call_long_strike: proposal.call_long_strike,
+      long_expiration: proposal.long_expiration,
+      credit_target: proposal.credit_target,
+      score: proposal.score,
+      quantity: proposal.quantity,
+      sizing_binding: sizing.binding,
+      candidate_strategy: bestCandidate.strategy,
+      strategy_match: proposal.strategy === bestCandidate.strategy,
+      note: 'Strategy must match candidate strategy exactly',
+    }));
+    
+    const persistedProposal = await insertProposal(env, proposal);
+    
+    // CRITICAL: Verify strategy was persisted correctly
+    if (persistedProposal.strategy !== proposal.strategy) {
+      console.error('[proposals] CRITICAL: Strategy mismatch after persistence', JSON.stringify({
+        proposal_id: persistedProposal.id,
+        expected_strategy: proposal.strategy,
+        persisted_strategy: persistedProposal.strategy,
+        error: 'Strategy changed during persistence - this should never happen',
+      }));
+    }
+    
+    console.log('[proposals] proposal_created', JSON.stringify({
+      proposal_id: persistedProposal.id,
+      symbol: persistedProposal.symbol,
+      strategy: persistedProposal.strategy,
+      expiration: persistedProposal.expiration,
+      score: persistedProposal.score,
+      credit_target: persistedProposal.credit_target,
+      status: persistedProposal.status,
+      note: 'Proposal created successfully - strategy is immutable',
+    }));
+    
+    const tradingMode = await getTradingMode(env);
+    await notifyProposalCreated(env, tradingMode, persistedProposal);
+    
+    return {
+      proposal: persistedProposal,
+      candidate: bestCandidate,
+    };
+  } catch (error) {
+    // Any error = no proposal
+    // Get thresholds for logging even on error
+    const thresholds = await getStrategyThresholds(env).catch(() => ({
+      minScore: 0.70,
+      minCreditFraction: 0.18,
+      minDte: 28,
+      maxDte: 38,
+    }));
+    
+    const mode = await getTradingMode(env).catch(() => 'DRY_RUN' as TradingMode);
+    const symbols = await getEligibleSymbols(env, mode);
+    
+    const summaryJson = JSON.stringify({
+      symbols,
+      expiration: null,
+      candidateCount: 0,
+      scoredCount: 0,
+      bestScore: null,
+      minScoreThreshold: thresholds.minScore,
+      minCreditFraction: thresholds.minCreditFraction,
+      dteWindow: { minDte: thresholds.minDte, maxDte: thresholds.maxDte },
+      reason: 'ERROR',
+      error: error instanceof Error ? error.message : String(error)
+    });
+    console.log('[proposals] summary', summaryJson);
+    await insertSystemLog(env, 'proposals', '[proposals] summary', summaryJson).catch(() => {}); // Non-blocking
+    return { proposal: null, candidate: null };
+  }
+}
+
+/**
+ * Regime fields the candidate pipeline gates and logs on (RegimeState without the flip bookkeeping)
+ */
+export type SymbolRegime = Pick<RegimeState, 'regime' | 'confidence' | 'volatility' | 'price' | 'sma20' | 'factors'>;
+
+/**
+ * Per-symbol market inputs for the candidate pipeline
+ * 
+ * generateProposal reads them from D1/KV and the broker; the backtest runner derives
+ * them from recorded closes and snapshots. Everything else in buildSymbolCandidates /
+ * scoreSymbolCandidates is shared, so both gate, build and score identically.
+ */
+export interface CandidatePipelineSources {
+  getRegime(symbol: string, price: number): Promise<SymbolRegime>;
+  getVolatility(symbol: string): Promise<SymbolVolatility>;
+  // null = no IV rank (neutral IVR, not from history)
+  getIVRank(symbol: string, iv30d: number | null): Promise<IVRankResult | null>;
+  getTrend(symbol: string, direction: TrendDirection, price: number): Promise<{ trendScore: number; reason?: string }>;
+}
+
+export interface CandidatePipelineParams {
+  mode: TradingMode;
+  thresholds: Pick<StrategyThresholds, 'minScore' | 'minCreditFraction' | 'minDte' | 'maxDte'>;
+  strategies: StrategyId[]; // Enabled (and whitelisted) strategies, before regime gating
+  regimeStrategyMap: RegimeStrategyMap;
+  now: Date;
+}
+
+export interface SymbolCandidates {
+  symbol: string;
+  price: number; // Underlying last
+  volatility: SymbolVolatility;
+  ivRank: IVRankResult | null;
+  expirations: Array<{ expiration: string; dte: number }>;
+  candidates: RawCandidate[];
+}
+
+export interface CandidateScoringResult {
+  accepted: Array<{ raw: RawCandidate; candidate: ScoredCandidate }>; // Passed the per-candidate score threshold
+  scores: Array<{ strategy: string; expiration: string; score: number }>; // Every scored candidate
+  filterRejections: Record<string, number>; // Pre-scoring hard filter reasons
+  scoringRejections: Record<string, number>; // HARD_FILTERs fired inside scoring
+}
+
+/**
+ * Steps 1-4 of the pipeline for one symbol: underlying quote, regime gating, RV/IV gate,
+ * IV rank, eligible expirations and raw candidates from every allowed strategy
+ * 
+ * Returns null when the symbol is skipped (bad quote, no strategy left after regime
+ * gating, RV/IV gate, no eligible expirations, or an error).
+ */
+export async function buildSymbolCandidates(
+  broker: BrokerClient,
+  symbol: string,
+  sources: CandidatePipelineSources,
+  params: CandidatePipelineParams
+): Promise<SymbolCandidates | null> {
+  const { mode, now } = params;
+  const { minDte, maxDte } = params.thresholds;
+  try {
+    // [1] Load Market State for this symbol
+    const underlyingQuote = await broker.getUnderlyingQuote(symbol);
+    
+    // Validate underlying data
+    if (!underlyingQuote.bid || !underlyingQuote.ask || !underlyingQuote.last) {
+      console.log(`[proposals] skipping ${symbol}: missing underlying quote data`);
+      return null;
+    }
+    
+    // [1a] Regime for this symbol (trend + momentum + volatility, with hysteresis)
+    const regimeState = await sources.getRegime(symbol, underlyingQuote.last);
+    const symbolStrategies = params.strategies.filter(strategyId =>
+      isStrategyAllowedInRegime(strategyId, regimeState.regime, {
+        volatility: regimeState.volatility,
+        mapping: params.regimeStrategyMap,
+      })
+    );
+    console.log('[regime][gating]', JSON.stringify({
+      symbol,
+      regime: regimeState.regime,
+      volatility: regimeState.volatility,
+      confidence: regimeState.confidence,
+      composite: regimeState.factors.composite,
+      trend: regimeState.factors.trend,
+      momentum: regimeState.factors.momentum,
+      price: regimeState.price,
+      sma20: regimeState.sma20,
+      filtered_out: params.strategies.filter(s => !symbolStrategies.includes(s)),
+      enabled_after_gating: symbolStrategies,
+    }));
+    
+    if (symbolStrategies.length === 0) {
+      console.log(`[proposals] ${symbol}: no enabled strategies after regime gating`);
+      return null;
+    }
+    
+    // [2a] RV/IV gate - realized vol and ATM 30-day IV for this symbol
+    const volatility = await sources.getVolatility(symbol);
+    const hasVolData = volatility.rv_measured && volatility.iv_measured;
+    const rvIvValid = isRVIVRatioValid(volatility.rv_30d, volatility.iv_30d);
+    console.log('[proposals][rv_iv_gate]', JSON.stringify({
+      symbol,
+      rv_30d: volatility.rv_30d,
+      rv_30d_parkinson: volatility.rv_30d_parkinson,
+      iv_30d: volatility.iv_30d,
+      ratio: volatility.iv_30d / volatility.rv_30d,
+      valid: rvIvValid,
+      rv_measured: volatility.rv_measured,
+      iv_measured: volatility.iv_measured,
+      mode,
+    }));
+    
+    // In SANDBOX mode, relax the RV/IV gate to allow testing
+    // In LIVE/DRY_RUN, enforce the gate strictly and never trade on placeholder values
+    if ((!rvIvValid || !hasVolData) && mode !== 'SANDBOX_PAPER') {
+      console.log('[proposals][rv_iv_gate][rejected]', JSON.stringify({
+        symbol,
+        rv_30d: volatility.rv_30d,
+        iv_30d: volatility.iv_30d,
+        mode,
+        reason: hasVolData ? 'RV/IV ratio invalid - symbol skipped' : 'RV/IV data unavailable - symbol skipped',
+      }));
+      return null;
+    } else if (!rvIvValid || !hasVolData) {
+      console.log('[proposals][rv_iv_gate][relaxed]', JSON.stringify({
+        symbol,
+        rv_30d: volatility.rv_30d,
+        iv_30d: volatility.iv_30d,
+        rv_measured: volatility.rv_measured,
+        iv_measured: volatility.iv_measured,
+        mode,
+        note: 'RV/IV gate failed but SANDBOX mode - allowing proposal generation to continue',
+      }));
+    }
+    
+    // [2b] IV Rank - failures fall back to neutral IVR rather than skipping the symbol
+    const ivRank = await sources.getIVRank(symbol, volatility.iv_measured ? volatility.iv_30d : null);
+    if (ivRank) {
+      console.log('[proposals][ivr]', JSON.stringify({
+        symbol,
+        iv_now: ivRank.iv_now,
+        ivr: ivRank.ivr,
+        iv_percentile: ivRank.iv_percentile,
+        samples: ivRank.samples,
+        source: ivRank.source,
+      }));
+    }
+    
+    // [3] Select Eligible Expirations (using mode-specific DTE window)
+    const expirations = await getEligibleExpirations(broker, symbol, now, minDte, maxDte);
+    if (expirations.length === 0) {
+      console.log(`[proposals] ${symbol}: no eligible expirations`);
+      return null;
+    }
+    
+    // shortTermBias from price vs SMA (0 = strongly bullish, 1 = strongly bearish)
+    // Uses this symbol's regime state (already has SMA_20); neutral when unavailable
+    const shortTermBias = regimeState.sma20 !== null
+      ? computeBearishTrendScore(underlyingQuote.last, regimeState.sma20)
+      : 0.5;
+    
+    // [4] Build Raw Candidates for all enabled strategies
+    // Fetch each chain once per expiration and build candidates for all strategies
+    const candidates: RawCandidate[] = [];
+    // Time spreads: back-month chain per front expiration and DTE gap (fetched once per symbol)
+    const backMonthCache = new Map<string, BackMonthChain | undefined>();
+    
+    for (const { expiration, dte } of expirations) {
+      try {
+        // Fetch chain once per expiration
+        const chain = await broker.getOptionChain(symbol, expiration);
+        
+        // Build candidates for each enabled strategy
+        for (const strategyId of symbolStrategies) {
+          const config = getStrategyConfig(strategyId);
+          
+          // Check if this symbol is enabled for this strategy
+          if (!config.symbols.includes(symbol)) {
+            continue;
+          }
+          
+          const plugin = getStrategyPlugin(strategyId);
+          
+          // Strategy DTE window (calendar days or trading sessions, per config.dte.measure)
+          const dteWindow = checkStrategyDteWindow(config, expiration, now);
+          if (!dteWindow.inWindow) {
+            console.log(`[strategy][${plugin.logKey}][dte_window]`, JSON.stringify({
+              symbol,
+              expiration,
+              dte: dteWindow.dte,
+              measure: dteWindow.measure,
+              window: { min: config.dte.min, max: config.dte.max },
+            }));
+            continue;
+          }
+          
+          // Directional gate (softer gating; trend checks cached per symbol by the source)
+          if (plugin.gate) {
+            const gateResult = await plugin.gate({
+              symbol,
+              expiration,
+              shortTermBias,
+              getTrend: direction => sources.getTrend(symbol, direction, underlyingQuote.last),
+            });
+            if (!gateResult.allowed) {
+              console.log(`[strategy][${plugin.logKey}][${gateResult.rejectTag ?? 'gate_reject'}]`, JSON.stringify({
+                symbol,
+                expiration,
+                ...gateResult.values,
+                reason: gateResult.reason,
+              }));
+              continue;
+            }
+            console.log('[strategy-gate]', JSON.stringify({
+              strategy: strategyId,
+              allowed: true,
+              ...gateResult.values,
+              symbol,
+              expiration,
+            }));
+          }
+          
+          let back: BackMonthChain | undefined;
+          if (plugin.timeSpread && config.backDteGap) {
+            back = await getBackMonthChain(broker, symbol, now, dte, config.backDteGap, backMonthCache);
+            if (!back) {
+              console.log(`[strategy][${plugin.logKey}][no_back_month]`, JSON.stringify({
+                symbol,
+                expiration,
+                dte,
+                back_dte_gap: config.backDteGap,
+              }));
+              continue;
+            }
+          }
+          
+          const strategyCandidates = plugin.buildCandidates(config, chain, underlyingQuote, dte, back);
+          
+          if (strategyCandidates.length > 0) {
+            console.log(`[strategy][${plugin.logKey}][candidates]`, JSON.stringify({
+              symbol,
+              expiration,
+              candidateCount: strategyCandidates.length,
+            }));
+          }
+          
+          candidates.push(...strategyCandidates);
+        }
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.log(`[proposals] error building candidates for ${symbol} ${expiration}: ${errorMsg}`);
+        continue;
+      }
+    }
+    
+    if (candidates.length > 0) {
+      console.log(`[proposals] ${symbol}: built ${candidates.length} candidates`);
+    }
+    
+    return {
+      symbol,
+      price: underlyingQuote.last,
+      volatility,
+      ivRank,
+      expirations,
+      candidates,
+    };
+  } catch (symbolError) {
+    console.error(`[proposals] error processing ${symbol}:`, symbolError instanceof Error ? symbolError.message : String(symbolError));
+    return null;
+  }
+}
+
+/**
+ * Steps 5-8 of the pipeline: hard filters, metrics, scoring and the per-candidate score
+ * threshold (evaluateCandidate) for every candidate built by buildSymbolCandidates
+ * 
+ * Rejections are logged and counted here; selection (step 9) stays with the caller.
+ */
+export async function scoreSymbolCandidates(
+  symbolCandidates: SymbolCandidates[],
+  sources: Pick<CandidatePipelineSources, 'getTrend'>,
+  params: Pick<CandidatePipelineParams, 'mode' | 'thresholds'>
+): Promise<CandidateScoringResult> {
+  const { mode } = params;
+  const { minScore, minCreditFraction } = params.thresholds;
+  const result: CandidateScoringResult = { accepted: [], scores: [], filterRejections: {}, scoringRejections: {} };
+  
+  for (const { symbol, price, volatility, ivRank, candidates } of symbolCandidates) {
+    for (const candidate of candidates) {
+      // Log scoring attempt
+      console.log('[strategy] candidate_score_attempt', JSON.stringify({
+        symbol: candidate.symbol,
+        expiration: candidate.expiration,
+        shortStrike: candidate.short_strike,
+        longStrike: candidate.long_strike,
+        width: candidate.width,
+        credit: candidate.credit,
+        mode,
+      }));
+      
+      try {
+        const plugin = getStrategyPlugin(candidate.strategy);
+        // Trend-scored strategies (debit spreads) reuse the trend check cached by their gate
+        const trendScore = plugin.trend
+          ? (await sources.getTrend(symbol, plugin.trend, price)).trendScore
+          : undefined;
+        
+        const evaluation = evaluateCandidate(candidate, {
+          mode,
+          minScore,
+          minCreditFraction,
+          rv_30d: volatility.rv_30d,
+          iv_30d: volatility.iv_30d,
+          ivr: ivRank?.ivr ?? NEUTRAL_IVR,
+          ivrFromHistory: !!ivRank && ivRank.source !== 'FALLBACK',
+          trendScore,
+        });
+        
+        if (evaluation.status === 'HARD_FILTER') {
+          const reason = evaluation.reason;
+          result.filterRejections[reason] = (result.filterRejections[reason] || 0) + 1;
+          const requiredCredit = candidate.width * minCreditFraction;
+          console.log(`[proposals] candidate_rejected: ${reason}`, JSON.stringify({
+            symbol: candidate.symbol,
+            expiration: candidate.expiration,
+            shortStrike: candidate.short_strike,
+            longStrike: candidate.long_strike,
+            width: candidate.width,
+            credit: candidate.credit,
+            min_credit_required: requiredCredit,
+            reason,
+          }));
+          continue;
+        }
+        
+        if (evaluation.status === 'MISSING_REQUIRED_DATA') {
+          console.log('[strategy] candidate_score_skip', JSON.stringify({
+            symbol: candidate.symbol,
+            expiration: candidate.expiration,
+            shortStrike: candidate.short_strike,
+            longStrike: candidate.long_strike,
+            credit: candidate.credit,
+            strategy: candidate.strategy,
+            reason: 'MISSING_REQUIRED_DATA',
+            hasDelta: evaluation.hasDelta,
+            hasShortIv: evaluation.hasShortIv,
+            hasLongIv: evaluation.hasLongIv,
+            mode,
+          }));
+          continue;
+        }
+        
+        if (evaluation.status === 'SCORING_ERROR') {
+          // If this came from a HARD_FILTER inside scoreCandidate, bucket by reason
+          if (evaluation.hardFilter) {
+            result.scoringRejections[evaluation.hardFilter] = (result.scoringRejections[evaluation.hardFilter] || 0) + 1;
+          }
+          console.log('[strategy] candidate_score_skip', JSON.stringify({
+            symbol: candidate.symbol,
+            expiration: candidate.expiration,
+            shortStrike: candidate.short_strike,
+            longStrike: candidate.long_strike,
+            credit: candidate.credit,
+            reason: evaluation.hardFilter ? `HARD_FILTER_${evaluation.hardFilter}` : 'METRICS_OR_SCORING_ERROR',
+            error: evaluation.error,
+            mode,
+          }));
+          continue;
+        }
+        
+        if (evaluation.status === 'SCORE_INVALID') {
+          console.log('[strategy] candidate_score_skip', JSON.stringify({
+            symbol: candidate.symbol,
+            expiration: candidate.expiration,
+            shortStrike: candidate.short_strike,
+            longStrike: candidate.long_strike,
+            credit: candidate.credit,
+            reason: 'SCORE_INVALID_AND_NOT_SANDBOX',
+            mode,
+          }));
+          continue;
+        }
+        
+        const scored = evaluation.candidate;
+        const effectiveScore = scored.scoring.composite_score;
+        console.log('[strategy-gate]', JSON.stringify({
+          strategy: candidate.strategy,
+          allowed: true,
+          ...(trendScore !== undefined ? { trendScore } : {}),
+          ivr: scored.metrics.ivr,
+          minScore,
+          symbol: candidate.symbol,
+          expiration: candidate.expiration,
+        }));
+        
+        // Log scoring result
+        console.log(`[strategy][${plugin.logKey}][score]`, JSON.stringify({
+          symbol: candidate.symbol,
+          expiration: candidate.expiration,
+          shortStrike: candidate.short_strike,
+          longStrike: candidate.long_strike,
+          credit: candidate.credit,
+          rawScore: effectiveScore,
+          mode,
+        }));
+        
+        // Track all scored candidates (even if below threshold)
+        result.scores.push({
+          strategy: candidate.strategy,
+          expiration: candidate.expiration,
+          score: effectiveScore,
+        });
+        
+        // Only log score rejections for near-miss trades (credit passes but score fails)
+        if (evaluation.status === 'SCORE_BELOW_MINIMUM') {
+          const requiredCredit = candidate.width * minCreditFraction;
+          // Log near-miss trades (credit >= requiredCredit but score < threshold)
+          if (candidate.credit >= requiredCredit) {
+            console.log('[scoring][filtered_out]', JSON.stringify({
+              symbol: candidate.symbol,
+              expiration: candidate.expiration,
+              shortStrike: candidate.short_strike,
+              longStrike: candidate.long_strike,
+              score: effectiveScore,
+              minScore: evaluation.minScore,
+              credit: candidate.credit,
+              requiredCredit: requiredCredit,
+              reason: 'SCORE_BELOW_MINIMUM',
+              mode,
+            }));
+          }
+          // Also log the standard rejection format for all score failures
+          console.log('[proposals] candidate_rejected: SCORE_BELOW_MINIMUM', JSON.stringify({
+            symbol: candidate.symbol,
+            expiration: candidate.expiration,
+            shortStrike: candidate.short_strike,
+            longStrike: candidate.long_strike,
+            credit: candidate.credit,
+            score: effectiveScore,
+            min_score_required: evaluation.minScore,
+            mode,
+          }));
+          continue;
+        }
+        
+        result.accepted.push({ raw: candidate, candidate: scored });
+      } catch (error) {
+        // Candidate rejected - log and continue
+        console.log('[strategy] candidate_score_skip', JSON.stringify({
+          symbol: candidate.symbol,
+          expiration: candidate.expiration,
+          shortStrike: candidate.short_strike,
+          longStrike: candidate.long_strike,
+          credit: candidate.credit,
+          reason: 'UNEXPECTED_ERROR',
+          error: error instanceof Error ? error.message : String(error),
+          mode,
+        }));
+        continue;
+      }
+    }
+  }
+  
+  return result;
+}
+
+export type { RawCandidate } from '../strategy/types';
+
+/**
+ * Scored candidate (after metrics/scoring, before selection)
+ * 
+ * This is the shape generateProposal actually builds: ProposalCandidate in types.ts
+ * has no credit/ev, so selection helpers are typed against this instead.
+ */
+export interface ScoredCandidate {
+  symbol: string;
+  expiration: string;
+  short_strike: number;
+  long_strike: number;
+  width: number;
+  credit: number; // Negative for debit spreads
+  strategy: RawCandidate['strategy'];
+  call_short_strike?: number; // IRON_CONDOR call wing
+  call_long_strike?: number;
+  long_expiration?: string; // Time spreads: back-month long leg
+  metrics: CandidateMetrics;
+  position_delta: number | null; // One spread, all legs (computeCandidatePositionDelta)
+  scoring: CandidateScoring & { ev: number };
+}
+
+/**
+ * Build raw candidates for one strategy from a single chain
+ * 
+ * Delegates to the strategy plugin's builder (see strategy/registry.ts).
+ * Debit spreads are stored with a negative credit and the debit kept separately.
+ * Directional gating is the caller's responsibility (plugin.gate).
+ */
+export function buildStrategyCandidates(
+  strategyId: StrategyId,
+  config: StrategyConfig,
+  chain: OptionQuote[],
+  underlying: UnderlyingQuote,
+  dte: number,
+  back?: BackMonthChain
+): RawCandidate[] {
+  return getStrategyPlugin(strategyId).buildCandidates(config, chain, underlying, dte, back);
+}
+
+/**
+ * Back-month chain for a time spread: the nearest expiration dte + [gap.min, gap.max] out
+ * 
+ * Results are cached per front DTE and gap so every time spread strategy on a symbol
+ * shares one lookup.
+ */
+export async function getBackMonthChain(
+  broker: BrokerClient,
+  symbol: string,
+  now: Date,
+  dte: number,
+  gap: { min: number; max: number },
+  cache: Map<string, BackMonthChain | undefined>
+): Promise<BackMonthChain | undefined> {
+  const key = `${dte}:${gap.min}-${gap.max}`;
+  if (cache.has(key)) {
+    return cache.get(key);
+  }
+  let back: BackMonthChain | undefined;
+  const [nearest] = await getEligibleExpirations(broker, symbol, now, dte + gap.min, dte + gap.max);
+  if (nearest) {
+    back = { ...nearest, chain: await broker.getOptionChain(symbol, nearest.expiration) };
+  }
+  cache.set(key, back);
+  return back;
+}
+
+/**
+ * Vertical wings of a candidate (plugin.getWings)
+ * 
+ * Multi-wing structures (IRON_CONDOR) split into plain verticals with their own
+ * credit, so per-leg checks (liquidity, skew, required data) run unchanged per wing.
+ * Verticals are returned as-is.
+ */
+export function getCandidateWings(candidate: RawCandidate): RawCandidate[] {
+  return getStrategyPlugin(candidate.strategy).getWings(candidate);
+}
+
+/**
+ * Net delta of one spread across every leg: long - short delta per wing, summed over
+ * wings (IRON_CONDOR: put and call wing). Null when any leg delta is missing.
+ */
+export function computeCandidatePositionDelta(candidate: RawCandidate): number | null {
+  let delta = 0;
+  for (const wing of getCandidateWings(candidate)) {
+    const { shortOption, longOption } = getVerticalOptions(wing, getStrategyOptionType(wing.strategy));
+    if (shortOption?.delta == null || longOption?.delta == null) {
+      return null;
+    }
+    delta += longOption.delta - shortOption.delta;
+  }
+  return delta;
+}
+
+/**
+ * Effective minimum score for a candidate (0-1 scale)
+ * 
+ * Normalize minScore: if > 1, treat as percentage (70 -> 0.70), otherwise use as-is (0.70 -> 0.70).
+ * In SANDBOX_PAPER, debit spreads are normalized to the same 70% threshold.
+ */
+export function getEffectiveMinScore(
+  minScore: number,
+  mode: TradingMode,
+  strategy: RawCandidate['strategy']
+): number {
+  let rawMinScore = minScore;
+  if (mode === 'SANDBOX_PAPER' && isDebitStrategy(strategy)) {
+    rawMinScore = 70; // Normalize debit spreads to 70% in PAPER mode
+  }
+  return rawMinScore > 1 ? rawMinScore / 100 : rawMinScore;
+}
+
+export interface CandidateEvaluationInput {
+  mode: TradingMode;
+  minScore: number;
+  minCreditFraction: number;
+  rv_30d: number;
+  iv_30d: number;
+  ivr: number;
+  ivrFromHistory: boolean;
+  trendScore?: number; // Set when the plugin declares `trend`
+}
+
+export type CandidateEvaluation =
+  | { status: 'HARD_FILTER'; reason: string }
+  | { status: 'MISSING_REQUIRED_DATA'; hasDelta: boolean; hasShortIv: boolean; hasLongIv: boolean }
+  | { status: 'SCORING_ERROR'; error: string; hardFilter: string | null }
+  | { status: 'SCORE_INVALID' }
+  | { status: 'SCORE_BELOW_MINIMUM'; candidate: ScoredCandidate; minScore: number }
+  | { status: 'ACCEPTED'; candidate: ScoredCandidate; minScore: number };
+
+/**
+ * Hard filters, metrics, scoring and the per-candidate score threshold for one candidate
+ *
+ * Shared by generateProposal and the backtest runner so both reject and score identically.
+ * Logging and rejection counters stay with the caller.
+ */
+export function evaluateCandidate(
+  candidate: RawCandidate,
+  input: CandidateEvaluationInput
+): CandidateEvaluation {
+  const { mode, minScore, minCreditFraction, rv_30d, iv_30d } = input;
+
+  // Pre-scoring hard filters (with mode-specific credit requirement)
+  const filterResult = passesHardFiltersWithReason(candidate, rv_30d, iv_30d, minCreditFraction, mode);
+  if (!filterResult.passed) {
+    return { status: 'HARD_FILTER', reason: filterResult.reason || 'UNKNOWN_FILTER_FAILURE' };
+  }
+
+  // Require core data on every wing (a vertical is its own single wing)
+  const wingOptions = getCandidateWings(candidate).map(wing =>
+    getVerticalOptions(wing, getStrategyOptionType(wing.strategy))
+  );
+  const hasDelta = wingOptions.every(w => w.shortOption?.delta != null);
+  const hasShortIv = wingOptions.every(w => w.shortOption?.implied_volatility != null);
+  const hasLongIv = wingOptions.every(w => w.longOption?.implied_volatility != null);
+  if (!hasDelta || !hasShortIv || !hasLongIv) {
+    return { status: 'MISSING_REQUIRED_DATA', hasDelta, hasShortIv, hasLongIv };
+  }
+
+  let metrics: CandidateMetrics;
+  let scoring: CandidateScoring & { ev: number };
+  try {
+    const plugin = getStrategyPlugin(candidate.strategy);
+    // NOTE: metrics.credit is negative for debit spreads; debit scoring uses the
+    // explicit debit and does NOT rely on metrics.credit being positive
+    metrics = plugin.computeMetrics(candidate, rv_30d, iv_30d, input.ivr);
+    scoring = plugin.score(metrics, candidate, {
       mode,
-      reason,
+      config: getStrategyConfig(candidate.strategy as StrategyId),
+      minCreditFraction,
+      ivrFromHistory: input.ivrFromHistory,
+      trendScore: input.trendScore,
     });
-    console.log('[proposals] summary', summaryJson);
-    // Store in DB for UI visibility
-    await insertSystemLog(env, 'proposals', '[proposals] summary', summaryJson).catch(() => {}); // Non-blocking
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    // In-scoring hard filters throw "HARD_FILTER: <reason>"
+    const hardFilter = msg.startsWith('HARD_FILTER: ') ? msg.replace('HARD_FILTER: ', '') : null;
+    return { status: 'SCORING_ERROR', error: msg, hardFilter };
+  }
 
-    if (!chosen) {
-      console.log('[proposals] no-trade-summary', JSON.stringify({
-        reason,
-        totalCandidatesBuilt: candidates.length,
-        passedHardFilters: candidates.length - Object.values(filterRejections).reduce((a, b) => a + b, 0),
-        passedScoring: passing.length,
-        bestScore,
-        minScoreRequired: effectiveMinScore,
-        expirationsConsidered: allExpirations.map((e: { expiration: string; dte: number }) => ({ expiration: e.expiration, dte: e.dte })),
+  if (scoring.composite_score == null || !Number.isFinite(scoring.composite_score)) {
+    return { status: 'SCORE_INVALID' };
+  }
+
+  const scored: ScoredCandidate = {
+    symbol: candidate.symbol,
+    expiration: candidate.expiration,
+    short_strike: candidate.short_strike,
+    long_strike: candidate.long_strike,
+    width: candidate.width,
+    credit: candidate.credit,
+    strategy: candidate.strategy,
+    call_short_strike: candidate.call_short_strike,
+    call_long_strike: candidate.call_long_strike,
+    long_expiration: candidate.long_expiration,
+    metrics,
+    position_delta: computeCandidatePositionDelta(candidate),
+    scoring,
+  };
+
+  // Mode-specific threshold (no sandbox bypass; debit override in SANDBOX_PAPER)
+  const effectiveMinScore = getEffectiveMinScore(minScore, mode, candidate.strategy);
+  if (scoring.composite_score < effectiveMinScore) {
+    return { status: 'SCORE_BELOW_MINIMUM', candidate: scored, minScore: effectiveMinScore };
+  }
+  return { status: 'ACCEPTED', candidate: scored, minScore: effectiveMinScore };
+}
+
+/**
+ * Final selection rules applied to scored candidates
+ * 
+ * Score must clear effectiveMinScore.
+ * Debit spreads must have a debit in the plugin's debitRange (default [MIN_DEBIT, MAX_DEBIT]);
+ * credit spreads need credit >= requiredCredit.
+ */
+export function passesSelectionRules(
+  candidate: ScoredCandidate,
+  effectiveMinScore: number,
+  requiredCredit: number
+): boolean {
+  const scorePasses = candidate.scoring.composite_score >= effectiveMinScore;
+  
+  // For debit spreads, check debit range (debitRange.min <= debit <= debitRange.max)
+  // For credit spreads, check credit >= requiredCredit
+  let creditDebitPasses: boolean;
+  
+  if (isDebitStrategy(candidate.strategy)) {
+    const debit = Math.abs(candidate.credit);
+    const debitRange = getStrategyPlugin(candidate.strategy).debitRange ?? { min: MIN_DEBIT, max: MAX_DEBIT };
+    creditDebitPasses = debit >= debitRange.min && debit <= debitRange.max;
+  } else {
+    creditDebitPasses = candidate.credit >= requiredCredit;
+  }
+  
+  return scorePasses && creditDebitPasses;
+}
+
+/**
+ * Candidate ranking: score, then EV, then credit (all descending)
+ */
+export function compareScoredCandidates(a: ScoredCandidate, b: ScoredCandidate): number {
+  if (b.scoring.composite_score !== a.scoring.composite_score) {
+    return b.scoring.composite_score - a.scoring.composite_score;
+  }
+  if (b.scoring.ev !== a.scoring.ev) {
+    return b.scoring.ev - a.scoring.ev;
+  }
+  return b.credit - a.credit;
+}
+
+/**
+ * Order candidates by the target delta band, then compareScoredCandidates
+ * 
+ * A candidate "fits" when adding its SPY-weighted delta leaves the book inside the band
+ * or closer to it than now. Fitting candidates rank ahead of the rest; candidates with
+ * unknown delta count as not fitting. Pure; deltas are looked up by candidate.
+ */
+export function sortByDeltaBandPreference(
+  candidates: ScoredCandidate[],
+  bookDelta: number,
+  band: DeltaBand,
+  candidateDelta: (candidate: ScoredCandidate) => number | null
+): ScoredCandidate[] {
+  const distanceBefore = deltaBandDistance(bookDelta, band);
+  const fits = new Map<ScoredCandidate, boolean>();
+  for (const candidate of candidates) {
+    const delta = candidateDelta(candidate);
+    const distanceAfter = delta !== null ? deltaBandDistance(bookDelta + delta, band) : null;
+    fits.set(candidate, distanceAfter !== null && (distanceAfter === 0 || distanceAfter < distanceBefore));
+  }
+  return [...candidates].sort((a, b) => {
+    const fitA = fits.get(a) ? 1 : 0;
+    const fitB = fits.get(b) ? 1 : 0;
+    return fitA !== fitB ? fitB - fitA : compareScoredCandidates(a, b);
+  });
+}
+
+/**
+ * Rank candidates with the target delta band preference (TARGET_DELTA_SPY_MIN/MAX)
+ * 
+ * Book delta is the latest portfolio_greeks snapshot (beta-weighted); without a band,
+ * or with no fresh snapshot, candidates are ranked by score alone. Each candidate's
+ * delta uses the quantity it would be sized to (quantityFor).
+ */
+async function rankByDeltaBand(
+  env: Env,
+  broker: Pick<BrokerClient, 'getUnderlyingQuote'>,
+  candidates: ScoredCandidate[],
+  prices: Map<string, number>,
+  now: Date,
+  quantityFor: (candidate: ScoredCandidate) => number
+): Promise<ScoredCandidate[]> {
+  const byScore = [...candidates].sort(compareScoredCandidates);
+  const betaConfig = await getBetaConfig(env);
+  const band = getDeltaBand(betaConfig);
+  if (!band || candidates.length < 2) {
+    return byScore;
+  }
+  
+  try {
+    const snapshot = await getLatestPortfolioGreeks(env);
+    const { maxSnapshotAgeMinutes } = await getGreekRiskLimits(env);
+    const fresh = snapshot !== null &&
+      now.getTime() - new Date(snapshot.as_of).getTime() <= maxSnapshotAgeMinutes * 60000;
+    if (!fresh || snapshot.spy_weighted_delta === null) {
+      console.log('[proposals][delta_band] skipped', JSON.stringify({
+        reason: fresh ? 'book_delta_unavailable' : 'no_fresh_greeks_snapshot',
+        as_of: snapshot?.as_of ?? null,
       }));
-      return { proposal: null, candidate: null };
+      return byScore;
     }
     
-    const bestCandidate = chosen;
-    
-    // [10] Persist Proposal
-    // Get configurable default quantity (defaults to 1 if not set)
-    const defaultQuantity = await getDefaultTradeQuantity(env);
-    const proposal: Omit<ProposalRow, 'created_at'> = {
-      id: crypto.randomUUID(),
-      symbol: bestCandidate.symbol,
-      expiration: bestCandidate.expiration,
-      short_strike: bestCandidate.short_strike,
-      long_strike: bestCandidate.long_strike,
-      width: bestCandidate.width,
-      quantity: defaultQuantity,
-      strategy: bestCandidate.strategy,
-      credit_target: bestCandidate.credit,
-      score: bestCandidate.scoring.composite_score,
-      ivr_score: bestCandidate.scoring.ivr_score,
-      vertical_skew_score: bestCandidate.scoring.vertical_skew_score,
-      term_structure_score: bestCandidate.scoring.term_structure_score,
-      delta_fitness_score: bestCandidate.scoring.delta_fitness_score,
-      ev_score: bestCandidate.scoring.ev_score,
-      status: 'READY',
+    const spyPrice = prices.get(BETA_REFERENCE_SYMBOL) ?? (await broker.getUnderlyingQuote(BETA_REFERENCE_SYMBOL)).last;
+    const betas = await getBetaEstimates(env, candidates.map(c => c.symbol), now, betaConfig);
+    const candidateDelta = (candidate: ScoredCandidate): number | null => {
+      const price = prices.get(candidate.symbol);
+      return price && spyPrice > 0
+        ? computeCandidateSpyDelta(
+          candidate.position_delta,
+          quantityFor(candidate),
+          price,
+          spyPrice,
+          betas.get(candidate.symbol)?.beta ?? 1
+        )
+        : null;
     };
     
-    // CRITICAL: Log proposal creation with strategy before persisting
-    console.log('[proposals] creating_proposal', JSON.stringify({
-      proposal_id: proposal.id,
-      symbol: proposal.symbol,
-      strategy: proposal.strategy,
-      expiration: proposal.expiration,
-      short_strike: proposal.short_strike,
-      long_strike: proposal.long_strike,
-      credit_target: proposal.credit_target,
-      score: proposal.score,
-      candidate_strategy: bestCandidate.strategy,
-      strategy_match: proposal.strategy === bestCandidate.strategy,
-      note: 'Strategy must match candidate strategy exactly',
-    }));
-    
-    const persistedProposal = await insertProposal(env, proposal);
-    
-    // CRITICAL: Verify strategy was persisted correctly
-    if (persistedProposal.strategy !== proposal.strategy) {
-      console.error('[proposals] CRITICAL: Strategy mismatch after persistence', JSON.stringify({
-        proposal_id: persistedProposal.id,
-        expected_strategy: proposal.strategy,
-        persisted_strategy: persistedProposal.strategy,
-        error: 'Strategy changed during persistence - this should never happen',
-      }));
-    }
-    
-    console.log('[proposals] proposal_created', JSON.stringify({
-      proposal_id: persistedProposal.id,
-      symbol: persistedProposal.symbol,
-      strategy: persistedProposal.strategy,
-      expiration: persistedProposal.expiration,
-      score: persistedProposal.score,
-      credit_target: persistedProposal.credit_target,
-      status: persistedProposal.status,
-      note: 'Proposal created successfully - strategy is immutable',
+    const bookDelta = snapshot.spy_weighted_delta;
+    const ranked = sortByDeltaBandPreference(candidates, bookDelta, band, candidateDelta);
+    const chosenDelta = candidateDelta(ranked[0]);
+    console.log('[proposals][delta_band]', JSON.stringify({
+      band,
+      book_delta: bookDelta,
+      chosen: { symbol: ranked[0].symbol, strategy: ranked[0].strategy, spy_delta: chosenDelta },
+      book_delta_after: chosenDelta !== null ? Math.round((bookDelta + chosenDelta) * 100) / 100 : null,
+      top_by_score: { symbol: byScore[0].symbol, strategy: byScore[0].strategy, spy_delta: candidateDelta(byScore[0]) },
+      reordered: ranked[0] !== byScore[0],
     }));
-    
-    const tradingMode = await getTradingMode(env);
-    await notifyProposalCreated(env, tradingMode, persistedProposal);
-    
-    return {
-      proposal: persistedProposal,
-      candidate: bestCandidate,
-    };
+    return ranked;
   } catch (error) {
-    // Any error = no proposal
-    // Get thresholds for logging even on error
-    const thresholds = await getStrategyThresholds(env).catch(() => ({
-      minScore: 0.70,
-      minCreditFraction: 0.18,
-      minDte: 28,
-      maxDte: 38,
+    console.warn('[proposals][delta_band] failed, ranking by score', JSON.stringify({
+      error: error instanceof Error ? error.message : String(error),
     }));
-    
-    const mode = await getTradingMode(env).catch(() => 'DRY_RUN' as TradingMode);
-    const symbols = await getEligibleSymbols(env, mode);
-    
-    const summaryJson = JSON.stringify({
-      symbols,
-      expiration: null,
-      candidateCount: 0,
-      scoredCount: 0,
-      bestScore: null,
-      minScoreThreshold: thresholds.minScore,
-      minCreditFraction: thresholds.minCreditFraction,
-      dteWindow: { minDte: thresholds.minDte, maxDte: thresholds.maxDte },
-      reason: 'ERROR',
-      error: error instanceof Error ? error.message : String(error)
-    });
-    console.log('[proposals] summary', summaryJson);
-    await insertSystemLog(env, 'proposals', '[proposals] summary', summaryJson).catch(() => {}); // Non-blocking
-    return { proposal: null, candidate: null };
+    return byScore;
   }
 }
 
-/**
- * Raw candidate structure (before metrics/scoring)
- * Supports both PUT and CALL credit spreads
- */
-interface RawCandidate {
-  symbol: string;
-  expiration: string;
-  short_strike: number;
-  long_strike: number;
-  width: number;
-  credit: number;
-  strategy: 'BULL_PUT_CREDIT' | 'BEAR_CALL_CREDIT' | 'BULL_CALL_DEBIT' | 'BEAR_PUT_DEBIT';
-  // For BULL_PUT_CREDIT and BEAR_PUT_DEBIT: short_put and long_put are set
-  short_put?: OptionQuote;
-  long_put?: OptionQuote;
-  // For BEAR_CALL_CREDIT and BULL_CALL_DEBIT: short_call and long_call are set
-  short_call?: OptionQuote;
-  long_call?: OptionQuote;
-  dte: number;
-  debit?: number; // For debit spreads (BULL_CALL_DEBIT, BEAR_PUT_DEBIT)
-}
-
 /**
  * Get eligible expirations with DTE info, limited to MAX_EXPIRATIONS_PER_RUN
  * 
@@ -1120,8 +1393,8 @@ interface RawCandidate {
  * 
  * Strategy: Find all Fridays in the DTE window, then verify each has options available
  */
-async function getEligibleExpirations(
-  broker: TradierClient,
+export async function getEligibleExpirations(
+  broker: BrokerClient,
   symbol: string,
   now: Date,
   minDte: number,
@@ -1244,7 +1517,7 @@ async function getEligibleExpirations(
  * in the main generateProposal function.
  */
 async function buildCandidates(
-  broker: TradierClient,
+  broker: EngineBroker,
   symbol: string,
   underlying: UnderlyingQuote,
   now: Date,
@@ -1331,25 +1604,41 @@ async function buildCandidates(
  * Some overlap exists (e.g., credit/debit requirements, vertical skew). The in-scoring filters are the authoritative source
  * for strategy-specific thresholds, while pre-scoring filters provide early rejection for obviously invalid candidates.
  * 
+ * Per-leg checks run on each vertical wing (plugin.getWings); the strategy's own
+ * hard filter (credit/debit requirement) then runs on the whole candidate.
+ * 
  * @param mode - Trading mode (SANDBOX_PAPER has relaxed filters)
  */
-function passesHardFiltersWithReason(
+export function passesHardFiltersWithReason(
   candidate: RawCandidate,
   rv_30d: number,
   iv_30d: number,
   minCreditFraction: number,
   mode: 'DRY_RUN' | 'SANDBOX_PAPER' | 'LIVE' = 'DRY_RUN'
-): { passed: boolean; reason?: string } {
+): HardFilterResult {
+  const plugin = getStrategyPlugin(candidate.strategy);
+  for (const wing of plugin.getWings(candidate)) {
+    const wingResult = passesLegFilters(wing, mode);
+    if (!wingResult.passed) {
+      return wingResult;
+    }
+  }
+  
+  // 6.7 Credit/Debit Requirement (strategy-specific)
+  return plugin.hardFilter(candidate, minCreditFraction);
+}
+
+/**
+ * Shared per-leg hard filters for one vertical wing (liquidity, quotes, vertical skew)
+ */
+function passesLegFilters(
+  candidate: RawCandidate,
+  mode: 'DRY_RUN' | 'SANDBOX_PAPER' | 'LIVE'
+): HardFilterResult {
   const isSandbox = mode === 'SANDBOX_PAPER';
   
-  // Get the appropriate option quotes based on strategy
-  // BULL_PUT_CREDIT and BEAR_PUT_DEBIT use puts; BEAR_CALL_CREDIT and BULL_CALL_DEBIT use calls
-  const shortOption = (candidate.strategy === 'BULL_PUT_CREDIT' || candidate.strategy === 'BEAR_PUT_DEBIT')
-    ? candidate.short_put 
-    : candidate.short_call;
-  const longOption = (candidate.strategy === 'BULL_PUT_CREDIT' || candidate.strategy === 'BEAR_PUT_DEBIT')
-    ? candidate.long_put
-    : candidate.long_call;
+  // Get the appropriate option quotes for the strategy's option type
+  const { shortOption, longOption } = getVerticalOptions(candidate, getStrategyOptionType(candidate.strategy));
   
   if (!shortOption || !longOption) {
     console.log('[hard-filter][missing-legs]', JSON.stringify({
@@ -1436,6 +1725,12 @@ function passesHardFiltersWithReason(
     }
   }
   
+  // Time spreads: the legs sit in different expirations, so their IV difference is
+  // term structure (scored by the plugin), not vertical skew
+  if (candidate.long_expiration) {
+    return { passed: true };
+  }
+  
   // Log skew inputs for debugging
   const shortIv = shortOption.implied_volatility;
   const longIv = longOption.implied_volatility;
@@ -1528,32 +1823,6 @@ function passesHardFiltersWithReason(
   
   // 6.6 Delta Fitness - checked during scoring
   
-  // 6.7 Credit/Debit Requirement
-  const isDebitSpread = candidate.strategy === 'BULL_CALL_DEBIT' || candidate.strategy === 'BEAR_PUT_DEBIT';
-  
-  if (isDebitSpread) {
-    // For debit spreads: check debit (absolute value of negative credit)
-    // Requirements: 0.80 <= debit <= 2.50
-    const debit = Math.abs(candidate.credit);
-    const minDebit = 0.80;
-    const maxDebit = 2.50;
-    
-    if (debit < minDebit) {
-      return { passed: false, reason: 'DEBIT_BELOW_MINIMUM' };
-    }
-    if (debit > maxDebit) {
-      return { passed: false, reason: 'DEBIT_ABOVE_MAXIMUM' };
-    }
-  } else {
-    // For credit spreads: check credit >= requiredCredit
-    const effectiveCreditFraction = minCreditFraction;
-    const requiredCredit = candidate.width * effectiveCreditFraction;
-    
-    if (candidate.credit < requiredCredit) {
-      return { passed: false, reason: 'CREDIT_BELOW_MINIMUM' };
-    }
-  }
-  
   return { passed: true };
 }
 
@@ -1588,131 +1857,15 @@ function computeMinCredit(ivr: number, vertical_skew: number, width: number): nu
 }
 
 /**
- * Compute CandidateMetrics from raw candidate
+ * Compute CandidateMetrics from raw candidate (plugin.computeMetrics)
  */
-function computePctSpread(bid: number | null | undefined, ask: number | null | undefined): number {
-  if (!Number.isFinite(bid as number) || !Number.isFinite(ask as number)) {
-    return 0;
-  }
-  const b = bid as number;
-  const a = ask as number;
-  if (a <= 0) {
-    return 0;
-  }
-  const spread = a - b;
-  if (!Number.isFinite(spread) || spread <= 0) {
-    return 0;
-  }
-  const pct = spread / a;
-  return pct > 0 ? pct : 0;
-}
-
 export function computeCandidateMetrics(
   candidate: RawCandidate,
   rv_30d: number,
-  iv_30d: number
+  iv_30d: number,
+  ivr: number = NEUTRAL_IVR
 ): CandidateMetrics {
-  // Handle both PUT and CALL spreads
-  // BULL_PUT_CREDIT and BEAR_PUT_DEBIT use puts; BEAR_CALL_CREDIT and BULL_CALL_DEBIT use calls
-  const shortOption = (candidate.strategy === 'BULL_PUT_CREDIT' || candidate.strategy === 'BEAR_PUT_DEBIT')
-    ? candidate.short_put 
-    : candidate.short_call;
-  const longOption = (candidate.strategy === 'BULL_PUT_CREDIT' || candidate.strategy === 'BEAR_PUT_DEBIT')
-    ? candidate.long_put
-    : candidate.long_call;
-
-  if (
-    !shortOption ||
-    !longOption ||
-    shortOption.delta == null ||
-    shortOption.implied_volatility == null ||
-    longOption.implied_volatility == null
-  ) {
-    throw new Error('Missing required option data');
-  }
-
-  const shortIv = shortOption.implied_volatility;
-  const longIv = longOption.implied_volatility;
-
-  const vertical_skew = computeVerticalSkew({
-    iv_short: shortIv,
-    iv_long: longIv,
-  });
-
-  // TODO: Get actual term structure from back month
-  const term_structure = 0.0; // Placeholder
-
-  // TODO: Get actual IVR from 52-week data (0–1 scale)
-  // NOTE: IVR is currently a placeholder (0.5). Real IVR calculation is not yet wired.
-  // This means IVR-based hard filters and scoring components are effectively neutralized.
-  // When real IVR is implemented, update this to use actual IVR calculation.
-  const ivr = 0.5; // Placeholder until real IVR is wired
-  if (ivr === 0.5) {
-    console.log('[metrics][ivr_placeholder]', JSON.stringify({
-      symbol: candidate.symbol,
-      expiration: candidate.expiration,
-      strategy: candidate.strategy,
-      note: 'IVR_PLACEHOLDER_USED - IVR hard filters and scoring are effectively neutralized',
-    }));
-  }
-
-  // For scoring, use absolute delta (scoring already uses Math.abs)
-  // This allows call deltas (positive) and put deltas (negative) to be treated consistently
-  const pop = computePOP(shortOption.delta);
-  
-  // Calculate max_profit and max_loss correctly for both credit and debit spreads
-  let max_profit: number;
-  let max_loss: number;
-  let ev: number;
-  
-  if (candidate.strategy === 'BULL_CALL_DEBIT' || candidate.strategy === 'BEAR_PUT_DEBIT') {
-    // For debit spreads:
-    // - max_profit = width - debit
-    // - max_loss = debit
-    const debit = candidate.debit ?? Math.abs(candidate.credit);
-    max_profit = candidate.width - debit;
-    max_loss = debit;
-    // EV for debit spreads is computed differently (not using computeEV which is credit-focused)
-    // Use a simplified EV estimate: maxProfit * pop - maxLoss * (1 - pop)
-    ev = max_profit * pop - max_loss * (1 - pop);
-  } else {
-    // For credit spreads:
-    // - max_profit = credit
-    // - max_loss = width - credit
-    max_profit = candidate.credit;
-    max_loss = candidate.width - candidate.credit;
-    ev = computeEV({
-      pop,
-      credit: candidate.credit,
-      width: candidate.width,
-    });
-  }
-
-  const short_pct_spread = computePctSpread(shortOption.bid, shortOption.ask);
-  const long_pct_spread = computePctSpread(longOption.bid, longOption.ask);
-
-  return {
-    symbol: candidate.symbol,
-    expiration: candidate.expiration,
-    short_strike: candidate.short_strike,
-    long_strike: candidate.long_strike,
-    width: candidate.width,
-    credit: candidate.credit,
-    ivr,
-    rv_30d,
-    iv_30d,
-    vertical_skew,
-    verticalSkew: vertical_skew,
-    short_pct_spread,
-    long_spread: longOption.ask - longOption.bid,
-    long_pct_spread,
-    term_structure,
-    delta_short: shortOption.delta, // Will be negative for puts, positive for calls
-    delta_long: longOption.delta ?? undefined, // Will be negative for puts, positive for calls
-    pop,
-    max_profit,
-    max_loss,
-  };
+  return getStrategyPlugin(candidate.strategy).computeMetrics(candidate, rv_30d, iv_30d, ivr);
 }
 
 /**
@@ -1739,8 +1892,8 @@ export function computeCandidateMetrics(
  */
 async function filterByPortfolioNetCredit(
   env: Env,
-  candidates: ProposalCandidate[]
-): Promise<ProposalCandidate[]> {
+  candidates: ScoredCandidate[]
+): Promise<ScoredCandidate[]> {
   // Get all OPEN trades
   const openTrades = await getOpenTrades(env);
   
@@ -1748,6 +1901,17 @@ async function filterByPortfolioNetCredit(
   const { getDefaultTradeQuantity } = await import('../core/config');
   const defaultQuantity = await getDefaultTradeQuantity(env);
   
+  return filterCandidatesByNetPremium(candidates, openTrades, defaultQuantity);
+}
+
+/**
+ * Pure portfolio net credit filter over an explicit set of open trades
+ */
+export function filterCandidatesByNetPremium(
+  candidates: ScoredCandidate[],
+  openTrades: TradeRow[],
+  defaultQuantity: number
+): ScoredCandidate[] {
   // Compute existing portfolio net premium
   // NOTE: This calculation assumes entry_price represents credit received for credit spreads.
   // For debit spreads, entry_price would represent debit paid, which should be subtracted, not added.
@@ -1758,9 +1922,10 @@ async function filterByPortfolioNetCredit(
       continue; // Skip non-OPEN trades or trades without entry_price
     }
     
-    // Identify debit spreads: for debit spreads, max_profit > max_loss (since max_profit = width - debit, max_loss = debit)
-    // For credit spreads, max_profit < max_loss (since max_profit = credit, max_loss = width - credit)
-    const isDebitTrade = trade.max_profit != null && trade.max_loss != null && trade.max_profit > trade.max_loss;
+    // Identify debit spreads by strategy; fall back to max_profit > max_loss for legacy rows
+    // (debit verticals: max_profit = width - debit, max_loss = debit; credit: max_profit = credit, max_loss = width - credit)
+    const isDebitTrade = isDebitStrategy(trade.strategy) ||
+      (trade.max_profit != null && trade.max_loss != null && trade.max_profit > trade.max_loss);
     
     if (isDebitTrade) {
       // For debit spreads, entry_price is the debit paid (positive value)
@@ -1779,13 +1944,11 @@ async function filterByPortfolioNetCredit(
   
   // Filter candidates that would keep portfolio net-credit
   // Note: This check only applies to credit spreads. Debit spreads are allowed even if they make portfolio net-debit.
-  const filtered: ProposalCandidate[] = [];
+  const filtered: ScoredCandidate[] = [];
   
   for (const candidate of candidates) {
-    const isDebitSpread = candidate.strategy === 'BULL_CALL_DEBIT' || candidate.strategy === 'BEAR_PUT_DEBIT';
-    
     // Skip portfolio net-credit check for debit spreads (they're supposed to have negative credits)
-    if (isDebitSpread) {
+    if (isDebitStrategy(candidate.strategy)) {
       filtered.push(candidate);
       continue;
     }
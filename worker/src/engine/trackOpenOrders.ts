@@ -6,13 +6,13 @@
  */
 
 import type { Env } from '../env';
-import { TradierClient } from '../broker/tradierClient';
+import { createBroker } from '../broker/factory';
 import { getOrderByTradierOrderId, updateOrder } from '../db/queries_orders';
 import { getTrade } from '../db/queries';
 import { reconcileOrderWithTrade, syncSingleOrderFromTradier } from './orderSyncNew';
 
 export async function trackOpenOrdersFromTradier(env: Env, now: Date): Promise<void> {
-  const broker = new TradierClient(env);
+  const broker = await createBroker(env);
   
   try {
     console.log('[trackOpenOrders][start]', JSON.stringify({
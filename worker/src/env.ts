@@ -16,6 +16,9 @@ export interface Env {
   TELEGRAM_BOT_TOKEN?: string;
   TELEGRAM_CHAT_ID?: string;
 
+  // API keys for HTTP access: comma-separated name:role:key (see http/auth.ts)
+  API_KEYS?: string;
+
   // Optional: logging verbosity flags, etc.
   // LOG_LEVEL?: 'debug' | 'info' | 'warn' | 'error';
 }
@@ -0,0 +1,341 @@
+import type { Env } from '../env';
+import type { ConfigProfileRow, ConfigProfileSwitchRow } from '../types';
+import type { AuthPrincipal } from './auth';
+import {
+  getConfigProfiles,
+  getConfigProfile,
+  getConfigProfileByName,
+  upsertConfigProfile,
+  deleteConfigProfile,
+  getConfigProfileSwitches,
+  getConfigProfileSwitch,
+  getScheduledConfigProfileSwitches,
+  transitionConfigProfileSwitch,
+} from '../db/queries';
+import {
+  parseConfigProfile,
+  validateConfigProfileInput,
+  captureCurrentConfig,
+  diffConfigProfile,
+  getConfigProfileStatus,
+  getProfileSettingKeys,
+  applyConfigProfile,
+  scheduleConfigProfile,
+  rollbackConfigProfile,
+  type ConfigProfileInput,
+  type SwitchOptions,
+} from '../core/configProfiles';
+import { StrategyId } from '../strategy/types';
+
+const SWITCH_HISTORY_LIMIT = 50;
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function errorResponse(error: unknown): Response {
+  return jsonResponse({
+    timestamp: new Date().toISOString(),
+    error: error instanceof Error ? error.message : 'Unknown error',
+    stack: error instanceof Error ? error.stack : undefined,
+  }, 500);
+}
+
+/**
+ * Switch row for responses: changes parsed, previous_values left out (internal)
+ */
+function formatSwitch(row: ConfigProfileSwitchRow) {
+  const { previous_values: _previousValues, ...rest } = row;
+  return { ...rest, changes: row.changes ? JSON.parse(row.changes) : null };
+}
+
+function switchOptions(
+  request: Request,
+  body: { reason?: unknown },
+  principal: AuthPrincipal | null
+): SwitchOptions {
+  const header = request.headers.get('X-Audit-Reason')?.trim();
+  const reason = header || (typeof body.reason === 'string' && body.reason.trim()) || null;
+  return { actor: principal?.name ?? null, reason, now: new Date() };
+}
+
+async function readBody(request: Request): Promise<Record<string, unknown>> {
+  const text = await request.text();
+  return text ? JSON.parse(text) as Record<string, unknown> : {};
+}
+
+/**
+ * Admin endpoint to list configuration profiles
+ *
+ * Returns every profile, the active profile status (pending switches, keys modified
+ * since it was applied), the recent switch history, and the setting keys and strategies
+ * a profile can list.
+ */
+export async function handleAdminGetConfigProfiles(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const profiles = (await getConfigProfiles(env)).map(parseConfigProfile);
+    const status = await getConfigProfileStatus(env);
+    const switches = await getConfigProfileSwitches(env, SWITCH_HISTORY_LIMIT);
+
+    return jsonResponse({
+      timestamp: new Date().toISOString(),
+      profiles,
+      status: {
+        ...status,
+        last_switch: status.last_switch ? formatSwitch(status.last_switch) : null,
+        pending: status.pending.map(formatSwitch),
+      },
+      switches: switches.map(formatSwitch),
+      setting_keys: getProfileSettingKeys(),
+      strategy_ids: Object.values(StrategyId),
+    }, 200);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Admin endpoint to save a configuration profile
+ *
+ * Body: { id?, name, description?, settings?, strategies?, from_current? }. Without id
+ * a new profile is created; from_current: true takes settings and strategies from the
+ * current configuration. strategies: null (or omitted) enables every strategy.
+ */
+export async function handleAdminSaveConfigProfile(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const body = await readBody(request) as ConfigProfileInput & { id?: unknown; from_current?: unknown };
+    const existing = typeof body.id === 'string' && body.id ? await getConfigProfile(env, body.id) : null;
+    if (body.id && !existing) {
+      return jsonResponse({ error: `Profile not found: ${body.id}` }, 404);
+    }
+
+    const input: ConfigProfileInput = body.from_current === true
+      ? { ...body, ...(await captureCurrentConfig(env)) }
+      : body;
+    const { name, description, settings, strategies, errors } = validateConfigProfileInput(input);
+    if (errors.length > 0) {
+      return jsonResponse({ error: 'Invalid profile', details: errors }, 400);
+    }
+
+    const sameName = await getConfigProfileByName(env, name);
+    if (sameName && sameName.id !== existing?.id) {
+      return jsonResponse({ error: `A profile named ${name} already exists` }, 400);
+    }
+
+    const now = new Date().toISOString();
+    const row: ConfigProfileRow = {
+      id: existing?.id ?? crypto.randomUUID(),
+      name,
+      description,
+      settings: JSON.stringify(settings),
+      strategies: strategies ? JSON.stringify(strategies) : null,
+      created_at: existing?.created_at ?? now,
+      updated_at: now,
+    };
+    await upsertConfigProfile(env, row);
+
+    console.log('[admin][config_profiles][saved]', JSON.stringify({
+      id: row.id,
+      name: row.name,
+      created: !existing,
+      setting_count: Object.keys(settings).length,
+      strategies,
+    }));
+
+    return jsonResponse({
+      timestamp: now,
+      profile: parseConfigProfile(row),
+      success: true,
+    }, 200);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Admin endpoint to delete a configuration profile (?id=...)
+ *
+ * Refused while a scheduled switch still points at the profile; switch history keeps
+ * the profile's name.
+ */
+export async function handleAdminDeleteConfigProfile(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const id = new URL(request.url).searchParams.get('id');
+    if (!id) {
+      return jsonResponse({ error: 'Missing id' }, 400);
+    }
+
+    const pending = (await getScheduledConfigProfileSwitches(env)).filter(s => s.profile_id === id);
+    if (pending.length > 0) {
+      return jsonResponse({
+        error: 'Profile has scheduled switches; cancel them first',
+        details: pending.map(s => `${s.id} at ${s.activate_at}`),
+      }, 400);
+    }
+
+    const deleted = await deleteConfigProfile(env, id);
+
+    console.log('[admin][config_profiles][deleted]', JSON.stringify({ id, deleted }));
+
+    return jsonResponse({
+      timestamp: new Date().toISOString(),
+      id,
+      deleted,
+      success: deleted,
+    }, deleted ? 200 : 404);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Admin endpoint to diff a profile against the current settings (?id=...)
+ */
+export async function handleAdminDiffConfigProfile(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const id = new URL(request.url).searchParams.get('id');
+    const row = id ? await getConfigProfile(env, id) : null;
+    if (!row) {
+      return jsonResponse({ error: `Profile not found: ${id}` }, 404);
+    }
+
+    const profile = parseConfigProfile(row);
+    return jsonResponse({
+      timestamp: new Date().toISOString(),
+      profile,
+      changes: await diffConfigProfile(env, profile),
+    }, 200);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Admin endpoint to apply a profile now or at a future time
+ *
+ * Body: { id, activate_at?, reason? }. Without activate_at the settings change
+ * immediately; otherwise the first cron run at or after activate_at applies it.
+ */
+export async function handleAdminApplyConfigProfile(
+  request: Request,
+  env: Env,
+  principal: AuthPrincipal | null
+): Promise<Response> {
+  try {
+    const body = await readBody(request);
+    const id = typeof body.id === 'string' ? body.id : null;
+    const row = id ? await getConfigProfile(env, id) : null;
+    if (!row) {
+      return jsonResponse({ error: `Profile not found: ${id}` }, 404);
+    }
+
+    const options = switchOptions(request, body, principal);
+
+    if (body.activate_at !== undefined && body.activate_at !== null && body.activate_at !== '') {
+      const activateAt = new Date(String(body.activate_at));
+      if (Number.isNaN(activateAt.getTime())) {
+        return jsonResponse({ error: `Invalid activate_at: ${body.activate_at}` }, 400);
+      }
+      if (activateAt.getTime() <= options.now.getTime()) {
+        return jsonResponse({ error: 'activate_at must be in the future (omit it to apply now)' }, 400);
+      }
+      const scheduled = await scheduleConfigProfile(env, row, activateAt, options);
+      return jsonResponse({
+        timestamp: options.now.toISOString(),
+        switch: formatSwitch(scheduled),
+        success: true,
+      }, 200);
+    }
+
+    const result = await applyConfigProfile(env, row, options);
+    if ('error' in result) {
+      return jsonResponse({ error: result.error }, 400);
+    }
+    return jsonResponse({
+      timestamp: options.now.toISOString(),
+      switch: formatSwitch(result.switch),
+      success: true,
+    }, 200);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Admin endpoint to roll back the latest applied profile switch
+ *
+ * Body: { reason? }. Restores the settings as they were just before that switch;
+ * calling it again steps back through earlier switches.
+ */
+export async function handleAdminRollbackConfigProfile(
+  request: Request,
+  env: Env,
+  principal: AuthPrincipal | null
+): Promise<Response> {
+  try {
+    const body = await readBody(request);
+    const options = switchOptions(request, body, principal);
+    const result = await rollbackConfigProfile(env, options);
+    if ('error' in result) {
+      return jsonResponse({ error: result.error }, 400);
+    }
+    return jsonResponse({
+      timestamp: options.now.toISOString(),
+      switch: formatSwitch(result.switch),
+      success: true,
+    }, 200);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Admin endpoint to cancel a scheduled switch
+ *
+ * Body: { switch_id }.
+ */
+export async function handleAdminCancelConfigProfileSwitch(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const body = await readBody(request);
+    const switchId = typeof body.switch_id === 'string' ? body.switch_id : null;
+    if (!switchId) {
+      return jsonResponse({ error: 'Missing switch_id' }, 400);
+    }
+
+    const cancelled = await transitionConfigProfileSwitch(env, switchId, 'SCHEDULED', 'CANCELLED');
+    if (!cancelled) {
+      const existing = await getConfigProfileSwitch(env, switchId);
+      return existing
+        ? jsonResponse({ error: `Switch is ${existing.status}, not SCHEDULED` }, 400)
+        : jsonResponse({ error: `Switch not found: ${switchId}` }, 404);
+    }
+
+    console.log('[admin][config_profiles][cancelled]', JSON.stringify({ switch_id: switchId }));
+
+    return jsonResponse({
+      timestamp: new Date().toISOString(),
+      switch_id: switchId,
+      success: true,
+    }, 200);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,160 @@
+import type { Env } from '../env';
+import type { ExitProfileRow } from '../types';
+import {
+  getActiveExitProfiles,
+  getExitProfileHistory,
+  insertExitProfileVersion,
+  deactivateExitProfile,
+} from '../db/queries';
+import {
+  loadSettingsExitRules,
+  validateExitProfileRules,
+  EXIT_PROFILE_RULE_COLUMNS,
+  type ExitProfileRuleColumn,
+} from '../core/exitProfiles';
+import { findStrategyPlugin, getRegisteredStrategies } from '../strategy/registry';
+import { isValidSymbol } from '../core/symbols';
+
+type ExitProfileInput = Partial<Omit<ExitProfileRow, 'id' | 'version' | 'active' | 'created_at'>>;
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function errorResponse(error: unknown): Response {
+  return jsonResponse({
+    timestamp: new Date().toISOString(),
+    error: error instanceof Error ? error.message : 'Unknown error',
+    stack: error instanceof Error ? error.stack : undefined,
+  }, 500);
+}
+
+/**
+ * Admin endpoint to list exit profiles
+ *
+ * Returns active profiles, the settings-level rules each strategy inherits
+ * (CLOSE_RULE_* settings + strategy defaults) and, with ?history=1, every version.
+ */
+export async function handleAdminGetExitProfiles(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const includeHistory = url.searchParams.get('history') === '1';
+
+    const profiles = await getActiveExitProfiles(env);
+    const defaults: Record<string, unknown> = {};
+    for (const plugin of getRegisteredStrategies()) {
+      defaults[plugin.id] = await loadSettingsExitRules(env, plugin.id);
+    }
+
+    return jsonResponse({
+      timestamp: new Date().toISOString(),
+      profiles,
+      defaults,
+      history: includeHistory ? await getExitProfileHistory(env) : undefined,
+    }, 200);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Admin endpoint to save an exit profile
+ *
+ * Body: { strategy, symbol?, notes?, <rule columns> }. Rule columns left out or
+ * null inherit. Saving creates a new version and deactivates the previous one;
+ * open trades keep the rules snapshotted at their entry.
+ */
+export async function handleAdminSaveExitProfile(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const body = await request.json() as ExitProfileInput;
+    const strategy = body.strategy;
+
+    if (!strategy || !findStrategyPlugin(strategy)) {
+      return jsonResponse({ error: `Unknown strategy: ${strategy}` }, 400);
+    }
+
+    const symbol = body.symbol ? body.symbol.trim().toUpperCase() : null;
+    if (symbol && !isValidSymbol(symbol)) {
+      return jsonResponse({ error: `Invalid symbol: ${symbol}` }, 400);
+    }
+    const errors = validateExitProfileRules(body);
+    if (errors.length > 0) {
+      return jsonResponse({ error: 'Invalid exit profile', details: errors }, 400);
+    }
+
+    const rules = Object.fromEntries(
+      EXIT_PROFILE_RULE_COLUMNS.map(column => [column, body[column] ?? null])
+    ) as Pick<ExitProfileRow, ExitProfileRuleColumn>;
+
+    const profile = await insertExitProfileVersion(env, {
+      ...rules,
+      strategy,
+      symbol,
+      notes: body.notes ?? null,
+    });
+
+    console.log('[admin][exit_profiles][saved]', JSON.stringify({
+      id: profile.id,
+      strategy: profile.strategy,
+      symbol: profile.symbol,
+      version: profile.version,
+    }));
+
+    return jsonResponse({
+      timestamp: new Date().toISOString(),
+      profile,
+      success: true,
+    }, 200);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Admin endpoint to remove an exit profile (?strategy=...&symbol=...)
+ *
+ * Deactivates the current version so its rules fall back to the strategy-wide
+ * profile or settings; history is kept.
+ */
+export async function handleAdminDeleteExitProfile(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const strategy = url.searchParams.get('strategy');
+    const symbolParam = url.searchParams.get('symbol');
+    const symbol = symbolParam ? symbolParam.trim().toUpperCase() : null;
+
+    if (!strategy) {
+      return jsonResponse({ error: 'Missing strategy' }, 400);
+    }
+
+    const deactivated = await deactivateExitProfile(env, strategy, symbol);
+
+    console.log('[admin][exit_profiles][removed]', JSON.stringify({
+      strategy,
+      symbol,
+      deactivated,
+    }));
+
+    return jsonResponse({
+      timestamp: new Date().toISOString(),
+      strategy,
+      symbol,
+      deactivated,
+      success: deactivated > 0,
+    }, deactivated > 0 ? 200 : 404);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,46 @@
+import type { Env } from '../env';
+import { getMarketSession, getUpcomingCalendarEvents, getMarketCalendarOverrides } from '../core/marketCalendar';
+import { getETDateString } from '../core/time';
+
+/**
+ * Admin endpoint to view the market calendar
+ *
+ * Returns today's session, holidays / early closes / overrides over the next
+ * ?days=N (default 90) and the active MARKET_CALENDAR_OVERRIDES entries.
+ * Overrides are edited through /v2/admin/settings.
+ */
+export async function handleAdminGetMarketCalendar(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const days = Math.min(730, Math.max(1, parseInt(url.searchParams.get('days') || '90', 10) || 90));
+    const today = getETDateString(new Date());
+
+    return new Response(
+      JSON.stringify({
+        timestamp: new Date().toISOString(),
+        today: getMarketSession(today),
+        upcoming: getUpcomingCalendarEvents(today, days),
+        overrides: getMarketCalendarOverrides(),
+      }, null, 2),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({
+        timestamp: new Date().toISOString(),
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
@@ -1,8 +1,21 @@
 import type { Env } from '../env';
-import { getSetting, setSetting, getAllSettings } from '../db/queries';
+import { getSetting, setSetting, deleteSetting, getAllSettings } from '../db/queries';
+import type { TradingMode } from '../core/config';
+import {
+  SETTING_CATEGORIES,
+  listSettingDefinitions,
+  getSettingDefinition,
+  resolveSetting,
+  validateSettingValue,
+  type ResolvedSetting,
+} from '../core/settings';
 
 /**
  * Admin endpoint to get all system settings
+ *
+ * settings: stored values by registry category (unregistered keys under other)
+ * schema / categories: the settings registry, for rendering the form
+ * effective: value the engine uses for each registered key and where it came from
  */
 export async function handleAdminGetSettings(
   request: Request,
@@ -10,28 +23,24 @@ export async function handleAdminGetSettings(
 ): Promise<Response> {
   try {
     const settings = await getAllSettings(env);
+    const values = new Map(settings.map(s => [s.key, s.value]));
     
-    // Organize settings by category
-    const organized: Record<string, Record<string, string>> = {
-      trading: {},
-      scoring: {},
-      risk: {},
-      exitRules: {},
-      other: {},
-    };
-    
+    // Organize settings by registry category
+    const organized: Record<string, Record<string, string>> = Object.fromEntries(
+      SETTING_CATEGORIES.map(category => [category.id, {}])
+    );
     for (const setting of settings) {
-      const key = setting.key;
-      if (key.startsWith('TRADING_MODE') || key.startsWith('AUTO_MODE')) {
-        organized.trading[key] = setting.value;
-      } else if (key.startsWith('MIN_SCORE')) {
-        organized.scoring[key] = setting.value;
-      } else if (key.startsWith('MAX_') || key.startsWith('ACCOUNT_')) {
-        organized.risk[key] = setting.value;
-      } else if (key.startsWith('CLOSE_RULE_')) {
-        organized.exitRules[key] = setting.value;
-      } else {
-        organized.other[key] = setting.value;
+      const category = getSettingDefinition(setting.key)?.category ?? 'other';
+      organized[category][setting.key] = setting.value;
+    }
+    
+    // Mode variants (e.g. MIN_SCORE_PAPER) resolve for the current trading mode
+    const mode = resolveSetting(values, 'TRADING_MODE').value as TradingMode;
+    const effective: Record<string, Omit<ResolvedSetting, 'key'>> = {};
+    for (const definition of listSettingDefinitions()) {
+      if (!definition.variantOf) {
+        const { value, source } = resolveSetting(values, definition.key, mode);
+        effective[definition.key] = { value, source };
       }
     }
     
@@ -39,7 +48,10 @@ export async function handleAdminGetSettings(
       JSON.stringify({
         timestamp: new Date().toISOString(),
         settings: organized,
-        all: Object.fromEntries(settings.map(s => [s.key, s.value])),
+        all: Object.fromEntries(values),
+        schema: listSettingDefinitions(),            // validate functions are dropped by JSON
+        categories: SETTING_CATEGORIES,
+        effective,
       }, null, 2),
       {
         status: 200,
@@ -63,6 +75,10 @@ export async function handleAdminGetSettings(
 
 /**
  * Admin endpoint to update a system setting
+ *
+ * Only registered keys are accepted and values are validated against the registry
+ * (400 with details otherwise). An empty value deletes the setting so its default
+ * (or legacy key) applies again.
  */
 export async function handleAdminUpdateSetting(
   request: Request,
@@ -72,7 +88,7 @@ export async function handleAdminUpdateSetting(
     const body = await request.json() as { key: string; value: string };
     const { key, value } = body;
     
-    if (!key || value === undefined) {
+    if (!key || typeof value !== 'string') {
       return new Response(
         JSON.stringify({
           error: 'Missing key or value',
@@ -84,7 +100,25 @@ export async function handleAdminUpdateSetting(
       );
     }
     
-    await setSetting(env, key, value);
+    const errors = validateSettingValue(key, value);
+    if (errors.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: getSettingDefinition(key) ? `Invalid ${key}` : 'Unknown setting',
+          details: errors,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+    
+    if (value.trim() === '') {
+      await deleteSetting(env, key);
+    } else {
+      await setSetting(env, key, value.trim());
+    }
     
     // Return updated value
     const updated = await getSetting(env, key);
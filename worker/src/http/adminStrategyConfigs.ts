@@ -0,0 +1,151 @@
+import type { Env } from '../env';
+import {
+  getActiveStrategyConfigs,
+  getStrategyConfigHistory,
+  insertStrategyConfigVersion,
+  deactivateStrategyConfig,
+} from '../db/queries';
+import {
+  STRATEGY_CONFIGS,
+  StrategyId,
+  getStrategyConfig,
+  loadStrategyConfigs,
+  validateStrategyConfig,
+} from '../strategy/config';
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function errorResponse(error: unknown): Response {
+  return jsonResponse({
+    timestamp: new Date().toISOString(),
+    error: error instanceof Error ? error.message : 'Unknown error',
+    stack: error instanceof Error ? error.stack : undefined,
+  }, 500);
+}
+
+function isStrategyId(value: unknown): value is StrategyId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(STRATEGY_CONFIGS, value);
+}
+
+/**
+ * Admin endpoint to list strategy configs
+ *
+ * For each strategy: the config in effect, the seed default and the active runtime
+ * version (null = seed default in effect). With ?history=1, every saved version.
+ */
+export async function handleAdminGetStrategyConfigs(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const includeHistory = url.searchParams.get('history') === '1';
+
+    const active = new Map((await getActiveStrategyConfigs(env)).map(row => [row.strategy, row]));
+    const strategies = (Object.keys(STRATEGY_CONFIGS) as StrategyId[]).map(strategyId => {
+      const row = active.get(strategyId);
+      return {
+        strategy: strategyId,
+        config: getStrategyConfig(strategyId),
+        default: STRATEGY_CONFIGS[strategyId],
+        version: row ? { id: row.id, version: row.version, notes: row.notes, created_at: row.created_at } : null,
+      };
+    });
+
+    return jsonResponse({
+      timestamp: new Date().toISOString(),
+      strategies,
+      history: includeHistory
+        ? (await getStrategyConfigHistory(env)).map(row => ({ ...row, config: JSON.parse(row.config) }))
+        : undefined,
+    }, 200);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Admin endpoint to save a strategy config
+ *
+ * Body: { strategy, config, notes? } with the full config (see StrategyConfig).
+ * Saving creates a new version and deactivates the previous one; it applies from
+ * the next proposal cycle.
+ */
+export async function handleAdminSaveStrategyConfig(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const body = await request.json() as { strategy?: unknown; config?: unknown; notes?: unknown };
+    if (!isStrategyId(body.strategy)) {
+      return jsonResponse({ error: `Unknown strategy: ${body.strategy}` }, 400);
+    }
+
+    const { config, errors } = validateStrategyConfig(body.strategy, body.config);
+    if (!config) {
+      return jsonResponse({ error: 'Invalid strategy config', details: errors }, 400);
+    }
+
+    const { id: _id, ...stored } = config;
+    const row = await insertStrategyConfigVersion(env, {
+      strategy: body.strategy,
+      config: JSON.stringify(stored),
+      notes: typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim() : null,
+    });
+    await loadStrategyConfigs(env);
+
+    console.log('[admin][strategy_configs][saved]', JSON.stringify({
+      id: row.id,
+      strategy: row.strategy,
+      version: row.version,
+      enabled_paper: config.enabledPaper,
+      enabled_live: config.enabledLive,
+    }));
+
+    return jsonResponse({
+      timestamp: new Date().toISOString(),
+      strategy: row.strategy,
+      version: row.version,
+      config,
+      success: true,
+    }, 200);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * Admin endpoint to reset a strategy to its seed default (?strategy=...)
+ *
+ * Deactivates the active version; history is kept.
+ */
+export async function handleAdminResetStrategyConfig(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const strategy = new URL(request.url).searchParams.get('strategy');
+    if (!isStrategyId(strategy)) {
+      return jsonResponse({ error: `Unknown strategy: ${strategy}` }, 400);
+    }
+
+    const deactivated = await deactivateStrategyConfig(env, strategy);
+    await loadStrategyConfigs(env);
+
+    console.log('[admin][strategy_configs][reset]', JSON.stringify({ strategy, deactivated }));
+
+    return jsonResponse({
+      timestamp: new Date().toISOString(),
+      strategy,
+      deactivated,
+      success: deactivated > 0,
+    }, deactivated > 0 ? 200 : 404);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
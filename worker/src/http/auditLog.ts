@@ -0,0 +1,111 @@
+import type { Env } from '../env';
+import { getAuditLog } from '../db/queries';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+const TARGET_TYPES = ['trade', 'settings', 'risk_state', 'exit_profile', 'strategy_config', 'config_profile', 'request'];
+
+function parseJson(value: string | null): unknown {
+  if (!value) {
+    return null;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function parseTimestamp(value: string | null, name: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Audit trail endpoint
+ *
+ * Newest first. Filters (all optional):
+ * ?actor=kevin&path=/v2/admin&target_type=trade&target_id=<id>&since=2026-01-01&until=2026-02-01&limit=100
+ *
+ * target_id matches the id exactly or one of the comma-separated keys (settings and
+ * risk_state rows list every changed key).
+ */
+export async function handleAuditLog(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const params = new URL(request.url).searchParams;
+
+    let since: string | undefined;
+    let until: string | undefined;
+    try {
+      since = parseTimestamp(params.get('since'), 'since');
+      until = parseTimestamp(params.get('until'), 'until');
+    } catch (error) {
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const targetType = params.get('target_type') || undefined;
+    if (targetType && !TARGET_TYPES.includes(targetType)) {
+      return new Response(
+        JSON.stringify({ error: `Invalid target_type: ${targetType} (expected ${TARGET_TYPES.join(', ')})` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const requestedLimit = parseInt(params.get('limit') || '', 10);
+    const limit = Number.isFinite(requestedLimit) && requestedLimit > 0
+      ? Math.min(requestedLimit, MAX_LIMIT)
+      : DEFAULT_LIMIT;
+
+    const rows = await getAuditLog(env, {
+      actor: params.get('actor') || undefined,
+      path: params.get('path') || undefined,
+      targetType,
+      targetId: params.get('target_id') || undefined,
+      since,
+      until,
+      limit,
+    });
+
+    return new Response(
+      JSON.stringify({
+        timestamp: new Date().toISOString(),
+        count: rows.length,
+        limit,
+        entries: rows.map(row => ({
+          ...row,
+          request_body: parseJson(row.request_body),
+          before_value: parseJson(row.before_value),
+          after_value: parseJson(row.after_value),
+        })),
+      }, null, 2),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({
+        timestamp: new Date().toISOString(),
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Authentication and Role-Based Access
+ *
+ * Every HTTP request except GET /health needs an API key:
+ *
+ *   Authorization: Bearer <key>
+ *
+ * Keys live in the API_KEYS Worker secret (`wrangler secret put API_KEYS`), comma
+ * separated `name:role:key` entries, e.g.
+ *
+ *   kevin:admin:3f9c...,dashboard:viewer:a71e...
+ *
+ * Roles are ordered viewer < operator < admin:
+ * - viewer: read-only GET endpoints
+ * - operator: actions on trades and data (force exit, mark closed, syncs, backfills,
+ *   test cycles, daily summary generation)
+ * - admin: settings, strategy configs, exit and configuration profiles, system mode,
+ *   auto mode, reconcile/repair and anything that can change what or how the system trades
+ *
+ * The route policy is ROUTE_RULES (first match wins). Routes not listed require
+ * viewer for GET and admin for any other method, so a new mutating endpoint is
+ * admin-only until it is classified here. Without API_KEYS every protected route
+ * answers 503 (fail closed).
+ */
+
+import type { Env } from '../env';
+
+export type Role = 'viewer' | 'operator' | 'admin';
+
+export interface AuthPrincipal {
+  name: string;
+  role: Role;
+}
+
+interface ApiKeyEntry extends AuthPrincipal {
+  key: string;
+}
+
+interface RouteRule {
+  path: string | RegExp;
+  methods?: string[];             // omitted = any method
+  role: Role | 'public';
+}
+
+const ROLE_RANK: Record<Role, number> = { viewer: 1, operator: 2, admin: 3 };
+
+const ROUTE_RULES: RouteRule[] = [
+  { path: '/health', methods: ['GET'], role: 'public' },
+
+  // Admin: configuration, trading mode and broker reconciliation
+  { path: /^\/v2\/admin\/(settings|exit-profiles|strategy-configs|config-profiles(\/diff)?)$/, methods: ['GET'], role: 'viewer' },
+  { path: '/v2/admin/market-calendar', methods: ['GET'], role: 'viewer' },
+  { path: /^\/v2\/admin\//, role: 'admin' },
+  { path: '/debug/system-mode', methods: ['GET'], role: 'viewer' },
+  { path: '/debug/system-mode', role: 'admin' },
+  { path: '/debug/enable-auto-mode', role: 'admin' },
+  { path: '/debug/remove-strategy-whitelist', role: 'admin' },
+  { path: '/debug/remove-symbol-whitelist', role: 'admin' },
+  { path: '/debug/set-concentration-limits', role: 'admin' },
+  { path: '/debug/double-daily-limits', role: 'admin' },
+  { path: '/debug/init-exit-rules', role: 'admin' },
+  { path: '/debug/migrate-tradier-first', role: 'admin' },
+  { path: '/debug/create-test-trade', role: 'admin' },
+  { path: '/test/reset-risk-state', role: 'admin' },
+
+  // Operator: trade and data actions (some of these are GET but write)
+  { path: /^\/debug\/force-exit\/[^/]+$/, role: 'operator' },
+  { path: '/debug/mark-trade-closed', role: 'operator' },
+  { path: '/debug/test-close-position', role: 'operator' },
+  { path: '/debug/cleanup-price-snaps', role: 'operator' },
+  { path: '/debug/fix-trade-strategies', role: 'operator' },
+  { path: '/debug/sync-pending-orders', role: 'operator' },
+  { path: '/debug/sync-trade-quantities', role: 'operator' },
+  { path: '/debug/update-quantities', role: 'operator' },
+  { path: '/debug/backfill-entry-prices', role: 'operator' },
+  { path: '/debug/monitor', role: 'operator' }, // runs a monitor cycle (can place exit orders)
+  { path: '/debug/portfolio-sync', role: 'operator' },
+  { path: '/debug/tradier/snapshot', role: 'operator' }, // ?sync=true writes a new snapshot
+  { path: '/debug/trade-cycle-status', role: 'operator' }, // syncs portfolio, orders and balances from Tradier
+  { path: '/debug/pnl', role: 'operator' }, // evaluateOpenTrade records peak profit and price snaps
+  { path: '/debug/investigate-issues', role: 'operator' }, // evaluateOpenTrade, same as /debug/pnl
+  { path: '/debug/regime', role: 'operator' }, // detectRegime writes the REGIME_<symbol> hysteresis state
+  { path: '/debug/regime-confidence', role: 'operator' }, // detectRegime, same as /debug/regime
+  { path: '/debug/live-signals', role: 'operator' }, // detectRegime, same as /debug/regime
+  { path: '/debug/strategy-status', role: 'operator' }, // detectRegime, same as /debug/regime
+  { path: '/v2/debug/backfill-missing-trades', role: 'operator' },
+  { path: '/v2/debug/backfill-exit-prices', role: 'operator' },
+  { path: '/v2/debug/cleanup-stale-positions', role: 'operator' },
+  { path: '/v2/debug/force-portfolio-sync', role: 'operator' },
+  { path: /^\/test\//, role: 'operator' },
+  { path: /^\/(v2\/)?daily-summary$/, methods: ['POST'], role: 'operator' },
+  { path: '/debug/scoring', methods: ['POST'], role: 'viewer' },
+  { path: '/v2/scenarios', methods: ['GET', 'POST'], role: 'viewer' },
+];
+
+/**
+ * Role required for a route (null = public)
+ */
+export function getRequiredRole(path: string, method: string): Role | null {
+  for (const rule of ROUTE_RULES) {
+    const pathMatches = typeof rule.path === 'string' ? rule.path === path : rule.path.test(path);
+    if (pathMatches && (!rule.methods || rule.methods.includes(method))) {
+      return rule.role === 'public' ? null : rule.role;
+    }
+  }
+  return method === 'GET' ? 'viewer' : 'admin';
+}
+
+/**
+ * Routes needing operator or admin act on the system and are recorded in audit_log
+ */
+export function isAuditedRoute(path: string, method: string): boolean {
+  const required = getRequiredRole(path, method);
+  return required === 'operator' || required === 'admin';
+}
+
+export function hasRole(principal: AuthPrincipal, required: Role): boolean {
+  return ROLE_RANK[principal.role] >= ROLE_RANK[required];
+}
+
+/**
+ * Parse API_KEYS: comma-separated name:role:key entries
+ */
+export function parseApiKeys(value: string | null | undefined): { keys: ApiKeyEntry[]; errors: string[] } {
+  const keys: ApiKeyEntry[] = [];
+  const errors: string[] = [];
+
+  for (const raw of (value ?? '').split(',')) {
+    const entry = raw.trim();
+    if (!entry) {
+      continue;
+    }
+    const [name, role, ...rest] = entry.split(':');
+    const key = rest.join(':');
+    if (!name || !key) {
+      errors.push(`Invalid entry (expected name:role:key): ${name || '(empty)'}`);
+    } else if (!Object.prototype.hasOwnProperty.call(ROLE_RANK, role)) {
+      errors.push(`Invalid role for ${name}: ${role}`);
+    } else if (key.length < 16) {
+      errors.push(`Key for ${name} is shorter than 16 characters`);
+    } else {
+      keys.push({ name, role: role as Role, key });
+    }
+  }
+
+  return { keys, errors };
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Compare digests so the comparison time does not depend on the key
+ */
+async function keysMatch(provided: string, expected: string): Promise<boolean> {
+  const [a, b] = await Promise.all([sha256Hex(provided), sha256Hex(expected)]);
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function authError(status: number, error: string): Response {
+  return new Response(JSON.stringify({ error }), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {}),
+    },
+  });
+}
+
+/**
+ * Authenticate the request's bearer key (null = missing or unknown key)
+ */
+export async function authenticateRequest(request: Request, env: Env): Promise<AuthPrincipal | null> {
+  const header = request.headers.get('Authorization') ?? '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return null;
+  }
+  const provided = match[1].trim();
+  const { keys } = parseApiKeys(env.API_KEYS);
+  for (const entry of keys) {
+    if (await keysMatch(provided, entry.key)) {
+      return { name: entry.name, role: entry.role };
+    }
+  }
+  return null;
+}
+
+/**
+ * Check the request against the route policy
+ *
+ * Returns the principal (null for public routes) or the 401/403/503 response to send.
+ */
+export async function authorizeRequest(
+  request: Request,
+  env: Env,
+  path: string
+): Promise<{ principal: AuthPrincipal | null } | Response> {
+  const required = getRequiredRole(path, request.method);
+  if (required === null) {
+    return { principal: null };
+  }
+
+  const { keys, errors } = parseApiKeys(env.API_KEYS);
+  if (errors.length > 0) {
+    console.warn('[auth] invalid_api_keys', JSON.stringify({ errors }));
+  }
+  if (keys.length === 0) {
+    console.error('[auth] not_configured', JSON.stringify({ path, method: request.method }));
+    return authError(503, 'Authentication is not configured (set the API_KEYS secret)');
+  }
+
+  const principal = await authenticateRequest(request, env);
+  if (!principal) {
+    console.warn('[auth][denied]', JSON.stringify({ path, method: request.method, reason: 'unauthenticated' }));
+    return authError(401, 'Missing or invalid API key');
+  }
+  if (!hasRole(principal, required)) {
+    console.warn('[auth][denied]', JSON.stringify({
+      path,
+      method: request.method,
+      reason: 'insufficient_role',
+      name: principal.name,
+      role: principal.role,
+      required,
+    }));
+    return authError(403, `Requires ${required} role (${principal.name} is ${principal.role})`);
+  }
+
+  return { principal };
+}
+
+/**
+ * GET /v2/auth/me: the caller's name and role (the web app uses it to hide controls)
+ */
+export function handleAuthMe(principal: AuthPrincipal | null): Response {
+  return new Response(
+    JSON.stringify({
+      timestamp: new Date().toISOString(),
+      name: principal?.name ?? null,
+      role: principal?.role ?? null,
+    }),
+    {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    }
+  );
+}
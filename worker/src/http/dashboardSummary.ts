@@ -3,6 +3,7 @@ import { getLatestAccountSnapshot, getOpenTrades } from '../db/queries';
 import { isMarketHours, isTradingDay, isPreMarket, isPostMarket } from '../core/time';
 import { getTradingMode } from '../core/config';
 import { runAccountSync } from '../cron/accountSync';
+import { getConfigProfileStatus } from '../core/configProfiles';
 
 export interface DashboardSummaryResponse {
   mode: string;
@@ -22,6 +23,20 @@ export interface DashboardSummaryResponse {
   trades_closed_today: number;
 
   last_updated: string | null;
+
+  config_profile: {
+    active_profile_id: string | null;
+    active_profile_name: string | null;
+    modified_keys: string[];
+    last_switch: {
+      action: string;
+      status: string;
+      profile_name: string | null;
+      actor: string | null;
+      applied_at: string | null;
+    } | null;
+    next_switch: { profile_name: string | null; activate_at: string } | null;
+  };
 }
 
 export async function handleDashboardSummary(
@@ -64,6 +79,9 @@ export async function handleDashboardSummary(
   };
 
   const openTrades = await getOpenTrades(env);
+  const profileStatus = await getConfigProfileStatus(env);
+  const lastSwitch = profileStatus.last_switch;
+  const nextSwitch = profileStatus.pending[0] ?? null;
   const tradingDay = isTradingDay(now);
   const marketHours = isMarketHours(now);
   let marketStatus: DashboardSummaryResponse['market_status'] = 'CLOSED';
@@ -96,6 +114,23 @@ export async function handleDashboardSummary(
     trades_closed_today: trades_closed_today ?? 0,
 
     last_updated: captured_at ?? null,
+
+    config_profile: {
+      active_profile_id: profileStatus.active_profile_id,
+      active_profile_name: profileStatus.active_profile_name,
+      modified_keys: profileStatus.modified_keys,
+      last_switch: lastSwitch && {
+        action: lastSwitch.action,
+        status: lastSwitch.status,
+        profile_name: lastSwitch.profile_name,
+        actor: lastSwitch.actor,
+        applied_at: lastSwitch.applied_at,
+      },
+      next_switch: nextSwitch && {
+        profile_name: nextSwitch.profile_name,
+        activate_at: nextSwitch.activate_at,
+      },
+    },
   };
 
   return new Response(JSON.stringify(body), {
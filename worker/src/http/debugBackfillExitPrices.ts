@@ -6,6 +6,7 @@
 import type { Env } from '../env';
 import { getAllTrades, getTrade, updateTrade } from '../db/queries';
 import { TradierClient } from '../broker/tradierClient';
+import { isDebitStrategy } from '../strategy/registry';
 
 export async function handleDebugBackfillExitPrices(
   request: Request,
@@ -121,7 +122,7 @@ export async function handleDebugBackfillExitPrices(
         }
         
         // Calculate realized_pnl
-        const isDebitSpread = trade.strategy === 'BULL_CALL_DEBIT' || trade.strategy === 'BEAR_PUT_DEBIT';
+        const isDebitSpread = isDebitStrategy(trade.strategy);
         const quantity = trade.quantity ?? 1;
         let realized_pnl: number;
         
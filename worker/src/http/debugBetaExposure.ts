@@ -0,0 +1,48 @@
+/**
+ * Debug endpoint: /debug/beta-exposure
+ * 
+ * Returns the beta-weighted SPY delta of the portfolio:
+ * - Estimated beta to SPY per underlying (from stored daily bars)
+ * - Net and SPY-weighted delta per underlying and per trade
+ * - Position vs the target delta band used by the proposal ranker
+ */
+
+import type { Env } from '../env';
+import { TradierClient } from '../broker/tradierClient';
+import { computeBetaWeightedExposure } from '../core/beta';
+
+export async function handleDebugBetaExposure(env: Env): Promise<Response> {
+  try {
+    const broker = new TradierClient(env);
+    const exposure = await computeBetaWeightedExposure(env, broker, new Date());
+    
+    const response = {
+      spy_price: exposure.spy_price,
+      spy_weighted_delta: exposure.spy_weighted_delta,
+      target_band: exposure.band,
+      band_status: exposure.band_status,
+      net: exposure.greeks.net,
+      betas: exposure.betas,
+      by_symbol: exposure.greeks.by_symbol,
+      by_trade: exposure.greeks.by_trade,
+      positions: exposure.greeks.positions,
+      missing_greeks: exposure.greeks.missing_greeks,
+      timestamp: exposure.as_of,
+    };
+    
+    return new Response(JSON.stringify(response, null, 2), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('[debug][beta-exposure][error]', error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : String(error),
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
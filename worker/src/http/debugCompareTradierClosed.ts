@@ -7,6 +7,7 @@ import type { Env } from '../env';
 import { getTradesToday } from '../db/queries';
 import { getETDateString } from '../core/time';
 import { TradierClient } from '../broker/tradierClient';
+import { getStrategyOptionType } from '../strategy/registry';
 
 export async function handleDebugCompareTradierClosed(
   request: Request,
@@ -67,7 +68,7 @@ export async function handleDebugCompareTradierClosed(
     
     for (const trade of ourClosedTrades) {
       // For spread trades, we need to check both legs
-      const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
+      const optionType = getStrategyOptionType(trade.strategy);
       
       // Try to match by finding positions that match our trade's legs
       // This is simplified - in reality we'd need to construct option symbols
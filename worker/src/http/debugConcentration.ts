@@ -6,10 +6,13 @@
  * - Quantity per symbol per side
  * - Current limits
  * - Why new trades might be allowed/rejected
+ * - Correlation clusters and their exposure per directional bias
  */
 
 import type { Env } from '../env';
 import { getOpenTrades, getSetting } from '../db/queries';
+import { getCorrelationConfig, getUnderlyingWhitelist } from '../core/config';
+import { getCorrelationClusters, computeClusterExposure } from '../core/correlation';
 
 export async function handleDebugConcentration(env: Env): Promise<Response> {
   try {
@@ -29,6 +32,15 @@ export async function handleDebugConcentration(env: Env): Promise<Response> {
       10
     ) || 10;
     
+    // Correlation clusters over open symbols and the underlying whitelist
+    const correlationConfig = await getCorrelationConfig(env);
+    const clusterSymbols = [
+      ...openTrades.map(t => t.symbol).filter(Boolean),
+      ...(await getUnderlyingWhitelist(env)),
+    ];
+    const { clusters, pairs } = await getCorrelationClusters(env, clusterSymbols, new Date(), correlationConfig);
+    const clusterExposure = computeClusterExposure(clusters, openTrades);
+    
     // Group by symbol
     const bySymbol: Record<string, {
       trades: typeof openTrades;
@@ -90,6 +102,23 @@ export async function handleDebugConcentration(env: Env): Promise<Response> {
         MAX_SPREADS_PER_SYMBOL: maxSpreadsPerSymbol,
         MAX_QTY_PER_SYMBOL_PER_SIDE: maxQtyPerSymbolPerSide,
         MAX_TRADE_QUANTITY: maxTradeQuantity,
+        CLUSTER_MAX_RISK: correlationConfig.clusterMaxRisk > 0 ? correlationConfig.clusterMaxRisk : null,
+      },
+      clusters: {
+        source: correlationConfig.groups ? 'CONFIGURED' : 'COMPUTED',
+        threshold: correlationConfig.threshold,
+        lookback_days: correlationConfig.lookbackDays,
+        groups: clusterExposure.map(({ cluster, by_bias }) => ({
+          id: cluster.id,
+          symbols: cluster.symbols,
+          by_bias,
+          at_limit: correlationConfig.clusterMaxRisk > 0
+            ? Object.entries(by_bias)
+                .filter(([, bucket]) => bucket.max_loss >= correlationConfig.clusterMaxRisk)
+                .map(([bias]) => bias)
+            : [],
+        })),
+        pair_correlations: pairs,
       },
       symbols: {},
       summary: {
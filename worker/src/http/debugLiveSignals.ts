@@ -4,14 +4,19 @@
  * Returns live market signals including:
  * - Price, SMA_5, SMA_20, SMA_50
  * - VIX, ATR_10
+ * - RSI_14, Bollinger width, 20-day momentum
  * - Momentum state, volatility state
  * - Current regime and allowed strategies
+ *
+ * Indicators come from the daily bar store (completed sessions, refreshed premarket).
  */
 
 import type { Env } from '../env';
 import { TradierClient } from '../broker/tradierClient';
 import { detectRegime, getStrategiesForRegime } from '../core/regime';
-import { computeSMA20 } from '../core/trend';
+import { getRegimeStrategyMap } from '../core/config';
+import { loadDailyBars, closesOf } from '../core/dailyBars';
+import { sma, atr, rsi, bollingerWidth, momentum } from '../core/indicators';
 
 export async function handleDebugLiveSignals(env: Env): Promise<Response> {
   try {
@@ -22,16 +27,21 @@ export async function handleDebugLiveSignals(env: Env): Promise<Response> {
     const underlying = await broker.getUnderlyingQuote(symbol);
     const currentPrice = underlying.last;
     
-    // Compute SMAs (placeholder until historical data is fully implemented)
-    const sma20 = await computeSMA20(env, symbol);
-    const sma5 = await computeSMA5(env, symbol); // Placeholder
-    const sma50 = await computeSMA50(env, symbol); // Placeholder
+    // Compute indicators from stored daily bars
+    const now = new Date();
+    const bars = await loadDailyBars(env, symbol, now);
+    const closes = closesOf(bars);
+    const sma5 = sma(closes, 5);
+    const sma20 = sma(closes, 20);
+    const sma50 = sma(closes, 50);
+    const atr10 = atr(bars, 10);
+    const rsi14 = rsi(closes, 14);
+    const bbWidth20 = bollingerWidth(closes, 20, 2);
+    const momentum20 = momentum(closes, 20);
     
-    // Compute ATR_10 (placeholder)
-    const atr10 = await computeATR10(env, symbol);
-    
-    // Get VIX (placeholder - would need VIX data source)
-    const vix = await getVIX(env);
+    // VIX: last stored close (previous session)
+    const vixBars = await loadDailyBars(env, 'VIX', now);
+    const vix = vixBars.length > 0 ? vixBars[vixBars.length - 1].close : null;
     
     // Determine momentum state
     let momentumState: 'UP' | 'DOWN' | 'NEUTRAL' = 'NEUTRAL';
@@ -54,8 +64,11 @@ export async function handleDebugLiveSignals(env: Env): Promise<Response> {
     }
     
     // Detect regime
-    const regimeState = await detectRegime(env, symbol, currentPrice);
-    const { enabled: strategiesAllowed } = getStrategiesForRegime(regimeState.regime);
+    const regimeState = await detectRegime(env, symbol, currentPrice, now);
+    const { enabled: strategiesAllowed } = getStrategiesForRegime(regimeState.regime, {
+      volatility: regimeState.volatility,
+      mapping: await getRegimeStrategyMap(env),
+    });
     
     const response = {
       symbol,
@@ -65,11 +78,17 @@ export async function handleDebugLiveSignals(env: Env): Promise<Response> {
       SMA_50: sma50,
       VIX: vix,
       ATR_10: atr10,
+      RSI_14: rsi14,
+      BB_WIDTH_20: bbWidth20,
+      MOMENTUM_20: momentum20,
+      bars_as_of: bars.length > 0 ? bars[bars.length - 1].date : null,
       momentum_state: momentumState,
       volatility_state: volatilityState,
       regime: regimeState.regime,
+      regime_confidence: regimeState.confidence,
+      regime_volatility: regimeState.volatility,
       strategies_allowed: strategiesAllowed,
-      timestamp: new Date().toISOString(),
+      timestamp: now.toISOString(),
     };
     
     return new Response(JSON.stringify(response, null, 2), {
@@ -88,37 +107,3 @@ export async function handleDebugLiveSignals(env: Env): Promise<Response> {
     );
   }
 }
-
-/**
- * Compute SMA_5 (placeholder - needs historical data)
- */
-async function computeSMA5(env: Env, symbol: string): Promise<number | null> {
-  // TODO: Implement historical data fetching
-  return null;
-}
-
-/**
- * Compute SMA_50 (placeholder - needs historical data)
- */
-async function computeSMA50(env: Env, symbol: string): Promise<number | null> {
-  // TODO: Implement historical data fetching
-  return null;
-}
-
-/**
- * Compute ATR_10 (Average True Range over 10 days)
- */
-async function computeATR10(env: Env, symbol: string): Promise<number | null> {
-  // TODO: Implement ATR calculation from historical data
-  return null;
-}
-
-/**
- * Get VIX value
- */
-async function getVIX(env: Env): Promise<number | null> {
-  // TODO: Implement VIX data fetching
-  // Could use Tradier API or another data source
-  return null;
-}
-
@@ -2,6 +2,7 @@ import type { Env } from '../env';
 import { TradierClient } from '../broker/tradierClient';
 import { getOpenTrades } from '../db/queries';
 import type { TradeRow } from '../types';
+import { getStrategyOptionType, isDebitStrategy } from '../strategy/registry';
 
 /**
  * Debug endpoint: return raw Tradier positions payload plus our normalized view,
@@ -45,7 +46,7 @@ export async function handleDebugPositions(
     
     // Helper function to determine what exit order would be placed
     function getExitOrderDetails(trade: TradeRow, shortSymbol: string, longSymbol: string) {
-      const isDebitSpread = trade.strategy === 'BULL_CALL_DEBIT' || trade.strategy === 'BEAR_PUT_DEBIT';
+      const isDebitSpread = isDebitStrategy(trade.strategy);
       
       // For credit spreads (BULL_PUT_CREDIT, BEAR_CALL_CREDIT):
       //   Exit: buy_to_close short, sell_to_close long
@@ -95,7 +96,7 @@ export async function handleDebugPositions(
     // Build option symbols for each trade and compare with positions
     const comparisons = await Promise.all(dbTrades.map(async (trade) => {
       // Determine option type based on strategy
-      const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
+      const optionType = getStrategyOptionType(trade.strategy);
       
       // Build expected option symbols
       const expectedShortSymbol = buildOptionSymbol(trade.symbol, trade.expiration, trade.short_strike, optionType);
@@ -2,17 +2,18 @@
  * Debug endpoint: /debug/regime
  * 
  * Returns current market regime state for visibility and verification.
+ * Optional ?symbol=XYZ (defaults to SPY).
  */
 
 import type { Env } from '../env';
 import { TradierClient } from '../broker/tradierClient';
 import { detectRegime, getStrategiesForRegime } from '../core/regime';
-import { getSetting } from '../db/queries';
+import { getRegimeStrategyMap } from '../core/config';
 
-export async function handleDebugRegime(env: Env): Promise<Response> {
+export async function handleDebugRegime(request: Request, env: Env): Promise<Response> {
   try {
     const broker = new TradierClient(env);
-    const symbol = 'SPY'; // Primary symbol for regime detection
+    const symbol = (new URL(request.url).searchParams.get('symbol') || 'SPY').toUpperCase();
     
     // Get current price
     const underlying = await broker.getUnderlyingQuote(symbol);
@@ -21,19 +22,21 @@ export async function handleDebugRegime(env: Env): Promise<Response> {
     // Detect regime
     const regimeState = await detectRegime(env, symbol, currentPrice);
     
-    // Get previous regime from settings
-    const previousRegimeKey = `REGIME_${symbol}`;
-    const previousRegime = await getSetting(env, previousRegimeKey);
-    
-    // Get strategies enabled for this regime
-    const { enabled, disabled } = getStrategiesForRegime(regimeState.regime);
+    // Get strategies enabled for this regime (mapping table)
+    const { enabled, disabled } = getStrategiesForRegime(regimeState.regime, {
+      volatility: regimeState.volatility,
+      mapping: await getRegimeStrategyMap(env),
+    });
     
     const response = {
       symbol,
       current_regime: regimeState.regime,
+      confidence: regimeState.confidence,
+      volatility: regimeState.volatility,
       price: currentPrice,
       sma20: regimeState.sma20,
-      previous_regime: previousRegime || null,
+      factors: regimeState.factors,
+      previous_regime: regimeState.previousRegime || null,
       flipped: regimeState.flipped,
       last_flip_timestamp: regimeState.flipped ? regimeState.timestamp : null,
       strategies_enabled: enabled,
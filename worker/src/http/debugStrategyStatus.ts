@@ -19,7 +19,7 @@ import {
   validateBullTradeCounts,
   validateBearTradeCounts,
 } from '../core/risk';
-import { getTradingMode } from '../core/config';
+import { getTradingMode, getRegimeStrategyMap } from '../core/config';
 import { StrategyId, getEnabledStrategies, getStrategyConfig } from '../strategy/config';
 import { getOpenTrades, getSetting } from '../db/queries';
 
@@ -32,7 +32,8 @@ export async function handleDebugStrategyStatus(env: Env): Promise<Response> {
     // Get current regime
     const underlying = await broker.getUnderlyingQuote(symbol);
     const regimeState = await detectRegime(env, symbol, underlying.last);
-    const { enabled: regimeEnabledStrategies } = getStrategiesForRegime(regimeState.regime);
+    const regimeOpts = { volatility: regimeState.volatility, mapping: await getRegimeStrategyMap(env) };
+    const { enabled: regimeEnabledStrategies } = getStrategiesForRegime(regimeState.regime, regimeOpts);
     
     // Get enabled strategies for mode
     const modeEnabledStrategies = getEnabledStrategies(mode);
@@ -69,7 +70,7 @@ export async function handleDebugStrategyStatus(env: Env): Promise<Response> {
       const config = getStrategyConfig(id);
       const enabledByMode = modeEnabledStrategies.includes(id);
       // Use id (StrategyId enum) instead of name (string) for type safety
-      const enabledByRegime = isStrategyAllowedInRegime(id, regimeState.regime);
+      const enabledByRegime = isStrategyAllowedInRegime(id, regimeState.regime, regimeOpts);
       const enabledOverall = enabledByMode && enabledByRegime;
       
       // Determine if it's a bull or bear strategy
@@ -135,6 +136,8 @@ export async function handleDebugStrategyStatus(env: Env): Promise<Response> {
     const response = {
       regime: {
         current: regimeState.regime,
+        volatility: regimeState.volatility,
+        confidence: regimeState.confidence,
         price: underlying.last,
         sma20: regimeState.sma20,
         flipped: regimeState.flipped,
@@ -6,6 +6,7 @@
 import type { Env } from '../env';
 import { getOpenTrades, getSpreadLegPositions, updateTrade } from '../db/queries';
 import { computeSpreadPositionSnapshot } from '../core/positions';
+import { getStrategyOptionType } from '../strategy/registry';
 
 export async function handleDebugSyncTradeQuantities(
   request: Request,
@@ -29,7 +30,7 @@ export async function handleDebugSyncTradeQuantities(
         continue;
       }
       
-      const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
+      const optionType = getStrategyOptionType(trade.strategy);
       
       // Get spread leg positions from portfolio
       const { shortLeg, longLeg } = await getSpreadLegPositions(
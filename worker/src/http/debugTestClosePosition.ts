@@ -13,6 +13,7 @@ import { TradierClient } from '../broker/tradierClient';
 import { getTradingMode } from '../core/config';
 import { executeExitForTrade } from '../engine/exits';
 import type { MonitoringDecision } from '../types';
+import { getStrategyOptionType } from '../strategy/registry';
 
 export async function handleDebugTestClosePosition(
   request: Request,
@@ -90,7 +91,7 @@ export async function handleDebugTestClosePosition(
       if (!openTrade.strategy) {
         throw new Error('Trade missing strategy field - cannot determine option type');
       }
-      const optionType = (openTrade.strategy === 'BEAR_CALL_CREDIT' || openTrade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
+      const optionType = getStrategyOptionType(openTrade.strategy);
       
       const shortOption = optionChain.find(
         opt => opt.strike === openTrade.short_strike && opt.type === optionType
@@ -6,6 +6,7 @@
 import type { Env } from '../env';
 import { getOpenTrades, getSpreadLegPositions } from '../db/queries';
 import { computeSpreadPositionSnapshot } from '../core/positions';
+import { getStrategyOptionType } from '../strategy/registry';
 
 export async function handleDebugTestMonitoringWithPortfolio(
   request: Request,
@@ -24,7 +25,7 @@ export async function handleDebugTestMonitoringWithPortfolio(
         };
       }
       
-      const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
+      const optionType = getStrategyOptionType(trade.strategy);
       
       // Get spread leg positions (this is what monitoring uses)
       const { shortLeg, longLeg } = await getSpreadLegPositions(
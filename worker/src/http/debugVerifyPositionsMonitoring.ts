@@ -9,6 +9,7 @@ import { getOpenTrades } from '../db/queries';
 import { TradierClient } from '../broker/tradierClient';
 import { getSpreadLegPositions } from '../db/queries';
 import { parseOptionSymbol } from '../engine/portfolioSync';
+import { getStrategyOptionType } from '../strategy/registry';
 
 export async function handleDebugVerifyPositionsMonitoring(
   request: Request,
@@ -78,7 +79,7 @@ export async function handleDebugVerifyPositionsMonitoring(
       let matchedTrade = null;
       for (const trade of openTrades) {
         // Determine option type from strategy
-        const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') ? 'call' : 'put';
+        const optionType = getStrategyOptionType(trade.strategy);
         
         // Check if this position matches the trade's underlying, expiration, and type
         if (trade.symbol === parsed.underlying && 
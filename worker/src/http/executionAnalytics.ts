@@ -0,0 +1,51 @@
+/**
+ * Execution Analytics Endpoint
+ *
+ * Slippage (vs mid and natural), time-to-fill and fill / cancel / reject /
+ * partial rates for orders in the last ?days=N (default 30), overall and sliced
+ * by strategy, symbol, side, ET time of day and exit trigger.
+ * The most recent ?limit=N (default 100) orders are included with their metrics.
+ */
+
+import type { Env } from '../env';
+import { getOrdersForExecutionAnalytics } from '../db/queries';
+import { computeExecutionAnalytics } from '../core/executionAnalytics';
+
+export async function handleExecutionAnalytics(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const days = Math.min(365, Math.max(1, parseInt(url.searchParams.get('days') || '30', 10) || 30));
+    const limit = Math.min(1000, Math.max(0, parseInt(url.searchParams.get('limit') || '100', 10) || 0));
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const rows = await getOrdersForExecutionAnalytics(env, since);
+    const analytics = computeExecutionAnalytics(rows, since);
+
+    return new Response(
+      JSON.stringify({
+        timestamp: new Date().toISOString(),
+        days,
+        ...analytics,
+        orders: limit > 0 ? analytics.orders.slice(-limit).reverse() : [],
+      }, null, 2),
+      {
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({
+        timestamp: new Date().toISOString(),
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+      }, null, 2),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
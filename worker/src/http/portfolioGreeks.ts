@@ -0,0 +1,62 @@
+import type { Env } from '../env';
+import { getLatestPortfolioGreeks, getPortfolioGreeksHistory } from '../db/queries';
+import { getGreekRiskLimits } from '../core/config';
+
+/**
+ * Portfolio Greeks endpoint
+ *
+ * Returns the latest portfolio_greeks snapshot (with per-symbol and per-trade
+ * breakdowns), the net Greek time series over the last ?hours=N (default 24)
+ * and the configured Greek risk limits.
+ */
+export async function handlePortfolioGreeks(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const hours = Math.min(24 * 30, Math.max(1, parseInt(url.searchParams.get('hours') || '24', 10) || 24));
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+    const latest = await getLatestPortfolioGreeks(env);
+    const history = await getPortfolioGreeksHistory(env, since);
+
+    return new Response(
+      JSON.stringify({
+        timestamp: new Date().toISOString(),
+        latest: latest
+          ? {
+              ...latest,
+              by_symbol: JSON.parse(latest.by_symbol || '[]'),
+              by_trade: JSON.parse(latest.by_trade || '[]'),
+            }
+          : null,
+        history: history.map(row => ({
+          as_of: row.as_of,
+          net_delta: row.net_delta,
+          net_gamma: row.net_gamma,
+          net_theta: row.net_theta,
+          net_vega: row.net_vega,
+          spy_weighted_delta: row.spy_weighted_delta,
+        })),
+        limits: await getGreekRiskLimits(env),
+      }, null, 2),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({
+        timestamp: new Date().toISOString(),
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
@@ -8,6 +8,18 @@
 import type { Env } from '../env';
 import { getRecentProposals, getRecentBrokerEvents, getAllTrades, getProposal, getOrdersByProposalId } from '../db/queries';
 import { getStrategyThresholds } from '../core/config';
+import type { SizingDecision } from '../core/sizing';
+
+function parseSizing(raw: string | null | undefined): SizingDecision | null {
+  if (!raw) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw) as SizingDecision;
+  } catch {
+    return null;
+  }
+}
 
 export async function handleProposalsAndOrders(
   request: Request,
@@ -284,6 +296,8 @@ export async function handleProposalsAndOrders(
           min_credit_required: proposal.width * thresholds.minCreditFraction,
           // New fields
           proposalKind: proposal.kind || (proposal.linked_trade_id ? 'EXIT' : 'ENTRY'),
+          // Position sizing rationale (null for proposals created before sizing was recorded)
+          sizing: parseSizing(proposal.sizing),
         },
         trade: trade ? {
           id: trade.id,
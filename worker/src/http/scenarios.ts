@@ -0,0 +1,106 @@
+import type { Env } from '../env';
+import { TradierClient } from '../broker/tradierClient';
+import { computeScenarioReport } from '../core/scenarios';
+import type { ScenarioConfig } from '../core/config';
+
+interface ScenarioRequestBody {
+  underlying_moves?: number[] | string;   // GET query values are comma-separated strings
+  iv_shifts?: number[] | string;
+  days_forward?: number[] | string;
+  beta_weighted?: boolean;
+}
+
+const MAX_SCENARIOS = 500;
+
+function parseList(value: unknown): number[] | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const items = Array.isArray(value) ? value : String(value).split(',');
+  const parsed = items.map(item => Number(typeof item === 'string' ? item.trim() : item));
+  if (parsed.length === 0 || parsed.some(n => !Number.isFinite(n))) {
+    throw new Error(`Invalid number list: ${JSON.stringify(value)}`);
+  }
+  return parsed;
+}
+
+/**
+ * Scenario P&L endpoint
+ *
+ * Reprices the open book over a grid of underlying moves (% of SPY), IV shifts (vol
+ * points) and days forward and returns total and per-trade P&L for each scenario plus
+ * the worst one. Without parameters the configured grid (SCENARIO_*) is used.
+ *
+ * Custom scenarios:
+ * - GET  ?moves=-3,0,3&iv_shifts=5&days=1&beta_weighted=false
+ * - POST { "underlying_moves": [-3], "iv_shifts": [5], "days_forward": [1], "beta_weighted": true }
+ */
+export async function handleScenarios(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  try {
+    let body: ScenarioRequestBody = {};
+    if (request.method === 'POST') {
+      const text = await request.text();
+      body = (text ? JSON.parse(text) : {}) as ScenarioRequestBody;
+    } else {
+      const params = new URL(request.url).searchParams;
+      body = {
+        underlying_moves: params.get('moves') ?? undefined,
+        iv_shifts: params.get('iv_shifts') ?? undefined,
+        days_forward: params.get('days') ?? undefined,
+        beta_weighted: params.has('beta_weighted') ? params.get('beta_weighted') !== 'false' : undefined,
+      };
+    }
+
+    const overrides: Partial<ScenarioConfig> = {};
+    try {
+      const moves = parseList(body.underlying_moves);
+      const ivShifts = parseList(body.iv_shifts);
+      const days = parseList(body.days_forward);
+      if (moves) overrides.underlyingMoves = moves;
+      if (ivShifts) overrides.ivShifts = ivShifts;
+      if (days) overrides.daysForward = days.map(d => Math.max(0, d));
+      if (typeof body.beta_weighted === 'boolean') overrides.betaWeighted = body.beta_weighted;
+    } catch (error) {
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const count = (overrides.underlyingMoves?.length ?? 1) * (overrides.ivShifts?.length ?? 1) * (overrides.daysForward?.length ?? 1);
+    if (count > MAX_SCENARIOS) {
+      return new Response(
+        JSON.stringify({ error: `Too many scenarios (${count}, max ${MAX_SCENARIOS})` }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const report = await computeScenarioReport(env, new TradierClient(env), new Date(), overrides);
+
+    return new Response(
+      JSON.stringify({
+        timestamp: new Date().toISOString(),
+        ...report,
+      }, null, 2),
+      {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({
+        timestamp: new Date().toISOString(),
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
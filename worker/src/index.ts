@@ -34,10 +34,36 @@ import { handleDebugStrategyConfig } from './http/debugStrategyConfig';
 import { handleDebugAutoReadiness } from './http/debugAutoReadiness';
 import { handleDebugProposals } from './http/debugProposals';
 import { handleProposalsAndOrders } from './http/proposalsAndOrders';
+import { handleExecutionAnalytics } from './http/executionAnalytics';
+import { handlePortfolioGreeks } from './http/portfolioGreeks';
+import { handleScenarios } from './http/scenarios';
+import { authorizeRequest, authenticateRequest, handleAuthMe, isAuditedRoute } from './http/auth';
+import { handleAuditLog } from './http/auditLog';
+import { startAudit, finishAudit } from './core/audit';
 import { handleDebugOrderStatus } from './http/debugOrderStatus';
 import { handleAdminRepairPortfolio } from './http/adminRepairPortfolio';
 import { handleAdminReconcile } from './http/adminReconcile';
 import { handleAdminGetSettings, handleAdminUpdateSetting } from './http/adminSettings';
+import {
+  handleAdminGetExitProfiles,
+  handleAdminSaveExitProfile,
+  handleAdminDeleteExitProfile,
+} from './http/adminExitProfiles';
+import {
+  handleAdminGetConfigProfiles,
+  handleAdminSaveConfigProfile,
+  handleAdminDeleteConfigProfile,
+  handleAdminDiffConfigProfile,
+  handleAdminApplyConfigProfile,
+  handleAdminRollbackConfigProfile,
+  handleAdminCancelConfigProfileSwitch,
+} from './http/adminConfigProfiles';
+import {
+  handleAdminGetStrategyConfigs,
+  handleAdminSaveStrategyConfig,
+  handleAdminResetStrategyConfig,
+} from './http/adminStrategyConfigs';
+import { handleAdminGetMarketCalendar } from './http/adminMarketCalendar';
 import { handleDebugPortfolioSync } from './http/debugPortfolioSync';
 import { handlePortfolioPositions } from './http/portfolioPositions';
 import { handleDebugUpdateQuantities } from './http/debugUpdateQuantities';
@@ -55,6 +81,7 @@ import { handleDebugBrokerEvents } from './http/debugBrokerEvents';
 import { handleDebugTableSchema } from './http/debugTableSchema';
 import { handleDebugRegime } from './http/debugRegime';
 import { handleDebugStrategyStatus } from './http/debugStrategyStatus';
+import { handleDebugBetaExposure } from './http/debugBetaExposure';
 import { handleDebugLiveSignals } from './http/debugLiveSignals';
 import { handleDebugRegimeConfidence } from './http/debugRegimeConfidence';
 import { handleDebugMarkTradeClosed } from './http/debugMarkTradeClosed';
@@ -87,6 +114,14 @@ import { runMonitorCycle } from './cron/monitorCycle';
 import { runAccountSync } from './cron/accountSync';
 import { runOrphanedOrderCleanup } from './cron/orphanedOrderCleanup';
 import { runDailySummary } from './cron/dailySummary';
+import { runIVHistoryCapture } from './cron/ivHistory';
+
+// Market calendar
+import { loadMarketCalendarOverrides } from './core/marketCalendar';
+import { applyDueConfigProfileSwitches } from './core/configProfiles';
+import { loadStrategyConfigs } from './strategy/config';
+import { resetSettingsSnapshot } from './db/queries';
+import { isTradingDay, getETDateString } from './core/time';
 
 // Test handlers
 async function handleTestProposal(
@@ -342,8 +377,8 @@ async function handleTestResetRiskState(
  */
 const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Audit-Reason',
   'Access-Control-Max-Age': '86400',
 };
 
@@ -394,277 +429,371 @@ export default {
     const url = new URL(request.url);
     const path = url.pathname;
     
-    let response: Response;
+    // API key + role check per route (http/auth.ts)
+    const auth = await authorizeRequest(request, env, path);
+    const audited = isAuditedRoute(path, request.method);
+    if (auth instanceof Response) {
+      // Only known keys with too low a role reach the (append-only) audit trail;
+      // missing or wrong keys would let anyone with the URL add rows
+      const actor = audited ? await authenticateRequest(request, env) : null;
+      if (actor) {
+        await finishAudit(env, await startAudit(env, request, path, actor, { snapshot: false }), auth.status);
+      } else if (audited) {
+        console.warn('[auth] unauthenticated_denied', JSON.stringify({ method: request.method, path, status: auth.status }));
+      }
+      return addCorsHeaders(auth);
+    }
+    
+    // Operator/admin actions: before/after snapshot for the audit trail (core/audit.ts)
+    const audit = audited ? await startAudit(env, request, path, auth.principal) : null;
+    
+    // Registered settings are read from a fresh snapshot per request (core/settings.ts)
+    resetSettingsSnapshot();
+    
+    // Ad-hoc closures / early closes for isTradingDay, isMarketHours, etc.
+    await loadMarketCalendarOverrides(env);
+
+    // Runtime strategy configs for getStrategyConfig / getEnabledStrategies
+    await loadStrategyConfigs(env);
     
-    // Route HTTP endpoints
-    if (path === '/health' && request.method === 'GET') {
-      response = await handleHealth(request, env, ctx);
-    } else if (path === '/status' && request.method === 'GET') {
-      response = await handleStatus(request, env, ctx);
-    } else if (path === '/dashboard/summary' && request.method === 'GET') {
-      response = await handleDashboardSummary(request, env, ctx);
-    } else if (path === '/trades' && request.method === 'GET') {
-      response = await handleTrades(request, env, ctx);
-    } else if (path.match(/^\/trades\/([^\/]+)$/) && request.method === 'GET') {
-      const tradeId = path.match(/^\/trades\/([^\/]+)$/)?.[1];
-      if (tradeId) {
-        response = await handleTradeDetail(request, env, ctx, tradeId);
+    let response: Response | undefined;
+
+    // Record the outcome even when a handler throws (500)
+    try {
+      // Route HTTP endpoints
+      if (path === '/health' && request.method === 'GET') {
+        response = await handleHealth(request, env, ctx);
+      } else if (path === '/v2/auth/me' && request.method === 'GET') {
+        // Caller's name and role
+        response = handleAuthMe(auth.principal);
+      } else if (path === '/v2/audit-log' && request.method === 'GET') {
+        // Audit trail of operator/admin actions, filterable by actor, path, target and time
+        response = await handleAuditLog(request, env);
+      } else if (path === '/status' && request.method === 'GET') {
+        response = await handleStatus(request, env, ctx);
+      } else if (path === '/dashboard/summary' && request.method === 'GET') {
+        response = await handleDashboardSummary(request, env, ctx);
+      } else if (path === '/trades' && request.method === 'GET') {
+        response = await handleTrades(request, env, ctx);
+      } else if (path.match(/^\/trades\/([^\/]+)$/) && request.method === 'GET') {
+        const tradeId = path.match(/^\/trades\/([^\/]+)$/)?.[1];
+        if (tradeId) {
+          response = await handleTradeDetail(request, env, ctx, tradeId);
+        } else {
+          response = new Response(
+            JSON.stringify({ error: 'Invalid trade ID' }),
+            {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' },
+            }
+          );
+        }
+      } else if (path === '/risk-state' && request.method === 'GET') {
+        response = await handleRiskState(request, env, ctx);
+      } else if (path === '/broker-events' && request.method === 'GET') {
+        response = await handleBrokerEventsRequest(request, env);
+      } else if (path === '/debug/pnl' && request.method === 'GET') {
+        response = await handleDebugPnl(request, env);
+      } else if (path === '/debug/pnl-summary' && request.method === 'GET') {
+        response = await handleDebugPnlSummary(request, env);
+      } else if (path === '/debug/positions' && request.method === 'GET') {
+        response = await handleDebugPositions(request, env);
+      } else if (path === '/debug/scoring' && request.method === 'POST') {
+        // Debug endpoint to score synthetic candidates
+        response = await handleDebugScoring(request, env);
+      } else if (path === '/debug/health/db' && request.method === 'GET') {
+        // DB health check endpoint
+        response = await handleDebugHealthDb(request, env);
+      } else if (path === '/v2/debug/health' && request.method === 'GET') {
+        // Comprehensive health/diagnostic endpoint
+        response = await handleDebugHealth(request, env);
+      } else if (path === '/v2/debug/auto-config' && request.method === 'GET') {
+        // Auto mode configuration endpoint
+        response = await handleDebugAutoConfig(request, env);
+      } else if (path === '/v2/debug/strategy-config' && request.method === 'GET') {
+        // Strategy configuration endpoint (DTE, delta, credit, symbols)
+        response = await handleDebugStrategyConfig(request, env);
+      } else if (path === '/v2/debug/proposals' && request.method === 'GET') {
+        // Last N scored proposals and failure analysis
+        response = await handleDebugProposals(request, env);
+      } else if (path === '/v2/proposals-and-orders' && request.method === 'GET') {
+        // Proposals with orders and broker responses
+        response = await handleProposalsAndOrders(request, env);
+      } else if (path === '/v2/execution-analytics' && request.method === 'GET') {
+        // Execution quality: slippage, time-to-fill and fill/cancel/reject rates
+        response = await handleExecutionAnalytics(request, env);
+      } else if (path === '/v2/portfolio-greeks' && request.method === 'GET') {
+        // Portfolio Greeks: latest snapshot, net Greek history and Greek risk limits
+        response = await handlePortfolioGreeks(request, env);
+      } else if (path === '/v2/scenarios' && (request.method === 'GET' || request.method === 'POST')) {
+        // Scenario P&L: open book repriced over underlying moves, IV shifts and time decay
+        response = await handleScenarios(request, env);
+      } else if (path === '/debug/order-status' && request.method === 'GET') {
+        // Analyze order placement status and rejections by strategy
+        response = await handleDebugOrderStatus(request, env);
+      } else if (path === '/v2/debug/auto-readiness' && request.method === 'GET') {
+        // Auto mode readiness check endpoint
+        response = await handleDebugAutoReadiness(request, env);
+      } else if (path === '/debug/regime' && request.method === 'GET') {
+        // Regime detection and status endpoint
+        response = await handleDebugRegime(request, env);
+      } else if (path === '/debug/strategy-status' && request.method === 'GET') {
+        // Strategy status and exposure endpoint
+        response = await handleDebugStrategyStatus(env);
+      } else if (path === '/debug/beta-exposure' && request.method === 'GET') {
+        // Beta-weighted SPY delta of the portfolio vs the target delta band
+        response = await handleDebugBetaExposure(env);
+      } else if (path === '/debug/live-signals' && request.method === 'GET') {
+        // Live market signals endpoint (SMA, VIX, ATR, momentum, volatility)
+        response = await handleDebugLiveSignals(env);
+      } else if (path === '/debug/regime-confidence' && request.method === 'GET') {
+        // Regime confidence metric and trading recommendation
+        response = await handleDebugRegimeConfidence(env);
+      } else if (path === '/v2/admin/repair-portfolio' && request.method === 'POST') {
+        // Manual repair portfolio endpoint
+        response = await handleAdminRepairPortfolio(request, env);
+      } else if (path === '/v2/admin/reconcile' && (request.method === 'POST' || request.method === 'GET')) {
+        // Reconciliation endpoint (Tradier vs local DB) - supports both GET and POST
+        response = await handleAdminReconcile(request, env);
+      } else if (path === '/v2/admin/settings' && request.method === 'GET') {
+        // Get all system settings
+        response = await handleAdminGetSettings(request, env);
+      } else if (path === '/v2/admin/settings' && request.method === 'POST') {
+        // Update a system setting
+        response = await handleAdminUpdateSetting(request, env);
+      } else if (path === '/v2/admin/exit-profiles' && request.method === 'GET') {
+        // List exit profiles (active, inherited defaults, optional ?history=1)
+        response = await handleAdminGetExitProfiles(request, env);
+      } else if (path === '/v2/admin/exit-profiles' && request.method === 'POST') {
+        // Save a new exit profile version
+        response = await handleAdminSaveExitProfile(request, env);
+      } else if (path === '/v2/admin/exit-profiles' && request.method === 'DELETE') {
+        // Remove (deactivate) an exit profile
+        response = await handleAdminDeleteExitProfile(request, env);
+      } else if (path === '/v2/admin/strategy-configs' && request.method === 'GET') {
+        // List strategy configs (in effect, seed default, active version, optional ?history=1)
+        response = await handleAdminGetStrategyConfigs(request, env);
+      } else if (path === '/v2/admin/strategy-configs' && request.method === 'POST') {
+        // Save a new strategy config version
+        response = await handleAdminSaveStrategyConfig(request, env);
+      } else if (path === '/v2/admin/strategy-configs' && request.method === 'DELETE') {
+        // Reset a strategy config to its seed default
+        response = await handleAdminResetStrategyConfig(request, env);
+      } else if (path === '/v2/admin/config-profiles' && request.method === 'GET') {
+        // List configuration profiles, active profile status and switch history
+        response = await handleAdminGetConfigProfiles(request, env);
+      } else if (path === '/v2/admin/config-profiles' && request.method === 'POST') {
+        // Create or update a configuration profile
+        response = await handleAdminSaveConfigProfile(request, env);
+      } else if (path === '/v2/admin/config-profiles' && request.method === 'DELETE') {
+        // Delete a configuration profile
+        response = await handleAdminDeleteConfigProfile(request, env);
+      } else if (path === '/v2/admin/config-profiles/diff' && request.method === 'GET') {
+        // Diff a configuration profile against the current settings
+        response = await handleAdminDiffConfigProfile(request, env);
+      } else if (path === '/v2/admin/config-profiles/apply' && request.method === 'POST') {
+        // Apply a configuration profile now or schedule it
+        response = await handleAdminApplyConfigProfile(request, env, auth.principal);
+      } else if (path === '/v2/admin/config-profiles/rollback' && request.method === 'POST') {
+        // Roll back the latest configuration profile switch
+        response = await handleAdminRollbackConfigProfile(request, env, auth.principal);
+      } else if (path === '/v2/admin/config-profiles/cancel' && request.method === 'POST') {
+        // Cancel a scheduled configuration profile switch
+        response = await handleAdminCancelConfigProfileSwitch(request, env);
+      } else if (path === '/v2/admin/market-calendar' && request.method === 'GET') {
+        // Market calendar: today's session, upcoming holidays/early closes, overrides
+        response = await handleAdminGetMarketCalendar(request, env);
+      } else if (path.match(/^\/debug\/force-exit\/([^\/]+)$/) && request.method === 'POST') {
+        // Force exit for a specific trade (bypasses exit rules)
+        const tradeId = path.match(/^\/debug\/force-exit\/([^\/]+)$/)?.[1];
+        if (tradeId) {
+          response = await handleDebugForceExit(request, env, tradeId);
+        } else {
+          response = new Response(
+            JSON.stringify({ error: 'Invalid trade ID' }),
+            { status: 400, headers: { 'Content-Type': 'application/json' } }
+          );
+        }
+      } else if (path === '/debug/test-close-position' && request.method === 'POST') {
+        // Test closing a position directly via Tradier
+        response = await handleDebugTestClosePosition(request, env);
+      } else if (path === '/debug/mark-trade-closed' && request.method === 'POST') {
+        // Manual close endpoint - marks trade as closed without placing orders (SANDBOX_PAPER only)
+        response = await handleDebugMarkTradeClosed(request, env, ctx);
+      } else if (path === '/debug/trade-cycle-status' && request.method === 'GET') {
+        // Check trade cycle status and blockers
+        response = await handleDebugTradeCycleStatus(request, env, ctx);
+      } else if (path === '/debug/cleanup-price-snaps' && (request.method === 'GET' || request.method === 'POST')) {
+        // Clean up price snap entries from settings table
+        response = await handleDebugCleanupPriceSnaps(request, env, ctx);
+      } else if (path === '/debug/remove-strategy-whitelist' && request.method === 'POST') {
+        // Remove strategy whitelist to allow all strategies (SANDBOX_PAPER only)
+        response = await handleDebugRemoveStrategyWhitelist(request, env, ctx);
+      } else if (path === '/debug/remove-symbol-whitelist' && request.method === 'POST') {
+        // Remove symbol whitelist to allow all eligible symbols (SANDBOX_PAPER only)
+        response = await handleDebugRemoveSymbolWhitelist(request, env, ctx);
+      } else if (path === '/debug/set-concentration-limits' && (request.method === 'GET' || request.method === 'POST')) {
+        // Initialize concentration limit settings with defaults
+        response = await handleDebugSetConcentrationLimits(env);
+      } else if (path === '/debug/double-daily-limits' && (request.method === 'GET' || request.method === 'POST')) {
+        // Double all daily limits for testing
+        response = await handleDebugDoubleDailyLimits(request, env);
+      } else if (path === '/debug/concentration' && request.method === 'GET') {
+        // Debug endpoint to show current concentration state for all symbols
+        response = await handleDebugConcentration(env);
+      } else if (path === '/debug/strategy-invariants' && request.method === 'GET') {
+        // Debug endpoint to audit strategy invariants across all trades
+        response = await handleDebugStrategyInvariants(request, env);
+      } else if (path === '/debug/fix-trade-strategies' && request.method === 'GET') {
+        // Fix trades with incorrect strategies (matches to proposals)
+        response = await handleDebugFixTradeStrategies(request, env);
+      } else if (path === '/debug/trace-order' && request.method === 'GET') {
+        // Trace order from proposal through fill to trade
+        response = await handleDebugTraceOrder(request, env);
+      } else if (path === '/debug/trace-exit-attempts' && request.method === 'GET') {
+        // Trace all exit attempts for a trade
+        response = await handleDebugTraceExitAttempts(request, env);
+      } else if (path === '/debug/investigate-issues' && request.method === 'GET') {
+        // Investigate monitoring, order sync, and proposal invalidation issues
+        response = await handleDebugInvestigateIssues(request, env);
+      } else if (path === '/debug/sync-pending-orders' && request.method === 'GET') {
+        // Manually sync orders that are out of sync with Tradier
+        response = await handleDebugSyncPendingOrders(request, env);
+      } else if (path === '/debug/verify-positions-monitoring' && request.method === 'GET') {
+        // Verify all Tradier positions are being monitored
+        response = await handleDebugVerifyPositionsMonitoring(request, env);
+      } else if (path === '/debug/test-monitoring-with-portfolio' && request.method === 'GET') {
+        // Test if monitoring can find portfolio positions for trades
+        response = await handleDebugTestMonitoringWithPortfolio(request, env);
+      } else if (path === '/debug/sync-trade-quantities' && request.method === 'GET') {
+        // Sync trade quantities from portfolio positions
+        response = await handleDebugSyncTradeQuantities(request, env);
+      } else if (path === '/debug/why-no-proposals' && request.method === 'GET') {
+        // Debug endpoint to diagnose why no proposals were generated today
+        response = await handleDebugWhyNoProposals(request, env);
+      } else if (path === '/debug/enable-auto-mode' && (request.method === 'GET' || request.method === 'POST')) {
+        // Check and enable auto mode
+        response = await handleDebugEnableAutoMode(request, env, ctx);
+      } else if (path === '/debug/exit-rules' && request.method === 'GET') {
+        // View all exit rule config values
+        response = await handleDebugExitRules(request, env);
+      } else if (path.match(/^\/debug\/exit\/([^\/]+)$/) && request.method === 'GET') {
+        // Inspect exit order payload for a trade
+        const tradeId = path.match(/^\/debug\/exit\/([^\/]+)$/)?.[1];
+        if (tradeId) {
+          response = await handleDebugExitPayload(request, env, ctx);
+        } else {
+          response = new Response(
+            JSON.stringify({ error: 'Invalid trade ID' }),
+            { status: 400, headers: { 'Content-Type': 'application/json' } }
+          );
+        }
+      } else if (path === '/debug/tradier/snapshot' && request.method === 'GET') {
+        // Inspect latest Tradier snapshot or trigger new sync
+        response = await handleDebugTradierSnapshot(request, env, ctx);
+      } else if (path === '/debug/create-test-trade' && request.method === 'POST') {
+        // Create a test OPEN trade for testing exit functionality
+        response = await handleDebugCreateTestTrade(request, env);
+      } else if (path === '/debug/init-exit-rules' && request.method === 'POST') {
+        // Initialize exit rule settings with defaults
+        response = await handleDebugInitExitRules(request, env);
+      } else if (path === '/debug/system-mode' && (request.method === 'GET' || request.method === 'POST')) {
+        // View or change system mode
+        response = await handleDebugSystemMode(request, env);
+      } else if (path === '/test/proposal' && request.method === 'POST') {
+        // Test endpoint to manually trigger proposal generation
+        response = await handleTestProposal(request, env, ctx);
+      } else if (path === '/test/trade-cycle' && request.method === 'POST') {
+        // Test endpoint to manually trigger trade cycle
+        response = await handleTestTradeCycle(request, env, ctx);
+      } else if (path === '/test/portfolio-sync' && request.method === 'POST') {
+        // Test endpoint to manually trigger portfolio sync
+        response = await handleTestPortfolioSync(request, env, ctx);
+      } else if (path === '/test/order-sync' && request.method === 'POST') {
+        // Test endpoint to manually trigger order sync
+        response = await handleTestOrderSync(request, env, ctx);
+      } else if (path === '/test/reset-risk-state' && request.method === 'POST') {
+        // Test endpoint to reset risk state to NORMAL
+        response = await handleTestResetRiskState(request, env, ctx);
+      } else if (path === '/debug/monitor' && request.method === 'GET') {
+        // Debug endpoint to manually trigger a monitor cycle
+        response = await handleDebugMonitor(request, env, ctx);
+      } else if (path === '/portfolio-positions' && request.method === 'GET') {
+        // Read-only endpoint to get portfolio positions
+        response = await handlePortfolioPositions(request, env);
+      } else if ((path === '/daily-summary' || path === '/v2/daily-summary') && (request.method === 'GET' || request.method === 'POST')) {
+        // Daily activity summary endpoint - generate and retrieve summaries
+        response = await handleDailySummary(request, env, ctx);
+      } else if (path === '/debug/portfolio-sync' && request.method === 'GET') {
+        // Debug endpoint to test portfolio sync and show detailed info
+        response = await handleDebugPortfolioSync(request, env);
+      } else if (path === '/debug/update-quantities' && request.method === 'POST') {
+        // Debug endpoint to update existing trades with correct quantities from Tradier
+        response = await handleDebugUpdateQuantities(request, env);
+      } else if (path === '/debug/backfill-entry-prices' && request.method === 'POST') {
+        // Debug endpoint to backfill entry_price for trades missing it
+        response = await handleDebugBackfillEntryPrices(request, env);
+      } else if (path === '/v2/debug/backfill-missing-trades' && request.method === 'POST') {
+        // Debug endpoint to backfill missing trades for positions without matching trades
+        response = await handleDebugBackfillMissingTrades(request, env);
+      } else if (path === '/v2/debug/backfill-exit-prices' && (request.method === 'GET' || request.method === 'POST')) {
+        // Debug endpoint to backfill missing exit prices for closed trades
+        response = await handleDebugBackfillExitPrices(request, env, ctx);
+      } else if (path === '/v2/debug/compare-tradier-closed' && request.method === 'GET') {
+        // Debug endpoint to compare our closed trades with Tradier's gain/loss data
+        response = await handleDebugCompareTradierClosed(request, env);
+      } else if (path === '/v2/debug/analyze-trades-vs-tradier' && request.method === 'GET') {
+        // Comprehensive analysis of D1 trades vs Tradier orders/positions
+        response = await handleDebugAnalyzeTradesVsTradier(request, env);
+      } else if (path === '/v2/debug/analyze-trades-detailed' && request.method === 'GET') {
+        // Detailed D1 database analysis
+        response = await handleDebugAnalyzeTradesDetailed(request, env);
+      } else if (path === '/v2/debug/compare-portfolio-positions' && request.method === 'GET') {
+        // Compare Tradier positions with portfolio_positions table
+        response = await handleDebugComparePortfolioPositions(request, env);
+      } else if (path === '/v2/debug/cleanup-stale-positions' && request.method === 'POST') {
+        // Clean up stale portfolio positions (manual cleanup)
+        response = await handleDebugCleanupStalePositions(request, env);
+      } else if (path === '/v2/debug/force-portfolio-sync' && request.method === 'POST') {
+        // Force a portfolio sync and show what was deleted
+        response = await handleDebugForcePortfolioSync(request, env);
+      } else if (path === '/v2/debug/trade-history' && request.method === 'GET') {
+        // Debug endpoint to query trade history by symbol, status, date range
+        response = await handleDebugTradeHistory(request, env);
+      } else if (path === '/v2/debug/broker-events' && request.method === 'GET') {
+        // Debug endpoint to query broker events by symbol, order_id, date range
+        response = await handleDebugBrokerEvents(request, env);
+      } else if (path === '/v2/debug/table-schema' && request.method === 'GET') {
+        // Debug endpoint to query table schema from D1
+        response = await handleDebugTableSchema(request, env);
+      } else if (path === '/v2/debug/daily-recap' && request.method === 'GET') {
+        // Debug endpoint to get today's trading activity recap
+        response = await handleDebugDailyRecap(request, env, ctx);
+      } else if (path === '/v2/debug/investigate-emergency-exits' && request.method === 'GET') {
+        // Debug endpoint to investigate EMERGENCY exits and expired/cancelled orders
+        response = await handleDebugInvestigateEmergencyExits(request, env, ctx);
+      } else if (path === '/debug/migrate-tradier-first' && (request.method === 'POST' || request.method === 'GET')) {
+        // One-time migration: realign D1 with Tradier positions - supports both GET and POST
+        const { runTradierFirstMigration } = await import('./scripts/migrate-tradier-first');
+        const migrationResult = await runTradierFirstMigration(env);
+        response = new Response(
+          JSON.stringify(migrationResult, null, 2),
+          { status: 200, headers: { 'Content-Type': 'application/json' } }
+        );
       } else {
+        // 404 for unknown routes
         response = new Response(
-          JSON.stringify({ error: 'Invalid trade ID' }),
+          JSON.stringify({ error: 'Not found' }),
           {
-            status: 400,
+            status: 404,
             headers: { 'Content-Type': 'application/json' },
           }
         );
       }
-    } else if (path === '/risk-state' && request.method === 'GET') {
-      response = await handleRiskState(request, env, ctx);
-    } else if (path === '/broker-events' && request.method === 'GET') {
-      response = await handleBrokerEventsRequest(request, env);
-    } else if (path === '/debug/pnl' && request.method === 'GET') {
-      response = await handleDebugPnl(request, env);
-    } else if (path === '/debug/pnl-summary' && request.method === 'GET') {
-      response = await handleDebugPnlSummary(request, env);
-    } else if (path === '/debug/positions' && request.method === 'GET') {
-      response = await handleDebugPositions(request, env);
-    } else if (path === '/debug/scoring' && request.method === 'POST') {
-      // Debug endpoint to score synthetic candidates
-      response = await handleDebugScoring(request, env);
-    } else if (path === '/debug/health/db' && request.method === 'GET') {
-      // DB health check endpoint
-      response = await handleDebugHealthDb(request, env);
-    } else if (path === '/v2/debug/health' && request.method === 'GET') {
-      // Comprehensive health/diagnostic endpoint
-      response = await handleDebugHealth(request, env);
-    } else if (path === '/v2/debug/auto-config' && request.method === 'GET') {
-      // Auto mode configuration endpoint
-      response = await handleDebugAutoConfig(request, env);
-    } else if (path === '/v2/debug/strategy-config' && request.method === 'GET') {
-      // Strategy configuration endpoint (DTE, delta, credit, symbols)
-      response = await handleDebugStrategyConfig(request, env);
-    } else if (path === '/v2/debug/proposals' && request.method === 'GET') {
-      // Last N scored proposals and failure analysis
-      response = await handleDebugProposals(request, env);
-    } else if (path === '/v2/proposals-and-orders' && request.method === 'GET') {
-      // Proposals with orders and broker responses
-      response = await handleProposalsAndOrders(request, env);
-    } else if (path === '/debug/order-status' && request.method === 'GET') {
-      // Analyze order placement status and rejections by strategy
-      response = await handleDebugOrderStatus(request, env);
-    } else if (path === '/v2/debug/auto-readiness' && request.method === 'GET') {
-      // Auto mode readiness check endpoint
-      response = await handleDebugAutoReadiness(request, env);
-    } else if (path === '/debug/regime' && request.method === 'GET') {
-      // Regime detection and status endpoint
-      response = await handleDebugRegime(env);
-    } else if (path === '/debug/strategy-status' && request.method === 'GET') {
-      // Strategy status and exposure endpoint
-      response = await handleDebugStrategyStatus(env);
-    } else if (path === '/debug/live-signals' && request.method === 'GET') {
-      // Live market signals endpoint (SMA, VIX, ATR, momentum, volatility)
-      response = await handleDebugLiveSignals(env);
-    } else if (path === '/debug/regime-confidence' && request.method === 'GET') {
-      // Regime confidence metric and trading recommendation
-      response = await handleDebugRegimeConfidence(env);
-    } else if (path === '/v2/admin/repair-portfolio' && request.method === 'POST') {
-      // Manual repair portfolio endpoint
-      response = await handleAdminRepairPortfolio(request, env);
-    } else if (path === '/v2/admin/reconcile' && (request.method === 'POST' || request.method === 'GET')) {
-      // Reconciliation endpoint (Tradier vs local DB) - supports both GET and POST
-      response = await handleAdminReconcile(request, env);
-    } else if (path === '/v2/admin/settings' && request.method === 'GET') {
-      // Get all system settings
-      response = await handleAdminGetSettings(request, env);
-    } else if (path === '/v2/admin/settings' && request.method === 'POST') {
-      // Update a system setting
-      response = await handleAdminUpdateSetting(request, env);
-    } else if (path.match(/^\/debug\/force-exit\/([^\/]+)$/) && request.method === 'POST') {
-      // Force exit for a specific trade (bypasses exit rules)
-      const tradeId = path.match(/^\/debug\/force-exit\/([^\/]+)$/)?.[1];
-      if (tradeId) {
-        response = await handleDebugForceExit(request, env, tradeId);
-      } else {
-        response = new Response(
-          JSON.stringify({ error: 'Invalid trade ID' }),
-          { status: 400, headers: { 'Content-Type': 'application/json' } }
-        );
+    } finally {
+      if (audit) {
+        await finishAudit(env, audit, response?.status ?? 500);
       }
-    } else if (path === '/debug/test-close-position' && request.method === 'POST') {
-      // Test closing a position directly via Tradier
-      response = await handleDebugTestClosePosition(request, env);
-    } else if (path === '/debug/mark-trade-closed' && request.method === 'POST') {
-      // Manual close endpoint - marks trade as closed without placing orders (SANDBOX_PAPER only)
-      response = await handleDebugMarkTradeClosed(request, env, ctx);
-    } else if (path === '/debug/trade-cycle-status' && request.method === 'GET') {
-      // Check trade cycle status and blockers
-      response = await handleDebugTradeCycleStatus(request, env, ctx);
-    } else if (path === '/debug/cleanup-price-snaps' && (request.method === 'GET' || request.method === 'POST')) {
-      // Clean up price snap entries from settings table
-      response = await handleDebugCleanupPriceSnaps(request, env, ctx);
-    } else if (path === '/debug/remove-strategy-whitelist' && request.method === 'POST') {
-      // Remove strategy whitelist to allow all strategies (SANDBOX_PAPER only)
-      response = await handleDebugRemoveStrategyWhitelist(request, env, ctx);
-    } else if (path === '/debug/remove-symbol-whitelist' && request.method === 'POST') {
-      // Remove symbol whitelist to allow all eligible symbols (SANDBOX_PAPER only)
-      response = await handleDebugRemoveSymbolWhitelist(request, env, ctx);
-    } else if (path === '/debug/set-concentration-limits' && (request.method === 'GET' || request.method === 'POST')) {
-      // Initialize concentration limit settings with defaults
-      response = await handleDebugSetConcentrationLimits(env);
-    } else if (path === '/debug/double-daily-limits' && (request.method === 'GET' || request.method === 'POST')) {
-      // Double all daily limits for testing
-      response = await handleDebugDoubleDailyLimits(request, env);
-    } else if (path === '/debug/concentration' && request.method === 'GET') {
-      // Debug endpoint to show current concentration state for all symbols
-      response = await handleDebugConcentration(env);
-    } else if (path === '/debug/strategy-invariants' && request.method === 'GET') {
-      // Debug endpoint to audit strategy invariants across all trades
-      response = await handleDebugStrategyInvariants(request, env);
-    } else if (path === '/debug/fix-trade-strategies' && request.method === 'GET') {
-      // Fix trades with incorrect strategies (matches to proposals)
-      response = await handleDebugFixTradeStrategies(request, env);
-    } else if (path === '/debug/trace-order' && request.method === 'GET') {
-      // Trace order from proposal through fill to trade
-      response = await handleDebugTraceOrder(request, env);
-    } else if (path === '/debug/trace-exit-attempts' && request.method === 'GET') {
-      // Trace all exit attempts for a trade
-      response = await handleDebugTraceExitAttempts(request, env);
-    } else if (path === '/debug/investigate-issues' && request.method === 'GET') {
-      // Investigate monitoring, order sync, and proposal invalidation issues
-      response = await handleDebugInvestigateIssues(request, env);
-    } else if (path === '/debug/sync-pending-orders' && request.method === 'GET') {
-      // Manually sync orders that are out of sync with Tradier
-      response = await handleDebugSyncPendingOrders(request, env);
-    } else if (path === '/debug/verify-positions-monitoring' && request.method === 'GET') {
-      // Verify all Tradier positions are being monitored
-      response = await handleDebugVerifyPositionsMonitoring(request, env);
-    } else if (path === '/debug/test-monitoring-with-portfolio' && request.method === 'GET') {
-      // Test if monitoring can find portfolio positions for trades
-      response = await handleDebugTestMonitoringWithPortfolio(request, env);
-    } else if (path === '/debug/sync-trade-quantities' && request.method === 'GET') {
-      // Sync trade quantities from portfolio positions
-      response = await handleDebugSyncTradeQuantities(request, env);
-    } else if (path === '/debug/why-no-proposals' && request.method === 'GET') {
-      // Debug endpoint to diagnose why no proposals were generated today
-      response = await handleDebugWhyNoProposals(request, env);
-    } else if (path === '/debug/enable-auto-mode' && (request.method === 'GET' || request.method === 'POST')) {
-      // Check and enable auto mode
-      response = await handleDebugEnableAutoMode(request, env, ctx);
-    } else if (path === '/debug/exit-rules' && request.method === 'GET') {
-      // View all exit rule config values
-      response = await handleDebugExitRules(request, env);
-    } else if (path.match(/^\/debug\/exit\/([^\/]+)$/) && request.method === 'GET') {
-      // Inspect exit order payload for a trade
-      const tradeId = path.match(/^\/debug\/exit\/([^\/]+)$/)?.[1];
-      if (tradeId) {
-        response = await handleDebugExitPayload(request, env, ctx);
-      } else {
-        response = new Response(
-          JSON.stringify({ error: 'Invalid trade ID' }),
-          { status: 400, headers: { 'Content-Type': 'application/json' } }
-        );
-      }
-    } else if (path === '/debug/tradier/snapshot' && request.method === 'GET') {
-      // Inspect latest Tradier snapshot or trigger new sync
-      response = await handleDebugTradierSnapshot(request, env, ctx);
-    } else if (path === '/debug/create-test-trade' && request.method === 'POST') {
-      // Create a test OPEN trade for testing exit functionality
-      response = await handleDebugCreateTestTrade(request, env);
-    } else if (path === '/debug/init-exit-rules' && request.method === 'POST') {
-      // Initialize exit rule settings with defaults
-      response = await handleDebugInitExitRules(request, env);
-    } else if (path === '/debug/system-mode' && (request.method === 'GET' || request.method === 'POST')) {
-      // View or change system mode
-      response = await handleDebugSystemMode(request, env);
-    } else if (path === '/test/proposal' && request.method === 'POST') {
-      // Test endpoint to manually trigger proposal generation
-      response = await handleTestProposal(request, env, ctx);
-    } else if (path === '/test/trade-cycle' && request.method === 'POST') {
-      // Test endpoint to manually trigger trade cycle
-      response = await handleTestTradeCycle(request, env, ctx);
-    } else if (path === '/test/portfolio-sync' && request.method === 'POST') {
-      // Test endpoint to manually trigger portfolio sync
-      response = await handleTestPortfolioSync(request, env, ctx);
-    } else if (path === '/test/order-sync' && request.method === 'POST') {
-      // Test endpoint to manually trigger order sync
-      response = await handleTestOrderSync(request, env, ctx);
-    } else if (path === '/test/reset-risk-state' && request.method === 'POST') {
-      // Test endpoint to reset risk state to NORMAL
-      response = await handleTestResetRiskState(request, env, ctx);
-    } else if (path === '/debug/monitor' && request.method === 'GET') {
-      // Debug endpoint to manually trigger a monitor cycle
-      response = await handleDebugMonitor(request, env, ctx);
-    } else if (path === '/portfolio-positions' && request.method === 'GET') {
-      // Read-only endpoint to get portfolio positions
-      response = await handlePortfolioPositions(request, env);
-    } else if ((path === '/daily-summary' || path === '/v2/daily-summary') && (request.method === 'GET' || request.method === 'POST')) {
-      // Daily activity summary endpoint - generate and retrieve summaries
-      response = await handleDailySummary(request, env, ctx);
-    } else if (path === '/debug/portfolio-sync' && request.method === 'GET') {
-      // Debug endpoint to test portfolio sync and show detailed info
-      response = await handleDebugPortfolioSync(request, env);
-    } else if (path === '/debug/update-quantities' && request.method === 'POST') {
-      // Debug endpoint to update existing trades with correct quantities from Tradier
-      response = await handleDebugUpdateQuantities(request, env);
-    } else if (path === '/debug/backfill-entry-prices' && request.method === 'POST') {
-      // Debug endpoint to backfill entry_price for trades missing it
-      response = await handleDebugBackfillEntryPrices(request, env);
-    } else if (path === '/v2/debug/backfill-missing-trades' && request.method === 'POST') {
-      // Debug endpoint to backfill missing trades for positions without matching trades
-      response = await handleDebugBackfillMissingTrades(request, env);
-    } else if (path === '/v2/debug/backfill-exit-prices' && (request.method === 'GET' || request.method === 'POST')) {
-      // Debug endpoint to backfill missing exit prices for closed trades
-      response = await handleDebugBackfillExitPrices(request, env, ctx);
-    } else if (path === '/v2/debug/compare-tradier-closed' && request.method === 'GET') {
-      // Debug endpoint to compare our closed trades with Tradier's gain/loss data
-      response = await handleDebugCompareTradierClosed(request, env);
-    } else if (path === '/v2/debug/analyze-trades-vs-tradier' && request.method === 'GET') {
-      // Comprehensive analysis of D1 trades vs Tradier orders/positions
-      response = await handleDebugAnalyzeTradesVsTradier(request, env);
-    } else if (path === '/v2/debug/analyze-trades-detailed' && request.method === 'GET') {
-      // Detailed D1 database analysis
-      response = await handleDebugAnalyzeTradesDetailed(request, env);
-    } else if (path === '/v2/debug/compare-portfolio-positions' && request.method === 'GET') {
-      // Compare Tradier positions with portfolio_positions table
-      response = await handleDebugComparePortfolioPositions(request, env);
-    } else if (path === '/v2/debug/cleanup-stale-positions' && request.method === 'POST') {
-      // Clean up stale portfolio positions (manual cleanup)
-      response = await handleDebugCleanupStalePositions(request, env);
-    } else if (path === '/v2/debug/force-portfolio-sync' && request.method === 'POST') {
-      // Force a portfolio sync and show what was deleted
-      response = await handleDebugForcePortfolioSync(request, env);
-    } else if (path === '/v2/debug/trade-history' && request.method === 'GET') {
-      // Debug endpoint to query trade history by symbol, status, date range
-      response = await handleDebugTradeHistory(request, env);
-    } else if (path === '/v2/debug/broker-events' && request.method === 'GET') {
-      // Debug endpoint to query broker events by symbol, order_id, date range
-      response = await handleDebugBrokerEvents(request, env);
-    } else if (path === '/v2/debug/table-schema' && request.method === 'GET') {
-      // Debug endpoint to query table schema from D1
-      response = await handleDebugTableSchema(request, env);
-    } else if (path === '/v2/debug/daily-recap' && request.method === 'GET') {
-      // Debug endpoint to get today's trading activity recap
-      response = await handleDebugDailyRecap(request, env, ctx);
-    } else if (path === '/v2/debug/investigate-emergency-exits' && request.method === 'GET') {
-      // Debug endpoint to investigate EMERGENCY exits and expired/cancelled orders
-      response = await handleDebugInvestigateEmergencyExits(request, env, ctx);
-    } else if (path === '/debug/migrate-tradier-first' && (request.method === 'POST' || request.method === 'GET')) {
-      // One-time migration: realign D1 with Tradier positions - supports both GET and POST
-      const { runTradierFirstMigration } = await import('./scripts/migrate-tradier-first');
-      const migrationResult = await runTradierFirstMigration(env);
-      response = new Response(
-        JSON.stringify(migrationResult, null, 2),
-        { status: 200, headers: { 'Content-Type': 'application/json' } }
-      );
-    } else {
-      // 404 for unknown routes
-      response = new Response(
-        JSON.stringify({ error: 'Not found' }),
-        {
-          status: 404,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      );
     }
     
     // Add CORS headers to all responses
@@ -691,6 +820,24 @@ export default {
     // - "1-59/1 14-20 * * MON-FRI" → monitor cycle (every 1 min during RTH, offset)
     // - "*/1 14-21 * * MON-FRI"    → account snapshots (every 1 min during market hours)
     // - "0 14,17,20 * * MON-FRI"   → orphaned order cleanup (10:00, 13:00, 16:00 ET)
+    // - "50 19 * * MON-FRI"        → IV history capture (15:50 ET)
+    
+    // Every schedule is MON-FRI; skip NYSE holidays and MARKET_CALENDAR_OVERRIDES closures.
+    // Early closes are handled downstream (isMarketHours, TIME_EXIT cutoff).
+    // Each cron run starts from a fresh settings snapshot (core/settings.ts) and strategy configs.
+    // Scheduled configuration profile switches apply first, on any day.
+    resetSettingsSnapshot();
+    await applyDueConfigProfileSwitches(env, now);
+    await loadMarketCalendarOverrides(env);
+    await loadStrategyConfigs(env);
+    if (!isTradingDay(now)) {
+      console.log('[cron][skip] market_closed', JSON.stringify({
+        cron,
+        date: getETDateString(now),
+        now: now.toISOString(),
+      }));
+      return;
+    }
     
     if (cron === '0 13 * * MON-FRI') {
       // Premarket check
@@ -719,6 +866,9 @@ export default {
     } else if (cron === '15 20 * * MON-FRI') {
       // Daily activity summary (runs at 4:15 PM ET)
       await runDailySummary(env, now);
+    } else if (cron === '50 19 * * MON-FRI') {
+      // IV history capture (runs at 3:50 PM ET, before the close)
+      await runIVHistoryCapture(env, now);
     } else {
       // Unknown cron - log but don't fail
       console.warn(`Unknown cron schedule: ${cron}`);
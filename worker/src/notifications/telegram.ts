@@ -44,6 +44,16 @@ async function sendTelegramMessage(env: Env, text: string): Promise<void> {
   }
 }
 
+/**
+ * Call wing strike lines for IRON_CONDOR (short/long labels above cover the put wing)
+ */
+function callWingLines(row: ProposalRow | TradeRow): string[] {
+  if (row.strategy !== 'IRON_CONDOR') {
+    return [];
+  }
+  return [`Short call: ${row.call_short_strike}`, `Long call: ${row.call_long_strike}`];
+}
+
 export async function notifyProposalCreated(env: Env, mode: TradingMode, proposal: ProposalRow): Promise<void> {
   // Determine option type and strike labels based on strategy
   const isCall = proposal.strategy === 'BEAR_CALL_CREDIT' || proposal.strategy === 'BULL_CALL_DEBIT';
@@ -62,6 +72,7 @@ export async function notifyProposalCreated(env: Env, mode: TradingMode, proposa
     `Expiration: ${proposal.expiration}`,
     `${shortLabel}: ${proposal.short_strike}`,
     `${longLabel}: ${proposal.long_strike}`,
+    ...callWingLines(proposal),
     `Width: ${proposal.width}`,
     `Credit target: $${proposal.credit_target.toFixed(2)}`,
     `Score: ${(proposal.score * 100).toFixed(1)}%`,
@@ -89,6 +100,7 @@ export async function notifyEntrySubmitted(env: Env, mode: TradingMode, trade: T
     `Expiration: ${trade.expiration}`,
     `${shortLabel}: ${trade.short_strike}`,
     `${longLabel}: ${trade.long_strike}`,
+    ...callWingLines(trade),
     `Width: ${trade.width}`,
     `Quantity: ${trade.quantity ?? 1}`,
     `Entry limit: $${limitPrice.toFixed(2)}`,
@@ -117,6 +129,7 @@ export async function notifyEntryFilled(env: Env, mode: TradingMode, trade: Trad
     `Expiration: ${trade.expiration}`,
     `${shortLabel}: ${trade.short_strike}`,
     `${longLabel}: ${trade.long_strike}`,
+    ...callWingLines(trade),
     `Width: ${trade.width}`,
     `Quantity: ${trade.quantity ?? 1}`,
     `Entry fill: $${(trade.entry_price ?? 0).toFixed(2)}`,
@@ -147,6 +160,7 @@ export async function notifyExitSubmitted(env: Env, mode: TradingMode, trade: Tr
     `Expiration: ${trade.expiration}`,
     `${shortLabel}: ${trade.short_strike}`,
     `${longLabel}: ${trade.long_strike}`,
+    ...callWingLines(trade),
     `Quantity: ${trade.quantity ?? 1}`,
     `Exit limit: $${exitPrice.toFixed(2)}`,
     trade.exit_reason ? `Exit reason: \`${trade.exit_reason}\`` : '',
@@ -181,6 +195,7 @@ export async function notifyExitFilled(env: Env, mode: TradingMode, trade: Trade
     `Expiration: ${trade.expiration}`,
     `${shortLabel}: ${trade.short_strike}`,
     `${longLabel}: ${trade.long_strike}`,
+    ...callWingLines(trade),
     `Quantity: ${trade.quantity ?? 1}`,
     `Entry: $${(trade.entry_price ?? 0).toFixed(2)}`,
     `Exit fill: $${(trade.exit_price ?? 0).toFixed(2)}`,
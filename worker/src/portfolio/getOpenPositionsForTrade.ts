@@ -6,54 +6,53 @@
  */
 
 import type { Env } from '../env';
-import type { TradeRow, PortfolioPositionRow } from '../types';
+import type { TradeRow, PortfolioPositionRow, CondorWing } from '../types';
 import { getSpreadLegPositions } from '../db/queries';
+import { getOpenTradeWings } from '../strategy/registry';
 
 /**
  * Get open positions for a trade
  * 
  * Returns positions from portfolio_positions that match the trade's:
  * - symbol
- * - expiration
+ * - expiration (long_expiration for the long leg of a time spread)
  * - option_type (call/put, derived from strategy)
  * - strikes (short_strike and long_strike)
  * 
- * Positions are returned with non-zero quantities.
+ * Positions are returned with non-zero quantities, for every open wing of the
+ * strategy (IRON_CONDOR: only `wing` when given).
  */
 export async function getOpenPositionsForTrade(
   env: Env,
-  trade: TradeRow
+  trade: TradeRow,
+  wing?: CondorWing
 ): Promise<PortfolioPositionRow[]> {
   if (!trade.strategy) {
     throw new Error(`Trade ${trade.id} missing strategy - cannot determine option type`);
   }
   
-  const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') 
-    ? 'call' 
-    : 'put';
-  
-  // Get positions for both legs
-  const { shortLeg, longLeg } = await getSpreadLegPositions(
-    env,
-    trade.symbol,
-    trade.expiration,
-    optionType,
-    trade.short_strike,
-    trade.long_strike
-  );
-  
   const positions: PortfolioPositionRow[] = [];
-  
-  // Add short leg if it exists and has non-zero quantity
-  if (shortLeg && shortLeg.quantity > 0) {
-    positions.push(shortLeg);
-  }
-  
-  // Add long leg if it exists and has non-zero quantity
-  if (longLeg && longLeg.quantity > 0) {
-    positions.push(longLeg);
+  for (const w of getOpenTradeWings(trade)) {
+    if (wing && w.wing !== wing) {
+      continue;
+    }
+    const { shortLeg, longLeg } = await getSpreadLegPositions(
+      env,
+      trade.symbol,
+      w.expiration,
+      w.optionType,
+      w.short_strike,
+      w.long_strike,
+      w.long_expiration
+    );
+    
+    // Add legs that exist with non-zero quantity
+    for (const leg of [shortLeg, longLeg]) {
+      if (leg && leg.quantity > 0) {
+        positions.push(leg);
+      }
+    }
   }
   
   return positions;
 }
-
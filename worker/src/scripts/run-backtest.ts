@@ -0,0 +1,105 @@
+/**
+ * Backtest CLI
+ *
+ * Replays recorded chains through the proposal / entry / monitoring logic.
+ * See docs/backtesting.md for the data format.
+ *
+ * Usage:
+ *   npm run backtest -- --data ./data/spy-2025q1 [--settings overrides.json] [--equity 10000] [--out result.json] [--verbose]
+ */
+
+import { readFileSync, readdirSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { runBacktest } from '../backtest/runner';
+import type { BacktestDataset, MarketSnapshot, DailyClose } from '../backtest/types';
+
+function parseArgs(argv: string[]): Record<string, string | boolean> {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      continue;
+    }
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      args[key] = next;
+      i++;
+    } else {
+      args[key] = true;
+    }
+  }
+  return args;
+}
+
+/**
+ * Load a dataset from a JSON file or a directory of JSON files
+ *
+ * Each file holds a single snapshot, an array of snapshots, or
+ * { snapshots?: MarketSnapshot[]; closes?: Record<string, DailyClose[]> }.
+ */
+function loadDataset(path: string): BacktestDataset {
+  const files = statSync(path).isDirectory()
+    ? readdirSync(path).filter(f => f.endsWith('.json')).sort().map(f => join(path, f))
+    : [path];
+
+  const dataset: BacktestDataset = { snapshots: [], closes: {} };
+  for (const file of files) {
+    const content = JSON.parse(readFileSync(file, 'utf-8'));
+    if (Array.isArray(content)) {
+      dataset.snapshots.push(...(content as MarketSnapshot[]));
+    } else if (typeof content.timestamp === 'string') {
+      dataset.snapshots.push(content as MarketSnapshot);
+    } else {
+      dataset.snapshots.push(...((content.snapshots ?? []) as MarketSnapshot[]));
+      for (const [symbol, history] of Object.entries((content.closes ?? {}) as Record<string, DailyClose[]>)) {
+        dataset.closes[symbol] = [...(dataset.closes[symbol] ?? []), ...history];
+      }
+    }
+  }
+  return dataset;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (typeof args.data !== 'string') {
+    console.error('Usage: npm run backtest -- --data <file-or-dir> [--settings overrides.json] [--equity 10000] [--out result.json] [--verbose]');
+    process.exit(1);
+  }
+
+  const dataset = loadDataset(args.data);
+  const settings = typeof args.settings === 'string'
+    ? (JSON.parse(readFileSync(args.settings, 'utf-8')) as Record<string, string>)
+    : {};
+  const startingEquity = typeof args.equity === 'string' ? parseFloat(args.equity) : undefined;
+
+  // Engine modules log every decision; keep the console to the summary unless asked
+  const log = console.log;
+  if (!args.verbose) {
+    console.log = () => {};
+  }
+
+  const result = await runBacktest(dataset, { settings, startingEquity });
+  console.log = log;
+
+  const { stats } = result;
+  console.log(`Snapshots:     ${dataset.snapshots.length}`);
+  console.log(`Trades:        ${stats.total_trades} (${stats.wins}W / ${stats.losses}L)`);
+  console.log(`Win rate:      ${(stats.win_rate * 100).toFixed(1)}%`);
+  console.log(`Total PnL:     $${stats.total_pnl.toFixed(2)}`);
+  console.log(`Ending equity: $${stats.ending_equity.toFixed(2)}`);
+  console.log(`Max drawdown:  $${stats.max_drawdown.toFixed(2)} (${(stats.max_drawdown_pct * 100).toFixed(2)}%)`);
+  for (const [strategy, s] of Object.entries(stats.by_strategy)) {
+    console.log(`  ${strategy}: ${s.trades} trades, ${(s.win_rate * 100).toFixed(1)}% win, $${s.total_pnl.toFixed(2)}`);
+  }
+
+  if (typeof args.out === 'string') {
+    writeFileSync(args.out, JSON.stringify(result, null, 2));
+    console.log(`Result written to ${args.out}`);
+  }
+}
+
+main().catch(error => {
+  console.error('[backtest] failed:', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
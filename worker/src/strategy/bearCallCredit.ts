@@ -14,6 +14,8 @@
 
 import type { OptionQuote, UnderlyingQuote } from '../types';
 import type { StrategyConfig } from './config';
+import { StrategyId, type StrategyPlugin } from './types';
+import { CREDIT_VERTICAL_RULES, computeVerticalMetrics, checkVerticalStrikes, checkVerticalEntryQuotes, getSingleWing } from './vertical';
 
 export interface VerticalCandidate {
   symbol: string;
@@ -103,3 +105,51 @@ export function buildBearCallCreditCandidates(
   return candidates;
 }
 
+// Directional gate: shortTermBias floor (below this the tape is too bullish for short calls)
+export const BEAR_CALL_MIN_BIAS = 0.40;
+
+/**
+ * BEAR_CALL_CREDIT plugin
+ */
+export const bearCallCreditStrategy: StrategyPlugin = {
+  ...CREDIT_VERTICAL_RULES,
+  id: StrategyId.BEAR_CALL_CREDIT,
+  logKey: 'bear_call_credit',
+  bias: 'BEARISH',
+  optionType: 'call',
+  optionSides: ['short_calls'],
+  longStrikeSide: 'above',
+  buildCandidates: (config, chain, underlying, dte) =>
+    buildBearCallCreditCandidates(config, chain, underlying, dte).map(vc => ({
+      symbol: vc.symbol,
+      expiration: vc.expiration,
+      short_strike: vc.short_strike,
+      long_strike: vc.long_strike,
+      width: vc.width,
+      credit: vc.credit,
+      strategy: 'BEAR_CALL_CREDIT' as const,
+      short_call: vc.short_call,
+      long_call: vc.long_call,
+      dte: vc.dte,
+    })),
+  // Bear call credit spreads benefit from bearish/neutral trends: reject very bullish
+  // environments (shortTermBias < BEAR_CALL_MIN_BIAS) where calls are expensive
+  gate: async ctx => {
+    const allowed = ctx.shortTermBias >= BEAR_CALL_MIN_BIAS;
+    return {
+      allowed,
+      values: { shortTermBias: ctx.shortTermBias },
+      rejectTag: 'bias_reject',
+      reason: allowed
+        ? undefined
+        : `Short-term bias ${ctx.shortTermBias.toFixed(3)} < ${BEAR_CALL_MIN_BIAS.toFixed(2)} (too bullish - calls are expensive, not favorable for bear call credit)`,
+    };
+  },
+  computeMetrics: (candidate, rv_30d, iv_30d, ivr) =>
+    computeVerticalMetrics(candidate, 'call', 'CREDIT', rv_30d, iv_30d, ivr),
+  // CALLs, short_strike < long_strike (e.g., short 640, long 645)
+  checkInvariants: trade => checkVerticalStrikes(trade, 'above'),
+  getTradeWings: row => getSingleWing(row, 'call'),
+  checkEntryQuotes: (chain, proposal, limits) =>
+    checkVerticalEntryQuotes(chain, proposal, limits, 'call', 'CREDIT'),
+};
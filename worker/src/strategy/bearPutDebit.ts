@@ -17,6 +17,8 @@
 
 import type { OptionQuote, UnderlyingQuote } from '../types';
 import type { StrategyConfig } from './config';
+import { StrategyId, type StrategyPlugin } from './types';
+import { DEBIT_VERTICAL_RULES, computeVerticalMetrics, checkVerticalStrikes, checkVerticalEntryQuotes, getSingleWing, debitTrendGate } from './vertical';
 
 export interface BearDebitCandidate {
   symbol: string;
@@ -129,3 +131,38 @@ export function buildBearPutDebitCandidates(
   return candidates;
 }
 
+/**
+ * BEAR_PUT_DEBIT plugin
+ */
+export const bearPutDebitStrategy: StrategyPlugin = {
+  ...DEBIT_VERTICAL_RULES,
+  id: StrategyId.BEAR_PUT_DEBIT,
+  logKey: 'bear_put_debit',
+  bias: 'BEARISH',
+  optionType: 'put',
+  optionSides: ['long_puts'],
+  longStrikeSide: 'above',
+  trend: 'bearish',
+  buildCandidates: (config, chain, underlying, dte) =>
+    buildBearPutDebitCandidates(config, chain, underlying, dte).map(dc => ({
+      symbol: dc.symbol,
+      expiration: dc.expiration,
+      short_strike: dc.short_strike,
+      long_strike: dc.long_strike,
+      width: dc.width,
+      credit: -dc.debit, // Store as negative credit for debit spreads
+      strategy: 'BEAR_PUT_DEBIT' as const,
+      short_put: dc.short_put,
+      long_put: dc.long_put,
+      dte: dc.dte,
+      debit: dc.debit, // Store debit separately
+    })),
+  gate: debitTrendGate('bearish'),
+  computeMetrics: (candidate, rv_30d, iv_30d, ivr) =>
+    computeVerticalMetrics(candidate, 'put', 'DEBIT', rv_30d, iv_30d, ivr),
+  // PUTs, long_strike > short_strike (e.g., long 645, short 640)
+  checkInvariants: trade => checkVerticalStrikes(trade, 'above'),
+  getTradeWings: row => getSingleWing(row, 'put'),
+  checkEntryQuotes: (chain, proposal, limits) =>
+    checkVerticalEntryQuotes(chain, proposal, limits, 'put', 'DEBIT'),
+};
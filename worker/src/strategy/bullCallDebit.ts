@@ -17,6 +17,8 @@
 
 import type { OptionQuote, UnderlyingQuote } from '../types';
 import type { StrategyConfig } from './config';
+import { StrategyId, type StrategyPlugin } from './types';
+import { DEBIT_VERTICAL_RULES, computeVerticalMetrics, checkVerticalStrikes, checkVerticalEntryQuotes, getSingleWing, debitTrendGate } from './vertical';
 
 export interface DebitCandidate {
   symbol: string;
@@ -127,3 +129,38 @@ export function buildBullCallDebitCandidates(
   return candidates;
 }
 
+/**
+ * BULL_CALL_DEBIT plugin
+ */
+export const bullCallDebitStrategy: StrategyPlugin = {
+  ...DEBIT_VERTICAL_RULES,
+  id: StrategyId.BULL_CALL_DEBIT,
+  logKey: 'bull_call_debit',
+  bias: 'BULLISH',
+  optionType: 'call',
+  optionSides: ['long_calls'],
+  longStrikeSide: 'below',
+  trend: 'bullish',
+  buildCandidates: (config, chain, underlying, dte) =>
+    buildBullCallDebitCandidates(config, chain, underlying, dte).map(dc => ({
+      symbol: dc.symbol,
+      expiration: dc.expiration,
+      short_strike: dc.short_strike,
+      long_strike: dc.long_strike,
+      width: dc.width,
+      credit: -dc.debit, // Store as negative credit for debit spreads
+      strategy: 'BULL_CALL_DEBIT' as const,
+      short_call: dc.short_call,
+      long_call: dc.long_call,
+      dte: dc.dte,
+      debit: dc.debit, // Store debit separately
+    })),
+  gate: debitTrendGate('bullish'),
+  computeMetrics: (candidate, rv_30d, iv_30d, ivr) =>
+    computeVerticalMetrics(candidate, 'call', 'DEBIT', rv_30d, iv_30d, ivr),
+  // CALLs, long_strike < short_strike (e.g., long 635, short 640)
+  checkInvariants: trade => checkVerticalStrikes(trade, 'below'),
+  getTradeWings: row => getSingleWing(row, 'call'),
+  checkEntryQuotes: (chain, proposal, limits) =>
+    checkVerticalEntryQuotes(chain, proposal, limits, 'call', 'DEBIT'),
+};
@@ -17,6 +17,8 @@
 
 import type { OptionQuote, UnderlyingQuote } from '../types';
 import type { StrategyConfig } from './config';
+import { StrategyId, type StrategyPlugin } from './types';
+import { CREDIT_VERTICAL_RULES, computeVerticalMetrics, checkVerticalStrikes, checkVerticalEntryQuotes, getSingleWing } from './vertical';
 
 export interface VerticalCandidate {
   symbol: string;
@@ -123,3 +125,35 @@ export function buildBullPutCreditCandidates(
   return candidates;
 }
 
+/**
+ * BULL_PUT_CREDIT plugin
+ */
+export const bullPutCreditStrategy: StrategyPlugin = {
+  ...CREDIT_VERTICAL_RULES,
+  id: StrategyId.BULL_PUT_CREDIT,
+  logKey: 'bull_put_credit',
+  bias: 'BULLISH',
+  optionType: 'put',
+  optionSides: ['short_puts'],
+  longStrikeSide: 'below',
+  buildCandidates: (config, chain, underlying, dte) =>
+    buildBullPutCreditCandidates(config, chain, underlying, dte).map(vc => ({
+      symbol: vc.symbol,
+      expiration: vc.expiration,
+      short_strike: vc.short_strike,
+      long_strike: vc.long_strike,
+      width: vc.width,
+      credit: vc.credit,
+      strategy: 'BULL_PUT_CREDIT' as const,
+      short_put: vc.short_put,
+      long_put: vc.long_put,
+      dte: vc.dte,
+    })),
+  computeMetrics: (candidate, rv_30d, iv_30d, ivr) =>
+    computeVerticalMetrics(candidate, 'put', 'CREDIT', rv_30d, iv_30d, ivr),
+  // PUTs, short_strike > long_strike (e.g., short 640, long 635)
+  checkInvariants: trade => checkVerticalStrikes(trade, 'below'),
+  getTradeWings: row => getSingleWing(row, 'put'),
+  checkEntryQuotes: (chain, proposal, limits) =>
+    checkVerticalEntryQuotes(chain, proposal, limits, 'put', 'CREDIT'),
+};
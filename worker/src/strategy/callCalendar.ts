@@ -0,0 +1,37 @@
+/**
+ * Call Calendar Spread Strategy
+ *
+ * Builds candidates for call calendars:
+ * - Sell CALL in the front expiration (short_call), near the money (config.targetDeltaRange)
+ * - Buy CALL at the same strike in a back expiration (long_call), config.backDteGap later
+ * - Width = 0 (same strike), direction: neutral (profits from the underlying pinning the strike)
+ * - Debit: ask_long - bid_short, max loss = debit
+ *
+ * See ./timeSpread for shared rules (metrics, marks, exits).
+ */
+
+import { StrategyId, type StrategyPlugin } from './types';
+import { TIME_SPREAD_RULES, buildTimeSpreadCandidates, timeSpreadHardFilter, checkTimeSpreadInvariants, checkTimeSpreadEntryQuotes } from './timeSpread';
+
+export const CALENDAR_MIN_DEBIT = 0.50;
+export const CALENDAR_MAX_DEBIT = 8.00;
+
+const DEBIT_RANGE = { min: CALENDAR_MIN_DEBIT, max: CALENDAR_MAX_DEBIT };
+
+/**
+ * CALL_CALENDAR plugin
+ */
+export const callCalendarStrategy: StrategyPlugin = {
+  ...TIME_SPREAD_RULES,
+  id: StrategyId.CALL_CALENDAR,
+  logKey: 'call_calendar',
+  bias: 'NEUTRAL',
+  longStrikeSide: 'same',
+  debitRange: DEBIT_RANGE,
+  buildCandidates: (config, chain, underlying, dte, back) =>
+    buildTimeSpreadCandidates('CALL_CALENDAR', config, chain, underlying, dte, back, DEBIT_RANGE),
+  hardFilter: timeSpreadHardFilter(DEBIT_RANGE),
+  checkEntryQuotes: checkTimeSpreadEntryQuotes(DEBIT_RANGE),
+  // CALLs, same strike, long leg in the later expiration (e.g., short 640 Jun, long 640 Jul)
+  checkInvariants: trade => checkTimeSpreadInvariants(trade, 'same'),
+};
@@ -0,0 +1,40 @@
+/**
+ * Call Diagonal Spread Strategy
+ *
+ * Builds candidates for call diagonals:
+ * - Sell CALL in the front expiration (short_call), OTM (config.targetDeltaRange)
+ * - Buy CALL `width` points lower in a back expiration (long_call), config.backDteGap later
+ * - Direction: bullish (long leg gains intrinsic value as the underlying rises to the short strike)
+ * - Debit: ask_long - bid_short, max loss = debit
+ *
+ * See ./timeSpread for shared rules (metrics, marks, exits).
+ */
+
+import { StrategyId, type StrategyPlugin } from './types';
+import { debitTrendGate } from './vertical';
+import { TIME_SPREAD_RULES, buildTimeSpreadCandidates, timeSpreadHardFilter, checkTimeSpreadInvariants, checkTimeSpreadEntryQuotes } from './timeSpread';
+
+// The back-month long is in or near the money, so diagonals cost more than calendars
+export const DIAGONAL_MIN_DEBIT = 1.00;
+export const DIAGONAL_MAX_DEBIT = 15.00;
+
+const DEBIT_RANGE = { min: DIAGONAL_MIN_DEBIT, max: DIAGONAL_MAX_DEBIT };
+
+/**
+ * CALL_DIAGONAL plugin
+ */
+export const callDiagonalStrategy: StrategyPlugin = {
+  ...TIME_SPREAD_RULES,
+  id: StrategyId.CALL_DIAGONAL,
+  logKey: 'call_diagonal',
+  bias: 'BULLISH',
+  longStrikeSide: 'below',
+  debitRange: DEBIT_RANGE,
+  buildCandidates: (config, chain, underlying, dte, back) =>
+    buildTimeSpreadCandidates('CALL_DIAGONAL', config, chain, underlying, dte, back, DEBIT_RANGE),
+  gate: debitTrendGate('bullish'),
+  hardFilter: timeSpreadHardFilter(DEBIT_RANGE),
+  checkEntryQuotes: checkTimeSpreadEntryQuotes(DEBIT_RANGE),
+  // CALLs, long_strike < short_strike, long leg in the later expiration (e.g., short 640 Jun, long 635 Jul)
+  checkInvariants: trade => checkTimeSpreadInvariants(trade, 'below'),
+};
@@ -3,10 +3,19 @@
  * 
  * Defines configuration for each strategy type, including enablement flags,
  * symbol lists, DTE windows, delta ranges, and other parameters.
+ *
+ * STRATEGY_CONFIGS are the seed defaults. Admins save new versions at runtime
+ * (strategy_configs table); loadStrategyConfigs reads the active versions once per
+ * request / cron run and getStrategyConfig / getEnabledStrategies then return them
+ * synchronously.
  */
 
+import type { Env } from '../env';
 import { StrategyId } from './types';
 import type { TradingMode } from '../core/config';
+import { computeDTEByMeasure, type DteMeasure } from '../core/time';
+import { getActiveStrategyConfigs } from '../db/queries';
+import { isValidSymbol } from '../core/symbols';
 
 // Re-export StrategyId for convenience
 export { StrategyId } from './types';
@@ -17,7 +26,9 @@ export interface StrategyConfig {
   enabledPaper: boolean;
   enabledLive: boolean;
   symbols: string[];
-  dte: { min: number; max: number };
+  // DTE window, in calendar days (default) or trading sessions left (measure: 'TRADING').
+  // Applied per expiration inside the global MIN_DTE/MAX_DTE calendar window.
+  dte: { min: number; max: number; measure?: DteMeasure };
   width: number; // Spread width in points (currently 5 for all strategies)
   // Delta range semantics:
   // - For calls: positive values (e.g., 0.20-0.35, 0.40-0.55)
@@ -29,10 +40,16 @@ export interface StrategyConfig {
   minCreditFraction: number;
   maxVerticalSkewSandbox: number;
   maxVerticalSkewLive: number;
+  // Optional POP floor for scoring (default 0.65)
+  minPop?: number;
   // For IRON_CONDOR only:
   minShortStrikeGap?: number;
+  // For time spreads (CALL_CALENDAR, CALL_DIAGONAL) only: days between the front
+  // (short) and back (long) expirations
+  backDteGap?: { min: number; max: number };
 }
 
+// Seed defaults; runtime versions are saved through /v2/admin/strategy-configs
 export const STRATEGY_CONFIGS: Record<StrategyId, StrategyConfig> = {
   [StrategyId.BULL_PUT_CREDIT]: {
     id: StrategyId.BULL_PUT_CREDIT,
@@ -98,14 +115,239 @@ export const STRATEGY_CONFIGS: Record<StrategyId, StrategyConfig> = {
     symbols: ['SPY', 'AAPL', 'MSFT', 'QQQ', 'NVDA', 'AMD'],
     dte: { min: 28, max: 38 },
     width: 5,
-    targetDeltaRange: { min: -0.32, max: -0.18 }, // Not used for condors, but required by interface
-    minCreditFraction: 0.16, // 16% of width (5) = 0.80 min credit per spread
+    targetDeltaRange: { min: -0.32, max: -0.18 }, // Short put range; short call uses the mirror (0.18 to 0.32)
+    minCreditFraction: 0.16, // 16% of width (5) = 0.80 min combined credit (both wings)
     maxVerticalSkewSandbox: 0.10,
     maxVerticalSkewLive: 0.05,
+    minPop: 0.45, // POP = 1 - |put delta| - |call delta|, ~0.50 with two 0.25-delta shorts
     minShortStrikeGap: 10, // Put short strike at least 10 points below call short strike
   },
+
+  [StrategyId.CALL_CALENDAR]: {
+    id: StrategyId.CALL_CALENDAR,
+    label: 'Call Calendar',
+    enabledPaper: true,
+    enabledLive: false,
+    symbols: ['SPY', 'QQQ', 'AAPL', 'MSFT'],
+    dte: { min: 28, max: 38 }, // Front (short) leg
+    width: 0, // Same strike in both expirations
+    targetDeltaRange: { min: 0.40, max: 0.60 }, // Short (front) call, near the money
+    minCreditFraction: 0.16, // Ignored for debit spreads (credit-only guardrail, required by interface)
+    maxVerticalSkewSandbox: 0.10, // Not applicable (legs are in different expirations)
+    maxVerticalSkewLive: 0.05,
+    backDteGap: { min: 21, max: 42 }, // Back (long) leg 3-6 weeks after the front
+  },
+
+  [StrategyId.CALL_DIAGONAL]: {
+    id: StrategyId.CALL_DIAGONAL,
+    label: 'Call Diagonal',
+    enabledPaper: true,
+    enabledLive: false,
+    symbols: ['SPY', 'QQQ', 'AAPL', 'MSFT'],
+    dte: { min: 28, max: 38 }, // Front (short) leg
+    width: 5, // Long strike = short strike - 5 (back month)
+    targetDeltaRange: { min: 0.25, max: 0.40 }, // Short (front) call, OTM
+    minCreditFraction: 0.16, // Ignored for debit spreads (credit-only guardrail, required by interface)
+    maxVerticalSkewSandbox: 0.10, // Not applicable (legs are in different expirations)
+    maxVerticalSkewLive: 0.05,
+    backDteGap: { min: 21, max: 42 },
+  },
 };
 
+// Active runtime versions (strategy_configs); strategies not listed use STRATEGY_CONFIGS
+let liveConfigs: Partial<Record<StrategyId, StrategyConfig>> = {};
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function checkRange(
+  errors: string[],
+  name: string,
+  value: unknown,
+  limits: { min: number; max: number; integer?: boolean }
+): value is { min: number; max: number } {
+  const range = value as { min?: unknown; max?: unknown } | null;
+  if (typeof range !== 'object' || range === null || !isNumber(range.min) || !isNumber(range.max)) {
+    errors.push(`${name} must be { min, max } numbers`);
+    return false;
+  }
+  if (limits.integer && (!Number.isInteger(range.min) || !Number.isInteger(range.max))) {
+    errors.push(`${name} must be whole numbers`);
+    return false;
+  }
+  if (range.min < limits.min || range.max > limits.max || range.min > range.max) {
+    errors.push(`${name} must satisfy ${limits.min} <= min <= max <= ${limits.max}`);
+    return false;
+  }
+  return true;
+}
+
+function checkNumber(errors: string[], name: string, value: unknown, min: number, max: number): void {
+  if (!isNumber(value) || value < min || value > max) {
+    errors.push(`${name} must be a number from ${min} to ${max}`);
+  }
+}
+
+/**
+ * Validate a strategy config (pure)
+ *
+ * The seed default fixes each strategy's shape: the sign of its delta band (negative
+ * raw deltas for short puts, positive values or magnitudes otherwise), whether width
+ * is 0 (same-strike calendars), and which optional fields apply (backDteGap for time
+ * spreads, minShortStrikeGap for the iron condor). Symbols are upper-cased and
+ * deduplicated.
+ */
+export function validateStrategyConfig(
+  strategyId: StrategyId,
+  input: unknown
+): { config: StrategyConfig | null; errors: string[] } {
+  const seed = STRATEGY_CONFIGS[strategyId];
+  if (!seed) {
+    return { config: null, errors: [`Unknown strategy: ${strategyId}`] };
+  }
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { config: null, errors: ['config must be an object'] };
+  }
+  const body = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const label = typeof body.label === 'string' ? body.label.trim() : '';
+  if (!label) {
+    errors.push('label is required');
+  }
+  for (const flag of ['enabledPaper', 'enabledLive']) {
+    if (typeof body[flag] !== 'boolean') {
+      errors.push(`${flag} must be true or false`);
+    }
+  }
+
+  let symbols: string[] = [];
+  if (!Array.isArray(body.symbols) || body.symbols.some(symbol => typeof symbol !== 'string')) {
+    errors.push('symbols must be a list of tickers');
+  } else {
+    symbols = Array.from(new Set(body.symbols.map(symbol => (symbol as string).trim().toUpperCase()).filter(Boolean)));
+    const invalid = symbols.filter(symbol => !isValidSymbol(symbol));
+    if (symbols.length === 0) {
+      errors.push('symbols must list at least one ticker');
+    } else if (invalid.length > 0) {
+      errors.push(`Invalid symbols: ${invalid.join(', ')}`);
+    }
+  }
+
+  const dte = body.dte as { min?: unknown; max?: unknown; measure?: unknown } | undefined;
+  if (checkRange(errors, 'dte', body.dte, { min: 1, max: 365, integer: true })
+    && dte?.measure !== undefined && dte.measure !== 'CALENDAR' && dte.measure !== 'TRADING') {
+    errors.push('dte.measure must be CALENDAR or TRADING');
+  }
+
+  if (seed.width === 0) {
+    if (body.width !== 0) {
+      errors.push(`width must be 0 for ${strategyId} (same strike in both expirations)`);
+    }
+  } else {
+    checkNumber(errors, 'width', body.width, 0.5, 100);
+  }
+
+  const delta = body.targetDeltaRange;
+  if (checkRange(errors, 'targetDeltaRange', delta, { min: -1, max: 1 })) {
+    const negative = seed.targetDeltaRange.max < 0;
+    const { min, max } = delta as { min: number; max: number };
+    const example = `default ${seed.targetDeltaRange.min} to ${seed.targetDeltaRange.max}`;
+    if (negative && !(max < 0)) {
+      errors.push(`targetDeltaRange must be negative for ${strategyId} (raw put delta, ${example})`);
+    } else if (!negative && !(min > 0)) {
+      errors.push(`targetDeltaRange must be positive for ${strategyId} (${example})`);
+    }
+  }
+
+  checkNumber(errors, 'minCreditFraction', body.minCreditFraction, 0.01, 0.99);
+  checkNumber(errors, 'maxVerticalSkewSandbox', body.maxVerticalSkewSandbox, 0, 1);
+  checkNumber(errors, 'maxVerticalSkewLive', body.maxVerticalSkewLive, 0, 1);
+  if (body.minPop !== undefined) {
+    checkNumber(errors, 'minPop', body.minPop, 0, 1);
+  }
+
+  if (seed.minShortStrikeGap !== undefined) {
+    checkNumber(errors, 'minShortStrikeGap', body.minShortStrikeGap, 0, 500);
+  } else if (body.minShortStrikeGap !== undefined) {
+    errors.push(`minShortStrikeGap does not apply to ${strategyId}`);
+  }
+
+  if (seed.backDteGap !== undefined) {
+    checkRange(errors, 'backDteGap', body.backDteGap, { min: 1, max: 365, integer: true });
+  } else if (body.backDteGap !== undefined) {
+    errors.push(`backDteGap does not apply to ${strategyId}`);
+  }
+
+  if (errors.length > 0) {
+    return { config: null, errors };
+  }
+
+  const dteRange = dte as { min: number; max: number; measure?: DteMeasure };
+  const config: StrategyConfig = {
+    id: strategyId,
+    label,
+    enabledPaper: body.enabledPaper as boolean,
+    enabledLive: body.enabledLive as boolean,
+    symbols,
+    dte: { min: dteRange.min, max: dteRange.max, ...(dteRange.measure ? { measure: dteRange.measure } : {}) },
+    width: body.width as number,
+    targetDeltaRange: { ...(delta as { min: number; max: number }) },
+    minCreditFraction: body.minCreditFraction as number,
+    maxVerticalSkewSandbox: body.maxVerticalSkewSandbox as number,
+    maxVerticalSkewLive: body.maxVerticalSkewLive as number,
+    ...(body.minPop !== undefined ? { minPop: body.minPop as number } : {}),
+    ...(seed.minShortStrikeGap !== undefined ? { minShortStrikeGap: body.minShortStrikeGap as number } : {}),
+    ...(seed.backDteGap !== undefined ? { backDteGap: { ...(body.backDteGap as { min: number; max: number }) } } : {}),
+  };
+  return { config, errors: [] };
+}
+
+/**
+ * Replace the runtime versions (strategies left out use STRATEGY_CONFIGS)
+ */
+export function setStrategyConfigOverrides(configs: Partial<Record<StrategyId, StrategyConfig>>): void {
+  liveConfigs = { ...configs };
+}
+
+/**
+ * Load the active strategy_configs versions
+ *
+ * Called at the start of every request and cron run. Invalid stored versions are
+ * logged and skipped (the seed default applies); if the read fails the previously
+ * loaded versions stay in place.
+ */
+export async function loadStrategyConfigs(env: Env): Promise<void> {
+  try {
+    const configs: Partial<Record<StrategyId, StrategyConfig>> = {};
+    for (const row of await getActiveStrategyConfigs(env)) {
+      const strategyId = row.strategy as StrategyId;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(row.config);
+      } catch {
+        parsed = null;
+      }
+      const { config, errors } = validateStrategyConfig(strategyId, parsed);
+      if (config) {
+        configs[strategyId] = config;
+      } else {
+        console.warn('[strategyConfig] invalid_stored_config', JSON.stringify({
+          strategy: row.strategy,
+          version: row.version,
+          errors,
+        }));
+      }
+    }
+    setStrategyConfigOverrides(configs);
+  } catch (error) {
+    console.error('[strategyConfig] load_failed', JSON.stringify({
+      error: error instanceof Error ? error.message : String(error),
+    }));
+  }
+}
+
 /**
  * Check if a strategy is enabled for a given trading mode
  * 
@@ -114,7 +356,7 @@ export const STRATEGY_CONFIGS: Record<StrategyId, StrategyConfig> = {
  * - SANDBOX_PAPER / DRY_RUN: uses enabledPaper flag
  */
 export function isStrategyEnabled(strategyId: StrategyId, mode: TradingMode): boolean {
-  const config = STRATEGY_CONFIGS[strategyId];
+  const config = liveConfigs[strategyId] ?? STRATEGY_CONFIGS[strategyId];
   if (!config) {
     return false;
   }
@@ -141,13 +383,27 @@ export function getEnabledStrategies(mode: TradingMode): StrategyId[] {
 }
 
 /**
- * Get strategy config for a given strategy ID
+ * Get strategy config for a given strategy ID (the active runtime version, else the seed default)
  */
 export function getStrategyConfig(strategyId: StrategyId): StrategyConfig {
-  const config = STRATEGY_CONFIGS[strategyId];
+  const config = liveConfigs[strategyId] ?? STRATEGY_CONFIGS[strategyId];
   if (!config) {
     throw new Error(`Unknown strategy: ${strategyId}`);
   }
   return config;
 }
 
+
+/**
+ * DTE of an expiration in the strategy's measure and whether it is inside the
+ * strategy's DTE window
+ */
+export function checkStrategyDteWindow(
+  config: StrategyConfig,
+  expiration: string,
+  now: Date
+): { dte: number; measure: DteMeasure; inWindow: boolean } {
+  const measure = config.dte.measure ?? 'CALENDAR';
+  const dte = computeDTEByMeasure(expiration, now, measure);
+  return { dte, measure, inWindow: dte >= config.dte.min && dte <= config.dte.max };
+}
@@ -0,0 +1,364 @@
+/**
+ * Iron Condor Strategy
+ *
+ * Builds candidates for iron condors by pairing a bull put credit wing with a bear
+ * call credit wing on the same expiration:
+ * - Put wing: sell PUT (short_put), buy PUT 5 points lower (long_put)
+ * - Call wing: sell CALL (short_call), buy CALL 5 points higher (long_call)
+ * - Wings come from the vertical builders, so OTM, liquidity and width rules match them
+ * - Delta range: config.targetDeltaRange is the short put range (negative); the short
+ *   call uses the mirrored positive range (e.g. -0.32..-0.18 → 0.18..0.32)
+ * - call short strike - put short strike >= config.minShortStrikeGap
+ *
+ * Candidate strikes: short_strike/long_strike = put wing, call_short_strike/call_long_strike
+ * = call wing, credit = put credit + call credit.
+ *
+ * NOTE: Credit filtering (min credit) is handled downstream in passesHardFiltersWithReason
+ * against the combined credit.
+ */
+
+import type { CandidateMetrics, OptionQuote, UnderlyingQuote } from '../types';
+import type { StrategyConfig } from './config';
+import { StrategyId, type RawCandidate, type StrategyPlugin } from './types';
+import { buildBullPutCreditCandidates, bullPutCreditStrategy } from './bullPutCredit';
+import { buildBearCallCreditCandidates, bearCallCreditStrategy } from './bearCallCredit';
+import { CREDIT_VERTICAL_RULES, computePctSpread } from './vertical';
+import { computeVerticalSkew } from '../core/metrics';
+import { getCondorWings, wingAsVertical, findThreatenedWing } from '../core/ironCondor';
+
+export interface IronCondorCandidate {
+  symbol: string;
+  expiration: string;
+  short_strike: number;       // put wing short
+  long_strike: number;        // put wing long
+  call_short_strike: number;
+  call_long_strike: number;
+  width: number;
+  credit: number;             // combined credit (put + call)
+  put_credit: number;
+  call_credit: number;
+  strategy: 'IRON_CONDOR';
+  short_put: OptionQuote;
+  long_put: OptionQuote;
+  short_call: OptionQuote;
+  long_call: OptionQuote;
+  dte: number;
+}
+
+const DEFAULT_MIN_SHORT_STRIKE_GAP = 10;
+
+/**
+ * Build iron condor candidates from option chain
+ */
+export function buildIronCondorCandidates(
+  config: StrategyConfig,
+  chain: OptionQuote[],
+  underlying: UnderlyingQuote,
+  dte: number
+): IronCondorCandidate[] {
+  const minGap = config.minShortStrikeGap ?? DEFAULT_MIN_SHORT_STRIKE_GAP;
+  const putRange = config.targetDeltaRange;
+  const callRange = { min: -putRange.max, max: -putRange.min };
+
+  const putWings = buildBullPutCreditCandidates(config, chain, underlying, dte);
+  const callWings = buildBearCallCreditCandidates(
+    { ...config, targetDeltaRange: callRange },
+    chain,
+    underlying,
+    dte
+  );
+
+  const candidates: IronCondorCandidate[] = [];
+  for (const put of putWings) {
+    for (const call of callWings) {
+      if (put.expiration !== call.expiration || put.width !== call.width) {
+        continue;
+      }
+      if (call.short_strike - put.short_strike < minGap) {
+        continue; // Short strikes too close together
+      }
+      if (!put.short_put || !put.long_put || !call.short_call || !call.long_call) {
+        continue;
+      }
+
+      candidates.push({
+        symbol: underlying.symbol,
+        expiration: put.expiration,
+        short_strike: put.short_strike,
+        long_strike: put.long_strike,
+        call_short_strike: call.short_strike,
+        call_long_strike: call.long_strike,
+        width: put.width,
+        credit: put.credit + call.credit,
+        put_credit: put.credit,
+        call_credit: call.credit,
+        strategy: 'IRON_CONDOR',
+        short_put: put.short_put,
+        long_put: put.long_put,
+        short_call: call.short_call,
+        long_call: call.long_call,
+        dte,
+      });
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Split an IRON_CONDOR candidate into its two credit wings
+ * 
+ * Each wing is a plain vertical (BULL_PUT_CREDIT / BEAR_CALL_CREDIT) with its own
+ * credit, so per-leg checks (liquidity, skew, required data) run unchanged per wing.
+ */
+function getIronCondorWings(candidate: RawCandidate): RawCandidate[] {
+  const { short_put, long_put, short_call, long_call } = candidate;
+  return [
+    {
+      symbol: candidate.symbol,
+      expiration: candidate.expiration,
+      short_strike: candidate.short_strike,
+      long_strike: candidate.long_strike,
+      width: candidate.width,
+      credit: short_put && long_put ? short_put.bid - long_put.ask : 0,
+      strategy: 'BULL_PUT_CREDIT',
+      short_put,
+      long_put,
+      dte: candidate.dte,
+    },
+    {
+      symbol: candidate.symbol,
+      expiration: candidate.expiration,
+      short_strike: candidate.call_short_strike ?? 0,
+      long_strike: candidate.call_long_strike ?? 0,
+      width: candidate.width,
+      credit: short_call && long_call ? short_call.bid - long_call.ask : 0,
+      strategy: 'BEAR_CALL_CREDIT',
+      short_call,
+      long_call,
+      dte: candidate.dte,
+    },
+  ];
+}
+
+/**
+ * Candidate metrics for an IRON_CONDOR
+ * 
+ * - POP = 1 - |put short delta| - |call short delta| (only one wing can finish ITM)
+ * - max_profit = combined credit, max_loss = width - combined credit
+ * - Skew and liquidity use the worse of the two wings
+ * - delta_short is the short leg with the larger |delta| (the wing closer to the money)
+ */
+function computeIronCondorMetrics(
+  candidate: RawCandidate,
+  rv_30d: number,
+  iv_30d: number,
+  ivr: number
+): CandidateMetrics {
+  const [putWing, callWing] = getIronCondorWings(candidate);
+  const legs = [
+    { short: putWing.short_put, long: putWing.long_put },
+    { short: callWing.short_call, long: callWing.long_call },
+  ];
+
+  for (const { short, long } of legs) {
+    if (!short || !long || short.delta == null || short.implied_volatility == null || long.implied_volatility == null) {
+      throw new Error('Missing required option data');
+    }
+  }
+
+  const shortPut = legs[0].short!;
+  const longPut = legs[0].long!;
+  const shortCall = legs[1].short!;
+  const longCall = legs[1].long!;
+
+  const vertical_skew = Math.max(
+    computeVerticalSkew({ iv_short: shortPut.implied_volatility!, iv_long: longPut.implied_volatility! }),
+    computeVerticalSkew({ iv_short: shortCall.implied_volatility!, iv_long: longCall.implied_volatility! })
+  );
+
+  const putDelta = shortPut.delta!;
+  const callDelta = shortCall.delta!;
+  const pop = Math.max(0, 1 - Math.abs(putDelta) - Math.abs(callDelta));
+  const max_profit = candidate.credit;
+  const max_loss = candidate.width - candidate.credit;
+
+  const dominantShort = Math.abs(putDelta) >= Math.abs(callDelta) ? shortPut : shortCall;
+  const dominantLong = dominantShort === shortPut ? longPut : longCall;
+
+  return {
+    symbol: candidate.symbol,
+    expiration: candidate.expiration,
+    short_strike: candidate.short_strike,
+    long_strike: candidate.long_strike,
+    width: candidate.width,
+    credit: candidate.credit,
+    ivr,
+    rv_30d,
+    iv_30d,
+    vertical_skew,
+    verticalSkew: vertical_skew,
+    short_pct_spread: Math.max(
+      computePctSpread(shortPut.bid, shortPut.ask),
+      computePctSpread(shortCall.bid, shortCall.ask)
+    ),
+    long_spread: Math.max(longPut.ask - longPut.bid, longCall.ask - longCall.bid),
+    long_pct_spread: Math.max(
+      computePctSpread(longPut.bid, longPut.ask),
+      computePctSpread(longCall.bid, longCall.ask)
+    ),
+    term_structure: 0.0, // Placeholder, as for verticals
+    delta_short: dominantShort.delta!,
+    delta_long: dominantLong.delta ?? undefined,
+    pop,
+    max_profit,
+    max_loss,
+  };
+}
+
+/**
+ * Entry quote re-check for an IRON_CONDOR proposal
+ * 
+ * Same checks as a credit vertical, across both wings:
+ * - Combined credit (put wing + call wing) >= minCredit
+ * - Short put delta in [minDelta, maxDelta]; short call delta in the mirrored range [-maxDelta, -minDelta]
+ */
+const checkIronCondorEntryQuotes: StrategyPlugin['checkEntryQuotes'] = (chain, proposal, { minCredit, minDelta, maxDelta }) => {
+  const find = (strike: number | null | undefined, type: 'put' | 'call') =>
+    strike == null ? undefined : chain.find(opt => opt.strike === strike && opt.type === type);
+  const shortPut = find(proposal.short_strike, 'put');
+  const longPut = find(proposal.long_strike, 'put');
+  const shortCall = find(proposal.call_short_strike, 'call');
+  const longCall = find(proposal.call_long_strike, 'call');
+
+  if (!shortPut || !longPut || !shortCall || !longCall) {
+    return { valid: false, reason: 'Cannot find option legs in chain' };
+  }
+
+  for (const option of [shortPut, longPut, shortCall, longCall]) {
+    if (!option.bid || !option.ask || option.bid <= 0 || option.ask <= 0) {
+      return { valid: false, reason: 'Missing or invalid quotes' };
+    }
+  }
+
+  const credit = (shortPut.bid - longPut.ask) + (shortCall.bid - longCall.ask);
+  if (credit < minCredit) {
+    return { valid: false, reason: `Live credit ${credit.toFixed(2)} below minimum ${minCredit.toFixed(2)}`, credit };
+  }
+
+  if (!shortPut.delta || !shortCall.delta) {
+    return { valid: false, reason: 'Short leg delta missing' };
+  }
+  if (shortPut.delta < minDelta || shortPut.delta > maxDelta) {
+    return {
+      valid: false,
+      reason: `Put delta ${shortPut.delta.toFixed(3)} outside range [${minDelta}, ${maxDelta}]`,
+      delta: shortPut.delta,
+    };
+  }
+  if (shortCall.delta < -maxDelta || shortCall.delta > -minDelta) {
+    return {
+      valid: false,
+      reason: `Call delta ${shortCall.delta.toFixed(3)} outside range [${-maxDelta}, ${-minDelta}]`,
+      delta: shortCall.delta,
+    };
+  }
+
+  return {
+    valid: true,
+    wings: [
+      { shortOption: shortPut, longOption: longPut },
+      { shortOption: shortCall, longOption: longCall },
+    ],
+    credit,
+    // Report the short leg closer to the money
+    delta: Math.abs(shortPut.delta) >= Math.abs(shortCall.delta) ? shortPut.delta : shortCall.delta,
+  };
+};
+
+/**
+ * IRON_CONDOR plugin
+ *
+ * Credit rules apply to the combined credit; marks, opening and closing legs are
+ * per wing (short_strike/long_strike are the put wing, so optionType is 'put').
+ */
+export const ironCondorStrategy: StrategyPlugin = {
+  ...CREDIT_VERTICAL_RULES,
+  id: StrategyId.IRON_CONDOR,
+  logKey: 'iron_condor',
+  bias: 'NEUTRAL',
+  optionType: 'put',
+  optionSides: ['short_puts', 'short_calls'],
+  longStrikeSide: 'below',
+  buildCandidates: (config, chain, underlying, dte) =>
+    buildIronCondorCandidates(config, chain, underlying, dte).map(ic => ({
+      symbol: ic.symbol,
+      expiration: ic.expiration,
+      short_strike: ic.short_strike,
+      long_strike: ic.long_strike,
+      call_short_strike: ic.call_short_strike,
+      call_long_strike: ic.call_long_strike,
+      width: ic.width,
+      credit: ic.credit, // Combined credit (put wing + call wing)
+      strategy: 'IRON_CONDOR' as const,
+      short_put: ic.short_put,
+      long_put: ic.long_put,
+      short_call: ic.short_call,
+      long_call: ic.long_call,
+      dte: ic.dte,
+    })),
+  // Range-bound structure: no directional gate beyond the regime mapping
+  getWings: getIronCondorWings,
+  hardFilter(candidate, minCreditFraction) {
+    // No per-wing credit floor (each wing only needs a positive credit); the floor
+    // applies to the combined credit
+    if (getIronCondorWings(candidate).some(wing => wing.credit < 0)) {
+      return { passed: false, reason: 'CREDIT_BELOW_MINIMUM' };
+    }
+    return CREDIT_VERTICAL_RULES.hardFilter(candidate, minCreditFraction);
+  },
+  computeMetrics: computeIronCondorMetrics,
+  // Each wing must satisfy its own vertical invariants (shared width),
+  // put short below call short (e.g., 630/625 + 650/655)
+  checkInvariants(trade) {
+    if (trade.call_short_strike == null || trade.call_long_strike == null) {
+      return ['IRON_CONDOR: call_short_strike and call_long_strike are required'];
+    }
+    const violations: string[] = [];
+    const callWidth = Math.abs(trade.call_short_strike - trade.call_long_strike);
+    if (callWidth !== trade.width) {
+      violations.push(`IRON_CONDOR CALL wing: width mismatch: stored=${trade.width}, calculated=${callWidth}`);
+    }
+    for (const wing of getCondorWings(trade)) {
+      const wingPlugin = wing.wing === 'PUT' ? bullPutCreditStrategy : bearCallCreditStrategy;
+      violations.push(
+        ...wingPlugin.checkInvariants(wingAsVertical(trade, wing)).map(v => `IRON_CONDOR ${wing.wing} wing: ${v}`)
+      );
+    }
+    if (trade.short_strike >= trade.call_short_strike) {
+      violations.push(`IRON_CONDOR: put short_strike (${trade.short_strike}) must be < call_short_strike (${trade.call_short_strike})`);
+    }
+    return violations;
+  },
+  getTradeWings: getCondorWings,
+  checkEntryQuotes: checkIronCondorEntryQuotes,
+  // WING_DEFENSE - underlying at/through one short strike: close only the threatened
+  // wing; the untested wing keeps running
+  checkStructureExit(trade, metrics, thresholds) {
+    const wing = findThreatenedWing(trade, metrics.underlying_price, thresholds.condorWingBreachBuffer);
+    if (!wing) {
+      return null;
+    }
+    return {
+      trigger: 'WING_DEFENSE',
+      wing,
+      details: {
+        wing,
+        underlying_price: metrics.underlying_price,
+        put_short_strike: trade.short_strike,
+        call_short_strike: trade.call_short_strike,
+        buffer: thresholds.condorWingBreachBuffer,
+      },
+    };
+  },
+};
@@ -0,0 +1,119 @@
+/**
+ * Strategy Registry
+ *
+ * Single lookup point for strategy plugins (see StrategyPlugin in ./types).
+ * Engine code asks the registry for premium type, option type, wings, marks,
+ * exit defaults and order legs instead of comparing strategy name strings.
+ *
+ * Adding a strategy:
+ * 1. Add its id to StrategyId and a StrategyConfig entry in ./config
+ * 2. Implement StrategyPlugin in its own module under strategy/ - multi-leg
+ *    structures describe their legs as wings (getTradeWings) and get marks,
+ *    order legs, invariants and exits wing by wing
+ * 3. Register it in BUILT_IN_STRATEGIES below
+ */
+
+import type { TradeRow } from '../types';
+import type { StrategyPlugin, DirectionalBias, StrategyStructure, StrategyWing } from './types';
+import { getSingleWing } from './vertical';
+import { wingAsVertical } from '../core/ironCondor';
+import { bullPutCreditStrategy } from './bullPutCredit';
+import { bearCallCreditStrategy } from './bearCallCredit';
+import { bullCallDebitStrategy } from './bullCallDebit';
+import { bearPutDebitStrategy } from './bearPutDebit';
+import { ironCondorStrategy } from './ironCondor';
+import { callCalendarStrategy } from './callCalendar';
+import { callDiagonalStrategy } from './callDiagonal';
+
+const BUILT_IN_STRATEGIES: StrategyPlugin[] = [
+  bullPutCreditStrategy,
+  bearCallCreditStrategy,
+  bullCallDebitStrategy,
+  bearPutDebitStrategy,
+  ironCondorStrategy,
+  callCalendarStrategy,
+  callDiagonalStrategy,
+];
+
+const registry = new Map<string, StrategyPlugin>();
+
+/**
+ * Register a strategy plugin (replaces an existing plugin with the same id)
+ */
+export function registerStrategy(plugin: StrategyPlugin): void {
+  registry.set(plugin.id, plugin);
+}
+
+for (const plugin of BUILT_IN_STRATEGIES) {
+  registerStrategy(plugin);
+}
+
+/**
+ * Plugin for a strategy, or undefined if none is registered
+ */
+export function findStrategyPlugin(strategy: string | null | undefined): StrategyPlugin | undefined {
+  return strategy ? registry.get(strategy) : undefined;
+}
+
+/**
+ * Plugin for a strategy; throws for unknown strategies
+ */
+export function getStrategyPlugin(strategy: string | null | undefined): StrategyPlugin {
+  const plugin = findStrategyPlugin(strategy);
+  if (!plugin) {
+    throw new Error(`Unknown strategy: ${strategy}`);
+  }
+  return plugin;
+}
+
+export function getRegisteredStrategies(): StrategyPlugin[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Debit strategy: entry_price is the debit paid (unknown strategies are treated as credit)
+ */
+export function isDebitStrategy(strategy: string | null | undefined): boolean {
+  return findStrategyPlugin(strategy)?.premium === 'DEBIT';
+}
+
+export function isCreditStrategy(strategy: string | null | undefined): boolean {
+  return findStrategyPlugin(strategy)?.premium === 'CREDIT';
+}
+
+export function getStrategyBias(strategy: string | null | undefined): DirectionalBias {
+  return findStrategyPlugin(strategy)?.bias ?? 'NEUTRAL';
+}
+
+/**
+ * Option type of a trade's short_strike/long_strike legs (defaults to 'put' for unknown strategies)
+ */
+export function getStrategyOptionType(strategy: string | null | undefined): 'put' | 'call' {
+  return findStrategyPlugin(strategy)?.optionType ?? 'put';
+}
+
+/**
+ * Wings of a trade or proposal (see StrategyPlugin.getTradeWings); unknown
+ * strategies are a single put wing
+ */
+export function getTradeWings(row: StrategyStructure): StrategyWing[] {
+  const plugin = findStrategyPlugin(row.strategy);
+  return plugin ? plugin.getTradeWings(row) : getSingleWing(row, 'put');
+}
+
+/**
+ * Wings still open on a trade (a wing closed by WING_DEFENSE is excluded)
+ */
+export function getOpenTradeWings(trade: StrategyStructure & Pick<TradeRow, 'closed_wing'>): StrategyWing[] {
+  return getTradeWings(trade).filter(w => w.wing === null || w.wing !== trade.closed_wing);
+}
+
+/**
+ * One wing of a trade as a two-leg trade
+ *
+ * Single-wing strategies get the trade itself. Wings of a multi-wing trade carry
+ * no prices (see wingAsVertical) - use them for strikes and leg lookups only.
+ */
+export function asWingTrade(trade: TradeRow, wing: StrategyWing): TradeRow {
+  return wing.wing === null ? trade : wingAsVertical(trade, wing);
+}
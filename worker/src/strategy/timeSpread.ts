@@ -0,0 +1,353 @@
+/**
+ * Time Spread Rules
+ *
+ * Shared pieces of the strategy plugins for call calendars and call diagonals:
+ * sell a call in the front expiration (`expiration`), buy a call in a back
+ * expiration (`long_expiration`). The spread is long vega and earns the front
+ * leg's faster decay, so it is scored on term structure (front IV vs back IV).
+ *
+ * - Calendar: long strike = short strike (width 0)
+ * - Diagonal: long strike = short strike - width (back-month long sits lower)
+ * - Debit: entry_price = debit paid (back ask - front bid), mark = long_mid - short_mid
+ * - max_loss = debit. The true max profit depends on back-month IV at front expiry,
+ *   so the trade model quotes profit targets as a return on the debit
+ *   (max_profit = debit); candidates carry an estimate for scoring.
+ */
+
+import type { CandidateMetrics, OptionQuote, TradeRow, UnderlyingQuote } from '../types';
+import type { StrategyConfig } from './config';
+import type { BackMonthChain, HardFilterResult, RawCandidate, StrategyPlugin } from './types';
+import { getStrategyConfig, type StrategyId } from './config';
+import { computeTermStructure, computePOP } from '../core/metrics';
+import { scoreTimeSpreadCandidate } from '../core/scoring';
+import { computePctSpread, checkVerticalStrikes, getSingleWing } from './vertical';
+
+// Entry uses the same absolute bid/ask ceiling as the vertical builders
+const MAX_LEG_SPREAD = 0.15;
+
+/**
+ * Build time spread candidates from the front chain and one back-month chain
+ *
+ * Short call: front expiration, delta in config.targetDeltaRange.
+ * Long call: back expiration at short_strike (calendar) or short_strike - width (diagonal).
+ */
+export function buildTimeSpreadCandidates(
+  strategy: 'CALL_CALENDAR' | 'CALL_DIAGONAL',
+  config: StrategyConfig,
+  chain: OptionQuote[],
+  underlying: UnderlyingQuote,
+  dte: number,
+  back: BackMonthChain | undefined,
+  debitRange: { min: number; max: number }
+): RawCandidate[] {
+  if (!back || back.dte <= dte) {
+    return []; // No back month to pair with
+  }
+
+  const width = strategy === 'CALL_CALENDAR' ? 0 : config.width;
+  const backCallsByStrike = new Map<number, OptionQuote>();
+  for (const opt of back.chain) {
+    if (opt.type === 'call') {
+      backCallsByStrike.set(opt.strike, opt);
+    }
+  }
+
+  const candidates: RawCandidate[] = [];
+  for (const shortCall of chain) {
+    if (shortCall.type !== 'call') {
+      continue;
+    }
+    if (!shortCall.delta || shortCall.delta < config.targetDeltaRange.min || shortCall.delta > config.targetDeltaRange.max) {
+      continue;
+    }
+
+    const longCall = backCallsByStrike.get(shortCall.strike - width);
+    if (!longCall) {
+      continue; // No matching back-month strike
+    }
+
+    if (!longCall.ask || !shortCall.bid || longCall.ask <= 0 || shortCall.bid <= 0) {
+      continue; // Missing or invalid quotes
+    }
+
+    // Debit: ask_long (back) - bid_short (front)
+    const debit = longCall.ask - shortCall.bid;
+    if (debit < debitRange.min || debit > debitRange.max) {
+      continue;
+    }
+
+    if (longCall.ask - longCall.bid > MAX_LEG_SPREAD || shortCall.ask - shortCall.bid > MAX_LEG_SPREAD) {
+      continue; // Spreads too wide
+    }
+
+    candidates.push({
+      symbol: underlying.symbol,
+      expiration: shortCall.expiration_date,
+      short_strike: shortCall.strike,
+      long_strike: longCall.strike,
+      width,
+      credit: -debit, // Stored as negative credit, as for debit verticals
+      strategy,
+      short_call: shortCall,
+      long_call: longCall,
+      dte,
+      debit,
+      long_expiration: back.expiration,
+      long_dte: back.dte,
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Estimated value of a time spread at front expiry with the underlying pinned at the short strike
+ *
+ * The short call expires worthless; the long call keeps its intrinsic value (width for
+ * diagonals) plus its extrinsic value at the pin, decayed by sqrt(remaining / current time).
+ */
+export function estimateTimeSpreadPeakValue(
+  candidate: RawCandidate,
+  longOption: OptionQuote,
+  pinPrice: number
+): number {
+  const longDte = candidate.long_dte ?? 0;
+  if (longDte <= candidate.dte) {
+    return 0;
+  }
+  const longMid = (longOption.bid + longOption.ask) / 2;
+  const longExtrinsic = Math.max(0, longMid - Math.max(0, pinPrice - longOption.strike));
+  const remainingExtrinsic = longExtrinsic * Math.sqrt((longDte - candidate.dte) / longDte);
+  return candidate.short_strike - candidate.long_strike + remainingExtrinsic;
+}
+
+/**
+ * Candidate metrics for a time spread
+ *
+ * - term_structure = (front IV - back IV) / back IV from the two legs
+ * - POP = 1 - |short delta| (front call expires OTM and its extrinsic is kept)
+ * - max_profit = estimated peak value - debit, max_loss = debit
+ * - vertical_skew is not applicable across expirations (0)
+ */
+export function computeTimeSpreadMetrics(
+  candidate: RawCandidate,
+  rv_30d: number,
+  iv_30d: number,
+  ivr: number
+): CandidateMetrics {
+  const shortOption = candidate.short_call;
+  const longOption = candidate.long_call;
+  if (
+    !shortOption ||
+    !longOption ||
+    shortOption.delta == null ||
+    shortOption.implied_volatility == null ||
+    longOption.implied_volatility == null
+  ) {
+    throw new Error('Missing required option data');
+  }
+
+  const debit = candidate.debit ?? Math.abs(candidate.credit);
+  const peakValue = estimateTimeSpreadPeakValue(candidate, longOption, candidate.short_strike);
+
+  return {
+    symbol: candidate.symbol,
+    expiration: candidate.expiration,
+    short_strike: candidate.short_strike,
+    long_strike: candidate.long_strike,
+    width: candidate.width,
+    credit: candidate.credit,
+    ivr,
+    rv_30d,
+    iv_30d,
+    vertical_skew: 0,
+    verticalSkew: 0,
+    short_pct_spread: computePctSpread(shortOption.bid, shortOption.ask),
+    long_spread: longOption.ask - longOption.bid,
+    long_pct_spread: computePctSpread(longOption.bid, longOption.ask),
+    term_structure: computeTermStructure({
+      front_iv: shortOption.implied_volatility,
+      back_iv: longOption.implied_volatility,
+    }),
+    delta_short: shortOption.delta,
+    delta_long: longOption.delta ?? undefined,
+    pop: computePOP(shortOption.delta),
+    max_profit: Math.max(0, peakValue - debit),
+    max_loss: debit,
+  };
+}
+
+/**
+ * Debit must sit inside the strategy's debitRange
+ */
+export function timeSpreadHardFilter(debitRange: { min: number; max: number }): StrategyPlugin['hardFilter'] {
+  return (candidate): HardFilterResult => {
+    if (!candidate.long_expiration) {
+      return { passed: false, reason: 'MISSING_LONG_EXPIRATION' };
+    }
+    const debit = candidate.debit ?? Math.abs(candidate.credit);
+    if (debit < debitRange.min) {
+      return { passed: false, reason: 'DEBIT_BELOW_MINIMUM' };
+    }
+    if (debit > debitRange.max) {
+      return { passed: false, reason: 'DEBIT_ABOVE_MAXIMUM' };
+    }
+    return { passed: true };
+  };
+}
+
+/**
+ * Time spread invariants: back expiration after the front, strikes per longStrikeSide
+ */
+export function checkTimeSpreadInvariants(
+  trade: TradeRow,
+  longStrikeSide: StrategyPlugin['longStrikeSide']
+): string[] {
+  const violations: string[] = [];
+  if (!trade.long_expiration) {
+    violations.push(`${trade.strategy}: long_expiration is required`);
+  } else if (trade.long_expiration <= trade.expiration) {
+    violations.push(`${trade.strategy}: long_expiration (${trade.long_expiration}) must be after expiration (${trade.expiration})`);
+  }
+  if (longStrikeSide === 'same') {
+    if (trade.short_strike !== trade.long_strike) {
+      violations.push(`${trade.strategy}: short_strike (${trade.short_strike}) must equal long_strike (${trade.long_strike})`);
+    }
+  } else {
+    violations.push(...checkVerticalStrikes(trade, longStrikeSide));
+  }
+  return violations;
+}
+
+/**
+ * Entry quote re-check for a time spread
+ *
+ * - Debit (back ask - front bid) within the strategy's debitRange
+ * - Front short call delta within the strategy's targetDeltaRange
+ */
+export function checkTimeSpreadEntryQuotes(debitRange: { min: number; max: number }): StrategyPlugin['checkEntryQuotes'] {
+  return (chain, proposal) => {
+    // Calendars share one strike across both legs, so match on expiration too
+    const shortOption = chain.find(opt =>
+      opt.type === 'call' && opt.strike === proposal.short_strike && opt.expiration_date === proposal.expiration
+    );
+    const longOption = chain.find(opt =>
+      opt.type === 'call' && opt.strike === proposal.long_strike && opt.expiration_date === proposal.long_expiration
+    );
+    if (!shortOption || !longOption) {
+      return { valid: false, reason: 'Cannot find option legs in chain' };
+    }
+    if (!shortOption.bid || !longOption.ask || shortOption.bid <= 0 || longOption.ask <= 0) {
+      return { valid: false, reason: 'Missing or invalid quotes' };
+    }
+
+    const credit = shortOption.bid - longOption.ask; // Negative: debit paid
+    const debit = Math.abs(credit);
+    if (debit < debitRange.min || debit > debitRange.max) {
+      return { valid: false, reason: `Live debit ${debit.toFixed(2)} outside range [${debitRange.min}, ${debitRange.max}]`, credit };
+    }
+
+    if (!shortOption.delta) {
+      return { valid: false, reason: 'Short leg delta missing' };
+    }
+    const { targetDeltaRange } = getStrategyConfig(proposal.strategy as StrategyId);
+    if (shortOption.delta < targetDeltaRange.min || shortOption.delta > targetDeltaRange.max) {
+      return {
+        valid: false,
+        reason: `Delta ${shortOption.delta.toFixed(3)} outside range [${targetDeltaRange.min}, ${targetDeltaRange.max}]`,
+        delta: shortOption.delta,
+      };
+    }
+
+    return { valid: true, wings: [{ shortOption, longOption }], credit, delta: shortOption.delta };
+  };
+}
+
+type TimeSpreadRules = Pick<
+  StrategyPlugin,
+  | 'premium'
+  | 'optionType'
+  | 'optionSides'
+  | 'timeSpread'
+  | 'getWings'
+  | 'computeMetrics'
+  | 'score'
+  | 'getTradeWings'
+  | 'computeMark'
+  | 'computePnl'
+  | 'exitDefaults'
+  | 'buildOpeningLegs'
+  | 'buildClosingLegs'
+  | 'checkStructureExit'
+>;
+
+/**
+ * Time spread rules (CALL_CALENDAR, CALL_DIAGONAL)
+ */
+export const TIME_SPREAD_RULES: TimeSpreadRules = {
+  premium: 'DEBIT',
+  optionType: 'call',
+  optionSides: ['long_calls'],
+  timeSpread: true,
+  // Single wing; per-leg liquidity and quote checks run on it, vertical skew is skipped
+  getWings: candidate => [candidate],
+  computeMetrics: computeTimeSpreadMetrics,
+  score(metrics, candidate, ctx) {
+    const { min, max } = ctx.config.targetDeltaRange;
+    return scoreTimeSpreadCandidate(metrics, {
+      mode: ctx.mode,
+      debit: candidate.debit ?? Math.abs(candidate.credit),
+      targetDelta: (min + max) / 2,
+    });
+  },
+  getTradeWings: row => getSingleWing(row, 'call'),
+  // Mark = what we'd receive to close (back call mid - front call mid)
+  computeMark: wings => wings.reduce((sum, w) => sum + w.longMid - w.shortMid, 0),
+  computePnl: (entryPrice, mark) => ({
+    unrealized_pnl: mark - entryPrice, // Positive when profitable
+    max_profit: entryPrice, // Targets are a return on the debit
+    max_loss: entryPrice,
+  }),
+  exitDefaults: { profitTargetFraction: 0.25, stopLossFraction: 0.40 },
+  // Long leg first: buy the back call, sell the front call
+  buildOpeningLegs: (wings, quantity) => wings.flatMap(({ shortOption, longOption }) => [
+    { option_symbol: longOption.symbol, side: 'buy_to_open' as const, quantity },
+    { option_symbol: shortOption.symbol, side: 'sell_to_open' as const, quantity },
+  ]),
+  // Long leg first: sell the back call, buy back the front call
+  buildClosingLegs: wings => wings.flatMap(({ short, long }) => [
+    { option_symbol: long.option_symbol, side: 'sell_to_close' as const, quantity: long.quantity },
+    { option_symbol: short.option_symbol, side: 'buy_to_close' as const, quantity: short.quantity },
+  ]),
+  checkStructureExit(trade, metrics, thresholds) {
+    // ASSIGNMENT_RISK - front short call ITM with little extrinsic left (early assignment candidate)
+    if (
+      metrics.underlying_price >= trade.short_strike &&
+      metrics.short_extrinsic !== undefined &&
+      metrics.short_extrinsic < thresholds.assignmentExtrinsicThreshold
+    ) {
+      return {
+        trigger: 'ASSIGNMENT_RISK',
+        details: {
+          underlying_price: metrics.underlying_price,
+          short_strike: trade.short_strike,
+          short_extrinsic: metrics.short_extrinsic,
+          threshold: thresholds.assignmentExtrinsicThreshold,
+        },
+      };
+    }
+    // FRONT_EXPIRY - close before the front (short) leg expires, at any time of day;
+    // the back-month long must not be left naked
+    if (metrics.dte <= thresholds.timeSpreadFrontExitDte) {
+      return {
+        trigger: 'FRONT_EXPIRY',
+        details: {
+          dte: metrics.dte,
+          threshold: thresholds.timeSpreadFrontExitDte,
+          long_expiration: trade.long_expiration,
+        },
+      };
+    }
+    return null;
+  },
+};
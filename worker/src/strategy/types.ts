@@ -1,18 +1,258 @@
 /**
  * Strategy Type Definitions
  * 
- * Defines all available trading strategies in the system.
+ * Defines all available trading strategies in the system and the plugin
+ * contract each strategy module implements.
  */
 
+import type {
+  OptionQuote,
+  UnderlyingQuote,
+  CandidateMetrics,
+  CandidateScoring,
+  TradeRow,
+  SpreadLeg,
+  CondorWing,
+  ExitTriggerType,
+  MonitoringMetrics,
+} from '../types';
+import type { TradingMode } from '../core/config';
+import type { StrategyConfig } from './config';
+
 export enum StrategyId {
   BULL_PUT_CREDIT = 'BULL_PUT_CREDIT',
   BEAR_CALL_CREDIT = 'BEAR_CALL_CREDIT',
   BULL_CALL_DEBIT = 'BULL_CALL_DEBIT',
   BEAR_PUT_DEBIT = 'BEAR_PUT_DEBIT',
   IRON_CONDOR = 'IRON_CONDOR',
+  CALL_CALENDAR = 'CALL_CALENDAR',
+  CALL_DIAGONAL = 'CALL_DIAGONAL',
 }
 
 // Type alias for strategy IDs - uses enum values, not keys
 // This ensures the type matches actual strategy ID values even if enum keys/values diverge
 export type StrategyIdType = StrategyId;
 
+
+/**
+ * Raw candidate structure (before metrics/scoring)
+ * Supports PUT and CALL verticals, iron condors and time spreads (calendars/diagonals)
+ */
+export interface RawCandidate {
+  symbol: string;
+  expiration: string;
+  short_strike: number;
+  long_strike: number;
+  width: number;
+  credit: number;
+  strategy: `${StrategyId}`;
+  // For BULL_PUT_CREDIT and BEAR_PUT_DEBIT: short_put and long_put are set
+  short_put?: OptionQuote;
+  long_put?: OptionQuote;
+  // For BEAR_CALL_CREDIT and BULL_CALL_DEBIT: short_call and long_call are set
+  short_call?: OptionQuote;
+  long_call?: OptionQuote;
+  // For IRON_CONDOR: all four legs are set; short_strike/long_strike are the put wing
+  call_short_strike?: number;
+  call_long_strike?: number;
+  dte: number;
+  debit?: number; // For debit spreads (BULL_CALL_DEBIT, BEAR_PUT_DEBIT, time spreads)
+  // For time spreads: the long leg's (back month) expiration; `expiration` is the short (front) leg
+  long_expiration?: string;
+  long_dte?: number;
+}
+
+/**
+ * Back-month chain handed to time spread builders (plugin.timeSpread)
+ */
+export interface BackMonthChain {
+  expiration: string;
+  dte: number;
+  chain: OptionQuote[];
+}
+
+// ============================================================================
+// Strategy Plugin Contract
+// ============================================================================
+
+export type PremiumType = 'CREDIT' | 'DEBIT';
+export type DirectionalBias = 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+export type OptionSide = 'short_puts' | 'short_calls' | 'long_puts' | 'long_calls';
+export type TrendDirection = 'bullish' | 'bearish';
+
+/**
+ * Inputs available to a strategy's directional gate for one symbol/expiration
+ */
+export interface StrategyGateContext {
+  symbol: string;
+  expiration: string;
+  // 0 = strongly bullish, 1 = strongly bearish (price vs SMA_20; 0.5 when unavailable)
+  shortTermBias: number;
+  // Cached per symbol by the caller (live: checkBullishTrend/checkBearishTrend, backtest: recorded closes)
+  getTrend(direction: TrendDirection): Promise<{ trendScore: number; reason?: string }>;
+}
+
+export interface StrategyGateResult {
+  allowed: boolean;
+  // Gate inputs, logged on [strategy-gate] and on rejection
+  values: Record<string, number>;
+  // Log tag suffix on rejection, e.g. 'trend_reject' → [strategy][bull_call_debit][trend_reject]
+  rejectTag?: string;
+  reason?: string;
+}
+
+export interface StrategyScoreContext {
+  mode: TradingMode;
+  config: StrategyConfig;
+  minCreditFraction: number;
+  ivrFromHistory?: boolean;
+  trendScore?: number; // Set when the plugin declares `trend`
+}
+
+export interface HardFilterResult {
+  passed: boolean;
+  reason?: string;
+}
+
+/**
+ * Per-contract P&L of a spread at a given mark
+ */
+export interface SpreadPnl {
+  unrealized_pnl: number;
+  max_profit: number;
+  max_loss: number;
+}
+
+/**
+ * Strikes and expirations of a trade or proposal (enough to name every leg)
+ */
+export type StrategyStructure = Pick<TradeRow, 'strategy' | 'expiration' | 'short_strike' | 'long_strike' | 'width'> &
+  Partial<Pick<TradeRow, 'call_short_strike' | 'call_long_strike' | 'long_expiration'>>;
+
+/**
+ * One short/long pair of a trade
+ *
+ * Verticals and time spreads are a single wing on the trade's own strikes;
+ * IRON_CONDOR has a put wing and a call wing. A wing behaves like the two-leg
+ * `strategy` for leg lookups, invariants and closing orders.
+ */
+export interface StrategyWing {
+  wing: CondorWing | null;        // IRON_CONDOR wing; null for single-wing strategies
+  strategy?: string;              // Two-leg strategy the wing behaves as (the trade's own for single-wing strategies)
+  optionType: 'put' | 'call';
+  short_strike: number;
+  long_strike: number;
+  expiration: string;             // Short leg expiration
+  long_expiration: string;        // Long leg expiration (later than `expiration` for time spreads)
+}
+
+/**
+ * Short/long option quotes of one wing
+ */
+export interface WingOptions {
+  shortOption: OptionQuote;
+  longOption: OptionQuote;
+}
+
+/**
+ * One held leg to close (option symbol and contracts)
+ */
+export interface PositionLeg {
+  option_symbol: string;
+  quantity: number;
+}
+
+export interface EntryQuoteLimits {
+  minCredit: number;
+  minDelta: number;               // Short leg delta range from the strategy thresholds
+  maxDelta: number;
+}
+
+/**
+ * Live quote re-check before an entry order (and before each limit-walk step)
+ */
+export interface EntryQuoteCheck {
+  valid: boolean;
+  reason?: string;
+  wings?: WingOptions[];          // Fresh quotes per wing, set when valid
+  credit?: number;                // Short bids - long asks (negative: debit paid)
+  delta?: number;
+}
+
+/**
+ * Close rule thresholds read by strategy structure exits (see CloseRuleConfig)
+ */
+export interface StructureExitThresholds {
+  condorWingBreachBuffer: number;
+  timeSpreadFrontExitDte: number;
+  assignmentExtrinsicThreshold: number;
+}
+
+export interface StructureExit {
+  trigger: Extract<ExitTriggerType, 'WING_DEFENSE' | 'ASSIGNMENT_RISK' | 'FRONT_EXPIRY'>;
+  wing?: CondorWing;              // WING_DEFENSE: the wing to close
+  details: Record<string, unknown>; // Logged on [monitor][exit][triggered]
+}
+
+/**
+ * Strategy plugin
+ *
+ * Everything the engine needs to know about a spread type. Proposals, monitoring,
+ * exits, invariants and the backtest look strategies up in strategy/registry.ts
+ * instead of branching on strategy names, so a new spread type is a new module
+ * that exports a plugin and registers it.
+ *
+ * A trade is one or more wings (short/long pairs): verticals and time spreads
+ * have one, IRON_CONDOR two. Marks, P&L, opening and closing legs are computed
+ * over all wings.
+ */
+export interface StrategyPlugin {
+  id: StrategyId;
+  logKey: string;                 // Log tag segment, e.g. 'bull_put_credit'
+  premium: PremiumType;           // CREDIT: entry_price is credit received; DEBIT: debit paid
+  bias: DirectionalBias;          // Bull/bear exposure governors (core/risk.ts)
+  optionType: 'put' | 'call';     // Option type of the short_strike/long_strike legs
+  optionSides: OptionSide[];      // Per-side concentration buckets the strategy counts against
+  trend?: TrendDirection;         // Trend the strategy is gated and scored on (debit spreads)
+  // DEBIT strategies: accepted debit per spread (builders, selection rules and entry revalidation)
+  debitRange?: { min: number; max: number };
+  // Time spreads: short leg in the front expiration, long leg in a back expiration
+  // (config.backDteGap after the front); buildCandidates receives the back-month chain
+  timeSpread?: boolean;
+
+  // Candidate pipeline
+  buildCandidates(
+    config: StrategyConfig,
+    chain: OptionQuote[],
+    underlying: UnderlyingQuote,
+    dte: number,
+    back?: BackMonthChain
+  ): RawCandidate[];
+  gate?(ctx: StrategyGateContext): Promise<StrategyGateResult>;
+  // Vertical wings of a candidate; per-leg hard filters and data checks run once per wing
+  getWings(candidate: RawCandidate): RawCandidate[];
+  // Strategy-specific hard filters, run after the shared per-leg filters (premium floors etc.)
+  hardFilter(candidate: RawCandidate, minCreditFraction: number): HardFilterResult;
+  computeMetrics(candidate: RawCandidate, rv_30d: number, iv_30d: number, ivr: number): CandidateMetrics;
+  score(metrics: CandidateMetrics, candidate: RawCandidate, ctx: StrategyScoreContext): CandidateScoring & { ev: number };
+
+  // Trade model
+  // Long strike relative to the short strike (long_strike = short_strike ± width; 'same' for calendars)
+  longStrikeSide: 'above' | 'below' | 'same';
+  // Required width of every wing (v1 verticals and condors: 5); unset when config.width decides
+  fixedWidth?: number;
+  checkInvariants(trade: TradeRow): string[];
+  // Legs of a trade or proposal as wings (put wing first); throws when strikes are missing
+  getTradeWings(row: StrategyStructure): StrategyWing[];
+  // Mark over the open wings (cost to close for credit, value to close for debit)
+  computeMark(wings: Array<{ shortMid: number; longMid: number }>): number;
+  computePnl(entryPrice: number, mark: number, width: number): SpreadPnl;
+  exitDefaults: { profitTargetFraction: number; stopLossFraction: number };
+  // Re-check live quotes for every wing against the premium and delta limits
+  checkEntryQuotes(chain: OptionQuote[], proposal: StrategyStructure, limits: EntryQuoteLimits): EntryQuoteCheck;
+  // Opening and closing legs for the given wings, in the order the broker expects them
+  buildOpeningLegs(wings: WingOptions[], quantity: number): SpreadLeg[];
+  buildClosingLegs(wings: Array<{ short: PositionLeg; long: PositionLeg }>): SpreadLeg[];
+  // Exits specific to the structure, checked after STOP_LOSS (WING_DEFENSE, ASSIGNMENT_RISK, FRONT_EXPIRY)
+  checkStructureExit?(trade: TradeRow, metrics: MonitoringMetrics, thresholds: StructureExitThresholds): StructureExit | null;
+}
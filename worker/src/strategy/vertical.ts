@@ -0,0 +1,374 @@
+/**
+ * Vertical Spread Rules
+ *
+ * Shared pieces of the strategy plugins for two-leg, single-expiration verticals.
+ * Credit and debit verticals differ only in premium handling, so each gets one
+ * rule set here and the strategy modules add the builder, option type, gate and
+ * strike invariants.
+ *
+ * - Credit: entry_price = credit received, mark = short_mid - long_mid,
+ *   max_profit = credit, max_loss = width - credit
+ * - Debit: entry_price = debit paid, mark = long_mid - short_mid,
+ *   max_profit = width - debit, max_loss = debit
+ */
+
+import type { CandidateMetrics, OptionQuote, TradeRow } from '../types';
+import type {
+  EntryQuoteCheck,
+  EntryQuoteLimits,
+  RawCandidate,
+  StrategyPlugin,
+  StrategyStructure,
+  StrategyWing,
+  TrendDirection,
+} from './types';
+import { computeVerticalSkew, computePOP, computeEV } from '../core/metrics';
+import { scoreCandidate, scoreDebitCandidate } from '../core/scoring';
+
+// Debit spreads: accepted debit range per spread
+export const MIN_DEBIT = 0.80;
+export const MAX_DEBIT = 2.50;
+
+// Debit spreads: long leg |delta| range re-checked before entry
+export const DEBIT_ENTRY_LONG_DELTA = { min: 0.40, max: 0.55 };
+
+// v1 verticals (and condor wings) only trade 5-point widths
+export const VERTICAL_WIDTH = 5;
+
+// Directional gate for debit spreads (trendScore floor)
+export const DEBIT_MIN_TREND_SCORE = 0.35;
+
+/**
+ * Short/long option quotes of a vertical candidate
+ */
+export function getVerticalOptions(
+  candidate: RawCandidate,
+  optionType: 'put' | 'call'
+): { shortOption?: OptionQuote; longOption?: OptionQuote } {
+  return optionType === 'put'
+    ? { shortOption: candidate.short_put, longOption: candidate.long_put }
+    : { shortOption: candidate.short_call, longOption: candidate.long_call };
+}
+
+/**
+ * Percent bid/ask spread of one leg (0 when the quote is unusable)
+ */
+export function computePctSpread(bid: number | null | undefined, ask: number | null | undefined): number {
+  if (!Number.isFinite(bid as number) || !Number.isFinite(ask as number)) {
+    return 0;
+  }
+  const b = bid as number;
+  const a = ask as number;
+  if (a <= 0) {
+    return 0;
+  }
+  const spread = a - b;
+  if (!Number.isFinite(spread) || spread <= 0) {
+    return 0;
+  }
+  const pct = spread / a;
+  return pct > 0 ? pct : 0;
+}
+
+/**
+ * Candidate metrics for a vertical (credit or debit)
+ */
+export function computeVerticalMetrics(
+  candidate: RawCandidate,
+  optionType: 'put' | 'call',
+  premium: StrategyPlugin['premium'],
+  rv_30d: number,
+  iv_30d: number,
+  ivr: number
+): CandidateMetrics {
+  const { shortOption, longOption } = getVerticalOptions(candidate, optionType);
+
+  if (
+    !shortOption ||
+    !longOption ||
+    shortOption.delta == null ||
+    shortOption.implied_volatility == null ||
+    longOption.implied_volatility == null
+  ) {
+    throw new Error('Missing required option data');
+  }
+
+  const shortIv = shortOption.implied_volatility;
+  const longIv = longOption.implied_volatility;
+
+  const vertical_skew = computeVerticalSkew({
+    iv_short: shortIv,
+    iv_long: longIv,
+  });
+
+  // TODO: Get actual term structure from back month
+  const term_structure = 0.0; // Placeholder
+
+  // IVR (0–1 scale) comes from getIVRank (core/ivRank.ts); NEUTRAL_IVR when history is short
+
+  // For scoring, use absolute delta (scoring already uses Math.abs)
+  // This allows call deltas (positive) and put deltas (negative) to be treated consistently
+  const pop = computePOP(shortOption.delta);
+
+  // Calculate max_profit and max_loss correctly for both credit and debit spreads
+  let max_profit: number;
+  let max_loss: number;
+  let ev: number;
+
+  if (premium === 'DEBIT') {
+    // For debit spreads:
+    // - max_profit = width - debit
+    // - max_loss = debit
+    const debit = candidate.debit ?? Math.abs(candidate.credit);
+    max_profit = candidate.width - debit;
+    max_loss = debit;
+    // EV for debit spreads is computed differently (not using computeEV which is credit-focused)
+    // Use a simplified EV estimate: maxProfit * pop - maxLoss * (1 - pop)
+    ev = max_profit * pop - max_loss * (1 - pop);
+  } else {
+    // For credit spreads:
+    // - max_profit = credit
+    // - max_loss = width - credit
+    max_profit = candidate.credit;
+    max_loss = candidate.width - candidate.credit;
+    ev = computeEV({
+      pop,
+      credit: candidate.credit,
+      width: candidate.width,
+    });
+  }
+
+  const short_pct_spread = computePctSpread(shortOption.bid, shortOption.ask);
+  const long_pct_spread = computePctSpread(longOption.bid, longOption.ask);
+
+  return {
+    symbol: candidate.symbol,
+    expiration: candidate.expiration,
+    short_strike: candidate.short_strike,
+    long_strike: candidate.long_strike,
+    width: candidate.width,
+    credit: candidate.credit,
+    ivr,
+    rv_30d,
+    iv_30d,
+    vertical_skew,
+    verticalSkew: vertical_skew,
+    short_pct_spread,
+    long_spread: longOption.ask - longOption.bid,
+    long_pct_spread,
+    term_structure,
+    delta_short: shortOption.delta, // Will be negative for puts, positive for calls
+    delta_long: longOption.delta ?? undefined, // Will be negative for puts, positive for calls
+    pop,
+    max_profit,
+    max_loss,
+  };
+}
+
+/**
+ * The single wing of a two-leg trade (verticals and time spreads)
+ */
+export function getSingleWing(row: StrategyStructure, optionType: 'put' | 'call'): StrategyWing[] {
+  return [{
+    wing: null,
+    strategy: row.strategy,
+    optionType,
+    short_strike: row.short_strike,
+    long_strike: row.long_strike,
+    expiration: row.expiration,
+    long_expiration: row.long_expiration ?? row.expiration,
+  }];
+}
+
+/**
+ * Entry quote re-check for a vertical (credit or debit)
+ *
+ * - Credit: short bid - long ask >= minCredit, short delta in [minDelta, maxDelta]
+ * - Debit: debit in [MIN_DEBIT, MAX_DEBIT], long leg |delta| in DEBIT_ENTRY_LONG_DELTA
+ */
+export function checkVerticalEntryQuotes(
+  chain: OptionQuote[],
+  proposal: StrategyStructure,
+  limits: EntryQuoteLimits,
+  optionType: 'put' | 'call',
+  premium: StrategyPlugin['premium']
+): EntryQuoteCheck {
+  const shortOption = chain.find(opt => opt.strike === proposal.short_strike && opt.type === optionType);
+  const longOption = chain.find(opt => opt.strike === proposal.long_strike && opt.type === optionType);
+  if (!shortOption || !longOption) {
+    return { valid: false, reason: 'Cannot find option legs in chain' };
+  }
+  if (!shortOption.bid || !longOption.ask || shortOption.bid <= 0 || longOption.ask <= 0) {
+    return { valid: false, reason: 'Missing or invalid quotes' };
+  }
+
+  // Same formula for puts and calls: positive = credit received, negative = debit paid
+  const credit = shortOption.bid - longOption.ask;
+  const wings = [{ shortOption, longOption }];
+
+  if (premium === 'DEBIT') {
+    const debit = Math.abs(credit);
+    if (debit < MIN_DEBIT || debit > MAX_DEBIT) {
+      return { valid: false, reason: `Live debit ${debit.toFixed(2)} outside range [${MIN_DEBIT}, ${MAX_DEBIT}]`, credit };
+    }
+    // Debit spreads are gated on the long leg's delta
+    if (!longOption.delta) {
+      return { valid: false, reason: 'Long leg delta missing for debit spread' };
+    }
+    const deltaLong = Math.abs(longOption.delta);
+    if (deltaLong < DEBIT_ENTRY_LONG_DELTA.min || deltaLong > DEBIT_ENTRY_LONG_DELTA.max) {
+      return {
+        valid: false,
+        reason: `Long leg delta ${deltaLong.toFixed(3)} outside range [${DEBIT_ENTRY_LONG_DELTA.min}, ${DEBIT_ENTRY_LONG_DELTA.max}] for debit spread`,
+        delta: longOption.delta,
+      };
+    }
+    return { valid: true, wings, credit, delta: longOption.delta };
+  }
+
+  if (credit < limits.minCredit) {
+    return { valid: false, reason: `Live credit ${credit.toFixed(2)} below minimum ${limits.minCredit.toFixed(2)}`, credit };
+  }
+  // Delta is positive for calls, negative for puts; the limits are already per strategy
+  if (!shortOption.delta) {
+    return { valid: false, reason: 'Short leg delta missing' };
+  }
+  if (shortOption.delta < limits.minDelta || shortOption.delta > limits.maxDelta) {
+    return {
+      valid: false,
+      reason: `Delta ${shortOption.delta.toFixed(3)} outside range [${limits.minDelta}, ${limits.maxDelta}]`,
+      delta: shortOption.delta,
+    };
+  }
+  return { valid: true, wings, credit, delta: shortOption.delta };
+}
+
+type PremiumRules = Pick<
+  StrategyPlugin,
+  'premium' | 'debitRange' | 'fixedWidth' | 'getWings' | 'hardFilter' | 'score' | 'computeMark' | 'computePnl' | 'exitDefaults' | 'buildOpeningLegs' | 'buildClosingLegs'
+>;
+
+/**
+ * Credit vertical rules (BULL_PUT_CREDIT, BEAR_CALL_CREDIT)
+ */
+export const CREDIT_VERTICAL_RULES: PremiumRules = {
+  premium: 'CREDIT',
+  fixedWidth: VERTICAL_WIDTH,
+  getWings: candidate => [candidate],
+  hardFilter(candidate, minCreditFraction) {
+    // Credit must be >= requiredCredit
+    const requiredCredit = candidate.width * minCreditFraction;
+    if (candidate.credit < requiredCredit) {
+      return { passed: false, reason: 'CREDIT_BELOW_MINIMUM' };
+    }
+    return { passed: true };
+  },
+  score(metrics, _candidate, ctx) {
+    return scoreCandidate(metrics, {
+      minCreditFraction: ctx.minCreditFraction,
+      mode: ctx.mode,
+      ivrFromHistory: ctx.ivrFromHistory,
+      minPop: ctx.config.minPop,
+    });
+  },
+  // Mark = what we'd pay to close (summed over open wings)
+  computeMark: wings => wings.reduce((sum, w) => sum + w.shortMid - w.longMid, 0),
+  computePnl: (entryPrice, mark, width) => ({
+    unrealized_pnl: entryPrice - mark, // Positive when profitable
+    max_profit: entryPrice,
+    max_loss: width - entryPrice,
+  }),
+  exitDefaults: { profitTargetFraction: 0.50, stopLossFraction: 0.10 },
+  // Short leg first, wing by wing: sell the short, buy the long
+  buildOpeningLegs: (wings, quantity) => wings.flatMap(({ shortOption, longOption }) => [
+    { option_symbol: shortOption.symbol, side: 'sell_to_open' as const, quantity },
+    { option_symbol: longOption.symbol, side: 'buy_to_open' as const, quantity },
+  ]),
+  // Short leg first, wing by wing: buy back the short, sell the long
+  buildClosingLegs: wings => wings.flatMap(({ short, long }) => [
+    { option_symbol: short.option_symbol, side: 'buy_to_close' as const, quantity: short.quantity },
+    { option_symbol: long.option_symbol, side: 'sell_to_close' as const, quantity: long.quantity },
+  ]),
+};
+
+/**
+ * Debit vertical rules (BULL_CALL_DEBIT, BEAR_PUT_DEBIT)
+ */
+export const DEBIT_VERTICAL_RULES: PremiumRules = {
+  premium: 'DEBIT',
+  debitRange: { min: MIN_DEBIT, max: MAX_DEBIT },
+  fixedWidth: VERTICAL_WIDTH,
+  getWings: candidate => [candidate],
+  hardFilter(candidate) {
+    // Debit (absolute value of negative credit) must be in [MIN_DEBIT, MAX_DEBIT]
+    const debit = Math.abs(candidate.credit);
+    if (debit < MIN_DEBIT) {
+      return { passed: false, reason: 'DEBIT_BELOW_MINIMUM' };
+    }
+    if (debit > MAX_DEBIT) {
+      return { passed: false, reason: 'DEBIT_ABOVE_MAXIMUM' };
+    }
+    return { passed: true };
+  },
+  score(metrics, candidate, ctx) {
+    // NOTE: metrics.credit is negative for debit spreads; pass the debit explicitly
+    return scoreDebitCandidate(metrics, {
+      mode: ctx.mode,
+      trendScore: ctx.trendScore,
+      debit: candidate.debit ?? Math.abs(candidate.credit),
+      width: candidate.width,
+    });
+  },
+  // Mark = what we'd receive to close (summed over open wings)
+  computeMark: wings => wings.reduce((sum, w) => sum + w.longMid - w.shortMid, 0),
+  computePnl: (entryPrice, mark, width) => ({
+    unrealized_pnl: mark - entryPrice, // Positive when profitable
+    max_profit: width - entryPrice,
+    max_loss: entryPrice,
+  }),
+  exitDefaults: { profitTargetFraction: 0.60, stopLossFraction: 0.50 },
+  // Long leg first, wing by wing: buy the long, sell the short
+  buildOpeningLegs: (wings, quantity) => wings.flatMap(({ shortOption, longOption }) => [
+    { option_symbol: longOption.symbol, side: 'buy_to_open' as const, quantity },
+    { option_symbol: shortOption.symbol, side: 'sell_to_open' as const, quantity },
+  ]),
+  // Long leg first, wing by wing: sell the long, buy back the short
+  buildClosingLegs: wings => wings.flatMap(({ short, long }) => [
+    { option_symbol: long.option_symbol, side: 'sell_to_close' as const, quantity: long.quantity },
+    { option_symbol: short.option_symbol, side: 'buy_to_close' as const, quantity: short.quantity },
+  ]),
+};
+
+/**
+ * Trend gate shared by debit spreads: trendScore >= DEBIT_MIN_TREND_SCORE
+ */
+export function debitTrendGate(direction: TrendDirection): NonNullable<StrategyPlugin['gate']> {
+  return async ctx => {
+    const trend = await ctx.getTrend(direction);
+    const allowed = trend.trendScore >= DEBIT_MIN_TREND_SCORE;
+    return {
+      allowed,
+      values: { trendScore: trend.trendScore },
+      rejectTag: 'trend_reject',
+      reason: allowed
+        ? undefined
+        : trend.reason || `Trend score ${trend.trendScore.toFixed(3)} < ${DEBIT_MIN_TREND_SCORE}`,
+    };
+  };
+}
+
+/**
+ * Strike relationship of a vertical: the long strike sits above or below the short
+ */
+export function checkVerticalStrikes(
+  trade: TradeRow,
+  longStrikeSide: StrategyPlugin['longStrikeSide']
+): string[] {
+  if (longStrikeSide === 'below' && trade.short_strike <= trade.long_strike) {
+    return [`${trade.strategy}: short_strike (${trade.short_strike}) must be > long_strike (${trade.long_strike})`];
+  }
+  if (longStrikeSide === 'above' && trade.short_strike >= trade.long_strike) {
+    return [`${trade.strategy}: short_strike (${trade.short_strike}) must be < long_strike (${trade.long_strike})`];
+  }
+  return [];
+}
@@ -10,6 +10,7 @@
  */
 
 import type { TradeRow, PortfolioPositionRow } from '../types';
+import { getStrategyOptionType, isDebitStrategy, getOpenTradeWings } from '../strategy/registry';
 
 export type ExitOrderPayload =
   | { kind: 'single'; request: SingleLegMarketOrderRequest }
@@ -85,7 +86,7 @@ function formatOptionSymbol(
  * - Debit spread exit: we receive credit, so use 0.01 (min we'd accept)
  */
 function calculateMarketLikeLimitPrice(trade: TradeRow): number {
-  const isDebitSpread = trade.strategy === 'BULL_CALL_DEBIT' || trade.strategy === 'BEAR_PUT_DEBIT';
+  const isDebitSpread = isDebitStrategy(trade.strategy);
   
   if (isDebitSpread) {
     // Debit spread exit: we receive credit, use very low limit (willing to accept minimal credit)
@@ -120,9 +121,7 @@ export async function buildExitOrderPayload(
   if (!trade.strategy) {
     throw new Error(`Trade ${trade.id} missing strategy - cannot determine option type`);
   }
-  const optionType = (trade.strategy === 'BEAR_CALL_CREDIT' || trade.strategy === 'BULL_CALL_DEBIT') 
-    ? 'call' 
-    : 'put';
+  const optionType = getStrategyOptionType(trade.strategy);
   
   // Single-leg position: build single-leg market order
   if (positions.length === 1) {
@@ -152,18 +151,19 @@ export async function buildExitOrderPayload(
   // For now, we'll build both and let the caller decide
   
   // Check if all positions have same symbol/expiration (required for multileg)
+  // Legs of the trade's own wings are one multileg order even across two expirations (time spreads)
   const symbols = new Set(positions.map(p => p.symbol));
   const expirations = new Set(positions.map(p => p.expiration));
+  const tradeExpirations = new Set(getOpenTradeWings(trade).flatMap(w => [w.expiration, w.long_expiration]));
   
-  if (symbols.size === 1 && expirations.size === 1) {
+  if (symbols.size === 1 && (expirations.size === 1 || Array.from(expirations).every(e => tradeExpirations.has(e)))) {
     // All positions are for same underlying and expiration - can use multileg
     const symbol = Array.from(symbols)[0];
-    const expiration = Array.from(expirations)[0];
     
     const legs = positions.map(position => {
       const optionSymbol = formatOptionSymbol(
         symbol,
-        expiration,
+        position.expiration,
         position.strike,
         position.option_type
       );
@@ -8,8 +8,8 @@
  */
 
 import type { Env } from '../env';
-import type { BrokerPosition, BrokerOrder } from '../types';
-import { TradierClient } from '../broker/tradierClient';
+import type { BrokerPosition, BrokerOrder, OptionQuote } from '../types';
+import { createBroker } from '../broker/factory';
 import { getDB } from '../db/client';
 import {
   upsertPortfolioPosition,
@@ -59,6 +59,9 @@ export interface TradierSnapshotResult {
  * 3. Writes everything to D1 with the shared snapshotId
  * 4. Returns the normalized snapshot
  * 
+ * The broker comes from createBroker: in DRY_RUN the snapshot is the SimulatedBroker
+ * ledger, so portfolio_positions mirror the simulated legs rather than the real account.
+ * 
  * @param env Environment
  * @param accountId Optional account ID (defaults to TRADIER_ACCOUNT_ID from env)
  */
@@ -83,7 +86,7 @@ export async function syncTradierSnapshot(
     asOf,
   }));
   
-  const broker = new TradierClient(env);
+  const broker = await createBroker(env);
   const mode = await getTradingMode(env);
   const db = getDB(env);
   
@@ -216,6 +219,10 @@ export async function syncTradierSnapshot(
       let bid: number | null = null;
       let ask: number | null = null;
       let lastPrice: number | null = position.cost_basis_per_contract || null;
+      let greeks: Pick<OptionQuote, 'delta' | 'gamma' | 'theta' | 'vega' | 'implied_volatility'> = {
+        delta: null,
+        implied_volatility: null,
+      };
       
       try {
         const optionChain = await broker.getOptionChain(parsed.underlying, parsed.expiration);
@@ -226,6 +233,13 @@ export async function syncTradierSnapshot(
           bid = option.bid;
           ask = option.ask;
           lastPrice = option.last || lastPrice;
+          greeks = {
+            delta: option.delta,
+            gamma: option.gamma,
+            theta: option.theta,
+            vega: option.vega,
+            implied_volatility: option.implied_volatility,
+          };
         }
       } catch (err) {
         // Option chain fetch failed - use existing prices
@@ -247,8 +261,10 @@ export async function syncTradierSnapshot(
       await db.prepare(`
         INSERT OR REPLACE INTO portfolio_positions (
           id, symbol, expiration, option_type, strike, side, quantity,
-          cost_basis_per_contract, last_price, bid, ask, snapshot_id, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          cost_basis_per_contract, last_price, bid, ask,
+          delta, gamma, theta, vega, implied_volatility,
+          snapshot_id, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).bind(
         positionId,
         positionKey.symbol,
@@ -261,6 +277,11 @@ export async function syncTradierSnapshot(
         lastPrice,
         bid,
         ask,
+        greeks.delta ?? null,
+        greeks.gamma ?? null,
+        greeks.theta ?? null,
+        greeks.vega ?? null,
+        greeks.implied_volatility ?? null,
         snapshotId,
         asOf
       ).run();
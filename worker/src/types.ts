@@ -33,7 +33,8 @@ export type ExitReason =
   | 'MAX_EXIT_ATTEMPTS'
   | 'MANUAL_CLOSE'
   | 'PHANTOM_TRADE'
-  | 'NORMAL_EXIT';
+  | 'NORMAL_EXIT'
+  | 'ASSIGNMENT_RISK';
 
 export interface TradeRow {
   id: string;                  // UUID
@@ -45,7 +46,7 @@ export interface TradeRow {
   long_strike: number;
   width: number;               // 5 in v1
   quantity: number;            // number of contracts (default 1, but can be 2, 3, 4, etc.)
-  strategy?: string;           // 'BULL_PUT_CREDIT' | 'BEAR_CALL_CREDIT' | 'BULL_CALL_DEBIT' | 'BEAR_PUT_DEBIT' | 'IRON_CONDOR'
+  strategy?: string;           // 'BULL_PUT_CREDIT' | 'BEAR_CALL_CREDIT' | 'BULL_CALL_DEBIT' | 'BEAR_PUT_DEBIT' | 'IRON_CONDOR' | 'CALL_CALENDAR' | 'CALL_DIAGONAL'
 
   entry_price: number | null;  // credit received
   exit_price: number | null;   // debit paid to close
@@ -72,8 +73,30 @@ export interface TradeRow {
   origin?: string;
   // Managed: 1 = engine can auto-monitor/exit, 0 = engine must ignore
   managed?: number;
+  // IRON_CONDOR only: short_strike/long_strike hold the put wing, these the call wing
+  call_short_strike?: number | null;
+  call_long_strike?: number | null;
+  // IRON_CONDOR only: wing closed on its own while the other stays open, and the debit paid for it
+  closed_wing?: CondorWing | null;
+  wing_exit_price?: number | null;
+  // Time spreads (CALL_CALENDAR, CALL_DIAGONAL) only: expiration of the long leg;
+  // `expiration` is the short (front) leg
+  long_expiration?: string | null;
+  // Exit rules resolved at entry (JSON ExitProfileSnapshot, see core/exitProfiles.ts);
+  // NULL for trades opened before exit profiles or imported trades
+  exit_profile?: string | null;
+  // Exit execution (JSON ExitExecutionRecord, see engine/exitLadder.ts) and the
+  // fill's slippage versus current_mark at the trigger (positive = worse than mark)
+  exit_execution?: string | null;
+  exit_slippage?: number | null;
+  // Spreads already closed by partially filled exit ladders (no longer in quantity) and
+  // the sum of their fill price x quantity; folded into exit_price and realized_pnl on close
+  partial_exit_quantity?: number | null;
+  partial_exit_value?: number | null;
 }
 
+export type CondorWing = 'PUT' | 'CALL';
+
 export type ProposalStatus = 'READY' | 'INVALIDATED' | 'CONSUMED';
 
 export type ProposalKind = 'ENTRY' | 'EXIT';
@@ -86,7 +109,7 @@ export interface ProposalRow {
   long_strike: number;
   width: number;
   quantity: number;             // number of contracts (configurable, default 1)
-  strategy?: string;            // 'BULL_PUT_CREDIT' | 'BEAR_CALL_CREDIT' | 'BULL_CALL_DEBIT' | 'BEAR_PUT_DEBIT' | 'IRON_CONDOR'
+  strategy?: string;            // 'BULL_PUT_CREDIT' | 'BEAR_CALL_CREDIT' | 'BULL_CALL_DEBIT' | 'BEAR_PUT_DEBIT' | 'IRON_CONDOR' | 'CALL_CALENDAR' | 'CALL_DIAGONAL'
 
   credit_target: number;        // target entry credit
   score: number;                // composite score (0–1)
@@ -104,6 +127,21 @@ export interface ProposalRow {
   kind?: ProposalKind | null;   // 'ENTRY' | 'EXIT'
   linked_trade_id?: string | null;  // nullable - for exit proposals
   client_order_id?: string | null;  // nullable - the client_order_id we sent to Tradier
+  
+  // Volatility inputs at proposal time (for later analysis)
+  rv_30d?: number | null;           // realized vol used by the RV/IV gate (annualized)
+  rv_30d_parkinson?: number | null; // Parkinson RV over the same window
+  iv_30d?: number | null;           // ATM 30-day IV
+
+  // IRON_CONDOR only: call wing (short_strike/long_strike hold the put wing)
+  call_short_strike?: number | null;
+  call_long_strike?: number | null;
+
+  // Time spreads only: expiration of the long (back) leg
+  long_expiration?: string | null;
+
+  // Position sizing rationale (JSON SizingDecision from core/sizing.ts)
+  sizing?: string | null;
 }
 
 export type OrderStatus = 'PENDING' | 'PLACED' | 'PARTIAL' | 'FILLED' | 'CANCELLED' | 'REJECTED';
@@ -122,6 +160,11 @@ export interface OrderRow {
   filled_quantity: number;
   remaining_quantity: number;
   snapshot_id: string | null;   // Links to tradier_snapshots.id
+  // Entry limit walk: one row per step (see engine/limitWalk.ts)
+  limit_price?: number | null;  // limit sent for this step
+  mid_price?: number | null;    // spread mid when the step was priced
+  natural_price?: number | null; // spread natural (short bids - long asks) when priced
+  walk_step?: number | null;    // 0 = first step at mid
   created_at: string;           // ISO datetime
   updated_at: string;           // ISO datetime
 }
@@ -147,10 +190,31 @@ export interface PortfolioPositionRow {
   last_price: number | null;
   bid: number | null;                  // Current bid price (from option chain, updated during portfolio sync)
   ask: number | null;                  // Current ask price (from option chain, updated during portfolio sync)
+  // Per-contract greeks from the option chain (updated during portfolio sync)
+  delta?: number | null;
+  gamma?: number | null;
+  theta?: number | null;
+  vega?: number | null;
+  implied_volatility?: number | null;
   snapshot_id: string | null;           // Links to tradier_snapshots.id
   updated_at: string;                  // ISO timestamp
 }
 
+export interface PortfolioGreeksRow {
+  id: string;
+  as_of: string;                       // ISO timestamp
+  net_delta: number;                   // share-equivalent delta
+  net_gamma: number;                   // delta change per $1 underlying move
+  net_theta: number;                   // $ per day
+  net_vega: number;                    // $ per 1 vol point
+  spy_weighted_delta: number | null;   // net delta in SPY shares (beta-weighted)
+  positions: number;
+  missing_greeks: number;
+  by_symbol: string | null;            // JSON
+  by_trade: string | null;             // JSON
+  created_at: string;
+}
+
 export interface RiskStateRow {
   key: string;
   value: string;
@@ -198,6 +262,77 @@ export interface AccountSnapshotRow {
   source: string;
 }
 
+// Tradier balances written by each snapshot sync (account_balances)
+export interface AccountBalanceRow {
+  id: string;
+  account_id: string;
+  snapshot_id: string;
+  cash: number;
+  buying_power: number;
+  equity: number;
+  margin_requirement: number;
+  as_of: string;
+  created_at: string;
+}
+
+// Append-only record of a mutating HTTP request (audit_log, see core/audit.ts)
+export interface AuditLogRow {
+  id: string;
+  created_at: string;
+  actor: string | null;           // API key name (null = unauthenticated)
+  actor_role: string | null;
+  method: string;
+  path: string;
+  query: string | null;
+  status_code: number;
+  reason: string | null;
+  request_body: string | null;    // truncated
+  target_type: 'trade' | 'settings' | 'risk_state' | 'exit_profile' | 'strategy_config' | 'config_profile' | 'request';
+  target_id: string | null;
+  before_value: string | null;    // JSON
+  after_value: string | null;     // JSON
+}
+
+// Named settings + strategy enablement set (config_profiles, see core/configProfiles.ts)
+export interface ConfigProfileRow {
+  id: string;
+  name: string;
+  description: string | null;
+  settings: string;               // JSON {key: value}, registered settings only
+  strategies: string | null;      // JSON StrategyId[]; NULL = all strategies
+  created_at: string;
+  updated_at: string;
+}
+
+export type ConfigProfileSwitchAction = 'APPLY' | 'ROLLBACK';
+
+export type ConfigProfileSwitchStatus =
+  | 'SCHEDULED'
+  | 'APPLYING'
+  | 'APPLIED'
+  | 'ROLLED_BACK'                 // APPLY undone by a later ROLLBACK
+  | 'CANCELLED'
+  | 'FAILED';
+
+export interface ConfigProfileSwitchRow {
+  id: string;
+  action: ConfigProfileSwitchAction;
+  status: ConfigProfileSwitchStatus;
+  profile_id: string | null;      // profile active after the switch (null = none)
+  profile_name: string | null;
+  previous_profile_id: string | null;
+  previous_profile_name: string | null;
+  rollback_of: string | null;     // APPLY switch undone (ROLLBACK only)
+  activate_at: string;            // ISO; creation time for immediate switches
+  previous_values: string | null; // JSON {key: value | null} before the switch
+  changes: string | null;         // JSON [{key, from, to}]
+  actor: string | null;           // API key name (null = cron)
+  reason: string | null;
+  error: string | null;
+  created_at: string;
+  applied_at: string | null;
+}
+
 export interface DailySummaryRow {
   date: string;              // YYYY-MM-DD in ET
   generated_at: string;       // ISO timestamp
@@ -205,6 +340,56 @@ export interface DailySummaryRow {
   created_at: string;         // ISO timestamp
 }
 
+export interface IVHistoryRow {
+  symbol: string;
+  date: string;               // YYYY-MM-DD in ET
+  iv_30d: number;             // ATM constant-maturity 30-day IV (decimal, e.g. 0.18)
+  underlying_price: number | null;
+  near_expiration: string | null;
+  far_expiration: string | null;
+  captured_at: string;        // ISO timestamp
+}
+
+export interface DailyBarRow {
+  symbol: string;
+  date: string;               // YYYY-MM-DD (session date)
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number;
+  volume: number | null;
+  updated_at: string;         // ISO timestamp
+}
+
+export interface ExitProfileRow {
+  id: string;                               // UUID
+  strategy: string;
+  symbol: string | null;                    // NULL = every symbol for the strategy
+  version: number;                          // 1, 2, ... per (strategy, symbol)
+  active: number;                           // 1 = current version, 0 = superseded or removed
+  // Exit rules; NULL = inherit (strategy-wide profile, then CLOSE_RULE_* settings)
+  profit_target_fraction: number | null;
+  stop_loss_fraction: number | null;
+  trail_arm_profit_fraction: number | null;
+  trail_giveback_fraction: number | null;
+  time_exit_dte: number | null;
+  time_exit_cutoff: string | null;          // HH:MM ET
+  iv_crush_threshold: number | null;
+  iv_crush_min_pnl: number | null;
+  notes: string | null;
+  created_at: string;                       // ISO timestamp
+}
+
+export interface StrategyConfigRow {
+  id: string;                               // UUID
+  strategy: string;
+  version: number;                          // 1, 2, ... per strategy
+  active: number;                           // 1 = current version, 0 = superseded or reset
+  config: string;                           // JSON StrategyConfig (without id)
+  notes: string | null;
+  created_at: string;                       // ISO timestamp
+}
+
 // ============================================================================
 // Broker Layer Interfaces
 // ============================================================================
@@ -234,6 +419,10 @@ export interface OptionQuote {
 
   delta: number | null;
   implied_volatility: number | null;
+  // Per-contract greeks from the Tradier chain (greeks=true); absent in older snapshots/fixtures
+  gamma?: number | null;
+  theta?: number | null;           // $ per share per day
+  vega?: number | null;            // $ per share per 1 vol point
 }
 
 export type BrokerOrderStatus =
@@ -270,7 +459,7 @@ export interface PlaceSpreadOrderParams {
   symbol: string;           // 'SPY'
   side: SpreadSide;         // ENTRY or EXIT
   limit_price?: number;      // Optional: required for limit orders, omitted for market orders
-  legs: [SpreadLeg, SpreadLeg];  // exactly 2 legs
+  legs: SpreadLeg[];        // 2 legs (vertical) or 4 legs (IRON_CONDOR)
   tag: string;              // 'GEKKOWORKS-ENTRY' or 'GEKKOWORKS-EXIT'
   strategy?: string;        // Optional: 'BULL_PUT_CREDIT' | 'BULL_CALL_DEBIT' | etc. - used to determine order type
   order_type?: 'limit' | 'market';  // Optional: 'limit' (default) or 'market' for forced closes
@@ -301,6 +490,63 @@ export interface BrokerClient {
   getPositions(): Promise<BrokerPosition[]>;
 
   getAllOrders(filter?: 'all' | 'intraday', startDate?: string, endDate?: string): Promise<BrokerOrder[]>;
+
+  cancelOrder(orderId: string): Promise<void>;
+
+  getBalances(): Promise<BrokerBalances>;
+}
+
+export interface BrokerBalances {
+  cash: number;
+  buying_power: number;
+  equity: number;
+  margin_requirement: number;
+}
+
+export interface BrokerGainLoss {
+  symbol: string;
+  gain_loss: number;
+  open_date?: string;
+  close_date?: string;
+}
+
+/**
+ * Broker surface used by the engines
+ * 
+ * BrokerClient plus the Tradier-specific helpers that entry, exits and the sync
+ * engines rely on. Implemented by TradierClient and SimulatedBroker.
+ */
+export interface EngineBroker extends BrokerClient {
+  getOpenOrders(): Promise<BrokerOrder[]>;
+
+  // Raw Tradier-shaped order (tag, class, leg[], ...)
+  getOrderWithLegs(orderId: string): Promise<any>;
+
+  placeSingleLegCloseOrder(params: {
+    symbol: string;
+    option_symbol: string;
+    side: 'buy_to_close' | 'sell_to_close';
+    quantity: number;
+    tag: string;
+  }): Promise<BrokerOrder>;
+
+  getGainLoss(params: { start: string; end: string }): Promise<BrokerGainLoss[]>;
+
+  getHistoricalData(
+    symbol: string,
+    startDate: string,
+    endDate: string
+  ): Promise<HistoricalBar[]>;
+}
+
+// Daily bar from /markets/history (open/high/low/volume when the feed has them)
+export interface HistoricalBar {
+  date: string;      // YYYY-MM-DD
+  open?: number;
+  high?: number;
+  low?: number;
+  close: number;
+  volume?: number;
 }
 
 // ============================================================================
@@ -314,25 +560,29 @@ export interface CandidateMetrics {
   short_strike: number;
   long_strike: number;
   width: number;
+  credit: number;              // net credit (negative for debit strategies)
+
+  // Volatility
+  ivr: number;                 // IV rank (0-1), NEUTRAL_IVR when history is short
+  rv_30d: number;
+  iv_30d: number;
+  vertical_skew: number;       // short vs long leg IV (0 for time spreads)
+  verticalSkew: number;        // alias of vertical_skew (older scoring code)
+  term_structure: number;      // front vs back IV (time spreads; 0 for verticals)
 
-  // Pricing
-  short_bid: number;
-  short_ask: number;
-  long_bid: number;
-  long_ask: number;
+  // Liquidity
+  short_pct_spread: number;    // bid/ask spread as a fraction of mid (worst short leg)
+  long_spread: number;         // long leg ask - bid (worst long leg)
+  long_pct_spread: number;
 
-  // Greeks
-  short_delta: number | null;
-  long_delta: number | null;
-  short_iv: number | null;
-  long_iv: number | null;
+  // Greeks (IRON_CONDOR: the wing with the larger short delta)
+  delta_short: number;         // negative for puts, positive for calls
+  delta_long?: number;
 
   // Computed
-  credit: number;              // short_bid - long_ask
-  debit: number;               // long_bid - short_ask
-  mid_price: number;           // (credit + debit) / 2
-  max_profit: number;          // credit (for credit spreads)
-  max_loss: number;            // width - credit (for credit spreads)
+  pop: number;                 // probability of profit (0-1)
+  max_profit: number;          // per spread, credit for credit spreads
+  max_loss: number;            // per spread, width - credit for credit spreads
 }
 
 export interface CandidateScoring {
@@ -381,24 +631,31 @@ export type ExitTriggerType =
   | 'TRAIL_PROFIT'
   | 'LOW_VALUE_CLOSE'
   | 'EMERGENCY'
-  | 'STRUCTURAL_BREAK';
+  | 'STRUCTURAL_BREAK'
+  | 'WING_DEFENSE'      // IRON_CONDOR: close only the threatened wing (see decision.wing)
+  | 'ASSIGNMENT_RISK'   // Time spreads: front short call ITM with little extrinsic left
+  | 'FRONT_EXPIRY';     // Time spreads: front (short) leg about to expire
 
 export interface MonitoringMetrics {
   current_mark: number;
   unrealized_pnl: number;
   pnl_fraction: number;
   loss_fraction: number;
-  dte: number;
+  dte: number;                  // calendar days (computeDTE)
+  trading_dte?: number;         // trading sessions left, fractional (computeTradingDTE)
   underlying_price: number;
   underlying_change_1m: number;
   underlying_change_15s: number;
   liquidity_ok: boolean;
   quote_integrity_ok: boolean;
+  // Time spreads: extrinsic value left in the front short call (mid - intrinsic)
+  short_extrinsic?: number;
 }
 
 export interface MonitoringDecision {
   trigger: ExitTriggerType;
   metrics: MonitoringMetrics;
+  wing?: CondorWing;    // Set for WING_DEFENSE
 }
 
 export interface EntryAttemptResult {